@@ -0,0 +1,186 @@
+"use client";
+
+import type { AvailabilityRule } from "@/domain/product/ProductAvailability";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+/** Form state of an availability rule — inputs hold strings. */
+export interface AvailabilityFormValues {
+  weekdays: number[];
+  availableFrom: string;
+  availableUntil: string;
+  leadTimeDays: string;
+}
+
+interface Props {
+  /** Prefixes the input ids, e.g. "product" or "category". */
+  idPrefix: string;
+  values: AvailabilityFormValues;
+  onChange: (values: AvailabilityFormValues) => void;
+  /** Field errors from the parent form's validation. */
+  error?: string;
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+const WEEKDAYS = ["Dom", "Seg", "Ter", "Qua", "Qui", "Sex", "Sáb"];
+
+const INPUT_CLASS =
+  "rounded-lg border border-line bg-surface px-3 py-2 text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-accent/30";
+
+export function toAvailabilityForm(
+  rule: AvailabilityRule,
+): AvailabilityFormValues {
+  return {
+    weekdays: rule.availableWeekdays,
+    availableFrom: rule.availableFrom ?? "",
+    availableUntil: rule.availableUntil ?? "",
+    leadTimeDays: rule.leadTimeDays != null ? String(rule.leadTimeDays) : "",
+  };
+}
+
+export function toAvailabilityPayload(
+  values: AvailabilityFormValues,
+): AvailabilityRule {
+  return {
+    availableWeekdays: values.weekdays,
+    availableFrom: values.availableFrom || null,
+    availableUntil: values.availableUntil || null,
+    leadTimeDays:
+      values.leadTimeDays.trim() === "" ? null : Number(values.leadTimeDays),
+  };
+}
+
+/** Client-side check mirroring validateAvailabilityRule; null when valid. */
+export function availabilityFormError(
+  values: AvailabilityFormValues,
+): string | null {
+  if (
+    values.availableFrom &&
+    values.availableUntil &&
+    values.availableUntil < values.availableFrom
+  ) {
+    return "A data final deve ser igual ou posterior à inicial.";
+  }
+  const lead = values.leadTimeDays.trim();
+  if (lead !== "" && (!Number.isInteger(Number(lead)) || Number(lead) < 0)) {
+    return "Antecedência deve ser um número inteiro de dias (0 ou mais).";
+  }
+  return null;
+}
+
+// ─── Component ────────────────────────────────────────────────────────────────
+
+/**
+ * AvailabilityFields — weekdays, date range and lead time of a product or
+ * category.  Every field is optional: no weekday picked means every day,
+ * empty dates mean no bound and an empty lead time falls back to the
+ * store's minimum advance.
+ */
+export function AvailabilityFields({
+  idPrefix,
+  values,
+  onChange,
+  error,
+}: Props) {
+  function toggleWeekday(day: number) {
+    onChange({
+      ...values,
+      weekdays: values.weekdays.includes(day)
+        ? values.weekdays.filter((d) => d !== day)
+        : [...values.weekdays, day].sort((a, b) => a - b),
+    });
+  }
+
+  return (
+    <fieldset className="flex flex-col gap-3">
+      <legend className="mb-1 text-sm font-medium text-foreground">
+        Disponibilidade{" "}
+        <span className="text-xs font-normal text-foreground-muted">
+          (opcional)
+        </span>
+      </legend>
+
+      <div className="flex flex-col gap-1.5">
+        <span className="text-xs text-foreground-muted">
+          Dias em que é produzido — nenhum marcado = todos os dias
+        </span>
+        <div className="flex flex-wrap gap-1.5">
+          {WEEKDAYS.map((label, day) => {
+            const selected = values.weekdays.includes(day);
+            return (
+              <button
+                key={label}
+                type="button"
+                aria-pressed={selected}
+                onClick={() => toggleWeekday(day)}
+                className={`rounded-full border px-3 py-1 text-xs font-medium transition-colors ${
+                  selected
+                    ? "border-accent bg-accent text-white"
+                    : "border-line bg-surface text-foreground-muted hover:bg-surface-subtle"
+                }`}
+              >
+                {label}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-3">
+        <label
+          htmlFor={`${idPrefix}-available-from`}
+          className="flex flex-col gap-1"
+        >
+          <span className="text-xs text-foreground-muted">A partir de</span>
+          <input
+            id={`${idPrefix}-available-from`}
+            type="date"
+            value={values.availableFrom}
+            onChange={(e) =>
+              onChange({ ...values, availableFrom: e.target.value })
+            }
+            className={INPUT_CLASS}
+          />
+        </label>
+        <label
+          htmlFor={`${idPrefix}-available-until`}
+          className="flex flex-col gap-1"
+        >
+          <span className="text-xs text-foreground-muted">Até</span>
+          <input
+            id={`${idPrefix}-available-until`}
+            type="date"
+            value={values.availableUntil}
+            onChange={(e) =>
+              onChange({ ...values, availableUntil: e.target.value })
+            }
+            className={INPUT_CLASS}
+          />
+        </label>
+        <label
+          htmlFor={`${idPrefix}-lead-time`}
+          className="flex flex-col gap-1"
+        >
+          <span className="text-xs text-foreground-muted">
+            Antecedência (dias)
+          </span>
+          <input
+            id={`${idPrefix}-lead-time`}
+            type="number"
+            min={0}
+            step={1}
+            value={values.leadTimeDays}
+            placeholder="Padrão da loja"
+            onChange={(e) =>
+              onChange({ ...values, leadTimeDays: e.target.value })
+            }
+            className={`${INPUT_CLASS} w-36`}
+          />
+        </label>
+      </div>
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </fieldset>
+  );
+}
@@ -9,6 +9,7 @@
  * Handles every lifecycle transition in a single component:
  *   pending           → Aprovar (awaiting_payment) | Rejeitar
  *   awaiting_payment  → Marcar como Pago | Rejeitar
+ *   partially_paid    → Marcar como Pago
  *   paid              → Marcar como Entregue
  *   delivered         → terminal (read-only)
  *   rejected          → terminal (read-only)
@@ -19,11 +20,17 @@
  *   • Optimistic status update — badge & tracker flip immediately.
  *   • Reverts on failure with an inline error banner.
  *   • WhatsApp deep-link opens automatically after approve/reject.
- *   • Visual progress tracker (OrderStatusTracker) shown when APPROVED.
+ *   • Rejection asks for an optional reason, stored in the status history.
+ *   • Collapsible status history (OrderStatusTracker) built from the
+ *     recorded changes of the order.
  */
 
 import { useTransition, useState, useRef, useEffect } from "react";
 import { OrderStatus, OrderTrackingStatus } from "@/domain/order/Order";
+import {
+  STATUS_REASON_MAX_LENGTH,
+  type OrderStatusLog,
+} from "@/domain/order/OrderStatusLog";
 import {
   updateOrderStatus,
   updateOrderTrackingStatus,
@@ -46,6 +53,8 @@ interface ActionDef {
   variant: "green" | "blue" | "red" | "ghost";
   dialogTitle: string;
   dialogMessage: string;
+  /** Shows an optional "Motivo" field in the confirmation dialog. */
+  askReason?: boolean;
 }
 
 const ALL_ACTIONS: Record<ActionKey, ActionDef> = {
@@ -80,6 +89,7 @@ const ALL_ACTIONS: Record<ActionKey, ActionDef> = {
     dialogTitle: "Rejeitar pedido",
     dialogMessage:
       "Isso recusará o pedido. Use apenas se o pedido não puder ser atendido. Esta ação não pode ser desfeita.",
+    askReason: true,
   },
 };
 
@@ -90,6 +100,8 @@ function actionsForStatus(unified: UnifiedStatus): ActionDef[] {
       return [ALL_ACTIONS.approve, ALL_ACTIONS.reject];
     case "awaiting_payment":
       return [ALL_ACTIONS.mark_paid, ALL_ACTIONS.reject];
+    case "partially_paid":
+      return [ALL_ACTIONS.mark_paid];
     case "paid":
       return [ALL_ACTIONS.mark_delivered];
     default:
@@ -136,6 +148,8 @@ interface OrderStatusManagerProps {
   approvalWaUrl: string;
   /** Pre-computed wa.me URL for the rejection WhatsApp message. */
   rejectionWaUrl: string;
+  /** Recorded status changes, oldest first. */
+  history: OrderStatusLog[];
 }
 
 // ─── Component ────────────────────────────────────────────────────────────────
@@ -146,6 +160,7 @@ export function OrderStatusManager({
   initialTrackingStatus,
   approvalWaUrl,
   rejectionWaUrl,
+  history,
 }: OrderStatusManagerProps) {
   const [decisionStatus, setDecisionStatus] = useState<OrderStatus>(
     initialDecisionStatus,
@@ -184,7 +199,7 @@ export function OrderStatusManager({
     setDialogAction(null);
   }
 
-  function handleDialogConfirm() {
+  function handleDialogConfirm(reason: string) {
     if (!dialogAction) return;
     const action = dialogAction;
     setDialogAction(null);
@@ -216,7 +231,11 @@ export function OrderStatusManager({
         setDecisionStatus(OrderStatus.REJECTED);
         setTrackingStatus(null);
 
-        const res = await updateOrderStatus(orderId, OrderStatus.REJECTED);
+        const res = await updateOrderStatus(
+          orderId,
+          OrderStatus.REJECTED,
+          reason,
+        );
         if (!res.success) {
           revert();
           setError(res.error);
@@ -325,50 +344,44 @@ export function OrderStatusManager({
           <StatusIcon unified={unified} />
         </div>
 
-        {/* Progress tracker — collapsible, collapsed by default */}
-        {decisionStatus === OrderStatus.APPROVED && (
-          <div className="border-t border-line">
-            <button
-              type="button"
-              onClick={() => setIsHistoryOpen((prev) => !prev)}
-              className="flex w-full items-center justify-between px-5 py-3 text-left hover:bg-surface-hover transition-colors"
-              aria-expanded={isHistoryOpen}
-              aria-controls="status-history-content"
-            >
-              <div>
-                <p className="text-sm font-semibold text-foreground">
-                  Histórico de Status
-                </p>
-                <p className="text-xs text-foreground-muted">
-                  Ver alterações de status
-                </p>
-              </div>
-              <ChevronDownIcon
-                className={[
-                  "h-4 w-4 text-foreground-muted transition-transform duration-200",
-                  isHistoryOpen ? "rotate-180" : "",
-                ].join(" ")}
-              />
-            </button>
-            <div
-              id="status-history-content"
+        {/* Status history — collapsible, collapsed by default */}
+        <div className="border-t border-line">
+          <button
+            type="button"
+            onClick={() => setIsHistoryOpen((prev) => !prev)}
+            className="flex w-full items-center justify-between px-5 py-3 text-left hover:bg-surface-hover transition-colors"
+            aria-expanded={isHistoryOpen}
+            aria-controls="status-history-content"
+          >
+            <div>
+              <p className="text-sm font-semibold text-foreground">
+                Histórico de Status
+              </p>
+              <p className="text-xs text-foreground-muted">
+                Ver alterações de status
+              </p>
+            </div>
+            <ChevronDownIcon
               className={[
-                "grid transition-[grid-template-rows] duration-200",
-                isHistoryOpen ? "grid-rows-[1fr]" : "grid-rows-[0fr]",
+                "h-4 w-4 text-foreground-muted transition-transform duration-200",
+                isHistoryOpen ? "rotate-180" : "",
               ].join(" ")}
-            >
-              <div className="overflow-hidden">
-                <div className="px-5 pb-5">
-                  <OrderStatusTracker
-                    currentStatus={
-                      trackingStatus ?? OrderTrackingStatus.PENDING
-                    }
-                  />
-                </div>
+            />
+          </button>
+          <div
+            id="status-history-content"
+            className={[
+              "grid transition-[grid-template-rows] duration-200",
+              isHistoryOpen ? "grid-rows-[1fr]" : "grid-rows-[0fr]",
+            ].join(" ")}
+          >
+            <div className="overflow-hidden">
+              <div className="px-5 pb-5">
+                <OrderStatusTracker history={history} />
               </div>
             </div>
           </div>
-        )}
+        </div>
 
         {/* Feedback banners */}
         {(error || success || pendingWaUrl) && (
@@ -474,7 +487,7 @@ export function OrderStatusManager({
 
 interface ConfirmationDialogProps {
   action: ActionDef;
-  onConfirm: () => void;
+  onConfirm: (reason: string) => void;
   onCancel: () => void;
   isPending: boolean;
 }
@@ -485,6 +498,8 @@ function ConfirmationDialog({
   onCancel,
   isPending,
 }: ConfirmationDialogProps) {
+  const [reason, setReason] = useState("");
+
   // Close on Escape key
   useEffect(() => {
     function handleKey(e: KeyboardEvent) {
@@ -546,6 +561,28 @@ function ConfirmationDialog({
           </div>
         </div>
 
+        {/* Optional reason */}
+        {action.askReason && (
+          <div className="space-y-1">
+            <label
+              htmlFor="dialog-reason"
+              className="text-xs font-semibold text-foreground"
+            >
+              Motivo (opcional)
+            </label>
+            <textarea
+              id="dialog-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              maxLength={STATUS_REASON_MAX_LENGTH}
+              rows={3}
+              disabled={isPending}
+              placeholder="Ex.: sem disponibilidade para a data escolhida"
+              className="w-full resize-none rounded-xl border border-line bg-surface px-3 py-2 text-sm text-foreground placeholder:text-foreground-muted focus:outline-none focus:ring-2 focus:ring-black/10 disabled:opacity-50"
+            />
+          </div>
+        )}
+
         {/* Buttons */}
         <div className="flex flex-col-reverse sm:flex-row gap-2 pt-1">
           <button
@@ -558,7 +595,7 @@ function ConfirmationDialog({
           </button>
           <button
             type="button"
-            onClick={onConfirm}
+            onClick={() => onConfirm(reason)}
             disabled={isPending}
             className={[
               "flex-1 flex items-center justify-center gap-2 rounded-xl px-4 py-2.5 text-sm font-semibold transition-all",
@@ -593,6 +630,10 @@ function StatusIcon({ unified }: { unified: UnifiedStatus }) {
         bg: "bg-orange-100",
         icon: <BanknoteIcon className="h-5 w-5 text-orange-600" />,
       },
+      partially_paid: {
+        bg: "bg-yellow-100",
+        icon: <BanknoteIcon className="h-5 w-5 text-yellow-700" />,
+      },
       paid: {
         bg: "bg-green-100",
         icon: <CheckCircleIcon className="h-5 w-5 text-green-700" />,
@@ -4,13 +4,15 @@ import { OrderStatus, OrderTrackingStatus } from "@/domain/order/Order";
 //
 // The backend models the order lifecycle as two orthogonal FSMs:
 //   • OrderStatus        — decision layer (PENDING / APPROVED / REJECTED)
-//   • OrderTrackingStatus — operational layer (PENDING / PAID / DELIVERED / CANCELLED)
+//   • OrderTrackingStatus — operational layer (PENDING / PARTIALLY_PAID / PAID /
+//                           DELIVERED / CANCELLED)
 //
-// For the UI we collapse these into a single 5-state display concept so
-// store staff see one clear status label per order instead of two.
+// For the UI we collapse these into a single display concept so store staff
+// see one clear status label per order instead of two.
 //
 //   pending          = OrderStatus.PENDING
 //   awaiting_payment = OrderStatus.APPROVED + tracking PENDING (or null)
+//   partially_paid   = OrderStatus.APPROVED + tracking PARTIALLY_PAID
 //   paid             = OrderStatus.APPROVED + tracking PAID
 //   delivered        = OrderStatus.APPROVED + tracking DELIVERED
 //   cancelled        = OrderStatus.APPROVED + tracking CANCELLED
@@ -19,6 +21,7 @@ import { OrderStatus, OrderTrackingStatus } from "@/domain/order/Order";
 export type UnifiedStatus =
   | "pending"
   | "awaiting_payment"
+  | "partially_paid"
   | "paid"
   | "delivered"
   | "cancelled"
@@ -38,6 +41,8 @@ export function getUnifiedStatus(
   if (status === OrderStatus.PENDING) return "pending";
   // APPROVED — delegate to the tracking layer
   switch (orderStatus) {
+    case OrderTrackingStatus.PARTIALLY_PAID:
+      return "partially_paid";
     case OrderTrackingStatus.PAID:
       return "paid";
     case OrderTrackingStatus.DELIVERED:
@@ -72,6 +77,11 @@ export const UNIFIED_STATUS_CONFIG: Record<UnifiedStatus, StatusMeta> = {
     badgeClass: "bg-orange-100 text-orange-700",
     accentClass: "border-l-orange-400",
   },
+  partially_paid: {
+    label: "Pago parcial",
+    badgeClass: "bg-yellow-100 text-yellow-800",
+    accentClass: "border-l-yellow-400",
+  },
   paid: {
     label: "Pago",
     badgeClass: "bg-green-100 text-green-800",
@@ -107,7 +117,7 @@ export const STATUS_CONFIG = {
 interface StatusBadgeProps {
   status: OrderStatus;
   /**
-   * Pass the tracking status so the badge can show the full 5-state label.
+   * Pass the tracking status so the badge can show the full unified label.
    * Omit (or pass null) to fall back to the decision-only label.
    */
   orderStatus?: OrderTrackingStatus | null;
@@ -34,7 +34,7 @@ export interface OrderViewModel {
    * CANCELLED = cancelled after approval
    */
   orderStatus: OrderTrackingStatus | null;
-  /** Pre-computed sum: (unitPrice − discountAmount) × quantity, in BRL. */
+  /** Order total in BRL — see computeOrderGrandTotal (weighing and delivery fee included). */
   totalAmount: number;
   /** Pre-formatted item labels: ["2× Bolo de Chocolate (Médio)", "1× Brigadeiro"] */
   products: string[]; /**
@@ -0,0 +1,126 @@
+"use client";
+
+/**
+ * ChangePasswordForm — changes the signed-in user's password.
+ *
+ * Every other device is signed out; this one stays signed in with a new
+ * session, set by the action.
+ */
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { changePassword } from "../actions";
+
+const inputClass =
+  "w-full rounded-md border border-line bg-surface px-3 py-1.5 text-sm text-foreground focus:border-accent focus:outline-none";
+
+const labelClass =
+  "block text-xs font-medium uppercase tracking-wide text-foreground-muted";
+
+export function ChangePasswordForm() {
+  const router = useRouter();
+  const [currentPassword, setCurrentPassword] = useState("");
+  const [newPassword, setNewPassword] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+  const [saved, setSaved] = useState(false);
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setError("");
+    setSaved(false);
+    if (newPassword !== confirmation) {
+      setError("A confirmação não confere com a nova senha.");
+      return;
+    }
+    setLoading(true);
+    const result = await changePassword(currentPassword, newPassword);
+    setLoading(false);
+    if (!result.success) {
+      setError(result.error);
+      return;
+    }
+    setSaved(true);
+    setCurrentPassword("");
+    setNewPassword("");
+    setConfirmation("");
+    router.refresh();
+  }
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="rounded-lg border border-line bg-surface p-4 space-y-4"
+    >
+      <div className="space-y-1">
+        <h2 className="text-base font-semibold text-foreground">
+          Alterar senha
+        </h2>
+        <p className="text-sm text-foreground-muted">
+          Os outros dispositivos conectados serão desconectados.
+        </p>
+      </div>
+
+      <div className="space-y-1">
+        <label htmlFor="current-password" className={labelClass}>
+          Senha atual
+        </label>
+        <input
+          id="current-password"
+          type="password"
+          autoComplete="current-password"
+          required
+          value={currentPassword}
+          onChange={(e) => setCurrentPassword(e.target.value)}
+          className={inputClass}
+        />
+      </div>
+
+      <div className="grid gap-3 sm:grid-cols-2">
+        <div className="space-y-1">
+          <label htmlFor="new-password" className={labelClass}>
+            Nova senha
+          </label>
+          <input
+            id="new-password"
+            type="password"
+            autoComplete="new-password"
+            required
+            minLength={8}
+            value={newPassword}
+            onChange={(e) => setNewPassword(e.target.value)}
+            className={inputClass}
+          />
+        </div>
+        <div className="space-y-1">
+          <label htmlFor="confirm-password" className={labelClass}>
+            Confirme a nova senha
+          </label>
+          <input
+            id="confirm-password"
+            type="password"
+            autoComplete="new-password"
+            required
+            value={confirmation}
+            onChange={(e) => setConfirmation(e.target.value)}
+            className={inputClass}
+          />
+        </div>
+      </div>
+
+      {error && <p className="text-xs text-danger">{error}</p>}
+      {saved && (
+        <p className="text-xs text-foreground-muted">Senha alterada.</p>
+      )}
+
+      <button
+        type="submit"
+        disabled={loading}
+        className="rounded-md bg-accent px-4 py-1.5 text-sm font-medium text-white hover:bg-accent/90 disabled:opacity-50 transition-colors"
+      >
+        {loading ? "Salvando..." : "Alterar senha"}
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,81 @@
+"use client";
+
+/**
+ * EmailVerificationCard — the user's email and whether it was confirmed.
+ *
+ * Unconfirmed addresses can get a new verification link; the previous one
+ * stops working.
+ */
+
+import { useState } from "react";
+import { resendVerificationEmail } from "../actions";
+
+const fmtDate = (d: Date) =>
+  d.toLocaleDateString("pt-BR", { timeZone: "America/Sao_Paulo" });
+
+interface EmailVerificationCardProps {
+  email: string;
+  verifiedAt: Date | null;
+}
+
+export function EmailVerificationCard({
+  email,
+  verifiedAt,
+}: EmailVerificationCardProps) {
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+  const [sent, setSent] = useState(false);
+
+  async function handleResend() {
+    setLoading(true);
+    setError("");
+    const result = await resendVerificationEmail();
+    setLoading(false);
+    if (!result.success) {
+      setError(result.error);
+      return;
+    }
+    setSent(true);
+  }
+
+  return (
+    <section className="rounded-lg border border-line bg-surface p-4 space-y-2">
+      <div className="flex items-center justify-between gap-3">
+        <div className="min-w-0">
+          <h2 className="text-base font-semibold text-foreground">E-mail</h2>
+          <p className="truncate text-sm text-foreground">{email}</p>
+        </div>
+        {verifiedAt ? (
+          <span className="shrink-0 rounded-full bg-accent/15 px-2 py-0.5 text-xs font-medium text-accent">
+            Confirmado em {fmtDate(verifiedAt)}
+          </span>
+        ) : (
+          <span className="shrink-0 rounded-full bg-amber-100 px-2 py-0.5 text-xs font-medium text-amber-800">
+            Não confirmado
+          </span>
+        )}
+      </div>
+
+      {!verifiedAt && (
+        <>
+          <p className="text-sm text-foreground-muted">
+            {sent
+              ? "Enviamos um novo link. Confira sua caixa de entrada e o spam."
+              : "Confirme seu e-mail para garantir que você consiga recuperar a senha."}
+          </p>
+          {!sent && (
+            <button
+              type="button"
+              onClick={handleResend}
+              disabled={loading}
+              className="rounded-md border border-line bg-surface px-3 py-1.5 text-sm font-medium text-foreground hover:bg-surface-hover disabled:opacity-50 transition-colors"
+            >
+              {loading ? "Enviando..." : "Reenviar link de confirmação"}
+            </button>
+          )}
+          {error && <p className="text-xs text-danger">{error}</p>}
+        </>
+      )}
+    </section>
+  );
+}
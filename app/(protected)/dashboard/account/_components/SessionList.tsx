@@ -0,0 +1,168 @@
+"use client";
+
+/**
+ * SessionList — the devices signed in to the user's account ("sessões
+ * ativas").
+ *
+ * Any other session can be ended at once; "Sair de todos os dispositivos"
+ * ends them all, this one included, and goes back to the login page.
+ */
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import type { AuthSession } from "@/domain/auth/AuthSession";
+import { revokeAllSessions, revokeSession } from "../actions";
+
+const fmtDateTime = (d: Date) =>
+  d.toLocaleString("pt-BR", {
+    timeZone: "America/Sao_Paulo",
+    day: "2-digit",
+    month: "2-digit",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+/** "Chrome · Windows" from a user agent — good enough to tell devices apart. */
+function describeDevice(userAgent: string | null): string {
+  if (!userAgent) return "Dispositivo desconhecido";
+  const browser = /Edg\//.test(userAgent)
+    ? "Edge"
+    : /Chrome\//.test(userAgent)
+      ? "Chrome"
+      : /Firefox\//.test(userAgent)
+        ? "Firefox"
+        : /Safari\//.test(userAgent)
+          ? "Safari"
+          : "Navegador";
+  const os = /Android/.test(userAgent)
+    ? "Android"
+    : /iPhone|iPad/.test(userAgent)
+      ? "iOS"
+      : /Windows/.test(userAgent)
+        ? "Windows"
+        : /Mac OS X/.test(userAgent)
+          ? "macOS"
+          : /Linux/.test(userAgent)
+            ? "Linux"
+            : null;
+  return os ? `${browser} · ${os}` : browser;
+}
+
+// ─── SessionList ──────────────────────────────────────────────────────────────
+
+interface SessionListProps {
+  sessions: AuthSession[];
+  /** The session of this device. */
+  currentSessionId: string;
+}
+
+export function SessionList({ sessions, currentSessionId }: SessionListProps) {
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  async function handleRevokeAll() {
+    if (!confirm("Sair de todos os dispositivos, incluindo este?")) return;
+    setLoading(true);
+    setError("");
+    const result = await revokeAllSessions();
+    setLoading(false);
+    if (!result.success) {
+      setError(result.error);
+      return;
+    }
+    window.location.href = "/login";
+  }
+
+  return (
+    <section className="space-y-2">
+      <div className="flex items-center justify-between gap-3">
+        <h2 className="text-base font-semibold text-foreground">
+          Sessões ativas
+        </h2>
+        <button
+          type="button"
+          onClick={handleRevokeAll}
+          disabled={loading}
+          className="shrink-0 rounded-full px-3 py-1 text-xs font-medium text-foreground-muted hover:bg-red-50 hover:text-red-700 transition-colors disabled:opacity-50"
+        >
+          Sair de todos os dispositivos
+        </button>
+      </div>
+      {error && <p className="px-1 text-xs text-danger">{error}</p>}
+      <ul className="space-y-2">
+        {sessions.map((session) => (
+          <SessionRow
+            key={session.id}
+            session={session}
+            current={session.id === currentSessionId}
+          />
+        ))}
+      </ul>
+    </section>
+  );
+}
+
+// ─── SessionRow ───────────────────────────────────────────────────────────────
+
+function SessionRow({
+  session,
+  current,
+}: {
+  session: AuthSession;
+  current: boolean;
+}) {
+  const router = useRouter();
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  async function handleRevoke() {
+    if (!confirm("Encerrar esta sessão?")) return;
+    setLoading(true);
+    setError("");
+    const result = await revokeSession(session.id);
+    setLoading(false);
+    if (!result.success) {
+      setError(result.error);
+      return;
+    }
+    router.refresh();
+  }
+
+  return (
+    <li className="flex flex-col gap-1">
+      <div className="flex items-center justify-between gap-3 rounded-lg border border-line bg-surface px-4 py-3">
+        <div className="min-w-0 flex-1">
+          <p className="truncate text-sm font-medium text-foreground">
+            {describeDevice(session.userAgent)}
+            {session.ipAddress && (
+              <span className="font-normal text-foreground-muted">
+                {" "}
+                · {session.ipAddress}
+              </span>
+            )}
+          </p>
+          <p className="text-xs text-foreground-muted">
+            Entrou em {fmtDateTime(session.createdAt)} · último acesso{" "}
+            {fmtDateTime(session.lastUsedAt)}
+          </p>
+        </div>
+        {current ? (
+          <span className="shrink-0 rounded-full bg-accent/15 px-2 py-0.5 text-xs font-medium text-accent">
+            Este dispositivo
+          </span>
+        ) : (
+          <button
+            type="button"
+            onClick={handleRevoke}
+            disabled={loading}
+            className="shrink-0 rounded-full px-3 py-1 text-xs font-medium text-foreground-muted hover:bg-red-50 hover:text-red-700 transition-colors disabled:opacity-50"
+          >
+            Encerrar
+          </button>
+        )}
+      </div>
+      {error && <p className="px-1 text-xs text-danger">{error}</p>}
+    </li>
+  );
+}
@@ -0,0 +1,101 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { cookies, headers } from "next/headers";
+import { getActionSession } from "@/infra/http/auth/getSession";
+import { sessionClientFrom } from "@/infra/http/auth/sessionClient";
+import {
+  clearAuthCookie,
+  setSessionCookies,
+} from "@/infra/http/cookies/authCookie";
+import { signToken } from "@/infra/security/tokenService";
+import {
+  changePasswordUseCase,
+  sendEmailVerificationUseCase,
+  revokeSessionUseCase,
+  revokeAllSessionsUseCase,
+} from "@/infra/composition";
+import { AppError } from "@/shared/errors/AppError";
+
+export type AccountActionResult =
+  { success: true } | { success: false; error: string };
+
+/**
+ * Changes the password.  Every session is revoked; this device is signed
+ * in again with a new one.
+ */
+export async function changePassword(
+  currentPassword: string,
+  newPassword: string,
+): Promise<AccountActionResult> {
+  try {
+    const session = await getActionSession(null);
+    const issued = await changePasswordUseCase.execute(
+      { adminId: session.adminId, currentPassword, newPassword },
+      sessionClientFrom(await headers()),
+    );
+    setSessionCookies(await cookies(), await signToken(issued.claims), issued);
+    revalidatePath("/dashboard/account");
+    return { success: true };
+  } catch (err) {
+    const message =
+      err instanceof AppError
+        ? err.message
+        : "Não foi possível alterar a senha. Tente novamente.";
+    return { success: false, error: message };
+  }
+}
+
+/** Sends a new verification link to the user's email. */
+export async function resendVerificationEmail(): Promise<AccountActionResult> {
+  try {
+    const session = await getActionSession(null);
+    const sent = await sendEmailVerificationUseCase.execute(session.adminId);
+    if (!sent) {
+      return {
+        success: false,
+        error: "Não foi possível enviar o e-mail. Tente novamente mais tarde.",
+      };
+    }
+    return { success: true };
+  } catch (err) {
+    const message =
+      err instanceof AppError
+        ? err.message
+        : "Não foi possível enviar o e-mail. Tente novamente.";
+    return { success: false, error: message };
+  }
+}
+
+export async function revokeSession(
+  sessionId: string,
+): Promise<AccountActionResult> {
+  try {
+    const session = await getActionSession(null);
+    await revokeSessionUseCase.execute(sessionId, session.adminId);
+    revalidatePath("/dashboard/account");
+    return { success: true };
+  } catch (err) {
+    const message =
+      err instanceof AppError
+        ? err.message
+        : "Não foi possível encerrar a sessão. Tente novamente.";
+    return { success: false, error: message };
+  }
+}
+
+/** Signs every device out, this one included. */
+export async function revokeAllSessions(): Promise<AccountActionResult> {
+  try {
+    const session = await getActionSession(null);
+    await revokeAllSessionsUseCase.execute(session.adminId);
+    clearAuthCookie(await cookies());
+    return { success: true };
+  } catch (err) {
+    const message =
+      err instanceof AppError
+        ? err.message
+        : "Não foi possível encerrar as sessões. Tente novamente.";
+    return { success: false, error: message };
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * /dashboard/account — Server Component.
+ * The signed-in user's email, password and active sessions — open to every
+ * role.
+ */
+
+import type { Metadata } from "next";
+import { getSession } from "@/infra/http/auth/getSession";
+import { getAccountUseCase, listSessionsUseCase } from "@/infra/composition";
+import { PageHeader } from "../_components/PageHeader";
+import { ChangePasswordForm } from "./_components/ChangePasswordForm";
+import { EmailVerificationCard } from "./_components/EmailVerificationCard";
+import { SessionList } from "./_components/SessionList";
+
+export const metadata: Metadata = { title: "Minha conta" };
+
+export default async function AccountPage() {
+  const session = await getSession(null);
+  const [account, sessions] = await Promise.all([
+    getAccountUseCase.execute(session.adminId),
+    listSessionsUseCase.execute(session.adminId),
+  ]);
+
+  return (
+    <div className="flex flex-col gap-0">
+      <PageHeader
+        title="Minha conta"
+        description="Sua senha e os dispositivos conectados ao painel."
+      />
+
+      <div className="p-6 md:p-8">
+        <div className="mx-auto max-w-3xl space-y-8">
+          <EmailVerificationCard
+            email={account.email}
+            verifiedAt={account.emailVerifiedAt}
+          />
+          <ChangePasswordForm />
+          <SessionList
+            sessions={sessions}
+            currentSessionId={session.sessionId}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -9,6 +9,8 @@
  * ─ Optimistic updates: the UI updates immediately; reverted on error.
  * ─ Month navigation: min = current month (no editing past months needed).
  * ─ An accent dot marks days that have been manually overridden.
+ * ─ Booked production units are shown under the day number ("12/40" when a
+ *   daily capacity is set); fully booked days are highlighted in red.
  *
  * Color conventions:
  * ─ Open   (default)  : green-50 bg, subtle green border
@@ -19,9 +21,12 @@
  * API contract:
  * ─ GET  /api/schedule?from=YYYY-MM-DD&to=YYYY-MM-DD → { success, data: { days } }
  * ─ PATCH /api/schedule/:date  { isOpen: boolean }   → { success, data: { day } }
+ * ─ loadProductionCapacity(from, to) server action    → { success, capacity }
  */
 
 import { useState, useCallback } from "react";
+import { loadProductionCapacity } from "../actions";
+import type { DailyCapacity } from "@/domain/production/ProductionCapacity";
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
@@ -34,6 +39,7 @@ export interface ScheduleDay {
 
 interface AgendaCalendarProps {
   initialDays: ScheduleDay[];
+  initialCapacity: DailyCapacity[];
   initialYear: number;
   initialMonth: number; // 0-based (0 = January)
 }
@@ -118,6 +124,7 @@ function dayNumberClasses(day: ScheduleDay): string {
 
 export function AgendaCalendar({
   initialDays,
+  initialCapacity,
   initialYear,
   initialMonth,
 }: AgendaCalendarProps) {
@@ -126,6 +133,7 @@ export function AgendaCalendar({
   const [year, setYear] = useState(initialYear);
   const [month, setMonth] = useState(initialMonth); // 0-based
   const [days, setDays] = useState<ScheduleDay[]>(initialDays);
+  const [capacity, setCapacity] = useState<DailyCapacity[]>(initialCapacity);
   const [fetching, setFetching] = useState(false);
   const [togglingDate, setTogglingDate] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
@@ -142,13 +150,18 @@ export function AgendaCalendar({
     try {
       const from = firstDayStr(y, m);
       const to = lastDayStr(y, m);
-      const res = await fetch(`/api/schedule?from=${from}&to=${to}`);
+      const [res, capacityResult] = await Promise.all([
+        fetch(`/api/schedule?from=${from}&to=${to}`),
+        loadProductionCapacity(from, to),
+      ]);
       if (!res.ok) throw new Error();
       const body = (await res.json()) as {
         success: boolean;
         data: { days: ScheduleDay[] };
       };
       setDays(body.data.days);
+      // Capacity is informative — the calendar stays usable without it
+      setCapacity(capacityResult.success ? capacityResult.capacity : []);
     } catch {
       setError("Não foi possível carregar a agenda. Tente novamente.");
     } finally {
@@ -216,6 +229,7 @@ export function AgendaCalendar({
   const firstWeekday = new Date(year, month, 1).getDay();
   const daysInMonth = new Date(year, month + 1, 0).getDate();
   const daysMap = new Map(days.map((d) => [d.date, d]));
+  const capacityMap = new Map(capacity.map((c) => [c.date, c]));
 
   // Leading empty slots + day numbers, padded to full rows
   const cells: (number | null)[] = [
@@ -325,6 +339,7 @@ export function AgendaCalendar({
             }
 
             const isToggling = togglingDate === ds;
+            const dayCapacity = capacityMap.get(ds);
 
             return (
               <button
@@ -358,6 +373,25 @@ export function AgendaCalendar({
                   />
                 )}
 
+                {/* Booked production units (vs. daily capacity when set) */}
+                {dayCapacity &&
+                  (dayCapacity.usedUnits > 0 ||
+                    dayCapacity.capacity !== null) && (
+                    <span
+                      title="Itens encomendados / capacidade diária"
+                      className={[
+                        "text-[10px] leading-none tabular-nums",
+                        dayCapacity.remainingUnits === 0
+                          ? "font-semibold text-red-700"
+                          : "text-foreground-muted",
+                      ].join(" ")}
+                    >
+                      {dayCapacity.capacity !== null
+                        ? `${dayCapacity.usedUnits}/${dayCapacity.capacity}`
+                        : dayCapacity.usedUnits}
+                    </span>
+                  )}
+
                 {/* Override indicator (accent dot, top-right corner) */}
                 {!day.isDefault && day.isEditable && !isToggling && (
                   <span
@@ -377,6 +411,7 @@ export function AgendaCalendar({
         <LegendItem dotClass="bg-green-500" label="Aberto" />
         <LegendItem dotClass="bg-red-400" label="Fechado" />
         <LegendItem dotClass="bg-accent" label="Alterado manualmente" />
+        <LegendItem dotClass="bg-red-700" label="Capacidade esgotada" />
         <LegendItem dotClass="bg-line" label="Data passada" muted />
       </div>
     </div>
@@ -0,0 +1,117 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { saveDailyCapacity } from "../actions";
+import { Button } from "../../../../_components/Button";
+import { InlineFeedback } from "../../../../_components/InlineFeedback";
+
+// ─── Props ────────────────────────────────────────────────────────────────────
+
+interface DailyCapacityFormProps {
+  /** Current store-wide limit in units. null = unlimited. */
+  initialCapacity: number | null;
+}
+
+// ─── Component ────────────────────────────────────────────────────────────────
+
+export function DailyCapacityForm({ initialCapacity }: DailyCapacityFormProps) {
+  const [capacity, setCapacity] = useState(
+    initialCapacity === null ? "" : String(initialCapacity),
+  );
+  const [feedback, setFeedback] = useState<{
+    type: "success" | "error";
+    message: string;
+  } | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setFeedback(null);
+
+    // Empty = unlimited
+    let parsed: number | null = null;
+    if (capacity.trim() !== "") {
+      parsed = Number(capacity);
+      if (!Number.isInteger(parsed) || parsed < 1) {
+        setFeedback({
+          type: "error",
+          message: "Informe um número inteiro maior que zero ou deixe vazio.",
+        });
+        return;
+      }
+    }
+
+    startTransition(async () => {
+      const result = await saveDailyCapacity(parsed);
+      if (result.success) {
+        setFeedback({ type: "success", message: "Capacidade diária salva!" });
+      } else {
+        setFeedback({
+          type: "error",
+          message: result.error ?? "Erro ao salvar. Tente novamente.",
+        });
+      }
+    });
+  }
+
+  return (
+    <section className="rounded-xl border border-line bg-surface p-5 flex flex-col gap-4">
+      <div className="space-y-0.5">
+        <h2 className="font-semibold text-foreground">
+          Capacidade de produção diária
+        </h2>
+        <p className="text-sm text-foreground-muted">
+          Quantos itens a loja consegue produzir por data de entrega, somando
+          todos os produtos. Quando a capacidade é atingida, a data aparece como
+          esgotada no catálogo. Deixe vazio para não limitar. Limites por
+          produto ou variação são definidos no cadastro do produto.
+        </p>
+      </div>
+
+      <form onSubmit={handleSubmit} className="flex flex-col gap-3">
+        <div className="flex flex-col gap-1.5">
+          <label
+            htmlFor="dailyCapacity"
+            className="text-xs font-medium text-foreground-muted"
+          >
+            Itens por dia
+          </label>
+          <input
+            id="dailyCapacity"
+            type="number"
+            inputMode="numeric"
+            min="1"
+            step="1"
+            placeholder="Sem limite"
+            value={capacity}
+            disabled={isPending}
+            onChange={(e) => {
+              setCapacity(e.target.value);
+              setFeedback(null);
+            }}
+            className="rounded-lg border border-line bg-surface-subtle px-3 py-2 text-sm text-foreground placeholder:text-foreground-muted/50 focus:border-accent focus:outline-none focus:ring-2 focus:ring-accent/20 disabled:opacity-50 w-32"
+          />
+        </div>
+
+        {feedback && (
+          <InlineFeedback
+            type={feedback.type}
+            message={feedback.message}
+            onDismiss={() => setFeedback(null)}
+          />
+        )}
+
+        <Button
+          type="submit"
+          variant="primary"
+          size="sm"
+          loading={isPending}
+          disabled={isPending}
+          className="self-start"
+        >
+          Salvar capacidade
+        </Button>
+      </form>
+    </section>
+  );
+}
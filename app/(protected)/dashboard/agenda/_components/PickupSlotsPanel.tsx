@@ -4,13 +4,14 @@
  * PickupSlotsPanel — Client component for managing pickup time slots per day of week.
  *
  * Renders a collapsible panel for each day (Sun–Sat / Dom–Sáb) showing the
- * store's configured pickup windows with options to add new slots and toggle
- * existing ones active/inactive.
+ * store's configured pickup windows with options to add new slots, toggle
+ * existing ones active/inactive and set their capacity (max orders / items).
  *
  * API contract:
  *   GET    /api/pickup-slots              → { success: true, data: { slots: StorePickupSlot[] } }
  *   POST   /api/pickup-slots              → { success: true, data: StorePickupSlot }
  *   PATCH  /api/pickup-slots/:id         → { success: true, data: StorePickupSlot }
+ *   PUT    /api/pickup-slots/:id/capacity → { success: true, data: StorePickupSlot }
  *   DELETE /api/pickup-slots/:id         → { success: true, data: null }
  */
 
@@ -29,6 +30,27 @@ const DAY_NAMES: Record<number, string> = {
   6: "Sábado",
 };
 
+/**
+ * Parses an optional capacity input. Empty → null (unlimited).
+ * Returns undefined when the value is not a positive integer.
+ */
+function parseLimitInput(value: string): number | null | undefined {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  const n = Number(trimmed);
+  return Number.isInteger(n) && n > 0 ? n : undefined;
+}
+
+/** Human-readable capacity summary, e.g. "máx. 10 pedidos · 40 itens". */
+function formatCapacity(slot: StorePickupSlot): string | null {
+  const parts: string[] = [];
+  if (slot.maxOrders !== null)
+    parts.push(`${slot.maxOrders} pedido${slot.maxOrders !== 1 ? "s" : ""}`);
+  if (slot.maxItems !== null)
+    parts.push(`${slot.maxItems} ite${slot.maxItems !== 1 ? "ns" : "m"}`);
+  return parts.length > 0 ? `máx. ${parts.join(" · ")}` : null;
+}
+
 // ─── PickupSlotsPanel ─────────────────────────────────────────────────────────
 
 interface PickupSlotsPanelProps {
@@ -238,6 +260,44 @@ interface SlotRowProps {
 function SlotRow({ slot, onToggle, onRemove }: SlotRowProps) {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState("");
+  const [editingCapacity, setEditingCapacity] = useState(false);
+  const [maxOrders, setMaxOrders] = useState(slot.maxOrders?.toString() ?? "");
+  const [maxItems, setMaxItems] = useState(slot.maxItems?.toString() ?? "");
+
+  const capacityLabel = formatCapacity(slot);
+
+  async function handleSaveCapacity() {
+    const orders = parseLimitInput(maxOrders);
+    const items = parseLimitInput(maxItems);
+    if (orders === undefined || items === undefined) {
+      setError("Os limites devem ser números inteiros positivos.");
+      return;
+    }
+    setLoading(true);
+    setError("");
+    try {
+      const res = await fetch(`/api/pickup-slots/${slot.id}/capacity`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ maxOrders: orders, maxItems: items }),
+      });
+      const json = (await res.json()) as {
+        success: boolean;
+        data: StorePickupSlot;
+        error?: { message: string };
+      };
+      if (json.success) {
+        onToggle(json.data);
+        setEditingCapacity(false);
+      } else {
+        setError(json.error?.message ?? "Erro ao salvar capacidade.");
+      }
+    } catch {
+      setError("Erro de rede.");
+    } finally {
+      setLoading(false);
+    }
+  }
 
   async function handleToggle() {
     setLoading(true);
@@ -291,11 +351,20 @@ function SlotRow({ slot, onToggle, onRemove }: SlotRowProps) {
   return (
     <li className="flex flex-col gap-1">
       <div className="flex items-center justify-between rounded-md bg-surface-subtle px-3 py-2">
-        <span
-          className={`font-mono text-sm ${slot.isActive ? "text-foreground" : "text-foreground-muted line-through"}`}
-        >
-          {slot.startTime} – {slot.endTime}
-        </span>
+        <div className="flex flex-col">
+          <span
+            className={`font-mono text-sm ${slot.isActive ? "text-foreground" : "text-foreground-muted line-through"}`}
+          >
+            {slot.startTime} – {slot.endTime}
+          </span>
+          <button
+            type="button"
+            onClick={() => setEditingCapacity((v) => !v)}
+            className="text-left text-xs text-foreground-muted hover:text-accent"
+          >
+            {capacityLabel ?? "sem limite"}
+          </button>
+        </div>
         <button
           type="button"
           onClick={handleToggle}
@@ -317,11 +386,62 @@ function SlotRow({ slot, onToggle, onRemove }: SlotRowProps) {
           Remover
         </button>
       </div>
+      {editingCapacity && (
+        <div className="flex flex-wrap items-end gap-2 rounded-md border border-line bg-surface-subtle px-3 py-2">
+          <CapacityInput
+            label="Máx. pedidos"
+            value={maxOrders}
+            onChange={setMaxOrders}
+          />
+          <CapacityInput
+            label="Máx. itens"
+            value={maxItems}
+            onChange={setMaxItems}
+          />
+          <button
+            type="button"
+            onClick={handleSaveCapacity}
+            disabled={loading}
+            className="rounded-md bg-accent px-3 py-1.5 text-xs font-medium text-white hover:bg-accent/90 disabled:opacity-50 transition-colors"
+          >
+            {loading ? "..." : "Salvar"}
+          </button>
+        </div>
+      )}
       {error && <p className="px-1 text-xs text-danger">{error}</p>}
     </li>
   );
 }
 
+// ─── CapacityInput ────────────────────────────────────────────────────────────
+
+interface CapacityInputProps {
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+}
+
+/** Optional positive-integer limit. Empty means unlimited. */
+function CapacityInput({ label, value, onChange }: CapacityInputProps) {
+  return (
+    <div className="flex-1 space-y-1">
+      <label className="block text-xs font-medium uppercase tracking-wide text-foreground-muted">
+        {label}
+      </label>
+      <input
+        type="number"
+        min={1}
+        step={1}
+        inputMode="numeric"
+        placeholder="Sem limite"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="w-full rounded-md border border-line bg-surface px-3 py-1.5 text-sm text-foreground focus:border-accent focus:outline-none"
+      />
+    </div>
+  );
+}
+
 // ─── SlotForm ─────────────────────────────────────────────────────────────────
 
 interface SlotFormProps {
@@ -339,6 +459,8 @@ function SlotForm({
 }: SlotFormProps) {
   const [startTime, setStartTime] = useState("");
   const [endTime, setEndTime] = useState("");
+  const [maxOrders, setMaxOrders] = useState("");
+  const [maxItems, setMaxItems] = useState("");
   const [error, setError] = useState("");
   const [loading, setLoading] = useState(false);
 
@@ -353,6 +475,11 @@ function SlotForm({
       if (overlaps)
         return `Conflito com o horário existente ${s.startTime} – ${s.endTime}.`;
     }
+    if (
+      parseLimitInput(maxOrders) === undefined ||
+      parseLimitInput(maxItems) === undefined
+    )
+      return "Os limites devem ser números inteiros positivos.";
     return null;
   }
 
@@ -369,7 +496,13 @@ function SlotForm({
       const res = await fetch("/api/pickup-slots", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ dayOfWeek, startTime, endTime }),
+        body: JSON.stringify({
+          dayOfWeek,
+          startTime,
+          endTime,
+          maxOrders: parseLimitInput(maxOrders),
+          maxItems: parseLimitInput(maxItems),
+        }),
       });
       const json = (await res.json()) as {
         success: boolean;
@@ -420,6 +553,19 @@ function SlotForm({
         </div>
       </div>
 
+      <div className="flex gap-3">
+        <CapacityInput
+          label="Máx. pedidos"
+          value={maxOrders}
+          onChange={setMaxOrders}
+        />
+        <CapacityInput
+          label="Máx. itens"
+          value={maxItems}
+          onChange={setMaxItems}
+        />
+      </div>
+
       {error && <p className="text-xs text-danger">{error}</p>}
 
       <div className="flex gap-2">
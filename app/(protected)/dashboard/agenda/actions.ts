@@ -1,18 +1,22 @@
 "use server";
 
-import { getSession } from "@/infra/http/auth/getSession";
-import { updateMinimumAdvanceDaysUseCase } from "@/infra/composition";
+import { getActionSession } from "@/infra/http/auth/getSession";
+import {
+  updateMinimumAdvanceDaysUseCase,
+  updateDailyCapacityUseCase,
+  getProductionCapacityUseCase,
+} from "@/infra/composition";
+import type { DailyCapacity } from "@/domain/production/ProductionCapacity";
 import { AppError } from "@/shared/errors/AppError";
 
 export type SaveMinimumAdvanceDaysResult =
-  | { success: true }
-  | { success: false; error: string };
+  { success: true } | { success: false; error: string };
 
 export async function saveMinimumAdvanceDays(
   days: number,
 ): Promise<SaveMinimumAdvanceDaysResult> {
   try {
-    const session = await getSession();
+    const session = await getActionSession();
     await updateMinimumAdvanceDaysUseCase.execute(session.storeId, days);
     return { success: true };
   } catch (err) {
@@ -23,3 +27,49 @@ export async function saveMinimumAdvanceDays(
     return { success: false, error: message };
   }
 }
+
+export type SaveDailyCapacityResult =
+  { success: true } | { success: false; error: string };
+
+/** Saves the store-wide daily production capacity. null = unlimited. */
+export async function saveDailyCapacity(
+  capacity: number | null,
+): Promise<SaveDailyCapacityResult> {
+  try {
+    const session = await getActionSession();
+    await updateDailyCapacityUseCase.execute(session.storeId, capacity);
+    return { success: true };
+  } catch (err) {
+    const message =
+      err instanceof AppError
+        ? err.message
+        : "Não foi possível salvar. Tente novamente.";
+    return { success: false, error: message };
+  }
+}
+
+export type LoadProductionCapacityResult =
+  | { success: true; capacity: DailyCapacity[] }
+  | { success: false; error: string };
+
+/** Loads used vs. available production units for [from, to] (YYYY-MM-DD). */
+export async function loadProductionCapacity(
+  from: string,
+  to: string,
+): Promise<LoadProductionCapacityResult> {
+  try {
+    const session = await getActionSession();
+    const capacity = await getProductionCapacityUseCase.execute({
+      storeId: session.storeId,
+      from,
+      to,
+    });
+    return { success: true, capacity };
+  } catch (err) {
+    const message =
+      err instanceof AppError
+        ? err.message
+        : "Não foi possível carregar a capacidade. Tente novamente.";
+    return { success: false, error: message };
+  }
+}
@@ -1,8 +1,8 @@
 /**
  * /dashboard/agenda — Store schedule configuration page (Server Component).
  *
- * Loads the current month's schedule from the DB and passes it to the
- * interactive calendar client component.
+ * Loads the current month's schedule and production capacity from the DB and
+ * passes them to the interactive calendar client component.
  */
 
 import { getSession } from "@/infra/http/auth/getSession";
@@ -10,10 +10,13 @@ import {
   getStoreScheduleUseCase,
   listPickupSlotsUseCase,
   getMinimumAdvanceDaysUseCase,
+  getDailyCapacityUseCase,
+  getProductionCapacityUseCase,
 } from "@/infra/composition";
 import { AgendaCalendar } from "./_components/AgendaCalendar";
 import { PickupSlotsPanel } from "./_components/PickupSlotsPanel";
 import { MinimumAdvanceDaysForm } from "./_components/MinimumAdvanceDaysForm";
+import { DailyCapacityForm } from "./_components/DailyCapacityForm";
 
 // ─── Helpers ──────────────────────────────────────────────────────────────────
 
@@ -37,18 +40,24 @@ export default async function AgendaPage() {
   const year = now.getUTCFullYear();
   const month = now.getUTCMonth(); // 0-based
 
-  const [{ days }, { slots }, minimumAdvanceDays] = await Promise.all([
-    getStoreScheduleUseCase.execute({
-      storeId: session.storeId,
-      from: firstDayOfMonth(year, month),
-      to: lastDayOfMonth(year, month),
-    }),
-    listPickupSlotsUseCase.execute({
-      storeId: session.storeId,
-      activeOnly: false,
-    }),
-    getMinimumAdvanceDaysUseCase.execute(session.storeId),
-  ]);
+  const from = firstDayOfMonth(year, month);
+  const to = lastDayOfMonth(year, month);
+
+  const [{ days }, { slots }, minimumAdvanceDays, dailyCapacity, capacity] =
+    await Promise.all([
+      getStoreScheduleUseCase.execute({ storeId: session.storeId, from, to }),
+      listPickupSlotsUseCase.execute({
+        storeId: session.storeId,
+        activeOnly: false,
+      }),
+      getMinimumAdvanceDaysUseCase.execute(session.storeId),
+      getDailyCapacityUseCase.execute(session.storeId),
+      getProductionCapacityUseCase.execute({
+        storeId: session.storeId,
+        from,
+        to,
+      }),
+    ]);
 
   return (
     <div className="px-4 py-8 sm:px-8">
@@ -66,11 +75,14 @@ export default async function AgendaPage() {
         {/* ── Calendar ────────────────────────────────────────────────────── */}
         <AgendaCalendar
           initialDays={days}
+          initialCapacity={capacity}
           initialYear={year}
           initialMonth={month}
         />
         {/* ── Minimum advance days ────────────────────────────────────── */}
-        <MinimumAdvanceDaysForm initialDays={minimumAdvanceDays} />{" "}
+        <MinimumAdvanceDaysForm initialDays={minimumAdvanceDays} />
+        {/* ── Daily production capacity ───────────────────────────────── */}
+        <DailyCapacityForm initialCapacity={dailyCapacity} />
         {/* ── Pickup slots ────────────────────────────────────────────────── */}
         <PickupSlotsPanel initialSlots={slots} />
       </div>
@@ -3,6 +3,12 @@
 import { useState } from "react";
 import { useRouter } from "next/navigation";
 import type { CategorySummary } from "@/domain/category/Category";
+import {
+  AvailabilityFields,
+  availabilityFormError,
+  toAvailabilityForm,
+  toAvailabilityPayload,
+} from "../../_components/AvailabilityFields";
 
 interface Props {
   category: CategorySummary;
@@ -12,6 +18,9 @@ export function CategoryInfoForm({ category }: Props) {
   const router = useRouter();
   const [name, setName] = useState(category.name);
   const [isActive, setIsActive] = useState(category.isActive);
+  const [availability, setAvailability] = useState(() =>
+    toAvailabilityForm(category.availability),
+  );
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState(false);
@@ -20,12 +29,21 @@ export function CategoryInfoForm({ category }: Props) {
     e.preventDefault();
     setError(null);
     setSuccess(false);
+    const availabilityError = availabilityFormError(availability);
+    if (availabilityError) {
+      setError(availabilityError);
+      return;
+    }
     setLoading(true);
     try {
       const res = await fetch(`/api/categories/${category.id}`, {
         method: "PATCH",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ name, isActive }),
+        body: JSON.stringify({
+          name,
+          isActive,
+          availability: toAvailabilityPayload(availability),
+        }),
       });
       if (!res.ok) {
         const data = await res.json().catch(() => ({}));
@@ -103,6 +121,18 @@ export function CategoryInfoForm({ category }: Props) {
           <span className="text-sm text-foreground">Categoria ativa</span>
         </label>
 
+        <div className="flex flex-col gap-1">
+          <AvailabilityFields
+            idPrefix="cat"
+            values={availability}
+            onChange={setAvailability}
+          />
+          <span className="text-xs text-foreground-muted">
+            Vale para todos os produtos da categoria, exceto onde o produto
+            define a própria regra.
+          </span>
+        </div>
+
         <button
           type="submit"
           disabled={loading || !name.trim()}
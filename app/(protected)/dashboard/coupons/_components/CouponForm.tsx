@@ -0,0 +1,320 @@
+"use client";
+
+/**
+ * CouponForm — creates a store coupon through the createCoupon server action.
+ *
+ * Empty limit / minimum / date fields mean "no restriction".  Business
+ * validation happens in CreateCouponUseCase; only number parsing is done here.
+ */
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { CouponDiscountType, CouponScope } from "@/domain/coupon/Coupon";
+import { createCoupon } from "../actions";
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+/** Empty → null; otherwise the number (NaN when not numeric). */
+function parseOptionalNumber(value: string): number | null {
+  const trimmed = value.trim().replace(",", ".");
+  return trimmed ? Number(trimmed) : null;
+}
+
+const inputClass =
+  "w-full rounded-md border border-line bg-surface px-3 py-1.5 text-sm text-foreground focus:border-accent focus:outline-none";
+
+const labelClass =
+  "block text-xs font-medium uppercase tracking-wide text-foreground-muted";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface CouponTargetOption {
+  id: string;
+  name: string;
+}
+
+interface CouponFormProps {
+  products: CouponTargetOption[];
+  categories: CouponTargetOption[];
+}
+
+// ─── Component ────────────────────────────────────────────────────────────────
+
+export function CouponForm({ products, categories }: CouponFormProps) {
+  const router = useRouter();
+  const [code, setCode] = useState("");
+  const [discountType, setDiscountType] = useState<CouponDiscountType>(
+    CouponDiscountType.PERCENTAGE,
+  );
+  const [discountValue, setDiscountValue] = useState("");
+  const [scope, setScope] = useState<CouponScope>(CouponScope.ORDER);
+  const [productId, setProductId] = useState("");
+  const [categoryId, setCategoryId] = useState("");
+  const [startsAt, setStartsAt] = useState("");
+  const [endsAt, setEndsAt] = useState("");
+  const [maxUses, setMaxUses] = useState("");
+  const [maxUsesPerCustomer, setMaxUsesPerCustomer] = useState("");
+  const [minSubtotal, setMinSubtotal] = useState("");
+  const [freeDelivery, setFreeDelivery] = useState(false);
+  const [error, setError] = useState("");
+  const [loading, setLoading] = useState(false);
+
+  function reset() {
+    setCode("");
+    setDiscountValue("");
+    setProductId("");
+    setCategoryId("");
+    setStartsAt("");
+    setEndsAt("");
+    setMaxUses("");
+    setMaxUsesPerCustomer("");
+    setMinSubtotal("");
+    setFreeDelivery(false);
+  }
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setError("");
+    setLoading(true);
+    const result = await createCoupon({
+      code,
+      discountType,
+      discountValue: parseOptionalNumber(discountValue) ?? 0,
+      scope,
+      productId: scope === CouponScope.PRODUCT ? productId || null : null,
+      categoryId: scope === CouponScope.CATEGORY ? categoryId || null : null,
+      startsAt: startsAt || null,
+      endsAt: endsAt || null,
+      maxUses: parseOptionalNumber(maxUses),
+      maxUsesPerCustomer: parseOptionalNumber(maxUsesPerCustomer),
+      minSubtotal: parseOptionalNumber(minSubtotal),
+      freeDelivery,
+    });
+    setLoading(false);
+    if (!result.success) {
+      setError(result.error);
+      return;
+    }
+    reset();
+    router.refresh();
+  }
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="rounded-lg border border-line bg-surface p-4 space-y-4"
+    >
+      <h2 className="text-base font-semibold text-foreground">Novo cupom</h2>
+
+      {/* ── Code and discount ─────────────────────────────────────────────── */}
+      <div className="grid gap-3 sm:grid-cols-3">
+        <div className="space-y-1">
+          <label htmlFor="coupon-code" className={labelClass}>
+            Código
+          </label>
+          <input
+            id="coupon-code"
+            type="text"
+            value={code}
+            onChange={(e) => setCode(e.target.value.toUpperCase())}
+            maxLength={40}
+            placeholder="BEMVINDO10"
+            className={`${inputClass} uppercase`}
+            required
+          />
+        </div>
+        <div className="space-y-1">
+          <label htmlFor="coupon-type" className={labelClass}>
+            Tipo
+          </label>
+          <select
+            id="coupon-type"
+            value={discountType}
+            onChange={(e) =>
+              setDiscountType(e.target.value as CouponDiscountType)
+            }
+            className={inputClass}
+          >
+            <option value={CouponDiscountType.PERCENTAGE}>
+              Percentual (%)
+            </option>
+            <option value={CouponDiscountType.FIXED}>Valor fixo (R$)</option>
+          </select>
+        </div>
+        <div className="space-y-1">
+          <label htmlFor="coupon-value" className={labelClass}>
+            Desconto
+          </label>
+          <input
+            id="coupon-value"
+            type="text"
+            inputMode="decimal"
+            value={discountValue}
+            onChange={(e) => setDiscountValue(e.target.value)}
+            placeholder={
+              discountType === CouponDiscountType.PERCENTAGE ? "10" : "5,00"
+            }
+            className={inputClass}
+          />
+        </div>
+      </div>
+
+      {/* ── Scope ─────────────────────────────────────────────────────────── */}
+      <div className="grid gap-3 sm:grid-cols-2">
+        <div className="space-y-1">
+          <label htmlFor="coupon-scope" className={labelClass}>
+            Vale para
+          </label>
+          <select
+            id="coupon-scope"
+            value={scope}
+            onChange={(e) => setScope(e.target.value as CouponScope)}
+            className={inputClass}
+          >
+            <option value={CouponScope.ORDER}>Pedido inteiro</option>
+            <option value={CouponScope.PRODUCT}>Um produto</option>
+            <option value={CouponScope.CATEGORY}>Uma categoria</option>
+          </select>
+        </div>
+        {scope === CouponScope.PRODUCT && (
+          <div className="space-y-1">
+            <label htmlFor="coupon-product" className={labelClass}>
+              Produto
+            </label>
+            <select
+              id="coupon-product"
+              value={productId}
+              onChange={(e) => setProductId(e.target.value)}
+              className={inputClass}
+            >
+              <option value="">Selecione…</option>
+              {products.map((p) => (
+                <option key={p.id} value={p.id}>
+                  {p.name}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+        {scope === CouponScope.CATEGORY && (
+          <div className="space-y-1">
+            <label htmlFor="coupon-category" className={labelClass}>
+              Categoria
+            </label>
+            <select
+              id="coupon-category"
+              value={categoryId}
+              onChange={(e) => setCategoryId(e.target.value)}
+              className={inputClass}
+            >
+              <option value="">Selecione…</option>
+              {categories.map((c) => (
+                <option key={c.id} value={c.id}>
+                  {c.name}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+      </div>
+
+      {/* ── Validity ──────────────────────────────────────────────────────── */}
+      <div className="grid gap-3 sm:grid-cols-2">
+        <div className="space-y-1">
+          <label htmlFor="coupon-starts" className={labelClass}>
+            Válido a partir de
+          </label>
+          <input
+            id="coupon-starts"
+            type="date"
+            value={startsAt}
+            onChange={(e) => setStartsAt(e.target.value)}
+            className={inputClass}
+          />
+        </div>
+        <div className="space-y-1">
+          <label htmlFor="coupon-ends" className={labelClass}>
+            Válido até
+          </label>
+          <input
+            id="coupon-ends"
+            type="date"
+            value={endsAt}
+            onChange={(e) => setEndsAt(e.target.value)}
+            className={inputClass}
+          />
+        </div>
+      </div>
+
+      {/* ── Limits ────────────────────────────────────────────────────────── */}
+      <div className="grid gap-3 sm:grid-cols-3">
+        <div className="space-y-1">
+          <label htmlFor="coupon-max-uses" className={labelClass}>
+            Máx. usos
+          </label>
+          <input
+            id="coupon-max-uses"
+            type="number"
+            min={1}
+            step={1}
+            inputMode="numeric"
+            placeholder="Sem limite"
+            value={maxUses}
+            onChange={(e) => setMaxUses(e.target.value)}
+            className={inputClass}
+          />
+        </div>
+        <div className="space-y-1">
+          <label htmlFor="coupon-max-customer" className={labelClass}>
+            Máx. por WhatsApp
+          </label>
+          <input
+            id="coupon-max-customer"
+            type="number"
+            min={1}
+            step={1}
+            inputMode="numeric"
+            placeholder="Sem limite"
+            value={maxUsesPerCustomer}
+            onChange={(e) => setMaxUsesPerCustomer(e.target.value)}
+            className={inputClass}
+          />
+        </div>
+        <div className="space-y-1">
+          <label htmlFor="coupon-min-subtotal" className={labelClass}>
+            Pedido mínimo (R$)
+          </label>
+          <input
+            id="coupon-min-subtotal"
+            type="text"
+            inputMode="decimal"
+            placeholder="Sem mínimo"
+            value={minSubtotal}
+            onChange={(e) => setMinSubtotal(e.target.value)}
+            className={inputClass}
+          />
+        </div>
+      </div>
+
+      <label className="flex items-center gap-2 text-sm text-foreground">
+        <input
+          type="checkbox"
+          checked={freeDelivery}
+          onChange={(e) => setFreeDelivery(e.target.checked)}
+          className="h-4 w-4 rounded border-line accent-accent"
+        />
+        Frete grátis na entrega
+      </label>
+
+      {error && <p className="text-xs text-danger">{error}</p>}
+
+      <button
+        type="submit"
+        disabled={loading}
+        className="rounded-md bg-accent px-4 py-1.5 text-sm font-medium text-white hover:bg-accent/90 disabled:opacity-50 transition-colors"
+      >
+        {loading ? "Salvando..." : "Criar cupom"}
+      </button>
+    </form>
+  );
+}
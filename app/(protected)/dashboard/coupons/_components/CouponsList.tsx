@@ -0,0 +1,182 @@
+"use client";
+
+/**
+ * CouponsList — the store's coupons with their usage, active toggle and
+ * delete.  Mutations go through the coupons server actions, which revalidate
+ * the page.
+ */
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import {
+  CouponDiscountType,
+  CouponScope,
+  type CouponWithUsage,
+} from "@/domain/coupon/Coupon";
+import { toggleCoupon, deleteCoupon } from "../actions";
+import type { CouponTargetOption } from "./CouponForm";
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+const fmt = (n: number) =>
+  n.toLocaleString("pt-BR", { style: "currency", currency: "BRL" });
+
+const fmtDate = (d: Date) =>
+  d.toLocaleDateString("pt-BR", { timeZone: "America/Sao_Paulo" });
+
+/** e.g. "10% em Bolos", "R$ 5,00 no pedido", "frete grátis". */
+function describeDiscount(
+  coupon: CouponWithUsage,
+  products: CouponTargetOption[],
+  categories: CouponTargetOption[],
+): string {
+  const parts: string[] = [];
+  if (coupon.discountValue > 0) {
+    const value =
+      coupon.discountType === CouponDiscountType.PERCENTAGE
+        ? `${coupon.discountValue}%`
+        : fmt(coupon.discountValue);
+    const target =
+      coupon.scope === CouponScope.PRODUCT
+        ? (products.find((p) => p.id === coupon.productId)?.name ?? "produto")
+        : coupon.scope === CouponScope.CATEGORY
+          ? (categories.find((c) => c.id === coupon.categoryId)?.name ??
+            "categoria")
+          : null;
+    parts.push(target ? `${value} em ${target}` : `${value} no pedido`);
+  }
+  if (coupon.freeDelivery) parts.push("frete grátis");
+  return parts.join(" + ");
+}
+
+/** Validity, minimum and limits, e.g. "até 31/12/2026 · mín. R$ 50,00". */
+function describeRules(coupon: CouponWithUsage): string | null {
+  const parts: string[] = [];
+  if (coupon.startsAt) parts.push(`de ${fmtDate(coupon.startsAt)}`);
+  if (coupon.endsAt) parts.push(`até ${fmtDate(coupon.endsAt)}`);
+  if (coupon.minSubtotal !== null)
+    parts.push(`mín. ${fmt(coupon.minSubtotal)}`);
+  if (coupon.maxUsesPerCustomer !== null)
+    parts.push(`${coupon.maxUsesPerCustomer}x por WhatsApp`);
+  return parts.length > 0 ? parts.join(" · ") : null;
+}
+
+// ─── CouponsList ──────────────────────────────────────────────────────────────
+
+interface CouponsListProps {
+  coupons: CouponWithUsage[];
+  products: CouponTargetOption[];
+  categories: CouponTargetOption[];
+}
+
+export function CouponsList({
+  coupons,
+  products,
+  categories,
+}: CouponsListProps) {
+  if (coupons.length === 0) {
+    return (
+      <p className="text-sm text-foreground-muted italic">
+        Nenhum cupom criado ainda.
+      </p>
+    );
+  }
+
+  return (
+    <ul className="space-y-2">
+      {coupons.map((coupon) => (
+        <CouponRow
+          key={coupon.id}
+          coupon={coupon}
+          summary={describeDiscount(coupon, products, categories)}
+        />
+      ))}
+    </ul>
+  );
+}
+
+// ─── CouponRow ────────────────────────────────────────────────────────────────
+
+interface CouponRowProps {
+  coupon: CouponWithUsage;
+  summary: string;
+}
+
+function CouponRow({ coupon, summary }: CouponRowProps) {
+  const router = useRouter();
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  const rules = describeRules(coupon);
+  const usage =
+    coupon.maxUses !== null
+      ? `${coupon.usageCount}/${coupon.maxUses} usos`
+      : `${coupon.usageCount} uso${coupon.usageCount !== 1 ? "s" : ""}`;
+
+  async function handleToggle() {
+    setLoading(true);
+    setError("");
+    const result = await toggleCoupon(coupon.id, !coupon.isActive);
+    setLoading(false);
+    if (!result.success) {
+      setError(result.error);
+      return;
+    }
+    router.refresh();
+  }
+
+  async function handleDelete() {
+    if (!confirm(`Remover o cupom ${coupon.code} permanentemente?`)) return;
+    setLoading(true);
+    setError("");
+    const result = await deleteCoupon(coupon.id);
+    setLoading(false);
+    if (!result.success) {
+      setError(result.error);
+      return;
+    }
+    router.refresh();
+  }
+
+  return (
+    <li className="flex flex-col gap-1">
+      <div className="flex items-center justify-between gap-3 rounded-lg border border-line bg-surface px-4 py-3">
+        <div className="min-w-0 flex-1">
+          <div className="flex items-center gap-2">
+            <span
+              className={`font-mono text-sm font-semibold ${coupon.isActive ? "text-foreground" : "text-foreground-muted line-through"}`}
+            >
+              {coupon.code}
+            </span>
+            <span className="rounded-full bg-accent/15 px-2 py-0.5 text-xs font-medium text-accent">
+              {usage}
+            </span>
+          </div>
+          <p className="text-sm text-foreground">{summary}</p>
+          {rules && <p className="text-xs text-foreground-muted">{rules}</p>}
+        </div>
+        <button
+          type="button"
+          onClick={handleToggle}
+          disabled={loading}
+          className={`shrink-0 rounded-full px-3 py-1 text-xs font-medium transition-colors disabled:opacity-50 ${
+            coupon.isActive
+              ? "bg-red-100 text-red-700 hover:bg-red-200"
+              : "bg-green-100 text-green-700 hover:bg-green-200"
+          }`}
+        >
+          {loading ? "..." : coupon.isActive ? "Desativar" : "Ativar"}
+        </button>
+        <button
+          type="button"
+          onClick={handleDelete}
+          disabled={loading}
+          className="shrink-0 rounded-full px-3 py-1 text-xs font-medium text-foreground-muted hover:bg-red-50 hover:text-red-700 transition-colors disabled:opacity-50"
+        >
+          Remover
+        </button>
+      </div>
+      {error && <p className="px-1 text-xs text-danger">{error}</p>}
+    </li>
+  );
+}
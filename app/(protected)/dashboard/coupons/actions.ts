@@ -0,0 +1,81 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { getActionSession } from "@/infra/http/auth/getSession";
+import {
+  createCouponUseCase,
+  toggleCouponUseCase,
+  deleteCouponUseCase,
+} from "@/infra/composition";
+import type { CreateCouponInput } from "@/domain/coupon/Coupon";
+import { AppError } from "@/shared/errors/AppError";
+
+export type CouponActionResult =
+  { success: true } | { success: false; error: string };
+
+/** Form payload — dates as YYYY-MM-DD strings, storeId from the session. */
+export type CreateCouponFormInput = Omit<
+  CreateCouponInput,
+  "storeId" | "startsAt" | "endsAt"
+> & {
+  startsAt: string | null;
+  endsAt: string | null;
+};
+
+/** Creates a coupon. The validity window covers whole days (UTC-3). */
+export async function createCoupon(
+  input: CreateCouponFormInput,
+): Promise<CouponActionResult> {
+  try {
+    const session = await getActionSession();
+    await createCouponUseCase.execute({
+      ...input,
+      storeId: session.storeId,
+      startsAt: input.startsAt
+        ? new Date(`${input.startsAt}T00:00:00-03:00`)
+        : null,
+      endsAt: input.endsAt ? new Date(`${input.endsAt}T23:59:59-03:00`) : null,
+    });
+    revalidatePath("/dashboard/coupons");
+    return { success: true };
+  } catch (err) {
+    const message =
+      err instanceof AppError
+        ? err.message
+        : "Não foi possível criar o cupom. Tente novamente.";
+    return { success: false, error: message };
+  }
+}
+
+export async function toggleCoupon(
+  id: string,
+  isActive: boolean,
+): Promise<CouponActionResult> {
+  try {
+    const session = await getActionSession();
+    await toggleCouponUseCase.execute(id, session.storeId, isActive);
+    revalidatePath("/dashboard/coupons");
+    return { success: true };
+  } catch (err) {
+    const message =
+      err instanceof AppError
+        ? err.message
+        : "Não foi possível atualizar o cupom. Tente novamente.";
+    return { success: false, error: message };
+  }
+}
+
+export async function deleteCoupon(id: string): Promise<CouponActionResult> {
+  try {
+    const session = await getActionSession();
+    await deleteCouponUseCase.execute(id, session.storeId);
+    revalidatePath("/dashboard/coupons");
+    return { success: true };
+  } catch (err) {
+    const message =
+      err instanceof AppError
+        ? err.message
+        : "Não foi possível remover o cupom. Tente novamente.";
+    return { success: false, error: message };
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * /dashboard/coupons — Server Component.
+ * Lists the store's coupons with their usage and the form to create new ones.
+ */
+
+import type { Metadata } from "next";
+import { getSession } from "@/infra/http/auth/getSession";
+import {
+  listCouponsUseCase,
+  listProductsUseCase,
+  listCategoriesUseCase,
+} from "@/infra/composition";
+import { PageHeader } from "../_components/PageHeader";
+import { CouponForm } from "./_components/CouponForm";
+import { CouponsList } from "./_components/CouponsList";
+
+export const metadata: Metadata = { title: "Cupons" };
+
+export default async function CouponsPage() {
+  const session = await getSession();
+  const [coupons, products, categories] = await Promise.all([
+    listCouponsUseCase.execute(session.storeId),
+    listProductsUseCase.execute(session.storeId),
+    listCategoriesUseCase.execute(session.storeId),
+  ]);
+
+  const productOptions = products.map((p) => ({ id: p.id, name: p.name }));
+  const categoryOptions = categories.map((c) => ({ id: c.id, name: c.name }));
+
+  return (
+    <div className="flex flex-col gap-0">
+      <PageHeader
+        eyebrow="Vendas"
+        title="Cupons"
+        description="Crie códigos de desconto para seus clientes usarem no carrinho."
+      />
+
+      <div className="p-6 md:p-8">
+        <div className="mx-auto max-w-3xl space-y-8">
+          <CouponForm products={productOptions} categories={categoryOptions} />
+          <CouponsList
+            coupons={coupons}
+            products={productOptions}
+            categories={categoryOptions}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
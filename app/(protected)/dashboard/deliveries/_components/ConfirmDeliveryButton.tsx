@@ -0,0 +1,40 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { confirmDelivery } from "../actions";
+
+/**
+ * ConfirmDeliveryButton — marks one order of the run as delivered, after
+ * a confirmation.  The page re-renders through revalidatePath.
+ */
+export function ConfirmDeliveryButton({ orderId }: { orderId: string }) {
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+
+  function handleClick() {
+    if (!confirm("Confirmar que este pedido foi entregue?")) return;
+    setError(null);
+    startTransition(async () => {
+      const result = await confirmDelivery(orderId);
+      if (!result.success) setError(result.error);
+    });
+  }
+
+  return (
+    <div className="flex flex-col items-end gap-1">
+      <button
+        type="button"
+        onClick={handleClick}
+        disabled={isPending}
+        className="rounded-md bg-accent px-3 py-1.5 text-sm font-medium text-white hover:bg-accent/90 disabled:opacity-50 transition-colors"
+      >
+        {isPending ? "Confirmando…" : "Marcar como entregue"}
+      </button>
+      {error && (
+        <p role="alert" className="text-xs text-danger">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { getActionSession } from "@/infra/http/auth/getSession";
+import { confirmDeliveryUseCase } from "@/infra/composition";
+import { Permission } from "@/domain/auth/StaffRole";
+import { adminChange } from "@/domain/order/OrderStatusLog";
+import { AppError } from "@/shared/errors/AppError";
+
+/**
+ * confirmDelivery — Server Action of the delivery run.
+ *
+ * Marks one of today's delivery orders DELIVERED; the date is the server's,
+ * so delivery users reach no other day.  Recorded in the status history
+ * under the logged-in user.
+ */
+export async function confirmDelivery(
+  orderId: string,
+): Promise<{ success: true } | { success: false; error: string }> {
+  try {
+    const session = await getActionSession(Permission.DELIVERIES);
+    await confirmDeliveryUseCase.execute(
+      orderId,
+      session.storeId,
+      new Date().toISOString().slice(0, 10),
+      adminChange(session.adminId),
+    );
+    revalidatePath("/dashboard/deliveries");
+    return { success: true };
+  } catch (err) {
+    const message =
+      err instanceof AppError
+        ? err.message
+        : "Não foi possível confirmar a entrega. Tente novamente.";
+    return { success: false, error: message };
+  }
+}
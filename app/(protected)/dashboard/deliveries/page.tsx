@@ -0,0 +1,146 @@
+/**
+ * /dashboard/deliveries — Entregas do dia
+ *
+ * Today's delivery run: approved DELIVERY orders with the address, the
+ * customer's WhatsApp and what to hand over.  Paid orders can be marked as
+ * delivered; unpaid ones wait for the payment to be recorded.
+ *
+ * The only page of delivery users (Permission.DELIVERIES).
+ */
+
+import type { Metadata } from "next";
+import { getSession } from "@/infra/http/auth/getSession";
+import { listDeliveriesUseCase } from "@/infra/composition";
+import { Permission } from "@/domain/auth/StaffRole";
+import {
+  OrderTrackingStatus,
+  type OrderWithDetails,
+} from "@/domain/order/Order";
+import { formatItemOption } from "@/domain/product/ProductOption";
+import { PageHeader } from "../_components/PageHeader";
+import { ConfirmDeliveryButton } from "./_components/ConfirmDeliveryButton";
+
+export const metadata: Metadata = { title: "Entregas do dia" };
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function addressOf(order: OrderWithDetails): string {
+  const line = [
+    order.deliveryStreet,
+    order.deliveryNumber,
+    order.deliveryNeighborhood,
+    order.deliveryCity,
+  ]
+    .filter(Boolean)
+    .join(", ");
+  return line || order.shippingAddress || "Endereço não informado";
+}
+
+function mapsUrl(order: OrderWithDetails): string {
+  const query = [addressOf(order), order.deliveryCep].filter(Boolean).join(" ");
+  return `https://www.google.com/maps/search/?api=1&query=${encodeURIComponent(query)}`;
+}
+
+// ─── Page ─────────────────────────────────────────────────────────────────────
+
+export default async function DeliveriesPage() {
+  const session = await getSession(Permission.DELIVERIES);
+  const today = new Date().toISOString().slice(0, 10);
+
+  const orders = await listDeliveriesUseCase.execute(session.storeId, today);
+  const delivered = orders.filter(
+    (o) => o.orderStatus === OrderTrackingStatus.DELIVERED,
+  ).length;
+
+  return (
+    <div className="flex flex-col gap-0">
+      <PageHeader
+        eyebrow="Operação"
+        title="Entregas do dia"
+        description={`${today} · ${delivered} de ${orders.length} entregue${orders.length !== 1 ? "s" : ""}`}
+      />
+
+      <div className="p-6 md:p-8">
+        {orders.length === 0 ? (
+          <p className="text-sm text-foreground-muted">
+            Nenhuma entrega para hoje.
+          </p>
+        ) : (
+          <ul className="mx-auto max-w-3xl space-y-3">
+            {orders.map((order) => (
+              <DeliveryCard key={order.id} order={order} />
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// ─── Card ─────────────────────────────────────────────────────────────────────
+
+function DeliveryCard({ order }: { order: OrderWithDetails }) {
+  const status = order.orderStatus ?? OrderTrackingStatus.PENDING;
+  const waDigits = order.customerWhatsapp.replace(/\D/g, "");
+
+  return (
+    <li className="rounded-xl border border-line bg-surface p-4 space-y-3">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div className="space-y-0.5">
+          <p className="text-sm font-semibold text-foreground">
+            {order.orderNumber != null ? `#${order.orderNumber} · ` : ""}
+            {order.customerName}
+          </p>
+          <a
+            href={mapsUrl(order)}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="block text-sm text-foreground hover:underline"
+          >
+            {addressOf(order)}
+            {order.deliveryCep ? ` · CEP ${order.deliveryCep}` : ""}
+          </a>
+          <a
+            href={`https://wa.me/${waDigits}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-xs text-foreground-muted hover:underline"
+          >
+            WhatsApp {order.customerWhatsapp}
+          </a>
+        </div>
+
+        {status === OrderTrackingStatus.DELIVERED ? (
+          <span className="rounded-full bg-green-100 px-2.5 py-0.5 text-xs font-medium text-green-700">
+            Entregue
+          </span>
+        ) : status === OrderTrackingStatus.PAID ? (
+          <ConfirmDeliveryButton orderId={order.id} />
+        ) : (
+          <span className="rounded-full bg-amber-100 px-2.5 py-0.5 text-xs font-medium text-amber-800">
+            Aguardando pagamento
+          </span>
+        )}
+      </div>
+
+      <ul className="space-y-0.5 border-t border-line pt-3 text-sm text-foreground">
+        {order.items.map((item) => (
+          <li key={item.id}>
+            {item.quantity}× {item.productName}
+            {item.variantLabel ? ` (${item.variantLabel})` : ""}
+            {item.options.length > 0 && (
+              <span className="text-foreground-muted">
+                {" "}
+                · {item.options.map(formatItemOption).join(", ")}
+              </span>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {order.notes && (
+        <p className="text-xs text-foreground-muted">Obs.: {order.notes}</p>
+      )}
+    </li>
+  );
+}
@@ -7,10 +7,12 @@
  * Server Component responsibilities:
  *   1. Read the verified session (storeId guaranteed by parent (protected)/layout.tsx).
  *   2. Fetch the store name from the DB for the header.
- *   3. Render AppShell (Client Component) with server data as props.
+ *   3. Render AppShell (Client Component) with server data as props — the
+ *      role decides which sidebar entries show.
  *
  * The session is already validated by (protected)/layout.tsx — this layout
- * never redirects; it only reads data.
+ * never redirects; it only reads data.  Any role passes here; each page
+ * checks its own permission.
  */
 
 import { type ReactNode } from "react";
@@ -23,7 +25,7 @@ export default async function DashboardLayout({
 }: {
   children: ReactNode;
 }) {
-  const session = await getSession();
+  const session = await getSession(null);
 
   // Fetch store identity — storeId is always valid here (verified by parent layout)
   const store = await prisma.store.findUnique({
@@ -35,6 +37,7 @@ export default async function DashboardLayout({
     <AppShell
       storeName={store?.name ?? "Minha Loja"}
       storeSlug={store?.slug ?? undefined}
+      role={session.role}
     >
       {children}
     </AppShell>
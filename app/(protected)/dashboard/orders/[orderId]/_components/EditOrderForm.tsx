@@ -0,0 +1,431 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { FulfillmentType } from "@/domain/order/Order";
+import { editOrder, type EditOrderFormData } from "../actions";
+import { Button } from "../../../../../_components/Button";
+import { InlineFeedback } from "../../../../../_components/InlineFeedback";
+import { formatCurrency } from "./helpers";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+/** Active catalogue product, as far as the edit form is concerned. */
+export interface EditableProduct {
+  id: string;
+  name: string;
+  /** Null when the price lives on the variants. */
+  price: number | null;
+  minQuantity: number;
+  /** Active variants only. */
+  variants: { id: string; label: string; price: number }[];
+}
+
+/** Pickup slot option — label already formatted ("09:00 – 12:00"). */
+export interface EditablePickupSlot {
+  id: string;
+  dayOfWeek: number;
+  label: string;
+}
+
+interface Line {
+  /** Stable React key. */
+  key: string;
+  /** Set for lines already on the order. */
+  itemId: string | null;
+  productId: string;
+  variantId: string | null;
+  name: string;
+  unitPrice: number;
+  quantity: string;
+}
+
+/** A line already on the order — price and name are frozen. */
+export type EditableOrderLine = Omit<Line, "key" | "quantity"> & {
+  itemId: string;
+  quantity: number;
+};
+
+interface EditOrderFormProps {
+  orderId: string;
+  initialValues: Omit<EditOrderFormData, "items">;
+  initialLines: EditableOrderLine[];
+  products: EditableProduct[];
+  pickupSlots: EditablePickupSlot[];
+}
+
+const INPUT_CLASS =
+  "w-full rounded-lg border border-line bg-surface px-3 py-2 text-sm text-foreground placeholder:text-foreground-muted focus:outline-none focus:ring-2 focus:ring-accent/30 transition disabled:opacity-50";
+
+function weekdayOf(date: string): number {
+  return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
+
+// ─── Component ────────────────────────────────────────────────────────────────
+
+/**
+ * EditOrderForm — edit mode of the order detail page.
+ *
+ * Lines already on the order keep their frozen price; only the quantity can
+ * change.  New lines show the current catalogue price, which is frozen on
+ * save.  Every placement rule (date, schedule, slot, capacity, delivery fee)
+ * is re-checked on the server by EditOrderUseCase.
+ */
+export function EditOrderForm({
+  orderId,
+  initialValues,
+  initialLines,
+  products,
+  pickupSlots,
+}: EditOrderFormProps) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+
+  const [lines, setLines] = useState<Line[]>(() =>
+    initialLines.map((line) => ({
+      ...line,
+      key: line.itemId,
+      quantity: String(line.quantity),
+    })),
+  );
+  const [deliveryDate, setDeliveryDate] = useState(initialValues.deliveryDate);
+  const [fulfillmentType, setFulfillmentType] = useState(
+    initialValues.fulfillmentType,
+  );
+  const [pickupSlotId, setPickupSlotId] = useState(
+    initialValues.pickupSlotId ?? "",
+  );
+  const [address, setAddress] = useState({
+    deliveryCep: initialValues.deliveryCep ?? "",
+    deliveryStreet: initialValues.deliveryStreet ?? "",
+    deliveryNumber: initialValues.deliveryNumber ?? "",
+    deliveryNeighborhood: initialValues.deliveryNeighborhood ?? "",
+    deliveryCity: initialValues.deliveryCity ?? "",
+  });
+
+  // New-line picker
+  const [newProductId, setNewProductId] = useState("");
+  const [newVariantId, setNewVariantId] = useState("");
+  const newProduct = products.find((p) => p.id === newProductId) ?? null;
+
+  const slotsForDate = pickupSlots.filter(
+    (slot) => slot.dayOfWeek === weekdayOf(deliveryDate),
+  );
+
+  const subtotal = lines.reduce(
+    (sum, line) => sum + line.unitPrice * (Number(line.quantity) || 0),
+    0,
+  );
+
+  // ── Line handlers ─────────────────────────────────────────────────────────
+
+  function updateQuantity(key: string, quantity: string) {
+    setLines((prev) =>
+      prev.map((line) => (line.key === key ? { ...line, quantity } : line)),
+    );
+  }
+
+  function removeLine(key: string) {
+    setLines((prev) => prev.filter((line) => line.key !== key));
+  }
+
+  function addLine() {
+    if (!newProduct) return;
+    const variant = newProduct.variants.find((v) => v.id === newVariantId);
+    if (newProduct.variants.length > 0 && !variant) return;
+
+    setLines((prev) => [
+      ...prev,
+      {
+        key: `new-${Date.now()}`,
+        itemId: null,
+        productId: newProduct.id,
+        variantId: variant?.id ?? null,
+        name: variant
+          ? `${newProduct.name} (${variant.label})`
+          : newProduct.name,
+        unitPrice: variant?.price ?? newProduct.price ?? 0,
+        quantity: String(newProduct.minQuantity),
+      },
+    ]);
+    setNewProductId("");
+    setNewVariantId("");
+  }
+
+  // ── Submit ────────────────────────────────────────────────────────────────
+
+  function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setError(null);
+
+    const isPickup = fulfillmentType === FulfillmentType.PICKUP;
+    startTransition(async () => {
+      const res = await editOrder(orderId, {
+        items: lines.map((line) => ({
+          itemId: line.itemId,
+          productId: line.productId,
+          variantId: line.variantId,
+          quantity: Number(line.quantity),
+        })),
+        deliveryDate,
+        fulfillmentType,
+        pickupSlotId: isPickup ? pickupSlotId : null,
+        ...(isPickup ? {} : address),
+      });
+      if (res.success) {
+        router.push(`/dashboard/orders/${orderId}`);
+      } else {
+        setError(res.error);
+      }
+    });
+  }
+
+  // ── Render ────────────────────────────────────────────────────────────────
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      {/* ── Items ─────────────────────────────────────────────────────── */}
+      <section className="rounded-xl border border-line bg-surface p-5 space-y-4">
+        <h2 className="font-semibold text-foreground">Itens</h2>
+
+        {lines.length === 0 ? (
+          <p className="text-sm text-foreground-muted">
+            Adicione pelo menos um item.
+          </p>
+        ) : (
+          <ul className="divide-y divide-line">
+            {lines.map((line) => (
+              <li
+                key={line.key}
+                className="flex items-center justify-between gap-3 py-3"
+              >
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-foreground truncate">
+                    {line.name}
+                  </p>
+                  <p className="text-xs text-foreground-muted">
+                    {formatCurrency(line.unitPrice)} / un.
+                    {line.itemId === null && " · novo"}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <input
+                    type="number"
+                    min={1}
+                    step={1}
+                    value={line.quantity}
+                    onChange={(e) => updateQuantity(line.key, e.target.value)}
+                    disabled={isPending}
+                    aria-label={`Quantidade de ${line.name}`}
+                    className={`${INPUT_CLASS} w-20`}
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => removeLine(line.key)}
+                    disabled={isPending}
+                  >
+                    Remover
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {/* Add line */}
+        <div className="flex flex-col sm:flex-row gap-2 border-t border-line pt-4">
+          <select
+            value={newProductId}
+            onChange={(e) => {
+              setNewProductId(e.target.value);
+              setNewVariantId("");
+            }}
+            disabled={isPending}
+            aria-label="Produto"
+            className={INPUT_CLASS}
+          >
+            <option value="">Adicionar produto…</option>
+            {products.map((p) => (
+              <option key={p.id} value={p.id}>
+                {p.name}
+              </option>
+            ))}
+          </select>
+          {newProduct && newProduct.variants.length > 0 && (
+            <select
+              value={newVariantId}
+              onChange={(e) => setNewVariantId(e.target.value)}
+              disabled={isPending}
+              aria-label="Variação"
+              className={INPUT_CLASS}
+            >
+              <option value="">Variação…</option>
+              {newProduct.variants.map((v) => (
+                <option key={v.id} value={v.id}>
+                  {v.label} — {formatCurrency(v.price)}
+                </option>
+              ))}
+            </select>
+          )}
+          <Button
+            type="button"
+            variant="secondary"
+            onClick={addLine}
+            disabled={
+              isPending ||
+              !newProduct ||
+              (newProduct.variants.length > 0 && !newVariantId)
+            }
+          >
+            Adicionar
+          </Button>
+        </div>
+
+        <p className="text-right text-sm text-foreground">
+          Subtotal:{" "}
+          <span className="font-semibold tabular-nums">
+            {formatCurrency(subtotal)}
+          </span>
+        </p>
+      </section>
+
+      {/* ── Date and fulfillment ──────────────────────────────────────── */}
+      <section className="rounded-xl border border-line bg-surface p-5 space-y-4">
+        <h2 className="font-semibold text-foreground">Entrega</h2>
+
+        <div className="space-y-1.5">
+          <label
+            htmlFor="edit-delivery-date"
+            className="text-sm font-medium text-foreground"
+          >
+            Data
+          </label>
+          <input
+            id="edit-delivery-date"
+            type="date"
+            value={deliveryDate}
+            onChange={(e) => {
+              setDeliveryDate(e.target.value);
+              setPickupSlotId("");
+            }}
+            required
+            disabled={isPending}
+            className={INPUT_CLASS}
+          />
+        </div>
+
+        <div className="flex gap-4" role="radiogroup" aria-label="Tipo">
+          {[
+            { value: FulfillmentType.PICKUP, label: "Retirada" },
+            { value: FulfillmentType.DELIVERY, label: "Entrega" },
+          ].map((option) => (
+            <label
+              key={option.value}
+              className="flex items-center gap-2 text-sm text-foreground"
+            >
+              <input
+                type="radio"
+                name="fulfillmentType"
+                value={option.value}
+                checked={fulfillmentType === option.value}
+                onChange={() => setFulfillmentType(option.value)}
+                disabled={isPending}
+              />
+              {option.label}
+            </label>
+          ))}
+        </div>
+
+        {fulfillmentType === FulfillmentType.PICKUP ? (
+          <div className="space-y-1.5">
+            <label
+              htmlFor="edit-pickup-slot"
+              className="text-sm font-medium text-foreground"
+            >
+              Horário de retirada
+            </label>
+            <select
+              id="edit-pickup-slot"
+              value={pickupSlotId}
+              onChange={(e) => setPickupSlotId(e.target.value)}
+              required
+              disabled={isPending}
+              className={INPUT_CLASS}
+            >
+              <option value="">
+                {slotsForDate.length === 0
+                  ? "Nenhum horário nesta data"
+                  : "Escolha um horário"}
+              </option>
+              {slotsForDate.map((slot) => (
+                <option key={slot.id} value={slot.id}>
+                  {slot.label}
+                </option>
+              ))}
+            </select>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            {(
+              [
+                ["deliveryCep", "CEP"],
+                ["deliveryCity", "Cidade"],
+                ["deliveryStreet", "Rua"],
+                ["deliveryNumber", "Número"],
+                ["deliveryNeighborhood", "Bairro"],
+              ] as const
+            ).map(([field, label]) => (
+              <div key={field} className="space-y-1.5">
+                <label
+                  htmlFor={`edit-${field}`}
+                  className="text-sm font-medium text-foreground"
+                >
+                  {label}
+                </label>
+                <input
+                  id={`edit-${field}`}
+                  type="text"
+                  value={address[field]}
+                  onChange={(e) =>
+                    setAddress((prev) => ({ ...prev, [field]: e.target.value }))
+                  }
+                  required
+                  disabled={isPending}
+                  className={INPUT_CLASS}
+                />
+              </div>
+            ))}
+            <p className="sm:col-span-2 text-xs text-foreground-muted">
+              A taxa de entrega é recalculada quando o CEP muda.
+            </p>
+          </div>
+        )}
+      </section>
+
+      {error && (
+        <InlineFeedback
+          type="error"
+          message={error}
+          onDismiss={() => setError(null)}
+        />
+      )}
+
+      <div className="flex justify-end gap-3">
+        <Button
+          type="button"
+          variant="ghost"
+          onClick={() => router.push(`/dashboard/orders/${orderId}`)}
+          disabled={isPending}
+        >
+          Cancelar
+        </Button>
+        <Button type="submit" loading={isPending} disabled={lines.length === 0}>
+          Salvar alterações
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -1,34 +1,94 @@
 import { FulfillmentType } from "@/domain/order/Order";
+import {
+  computeOrderGrandTotal,
+  computeWeightAdjustment,
+  type OrderItem,
+} from "@/domain/order/OrderItem";
+import {
+  PaymentMethod,
+  computeAmountDue,
+  type OrderBalance,
+  type Payment,
+} from "@/domain/payment/Payment";
 import { formatCurrency } from "./helpers";
+import { RecordPaymentForm } from "./RecordPaymentForm";
+
+// ─── Labels ───────────────────────────────────────────────────────────────────
+
+const METHOD_LABELS: Record<PaymentMethod, string> = {
+  [PaymentMethod.PIX]: "PIX",
+  [PaymentMethod.CASH]: "Dinheiro",
+  [PaymentMethod.CARD]: "Cartão",
+};
+
+function formatDate(date: Date): string {
+  return date.toLocaleDateString("pt-BR", {
+    day: "2-digit",
+    month: "2-digit",
+    timeZone: "America/Sao_Paulo",
+  });
+}
 
 // ─── Component ────────────────────────────────────────────────────────────────
 
 interface FinancialSummaryCardProps {
-  items: Array<{
-    unitPrice: number;
-    discountAmount: number;
-    quantity: number;
-  }>;
+  items: Array<
+    Pick<
+      OrderItem,
+      | "unitPrice"
+      | "discountAmount"
+      | "quantity"
+      | "weightKg"
+      | "pricePerKg"
+      | "finalWeightKg"
+    >
+  >;
   deliveryFee: number;
   fulfillmentType: FulfillmentType;
+  /** Coupon redeemed at checkout, shown next to the discount. */
+  couponCode: string | null;
+  /** Recorded payments, oldest first. */
+  payments: Payment[];
+  balance: OrderBalance;
+  /** Order id when it still accepts payments; null hides the form. */
+  recordPaymentOrderId: string | null;
 }
 
 /**
- * FinancialSummaryCard — subtotal, delivery fee, and order total.
+ * FinancialSummaryCard — subtotal, discount, delivery fee, and order total.
  *
- * The delivery fee row is shown for DELIVERY orders (even when 0, displayed
- * as "Grátis"). For PICKUP orders the row is omitted entirely.
+ * The subtotal is at the frozen unit prices; the discount row sums the
+ * per-unit discounts written by the coupon and is omitted when there are
+ * none.  Weighed lines sold by weight add a weighing adjustment row (the
+ * difference from the ordered weight), omitted when it is zero.  The delivery fee row is shown for DELIVERY orders (even when 0,
+ * displayed as "Grátis"). For PICKUP orders the row is omitted entirely.
+ *
+ * Below the total: the deposit the store requires (when it takes one), what
+ * was paid so far and the outstanding balance, then the recorded payments
+ * and the form to record a new one while the order accepts payments.
  */
 export function FinancialSummaryCard({
   items,
   deliveryFee,
   fulfillmentType,
+  couponCode,
+  payments,
+  balance,
+  recordPaymentOrderId,
 }: FinancialSummaryCardProps) {
   const subtotal = items.reduce(
-    (sum, item) => sum + (item.unitPrice - item.discountAmount) * item.quantity,
+    (sum, item) => sum + item.unitPrice * item.quantity,
+    0,
+  );
+  const discount = items.reduce(
+    (sum, item) => sum + item.discountAmount * item.quantity,
     0,
   );
-  const total = subtotal + deliveryFee;
+  const weightAdjustment =
+    Math.round(
+      items.reduce((sum, item) => sum + computeWeightAdjustment(item), 0) * 100,
+    ) / 100;
+  const total = computeOrderGrandTotal({ items, deliveryFee });
   const isDelivery = fulfillmentType === FulfillmentType.DELIVERY;
 
   return (
@@ -45,6 +105,38 @@ export function FinancialSummaryCard({
             </span>
           </div>
 
+          {/* Discount — only when a coupon discounted the items */}
+          {discount > 0 && (
+            <div className="flex items-center justify-between px-4 py-3">
+              <span className="text-sm text-foreground-muted">
+                Desconto
+                {couponCode && (
+                  <span className="ml-1.5 rounded bg-surface-subtle px-1.5 py-0.5 font-mono text-xs text-foreground">
+                    {couponCode}
+                  </span>
+                )}
+              </span>
+              <span className="text-sm font-medium text-green-700 tabular-nums">
+                − {formatCurrency(discount)}
+              </span>
+            </div>
+          )}
+
+          {/* Weighing — only when a weighed line differs from the order */}
+          {weightAdjustment !== 0 && (
+            <div className="flex items-center justify-between px-4 py-3">
+              <span className="text-sm text-foreground-muted">
+                Ajuste de pesagem
+              </span>
+              <span
+                className={`text-sm font-medium tabular-nums ${weightAdjustment < 0 ? "text-green-700" : "text-foreground"}`}
+              >
+                {weightAdjustment > 0 ? "+" : "−"}{" "}
+                {formatCurrency(Math.abs(weightAdjustment))}
+              </span>
+            </div>
+          )}
+
           {/* Delivery fee — only for DELIVERY orders */}
           {isDelivery && (
             <div className="flex items-center justify-between px-4 py-3">
@@ -63,6 +155,73 @@ export function FinancialSummaryCard({
             {formatCurrency(total)}
           </span>
         </div>
+
+        {/* Balance — deposit, paid and outstanding */}
+        <div className="divide-y divide-line border-t border-line">
+          {balance.deposit < balance.total && (
+            <div className="flex items-center justify-between px-4 py-3">
+              <span className="text-sm text-foreground-muted">
+                Sinal exigido
+              </span>
+              <span className="text-sm font-medium text-foreground tabular-nums">
+                {formatCurrency(balance.deposit)}
+              </span>
+            </div>
+          )}
+          <div className="flex items-center justify-between px-4 py-3">
+            <span className="text-sm text-foreground-muted">Pago</span>
+            <span className="text-sm font-medium text-green-700 tabular-nums">
+              {formatCurrency(balance.paid)}
+            </span>
+          </div>
+          <div className="flex items-center justify-between px-4 py-3">
+            <span className="text-sm font-semibold text-foreground">
+              Em aberto
+            </span>
+            <span
+              className={`text-sm font-semibold tabular-nums ${balance.outstanding > 0 ? "text-danger" : "text-foreground"}`}
+            >
+              {formatCurrency(balance.outstanding)}
+            </span>
+          </div>
+        </div>
+
+        {/* Recorded payments */}
+        {payments.length > 0 && (
+          <ul className="flex flex-col gap-3 border-t border-line px-4 py-3">
+            {payments.map((payment) => (
+              <li key={payment.id} className="flex flex-col gap-0.5">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-sm font-medium text-foreground">
+                    {METHOD_LABELS[payment.method]}
+                  </span>
+                  <span className="text-sm font-medium text-foreground tabular-nums">
+                    {formatCurrency(payment.amount)}
+                  </span>
+                </div>
+                <span className="text-xs text-foreground-muted">
+                  {formatDate(payment.paidAt)}
+                </span>
+                {payment.notes && (
+                  <span className="text-xs text-foreground break-words">
+                    {payment.notes}
+                  </span>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {recordPaymentOrderId && balance.outstanding > 0 && (
+          <div className="border-t border-line p-4">
+            <RecordPaymentForm
+              key={balance.paid}
+              orderId={recordPaymentOrderId}
+              outstanding={balance.outstanding}
+              suggestedAmount={computeAmountDue(balance)}
+            />
+          </div>
+        )}
       </div>
     </section>
   );
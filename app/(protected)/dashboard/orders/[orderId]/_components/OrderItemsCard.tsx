@@ -1,10 +1,22 @@
-import type { OrderItem } from "@/domain/order/OrderItem";
+import Link from "next/link";
+import {
+  computeLineTotal,
+  computeWeightAdjustment,
+  type OrderItem,
+} from "@/domain/order/OrderItem";
+import { formatWeight } from "@/shared/utils/formatWeight";
+import { formatItemOption } from "@/domain/product/ProductOption";
 import { formatCurrency } from "./helpers";
+import { RecordWeightForm } from "./RecordWeightForm";
 
 // ─── Component ────────────────────────────────────────────────────────────────
 
 interface OrderItemsCardProps {
   items: OrderItem[];
+  /** Link to the edit mode. Omitted when the order can no longer change. */
+  editHref?: string;
+  /** Order id while lines sold by weight can be weighed; omitted otherwise. */
+  weighOrderId?: string;
 }
 
 /**
@@ -12,23 +24,41 @@ interface OrderItemsCardProps {
  *
  * Each row shows: quantity badge, product name, variant, unit price breakdown
  * and line total. Financial summary lives in FinancialSummaryCard.
+ * Lines sold by weight also show the ordered weight and price per kg, the
+ * weighed amount once recorded and, while the order is open, the form to
+ * record it.
  */
-export function OrderItemsCard({ items }: OrderItemsCardProps) {
+export function OrderItemsCard({
+  items,
+  editHref,
+  weighOrderId,
+}: OrderItemsCardProps) {
   return (
     <section aria-label="Itens do pedido">
-      <h2 className="flex items-center gap-2 text-xs font-semibold uppercase tracking-widest text-foreground-muted">
-        <span className="h-3.5 w-3.5 shrink-0">
-          <ShoppingBagIcon />
-        </span>
-        Itens do pedido
-      </h2>
+      <div className="flex items-center justify-between gap-2">
+        <h2 className="flex items-center gap-2 text-xs font-semibold uppercase tracking-widest text-foreground-muted">
+          <span className="h-3.5 w-3.5 shrink-0">
+            <ShoppingBagIcon />
+          </span>
+          Itens do pedido
+        </h2>
+        {editHref && (
+          <Link
+            href={editHref}
+            className="text-xs font-semibold text-foreground hover:underline"
+          >
+            Editar pedido
+          </Link>
+        )}
+      </div>
 
       <div className="mt-3 rounded-xl border border-line bg-surface overflow-hidden">
         <ul className="divide-y divide-line">
           {items.map((item, i) => {
             const linePrice = item.unitPrice - item.discountAmount;
-            const lineTotal = linePrice * item.quantity;
+            const lineTotal = computeLineTotal(item);
             const hasDiscount = item.discountAmount > 0;
+            const adjustment = computeWeightAdjustment(item);
 
             return (
               <li
@@ -49,6 +79,52 @@ export function OrderItemsCard({ items }: OrderItemsCardProps) {
                         {item.variantLabel}
                       </p>
                     )}
+                    {item.weightKg !== null && item.pricePerKg !== null && (
+                      <p className="text-xs text-foreground-muted mt-0.5">
+                        {formatWeight(item.weightKg, "kg")} ×{" "}
+                        {formatCurrency(item.pricePerKg)}/kg
+                      </p>
+                    )}
+                    {item.finalWeightKg !== null && (
+                      <p className="text-xs text-foreground mt-0.5">
+                        Pesado: {formatWeight(item.finalWeightKg, "kg")}
+                        {adjustment !== 0 && (
+                          <span
+                            className={
+                              adjustment > 0
+                                ? "ml-1 text-foreground-muted"
+                                : "ml-1 text-green-700"
+                            }
+                          >
+                            ({adjustment > 0 ? "+" : "−"}
+                            {formatCurrency(Math.abs(adjustment))})
+                          </span>
+                        )}
+                      </p>
+                    )}
+                    {weighOrderId && item.weightKg !== null && (
+                      <RecordWeightForm
+                        key={item.finalWeightKg ?? "unweighed"}
+                        orderId={weighOrderId}
+                        itemId={item.id}
+                        suggestedKg={
+                          item.finalWeightKg ?? item.weightKg * item.quantity
+                        }
+                      />
+                    )}
+                    {item.options.map((option, j) => (
+                      <p
+                        key={j}
+                        className="text-xs text-foreground-muted mt-0.5"
+                      >
+                        {formatItemOption(option)}
+                      </p>
+                    ))}
+                    {item.notes && (
+                      <p className="text-xs text-amber-700 mt-0.5">
+                        Obs.: {item.notes}
+                      </p>
+                    )}
                     {item.categoryNames.length > 0 && (
                       <div className="mt-1 flex flex-wrap gap-1">
                         {item.categoryNames.map((cat) => (
@@ -0,0 +1,132 @@
+import {
+  NotificationStatus,
+  OrderNotificationEvent,
+  type OrderNotification,
+} from "@/domain/notification/OrderNotification";
+import type { OrderProgressEvent } from "@/application/notification/SendOrderProgressMessageUseCase";
+import { SendProgressMessageButton } from "./SendProgressMessageButton";
+
+// ─── Labels ───────────────────────────────────────────────────────────────────
+
+const EVENT_LABELS: Record<OrderNotificationEvent, string> = {
+  [OrderNotificationEvent.ORDER_RECEIVED]: "Pedido recebido",
+  [OrderNotificationEvent.ORDER_APPROVED]: "Pedido aprovado",
+  [OrderNotificationEvent.ORDER_REJECTED]: "Pedido recusado",
+  [OrderNotificationEvent.ORDER_PAID]: "Pagamento confirmado",
+  [OrderNotificationEvent.ORDER_READY_FOR_PICKUP]: "Pronto para retirada",
+  [OrderNotificationEvent.ORDER_OUT_FOR_DELIVERY]: "Saiu para entrega",
+  [OrderNotificationEvent.ORDER_DELIVERED]: "Pedido entregue",
+  [OrderNotificationEvent.ORDER_CANCELLED]: "Pedido cancelado",
+  [OrderNotificationEvent.ORDER_REMINDER]: "Lembrete da véspera",
+};
+
+function formatDateTime(date: Date): string {
+  return date.toLocaleString("pt-BR", {
+    day: "2-digit",
+    month: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    timeZone: "America/Sao_Paulo",
+  });
+}
+
+// ─── Component ────────────────────────────────────────────────────────────────
+
+interface OrderNotificationsCardProps {
+  orderId: string;
+  notifications: OrderNotification[];
+  /** Manual message the owner can send now. Null hides the button. */
+  progressEvent: OrderProgressEvent | null;
+}
+
+/**
+ * OrderNotificationsCard — automated WhatsApp messages sent for the order.
+ *
+ * One row per send attempt: event, time and whether the provider accepted
+ * it.  Failed attempts show the provider error so the owner knows to fall
+ * back to the manual WhatsApp link.
+ *
+ * Approved orders also get a button for the one message with no status of
+ * its own: "pronto para retirada" (PICKUP) or "saiu para entrega" (DELIVERY).
+ */
+export function OrderNotificationsCard({
+  orderId,
+  notifications,
+  progressEvent,
+}: OrderNotificationsCardProps) {
+  return (
+    <section aria-label="Mensagens automáticas">
+      <h2 className="flex items-center gap-2 text-xs font-semibold uppercase tracking-widest text-foreground-muted">
+        <span className="h-3.5 w-3.5 shrink-0">
+          <MessageIcon />
+        </span>
+        Mensagens automáticas
+      </h2>
+
+      <div className="mt-3 rounded-xl border border-line bg-surface p-4">
+        {notifications.length === 0 ? (
+          <p className="text-xs text-foreground-muted">
+            Nenhuma mensagem enviada ainda.
+          </p>
+        ) : (
+          <ul className="flex flex-col gap-3">
+            {notifications.map((n) => {
+              const sent = n.status === NotificationStatus.SENT;
+              return (
+                <li key={n.id} className="flex flex-col gap-0.5">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-sm font-medium text-foreground">
+                      {EVENT_LABELS[n.event]}
+                    </span>
+                    <span
+                      className={`text-xs font-semibold ${sent ? "text-green-700" : "text-danger"}`}
+                    >
+                      {sent ? "Enviada" : "Falhou"}
+                    </span>
+                  </div>
+                  <span className="text-xs text-foreground-muted">
+                    {formatDateTime(n.createdAt)}
+                  </span>
+                  {!sent && n.error && (
+                    <span className="text-xs text-danger break-words">
+                      {n.error}
+                    </span>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        {progressEvent && (
+          <div className="mt-4 border-t border-line pt-4">
+            <SendProgressMessageButton
+              orderId={orderId}
+              event={progressEvent}
+              label={`Avisar: ${EVENT_LABELS[progressEvent].toLowerCase()}`}
+            />
+          </div>
+        )}
+      </div>
+    </section>
+  );
+}
+
+// ─── Icons ────────────────────────────────────────────────────────────────────
+
+function MessageIcon() {
+  return (
+    <svg
+      xmlns="http://www.w3.org/2000/svg"
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth={2}
+      strokeLinecap="round"
+      strokeLinejoin="round"
+      aria-hidden="true"
+    >
+      <path d="M21 15a2 2 0 0 1-2 2H7l-4 4V5a2 2 0 0 1 2-2h14a2 2 0 0 1 2 2z" />
+    </svg>
+  );
+}
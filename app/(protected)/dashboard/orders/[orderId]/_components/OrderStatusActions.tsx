@@ -30,6 +30,19 @@ const ACTIONS_BY_STATUS: Partial<
       requiresConfirm: true,
     },
   ],
+  [OrderTrackingStatus.PARTIALLY_PAID]: [
+    {
+      label: "Marcar como Pago",
+      next: OrderTrackingStatus.PAID,
+      variant: "primary",
+    },
+    {
+      label: "Cancelar pedido",
+      next: OrderTrackingStatus.CANCELLED,
+      variant: "danger",
+      requiresConfirm: true,
+    },
+  ],
   [OrderTrackingStatus.PAID]: [
     {
       label: "Marcar como Entregue",
@@ -1,164 +1,182 @@
-import { OrderTrackingStatus } from "@/domain/order/Order";
+import {
+  OrderActorType,
+  OrderStatusLogField,
+  type OrderStatusLog,
+} from "@/domain/order/OrderStatusLog";
+
+// ─── Labels ───────────────────────────────────────────────────────────────────
+
+const STATUS_LABELS: Record<string, string> = {
+  PENDING: "Pendente",
+  APPROVED: "Aprovado",
+  REJECTED: "Rejeitado",
+};
+
+const TRACKING_LABELS: Record<string, string> = {
+  PENDING: "Aguardando pagamento",
+  PARTIALLY_PAID: "Pago parcialmente",
+  PAID: "Pago",
+  DELIVERED: "Entregue",
+  CANCELLED: "Cancelado",
+};
 
-// ─── Step definitions ─────────────────────────────────────────────────────────
+/** Order fields that appear in DETAILS snapshots. */
+const DETAIL_FIELD_LABELS: Record<string, string> = {
+  deliveryDate: "data",
+  fulfillmentType: "tipo de entrega",
+  pickupTime: "horário de retirada",
+  pickupSlotId: "horário de retirada",
+  deliveryCep: "CEP",
+  deliveryStreet: "rua",
+  deliveryNumber: "número",
+  deliveryNeighborhood: "bairro",
+  deliveryCity: "cidade",
+  shippingAddress: "endereço",
+  deliveryFee: "taxa de entrega",
+  items: "itens",
+  weighing: "pesagem",
+  itemsTotal: "total dos itens",
+};
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
 
-interface Step {
-  status: OrderTrackingStatus;
-  label: string;
-  description: string;
+function describeEntry(entry: OrderStatusLog): string {
+  switch (entry.field) {
+    case OrderStatusLogField.STATUS:
+      return entry.fromValue === null
+        ? "Pedido recebido"
+        : (STATUS_LABELS[entry.toValue ?? ""] ?? entry.toValue ?? "—");
+    case OrderStatusLogField.TRACKING_STATUS:
+      return TRACKING_LABELS[entry.toValue ?? ""] ?? entry.toValue ?? "—";
+    case OrderStatusLogField.DETAILS:
+      return `Pedido editado: ${describeChangedFields(entry.toValue)}`;
+  }
 }
 
-const STEPS: Step[] = [
-  {
-    status: OrderTrackingStatus.PENDING,
-    label: "Pendente",
-    description: "Aguardando pagamento",
-  },
-  {
-    status: OrderTrackingStatus.PAID,
-    label: "Pago",
-    description: "Pagamento confirmado",
-  },
-  {
-    status: OrderTrackingStatus.DELIVERED,
-    label: "Entregue",
-    description: "Pedido entregue ao cliente",
-  },
-];
+/** Human-readable list of the keys of a DETAILS snapshot. */
+function describeChangedFields(snapshot: string | null): string {
+  try {
+    const keys = Object.keys(JSON.parse(snapshot ?? "{}"));
+    const labels = new Set(keys.map((k) => DETAIL_FIELD_LABELS[k] ?? k));
+    return Array.from(labels).join(", ");
+  } catch {
+    return "detalhes";
+  }
+}
 
-// ─── Helpers ──────────────────────────────────────────────────────────────────
+/** Rejections and cancellations are drawn in red. */
+function isNegative(entry: OrderStatusLog): boolean {
+  return entry.toValue === "REJECTED" || entry.toValue === "CANCELLED";
+}
 
-const STEP_ORDER: Record<OrderTrackingStatus, number> = {
-  [OrderTrackingStatus.PENDING]: 0,
-  [OrderTrackingStatus.PAID]: 1,
-  [OrderTrackingStatus.DELIVERED]: 2,
-  [OrderTrackingStatus.CANCELLED]: -1,
-};
+function formatDateTime(date: Date): string {
+  return date.toLocaleString("pt-BR", {
+    day: "2-digit",
+    month: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    timeZone: "America/Sao_Paulo",
+  });
+}
 
 // ─── Component ────────────────────────────────────────────────────────────────
 
 interface OrderStatusTrackerProps {
-  /** Current tracking status of the order. */
-  currentStatus: OrderTrackingStatus;
+  /** Recorded changes of the order, oldest first (OrderStatusLog). */
+  history: OrderStatusLog[];
 }
 
 /**
- * OrderStatusTracker — horizontal step-progress component.
- *
- * Visualises the order's journey through:
- *   Aprovado → Pendente → Pago → Entregue
+ * OrderStatusTracker — vertical timeline of the order's real history.
  *
- * If the order is CANCELLED it renders a distinct "Cancelado" banner instead.
+ * One step per OrderStatusLog entry: what changed, when, who did it
+ * ("Sistema" for platform changes) and the reason when one was given.
+ * The latest entry is highlighted as the current state.
  *
  * Server Component — no interactivity required here. Action buttons are in
  * OrderStatusActions.
  */
-export function OrderStatusTracker({ currentStatus }: OrderStatusTrackerProps) {
-  // ── Cancelled state ──────────────────────────────────────────────────────
-  if (currentStatus === OrderTrackingStatus.CANCELLED) {
+export function OrderStatusTracker({ history }: OrderStatusTrackerProps) {
+  if (history.length === 0) {
     return (
-      <div className="flex items-center gap-3 rounded-xl border border-red-200 bg-red-50 px-4 py-4">
-        <div className="flex h-9 w-9 shrink-0 items-center justify-center rounded-full bg-red-100">
-          <BanIcon className="h-5 w-5 text-red-600" />
-        </div>
-        <div>
-          <p className="text-sm font-semibold text-red-800">Pedido cancelado</p>
-          <p className="text-xs text-red-600">
-            Este pedido foi cancelado após a aprovação.
-          </p>
-        </div>
-      </div>
+      <p className="text-xs text-foreground-muted">
+        Nenhuma alteração registrada.
+      </p>
     );
   }
 
-  const currentIdx = STEP_ORDER[currentStatus];
-
   return (
-    <div aria-label="Progresso do pedido">
-      {/* ── "Aprovado" anchor step —— always done ─────────────────────── */}
-      <div className="mb-4 flex items-center gap-2">
-        <div className="flex h-7 w-7 shrink-0 items-center justify-center rounded-full bg-surface border border-green-600">
-          <CheckIcon className="h-4 w-4 text-green-700" />
-        </div>
-        <div>
-          <p className="text-xs font-semibold text-green-700">Aprovado</p>
-          <p className="text-xs text-foreground-muted">
-            Pedido aceito pela loja
-          </p>
-        </div>
-      </div>
-
-      {/* ── Connector ─────────────────────────────────────────────────── */}
-      <div className="ml-3.5 mb-2 w-px h-4 bg-line" aria-hidden="true" />
-
-      {/* ── Tracking steps ────────────────────────────────────────────── */}
-      <ol className="flex flex-col gap-0" aria-label="Etapas do pedido">
-        {STEPS.map((step, idx) => {
-          const isDone = idx < currentIdx;
-          const isCurrent = idx === currentIdx;
-          const isUpcoming = idx > currentIdx;
-
-          return (
-            <li key={step.status}>
-              <div className="flex items-center gap-2">
-                {/* Step circle */}
-                <div
-                  className={[
-                    "flex h-7 w-7 shrink-0 items-center justify-center rounded-full transition-colors",
-                    isDone
-                      ? "bg-surface border border-green-600"
-                      : isCurrent
-                        ? "bg-green-600"
-                        : "border-2 border-line bg-surface",
-                  ].join(" ")}
-                  aria-hidden="true"
-                >
-                  {isDone ? (
-                    <CheckIcon className="h-4 w-4 text-green-700" />
-                  ) : isCurrent ? (
-                    <span className="h-6 w-6 flex shrink-0 items-center justify-center rounded-full transition-colors">
-                      <CheckIcon className="h-4 w-4 text-white" />
-                    </span>
-                  ) : null}
-                </div>
-
-                {/* Step label */}
-                <div>
-                  <p
+    <ol className="flex flex-col gap-0" aria-label="Histórico do pedido">
+      {history.map((entry, idx) => {
+        const isCurrent = idx === history.length - 1;
+        const negative = isNegative(entry);
+
+        return (
+          <li key={entry.id}>
+            <div className="flex items-start gap-2">
+              {/* Step circle */}
+              <div
+                className={[
+                  "flex h-7 w-7 shrink-0 items-center justify-center rounded-full",
+                  negative
+                    ? "border border-red-300 bg-red-50"
+                    : isCurrent
+                      ? "bg-green-600"
+                      : "bg-surface border border-green-600",
+                ].join(" ")}
+                aria-hidden="true"
+              >
+                {negative ? (
+                  <BanIcon className="h-4 w-4 text-red-600" />
+                ) : (
+                  <CheckIcon
                     className={[
-                      "text-xs font-semibold",
-                      isDone
-                        ? "text-green-700"
-                        : isCurrent
-                          ? "text-foreground"
-                          : "text-foreground-muted",
+                      "h-4 w-4",
+                      isCurrent ? "text-white" : "text-green-700",
                     ].join(" ")}
-                  >
-                    {step.label}
-                  </p>
-                  {!isUpcoming && (
-                    <p className="text-xs text-foreground-muted">
-                      {step.description}
-                    </p>
-                  )}
-                </div>
+                  />
+                )}
               </div>
 
-              {/* Connector between steps */}
-              {idx < STEPS.length - 1 && (
-                <div
+              {/* Step details */}
+              <div className="min-w-0">
+                <p
                   className={[
-                    "ml-3.5 my-1 w-px h-5",
-                    isDone ? "bg-green-400" : "bg-line",
+                    "text-xs font-semibold",
+                    negative
+                      ? "text-red-700"
+                      : isCurrent
+                        ? "text-foreground"
+                        : "text-green-700",
                   ].join(" ")}
-                  aria-hidden="true"
-                />
-              )}
-            </li>
-          );
-        })}
-      </ol>
-    </div>
+                >
+                  {describeEntry(entry)}
+                </p>
+                <p className="text-xs text-foreground-muted">
+                  {formatDateTime(entry.createdAt)} ·{" "}
+                  {entry.actorType === OrderActorType.SYSTEM
+                    ? "Sistema"
+                    : (entry.actorEmail ?? "Administrador removido")}
+                </p>
+                {entry.reason && (
+                  <p className="text-xs text-foreground break-words">
+                    Motivo: {entry.reason}
+                  </p>
+                )}
+              </div>
+            </div>
+
+            {/* Connector between steps */}
+            {!isCurrent && (
+              <div
+                className="ml-3.5 my-1 w-px h-4 bg-line"
+                aria-hidden="true"
+              />
+            )}
+          </li>
+        );
+      })}
+    </ol>
   );
 }
 
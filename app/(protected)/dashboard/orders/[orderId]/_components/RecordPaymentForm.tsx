@@ -0,0 +1,154 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import {
+  PAYMENT_NOTES_MAX_LENGTH,
+  PaymentMethod,
+} from "@/domain/payment/Payment";
+import { recordPayment } from "../actions";
+import { Button } from "../../../../../_components/Button";
+import { InlineFeedback } from "../../../../../_components/InlineFeedback";
+
+const INPUT_CLASS =
+  "w-full rounded-lg border border-line bg-surface px-3 py-2 text-sm text-foreground placeholder:text-foreground-muted focus:outline-none focus:ring-2 focus:ring-accent/30 transition disabled:opacity-50";
+
+const METHOD_OPTIONS: { value: PaymentMethod; label: string }[] = [
+  { value: PaymentMethod.PIX, label: "PIX" },
+  { value: PaymentMethod.CASH, label: "Dinheiro" },
+  { value: PaymentMethod.CARD, label: "Cartão" },
+];
+
+/** Today as YYYY-MM-DD in the stores' timezone. */
+function today(): string {
+  return new Date().toLocaleDateString("en-CA", {
+    timeZone: "America/Sao_Paulo",
+  });
+}
+
+interface RecordPaymentFormProps {
+  orderId: string;
+  /** Upper bound for the amount. */
+  outstanding: number;
+  /** Pre-filled amount: the deposit, or the balance once it was paid. */
+  suggestedAmount: number;
+}
+
+/**
+ * RecordPaymentForm — records money received for the order (deposit,
+ * balance or any part of it).  The payment list and the status update once
+ * the page revalidates.
+ */
+export function RecordPaymentForm({
+  orderId,
+  outstanding,
+  suggestedAmount,
+}: RecordPaymentFormProps) {
+  const [amount, setAmount] = useState(suggestedAmount.toFixed(2));
+  const [method, setMethod] = useState<PaymentMethod>(PaymentMethod.PIX);
+  const [paidAt, setPaidAt] = useState(today);
+  const [notes, setNotes] = useState("");
+  const [feedback, setFeedback] = useState<{
+    type: "success" | "error";
+    message: string;
+  } | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setFeedback(null);
+
+    const parsed = parseFloat(amount.replace(",", "."));
+    if (isNaN(parsed) || parsed <= 0) {
+      setFeedback({ type: "error", message: "Informe um valor válido." });
+      return;
+    }
+
+    startTransition(async () => {
+      const result = await recordPayment(orderId, {
+        amount: parsed,
+        method,
+        paidAt,
+        notes,
+      });
+      if (result.success) {
+        setNotes("");
+        setFeedback({ type: "success", message: "Pagamento registrado!" });
+      } else {
+        setFeedback({ type: "error", message: result.error });
+      }
+    });
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-col gap-3">
+      <p className="text-xs font-semibold uppercase tracking-widest text-foreground-muted">
+        Registrar pagamento
+      </p>
+
+      <div className="grid grid-cols-2 gap-2">
+        <input
+          type="number"
+          inputMode="decimal"
+          min="0.01"
+          max={outstanding.toFixed(2)}
+          step="0.01"
+          value={amount}
+          disabled={isPending}
+          onChange={(e) => setAmount(e.target.value)}
+          aria-label="Valor (R$)"
+          className={INPUT_CLASS}
+        />
+        <select
+          value={method}
+          disabled={isPending}
+          onChange={(e) => setMethod(e.target.value as PaymentMethod)}
+          aria-label="Forma de pagamento"
+          className={INPUT_CLASS}
+        >
+          {METHOD_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <input
+        type="date"
+        value={paidAt}
+        disabled={isPending}
+        onChange={(e) => setPaidAt(e.target.value)}
+        aria-label="Data do pagamento"
+        className={INPUT_CLASS}
+      />
+
+      <input
+        type="text"
+        value={notes}
+        maxLength={PAYMENT_NOTES_MAX_LENGTH}
+        disabled={isPending}
+        onChange={(e) => setNotes(e.target.value)}
+        placeholder="Observação (opcional)"
+        className={INPUT_CLASS}
+      />
+
+      {feedback && (
+        <InlineFeedback
+          type={feedback.type}
+          message={feedback.message}
+          onDismiss={() => setFeedback(null)}
+        />
+      )}
+
+      <Button
+        type="submit"
+        variant="secondary"
+        size="sm"
+        loading={isPending}
+        disabled={isPending}
+      >
+        Registrar pagamento
+      </Button>
+    </form>
+  );
+}
@@ -0,0 +1,81 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { recordItemWeight } from "../actions";
+import { Button } from "../../../../../_components/Button";
+import { InlineFeedback } from "../../../../../_components/InlineFeedback";
+
+const INPUT_CLASS =
+  "w-24 rounded-lg border border-line bg-surface px-2 py-1 text-xs text-foreground placeholder:text-foreground-muted focus:outline-none focus:ring-2 focus:ring-accent/30 transition disabled:opacity-50";
+
+interface RecordWeightFormProps {
+  orderId: string;
+  itemId: string;
+  /** Pre-filled weight in kg: the recorded one, or what was ordered. */
+  suggestedKg: number;
+}
+
+/**
+ * RecordWeightForm — records the weighed amount of a line sold by weight.
+ * The line and order totals update once the page revalidates.
+ */
+export function RecordWeightForm({
+  orderId,
+  itemId,
+  suggestedKg,
+}: RecordWeightFormProps) {
+  const [weight, setWeight] = useState(String(suggestedKg));
+  const [error, setError] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setError(null);
+
+    const parsed = parseFloat(weight.replace(",", "."));
+    if (isNaN(parsed) || parsed <= 0) {
+      setError("Informe um peso válido.");
+      return;
+    }
+
+    startTransition(async () => {
+      const result = await recordItemWeight(orderId, itemId, parsed);
+      if (!result.success) setError(result.error);
+    });
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="mt-1.5 flex flex-col gap-1.5">
+      <div className="flex items-center gap-2">
+        <input
+          type="number"
+          inputMode="decimal"
+          min="0.001"
+          step="0.001"
+          value={weight}
+          disabled={isPending}
+          onChange={(e) => setWeight(e.target.value)}
+          aria-label="Peso final (kg)"
+          className={INPUT_CLASS}
+        />
+        <span className="text-xs text-foreground-muted">kg</span>
+        <Button
+          type="submit"
+          variant="secondary"
+          size="sm"
+          loading={isPending}
+          disabled={isPending}
+        >
+          Registrar pesagem
+        </Button>
+      </div>
+      {error && (
+        <InlineFeedback
+          type="error"
+          message={error}
+          onDismiss={() => setError(null)}
+        />
+      )}
+    </form>
+  );
+}
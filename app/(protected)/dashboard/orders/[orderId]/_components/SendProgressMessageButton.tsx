@@ -0,0 +1,56 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import type { OrderProgressEvent } from "@/application/notification/SendOrderProgressMessageUseCase";
+import { sendOrderProgressMessage } from "../actions";
+import { Button } from "../../../../../_components/Button";
+import { InlineFeedback } from "../../../../../_components/InlineFeedback";
+
+interface SendProgressMessageButtonProps {
+  orderId: string;
+  event: OrderProgressEvent;
+  label: string;
+}
+
+/**
+ * SendProgressMessageButton — sends the "ready for pickup" / "out for
+ * delivery" WhatsApp message on demand.  The new attempt shows up in the
+ * list above once the page revalidates.
+ */
+export function SendProgressMessageButton({
+  orderId,
+  event,
+  label,
+}: SendProgressMessageButtonProps) {
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+
+  function handleClick() {
+    setError(null);
+    startTransition(async () => {
+      const result = await sendOrderProgressMessage(orderId, event);
+      if (!result.success) setError(result.error);
+    });
+  }
+
+  return (
+    <div className="flex flex-col gap-2">
+      <Button
+        variant="secondary"
+        size="sm"
+        type="button"
+        onClick={handleClick}
+        loading={isPending}
+      >
+        {label}
+      </Button>
+      {error && (
+        <InlineFeedback
+          type="error"
+          message={error}
+          onDismiss={() => setError(null)}
+        />
+      )}
+    </div>
+  );
+}
@@ -1,39 +1,63 @@
 "use server";
 
 import { revalidatePath } from "next/cache";
-import { getSession } from "@/infra/http/auth/getSession";
+import { getActionSession } from "@/infra/http/auth/getSession";
 import {
-  orderRepo,
+  updateOrderStatusUseCase,
   updateOrderTrackingStatusUseCase,
+  sendOrderProgressMessageUseCase,
+  editOrderUseCase,
+  recordPaymentUseCase,
+  recordItemWeightUseCase,
 } from "@/infra/composition";
 import {
+  FulfillmentType,
   OrderStatus,
   OrderTrackingStatus,
-  canTransitionTo,
 } from "@/domain/order/Order";
+import { adminChange } from "@/domain/order/OrderStatusLog";
 import { AppError } from "@/shared/errors/AppError";
+import {
+  isOrderProgressEvent,
+  type OrderProgressEvent,
+} from "@/application/notification/SendOrderProgressMessageUseCase";
+import type { EditOrderInput } from "@/application/order/EditOrderUseCase";
+import type { RecordPaymentInput } from "@/application/payment/RecordPaymentUseCase";
+
+/** Payment form payload — the date travels as YYYY-MM-DD. */
+export type RecordPaymentFormData = Pick<
+  RecordPaymentInput,
+  "amount" | "method" | "notes"
+> & { paidAt: string };
+
+/** Edit form payload — the date travels as YYYY-MM-DD. */
+export type EditOrderFormData = Omit<EditOrderInput, "deliveryDate"> & {
+  deliveryDate: string;
+};
 
 /**
  * updateOrderStatus — Server Action for decision status transitions.
  *
+ * The customer is messaged automatically on approval / rejection.
+ * The change is recorded in the status history under the logged-in admin,
+ * with the optional reason.
+ *
  * Re-validates both the detail page and the dashboard list so both reflect
  * the new state without a full refresh.
  */
 export async function updateOrderStatus(
   orderId: string,
   newStatus: OrderStatus,
+  reason?: string,
 ): Promise<{ success: true } | { success: false; error: string }> {
   try {
-    const session = await getSession();
-
-    const current = await orderRepo.findById(orderId, session.storeId);
-    if (!current) return { success: false, error: "Pedido não encontrado." };
-
-    if (!canTransitionTo(current.status, newStatus)) {
-      return { success: false, error: "Transição de status não permitida." };
-    }
-
-    await orderRepo.updateStatus(orderId, session.storeId, newStatus);
+    const session = await getActionSession();
+    await updateOrderStatusUseCase.execute(
+      orderId,
+      session.storeId,
+      newStatus,
+      adminChange(session.adminId, reason),
+    );
 
     revalidatePath(`/dashboard/orders/${orderId}`);
     revalidatePath("/dashboard");
@@ -56,13 +80,157 @@ export async function updateOrderStatus(
 export async function updateOrderTrackingStatus(
   orderId: string,
   newStatus: OrderTrackingStatus,
+  reason?: string,
 ): Promise<{ success: true } | { success: false; error: string }> {
   try {
-    const session = await getSession();
+    const session = await getActionSession();
     await updateOrderTrackingStatusUseCase.execute(
       orderId,
       session.storeId,
       newStatus,
+      adminChange(session.adminId, reason),
+    );
+
+    revalidatePath(`/dashboard/orders/${orderId}`);
+    revalidatePath("/dashboard");
+
+    return { success: true };
+  } catch (err) {
+    const message =
+      err instanceof AppError
+        ? err.message
+        : "Erro inesperado. Tente novamente.";
+    return { success: false, error: message };
+  }
+}
+
+/**
+ * sendOrderProgressMessage — Server Action for the manual "ready for pickup"
+ * / "out for delivery" WhatsApp message.
+ */
+export async function sendOrderProgressMessage(
+  orderId: string,
+  event: OrderProgressEvent,
+): Promise<{ success: true } | { success: false; error: string }> {
+  try {
+    if (!isOrderProgressEvent(event)) {
+      return { success: false, error: "Mensagem inválida." };
+    }
+    const session = await getActionSession();
+    await sendOrderProgressMessageUseCase.execute(
+      orderId,
+      session.storeId,
+      event,
+    );
+
+    revalidatePath(`/dashboard/orders/${orderId}`);
+
+    return { success: true };
+  } catch (err) {
+    const message =
+      err instanceof AppError
+        ? err.message
+        : "Erro inesperado. Tente novamente.";
+    return { success: false, error: message };
+  }
+}
+
+/**
+ * editOrder — Server Action for the order edit mode.
+ *
+ * Replaces items, date and fulfillment in one go; EditOrderUseCase re-runs
+ * every placement rule and records the edit in the status history.
+ */
+export async function editOrder(
+  orderId: string,
+  data: EditOrderFormData,
+): Promise<{ success: true } | { success: false; error: string }> {
+  try {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(data.deliveryDate)) {
+      return { success: false, error: "Data de entrega inválida." };
+    }
+    if (!Object.values(FulfillmentType).includes(data.fulfillmentType)) {
+      return { success: false, error: "Tipo de entrega inválido." };
+    }
+    const session = await getActionSession();
+    await editOrderUseCase.execute(
+      orderId,
+      session.storeId,
+      // Noon UTC keeps the calendar day stable in every Brazilian timezone
+      { ...data, deliveryDate: new Date(`${data.deliveryDate}T12:00:00.000Z`) },
+      adminChange(session.adminId),
+    );
+
+    revalidatePath(`/dashboard/orders/${orderId}`);
+    revalidatePath("/dashboard");
+
+    return { success: true };
+  } catch (err) {
+    const message =
+      err instanceof AppError
+        ? err.message
+        : "Erro inesperado. Tente novamente.";
+    return { success: false, error: message };
+  }
+}
+
+/**
+ * recordPayment — Server Action for money received for an order (deposit,
+ * balance or any part of it).
+ *
+ * RecordPaymentUseCase moves the tracking status to PARTIALLY_PAID or PAID;
+ * that transition is recorded under the logged-in admin.
+ */
+export async function recordPayment(
+  orderId: string,
+  data: RecordPaymentFormData,
+): Promise<{ success: true } | { success: false; error: string }> {
+  try {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(data.paidAt)) {
+      return { success: false, error: "Data de pagamento inválida." };
+    }
+    const session = await getActionSession();
+    await recordPaymentUseCase.execute(
+      {
+        orderId,
+        storeId: session.storeId,
+        amount: data.amount,
+        method: data.method,
+        // Noon UTC keeps the calendar day stable in every Brazilian timezone
+        paidAt: new Date(`${data.paidAt}T12:00:00.000Z`),
+        notes: data.notes,
+      },
+      adminChange(session.adminId),
+    );
+
+    revalidatePath(`/dashboard/orders/${orderId}`);
+    revalidatePath("/dashboard");
+
+    return { success: true };
+  } catch (err) {
+    const message =
+      err instanceof AppError
+        ? err.message
+        : "Erro inesperado. Tente novamente.";
+    return { success: false, error: message };
+  }
+}
+
+/**
+ * recordItemWeight — Server Action for the weighed amount of a line sold by
+ * weight.  The order total is adjusted and the weighing is recorded in the
+ * history under the logged-in admin.
+ */
+export async function recordItemWeight(
+  orderId: string,
+  itemId: string,
+  finalWeightKg: number,
+): Promise<{ success: true } | { success: false; error: string }> {
+  try {
+    const session = await getActionSession();
+    await recordItemWeightUseCase.execute(
+      { orderId, storeId: session.storeId, itemId, finalWeightKg },
+      adminChange(session.adminId),
     );
 
     revalidatePath(`/dashboard/orders/${orderId}`);
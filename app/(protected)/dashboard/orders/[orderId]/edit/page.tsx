@@ -0,0 +1,95 @@
+import { notFound, redirect } from "next/navigation";
+import Link from "next/link";
+import { getSession } from "@/infra/http/auth/getSession";
+import {
+  getOrderUseCase,
+  listProductsUseCase,
+  listPickupSlotsUseCase,
+} from "@/infra/composition";
+import { isOrderEditable } from "@/domain/order/Order";
+import { formatSlotLabel } from "@/domain/pickupSlot/StorePickupSlot";
+import { EditOrderForm } from "../_components/EditOrderForm";
+
+export const metadata = { title: "Editar Pedido" };
+
+interface Props {
+  params: Promise<{ orderId: string }>;
+}
+
+export default async function EditOrderPage({ params }: Props) {
+  const [session, { orderId }] = await Promise.all([getSession(), params]);
+
+  const [order, products, { slots }] = await Promise.all([
+    getOrderUseCase.execute(orderId, session.storeId),
+    listProductsUseCase.execute(session.storeId),
+    listPickupSlotsUseCase.execute({ storeId: session.storeId }),
+  ]);
+  if (!order) notFound();
+  if (!isOrderEditable(order)) redirect(`/dashboard/orders/${order.id}`);
+
+  return (
+    <main className="p-6 max-w-2xl mx-auto">
+      {/* Breadcrumb */}
+      <nav className="mb-6 text-sm text-gray-500 flex items-center gap-1">
+        <Link href="/dashboard" className="hover:text-gray-700">
+          Pedidos
+        </Link>
+        <span>/</span>
+        <Link
+          href={`/dashboard/orders/${order.id}`}
+          className="hover:text-gray-700"
+        >
+          #{order.orderNumber ?? "—"}
+        </Link>
+        <span>/</span>
+        <span className="text-gray-900 font-medium">Editar</span>
+      </nav>
+
+      <h1 className="text-2xl font-bold text-gray-900 mb-1">Editar pedido</h1>
+      <p className="text-sm text-gray-500 mb-6">{order.customerName}</p>
+
+      <EditOrderForm
+        orderId={order.id}
+        initialValues={{
+          deliveryDate: order.deliveryDate.toISOString().slice(0, 10),
+          fulfillmentType: order.fulfillmentType,
+          pickupSlotId: order.pickupSlotId,
+          deliveryCep: order.deliveryCep,
+          deliveryStreet: order.deliveryStreet,
+          deliveryNumber: order.deliveryNumber,
+          deliveryNeighborhood: order.deliveryNeighborhood,
+          deliveryCity: order.deliveryCity,
+        }}
+        initialLines={order.items.map((item) => ({
+          itemId: item.id,
+          productId: item.productId,
+          variantId: item.variantId,
+          name: item.variantLabel
+            ? `${item.productName} (${item.variantLabel})`
+            : item.productName,
+          unitPrice: item.unitPrice - item.discountAmount,
+          quantity: item.quantity,
+        }))}
+        products={products
+          .filter((p) => p.isActive)
+          .map((p) => ({
+            id: p.id,
+            name: p.name,
+            price: p.price,
+            minQuantity: p.minQuantity,
+            variants: p.variants
+              .filter((v) => v.isActive)
+              .map((v) => ({ id: v.id, label: v.label, price: v.price })),
+          }))}
+        // The order's own slot stays selectable even if deactivated since placement
+        pickupSlots={slots
+          .filter((s) => s.isActive || s.id === order.pickupSlotId)
+          .map((s) => ({
+            id: s.id,
+            dayOfWeek: s.dayOfWeek,
+            label: formatSlotLabel(s),
+          }))}
+      />
+    </main>
+  );
+}
@@ -4,7 +4,15 @@ import {
   getOrderUseCase,
   getStoreMessagesUseCase,
   getStorePickupAddressUseCase,
+  getStorePixKeyUseCase,
+  getStoreIdentityUseCase,
+  listOrderNotificationsUseCase,
+  listOrderStatusHistoryUseCase,
+  getOrderPixChargeUseCase,
+  getOrderPaymentsUseCase,
+  appUrl,
 } from "@/infra/composition";
+import { computeOrderGrandTotal } from "@/domain/order/OrderItem";
 import { OrderStatusManager } from "../../_components/OrderStatusManager";
 import { OrderDetailHeader } from "./_components/OrderDetailHeader";
 import { OrderItemsCard } from "./_components/OrderItemsCard";
@@ -12,12 +20,21 @@ import { OrderNotesCard } from "./_components/OrderNotesCard";
 import { CustomerInfoCard } from "./_components/CustomerInfoCard";
 import { LogisticsCard } from "./_components/LogisticsCard";
 import { FinancialSummaryCard } from "./_components/FinancialSummaryCard";
-import { formatLongDate } from "./_components/helpers";
+import { OrderNotificationsCard } from "./_components/OrderNotificationsCard";
 import {
   DEFAULT_MESSAGES,
+  buildMessageVars,
+  getTemplate,
   resolveMessage,
-  type MessageVars,
 } from "@/domain/store/StoreMessageConfig";
+import {
+  FulfillmentType,
+  OrderStatus,
+  OrderTrackingStatus,
+  isOrderEditable,
+} from "@/domain/order/Order";
+import { OrderNotificationEvent } from "@/domain/notification/OrderNotification";
+import { PixChargeStatus } from "@/domain/payment/PixCharge";
 
 // ─── Page ─────────────────────────────────────────────────────────────────────
 
@@ -28,33 +45,50 @@ interface Props {
 export default async function OrderDetailPage({ params }: Props) {
   const [session, { orderId }] = await Promise.all([getSession(), params]);
 
-  const [order, msgConfig, pickupAddress] = await Promise.all([
+  const [
+    order,
+    msgConfig,
+    pickupAddress,
+    pixKey,
+    identity,
+    notifications,
+    statusHistory,
+    pixCharge,
+    orderPayments,
+  ] = await Promise.all([
     getOrderUseCase.execute(orderId, session.storeId),
     getStoreMessagesUseCase.execute(session.storeId),
     getStorePickupAddressUseCase.execute(session.storeId),
+    getStorePixKeyUseCase.execute(session.storeId),
+    getStoreIdentityUseCase.execute(session.storeId),
+    listOrderNotificationsUseCase.execute(orderId, session.storeId),
+    listOrderStatusHistoryUseCase.execute(orderId, session.storeId),
+    getOrderPixChargeUseCase.execute(orderId, session.storeId),
+    getOrderPaymentsUseCase.execute(orderId, session.storeId),
   ]);
-  if (!order) notFound();
+  if (!order || !orderPayments) notFound();
 
   // ── Build per-action WhatsApp URLs ────────────────────────────────────────
-  const firstName =
-    order.customerName.trim().split(/\s+/)[0] ?? order.customerName.trim();
-  const messageVars: MessageVars = {
-    cliente: firstName,
-    pedido: order.orderNumber?.toString() ?? "—",
-    data: formatLongDate(order.deliveryDate),
-  };
+  const messageVars = buildMessageVars(order, {
+    pickupAddress,
+    pixKey,
+    pixCode:
+      pixCharge?.status === PixChargeStatus.PENDING ? pixCharge.brCode : null,
+    slug: identity.slug,
+    appUrl,
+  });
   const waDigits = order.customerWhatsapp.replace(/\D/g, "");
 
   const approvalWaUrl = `https://wa.me/${waDigits}?text=${encodeURIComponent(
     resolveMessage(
-      msgConfig?.approvalMessage ?? null,
+      getTemplate(msgConfig, "approval"),
       DEFAULT_MESSAGES.approval,
       messageVars,
     ),
   )}`;
   const rejectionWaUrl = `https://wa.me/${waDigits}?text=${encodeURIComponent(
     resolveMessage(
-      msgConfig?.rejectionMessage ?? null,
+      getTemplate(msgConfig, "rejection"),
       DEFAULT_MESSAGES.rejection,
       messageVars,
     ),
@@ -66,11 +100,23 @@ export default async function OrderDetailPage({ params }: Props) {
       )}`
     : null;
 
-  const subtotal = order.items.reduce(
-    (sum, item) => sum + (item.unitPrice - item.discountAmount) * item.quantity,
-    0,
-  );
-  const totalAmount = subtotal + order.deliveryFee;
+  // ── Manual "ready" / "out for delivery" message — open approved orders ────
+  const progressEvent =
+    order.status === OrderStatus.APPROVED &&
+    order.orderStatus !== OrderTrackingStatus.DELIVERED &&
+    order.orderStatus !== OrderTrackingStatus.CANCELLED
+      ? order.fulfillmentType === FulfillmentType.PICKUP
+        ? OrderNotificationEvent.ORDER_READY_FOR_PICKUP
+        : OrderNotificationEvent.ORDER_OUT_FOR_DELIVERY
+      : null;
+
+  // ── Payments are recorded until the order is settled ─────────────────────
+  const acceptsPayments =
+    order.status === OrderStatus.APPROVED &&
+    (order.orderStatus === OrderTrackingStatus.PENDING ||
+      order.orderStatus === OrderTrackingStatus.PARTIALLY_PAID);
+
+  const totalAmount = computeOrderGrandTotal(order);
 
   return (
     /*
@@ -102,10 +148,19 @@ export default async function OrderDetailPage({ params }: Props) {
                 initialTrackingStatus={order.orderStatus}
                 approvalWaUrl={approvalWaUrl}
                 rejectionWaUrl={rejectionWaUrl}
+                history={statusHistory}
               />
 
               {/* 2. Order items — operational preparation list */}
-              <OrderItemsCard items={order.items} />
+              <OrderItemsCard
+                items={order.items}
+                editHref={
+                  isOrderEditable(order)
+                    ? `/dashboard/orders/${order.id}/edit`
+                    : undefined
+                }
+                weighOrderId={isOrderEditable(order) ? order.id : undefined}
+              />
 
               {/* 3. Customer notes — highlighted only when present */}
               {order.notes && (
@@ -139,11 +194,22 @@ export default async function OrderDetailPage({ params }: Props) {
                 shippingAddress={order.shippingAddress}
               />
 
-              {/* 6. Financial summary — subtotal, delivery fee, total */}
+              {/* 6. Financial summary — totals, payments and balance */}
               <FinancialSummaryCard
                 items={order.items}
                 deliveryFee={order.deliveryFee}
                 fulfillmentType={order.fulfillmentType}
+                couponCode={order.couponCode}
+                payments={orderPayments.payments}
+                balance={orderPayments.balance}
+                recordPaymentOrderId={acceptsPayments ? order.id : null}
+              />
+
+              {/* 7. Automated WhatsApp messages — what the customer received */}
+              <OrderNotificationsCard
+                orderId={order.id}
+                notifications={notifications}
+                progressEvent={progressEvent}
               />
             </div>
           </div>
@@ -17,6 +17,7 @@ import { getSession } from "@/infra/http/auth/getSession";
 import { listOrdersUseCase } from "@/infra/composition";
 import { FulfillmentType } from "@/domain/order/Order";
 import type { OrderWithDetails, OrderFilters } from "@/domain/order/Order";
+import { computeOrderGrandTotal } from "@/domain/order/OrderItem";
 import type { OrderViewModel } from "../_components/types";
 import { parseOrdersFilters } from "../_lib/filters";
 import { OrdersSummaryCards } from "./_components/OrdersSummaryCards";
@@ -29,10 +30,7 @@ export const metadata: Metadata = { title: "Encomendas" };
 // ─── Helpers ──────────────────────────────────────────────────────────────────
 
 function toViewModel(order: OrderWithDetails): OrderViewModel {
-  const totalAmount = order.items.reduce(
-    (sum, item) => sum + (item.unitPrice - item.discountAmount) * item.quantity,
-    0,
-  );
+  const totalAmount = computeOrderGrandTotal(order);
 
   const products = order.items.map(
     (item) =>
@@ -3,6 +3,7 @@ import { getSession } from "@/infra/http/auth/getSession";
 import { listOrdersUseCase } from "@/infra/composition";
 import { FulfillmentType, OrderStatus } from "@/domain/order/Order";
 import type { OrderWithDetails, OrderFilters } from "@/domain/order/Order";
+import { computeOrderGrandTotal } from "@/domain/order/OrderItem";
 import type { OrderViewModel } from "./_components/types";
 import { FilterBar } from "./_components/FilterBar";
 import { DashboardMetrics } from "./_components/DashboardMetrics";
@@ -24,10 +25,7 @@ function formatDateLabel(isoDate: string): string {
 
 /** Maps a rich OrderWithDetails to display-safe OrderViewModel (no IDs). */
 function toViewModel(order: OrderWithDetails): OrderViewModel {
-  const totalAmount = order.items.reduce(
-    (sum, item) => sum + (item.unitPrice - item.discountAmount) * item.quantity,
-    0,
-  );
+  const totalAmount = computeOrderGrandTotal(order);
 
   const products = order.items.map(
     (item) =>
@@ -3,17 +3,25 @@
 import { useEffect, useRef } from "react";
 import Link from "next/link";
 import type { DailyProductionItem } from "@/domain/production/DailyProduction";
+import { formatItemOption } from "@/domain/product/ProductOption";
+import { formatWeight } from "@/shared/utils/formatWeight";
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
 interface OrdersDrawerProps {
   item: DailyProductionItem | null;
   onClose: () => void;
+  /** Links order numbers to the order page — false for kitchen users. */
+  canOpenOrders: boolean;
 }
 
 // ─── Component ────────────────────────────────────────────────────────────────
 
-export function OrdersDrawer({ item, onClose }: OrdersDrawerProps) {
+export function OrdersDrawer({
+  item,
+  onClose,
+  canOpenOrders,
+}: OrdersDrawerProps) {
   const overlayRef = useRef<HTMLDivElement>(null);
 
   // Close on Escape
@@ -97,7 +105,7 @@ export function OrdersDrawer({ item, onClose }: OrdersDrawerProps) {
 
         {/* Orders list */}
         <div className="flex-1 overflow-y-auto divide-y divide-line">
-          {item.orders.map((order) => {
+          {item.orders.map((order, index) => {
             const waDigits = order.customerWhatsapp.replace(/\D/g, "");
             const waMsg = `Olá, tudo bem? Referente à observação do pedido #${order.incrementId ?? "—"}, na qual diz: '${order.notes}', gostaria de confirmar algumas informações.`;
             const waUrl = order.notes
@@ -106,13 +114,13 @@ export function OrdersDrawer({ item, onClose }: OrdersDrawerProps) {
 
             return (
               <div
-                key={order.orderId}
+                key={`${order.orderId}-${index}`}
                 className="px-6 py-4 hover:bg-hover transition-colors"
               >
                 {/* Row 1: order id + qty + time */}
                 <div className="flex items-center justify-between gap-3">
                   <div className="flex items-center gap-2">
-                    {order.incrementId != null ? (
+                    {order.incrementId != null && canOpenOrders ? (
                       <Link
                         href={`/dashboard/orders/${order.orderId}`}
                         className="text-sm font-semibold text-accent hover:underline"
@@ -121,7 +129,9 @@ export function OrdersDrawer({ item, onClose }: OrdersDrawerProps) {
                       </Link>
                     ) : (
                       <span className="text-sm font-semibold text-foreground">
-                        —
+                        {order.incrementId != null
+                          ? `#${order.incrementId}`
+                          : "—"}
                       </span>
                     )}
                     <span className="text-sm text-foreground">
@@ -138,6 +148,28 @@ export function OrdersDrawer({ item, onClose }: OrdersDrawerProps) {
                   </div>
                 </div>
 
+                {order.weightKg !== null && (
+                  <p className="mt-2 text-xs font-medium text-foreground">
+                    Peso: {formatWeight(order.weightKg, "kg")} por unidade
+                  </p>
+                )}
+
+                {order.options.length > 0 && (
+                  <ul className="mt-2 space-y-0.5">
+                    {order.options.map((option, i) => (
+                      <li key={i} className="text-xs text-foreground">
+                        + {formatItemOption(option)}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+
+                {order.itemNotes && (
+                  <p className="mt-2 text-xs font-medium text-amber-800">
+                    Obs. do item: {order.itemNotes}
+                  </p>
+                )}
+
                 {/* Row 2: observation + WA button */}
                 <div className="mt-2">
                   {order.notes ? (
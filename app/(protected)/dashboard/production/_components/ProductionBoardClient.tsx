@@ -19,6 +19,8 @@ interface ProductionBoardClientProps {
   includesPending: boolean;
   totalItems: number;
   producedCountInit: number;
+  /** Whether the user may open the order page (not kitchen users). */
+  canOpenOrders: boolean;
 }
 
 // ─── Component ────────────────────────────────────────────────────────────────
@@ -30,6 +32,7 @@ export function ProductionBoardClient({
   includesPending,
   totalItems,
   producedCountInit,
+  canOpenOrders,
 }: ProductionBoardClientProps) {
   const router = useRouter();
   const pathname = usePathname();
@@ -332,7 +335,11 @@ export function ProductionBoardClient({
       )}
 
       {/* ── Orders drawer ─────────────────────────────────────────────────── */}
-      <OrdersDrawer item={drawerItem} onClose={() => setDrawerItem(null)} />
+      <OrdersDrawer
+        item={drawerItem}
+        onClose={() => setDrawerItem(null)}
+        canOpenOrders={canOpenOrders}
+      />
     </>
   );
 }
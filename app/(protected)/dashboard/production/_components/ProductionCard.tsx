@@ -77,7 +77,7 @@ export function ProductionCard({
           <p className="mt-0.5 text-xs text-muted">{item.variationLabel}</p>
         )}
         {/* Observation badge */}
-        {item.orders.some((o) => o.notes) ? (
+        {item.orders.some((o) => o.notes || o.itemNotes) ? (
           <span className="mt-1 inline-flex items-center gap-1 rounded-full bg-amber-100 px-2 py-0.5 text-xs font-medium text-amber-700">
             <svg
               xmlns="http://www.w3.org/2000/svg"
@@ -98,6 +98,11 @@ export function ProductionCard({
             Sem observação
           </span>
         )}
+        {item.orders.some((o) => o.options.length > 0) && (
+          <span className="ml-1 mt-1 inline-flex items-center rounded-full bg-accent/10 px-2 py-0.5 text-xs font-medium text-accent">
+            Com adicionais
+          </span>
+        )}
       </div>
 
       {/* ── Quantity badge ───────────────────────────────────────────────── */}
@@ -11,6 +11,7 @@
 
 import type { Metadata } from "next";
 import { getSession } from "@/infra/http/auth/getSession";
+import { Permission, hasPermission } from "@/domain/auth/StaffRole";
 import { getDailyProductionUseCase } from "@/infra/composition";
 import { PageHeader } from "../_components/PageHeader";
 import { ProductionBoardClient } from "./_components/ProductionBoardClient";
@@ -31,7 +32,7 @@ interface Props {
 }
 
 export default async function ProductionPage({ searchParams }: Props) {
-  const session = await getSession();
+  const session = await getSession(Permission.PRODUCTION);
   const sp = await searchParams;
 
   const date =
@@ -81,6 +82,7 @@ export default async function ProductionPage({ searchParams }: Props) {
           includesPending={includesPending}
           totalItems={totalItems}
           producedCountInit={producedCount}
+          canOpenOrders={hasPermission(session.role, Permission.MANAGE_STORE)}
         />
       </div>
     </div>
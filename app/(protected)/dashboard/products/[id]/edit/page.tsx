@@ -5,8 +5,11 @@ import {
   getProductByIdUseCase,
   getProductImagesUseCase,
   getProductCategoryIdsUseCase,
+  listStockMovementsUseCase,
 } from "@/infra/composition";
 import { ProductForm } from "../../_components/ProductForm";
+import { StockSection } from "../../_components/StockSection";
+import { PriceScheduleSection } from "../../_components/PriceScheduleSection";
 
 export const metadata = { title: "Editar Produto" };
 
@@ -25,10 +28,13 @@ export default async function EditProductPage({ params }: Props) {
     notFound();
   }
 
-  const [productImages, productCategoryIds] = await Promise.all([
-    getProductImagesUseCase.execute(product!.id, session.storeId),
-    getProductCategoryIdsUseCase.execute(product!.id, session.storeId),
-  ]);
+  const [productImages, productCategoryIds, stockMovements] = await Promise.all(
+    [
+      getProductImagesUseCase.execute(product!.id, session.storeId),
+      getProductCategoryIdsUseCase.execute(product!.id, session.storeId),
+      listStockMovementsUseCase.execute(product!.id, session.storeId),
+    ],
+  );
 
   return (
     <main className="p-6 max-w-2xl mx-auto">
@@ -54,20 +60,74 @@ export default async function EditProductPage({ params }: Props) {
         initialCategoryIds={productCategoryIds}
         initialValues={{
           name: product!.name,
+          sku: product!.sku ?? "",
           description: product!.description ?? "",
           price: product!.price != null ? product!.price.toFixed(2) : "",
           minQuantity: String(product!.minQuantity),
+          dailyCapacity:
+            product!.dailyCapacity != null
+              ? String(product!.dailyCapacity)
+              : "",
           isActive: product!.isActive,
+          availability: product!.availability,
           variants: product!.variants.map((v) => ({
             label: v.label,
             price: v.price.toFixed(2),
             pricingType: v.pricingType,
             weightValue: v.weightValue != null ? String(v.weightValue) : "",
+            weightStep: v.weightStep != null ? String(v.weightStep) : "",
             weightUnit: (v.weightUnit ?? "g") as "g" | "kg",
+            dailyCapacity:
+              v.dailyCapacity != null ? String(v.dailyCapacity) : "",
             isActive: v.isActive,
           })),
+          optionGroups: product!.optionGroups.map((g) => ({
+            name: g.name,
+            type: g.type,
+            required: g.minSelections > 0,
+            maxSelections: String(g.maxSelections),
+            options: g.options.map((o) => ({
+              label: o.label,
+              price: o.price > 0 ? o.price.toFixed(2) : "",
+              maxQuantity: String(o.maxQuantity),
+            })),
+          })),
         }}
       />
+
+      <StockSection
+        productId={product!.id}
+        counters={[
+          {
+            variantId: null,
+            label: "Produto",
+            stockOnHand: product!.stockOnHand,
+            stockReserved: product!.stockReserved,
+          },
+          ...product!.variants.map((v) => ({
+            variantId: v.id,
+            label: v.label,
+            stockOnHand: v.stockOnHand,
+            stockReserved: v.stockReserved,
+          })),
+        ]}
+        movements={stockMovements}
+      />
+
+      <PriceScheduleSection
+        productId={product!.id}
+        targets={[
+          ...(product!.price !== null
+            ? [{ variantId: null, label: "Produto", price: product!.price }]
+            : []),
+          ...product!.variants.map((v) => ({
+            variantId: v.id,
+            label: v.label,
+            price: v.price,
+          })),
+        ]}
+        schedules={product!.priceSchedules}
+      />
     </main>
   );
 }
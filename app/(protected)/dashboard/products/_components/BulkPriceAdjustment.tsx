@@ -0,0 +1,259 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import {
+  PriceAdjustmentMode,
+  PriceAdjustmentScope,
+  PriceRounding,
+  type PriceChange,
+} from "@/domain/product/PriceAdjustment";
+
+interface Props {
+  selectedIds: string[];
+  categories: { id: string; name: string }[];
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+const INPUT_CLASS =
+  "rounded-lg border border-line bg-surface px-3 py-2 text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-accent/30";
+
+function formatPrice(price: number): string {
+  return new Intl.NumberFormat("pt-BR", {
+    style: "currency",
+    currency: "BRL",
+  }).format(price);
+}
+
+// ─── Component ────────────────────────────────────────────────────────────────
+
+/**
+ * BulkPriceAdjustment — raises or lowers many prices at once.
+ *
+ * "Pré-visualizar" sends the change as a dry run and lists every price
+ * before and after; "Aplicar" then applies exactly that change.  Editing
+ * any field discards the preview.
+ */
+export function BulkPriceAdjustment({ selectedIds, categories }: Props) {
+  const router = useRouter();
+  const [scope, setScope] = useState<PriceAdjustmentScope>(
+    PriceAdjustmentScope.PRODUCTS,
+  );
+  const [categoryId, setCategoryId] = useState(categories[0]?.id ?? "");
+  const [mode, setMode] = useState<PriceAdjustmentMode>(
+    PriceAdjustmentMode.PERCENT,
+  );
+  const [value, setValue] = useState("");
+  const [rounding, setRounding] = useState<PriceRounding>(PriceRounding.NONE);
+  const [changes, setChanges] = useState<PriceChange[] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  function edit<T>(setter: (v: T) => void) {
+    return (v: T) => {
+      setter(v);
+      setChanges(null);
+      setSuccess(null);
+    };
+  }
+
+  async function send(dryRun: boolean) {
+    setError(null);
+    setSuccess(null);
+    setLoading(true);
+    try {
+      const res = await fetch("/api/products/prices", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          scope,
+          productIds: selectedIds,
+          categoryId,
+          mode,
+          value: Number(value.replace(",", ".")),
+          rounding,
+          dryRun,
+        }),
+      });
+      const json = await res.json().catch(() => null);
+      if (!res.ok) {
+        throw new Error(json?.error?.message ?? "Ocorreu um erro.");
+      }
+      if (dryRun) {
+        setChanges(json.data.changes as PriceChange[]);
+      } else {
+        setChanges(null);
+        setSuccess(`${json.data.changes.length} preço(s) atualizados.`);
+        router.refresh();
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Erro desconhecido.");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  const canPreview =
+    value.trim() !== "" &&
+    (scope !== PriceAdjustmentScope.PRODUCTS || selectedIds.length > 0) &&
+    (scope !== PriceAdjustmentScope.CATEGORY || categoryId !== "");
+
+  return (
+    <section className="rounded-xl border border-line bg-surface p-5">
+      <h2 className="mb-4 text-base font-semibold text-foreground">
+        Reajuste em massa
+      </h2>
+
+      <div className="flex flex-wrap items-end gap-3">
+        <label className="flex flex-col gap-1">
+          <span className="text-xs text-foreground-muted">Aplicar em</span>
+          <select
+            value={scope}
+            onChange={(e) =>
+              edit(setScope)(e.target.value as PriceAdjustmentScope)
+            }
+            className={INPUT_CLASS}
+          >
+            <option value={PriceAdjustmentScope.PRODUCTS}>
+              Selecionados ({selectedIds.length})
+            </option>
+            <option value={PriceAdjustmentScope.CATEGORY}>Categoria</option>
+            <option value={PriceAdjustmentScope.ALL}>Todos os produtos</option>
+          </select>
+        </label>
+
+        {scope === PriceAdjustmentScope.CATEGORY && (
+          <label className="flex flex-col gap-1">
+            <span className="text-xs text-foreground-muted">Categoria</span>
+            <select
+              value={categoryId}
+              onChange={(e) => edit(setCategoryId)(e.target.value)}
+              className={INPUT_CLASS}
+            >
+              {categories.map((c) => (
+                <option key={c.id} value={c.id}>
+                  {c.name}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+
+        <label className="flex flex-col gap-1">
+          <span className="text-xs text-foreground-muted">Tipo</span>
+          <select
+            value={mode}
+            onChange={(e) =>
+              edit(setMode)(e.target.value as PriceAdjustmentMode)
+            }
+            className={INPUT_CLASS}
+          >
+            <option value={PriceAdjustmentMode.PERCENT}>Percentual (%)</option>
+            <option value={PriceAdjustmentMode.FIXED}>Valor fixo (R$)</option>
+          </select>
+        </label>
+
+        <label className="flex flex-col gap-1">
+          <span className="text-xs text-foreground-muted">
+            Variação (negativo reduz)
+          </span>
+          <input
+            type="text"
+            inputMode="decimal"
+            value={value}
+            onChange={(e) => edit(setValue)(e.target.value)}
+            placeholder={mode === PriceAdjustmentMode.PERCENT ? "10" : "2,00"}
+            className={`${INPUT_CLASS} w-32`}
+          />
+        </label>
+
+        <label className="flex flex-col gap-1">
+          <span className="text-xs text-foreground-muted">Arredondamento</span>
+          <select
+            value={rounding}
+            onChange={(e) => edit(setRounding)(e.target.value as PriceRounding)}
+            className={INPUT_CLASS}
+          >
+            <option value={PriceRounding.NONE}>Nenhum</option>
+            <option value={PriceRounding.NINETY}>Para ,90</option>
+            <option value={PriceRounding.WHOLE}>Para reais inteiros</option>
+          </select>
+        </label>
+
+        <button
+          type="button"
+          onClick={() => send(true)}
+          disabled={loading || !canPreview}
+          className="rounded-lg border border-line bg-surface px-4 py-2 text-sm font-medium text-foreground transition-colors hover:bg-surface-hover disabled:opacity-50"
+        >
+          {loading && !changes ? "Calculando…" : "Pré-visualizar"}
+        </button>
+      </div>
+
+      {error && (
+        <div className="mt-4 rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+      {success && (
+        <div className="mt-4 rounded-lg border border-green-200 bg-green-50 px-3 py-2 text-sm text-green-700">
+          {success}
+        </div>
+      )}
+
+      {changes && (
+        <div className="mt-4 flex flex-col gap-3">
+          <div className="max-h-80 overflow-y-auto rounded-lg border border-line">
+            <table className="w-full text-left text-xs">
+              <thead className="bg-surface-subtle text-foreground-muted">
+                <tr>
+                  <th className="px-3 py-2 font-medium">Produto</th>
+                  <th className="px-3 py-2 text-right font-medium">Antes</th>
+                  <th className="px-3 py-2 text-right font-medium">Depois</th>
+                </tr>
+              </thead>
+              <tbody>
+                {changes.map((c) => (
+                  <tr
+                    key={`${c.productId}-${c.variantId ?? ""}`}
+                    className="border-t border-line"
+                  >
+                    <td className="px-3 py-2 text-foreground">
+                      {c.productName}
+                      {c.variantLabel && (
+                        <span className="text-foreground-muted">
+                          {" "}
+                          · {c.variantLabel}
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-3 py-2 text-right tabular-nums text-foreground-muted line-through">
+                      {formatPrice(c.oldPrice)}
+                    </td>
+                    <td className="px-3 py-2 text-right tabular-nums font-medium text-foreground">
+                      {formatPrice(c.newPrice)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <p className="text-xs text-foreground-muted">
+            Pedidos já feitos mantêm os preços originais. O reajuste pode ser
+            desfeito no histórico abaixo.
+          </p>
+          <button
+            type="button"
+            onClick={() => send(false)}
+            disabled={loading}
+            className="w-fit rounded-lg bg-foreground px-4 py-2 text-sm font-medium text-surface transition-colors hover:bg-foreground/90 disabled:opacity-50"
+          >
+            {loading ? "Aplicando…" : `Aplicar ${changes.length} preço(s)`}
+          </button>
+        </div>
+      )}
+    </section>
+  );
+}
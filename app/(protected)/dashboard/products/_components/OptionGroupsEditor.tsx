@@ -0,0 +1,382 @@
+"use client";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+type OptionGroupType = "CHOICE" | "TEXT";
+
+export interface OptionRow {
+  label: string;
+  /** Price as a string (empty = free) */
+  price: string;
+  /** Units a customer may pick, as a string (empty = 1) */
+  maxQuantity: string;
+}
+
+export interface OptionGroupRow {
+  name: string;
+  type: OptionGroupType;
+  /** Whether the customer must fill the group (minSelections >= 1) */
+  required: boolean;
+  /** Options that may be picked, as a string (CHOICE only) */
+  maxSelections: string;
+  options: OptionRow[];
+}
+
+interface Props {
+  groups: OptionGroupRow[];
+  onChange: (groups: OptionGroupRow[]) => void;
+  errors: Record<string, string>;
+}
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+const EMPTY_OPTION: OptionRow = { label: "", price: "", maxQuantity: "1" };
+
+const EMPTY_GROUP: OptionGroupRow = {
+  name: "",
+  type: "CHOICE",
+  required: false,
+  maxSelections: "1",
+  options: [{ ...EMPTY_OPTION }],
+};
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function parsePrice(value: string): number {
+  return value.trim() ? parseFloat(value.replace(",", ".")) : 0;
+}
+
+/**
+ * Validates the rows and returns field errors keyed like
+ * `optionGroup_${i}_name` and `optionGroup_${i}_option_${j}_price`.
+ */
+export function validateOptionGroupRows(
+  groups: OptionGroupRow[],
+): Record<string, string> {
+  const next: Record<string, string> = {};
+
+  groups.forEach((g, i) => {
+    if (!g.name.trim()) next[`optionGroup_${i}_name`] = "Nome obrigatório.";
+    if (g.type === "TEXT") return;
+
+    if (g.options.length === 0) {
+      next[`optionGroup_${i}_name`] = "Adicione pelo menos uma opção.";
+    }
+    const max = parseInt(g.maxSelections, 10);
+    if (isNaN(max) || max < 1 || max > g.options.length) {
+      next[`optionGroup_${i}_maxSelections`] =
+        "Use de 1 até o número de opções.";
+    }
+
+    g.options.forEach((o, j) => {
+      const key = `optionGroup_${i}_option_${j}`;
+      if (!o.label.trim()) next[`${key}_label`] = "Rótulo obrigatório.";
+      const price = parsePrice(o.price);
+      if (isNaN(price) || price < 0) {
+        next[`${key}_price`] = "Preço inválido.";
+      }
+      const qty = parseInt(o.maxQuantity || "1", 10);
+      if (isNaN(qty) || qty < 1 || qty > 99) {
+        next[`${key}_maxQuantity`] = "Use de 1 a 99.";
+      }
+    });
+  });
+
+  return next;
+}
+
+/** Rows as the `optionGroups` payload of the products API. */
+export function toOptionGroupsBody(groups: OptionGroupRow[]) {
+  return groups.map((g) =>
+    g.type === "TEXT"
+      ? {
+          name: g.name.trim(),
+          type: g.type,
+          minSelections: g.required ? 1 : 0,
+          maxSelections: 1,
+          options: [],
+        }
+      : {
+          name: g.name.trim(),
+          type: g.type,
+          minSelections: g.required ? 1 : 0,
+          maxSelections: parseInt(g.maxSelections, 10),
+          options: g.options.map((o) => ({
+            label: o.label.trim(),
+            price: parsePrice(o.price),
+            maxQuantity: parseInt(o.maxQuantity || "1", 10),
+          })),
+        },
+  );
+}
+
+// ─── Component ────────────────────────────────────────────────────────────────
+
+/**
+ * OptionGroupsEditor — edits a product's option groups (topper, filling,
+ * candles, message on the cake) inside ProductForm.
+ *
+ * Controlled — ProductForm owns the rows, validates them with
+ * validateOptionGroupRows and sends them with toOptionGroupsBody.
+ * A required group asks for one option (or the text); the "Máx." field
+ * lets the customer pick more than one option of the group.
+ */
+export function OptionGroupsEditor({ groups, onChange, errors }: Props) {
+  function updateGroup<K extends keyof OptionGroupRow>(
+    index: number,
+    field: K,
+    value: OptionGroupRow[K],
+  ) {
+    onChange(
+      groups.map((g, i) => (i === index ? { ...g, [field]: value } : g)),
+    );
+  }
+
+  function updateOption<K extends keyof OptionRow>(
+    groupIndex: number,
+    optionIndex: number,
+    field: K,
+    value: OptionRow[K],
+  ) {
+    const group = groups[groupIndex];
+    updateGroup(
+      groupIndex,
+      "options",
+      group.options.map((o, j) =>
+        j === optionIndex ? { ...o, [field]: value } : o,
+      ),
+    );
+  }
+
+  function addOption(groupIndex: number) {
+    const group = groups[groupIndex];
+    updateGroup(groupIndex, "options", [...group.options, { ...EMPTY_OPTION }]);
+  }
+
+  function removeOption(groupIndex: number, optionIndex: number) {
+    const group = groups[groupIndex];
+    updateGroup(
+      groupIndex,
+      "options",
+      group.options.filter((_, j) => j !== optionIndex),
+    );
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <div>
+          <span className="text-sm font-medium text-gray-700">Adicionais</span>
+          <span className="ml-1.5 text-xs text-gray-400">(opcional)</span>
+        </div>
+        <button
+          type="button"
+          onClick={() =>
+            onChange([
+              ...groups,
+              { ...EMPTY_GROUP, options: [{ ...EMPTY_OPTION }] },
+            ])
+          }
+          className="rounded-md border border-indigo-300 px-3 py-1 text-xs font-medium text-indigo-600 hover:bg-indigo-50 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        >
+          + Adicionar grupo
+        </button>
+      </div>
+
+      {groups.length === 0 && (
+        <p className="text-xs text-gray-400 italic">
+          Sem adicionais — ex.: topo de bolo, recheio, velas, mensagem.
+        </p>
+      )}
+
+      <div className="space-y-4">
+        {groups.map((group, i) => (
+          <div
+            key={i}
+            className="rounded-lg border border-gray-200 bg-gray-50 p-4 space-y-3"
+          >
+            <div className="flex items-center justify-between">
+              <span className="text-xs font-semibold text-gray-500 uppercase tracking-wide">
+                Grupo {i + 1}
+              </span>
+              <button
+                type="button"
+                onClick={() => onChange(groups.filter((_, j) => j !== i))}
+                className="text-xs text-red-500 hover:text-red-700 focus:outline-none"
+              >
+                Remover
+              </button>
+            </div>
+
+            <div className="flex gap-3">
+              <div className="flex-1">
+                <label className="block text-xs font-medium text-gray-600 mb-1">
+                  Nome <span className="text-red-500">*</span>
+                </label>
+                <input
+                  type="text"
+                  value={group.name}
+                  onChange={(e) => updateGroup(i, "name", e.target.value)}
+                  placeholder="Ex: Recheio, Topo, Mensagem no bolo…"
+                  className={`w-full rounded-md border px-3 py-1.5 text-sm shadow-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 ${
+                    errors[`optionGroup_${i}_name`]
+                      ? "border-red-400"
+                      : "border-gray-300"
+                  }`}
+                />
+                {errors[`optionGroup_${i}_name`] && (
+                  <p className="mt-1 text-xs text-red-600">
+                    {errors[`optionGroup_${i}_name`]}
+                  </p>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-xs font-medium text-gray-600 mb-1">
+                  Tipo
+                </label>
+                <select
+                  value={group.type}
+                  onChange={(e) =>
+                    updateGroup(i, "type", e.target.value as OptionGroupType)
+                  }
+                  className="rounded-md border border-gray-300 px-3 py-1.5 text-sm shadow-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 bg-white"
+                >
+                  <option value="CHOICE">Opções</option>
+                  <option value="TEXT">Texto livre</option>
+                </select>
+              </div>
+            </div>
+
+            <div className="flex items-center gap-4">
+              <div className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  id={`optionGroup_${i}_required`}
+                  checked={group.required}
+                  onChange={(e) => updateGroup(i, "required", e.target.checked)}
+                  className="h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                />
+                <label
+                  htmlFor={`optionGroup_${i}_required`}
+                  className="text-xs font-medium text-gray-600"
+                >
+                  Obrigatório
+                </label>
+              </div>
+
+              {group.type === "CHOICE" && (
+                <div className="flex items-center gap-2">
+                  <label className="text-xs font-medium text-gray-600">
+                    Máx. de opções
+                  </label>
+                  <input
+                    type="number"
+                    min={1}
+                    step={1}
+                    value={group.maxSelections}
+                    onChange={(e) =>
+                      updateGroup(i, "maxSelections", e.target.value)
+                    }
+                    className={`w-20 rounded-md border px-3 py-1.5 text-sm shadow-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 ${
+                      errors[`optionGroup_${i}_maxSelections`]
+                        ? "border-red-400"
+                        : "border-gray-300"
+                    }`}
+                  />
+                </div>
+              )}
+            </div>
+            {errors[`optionGroup_${i}_maxSelections`] && (
+              <p className="text-xs text-red-600">
+                {errors[`optionGroup_${i}_maxSelections`]}
+              </p>
+            )}
+
+            {group.type === "CHOICE" && (
+              <div className="space-y-2">
+                {group.options.map((option, j) => {
+                  const key = `optionGroup_${i}_option_${j}`;
+                  const error =
+                    errors[`${key}_label`] ??
+                    errors[`${key}_price`] ??
+                    errors[`${key}_maxQuantity`];
+                  return (
+                    <div key={j}>
+                      <div className="flex items-center gap-2">
+                        <input
+                          type="text"
+                          value={option.label}
+                          onChange={(e) =>
+                            updateOption(i, j, "label", e.target.value)
+                          }
+                          placeholder="Opção"
+                          aria-label={`Opção ${j + 1}`}
+                          className={`flex-1 rounded-md border px-3 py-1.5 text-sm shadow-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 ${
+                            errors[`${key}_label`]
+                              ? "border-red-400"
+                              : "border-gray-300"
+                          }`}
+                        />
+                        <input
+                          type="text"
+                          inputMode="decimal"
+                          value={option.price}
+                          onChange={(e) =>
+                            updateOption(i, j, "price", e.target.value)
+                          }
+                          placeholder="Grátis"
+                          aria-label={`Preço da opção ${j + 1} (R$)`}
+                          className={`w-24 rounded-md border px-3 py-1.5 text-sm shadow-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 ${
+                            errors[`${key}_price`]
+                              ? "border-red-400"
+                              : "border-gray-300"
+                          }`}
+                        />
+                        <input
+                          type="number"
+                          min={1}
+                          max={99}
+                          step={1}
+                          value={option.maxQuantity}
+                          onChange={(e) =>
+                            updateOption(i, j, "maxQuantity", e.target.value)
+                          }
+                          title="Quantidade máxima"
+                          aria-label={`Quantidade máxima da opção ${j + 1}`}
+                          className={`w-16 rounded-md border px-3 py-1.5 text-sm shadow-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 ${
+                            errors[`${key}_maxQuantity`]
+                              ? "border-red-400"
+                              : "border-gray-300"
+                          }`}
+                        />
+                        <button
+                          type="button"
+                          onClick={() => removeOption(i, j)}
+                          aria-label={`Remover opção ${j + 1}`}
+                          className="text-xs text-red-500 hover:text-red-700 focus:outline-none"
+                        >
+                          ✕
+                        </button>
+                      </div>
+                      {error && (
+                        <p className="mt-1 text-xs text-red-600">{error}</p>
+                      )}
+                    </div>
+                  );
+                })}
+                <button
+                  type="button"
+                  onClick={() => addOption(i)}
+                  className="text-xs font-medium text-indigo-600 hover:text-indigo-800 focus:outline-none"
+                >
+                  + Adicionar opção
+                </button>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
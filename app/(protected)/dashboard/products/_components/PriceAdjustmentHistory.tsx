@@ -0,0 +1,186 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import {
+  PriceAdjustmentMode,
+  PriceAdjustmentScope,
+  PriceRounding,
+  type PriceAdjustment,
+} from "@/domain/product/PriceAdjustment";
+
+interface Props {
+  adjustments: PriceAdjustment[];
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+const SCOPE_LABELS: Record<PriceAdjustmentScope, string> = {
+  [PriceAdjustmentScope.PRODUCTS]: "produtos selecionados",
+  [PriceAdjustmentScope.CATEGORY]: "uma categoria",
+  [PriceAdjustmentScope.ALL]: "todo o catálogo",
+};
+
+const ROUNDING_LABELS: Record<PriceRounding, string> = {
+  [PriceRounding.NONE]: "",
+  [PriceRounding.NINETY]: ", arredondado para ,90",
+  [PriceRounding.WHOLE]: ", arredondado para reais inteiros",
+};
+
+function formatPrice(price: number): string {
+  return new Intl.NumberFormat("pt-BR", {
+    style: "currency",
+    currency: "BRL",
+  }).format(price);
+}
+
+function formatDate(date: Date): string {
+  return new Intl.DateTimeFormat("pt-BR", {
+    dateStyle: "short",
+    timeStyle: "short",
+  }).format(new Date(date));
+}
+
+/** "+10 %" or "−R$ 2,00", followed by the rounding. */
+function describeRule(a: PriceAdjustment): string {
+  const sign = a.value < 0 ? "−" : "+";
+  const amount =
+    a.mode === PriceAdjustmentMode.PERCENT
+      ? `${Math.abs(a.value).toLocaleString("pt-BR")} %`
+      : formatPrice(Math.abs(a.value));
+  return `${sign}${amount}${ROUNDING_LABELS[a.rounding]}`;
+}
+
+// ─── Component ────────────────────────────────────────────────────────────────
+
+/**
+ * PriceAdjustmentHistory — the latest bulk price changes, each expandable to
+ * the prices it changed and with a button to undo it.
+ */
+export function PriceAdjustmentHistory({ adjustments }: Props) {
+  const router = useRouter();
+  const [openId, setOpenId] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  async function rollback(id: string) {
+    if (
+      !confirm(
+        "Desfazer este reajuste? Preços alterados depois dele serão mantidos.",
+      )
+    )
+      return;
+    setError(null);
+    setNotice(null);
+    setBusyId(id);
+    try {
+      const res = await fetch(`/api/products/prices/${id}/rollback`, {
+        method: "POST",
+      });
+      const json = await res.json().catch(() => null);
+      if (!res.ok) {
+        throw new Error(json?.error?.message ?? "Ocorreu um erro.");
+      }
+      const { restored, skipped } = json.data as {
+        restored: number;
+        skipped: number;
+      };
+      setNotice(
+        skipped > 0
+          ? `${restored} preço(s) restaurados, ${skipped} mantidos por terem sido alterados depois.`
+          : `${restored} preço(s) restaurados.`,
+      );
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Erro desconhecido.");
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  return (
+    <section className="rounded-xl border border-line bg-surface p-5">
+      <h2 className="mb-4 text-base font-semibold text-foreground">
+        Histórico de reajustes
+      </h2>
+
+      {error && (
+        <div className="mb-4 rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+      {notice && (
+        <div className="mb-4 rounded-lg border border-green-200 bg-green-50 px-3 py-2 text-sm text-green-700">
+          {notice}
+        </div>
+      )}
+
+      {adjustments.length === 0 ? (
+        <p className="text-sm text-foreground-muted">
+          Nenhum reajuste feito ainda.
+        </p>
+      ) : (
+        <ul className="flex flex-col divide-y divide-line">
+          {adjustments.map((a) => (
+            <li key={a.id} className="py-3">
+              <div className="flex flex-wrap items-center gap-3">
+                <div className="min-w-0 flex-1">
+                  <p className="text-sm font-medium text-foreground">
+                    {describeRule(a)} em {SCOPE_LABELS[a.scope]}
+                  </p>
+                  <p className="text-xs text-foreground-muted">
+                    {formatDate(a.createdAt)} · {a.changes.length} preço(s)
+                    {a.rolledBackAt &&
+                      ` · desfeito em ${formatDate(a.rolledBackAt)}`}
+                  </p>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => setOpenId(openId === a.id ? null : a.id)}
+                  className="text-xs text-accent hover:underline"
+                >
+                  {openId === a.id ? "Ocultar" : "Ver preços"}
+                </button>
+                {!a.rolledBackAt && (
+                  <button
+                    type="button"
+                    onClick={() => rollback(a.id)}
+                    disabled={busyId !== null}
+                    className="rounded-lg border border-line px-3 py-1.5 text-xs font-medium text-foreground transition-colors hover:bg-surface-hover disabled:opacity-50"
+                  >
+                    {busyId === a.id ? "Desfazendo…" : "Desfazer"}
+                  </button>
+                )}
+              </div>
+
+              {openId === a.id && (
+                <ul className="mt-2 flex flex-col gap-1 text-xs">
+                  {a.changes.map((c) => (
+                    <li
+                      key={`${c.productId}-${c.variantId ?? ""}`}
+                      className="flex justify-between gap-3"
+                    >
+                      <span className="text-foreground">
+                        {c.productName}
+                        {c.variantLabel && (
+                          <span className="text-foreground-muted">
+                            {" "}
+                            · {c.variantLabel}
+                          </span>
+                        )}
+                      </span>
+                      <span className="tabular-nums text-foreground-muted">
+                        {formatPrice(c.oldPrice)} → {formatPrice(c.newPrice)}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
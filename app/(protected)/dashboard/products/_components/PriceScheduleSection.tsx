@@ -0,0 +1,296 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import {
+  PriceScheduleKind,
+  type PriceSchedule,
+} from "@/domain/product/PriceSchedule";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+interface Target {
+  /** Variant id; null for the product's base price. */
+  variantId: string | null;
+  label: string;
+  /** Current regular price. */
+  price: number;
+}
+
+interface Props {
+  productId: string;
+  /** Prices that can be scheduled — the base price only without variants. */
+  targets: Target[];
+  /** Pending entries, ordered by startsAt. */
+  schedules: PriceSchedule[];
+}
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+const KIND_LABELS: Record<PriceScheduleKind, string> = {
+  PROMO: "Promoção",
+  CHANGE: "Novo preço",
+};
+
+const INPUT_CLASS =
+  "rounded-md border border-gray-300 px-3 py-1.5 text-sm shadow-sm focus:outline-none focus:ring-2 focus:ring-indigo-500";
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function formatPrice(price: number): string {
+  return new Intl.NumberFormat("pt-BR", {
+    style: "currency",
+    currency: "BRL",
+  }).format(price);
+}
+
+function formatDateTime(date: Date): string {
+  return new Date(date).toLocaleString("pt-BR", {
+    day: "2-digit",
+    month: "2-digit",
+    year: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+/** A datetime-local value (browser time zone) as an ISO string. */
+function toIso(local: string): string | null {
+  return local ? new Date(local).toISOString() : null;
+}
+
+// ─── Component ────────────────────────────────────────────────────────────────
+
+/**
+ * PriceScheduleSection — promos ("de/por") and future prices of a product,
+ * on the product edit page.
+ *
+ * A promo runs between two moments and shows the regular price struck
+ * through in the catalog; a new price takes over from its start.  Orders
+ * are priced for their delivery date.  Removing a running promo ends it at
+ * once.  Refreshes via router.refresh() after a change.
+ */
+export function PriceScheduleSection({ productId, targets, schedules }: Props) {
+  const router = useRouter();
+  const [target, setTarget] = useState(targets[0]?.variantId ?? "");
+  const [kind, setKind] = useState<PriceScheduleKind>(PriceScheduleKind.PROMO);
+  const [price, setPrice] = useState("");
+  const [startsAt, setStartsAt] = useState("");
+  const [endsAt, setEndsAt] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  if (targets.length === 0) return null;
+
+  const labelOf = (variantId: string | null) =>
+    targets.find((t) => t.variantId === variantId)?.label ?? "—";
+  const now = new Date();
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setError(null);
+
+    const parsed = Number(price.replace(",", "."));
+    if (!price.trim() || !Number.isFinite(parsed) || parsed <= 0) {
+      setError("Informe um preço maior que zero.");
+      return;
+    }
+    if (!startsAt && kind === PriceScheduleKind.CHANGE) {
+      setError("Informe quando o novo preço começa a valer.");
+      return;
+    }
+    if (!endsAt && kind === PriceScheduleKind.PROMO) {
+      setError("Informe quando a promoção termina.");
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/products/${productId}/price-schedules`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          kind,
+          variantId: target || null,
+          price: parsed,
+          // A promo without a start begins now
+          startsAt: toIso(startsAt) ?? new Date().toISOString(),
+          endsAt: kind === PriceScheduleKind.PROMO ? toIso(endsAt) : null,
+        }),
+      });
+      if (!res.ok) {
+        const json = await res.json().catch(() => ({}));
+        setError(json?.error?.message ?? "Ocorreu um erro. Tente novamente.");
+        return;
+      }
+      setPrice("");
+      setStartsAt("");
+      setEndsAt("");
+      router.refresh();
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function handleRemove(schedule: PriceSchedule) {
+    const running = schedule.startsAt <= now;
+    if (
+      !confirm(
+        running
+          ? "Encerrar esta promoção agora?"
+          : "Cancelar este preço programado?",
+      )
+    )
+      return;
+    setError(null);
+    const res = await fetch(
+      `/api/products/${productId}/price-schedules/${schedule.id}`,
+      { method: "DELETE" },
+    );
+    if (!res.ok) {
+      const json = await res.json().catch(() => ({}));
+      setError(json?.error?.message ?? "Ocorreu um erro. Tente novamente.");
+      return;
+    }
+    router.refresh();
+  }
+
+  return (
+    <section className="mt-10 space-y-4">
+      <div>
+        <h2 className="text-lg font-semibold text-gray-900">
+          Promoções e preços programados
+        </h2>
+        <p className="text-sm text-gray-500">
+          Uma promoção mostra o preço normal riscado no catálogo até a data de
+          término. Um novo preço passa a valer na data escolhida. Os pedidos
+          usam o preço da data de entrega.
+        </p>
+      </div>
+
+      {/* ── Pending entries ──────────────────────────────────────────────── */}
+      {schedules.length === 0 ? (
+        <p className="text-xs text-gray-400 italic">
+          Nenhuma promoção ou preço programado.
+        </p>
+      ) : (
+        <ul className="divide-y divide-gray-100 text-sm">
+          {schedules.map((s) => {
+            const running = new Date(s.startsAt) <= now;
+            return (
+              <li
+                key={s.id}
+                className="flex flex-wrap items-center gap-x-3 gap-y-0.5 py-2"
+              >
+                <span className="font-medium text-gray-900">
+                  {KIND_LABELS[s.kind]} {formatPrice(s.price)}
+                </span>
+                {targets.length > 1 && (
+                  <span className="text-gray-600">{labelOf(s.variantId)}</span>
+                )}
+                <span className="text-gray-500">
+                  {s.endsAt
+                    ? `${formatDateTime(s.startsAt)} até ${formatDateTime(s.endsAt)}`
+                    : `a partir de ${formatDateTime(s.startsAt)}`}
+                </span>
+                {running && (
+                  <span className="rounded-full bg-green-100 px-2 py-0.5 text-xs font-medium text-green-700">
+                    Em vigor
+                  </span>
+                )}
+                <button
+                  type="button"
+                  onClick={() => handleRemove(s)}
+                  className="ml-auto text-xs text-red-600 hover:underline"
+                >
+                  {running ? "Encerrar" : "Cancelar"}
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {/* ── New entry ─────────────────────────────────────────────────────── */}
+      <form
+        onSubmit={handleSubmit}
+        className="rounded-lg border border-gray-200 bg-gray-50 p-4 space-y-3"
+      >
+        <div className="flex flex-wrap items-end gap-3">
+          {targets.length > 1 && (
+            <label className="flex flex-col gap-1">
+              <span className="text-xs font-medium text-gray-600">Item</span>
+              <select
+                value={target}
+                onChange={(e) => setTarget(e.target.value)}
+                className={`${INPUT_CLASS} bg-white`}
+              >
+                {targets.map((t) => (
+                  <option key={t.variantId ?? ""} value={t.variantId ?? ""}>
+                    {t.label} ({formatPrice(t.price)})
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+          <label className="flex flex-col gap-1">
+            <span className="text-xs font-medium text-gray-600">Tipo</span>
+            <select
+              value={kind}
+              onChange={(e) => setKind(e.target.value as PriceScheduleKind)}
+              className={`${INPUT_CLASS} bg-white`}
+            >
+              <option value={PriceScheduleKind.PROMO}>Promoção</option>
+              <option value={PriceScheduleKind.CHANGE}>Novo preço</option>
+            </select>
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className="text-xs font-medium text-gray-600">
+              {kind === PriceScheduleKind.PROMO ? "Preço promocional" : "Preço"}
+            </span>
+            <input
+              type="text"
+              inputMode="decimal"
+              value={price}
+              onChange={(e) => setPrice(e.target.value)}
+              placeholder="0,00"
+              className={`${INPUT_CLASS} w-28`}
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className="text-xs font-medium text-gray-600">
+              {kind === PriceScheduleKind.PROMO
+                ? "Início (vazio = agora)"
+                : "Vale a partir de"}
+            </span>
+            <input
+              type="datetime-local"
+              value={startsAt}
+              onChange={(e) => setStartsAt(e.target.value)}
+              className={INPUT_CLASS}
+            />
+          </label>
+          {kind === PriceScheduleKind.PROMO && (
+            <label className="flex flex-col gap-1">
+              <span className="text-xs font-medium text-gray-600">Término</span>
+              <input
+                type="datetime-local"
+                value={endsAt}
+                onChange={(e) => setEndsAt(e.target.value)}
+                className={INPUT_CLASS}
+              />
+            </label>
+          )}
+          <button
+            type="submit"
+            disabled={loading}
+            className="rounded-md bg-indigo-600 px-4 py-1.5 text-sm font-medium text-white hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-50"
+          >
+            {loading ? "Salvando…" : "Programar"}
+          </button>
+        </div>
+        {error && <p className="text-xs text-red-600">{error}</p>}
+      </form>
+    </section>
+  );
+}
@@ -24,6 +24,8 @@ export interface ProductCardProps {
   /** Number of variants; shown only when price is null */
   variantCount?: number;
   isActive: boolean;
+  /** Units left for sale (product and variants); null / absent = not tracked */
+  stockAvailable?: number | null;
   /** Optional; placeholder shown when absent */
   imageUrl?: string | null;
 }
@@ -71,6 +73,7 @@ export function ProductCard({
   price,
   variantCount,
   isActive,
+  stockAvailable,
   imageUrl,
 }: ProductCardProps) {
   return (
@@ -119,6 +122,20 @@ export function ProductCard({
               ? formatPrice(price)
               : `${variantCount ?? 0} varia${(variantCount ?? 0) !== 1 ? "ções" : "ção"}`}
           </p>
+          {stockAvailable != null && (
+            <p
+              className={[
+                "mt-0.5 text-xs",
+                stockAvailable === 0
+                  ? "font-medium text-[rgb(185_28_28)]"
+                  : "text-[rgb(var(--color-text-muted))]",
+              ].join(" ")}
+            >
+              {stockAvailable === 0
+                ? "Esgotado"
+                : `${stockAvailable} em estoque`}
+            </p>
+          )}
         </div>
 
         {/* ── Actions row ─────────────────────────────────────────────── */}
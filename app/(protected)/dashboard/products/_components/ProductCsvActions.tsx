@@ -0,0 +1,227 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import type { ProductImportReport } from "@/application/product/ImportProductsCsvUseCase";
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+const BUTTON_CLASS =
+  "inline-flex items-center gap-2 rounded-lg border border-line bg-surface px-4 py-2 text-sm font-medium text-foreground transition-colors hover:bg-surface-hover ring-focus";
+
+async function postCsv(
+  csv: string,
+  dryRun: boolean,
+): Promise<ProductImportReport> {
+  const res = await fetch("/api/products/csv", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ csv, dryRun }),
+  });
+  const json = await res.json().catch(() => null);
+  if (!res.ok) {
+    throw new Error(json?.error?.message ?? "Não foi possível ler o arquivo.");
+  }
+  return json.data as ProductImportReport;
+}
+
+// ─── Component ────────────────────────────────────────────────────────────────
+
+/**
+ * ProductCsvActions — export and import of the product spreadsheet.
+ *
+ * Import is two steps: the file is sent as a dry run first and the preview
+ * lists what each SKU would do, with the errors by CSV line; "Importar"
+ * then sends it again for real.  Products with errors are skipped.
+ */
+export function ProductCsvActions() {
+  const router = useRouter();
+  const [open, setOpen] = useState(false);
+  const [csv, setCsv] = useState<string | null>(null);
+  const [report, setReport] = useState<ProductImportReport | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const valid = report?.items.filter((i) => i.errors.length === 0) ?? [];
+  const invalid = report?.items.filter((i) => i.errors.length > 0) ?? [];
+
+  function close() {
+    setOpen(false);
+    setCsv(null);
+    setReport(null);
+    setError(null);
+  }
+
+  async function handleFile(file: File | undefined) {
+    if (!file) return;
+    setError(null);
+    setReport(null);
+    setLoading(true);
+    try {
+      const text = await file.text();
+      setCsv(text);
+      setReport(await postCsv(text, true));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Erro desconhecido.");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function handleImport() {
+    if (!csv) return;
+    setError(null);
+    setLoading(true);
+    try {
+      setReport(await postCsv(csv, false));
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Erro desconhecido.");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  return (
+    <>
+      <a href="/api/products/csv" download className={BUTTON_CLASS}>
+        Exportar CSV
+      </a>
+      <button
+        type="button"
+        onClick={() => setOpen(true)}
+        className={BUTTON_CLASS}
+      >
+        Importar CSV
+      </button>
+
+      {open && (
+        <div
+          className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4"
+          onClick={(e) => e.target === e.currentTarget && close()}
+        >
+          <div className="flex max-h-[90vh] w-full max-w-2xl flex-col rounded-xl border border-line bg-surface p-6 shadow-lg">
+            <div className="mb-4 flex items-center justify-between">
+              <h3 className="text-base font-semibold text-foreground">
+                Importar produtos
+              </h3>
+              <button
+                onClick={close}
+                className="text-foreground-muted hover:text-foreground"
+                aria-label="Fechar"
+              >
+                ✕
+              </button>
+            </div>
+
+            <p className="mb-3 text-xs text-foreground-muted">
+              Use o arquivo de &quot;Exportar CSV&quot; como modelo: uma linha
+              por variação, produtos identificados pela coluna sku e categorias
+              separadas por &quot;|&quot;. SKUs existentes são atualizados;
+              variações e categorias fora da planilha são mantidas.
+            </p>
+
+            <input
+              type="file"
+              accept=".csv,text/csv"
+              disabled={loading}
+              onChange={(e) => handleFile(e.target.files?.[0])}
+              className="mb-3 text-sm text-foreground file:mr-3 file:rounded-lg file:border file:border-line file:bg-surface file:px-3 file:py-1.5 file:text-sm"
+            />
+
+            {error && (
+              <div className="mb-3 rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">
+                {error}
+              </div>
+            )}
+            {loading && (
+              <p className="mb-3 text-sm text-foreground-muted">Lendo…</p>
+            )}
+
+            {report && (
+              <>
+                {report.dryRun ? (
+                  <p className="mb-2 text-sm text-foreground">
+                    {valid.length} produto(s) prontos para importar
+                    {invalid.length > 0 && `, ${invalid.length} com erro`}.
+                  </p>
+                ) : (
+                  <div className="mb-2 rounded-lg border border-green-200 bg-green-50 px-3 py-2 text-sm text-green-700">
+                    {report.imported} produto(s) importados.
+                  </div>
+                )}
+                {report.dryRun && report.newCategories.length > 0 && (
+                  <p className="mb-2 text-xs text-foreground-muted">
+                    Categorias novas: {report.newCategories.join(", ")}
+                  </p>
+                )}
+
+                <div className="mb-4 flex-1 overflow-y-auto rounded-lg border border-line">
+                  <table className="w-full text-left text-xs">
+                    <thead className="bg-surface-subtle text-foreground-muted">
+                      <tr>
+                        <th className="px-3 py-2 font-medium">SKU</th>
+                        <th className="px-3 py-2 font-medium">Produto</th>
+                        <th className="px-3 py-2 font-medium">Ação</th>
+                        <th className="px-3 py-2 font-medium">Variações</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {report.items.map((item, i) => (
+                        <tr
+                          key={`${item.sku}-${i}`}
+                          className="border-t border-line align-top"
+                        >
+                          <td className="px-3 py-2 font-mono">
+                            {item.sku || "—"}
+                          </td>
+                          <td className="px-3 py-2 text-foreground">
+                            {item.name || "—"}
+                            {item.errors.map((e) => (
+                              <p
+                                key={`${e.line}-${e.message}`}
+                                className="mt-1 text-danger"
+                              >
+                                Linha {e.line}: {e.message}
+                              </p>
+                            ))}
+                          </td>
+                          <td className="px-3 py-2">
+                            {item.errors.length > 0
+                              ? "Ignorado"
+                              : item.action === "CREATE"
+                                ? "Novo"
+                                : "Atualizar"}
+                          </td>
+                          <td className="px-3 py-2">{item.variantCount}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </>
+            )}
+
+            <div className="flex justify-end gap-2">
+              <button type="button" onClick={close} className={BUTTON_CLASS}>
+                {report && !report.dryRun ? "Fechar" : "Cancelar"}
+              </button>
+              {report?.dryRun && (
+                <button
+                  type="button"
+                  onClick={handleImport}
+                  disabled={loading || valid.length === 0}
+                  className="rounded-lg bg-foreground px-4 py-2 text-sm font-medium text-surface transition-colors hover:bg-foreground/90 disabled:opacity-50"
+                >
+                  {loading
+                    ? "Importando…"
+                    : `Importar ${valid.length} produto(s)`}
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
@@ -9,6 +9,23 @@ import {
   buildInitialSlots,
   type LocalSlot,
 } from "./EditProductImagePicker";
+import {
+  OptionGroupsEditor,
+  toOptionGroupsBody,
+  validateOptionGroupRows,
+  type OptionGroupRow,
+} from "./OptionGroupsEditor";
+import {
+  AvailabilityFields,
+  availabilityFormError,
+  toAvailabilityForm,
+  toAvailabilityPayload,
+  type AvailabilityFormValues,
+} from "../../_components/AvailabilityFields";
+import {
+  NO_AVAILABILITY_RULE,
+  type AvailabilityRule,
+} from "@/domain/product/ProductAvailability";
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
@@ -18,25 +35,39 @@ interface VariantRow {
   label: string;
   price: string;
   pricingType: PricingType;
-  /** Numeric weight as a string (empty when not applicable) */
+  /** Minimum weight as a string (empty when not applicable) */
   weightValue: string;
+  /** Increment above the minimum, as a string (empty when not applicable) */
+  weightStep: string;
   /** Unit of weight — defaults to "g" */
   weightUnit: "g" | "kg";
+  /** Units per delivery date as a string (empty = unlimited) */
+  dailyCapacity: string;
   isActive: boolean;
 }
 
 interface ProductFormValues {
   name: string;
   description: string;
+  /** Store's own product code (empty = none) */
+  sku: string;
   price: string;
   minQuantity: string;
+  /** Units per delivery date as a string (empty = unlimited) */
+  dailyCapacity: string;
   isActive: boolean;
 }
 
 interface Props {
   /** Defined → edit mode (PUT /api/products/:productId). Undefined → create mode (POST /api/products). */
   productId?: string;
-  initialValues?: Partial<ProductFormValues & { variants?: VariantRow[] }>;
+  initialValues?: Partial<
+    ProductFormValues & {
+      variants?: VariantRow[];
+      optionGroups?: OptionGroupRow[];
+      availability?: AvailabilityRule;
+    }
+  >;
   /** Pre-selected category IDs (edit mode). */
   initialCategoryIds?: string[];
   /** Pre-loaded images (edit mode). When provided, edit-mode image picker is shown. */
@@ -48,8 +79,10 @@ interface Props {
 const DEFAULT_VALUES: ProductFormValues = {
   name: "",
   description: "",
+  sku: "",
   price: "",
   minQuantity: "1",
+  dailyCapacity: "",
   isActive: true,
 };
 
@@ -58,10 +91,26 @@ const EMPTY_VARIANT: VariantRow = {
   price: "",
   pricingType: "UNIT",
   weightValue: "",
+  weightStep: "",
   weightUnit: "g",
+  dailyCapacity: "",
   isActive: true,
 };
 
+// ─── Daily capacity helpers ───────────────────────────────────────────────────
+
+/** Empty → valid (unlimited); otherwise must be a positive integer. */
+function isValidCapacityInput(value: string): boolean {
+  if (!value.trim()) return true;
+  const n = Number(value);
+  return Number.isInteger(n) && n > 0;
+}
+
+/** Form string → API value: null when empty (unlimited). */
+function toCapacityValue(value: string): number | null {
+  return value.trim() ? Number(value) : null;
+}
+
 // ─── Image sync helpers (edit mode) ──────────────────────────────────────────
 
 /**
@@ -180,6 +229,14 @@ export function ProductForm({
 
   const hasVariants = variants.length > 0;
 
+  const [optionGroups, setOptionGroups] = useState<OptionGroupRow[]>(
+    initialValues?.optionGroups ?? [],
+  );
+
+  const [availability, setAvailability] = useState<AvailabilityFormValues>(() =>
+    toAvailabilityForm(initialValues?.availability ?? NO_AVAILABILITY_RULE),
+  );
+
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [serverError, setServerError] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
@@ -241,6 +298,11 @@ export function ProductForm({
       next.minQuantity = "Quantidade mínima deve ser pelo menos 1.";
     }
 
+    if (!isValidCapacityInput(values.dailyCapacity)) {
+      next.dailyCapacity =
+        "Informe um número inteiro maior que zero ou deixe vazio.";
+    }
+
     variants.forEach((v, i) => {
       if (!v.label.trim()) next[`variant_${i}_label`] = "Rótulo obrigatório.";
       const vPrice = parseFloat(v.price.replace(",", "."));
@@ -252,9 +314,22 @@ export function ProductForm({
         if (!v.weightValue.trim() || isNaN(wVal) || wVal <= 0) {
           next[`variant_${i}_weightValue`] = "Peso deve ser maior que zero.";
         }
+        const wStep = parseFloat(v.weightStep.replace(",", "."));
+        if (!v.weightStep.trim() || isNaN(wStep) || wStep <= 0) {
+          next[`variant_${i}_weightStep`] =
+            "Incremento deve ser maior que zero.";
+        }
       }
+
+      if (!isValidCapacityInput(v.dailyCapacity))
+        next[`variant_${i}_dailyCapacity`] = "Use um inteiro maior que zero.";
     });
 
+    Object.assign(next, validateOptionGroupRows(optionGroups));
+
+    const availabilityError = availabilityFormError(availability);
+    if (availabilityError) next.availability = availabilityError;
+
     if (selectedCategoryIds.length === 0) {
       next.categoryIds = "Selecione pelo menos uma categoria.";
     }
@@ -304,9 +379,13 @@ export function ProductForm({
     const body: Record<string, unknown> = {
       name: values.name.trim(),
       description: values.description.trim() || undefined,
+      sku: values.sku.trim() || null,
       isActive: values.isActive,
       minQuantity: parseInt(values.minQuantity, 10),
+      dailyCapacity: toCapacityValue(values.dailyCapacity),
+      availability: toAvailabilityPayload(availability),
       categoryIds: selectedCategoryIds,
+      optionGroups: toOptionGroupsBody(optionGroups),
     };
 
     if (hasVariants) {
@@ -318,7 +397,12 @@ export function ProductForm({
           v.pricingType === "WEIGHT" && v.weightValue.trim()
             ? parseFloat(v.weightValue.replace(",", "."))
             : null,
+        weightStep:
+          v.pricingType === "WEIGHT" && v.weightStep.trim()
+            ? parseFloat(v.weightStep.replace(",", "."))
+            : null,
         weightUnit: v.pricingType === "WEIGHT" ? v.weightUnit : null,
+        dailyCapacity: toCapacityValue(v.dailyCapacity),
         isActive: v.isActive,
         sortOrder: i,
       }));
@@ -474,6 +558,30 @@ export function ProductForm({
         />
       </div>
 
+      {/* SKU */}
+      <div>
+        <label
+          htmlFor="sku"
+          className="block text-sm font-medium text-gray-700 mb-1"
+        >
+          Código (SKU) <span className="text-gray-400 text-xs">(opcional)</span>
+        </label>
+        <input
+          id="sku"
+          name="sku"
+          type="text"
+          autoComplete="off"
+          maxLength={64}
+          value={values.sku}
+          onChange={handleChange}
+          placeholder="Ex: BOLO-CHOC"
+          className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm shadow-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        />
+        <p className="mt-1 text-xs text-gray-400">
+          Identifica o produto na importação por planilha (CSV).
+        </p>
+      </div>
+
       {/* Categories */}
       <div>
         <span className="block text-sm font-medium text-gray-700 mb-2">
@@ -579,6 +687,57 @@ export function ProductForm({
         )}
       </div>
 
+      {/* Daily capacity */}
+      <div>
+        <label
+          htmlFor="dailyCapacity"
+          className="block text-sm font-medium text-gray-700 mb-1"
+        >
+          Limite de produção por dia{" "}
+          <span className="text-xs font-normal text-gray-400">(opcional)</span>
+        </label>
+        <input
+          id="dailyCapacity"
+          name="dailyCapacity"
+          type="number"
+          min={1}
+          step={1}
+          value={values.dailyCapacity}
+          onChange={handleChange}
+          placeholder="Sem limite"
+          className={`w-32 rounded-md border px-3 py-2 text-sm shadow-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 ${
+            errors.dailyCapacity ? "border-red-400" : "border-gray-300"
+          }`}
+        />
+        <p className="mt-1 text-xs text-gray-400">
+          Unidades deste produto (somando as variações) aceitas por data de
+          entrega.
+        </p>
+        {errors.dailyCapacity && (
+          <p className="mt-1 text-xs text-red-600">{errors.dailyCapacity}</p>
+        )}
+      </div>
+
+      {/* Availability */}
+      <div>
+        <AvailabilityFields
+          idPrefix="product"
+          values={availability}
+          onChange={(next) => {
+            setAvailability(next);
+            setErrors((prev) => ({
+              ...prev,
+              availability: undefined as unknown as string,
+            }));
+          }}
+          error={errors.availability}
+        />
+        <p className="mt-1 text-xs text-gray-400">
+          Os campos preenchidos aqui substituem a regra das categorias do
+          produto.
+        </p>
+      </div>
+
       {/* Is Active */}
       <div className="flex items-center gap-3">
         <input
@@ -660,7 +819,10 @@ export function ProductForm({
               <div className="flex gap-3">
                 <div className="flex-1">
                   <label className="block text-xs font-medium text-gray-600 mb-1">
-                    Preço (R$) <span className="text-red-500">*</span>
+                    {variant.pricingType === "WEIGHT"
+                      ? "Preço por kg (R$)"
+                      : "Preço (R$)"}{" "}
+                    <span className="text-red-500">*</span>
                   </label>
                   <input
                     type="text"
@@ -706,7 +868,7 @@ export function ProductForm({
               {variant.pricingType === "WEIGHT" && (
                 <div>
                   <label className="block text-xs font-medium text-gray-600 mb-1">
-                    Peso base da variação{" "}
+                    Peso mínimo e incremento{" "}
                     <span className="text-red-500">*</span>
                   </label>
                   <div className="flex gap-2">
@@ -719,13 +881,31 @@ export function ProductForm({
                       onChange={(e) =>
                         updateVariant(i, "weightValue", e.target.value)
                       }
-                      placeholder="250"
+                      placeholder="1000"
+                      aria-label="Peso mínimo"
                       className={`flex-1 rounded-md border px-3 py-1.5 text-sm shadow-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 ${
                         errors[`variant_${i}_weightValue`]
                           ? "border-red-400"
                           : "border-gray-300"
                       }`}
                     />
+                    <input
+                      type="number"
+                      inputMode="decimal"
+                      min={0.001}
+                      step="any"
+                      value={variant.weightStep}
+                      onChange={(e) =>
+                        updateVariant(i, "weightStep", e.target.value)
+                      }
+                      placeholder="500"
+                      aria-label="Incremento"
+                      className={`flex-1 rounded-md border px-3 py-1.5 text-sm shadow-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 ${
+                        errors[`variant_${i}_weightStep`]
+                          ? "border-red-400"
+                          : "border-gray-300"
+                      }`}
+                    />
                     <select
                       value={variant.weightUnit}
                       onChange={(e) =>
@@ -741,14 +921,48 @@ export function ProductForm({
                       <option value="kg">Quilogramas (kg)</option>
                     </select>
                   </div>
-                  {errors[`variant_${i}_weightValue`] && (
+                  {(errors[`variant_${i}_weightValue`] ||
+                    errors[`variant_${i}_weightStep`]) && (
                     <p className="mt-1 text-xs text-red-600">
-                      {errors[`variant_${i}_weightValue`]}
+                      {errors[`variant_${i}_weightValue`] ??
+                        errors[`variant_${i}_weightStep`]}
                     </p>
                   )}
+                  <p className="mt-1 text-xs text-gray-400">
+                    O cliente escolhe o peso a partir do mínimo, de incremento
+                    em incremento, e paga uma estimativa; o valor final é
+                    ajustado na pesagem.
+                  </p>
                 </div>
               )}
 
+              <div>
+                <label className="block text-xs font-medium text-gray-600 mb-1">
+                  Limite por dia{" "}
+                  <span className="font-normal text-gray-400">(opcional)</span>
+                </label>
+                <input
+                  type="number"
+                  min={1}
+                  step={1}
+                  value={variant.dailyCapacity}
+                  onChange={(e) =>
+                    updateVariant(i, "dailyCapacity", e.target.value)
+                  }
+                  placeholder="Sem limite"
+                  className={`w-32 rounded-md border px-3 py-1.5 text-sm shadow-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 ${
+                    errors[`variant_${i}_dailyCapacity`]
+                      ? "border-red-400"
+                      : "border-gray-300"
+                  }`}
+                />
+                {errors[`variant_${i}_dailyCapacity`] && (
+                  <p className="mt-1 text-xs text-red-600">
+                    {errors[`variant_${i}_dailyCapacity`]}
+                  </p>
+                )}
+              </div>
+
               <div className="flex items-center gap-2">
                 <input
                   type="checkbox"
@@ -771,6 +985,13 @@ export function ProductForm({
         </div>
       </div>
 
+      {/* Option groups */}
+      <OptionGroupsEditor
+        groups={optionGroups}
+        onChange={setOptionGroups}
+        errors={errors}
+      />
+
       {/* Actions */}
       <div className="flex gap-3 pt-2">
         <button
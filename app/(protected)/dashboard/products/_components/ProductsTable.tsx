@@ -1,11 +1,16 @@
 "use client";
 
+import { useState } from "react";
 import Link from "next/link";
 import ToggleActiveButton from "./ToggleActiveButton";
+import { BulkPriceAdjustment } from "./BulkPriceAdjustment";
 import type { Product } from "@/domain/product/types";
+import { totalAvailableStock } from "@/domain/product/ProductStock";
 
 interface Props {
   products: Product[];
+  /** Categories offered as a scope of the bulk price change. */
+  categories: { id: string; name: string }[];
 }
 
 function formatPrice(price: number): string {
@@ -15,47 +20,139 @@ function formatPrice(price: number): string {
   }).format(price);
 }
 
-export default function ProductsTable({ products }: Props) {
+/** Base price, or the range of the variants' prices. */
+function priceLabel(product: Product): string {
+  if (product.price != null) return formatPrice(product.price);
+  const prices = product.variants.map((v) => v.price);
+  if (prices.length === 0) return "—";
+  const min = Math.min(...prices);
+  const max = Math.max(...prices);
+  return min === max
+    ? formatPrice(min)
+    : `${formatPrice(min)} – ${formatPrice(max)}`;
+}
+
+/**
+ * ProductsTable — the products as rows with a checkbox each; the selection
+ * feeds the bulk price change above the table.
+ */
+export default function ProductsTable({ products, categories }: Props) {
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+
   if (products.length === 0) {
     return (
-      <p>
-        No products found.{" "}
-        <Link href="/dashboard/products/new">Add your first product</Link>.
+      <p className="text-sm text-foreground-muted">
+        Nenhum produto cadastrado.{" "}
+        <Link href="/dashboard/products/new" className="text-accent underline">
+          Cadastre o primeiro
+        </Link>
+        .
       </p>
     );
   }
 
+  const allSelected = selected.size === products.length;
+
+  function toggle(id: string) {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  }
+
   return (
-    <table>
-      <thead>
-        <tr>
-          <th scope="col">Name</th>
-          <th scope="col">Price</th>
-          <th scope="col">Status</th>
-          <th scope="col">Actions</th>
-        </tr>
-      </thead>
-      <tbody>
-        {products.map((product) => (
-          <tr key={product.id}>
-            <td>{product.name}</td>
-            <td>{product.price != null ? formatPrice(product.price) : "—"}</td>
-            <td>
-              <span aria-label={product.isActive ? "Active" : "Inactive"}>
-                {product.isActive ? "Active" : "Inactive"}
-              </span>
-            </td>
-            <td>
-              <Link href={`/dashboard/products/${product.id}/edit`}>Edit</Link>
-              {" · "}
-              <ToggleActiveButton
-                productId={product.id}
-                isActive={product.isActive}
-              />
-            </td>
-          </tr>
-        ))}
-      </tbody>
-    </table>
+    <div className="flex flex-col gap-4">
+      <BulkPriceAdjustment
+        selectedIds={[...selected]}
+        categories={categories}
+      />
+
+      <div className="overflow-x-auto rounded-xl border border-line bg-surface">
+        <table className="w-full text-left text-sm">
+          <thead className="bg-surface-subtle text-xs text-foreground-muted">
+            <tr>
+              <th scope="col" className="w-10 px-4 py-3">
+                <input
+                  type="checkbox"
+                  aria-label="Selecionar todos"
+                  checked={allSelected}
+                  onChange={() =>
+                    setSelected(
+                      allSelected
+                        ? new Set()
+                        : new Set(products.map((p) => p.id)),
+                    )
+                  }
+                  className="h-4 w-4 accent-accent"
+                />
+              </th>
+              <th scope="col" className="px-4 py-3 font-medium">
+                Produto
+              </th>
+              <th scope="col" className="px-4 py-3 font-medium">
+                Preço
+              </th>
+              <th scope="col" className="px-4 py-3 font-medium">
+                Estoque
+              </th>
+              <th scope="col" className="px-4 py-3 font-medium">
+                Status
+              </th>
+              <th scope="col" className="px-4 py-3 font-medium">
+                Ações
+              </th>
+            </tr>
+          </thead>
+          <tbody>
+            {products.map((product) => (
+              <tr key={product.id} className="border-t border-line">
+                <td className="px-4 py-3">
+                  <input
+                    type="checkbox"
+                    aria-label={`Selecionar ${product.name}`}
+                    checked={selected.has(product.id)}
+                    onChange={() => toggle(product.id)}
+                    className="h-4 w-4 accent-accent"
+                  />
+                </td>
+                <td className="px-4 py-3 text-foreground">
+                  {product.name}
+                  {product.variants.length > 0 && (
+                    <span className="ml-1 text-xs text-foreground-muted">
+                      ({product.variants.length} variações)
+                    </span>
+                  )}
+                </td>
+                <td className="px-4 py-3 tabular-nums">
+                  {priceLabel(product)}
+                </td>
+                <td className="px-4 py-3 tabular-nums">
+                  {totalAvailableStock(product) ?? "—"}
+                </td>
+                <td className="px-4 py-3">
+                  {product.isActive ? "Ativo" : "Inativo"}
+                </td>
+                <td className="px-4 py-3">
+                  <div className="flex items-center gap-3">
+                    <Link
+                      href={`/dashboard/products/${product.id}/edit`}
+                      className="text-accent hover:underline"
+                    >
+                      Editar
+                    </Link>
+                    <ToggleActiveButton
+                      productId={product.id}
+                      isActive={product.isActive}
+                    />
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
   );
 }
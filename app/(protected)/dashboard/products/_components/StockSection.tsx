@@ -0,0 +1,289 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import {
+  availableStock,
+  type StockLevel,
+  type StockMovement,
+} from "@/domain/product/ProductStock";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+interface Counter extends StockLevel {
+  /** Variant id; null for the product's own stock. */
+  variantId: string | null;
+  label: string;
+}
+
+interface Props {
+  productId: string;
+  counters: Counter[];
+  /** Newest first. */
+  movements: StockMovement[];
+}
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+const MOVEMENT_LABELS: Record<StockMovement["type"], string> = {
+  ADJUSTMENT: "Ajuste",
+  RESERVE: "Reserva",
+  RELEASE: "Liberação",
+  CONSUME: "Baixa",
+};
+
+const INPUT_CLASS =
+  "rounded-md border border-gray-300 px-3 py-1.5 text-sm shadow-sm focus:outline-none focus:ring-2 focus:ring-indigo-500";
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function formatDateTime(date: Date): string {
+  return new Date(date).toLocaleString("pt-BR", {
+    day: "2-digit",
+    month: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+/** "+5", "−2" for adjustments; order movements show the units moved. */
+function formatQuantity(movement: StockMovement): string {
+  if (movement.type !== "ADJUSTMENT") return String(movement.quantity);
+  return movement.quantity >= 0
+    ? `+${movement.quantity}`
+    : `−${Math.abs(movement.quantity)}`;
+}
+
+// ─── Component ────────────────────────────────────────────────────────────────
+
+/**
+ * StockSection — stock counts of a product and their history, on the
+ * product edit page.
+ *
+ * The store sets the count of the product or of a variant (stocktake, new
+ * batch, breakage) through POST /api/products/:id/stock; an empty count
+ * stops tracking.  Order reservations, releases and deliveries show up in
+ * the history as they happen.  Refreshes via router.refresh() after a save.
+ */
+export function StockSection({ productId, counters, movements }: Props) {
+  const router = useRouter();
+  const [target, setTarget] = useState(counters[0]?.variantId ?? "");
+  const current =
+    counters.find((c) => (c.variantId ?? "") === target) ?? counters[0];
+  const [count, setCount] = useState(
+    current?.stockOnHand != null ? String(current.stockOnHand) : "",
+  );
+  const [reason, setReason] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  function selectTarget(value: string) {
+    setTarget(value);
+    const next = counters.find((c) => (c.variantId ?? "") === value);
+    setCount(next?.stockOnHand != null ? String(next.stockOnHand) : "");
+    setError(null);
+  }
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setError(null);
+
+    const parsed = count.trim() === "" ? null : Number(count);
+    if (parsed !== null && (!Number.isInteger(parsed) || parsed < 0)) {
+      setError("Informe um número inteiro a partir de 0.");
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/products/${productId}/stock`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          variantId: target || null,
+          stockOnHand: parsed,
+          reason: reason.trim() || null,
+        }),
+      });
+      if (!res.ok) {
+        const json = await res.json().catch(() => ({}));
+        setError(json?.error?.message ?? "Ocorreu um erro. Tente novamente.");
+        return;
+      }
+      setReason("");
+      router.refresh();
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  return (
+    <section className="mt-10 space-y-4">
+      <div>
+        <h2 className="text-lg font-semibold text-gray-900">Estoque</h2>
+        <p className="text-sm text-gray-500">
+          Para lotes prontos (potes, caixas). Deixe em branco para itens feitos
+          sob encomenda. Uma variação com estoque próprio é contada à parte.
+        </p>
+      </div>
+
+      {/* ── Counters ──────────────────────────────────────────────────────── */}
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-xs text-gray-500">
+            <th scope="col" className="py-1 font-medium">
+              Item
+            </th>
+            <th scope="col" className="py-1 font-medium">
+              Em estoque
+            </th>
+            <th scope="col" className="py-1 font-medium">
+              Reservado
+            </th>
+            <th scope="col" className="py-1 font-medium">
+              Disponível
+            </th>
+          </tr>
+        </thead>
+        <tbody>
+          {counters.map((c) => {
+            const available = availableStock(c);
+            return (
+              <tr
+                key={c.variantId ?? "product"}
+                className="border-t border-gray-100"
+              >
+                <td className="py-1.5 text-gray-900">{c.label}</td>
+                {c.stockOnHand === null ? (
+                  <td colSpan={3} className="py-1.5 text-gray-400 italic">
+                    Não controlado
+                  </td>
+                ) : (
+                  <>
+                    <td className="py-1.5">{c.stockOnHand}</td>
+                    <td className="py-1.5">{c.stockReserved}</td>
+                    <td
+                      className={
+                        available === 0
+                          ? "py-1.5 font-medium text-red-600"
+                          : "py-1.5"
+                      }
+                    >
+                      {available === 0 ? "Esgotado" : available}
+                    </td>
+                  </>
+                )}
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+
+      {/* ── Adjustment ────────────────────────────────────────────────────── */}
+      <form
+        onSubmit={handleSubmit}
+        className="rounded-lg border border-gray-200 bg-gray-50 p-4 space-y-3"
+      >
+        <div className="flex flex-wrap items-end gap-3">
+          {counters.length > 1 && (
+            <label className="flex flex-col gap-1">
+              <span className="text-xs font-medium text-gray-600">Item</span>
+              <select
+                value={target}
+                onChange={(e) => selectTarget(e.target.value)}
+                className={`${INPUT_CLASS} bg-white`}
+              >
+                {counters.map((c) => (
+                  <option key={c.variantId ?? ""} value={c.variantId ?? ""}>
+                    {c.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+          <label className="flex flex-col gap-1">
+            <span className="text-xs font-medium text-gray-600">
+              Quantidade em estoque
+            </span>
+            <input
+              type="number"
+              min={0}
+              step={1}
+              value={count}
+              onChange={(e) => setCount(e.target.value)}
+              placeholder="Não controlado"
+              className={`${INPUT_CLASS} w-36`}
+            />
+          </label>
+          <label className="flex flex-1 flex-col gap-1">
+            <span className="text-xs font-medium text-gray-600">
+              Motivo (opcional)
+            </span>
+            <input
+              type="text"
+              value={reason}
+              maxLength={200}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="Ex: nova fornada, contagem, quebra"
+              className={INPUT_CLASS}
+            />
+          </label>
+          <button
+            type="submit"
+            disabled={loading}
+            className="rounded-md bg-indigo-600 px-4 py-1.5 text-sm font-medium text-white hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-50"
+          >
+            {loading ? "Salvando…" : "Salvar estoque"}
+          </button>
+        </div>
+        {error && <p className="text-xs text-red-600">{error}</p>}
+      </form>
+
+      {/* ── History ───────────────────────────────────────────────────────── */}
+      <div>
+        <h3 className="mb-2 text-sm font-semibold text-gray-700">Histórico</h3>
+        {movements.length === 0 ? (
+          <p className="text-xs text-gray-400 italic">
+            Nenhuma movimentação ainda.
+          </p>
+        ) : (
+          <ul className="divide-y divide-gray-100 text-sm">
+            {movements.map((m) => (
+              <li key={m.id} className="flex flex-wrap gap-x-3 gap-y-0.5 py-2">
+                <span className="w-24 shrink-0 text-xs text-gray-500">
+                  {formatDateTime(m.createdAt)}
+                </span>
+                <span className="font-medium text-gray-900">
+                  {MOVEMENT_LABELS[m.type]} {formatQuantity(m)}
+                </span>
+                {m.variantLabel && (
+                  <span className="text-gray-600">{m.variantLabel}</span>
+                )}
+                <span className="text-gray-500">
+                  {m.onHandAfter === null
+                    ? "não controlado"
+                    : `estoque ${m.onHandAfter} · reservado ${m.reservedAfter}`}
+                </span>
+                {m.orderId && (
+                  <Link
+                    href={`/dashboard/orders/${m.orderId}`}
+                    className="text-indigo-600 hover:underline"
+                  >
+                    Pedido {m.orderNumber ? `#${m.orderNumber}` : ""}
+                  </Link>
+                )}
+                {m.reason && (
+                  <span className="text-gray-600">“{m.reason}”</span>
+                )}
+                {m.actorEmail && (
+                  <span className="text-xs text-gray-400">{m.actorEmail}</span>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </section>
+  );
+}
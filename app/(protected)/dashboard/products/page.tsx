@@ -8,8 +8,8 @@
  *   4. Pass the resulting slice to the grid.
  *
  * "use client" is NOT used here. Only the child components that need
- * interactivity (ProductFilters, ToggleActiveButton, DeleteProductButton) are
- * Client Components.
+ * interactivity (ProductFilters, ProductCsvActions, ToggleActiveButton,
+ * DeleteProductButton) are Client Components.
  */
 
 import Link from "next/link";
@@ -18,8 +18,10 @@ import type { Metadata } from "next";
 import { getSession } from "@/infra/http/auth/getSession";
 import { listProductsUseCase } from "@/infra/composition";
 import type { Product } from "@/domain/product/types";
+import { totalAvailableStock } from "@/domain/product/ProductStock";
 import { ProductCard } from "./_components/ProductCard";
 import { ProductFilters } from "./_components/ProductFilters";
+import { ProductCsvActions } from "./_components/ProductCsvActions";
 import { EmptyState } from "./_components/EmptyState";
 import { PageHeader } from "../_components/PageHeader";
 
@@ -115,26 +117,40 @@ export default async function ProductsPage({ searchParams }: Props) {
         title="Produtos"
         description="Gerencie os produtos e variações do seu catálogo"
         actions={
-          <Link
-            href="/dashboard/products/new"
-            className={[
-              "inline-flex items-center gap-2 rounded-lg px-4 py-2 text-sm font-medium",
-              "bg-foreground text-surface",
-              "transition-colors duration-150 hover:bg-foreground/90",
-              "ring-focus",
-            ].join(" ")}
-          >
-            <svg
-              xmlns="http://www.w3.org/2000/svg"
-              viewBox="0 0 20 20"
-              fill="currentColor"
-              className="h-4 w-4"
-              aria-hidden="true"
+          <div className="flex flex-wrap items-center gap-2">
+            <ProductCsvActions />
+            <Link
+              href="/dashboard/products/prices"
+              className={[
+                "inline-flex items-center rounded-lg border border-line px-4 py-2 text-sm font-medium",
+                "bg-surface text-foreground",
+                "transition-colors duration-150 hover:bg-surface-hover",
+                "ring-focus",
+              ].join(" ")}
             >
-              <path d="M10.75 4.75a.75.75 0 0 0-1.5 0v4.5h-4.5a.75.75 0 0 0 0 1.5h4.5v4.5a.75.75 0 0 0 1.5 0v-4.5h4.5a.75.75 0 0 0 0-1.5h-4.5v-4.5Z" />
-            </svg>
-            Novo produto
-          </Link>
+              Reajustar preços
+            </Link>
+            <Link
+              href="/dashboard/products/new"
+              className={[
+                "inline-flex items-center gap-2 rounded-lg px-4 py-2 text-sm font-medium",
+                "bg-foreground text-surface",
+                "transition-colors duration-150 hover:bg-foreground/90",
+                "ring-focus",
+              ].join(" ")}
+            >
+              <svg
+                xmlns="http://www.w3.org/2000/svg"
+                viewBox="0 0 20 20"
+                fill="currentColor"
+                className="h-4 w-4"
+                aria-hidden="true"
+              >
+                <path d="M10.75 4.75a.75.75 0 0 0-1.5 0v4.5h-4.5a.75.75 0 0 0 0 1.5h4.5v4.5a.75.75 0 0 0 1.5 0v-4.5h4.5a.75.75 0 0 0 0-1.5h-4.5v-4.5Z" />
+              </svg>
+              Novo produto
+            </Link>
+          </div>
         }
       />
 
@@ -177,6 +193,7 @@ export default async function ProductsPage({ searchParams }: Props) {
                 price={product.price}
                 variantCount={product.variants.length}
                 isActive={product.isActive}
+                stockAvailable={totalAvailableStock(product)}
                 imageUrl={product.images[0]?.imageUrl ?? null}
               />
             ))
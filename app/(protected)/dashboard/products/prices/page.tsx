@@ -0,0 +1,47 @@
+/**
+ * /dashboard/products/prices — Server Component.
+ *
+ * Bulk price adjustment: the products table with selection, the adjustment
+ * form above it and the history of past adjustments below.
+ */
+
+import type { Metadata } from "next";
+import { getSession } from "@/infra/http/auth/getSession";
+import {
+  listProductsUseCase,
+  listCategoriesUseCase,
+  listPriceAdjustmentsUseCase,
+} from "@/infra/composition";
+import ProductsTable from "../_components/ProductsTable";
+import { PriceAdjustmentHistory } from "../_components/PriceAdjustmentHistory";
+import { PageHeader } from "../../_components/PageHeader";
+
+export const metadata: Metadata = { title: "Reajuste de preços" };
+
+export default async function ProductPricesPage() {
+  const session = await getSession();
+
+  const [products, categories, adjustments] = await Promise.all([
+    listProductsUseCase.execute(session.storeId),
+    listCategoriesUseCase.execute(session.storeId),
+    listPriceAdjustmentsUseCase.execute(session.storeId),
+  ]);
+
+  return (
+    <div>
+      <PageHeader
+        eyebrow="Catálogo"
+        title="Reajuste de preços"
+        description="Reajuste vários preços de uma vez, com pré-visualização e histórico"
+      />
+
+      <div className="mx-auto flex w-full max-w-screen-xl flex-col gap-6 px-4 pt-6 pb-8 md:px-6 lg:px-8">
+        <ProductsTable
+          products={products}
+          categories={categories.map((c) => ({ id: c.id, name: c.name }))}
+        />
+        <PriceAdjustmentHistory adjustments={adjustments} />
+      </div>
+    </div>
+  );
+}
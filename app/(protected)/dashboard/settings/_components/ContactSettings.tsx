@@ -14,7 +14,7 @@ export function ContactSettings() {
   return (
     <CollapsibleSettingsGroup
       title="Mensagens"
-      description="Personalize as mensagens automáticas enviadas aos clientes ao aprovar ou recusar pedidos."
+      description="Personalize as mensagens automáticas enviadas aos clientes em cada etapa do pedido."
       icon={<MessageIcon className="h-4 w-4" />}
     >
       <div className="rounded-xl border border-line bg-surface p-5">
@@ -24,8 +24,9 @@ export function ContactSettings() {
               Mensagens WhatsApp
             </p>
             <p className="text-sm text-foreground-muted leading-relaxed">
-              Configure os textos de confirmação e recusa de pedidos. Suporta
-              variáveis dinâmicas como nome do cliente e número do pedido.
+              Configure os textos de cada etapa do pedido, do recebimento ao
+              lembrete da véspera. Suporta variáveis dinâmicas como nome do
+              cliente, itens, total e chave PIX.
             </p>
           </div>
           <Link
@@ -0,0 +1,115 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { saveDepositPercentage } from "../actions";
+import { Button } from "../../../../_components/Button";
+import { InlineFeedback } from "../../../../_components/InlineFeedback";
+
+// ─── Props ────────────────────────────────────────────────────────────────────
+
+interface DepositPercentageFormProps {
+  initialPercentage: number | null;
+}
+
+// ─── Component ────────────────────────────────────────────────────────────────
+
+export function DepositPercentageForm({
+  initialPercentage,
+}: DepositPercentageFormProps) {
+  const [percentage, setPercentage] = useState(
+    initialPercentage !== null ? String(initialPercentage) : "",
+  );
+  const [feedback, setFeedback] = useState<{
+    type: "success" | "error";
+    message: string;
+  } | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setFeedback(null);
+
+    const parsed = percentage.trim() === "" ? null : Number(percentage);
+    if (
+      parsed !== null &&
+      (!Number.isInteger(parsed) || parsed < 1 || parsed > 100)
+    ) {
+      setFeedback({
+        type: "error",
+        message: "Informe um número inteiro entre 1 e 100.",
+      });
+      return;
+    }
+
+    startTransition(async () => {
+      const result = await saveDepositPercentage(parsed);
+      if (result.success) {
+        setFeedback({ type: "success", message: "Sinal salvo!" });
+      } else {
+        setFeedback({
+          type: "error",
+          message: result.error ?? "Erro ao salvar. Tente novamente.",
+        });
+      }
+    });
+  }
+
+  return (
+    <section className="rounded-xl border border-line bg-surface p-5 flex flex-col gap-4">
+      <div className="space-y-0.5">
+        <h2 className="font-semibold text-foreground">Sinal obrigatório</h2>
+        <p className="text-sm text-foreground-muted">
+          Percentual do total que o cliente paga para confirmar o pedido. O PIX
+          enviado após a aprovação cobra o sinal primeiro e o restante depois.
+          Deixe em branco para cobrar o valor integral.
+        </p>
+      </div>
+
+      <form onSubmit={handleSubmit} className="flex flex-col gap-3">
+        <div className="flex flex-col gap-1.5">
+          <label
+            htmlFor="depositPercentage"
+            className="text-xs font-medium text-foreground-muted"
+          >
+            Sinal (%)
+          </label>
+          <input
+            id="depositPercentage"
+            type="number"
+            inputMode="numeric"
+            min="1"
+            max="100"
+            step="1"
+            placeholder="Ex.: 50"
+            value={percentage}
+            disabled={isPending}
+            onChange={(e) => {
+              setPercentage(e.target.value);
+              setFeedback(null);
+            }}
+            className="rounded-lg border border-line bg-surface-subtle px-3 py-2 text-sm text-foreground placeholder:text-foreground-muted/50 focus:border-accent focus:outline-none focus:ring-2 focus:ring-accent/20 disabled:opacity-50"
+          />
+        </div>
+
+        {feedback && (
+          <InlineFeedback
+            type={feedback.type}
+            message={feedback.message}
+            onDismiss={() => setFeedback(null)}
+          />
+        )}
+
+        <Button
+          type="submit"
+          variant="primary"
+          size="sm"
+          loading={isPending}
+          disabled={isPending}
+          className="self-start"
+        >
+          Salvar sinal
+        </Button>
+      </form>
+    </section>
+  );
+}
@@ -0,0 +1,47 @@
+/**
+ * PaymentSettings — groups payment-related configuration cards.
+ *
+ * Contains:
+ *  - DepositPercentageForm (share of the total paid upfront)
+ *
+ * Server Component — data is pre-fetched by page.tsx and passed as props.
+ */
+
+import { DepositPercentageForm } from "./DepositPercentageForm";
+import { CollapsibleSettingsGroup } from "./CollapsibleSettingsGroup";
+
+interface PaymentSettingsProps {
+  depositPercentage: number | null;
+}
+
+export function PaymentSettings({ depositPercentage }: PaymentSettingsProps) {
+  return (
+    <CollapsibleSettingsGroup
+      title="Pagamento"
+      description="Defina quanto do valor do pedido o cliente paga antecipadamente como sinal."
+      icon={<WalletIcon className="h-4 w-4" />}
+    >
+      <DepositPercentageForm initialPercentage={depositPercentage} />
+    </CollapsibleSettingsGroup>
+  );
+}
+
+function WalletIcon({ className }: { className?: string }) {
+  return (
+    <svg
+      xmlns="http://www.w3.org/2000/svg"
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth={2}
+      strokeLinecap="round"
+      strokeLinejoin="round"
+      className={className}
+      aria-hidden="true"
+    >
+      <rect x="2" y="6" width="20" height="14" rx="2" />
+      <path d="M2 10h20" />
+      <path d="M16 15h2" />
+    </svg>
+  );
+}
@@ -0,0 +1,82 @@
+/**
+ * StaffSettings — entry point to the store's users and invites.
+ *
+ * The management itself lives on its own sub-page; this card only links to
+ * it.  Rendered for the owner only (Permission.MANAGE_STAFF).
+ *
+ * Server Component — no interactivity.
+ */
+
+import Link from "next/link";
+import { CollapsibleSettingsGroup } from "./CollapsibleSettingsGroup";
+
+export function StaffSettings() {
+  return (
+    <CollapsibleSettingsGroup
+      title="Usuários"
+      description="Dê acesso ao painel para sua equipe, cada um com a sua função."
+      icon={<UsersIcon className="h-4 w-4" />}
+    >
+      <div className="rounded-xl border border-line bg-surface p-5">
+        <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+          <div className="space-y-1">
+            <p className="text-sm font-semibold text-foreground">
+              Equipe da loja
+            </p>
+            <p className="text-sm text-foreground-muted leading-relaxed">
+              Convide gerentes, a cozinha e entregadores. A cozinha vê só a
+              produção do dia e os entregadores, só as entregas do dia.
+            </p>
+          </div>
+          <Link
+            href="/dashboard/settings/users"
+            className="shrink-0 inline-flex items-center gap-1.5 rounded-lg border border-line bg-surface px-4 py-2 text-sm font-medium text-foreground hover:bg-surface-hover transition-colors self-start sm:self-auto"
+          >
+            Gerenciar usuários
+            <ArrowRightIcon className="h-3.5 w-3.5" />
+          </Link>
+        </div>
+      </div>
+    </CollapsibleSettingsGroup>
+  );
+}
+
+function UsersIcon({ className }: { className?: string }) {
+  return (
+    <svg
+      xmlns="http://www.w3.org/2000/svg"
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth={2}
+      strokeLinecap="round"
+      strokeLinejoin="round"
+      className={className}
+      aria-hidden="true"
+    >
+      <path d="M17 21v-2a4 4 0 0 0-4-4H5a4 4 0 0 0-4 4v2" />
+      <circle cx="9" cy="7" r="4" />
+      <path d="M23 21v-2a4 4 0 0 0-3-3.87" />
+      <path d="M16 3.13a4 4 0 0 1 0 7.75" />
+    </svg>
+  );
+}
+
+function ArrowRightIcon({ className }: { className?: string }) {
+  return (
+    <svg
+      xmlns="http://www.w3.org/2000/svg"
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth={2}
+      strokeLinecap="round"
+      strokeLinejoin="round"
+      className={className}
+      aria-hidden="true"
+    >
+      <line x1="5" y1="12" x2="19" y2="12" />
+      <polyline points="12 5 19 12 12 19" />
+    </svg>
+  );
+}
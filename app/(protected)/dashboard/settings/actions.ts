@@ -1,25 +1,25 @@
 "use server";
 
-import { getSession } from "@/infra/http/auth/getSession";
+import { getActionSession } from "@/infra/http/auth/getSession";
 import {
   updateStoreWhatsappUseCase,
   updateStorePickupAddressUseCase,
   updateDefaultDeliveryFeeUseCase,
   updateStoreIdentityUseCase,
+  updateDepositPercentageUseCase,
   storeRepo,
 } from "@/infra/composition";
 import { AppError } from "@/shared/errors/AppError";
 import type { UpdatePickupAddressInput } from "@/application/store/UpdateStorePickupAddressUseCase";
 
 export type SaveWhatsappResult =
-  | { success: true }
-  | { success: false; error: string };
+  { success: true } | { success: false; error: string };
 
 export async function saveWhatsapp(
   whatsapp: string,
 ): Promise<SaveWhatsappResult> {
   try {
-    const session = await getSession();
+    const session = await getActionSession();
     await updateStoreWhatsappUseCase.execute(session.storeId, whatsapp);
     return { success: true };
   } catch (err) {
@@ -34,14 +34,13 @@ export async function saveWhatsapp(
 // ─── Pickup address ───────────────────────────────────────────────────────────
 
 export type SavePickupAddressResult =
-  | { success: true }
-  | { success: false; error: string };
+  { success: true } | { success: false; error: string };
 
 export async function savePickupAddress(
   input: UpdatePickupAddressInput,
 ): Promise<SavePickupAddressResult> {
   try {
-    const session = await getSession();
+    const session = await getActionSession();
     await updateStorePickupAddressUseCase.execute(session.storeId, input);
     return { success: true };
   } catch (err) {
@@ -56,14 +55,13 @@ export async function savePickupAddress(
 // ─── Default delivery fee ─────────────────────────────────────────────────────
 
 export type SaveDefaultDeliveryFeeResult =
-  | { success: true }
-  | { success: false; error: string };
+  { success: true } | { success: false; error: string };
 
 export async function saveDefaultDeliveryFee(
   fee: number,
 ): Promise<SaveDefaultDeliveryFeeResult> {
   try {
-    const session = await getSession();
+    const session = await getActionSession();
     await updateDefaultDeliveryFeeUseCase.execute(session.storeId, fee);
     return { success: true };
   } catch (err) {
@@ -75,18 +73,38 @@ export async function saveDefaultDeliveryFee(
   }
 }
 
+// ─── Deposit percentage ───────────────────────────────────────────────────────
+
+export type SaveDepositPercentageResult =
+  { success: true } | { success: false; error: string };
+
+export async function saveDepositPercentage(
+  percentage: number | null,
+): Promise<SaveDepositPercentageResult> {
+  try {
+    const session = await getActionSession();
+    await updateDepositPercentageUseCase.execute(session.storeId, percentage);
+    return { success: true };
+  } catch (err) {
+    const message =
+      err instanceof AppError
+        ? err.message
+        : "Não foi possível salvar. Tente novamente.";
+    return { success: false, error: message };
+  }
+}
+
 // ─── Store identity (name + slug) ─────────────────────────────────────────────
 
 export type SaveStoreIdentityResult =
-  | { success: true }
-  | { success: false; error: string };
+  { success: true } | { success: false; error: string };
 
 export async function saveStoreIdentity(
   name: string,
   slug: string,
 ): Promise<SaveStoreIdentityResult> {
   try {
-    const session = await getSession();
+    const session = await getActionSession();
     await updateStoreIdentityUseCase.execute(session.storeId, { name, slug });
     return { success: true };
   } catch (err) {
@@ -104,7 +122,7 @@ export async function checkSlugAvailability(
   slug: string,
 ): Promise<CheckSlugResult> {
   try {
-    const session = await getSession();
+    const session = await getActionSession();
     const taken = await storeRepo.isSlugTaken(slug, session.storeId);
     return { available: !taken };
   } catch {
@@ -5,18 +5,32 @@ import {
   DEFAULT_MESSAGES,
   MESSAGE_PLACEHOLDERS,
   MESSAGE_MAX_LENGTH,
+  MESSAGE_TEMPLATES,
+  findUnknownPlaceholders,
   renderMessage,
+  type MessageTemplateKey,
+  type MessageVars,
 } from "@/domain/store/StoreMessageConfig";
 import { saveMessages } from "../actions";
 import { Button } from "../../../../../_components/Button";
 import { InlineFeedback } from "../../../../../_components/InlineFeedback";
 
 // ─── Demo vars for the live preview ──────────────────────────────────────────
+// Used only while the store has no orders yet.
 
-const DEMO_VARS = {
-  cliente: "Maria Silva",
+const DEMO_VARS: MessageVars = {
+  cliente: "Maria",
   pedido: "42",
-  data: "sexta-feira, 6 de março",
+  data: "sexta-feira, 6 de março de 2026",
+  itens: "2x Bolo de cenoura (Grande)\n1x Brigadeiro (Cento)",
+  total: "R$ 185,00",
+  taxa: "R$ 10,00",
+  endereco: "Rua das Flores, 123, Centro, Londrina",
+  horario: "09:00 – 12:00",
+  pix: "contato@exemplo.com.br",
+  pix_copia_e_cola:
+    "00020126440014br.gov.bcb.pix0122contato@exemplo.com.br5204000053039865406185.005802BR5912DOCES DA ANA6008LONDRINA62070503***63041594",
+  link: "https://encomendazap.com.br/catalog/minha-loja/pedido/exemplo",
 };
 
 // ─── Sub-components ───────────────────────────────────────────────────────────
@@ -45,6 +59,7 @@ interface TemplateFieldProps {
   label: string;
   value: string;
   placeholder: string;
+  unknownPlaceholders: string[];
   onChange: (v: string) => void;
 }
 
@@ -53,10 +68,12 @@ function TemplateField({
   label,
   value,
   placeholder,
+  unknownPlaceholders,
   onChange,
 }: TemplateFieldProps) {
   const remaining = MESSAGE_MAX_LENGTH - value.length;
   const isOverLimit = remaining < 0;
+  const isInvalid = isOverLimit || unknownPlaceholders.length > 0;
 
   return (
     <div className="space-y-2">
@@ -82,9 +99,14 @@ function TemplateField({
         className={[
           "w-full resize-y rounded-lg border px-3 py-2.5 text-sm bg-surface text-foreground placeholder:text-foreground-muted",
           "focus:outline-none focus:ring-2 focus:ring-accent/30 transition",
-          isOverLimit ? "border-danger" : "border-line",
+          isInvalid ? "border-danger" : "border-line",
         ].join(" ")}
       />
+      {unknownPlaceholders.length > 0 && (
+        <p className="text-xs text-danger">
+          Marcadores desconhecidos: {unknownPlaceholders.join(", ")}
+        </p>
+      )}
     </div>
   );
 }
@@ -92,10 +114,11 @@ function TemplateField({
 interface PreviewProps {
   label: string;
   template: string;
+  vars: MessageVars;
 }
 
-function Preview({ label, template }: PreviewProps) {
-  const rendered = renderMessage(template || " ", DEMO_VARS);
+function Preview({ label, template, vars }: PreviewProps) {
+  const rendered = renderMessage(template || " ", vars);
 
   return (
     <div className="rounded-lg border border-line bg-surface-hover p-3 space-y-1">
@@ -116,47 +139,62 @@ function Preview({ label, template }: PreviewProps) {
 // ─── Main form ────────────────────────────────────────────────────────────────
 
 interface MessagesFormProps {
-  initialApproval: string | null;
-  initialRejection: string | null;
+  /** Saved template per event — null means the default is in use. */
+  initialTemplates: Record<MessageTemplateKey, string | null>;
+  /** Placeholder values from a recent order. Null = store has no orders yet. */
+  preview: { source: string; vars: MessageVars } | null;
 }
 
 type FeedbackState = { type: "success" | "error"; message: string } | null;
 
-export function MessagesForm({
-  initialApproval,
-  initialRejection,
-}: MessagesFormProps) {
-  const [approval, setApproval] = useState(
-    initialApproval ?? DEFAULT_MESSAGES.approval,
-  );
-  const [rejection, setRejection] = useState(
-    initialRejection ?? DEFAULT_MESSAGES.rejection,
+export function MessagesForm({ initialTemplates, preview }: MessagesFormProps) {
+  const [templates, setTemplates] = useState(
+    () =>
+      Object.fromEntries(
+        MESSAGE_TEMPLATES.map(({ key }) => [
+          key,
+          initialTemplates[key] ?? DEFAULT_MESSAGES[key],
+        ]),
+      ) as Record<MessageTemplateKey, string>,
   );
   const [feedback, setFeedback] = useState<FeedbackState>(null);
   const [isPending, startTransition] = useTransition();
 
+  const previewVars = preview?.vars ?? DEMO_VARS;
+
+  function handleChange(key: MessageTemplateKey, value: string) {
+    setTemplates((prev) => ({ ...prev, [key]: value }));
+  }
+
   function handleSave() {
     startTransition(async () => {
-      try {
-        await saveMessages(approval.trim() || null, rejection.trim() || null);
+      const result = await saveMessages(
+        Object.fromEntries(
+          MESSAGE_TEMPLATES.map(({ key }) => [
+            key,
+            templates[key].trim() || null,
+          ]),
+        ),
+      );
+      if (result.success) {
         setFeedback({
           type: "success",
           message: "Mensagens salvas com sucesso.",
         });
         setTimeout(() => setFeedback(null), 3500);
-      } catch {
-        setFeedback({
-          type: "error",
-          message: "Erro ao salvar. Tente novamente.",
-        });
+      } else {
+        setFeedback({ type: "error", message: result.error });
       }
     });
   }
 
   const canSave =
     !isPending &&
-    approval.length <= MESSAGE_MAX_LENGTH &&
-    rejection.length <= MESSAGE_MAX_LENGTH;
+    MESSAGE_TEMPLATES.every(
+      ({ key }) =>
+        templates[key].length <= MESSAGE_MAX_LENGTH &&
+        findUnknownPlaceholders(templates[key]).length === 0,
+    );
 
   return (
     <div className="space-y-8">
@@ -177,39 +215,38 @@ export function MessagesForm({
           Marcadores disponíveis
         </p>
         <PlaceholderLegend />
+        <p className="text-xs text-foreground-muted">
+          {preview
+            ? `Pré-visualização com os dados do ${preview.source}.`
+            : "Pré-visualização com dados de exemplo — você ainda não recebeu pedidos."}
+        </p>
       </div>
 
-      {/* ── Approval message ──────────────────────────────────────────── */}
-      <div className="rounded-xl border border-line bg-surface p-5 space-y-4">
-        <div className="flex items-center gap-2">
-          <span className="h-2 w-2 rounded-full bg-green-500" />
-          <h3 className="font-semibold text-foreground">Pedido aprovado</h3>
-        </div>
-        <TemplateField
-          id="approval"
-          label="Mensagem de aprovação"
-          value={approval}
-          placeholder={DEFAULT_MESSAGES.approval}
-          onChange={setApproval}
-        />
-        <Preview label="aprovação" template={approval} />
-      </div>
-
-      {/* ── Rejection message ─────────────────────────────────────────── */}
-      <div className="rounded-xl border border-line bg-surface p-5 space-y-4">
-        <div className="flex items-center gap-2">
-          <span className="h-2 w-2 rounded-full bg-red-400" />
-          <h3 className="font-semibold text-foreground">Pedido recusado</h3>
+      {/* ── One card per event ────────────────────────────────────────── */}
+      {MESSAGE_TEMPLATES.map(({ key, label, description }) => (
+        <div
+          key={key}
+          className="rounded-xl border border-line bg-surface p-5 space-y-4"
+        >
+          <div className="space-y-0.5">
+            <h3 className="font-semibold text-foreground">{label}</h3>
+            <p className="text-xs text-foreground-muted">{description}</p>
+          </div>
+          <TemplateField
+            id={key}
+            label="Mensagem"
+            value={templates[key]}
+            placeholder={DEFAULT_MESSAGES[key]}
+            unknownPlaceholders={findUnknownPlaceholders(templates[key])}
+            onChange={(v) => handleChange(key, v)}
+          />
+          <Preview
+            label={label.toLowerCase()}
+            template={templates[key]}
+            vars={previewVars}
+          />
         </div>
-        <TemplateField
-          id="rejection"
-          label="Mensagem de recusa"
-          value={rejection}
-          placeholder={DEFAULT_MESSAGES.rejection}
-          onChange={setRejection}
-        />
-        <Preview label="recusa" template={rejection} />
-      </div>
+      ))}
 
       {/* ── Feedback banner ────────────────────────────────────────────── */}
       {feedback && (
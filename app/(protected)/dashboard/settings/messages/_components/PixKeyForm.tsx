@@ -0,0 +1,94 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { savePixKey } from "../actions";
+import { Button } from "../../../../../_components/Button";
+import { InlineFeedback } from "../../../../../_components/InlineFeedback";
+
+// ─── Props ────────────────────────────────────────────────────────────────────
+
+interface PixKeyFormProps {
+  /** Currently saved key. Null = not yet configured. */
+  initialPixKey: string | null;
+}
+
+// ─── Component ────────────────────────────────────────────────────────────────
+
+export function PixKeyForm({ initialPixKey }: PixKeyFormProps) {
+  const [value, setValue] = useState(initialPixKey ?? "");
+  const [feedback, setFeedback] = useState<{
+    type: "success" | "error";
+    message: string;
+  } | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setFeedback(null);
+
+    startTransition(async () => {
+      const result = await savePixKey(value.trim() || null);
+      if (result.success) {
+        setFeedback({
+          type: "success",
+          message: "Chave PIX salva com sucesso!",
+        });
+      } else {
+        setFeedback({ type: "error", message: result.error });
+      }
+    });
+  }
+
+  return (
+    <div className="rounded-xl border border-line bg-surface p-5 space-y-4">
+      {/* Section header */}
+      <div className="space-y-0.5">
+        <h2 className="font-semibold text-foreground">Chave PIX</h2>
+        <p className="text-sm text-foreground-muted">
+          Valor do marcador <span className="font-mono">{"{pix}"}</span> nas
+          mensagens. Deixe em branco para não informar.
+        </p>
+      </div>
+
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="space-y-1.5">
+          <label
+            htmlFor="store-pix-key"
+            className="text-sm font-medium text-foreground"
+          >
+            Chave
+          </label>
+          <input
+            id="store-pix-key"
+            type="text"
+            value={value}
+            onChange={(e) => {
+              setValue(e.target.value);
+              setFeedback(null);
+            }}
+            maxLength={100}
+            placeholder="CPF, CNPJ, e-mail, telefone ou chave aleatória"
+            disabled={isPending}
+            className="w-full rounded-lg border border-line bg-surface px-3 py-2 text-sm text-foreground placeholder:text-foreground-muted focus:outline-none focus:ring-2 focus:ring-accent/30 transition disabled:opacity-50"
+          />
+        </div>
+
+        {/* Feedback */}
+        {feedback && (
+          <InlineFeedback
+            type={feedback.type}
+            message={feedback.message}
+            onDismiss={() => setFeedback(null)}
+          />
+        )}
+
+        {/* Save button */}
+        <div className="flex justify-end">
+          <Button type="submit" loading={isPending}>
+            Salvar
+          </Button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -1,16 +1,49 @@
 "use server";
 
-import { getSession } from "@/infra/http/auth/getSession";
-import { upsertStoreMessagesUseCase } from "@/infra/composition";
+import { getActionSession } from "@/infra/http/auth/getSession";
+import {
+  upsertStoreMessagesUseCase,
+  updateStorePixKeyUseCase,
+} from "@/infra/composition";
+import { AppError } from "@/shared/errors/AppError";
+import type { UpsertStoreMessagesInput } from "@/application/store/UpsertStoreMessagesUseCase";
+
+export type SaveMessagesResult =
+  { success: true } | { success: false; error: string };
 
 export async function saveMessages(
-  approvalMessage: string | null,
-  rejectionMessage: string | null,
-): Promise<void> {
-  const session = await getSession();
-  await upsertStoreMessagesUseCase.execute(
-    session.storeId,
-    approvalMessage,
-    rejectionMessage,
-  );
+  templates: UpsertStoreMessagesInput,
+): Promise<SaveMessagesResult> {
+  try {
+    const session = await getActionSession();
+    await upsertStoreMessagesUseCase.execute(session.storeId, templates);
+    return { success: true };
+  } catch (err) {
+    const message =
+      err instanceof AppError
+        ? err.message
+        : "Erro ao salvar. Tente novamente.";
+    return { success: false, error: message };
+  }
+}
+
+// ─── PIX key ──────────────────────────────────────────────────────────────────
+
+export type SavePixKeyResult =
+  { success: true } | { success: false; error: string };
+
+export async function savePixKey(
+  pixKey: string | null,
+): Promise<SavePixKeyResult> {
+  try {
+    const session = await getActionSession();
+    await updateStorePixKeyUseCase.execute(session.storeId, pixKey);
+    return { success: true };
+  } catch (err) {
+    const message =
+      err instanceof AppError
+        ? err.message
+        : "Não foi possível salvar. Tente novamente.";
+    return { success: false, error: message };
+  }
 }
@@ -1,17 +1,36 @@
 /**
  * /dashboard/settings/messages — WhatsApp message templates (Server Component).
  *
- * Loads existing config and hands off to the <MessagesForm> client component.
+ * Loads existing config, the PIX key and preview data from the most recent
+ * order, then hands off to the <MessagesForm> client component.
  */
 
 import Link from "next/link";
 import { getSession } from "@/infra/http/auth/getSession";
-import { getStoreMessagesUseCase } from "@/infra/composition";
+import {
+  getStoreMessagesUseCase,
+  getStorePixKeyUseCase,
+  getMessagePreviewUseCase,
+} from "@/infra/composition";
+import {
+  MESSAGE_TEMPLATES,
+  getTemplate,
+  type MessageTemplateKey,
+} from "@/domain/store/StoreMessageConfig";
 import { MessagesForm } from "./_components/MessagesForm";
+import { PixKeyForm } from "./_components/PixKeyForm";
 
 export default async function MessagesSettingsPage() {
   const session = await getSession();
-  const config = await getStoreMessagesUseCase.execute(session.storeId);
+  const [config, pixKey, preview] = await Promise.all([
+    getStoreMessagesUseCase.execute(session.storeId),
+    getStorePixKeyUseCase.execute(session.storeId),
+    getMessagePreviewUseCase.execute(session.storeId),
+  ]);
+
+  const initialTemplates = Object.fromEntries(
+    MESSAGE_TEMPLATES.map(({ key }) => [key, getTemplate(config, key)]),
+  ) as Record<MessageTemplateKey, string | null>;
 
   return (
     <main className="flex-1 overflow-y-auto px-4 py-8 sm:px-8">
@@ -29,16 +48,16 @@ export default async function MessagesSettingsPage() {
             Mensagens WhatsApp
           </h1>
           <p className="text-sm text-foreground-muted">
-            Configure as mensagens padrão enviadas aos clientes ao aprovar ou
-            recusar pedidos.
+            Configure as mensagens enviadas aos clientes em cada etapa do
+            pedido.
           </p>
         </div>
 
+        {/* ── PIX key ({pix} placeholder) ──────────────────────────────── */}
+        <PixKeyForm initialPixKey={pixKey} />
+
         {/* ── Form ─────────────────────────────────────────────────────── */}
-        <MessagesForm
-          initialApproval={config?.approvalMessage ?? null}
-          initialRejection={config?.rejectionMessage ?? null}
-        />
+        <MessagesForm initialTemplates={initialTemplates} preview={preview} />
       </div>
     </main>
   );
@@ -13,23 +13,34 @@ import {
   getStoreWhatsappUseCase,
   getStorePickupAddressUseCase,
   getStoreIdentityUseCase,
+  getDepositPercentageUseCase,
   storeRepo,
 } from "@/infra/composition";
 import { DeliverySettings } from "./_components/DeliverySettings";
 import { StoreInfoSettings } from "./_components/StoreInfoSettings";
 import { ContactSettings } from "./_components/ContactSettings";
+import { StaffSettings } from "./_components/StaffSettings";
+import { Permission, hasPermission } from "@/domain/auth/StaffRole";
+import { PaymentSettings } from "./_components/PaymentSettings";
 
 export default async function SettingsPage() {
   const session = await getSession();
 
-  const [ranges, currentWhatsapp, pickupAddress, defaultDeliveryFee, identity] =
-    await Promise.all([
-      getCepRangeUseCase.execute(session.storeId),
-      getStoreWhatsappUseCase.execute(session.storeId),
-      getStorePickupAddressUseCase.execute(session.storeId),
-      storeRepo.findDefaultDeliveryFee(session.storeId),
-      getStoreIdentityUseCase.execute(session.storeId),
-    ]);
+  const [
+    ranges,
+    currentWhatsapp,
+    pickupAddress,
+    defaultDeliveryFee,
+    identity,
+    depositPercentage,
+  ] = await Promise.all([
+    getCepRangeUseCase.execute(session.storeId),
+    getStoreWhatsappUseCase.execute(session.storeId),
+    getStorePickupAddressUseCase.execute(session.storeId),
+    storeRepo.findDefaultDeliveryFee(session.storeId),
+    getStoreIdentityUseCase.execute(session.storeId),
+    getDepositPercentageUseCase.execute(session.storeId),
+  ]);
 
   return (
     <main className="flex-1 overflow-y-auto px-4 py-8 sm:px-8">
@@ -56,6 +67,9 @@ export default async function SettingsPage() {
           defaultDeliveryFee={defaultDeliveryFee}
         />
 
+        {/* ── Pagamento ────────────────────────────────────────────────────── */}
+        <PaymentSettings depositPercentage={depositPercentage} />
+
         {/* ── Informações da loja ──────────────────────────────────────────── */}
         <StoreInfoSettings
           currentWhatsapp={currentWhatsapp}
@@ -65,6 +79,11 @@ export default async function SettingsPage() {
 
         {/* ── Mensagens ───────────────────────────────────────────────────── */}
         <ContactSettings />
+
+        {/* ── Usuários ────────────────────────────────────────────────────── */}
+        {hasPermission(session.role, Permission.MANAGE_STAFF) && (
+          <StaffSettings />
+        )}
       </div>
     </main>
   );
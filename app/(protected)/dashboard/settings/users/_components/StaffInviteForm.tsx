@@ -0,0 +1,137 @@
+"use client";
+
+/**
+ * StaffInviteForm — invites a new user by email and role.
+ *
+ * The invite link is shown once, right after it is created, for the owner
+ * to send (WhatsApp, email…).  Whoever opens it chooses a password and
+ * joins the store with the role.
+ */
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { INVITABLE_ROLES, StaffRole } from "@/domain/auth/StaffRole";
+import { STAFF_INVITE_TTL_DAYS } from "@/domain/auth/Staff";
+import { inviteStaff } from "../actions";
+import { ROLE_DESCRIPTIONS, ROLE_LABELS } from "./roleLabels";
+
+const inputClass =
+  "w-full rounded-md border border-line bg-surface px-3 py-1.5 text-sm text-foreground focus:border-accent focus:outline-none";
+
+const labelClass =
+  "block text-xs font-medium uppercase tracking-wide text-foreground-muted";
+
+export function StaffInviteForm() {
+  const router = useRouter();
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<StaffRole>(StaffRole.KITCHEN);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+  const [link, setLink] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setLoading(true);
+    setError("");
+    setLink(null);
+    setCopied(false);
+    const result = await inviteStaff(email, role);
+    setLoading(false);
+    if (!result.success) {
+      setError(result.error);
+      return;
+    }
+    setLink(result.link);
+    setEmail("");
+    router.refresh();
+  }
+
+  async function handleCopy() {
+    if (!link) return;
+    await navigator.clipboard.writeText(link);
+    setCopied(true);
+  }
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="rounded-lg border border-line bg-surface p-4 space-y-4"
+    >
+      <h2 className="text-base font-semibold text-foreground">
+        Convidar usuário
+      </h2>
+
+      <div className="grid gap-3 sm:grid-cols-2">
+        <div className="space-y-1">
+          <label htmlFor="invite-email" className={labelClass}>
+            E-mail
+          </label>
+          <input
+            id="invite-email"
+            type="email"
+            required
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            placeholder="pessoa@exemplo.com"
+            className={inputClass}
+          />
+        </div>
+        <div className="space-y-1">
+          <label htmlFor="invite-role" className={labelClass}>
+            Função
+          </label>
+          <select
+            id="invite-role"
+            value={role}
+            onChange={(e) => setRole(e.target.value as StaffRole)}
+            className={inputClass}
+          >
+            {INVITABLE_ROLES.map((r) => (
+              <option key={r} value={r}>
+                {ROLE_LABELS[r]}
+              </option>
+            ))}
+          </select>
+          <p className="text-xs text-foreground-muted">
+            {ROLE_DESCRIPTIONS[role]}
+          </p>
+        </div>
+      </div>
+
+      {error && <p className="text-xs text-danger">{error}</p>}
+
+      {link && (
+        <div className="space-y-2 rounded-md border border-line bg-surface-subtle p-3">
+          <p className="text-sm text-foreground">
+            Convite criado. Envie este link para a pessoa — ele vale por{" "}
+            {STAFF_INVITE_TTL_DAYS} dias e não será mostrado de novo.
+          </p>
+          <div className="flex gap-2">
+            <input
+              readOnly
+              value={link}
+              onFocus={(e) => e.target.select()}
+              className={`${inputClass} font-mono text-xs`}
+            />
+            <button
+              type="button"
+              onClick={handleCopy}
+              className="shrink-0 rounded-md border border-line bg-surface px-3 py-1.5 text-sm font-medium text-foreground hover:bg-surface-hover transition-colors"
+            >
+              {copied ? "Copiado" : "Copiar"}
+            </button>
+          </div>
+        </div>
+      )}
+
+      <button
+        type="submit"
+        disabled={loading}
+        className="rounded-md bg-accent px-4 py-1.5 text-sm font-medium text-white hover:bg-accent/90 disabled:opacity-50 transition-colors"
+      >
+        {loading ? "Criando..." : "Criar convite"}
+      </button>
+    </form>
+  );
+}
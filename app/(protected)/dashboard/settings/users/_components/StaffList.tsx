@@ -0,0 +1,200 @@
+"use client";
+
+/**
+ * StaffList — the store's users and pending invites.
+ *
+ * The owner changes roles, removes users and cancels invites; their own row
+ * and the owner's are read-only.  A removal signs the user out at once; a
+ * role change applies when their access token is next renewed.  Mutations
+ * go through the users server actions, which revalidate the page.
+ */
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { INVITABLE_ROLES, StaffRole } from "@/domain/auth/StaffRole";
+import type { StaffInvite, StaffMember } from "@/domain/auth/Staff";
+import {
+  changeStaffRole,
+  removeStaffMember,
+  revokeStaffInvite,
+  type StaffActionResult,
+} from "../actions";
+import { ROLE_LABELS } from "./roleLabels";
+
+const fmtDate = (d: Date) =>
+  d.toLocaleDateString("pt-BR", { timeZone: "America/Sao_Paulo" });
+
+// ─── StaffList ────────────────────────────────────────────────────────────────
+
+interface StaffListProps {
+  members: StaffMember[];
+  invites: StaffInvite[];
+  /** The signed-in user. */
+  currentAdminId: string;
+}
+
+export function StaffList({
+  members,
+  invites,
+  currentAdminId,
+}: StaffListProps) {
+  return (
+    <div className="space-y-6">
+      <section className="space-y-2">
+        <h2 className="text-base font-semibold text-foreground">Usuários</h2>
+        <ul className="space-y-2">
+          {members.map((member) => (
+            <MemberRow
+              key={member.id}
+              member={member}
+              editable={
+                member.id !== currentAdminId && member.role !== StaffRole.OWNER
+              }
+            />
+          ))}
+        </ul>
+      </section>
+
+      <section className="space-y-2">
+        <h2 className="text-base font-semibold text-foreground">
+          Convites pendentes
+        </h2>
+        {invites.length === 0 ? (
+          <p className="text-sm text-foreground-muted italic">
+            Nenhum convite pendente.
+          </p>
+        ) : (
+          <ul className="space-y-2">
+            {invites.map((invite) => (
+              <InviteRow key={invite.id} invite={invite} />
+            ))}
+          </ul>
+        )}
+      </section>
+    </div>
+  );
+}
+
+// ─── Shared ───────────────────────────────────────────────────────────────────
+
+/** Runs a server action, refreshing on success and keeping the error. */
+function useStaffAction() {
+  const router = useRouter();
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  async function run(action: () => Promise<StaffActionResult>) {
+    setLoading(true);
+    setError("");
+    const result = await action();
+    setLoading(false);
+    if (!result.success) {
+      setError(result.error);
+      return;
+    }
+    router.refresh();
+  }
+
+  return { loading, error, run };
+}
+
+// ─── MemberRow ────────────────────────────────────────────────────────────────
+
+function MemberRow({
+  member,
+  editable,
+}: {
+  member: StaffMember;
+  editable: boolean;
+}) {
+  const { loading, error, run } = useStaffAction();
+
+  function handleRemove() {
+    if (!confirm(`Remover o acesso de ${member.email}?`)) return;
+    run(() => removeStaffMember(member.id));
+  }
+
+  return (
+    <li className="flex flex-col gap-1">
+      <div className="flex items-center justify-between gap-3 rounded-lg border border-line bg-surface px-4 py-3">
+        <div className="min-w-0 flex-1">
+          <p className="truncate text-sm font-medium text-foreground">
+            {member.email}
+          </p>
+          <p className="text-xs text-foreground-muted">
+            Desde {fmtDate(member.createdAt)}
+          </p>
+        </div>
+        {editable ? (
+          <>
+            <select
+              aria-label={`Função de ${member.email}`}
+              value={member.role}
+              disabled={loading}
+              onChange={(e) =>
+                run(() =>
+                  changeStaffRole(member.id, e.target.value as StaffRole),
+                )
+              }
+              className="shrink-0 rounded-md border border-line bg-surface px-2 py-1 text-sm text-foreground focus:border-accent focus:outline-none disabled:opacity-50"
+            >
+              {INVITABLE_ROLES.map((r) => (
+                <option key={r} value={r}>
+                  {ROLE_LABELS[r]}
+                </option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={handleRemove}
+              disabled={loading}
+              className="shrink-0 rounded-full px-3 py-1 text-xs font-medium text-foreground-muted hover:bg-red-50 hover:text-red-700 transition-colors disabled:opacity-50"
+            >
+              Remover
+            </button>
+          </>
+        ) : (
+          <span className="shrink-0 rounded-full bg-accent/15 px-2 py-0.5 text-xs font-medium text-accent">
+            {ROLE_LABELS[member.role]}
+          </span>
+        )}
+      </div>
+      {error && <p className="px-1 text-xs text-danger">{error}</p>}
+    </li>
+  );
+}
+
+// ─── InviteRow ────────────────────────────────────────────────────────────────
+
+function InviteRow({ invite }: { invite: StaffInvite }) {
+  const { loading, error, run } = useStaffAction();
+
+  function handleRevoke() {
+    if (!confirm(`Cancelar o convite de ${invite.email}?`)) return;
+    run(() => revokeStaffInvite(invite.id));
+  }
+
+  return (
+    <li className="flex flex-col gap-1">
+      <div className="flex items-center justify-between gap-3 rounded-lg border border-line bg-surface px-4 py-3">
+        <div className="min-w-0 flex-1">
+          <p className="truncate text-sm font-medium text-foreground">
+            {invite.email}
+          </p>
+          <p className="text-xs text-foreground-muted">
+            {ROLE_LABELS[invite.role]} · expira em {fmtDate(invite.expiresAt)}
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={handleRevoke}
+          disabled={loading}
+          className="shrink-0 rounded-full px-3 py-1 text-xs font-medium text-foreground-muted hover:bg-red-50 hover:text-red-700 transition-colors disabled:opacity-50"
+        >
+          Cancelar
+        </button>
+      </div>
+      {error && <p className="px-1 text-xs text-danger">{error}</p>}
+    </li>
+  );
+}
@@ -0,0 +1,15 @@
+import { StaffRole } from "@/domain/auth/StaffRole";
+
+export const ROLE_LABELS: Record<StaffRole, string> = {
+  OWNER: "Dono",
+  MANAGER: "Gerente",
+  KITCHEN: "Cozinha",
+  DELIVERY: "Entregador",
+};
+
+export const ROLE_DESCRIPTIONS: Record<StaffRole, string> = {
+  OWNER: "Acesso completo, incluindo os usuários da loja.",
+  MANAGER: "Acesso completo, exceto os usuários da loja.",
+  KITCHEN: "Somente a produção do dia e o checklist.",
+  DELIVERY: "Somente as entregas do dia.",
+};
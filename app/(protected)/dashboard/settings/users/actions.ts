@@ -0,0 +1,106 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { getActionSession } from "@/infra/http/auth/getSession";
+import {
+  appUrl,
+  inviteStaffUseCase,
+  changeStaffRoleUseCase,
+  removeStaffMemberUseCase,
+  revokeStaffInviteUseCase,
+} from "@/infra/composition";
+import { Permission, type StaffRole } from "@/domain/auth/StaffRole";
+import { AppError } from "@/shared/errors/AppError";
+
+export type StaffActionResult =
+  { success: true } | { success: false; error: string };
+
+/**
+ * Invites a new user.  The link is returned once for the owner to share —
+ * only its hash is stored, so it cannot be shown again.
+ */
+export async function inviteStaff(
+  email: string,
+  role: StaffRole,
+): Promise<
+  { success: true; link: string } | { success: false; error: string }
+> {
+  try {
+    const session = await getActionSession(Permission.MANAGE_STAFF);
+    const { token } = await inviteStaffUseCase.execute({
+      storeId: session.storeId,
+      invitedById: session.adminId,
+      email,
+      role,
+    });
+    revalidatePath("/dashboard/settings/users");
+    return { success: true, link: `${appUrl}/convite/${token}` };
+  } catch (err) {
+    const message =
+      err instanceof AppError
+        ? err.message
+        : "Não foi possível criar o convite. Tente novamente.";
+    return { success: false, error: message };
+  }
+}
+
+export async function changeStaffRole(
+  memberId: string,
+  role: StaffRole,
+): Promise<StaffActionResult> {
+  try {
+    const session = await getActionSession(Permission.MANAGE_STAFF);
+    await changeStaffRoleUseCase.execute({
+      storeId: session.storeId,
+      actorId: session.adminId,
+      memberId,
+      role,
+    });
+    revalidatePath("/dashboard/settings/users");
+    return { success: true };
+  } catch (err) {
+    const message =
+      err instanceof AppError
+        ? err.message
+        : "Não foi possível alterar a função. Tente novamente.";
+    return { success: false, error: message };
+  }
+}
+
+export async function removeStaffMember(
+  memberId: string,
+): Promise<StaffActionResult> {
+  try {
+    const session = await getActionSession(Permission.MANAGE_STAFF);
+    await removeStaffMemberUseCase.execute(
+      memberId,
+      session.storeId,
+      session.adminId,
+    );
+    revalidatePath("/dashboard/settings/users");
+    return { success: true };
+  } catch (err) {
+    const message =
+      err instanceof AppError
+        ? err.message
+        : "Não foi possível remover o usuário. Tente novamente.";
+    return { success: false, error: message };
+  }
+}
+
+export async function revokeStaffInvite(
+  inviteId: string,
+): Promise<StaffActionResult> {
+  try {
+    const session = await getActionSession(Permission.MANAGE_STAFF);
+    await revokeStaffInviteUseCase.execute(inviteId, session.storeId);
+    revalidatePath("/dashboard/settings/users");
+    return { success: true };
+  } catch (err) {
+    const message =
+      err instanceof AppError
+        ? err.message
+        : "Não foi possível cancelar o convite. Tente novamente.";
+    return { success: false, error: message };
+  }
+}
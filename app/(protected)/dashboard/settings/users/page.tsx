@@ -0,0 +1,41 @@
+/**
+ * /dashboard/settings/users — Server Component.
+ * The store's users and pending invites, managed by the owner only
+ * (Permission.MANAGE_STAFF).
+ */
+
+import type { Metadata } from "next";
+import { getSession } from "@/infra/http/auth/getSession";
+import { listStaffUseCase } from "@/infra/composition";
+import { Permission } from "@/domain/auth/StaffRole";
+import { PageHeader } from "../../_components/PageHeader";
+import { StaffInviteForm } from "./_components/StaffInviteForm";
+import { StaffList } from "./_components/StaffList";
+
+export const metadata: Metadata = { title: "Usuários" };
+
+export default async function StaffUsersPage() {
+  const session = await getSession(Permission.MANAGE_STAFF);
+  const { members, invites } = await listStaffUseCase.execute(session.storeId);
+
+  return (
+    <div className="flex flex-col gap-0">
+      <PageHeader
+        eyebrow="Configurações"
+        title="Usuários"
+        description="Dê acesso ao painel para sua equipe, cada um com a sua função."
+      />
+
+      <div className="p-6 md:p-8">
+        <div className="mx-auto max-w-3xl space-y-8">
+          <StaffInviteForm />
+          <StaffList
+            members={members}
+            invites={invites}
+            currentAdminId={session.adminId}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
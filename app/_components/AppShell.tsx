@@ -19,6 +19,7 @@ import type { ReactNode } from "react";
 import { Header } from "./Header";
 import { Sidebar } from "./Sidebar";
 import { CopyCatalogLinkButton } from "./CopyCatalogLinkButton";
+import type { StaffRole } from "@/domain/auth/StaffRole";
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
@@ -28,11 +29,18 @@ interface AppShellProps {
   storeName?: string;
   /** Store URL slug — when present, a copy-catalog-link button is shown in the header */
   storeSlug?: string;
+  /** Signed-in user's role — the sidebar lists only what it may open */
+  role: StaffRole;
 }
 
 // ─── Component ────────────────────────────────────────────────────────────────
 
-export function AppShell({ children, storeName, storeSlug }: AppShellProps) {
+export function AppShell({
+  children,
+  storeName,
+  storeSlug,
+  role,
+}: AppShellProps) {
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
 
   // Stable references — prevent Sidebar's useEffect from re-running
@@ -46,7 +54,7 @@ export function AppShell({ children, storeName, storeSlug }: AppShellProps) {
      */
     <div className="flex h-dvh overflow-hidden bg-surface-subtle">
       {/* ── Sidebar ──────────────────────────────────────────────────────── */}
-      <Sidebar isOpen={isSidebarOpen} onClose={closeSidebar} />
+      <Sidebar isOpen={isSidebarOpen} onClose={closeSidebar} role={role} />
 
       {/*
        * ── Main area ───────────────────────────────────────────────────────
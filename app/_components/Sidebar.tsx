@@ -19,22 +19,35 @@ import { usePathname, useRouter } from "next/navigation";
 import { useEffect } from "react";
 import { NavItem } from "./NavItem";
 import { NavGroup } from "./NavGroup";
+import {
+  Permission,
+  hasPermission,
+  type StaffRole,
+} from "@/domain/auth/StaffRole";
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
 interface SidebarProps {
   isOpen: boolean;
   onClose: () => void;
+  /** Entries the role has no permission for are left out */
+  role: StaffRole;
 }
 
 // ─── Nav items config ─────────────────────────────────────────────────────────
 
-type NavEntry = { label: string; href: string; icon: React.ReactNode };
+type NavEntry = {
+  label: string;
+  href: string;
+  icon: React.ReactNode;
+  permission: Permission;
+};
 
 const NAV_ITEMS: NavEntry[] = [
   {
     label: "Início",
     href: "/dashboard",
+    permission: Permission.MANAGE_STORE,
     icon: (
       <svg
         xmlns="http://www.w3.org/2000/svg"
@@ -55,6 +68,7 @@ const NAV_ITEMS: NavEntry[] = [
   {
     label: "Encomendas",
     href: "/dashboard/orders",
+    permission: Permission.MANAGE_STORE,
     icon: (
       <svg
         xmlns="http://www.w3.org/2000/svg"
@@ -75,6 +89,7 @@ const NAV_ITEMS: NavEntry[] = [
   {
     label: "Produção",
     href: "/dashboard/production",
+    permission: Permission.PRODUCTION,
     icon: (
       <svg
         xmlns="http://www.w3.org/2000/svg"
@@ -92,9 +107,31 @@ const NAV_ITEMS: NavEntry[] = [
       </svg>
     ),
   },
+  {
+    label: "Entregas",
+    href: "/dashboard/deliveries",
+    permission: Permission.DELIVERIES,
+    icon: (
+      <svg
+        xmlns="http://www.w3.org/2000/svg"
+        fill="none"
+        viewBox="0 0 24 24"
+        strokeWidth={1.5}
+        stroke="currentColor"
+        className="h-5 w-5"
+      >
+        <path
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          d="M8.25 18.75a1.5 1.5 0 0 1-3 0m3 0a1.5 1.5 0 0 0-3 0m3 0h6m-9 0H3.375a1.125 1.125 0 0 1-1.125-1.125V14.25m17.25 4.5a1.5 1.5 0 0 1-3 0m3 0a1.5 1.5 0 0 0-3 0m3 0h1.125c.621 0 1.129-.504 1.09-1.124a17.902 17.902 0 0 0-3.213-9.193 2.056 2.056 0 0 0-1.58-.86H14.25M16.5 18.75h-2.25m0-11.177v-.958c0-.568-.422-1.048-.987-1.106a48.554 48.554 0 0 0-10.026 0 1.106 1.106 0 0 0-.987 1.106v7.635m12-6.677v6.677m0 4.5v-4.5m0 0h-12"
+        />
+      </svg>
+    ),
+  },
   {
     label: "Clientes",
     href: "/dashboard/customers",
+    permission: Permission.MANAGE_STORE,
     icon: (
       <svg
         xmlns="http://www.w3.org/2000/svg"
@@ -115,6 +152,7 @@ const NAV_ITEMS: NavEntry[] = [
   {
     label: "Agenda",
     href: "/dashboard/agenda",
+    permission: Permission.MANAGE_STORE,
     icon: (
       <svg
         xmlns="http://www.w3.org/2000/svg"
@@ -132,9 +170,31 @@ const NAV_ITEMS: NavEntry[] = [
       </svg>
     ),
   },
+  {
+    label: "Cupons",
+    href: "/dashboard/coupons",
+    permission: Permission.MANAGE_STORE,
+    icon: (
+      <svg
+        xmlns="http://www.w3.org/2000/svg"
+        fill="none"
+        viewBox="0 0 24 24"
+        strokeWidth={1.5}
+        stroke="currentColor"
+        className="h-5 w-5"
+      >
+        <path
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          d="M16.5 6v.75m0 3v.75m0 3v.75m0 3V18m-9-5.25h5.25M7.5 15h3M3.375 5.25c-.621 0-1.125.504-1.125 1.125v3.026a2.999 2.999 0 0 1 0 5.198v3.026c0 .621.504 1.125 1.125 1.125h17.25c.621 0 1.125-.504 1.125-1.125v-3.026a2.999 2.999 0 0 1 0-5.198V6.375c0-.621-.504-1.125-1.125-1.125H3.375Z"
+        />
+      </svg>
+    ),
+  },
   {
     label: "Configurações",
     href: "/dashboard/settings",
+    permission: Permission.MANAGE_STORE,
     icon: (
       <svg
         xmlns="http://www.w3.org/2000/svg"
@@ -198,7 +258,7 @@ function BrandMark() {
 
 // ─── Component ────────────────────────────────────────────────────────────────
 
-export function Sidebar({ isOpen, onClose }: SidebarProps) {
+export function Sidebar({ isOpen, onClose, role }: SidebarProps) {
   const pathname = usePathname();
   const router = useRouter();
 
@@ -213,6 +273,9 @@ export function Sidebar({ isOpen, onClose }: SidebarProps) {
     // onClose is stable (useCallback in AppShell), so it's safe to include
   }, [pathname, onClose]);
 
+  const can = (permission: Permission) => hasPermission(role, permission);
+  const mainItems = MAIN_NAV_ITEMS.filter((item) => can(item.permission));
+
   /**
    * Active match: exact for /dashboard, prefix for everything else.
    * This prevents /dashboard from staying active on /dashboard/products.
@@ -266,7 +329,7 @@ export function Sidebar({ isOpen, onClose }: SidebarProps) {
         >
           {/* Main nav group */}
           <ul role="list" className="space-y-0.5">
-            {MAIN_NAV_ITEMS.map((item) => (
+            {mainItems.map((item) => (
               <li key={item.href}>
                 <NavItem
                   {...item}
@@ -275,49 +338,78 @@ export function Sidebar({ isOpen, onClose }: SidebarProps) {
                 />
               </li>
             ))}
-            <NavGroup
-              label="Catálogo"
-              icon={
-                <svg
-                  xmlns="http://www.w3.org/2000/svg"
-                  fill="none"
-                  viewBox="0 0 24 24"
-                  strokeWidth={1.5}
-                  stroke="currentColor"
-                  className="h-5 w-5"
-                >
-                  <path
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                    d="m20.25 7.5-.625 10.632a2.25 2.25 0 0 1-2.247 2.118H6.622a2.25 2.25 0 0 1-2.247-2.118L3.75 7.5M10 11.25h4M3.375 7.5h17.25c.621 0 1.125-.504 1.125-1.125v-1.5c0-.621-.504-1.125-1.125-1.125H3.375c-.621 0-1.125.504-1.125 1.125v1.5c0 .621.504 1.125 1.125 1.125Z"
-                  />
-                </svg>
-              }
-              children={[
-                { label: "Produtos", href: "/dashboard/products" },
-                { label: "Categorias", href: "/dashboard/categories" },
-              ]}
-              onClick={onClose}
-            />
-          </ul>
-
-          {/* Divider */}
-          <div className="my-4 border-t border-line" />
-
-          {/* Settings — separated at bottom of nav */}
-          <ul role="list">
-            <li>
-              <NavItem
-                {...SETTINGS_ITEM}
-                isActive={isItemActive(SETTINGS_ITEM.href)}
+            {can(Permission.MANAGE_STORE) && (
+              <NavGroup
+                label="Catálogo"
+                icon={
+                  <svg
+                    xmlns="http://www.w3.org/2000/svg"
+                    fill="none"
+                    viewBox="0 0 24 24"
+                    strokeWidth={1.5}
+                    stroke="currentColor"
+                    className="h-5 w-5"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      d="m20.25 7.5-.625 10.632a2.25 2.25 0 0 1-2.247 2.118H6.622a2.25 2.25 0 0 1-2.247-2.118L3.75 7.5M10 11.25h4M3.375 7.5h17.25c.621 0 1.125-.504 1.125-1.125v-1.5c0-.621-.504-1.125-1.125-1.125H3.375c-.621 0-1.125.504-1.125 1.125v1.5c0 .621.504 1.125 1.125 1.125Z"
+                    />
+                  </svg>
+                }
+                children={[
+                  { label: "Produtos", href: "/dashboard/products" },
+                  { label: "Categorias", href: "/dashboard/categories" },
+                ]}
                 onClick={onClose}
               />
-            </li>
+            )}
           </ul>
+
+          {can(SETTINGS_ITEM.permission) && (
+            <>
+              {/* Divider */}
+              <div className="my-4 border-t border-line" />
+
+              {/* Settings — separated at bottom of nav */}
+              <ul role="list">
+                <li>
+                  <NavItem
+                    {...SETTINGS_ITEM}
+                    isActive={isItemActive(SETTINGS_ITEM.href)}
+                    onClick={onClose}
+                  />
+                </li>
+              </ul>
+            </>
+          )}
         </nav>
 
         {/* Footer */}
         <div className="shrink-0 border-t border-line px-4 py-3 space-y-3">
+          {/* Password and sessions — every role */}
+          <NavItem
+            label="Minha conta"
+            href="/dashboard/account"
+            isActive={isItemActive("/dashboard/account")}
+            onClick={onClose}
+            icon={
+              <svg
+                xmlns="http://www.w3.org/2000/svg"
+                fill="none"
+                viewBox="0 0 24 24"
+                strokeWidth={1.5}
+                stroke="currentColor"
+                className="h-5 w-5"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  d="M17.982 18.725A7.488 7.488 0 0 0 12 15.75a7.488 7.488 0 0 0-5.982 2.975m11.963 0a9 9 0 1 0-11.963 0m11.963 0A8.966 8.966 0 0 1 12 21a8.966 8.966 0 0 1-5.982-2.275M15 9.75a3 3 0 1 1-6 0 3 3 0 0 1 6 0Z"
+                />
+              </svg>
+            }
+          />
           <button
             onClick={handleLogout}
             className="flex w-full items-center gap-2.5 rounded-lg px-3 py-2 text-sm font-medium text-foreground-muted hover:bg-[rgb(var(--color-bg-muted))] hover:text-foreground transition-colors"
@@ -1,6 +1,7 @@
 "use client";
 
 import { useState, type FormEvent } from "react";
+import Link from "next/link";
 import { useRouter, useSearchParams } from "next/navigation";
 
 export default function AdminLoginForm() {
@@ -40,8 +41,18 @@ export default function AdminLoginForm() {
     }
   }
 
+  const passwordReset = searchParams.get("senha") === "redefinida";
+
   return (
     <form onSubmit={handleSubmit} noValidate className="space-y-5">
+      {passwordReset && !error && (
+        <div
+          role="status"
+          className="rounded-xl border border-slate-200 bg-slate-50 px-4 py-3 text-sm text-slate-700"
+        >
+          Senha alterada. Entre com a nova senha.
+        </div>
+      )}
       {error && (
         <div
           role="alert"
@@ -98,6 +109,14 @@ export default function AdminLoginForm() {
           className="w-full rounded-xl border border-slate-200 bg-white px-4 py-2.5 text-sm text-slate-900 placeholder:text-slate-400 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500/20 transition"
           placeholder="••••••••"
         />
+        <p className="text-right">
+          <Link
+            href="/admin/login/esqueci-senha"
+            className="text-xs font-medium text-slate-500 hover:text-slate-900"
+          >
+            Esqueceu a senha?
+          </Link>
+        </p>
       </div>
 
       <button
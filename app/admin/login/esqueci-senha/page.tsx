@@ -0,0 +1,38 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import AdminForgotPasswordForm from "./_components/AdminForgotPasswordForm";
+
+export const metadata: Metadata = {
+  title: "Admin — Esqueci minha senha",
+  robots: { index: false },
+};
+
+export default function AdminForgotPasswordPage() {
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-slate-50 px-4">
+      <div className="w-full max-w-sm">
+        <div className="mb-8 text-center">
+          <h1 className="text-2xl font-bold tracking-tight text-slate-900">
+            Esqueci minha senha
+          </h1>
+          <p className="mt-1 text-sm text-slate-500">
+            Enviaremos um link para o e-mail da conta de administração.
+          </p>
+        </div>
+
+        <div className="rounded-2xl border border-slate-200 bg-white p-8 shadow-sm">
+          <AdminForgotPasswordForm />
+        </div>
+
+        <p className="mt-6 text-center">
+          <Link
+            href="/admin/login"
+            className="text-sm font-medium text-slate-600 hover:text-slate-900"
+          >
+            Voltar para o login
+          </Link>
+        </p>
+      </div>
+    </div>
+  );
+}
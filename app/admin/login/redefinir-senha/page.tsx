@@ -0,0 +1,44 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import AdminResetPasswordForm from "./_components/AdminResetPasswordForm";
+
+export const metadata: Metadata = {
+  title: "Admin — Nova senha",
+  robots: { index: false },
+};
+
+interface Props {
+  searchParams: Promise<{ token?: string }>;
+}
+
+export default async function AdminResetPasswordPage({ searchParams }: Props) {
+  const { token } = await searchParams;
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-slate-50 px-4">
+      <div className="w-full max-w-sm">
+        <div className="mb-8 text-center">
+          <h1 className="text-2xl font-bold tracking-tight text-slate-900">
+            Criar nova senha
+          </h1>
+          <p className="mt-1 text-sm text-slate-500">
+            Super Admin — plataforma Encomenda Zap
+          </p>
+        </div>
+
+        <div className="rounded-2xl border border-slate-200 bg-white p-8 shadow-sm">
+          <AdminResetPasswordForm token={token ?? ""} />
+        </div>
+
+        <p className="mt-6 text-center">
+          <Link
+            href="/admin/login/esqueci-senha"
+            className="text-sm font-medium text-slate-600 hover:text-slate-900"
+          >
+            Pedir um novo link
+          </Link>
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,3 @@
+import { superAdminAuthController } from "@/infra/composition";
+
+export const POST = superAdminAuthController.resetPassword;
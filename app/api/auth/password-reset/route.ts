@@ -0,0 +1,3 @@
+import { authController } from "@/infra/composition";
+
+export const POST = authController.requestPasswordReset;
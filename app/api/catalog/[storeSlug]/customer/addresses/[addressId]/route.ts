@@ -0,0 +1,3 @@
+import { customerAccountController } from "@/infra/composition";
+
+export const DELETE = customerAccountController.deleteAddress;
@@ -0,0 +1,4 @@
+import { customerAccountController } from "@/infra/composition";
+
+export const GET = customerAccountController.listAddresses;
+export const POST = customerAccountController.addAddress;
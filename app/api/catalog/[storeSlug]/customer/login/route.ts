@@ -0,0 +1,3 @@
+import { customerAuthController } from "@/infra/composition";
+
+export const POST = customerAuthController.login;
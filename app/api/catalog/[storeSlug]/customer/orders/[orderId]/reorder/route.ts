@@ -0,0 +1,3 @@
+import { customerAccountController } from "@/infra/composition";
+
+export const POST = customerAccountController.reorder;
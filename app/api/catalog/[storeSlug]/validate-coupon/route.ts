@@ -0,0 +1,8 @@
+import { couponController } from "@/infra/composition";
+
+export async function POST(
+  req: Request,
+  ctx: { params: Promise<{ storeSlug: string }> },
+) {
+  return couponController.validatePublic(req, ctx);
+}
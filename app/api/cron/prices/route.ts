@@ -0,0 +1,15 @@
+import { priceScheduleController } from "@/infra/composition";
+
+/**
+ * GET /api/cron/prices
+ *
+ * Called by the scheduler (e.g. Vercel Cron), ideally every hour.  Writes
+ * scheduled prices that came into effect into their products and retires
+ * ended promos.  Prices shown and charged never wait for it.
+ *
+ * Header: Authorization: Bearer <CRON_SECRET>
+ *
+ * 200 → { success: true, data: { applied, expired } }
+ * 401 → missing / wrong secret
+ */
+export const GET = priceScheduleController.settle;
@@ -0,0 +1,14 @@
+import { notificationCronController } from "@/infra/composition";
+
+/**
+ * GET /api/cron/reminders
+ *
+ * Called once a day by the scheduler (e.g. Vercel Cron).  Sends the
+ * day-before reminder to every customer with an approved order for tomorrow.
+ *
+ * Header: Authorization: Bearer <CRON_SECRET>
+ *
+ * 200 → { success: true, data: { date, sent, failed, skipped } }
+ * 401 → missing / wrong secret
+ */
+export const GET = notificationCronController.sendReminders;
@@ -4,7 +4,9 @@ import { placeOrderController } from "@/infra/composition";
  * POST /api/orders
  *
  * Public endpoint — no authentication required.
- * Creates a new order atomically: upserts customer → creates order → creates items.
+ * Creates a new order atomically: upserts customer → creates order → creates items,
+ * all in one transaction.  Replaying a request with the same idempotencyKey
+ * returns the original order (201, same body) instead of creating a duplicate.
  *
  * Request body:
  * {
@@ -28,7 +30,8 @@ import { placeOrderController } from "@/infra/composition";
  *   deliveryNumber:       string,
  *   deliveryNeighborhood: string,
  *   deliveryCity:         string,
- *   deliveryDate:         string          // ISO 8601 — must be a future date
+ *   deliveryDate:         string,         // ISO 8601 — must be a future date
+ *   idempotencyKey?:      string | null   // one per cart session, max 100 chars
  * }
  *
  * 201 Created  → { success: true, data: PlaceOrderOutput }
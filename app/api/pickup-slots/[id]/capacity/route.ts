@@ -0,0 +1,3 @@
+import { storePickupSlotController } from "@/infra/composition";
+
+export const PUT = storePickupSlotController.updateCapacity;
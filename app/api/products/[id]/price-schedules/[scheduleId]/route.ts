@@ -0,0 +1,6 @@
+import { priceScheduleController } from "@/infra/composition";
+
+export const dynamic = "force-dynamic";
+
+// DELETE /api/products/:id/price-schedules/:scheduleId
+export const DELETE = priceScheduleController.delete;
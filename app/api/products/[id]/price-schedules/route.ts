@@ -0,0 +1,6 @@
+import { priceScheduleController } from "@/infra/composition";
+
+export const dynamic = "force-dynamic";
+
+// POST /api/products/:id/price-schedules
+export const POST = priceScheduleController.create;
@@ -0,0 +1,6 @@
+import { productStockController } from "@/infra/composition";
+
+export const dynamic = "force-dynamic";
+
+// POST /api/products/:id/stock
+export const POST = productStockController.adjust;
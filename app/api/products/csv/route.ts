@@ -0,0 +1,8 @@
+import { productCsvController } from "@/infra/composition";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/products/csv — export
+export const GET = productCsvController.export;
+// POST /api/products/csv — import (dry run unless dryRun: false)
+export const POST = productCsvController.import;
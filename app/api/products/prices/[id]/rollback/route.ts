@@ -0,0 +1,6 @@
+import { priceAdjustmentController } from "@/infra/composition";
+
+export const dynamic = "force-dynamic";
+
+// POST /api/products/prices/:id/rollback
+export const POST = priceAdjustmentController.rollback;
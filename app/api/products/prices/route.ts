@@ -0,0 +1,6 @@
+import { priceAdjustmentController } from "@/infra/composition";
+
+export const dynamic = "force-dynamic";
+
+// POST /api/products/prices — preview (dry run) or apply
+export const POST = priceAdjustmentController.adjust;
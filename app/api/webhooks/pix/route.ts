@@ -0,0 +1,12 @@
+import { pixWebhookController } from "@/infra/composition";
+
+/**
+ * POST /api/webhooks/pix
+ *
+ * Payment notifications of the PIX provider.  A confirmed payment marks the
+ * charge as paid and moves the order to PAID.
+ *
+ * 200 → { success: true, data: { confirmed } }
+ * 401 → signature missing or invalid
+ */
+export const POST = pixWebhookController.receive;
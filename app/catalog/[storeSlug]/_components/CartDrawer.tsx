@@ -1,6 +1,6 @@
 "use client";
 
-import { useEffect, useState, useRef } from "react";
+import { useCallback, useEffect, useState, useRef } from "react";
 import { useRouter } from "next/navigation";
 import {
   readCart,
@@ -10,8 +10,12 @@ import {
   setNotes,
   clearCart,
   cartGrandTotal,
+  itemKey,
 } from "../_lib/cart";
 import type { CartSession } from "../_lib/cart";
+import { formatItemOption } from "@/domain/product/ProductOption";
+import { formatWeight } from "@/shared/utils/formatWeight";
+import { CouponField } from "./cart/CouponField";
 import { CUSTOMER_SESSION_KEY } from "../identificar/_components/CustomerIdentityForm";
 
 // ─── Helpers ──────────────────────────────────────────────────────────────────
@@ -45,6 +49,7 @@ export function CartDrawer({ storeSlug, isOpen, onClose }: CartDrawerProps) {
   const router = useRouter();
   const [cart, setCart] = useState<CartSession | null>(null);
   const notesRef = useRef<HTMLTextAreaElement>(null);
+  const [discount, setDiscount] = useState(0);
 
   // ── Sync cart from sessionStorage on open / on external mutations ──────────
 
@@ -80,14 +85,10 @@ export function CartDrawer({ storeSlug, isOpen, onClose }: CartDrawerProps) {
 
   // ── Handlers ───────────────────────────────────────────────────────────────
 
-  function handleQuantityChange(
-    productId: string,
-    variantId: string | null,
-    newQty: number,
-  ) {
+  function handleQuantityChange(key: string, newQty: number) {
     const current = readCart();
     if (!current) return;
-    const next = updateItemQuantity(current, productId, variantId, newQty, 1);
+    const next = updateItemQuantity(current, key, newQty, 1);
     if (next.items.length === 0) {
       clearCart();
       setCart(null);
@@ -100,10 +101,10 @@ export function CartDrawer({ storeSlug, isOpen, onClose }: CartDrawerProps) {
     window.dispatchEvent(new Event("cart:updated"));
   }
 
-  function handleRemove(productId: string, variantId: string | null) {
+  function handleRemove(key: string) {
     const current = readCart();
     if (!current) return;
-    const next = removeItem(current, productId, variantId);
+    const next = removeItem(current, key);
     if (next.items.length === 0) {
       clearCart();
       setCart(null);
@@ -124,6 +125,12 @@ export function CartDrawer({ storeSlug, isOpen, onClose }: CartDrawerProps) {
     setCart(next);
   }
 
+  // Stable: CouponField re-validates when it changes
+  const handleCouponChange = useCallback((next: CartSession) => {
+    writeCart(next);
+    setCart(next);
+  }, []);
+
   function handleCheckout() {
     // Flush any pending notes before navigating
     const current = readCart();
@@ -144,7 +151,7 @@ export function CartDrawer({ storeSlug, isOpen, onClose }: CartDrawerProps) {
   // ── Render ─────────────────────────────────────────────────────────────────
 
   const items = cart?.items ?? [];
-  const grandTotal = cartGrandTotal(cart);
+  const grandTotal = cartGrandTotal(cart) - discount;
 
   return (
     <>
@@ -214,7 +221,7 @@ export function CartDrawer({ storeSlug, isOpen, onClose }: CartDrawerProps) {
               <ul className="flex flex-col gap-3 mb-5">
                 {items.map((item) => (
                   <li
-                    key={`${item.productId}::${item.variantId ?? ""}`}
+                    key={itemKey(item)}
                     className="flex items-start gap-3 rounded-xl border border-[rgb(var(--color-border))] bg-[rgb(var(--color-bg-muted))] p-3"
                   >
                     {/* Product info */}
@@ -227,6 +234,25 @@ export function CartDrawer({ storeSlug, isOpen, onClose }: CartDrawerProps) {
                           {item.variantLabel}
                         </p>
                       )}
+                      {item.options?.map((option) => (
+                        <p
+                          key={`${option.groupId}:${option.optionId ?? ""}`}
+                          className="mt-0.5 text-xs text-[rgb(var(--color-text-muted))]"
+                        >
+                          {formatItemOption(option)}
+                        </p>
+                      ))}
+                      {item.weightKg && (
+                        <p className="mt-0.5 text-xs text-[rgb(var(--color-text-muted))]">
+                          Peso: {formatWeight(item.weightKg, "kg")} · preço
+                          estimado
+                        </p>
+                      )}
+                      {item.notes && (
+                        <p className="mt-0.5 text-xs italic text-[rgb(var(--color-text-muted))]">
+                          Obs.: {item.notes}
+                        </p>
+                      )}
                       <p className="mt-1 text-xs text-[rgb(var(--color-text-muted))]">
                         {fmt(item.unitPrice)} × {item.quantity} ={" "}
                         <span className="font-semibold text-[rgb(var(--color-text))]">
@@ -243,8 +269,7 @@ export function CartDrawer({ storeSlug, isOpen, onClose }: CartDrawerProps) {
                           aria-label="Diminuir"
                           onClick={() =>
                             handleQuantityChange(
-                              item.productId,
-                              item.variantId,
+                              itemKey(item),
                               item.quantity - 1,
                             )
                           }
@@ -260,8 +285,7 @@ export function CartDrawer({ storeSlug, isOpen, onClose }: CartDrawerProps) {
                           aria-label="Aumentar"
                           onClick={() =>
                             handleQuantityChange(
-                              item.productId,
-                              item.variantId,
+                              itemKey(item),
                               item.quantity + 1,
                             )
                           }
@@ -272,9 +296,7 @@ export function CartDrawer({ storeSlug, isOpen, onClose }: CartDrawerProps) {
                       </div>
                       <button
                         type="button"
-                        onClick={() =>
-                          handleRemove(item.productId, item.variantId)
-                        }
+                        onClick={() => handleRemove(itemKey(item))}
                         className="text-xs text-[rgb(var(--color-text-muted))] hover:text-red-500 transition-colors"
                       >
                         Remover
@@ -308,6 +330,16 @@ export function CartDrawer({ storeSlug, isOpen, onClose }: CartDrawerProps) {
                   ].join(" ")}
                 />
               </div>
+
+              {/* Coupon */}
+              {cart && (
+                <CouponField
+                  storeSlug={storeSlug}
+                  cart={cart}
+                  onCartChange={handleCouponChange}
+                  onDiscountChange={setDiscount}
+                />
+              )}
             </div>
           )}
         </div>
@@ -9,8 +9,10 @@ interface CatalogHeaderProps {
 /**
  * CatalogHeader — top section of the public catalog page.
  *
- * Displays the store name, a friendly subtitle, and a product count badge.
- * Purely presentational — no client state needed.
+ * Displays the store name, a friendly subtitle, a product count badge and
+ * the link to the customer account.  Purely presentational — no client
+ * state, and no cookies read, so the catalog page stays static.  The
+ * account page sends signed-out visitors to the login.
  */
 export function CatalogHeader({
   storeName,
@@ -38,15 +40,23 @@ export function CatalogHeader({
               </p>
             </div>
 
-            {productCount > 0 && (
-              <span className="inline-flex items-center gap-1.5 rounded-full border border-[rgb(var(--color-border))] bg-[rgb(var(--color-bg-muted))] px-3 py-1 text-xs font-medium text-[rgb(var(--color-text-muted))] self-start sm:self-auto">
-                <span
-                  className="h-1.5 w-1.5 rounded-full bg-green-500"
-                  aria-hidden="true"
-                />
-                {productCount} {productCount === 1 ? "produto" : "produtos"}
-              </span>
-            )}
+            <div className="flex items-center gap-3 self-start sm:self-auto">
+              {productCount > 0 && (
+                <span className="inline-flex items-center gap-1.5 rounded-full border border-[rgb(var(--color-border))] bg-[rgb(var(--color-bg-muted))] px-3 py-1 text-xs font-medium text-[rgb(var(--color-text-muted))]">
+                  <span
+                    className="h-1.5 w-1.5 rounded-full bg-green-500"
+                    aria-hidden="true"
+                  />
+                  {productCount} {productCount === 1 ? "produto" : "produtos"}
+                </span>
+              )}
+              <a
+                href={`/catalog/${storeSlug}/conta`}
+                className="text-xs font-medium text-[rgb(var(--color-text-muted))] underline-offset-2 hover:text-[rgb(var(--color-text))] hover:underline"
+              >
+                Minha conta
+              </a>
+            </div>
           </div>
         </div>
       </header>
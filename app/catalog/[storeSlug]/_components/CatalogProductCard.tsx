@@ -1,6 +1,10 @@
 import Link from "next/link";
 import Image from "next/image";
 import type { CatalogProduct } from "@/domain/catalog/types";
+import {
+  hasAvailabilityRule,
+  type AvailabilityRule,
+} from "@/domain/product/ProductAvailability";
 import { PriceDisplay } from "./PriceDisplay";
 import { PLPAddToCartButton } from "./PLPAddToCartButton";
 
@@ -28,6 +32,57 @@ function MinQuantityNote({ qty }: { qty: number }) {
   );
 }
 
+// ─── Availability note ────────────────────────────────────────────────────────
+
+const WEEKDAY_LABELS = ["Dom", "Seg", "Ter", "Qua", "Qui", "Sex", "Sáb"];
+
+/** "01/12" from "2026-12-01". */
+function shortDate(date: string): string {
+  return `${date.slice(8, 10)}/${date.slice(5, 7)}`;
+}
+
+/** e.g. "Sáb · 01/12 a 24/12 · 3 dias de antecedência" */
+function describeAvailability(rule: AvailabilityRule): string {
+  const parts: string[] = [];
+  if (rule.availableWeekdays.length > 0) {
+    parts.push(rule.availableWeekdays.map((d) => WEEKDAY_LABELS[d]).join(", "));
+  }
+  if (rule.availableFrom && rule.availableUntil) {
+    parts.push(
+      `${shortDate(rule.availableFrom)} a ${shortDate(rule.availableUntil)}`,
+    );
+  } else if (rule.availableFrom) {
+    parts.push(`A partir de ${shortDate(rule.availableFrom)}`);
+  } else if (rule.availableUntil) {
+    parts.push(`Até ${shortDate(rule.availableUntil)}`);
+  }
+  if (rule.leadTimeDays) {
+    parts.push(
+      `${rule.leadTimeDays} ${rule.leadTimeDays === 1 ? "dia" : "dias"} de antecedência`,
+    );
+  }
+  return parts.join(" · ");
+}
+
+function AvailabilityNote({ product }: { product: CatalogProduct }) {
+  if (product.unavailableReason) {
+    return (
+      <span className="block text-xs font-medium text-danger">
+        Indisponível na data escolhida
+      </span>
+    );
+  }
+  const description = hasAvailabilityRule(product.availability)
+    ? describeAvailability(product.availability)
+    : "";
+  if (!description) return null;
+  return (
+    <span className="block text-xs text-[rgb(var(--color-text-muted))]">
+      {description}
+    </span>
+  );
+}
+
 // ─── Thumbnail ────────────────────────────────────────────────────────────────
 
 function ProductImagePlaceholder() {
@@ -67,6 +122,8 @@ interface CatalogProductCardProps {
  *
  * Clicking image or product name navigates to the product detail page.
  * PLPAddToCartButton handles cart logic inline (no-variant) or via sheet (with variants).
+ * Sold-out products stay listed, marked "Esgotado".  Products made only on
+ * some days show their availability rule.
  */
 export function CatalogProductCard({
   product,
@@ -97,11 +154,18 @@ export function CatalogProductCard({
             alt={product.name}
             fill
             sizes="(max-width: 768px) 96px, (max-width: 1280px) 33vw, 25vw"
-            className="object-cover"
+            className={["object-cover", product.soldOut && "opacity-50"]
+              .filter(Boolean)
+              .join(" ")}
           />
         ) : (
           <ProductImagePlaceholder />
         )}
+        {product.soldOut && (
+          <span className="absolute left-1.5 top-1.5 rounded-full bg-[rgb(var(--color-text))] px-2 py-0.5 text-[10px] font-semibold uppercase tracking-wide text-[rgb(var(--color-bg))]">
+            Esgotado
+          </span>
+        )}
       </Link>
 
       {/* ── Body ──────────────────────────────────────────────────────────── */}
@@ -121,6 +185,7 @@ export function CatalogProductCard({
               {product.description}
             </p>
           )}
+          <AvailabilityNote product={product} />
         </div>
 
         {/* Price + cart CTA */}
@@ -128,6 +193,7 @@ export function CatalogProductCard({
           <div className="min-w-0">
             <PriceDisplay
               price={product.price}
+              originalPrice={product.originalPrice}
               variants={activeVariants}
               selectedVariant={null}
             />
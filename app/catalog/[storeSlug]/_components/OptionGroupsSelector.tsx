@@ -0,0 +1,231 @@
+"use client";
+
+import type { CatalogOptionGroup } from "@/domain/catalog/types";
+import {
+  OPTION_TEXT_MAX_LENGTH,
+  ProductOptionGroupType,
+} from "@/domain/product/ProductOption";
+import type { CartItemOption } from "../_lib/cart";
+import { formatCurrency } from "./PriceDisplay";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+/** Customer choices while the product is being configured. */
+export interface OptionChoices {
+  /** optionId → units picked. Absent = not picked. */
+  quantities: Record<string, number>;
+  /** groupId → text typed in a TEXT group. */
+  texts: Record<string, string>;
+}
+
+export const EMPTY_CHOICES: OptionChoices = { quantities: {}, texts: {} };
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+/** Choices as cart options, in the groups' display order. */
+export function toCartOptions(
+  groups: CatalogOptionGroup[],
+  choices: OptionChoices,
+): CartItemOption[] {
+  const result: CartItemOption[] = [];
+  for (const group of groups) {
+    if (group.type === ProductOptionGroupType.TEXT) {
+      const text = choices.texts[group.id]?.trim();
+      if (text) {
+        result.push({
+          groupId: group.id,
+          optionId: null,
+          groupName: group.name,
+          label: text,
+          quantity: 1,
+          price: 0,
+        });
+      }
+      continue;
+    }
+    for (const option of group.options) {
+      const quantity = choices.quantities[option.id];
+      if (!quantity) continue;
+      result.push({
+        groupId: group.id,
+        optionId: option.id,
+        groupName: group.name,
+        label: option.label,
+        quantity,
+        price: option.price,
+      });
+    }
+  }
+  return result;
+}
+
+/**
+ * Customer-facing message for the first group whose minimum is not met,
+ * or null when every required group is filled.
+ */
+export function missingChoiceMessage(
+  groups: CatalogOptionGroup[],
+  choices: OptionChoices,
+): string | null {
+  for (const group of groups) {
+    if (group.type === ProductOptionGroupType.TEXT) {
+      if (group.minSelections > 0 && !choices.texts[group.id]?.trim()) {
+        return `Preencha "${group.name}".`;
+      }
+      continue;
+    }
+    const picked = group.options.filter((o) => choices.quantities[o.id]);
+    if (picked.length < group.minSelections) {
+      return group.minSelections === 1
+        ? `Escolha uma opção em "${group.name}".`
+        : `Escolha ${group.minSelections} opções em "${group.name}".`;
+    }
+  }
+  return null;
+}
+
+function groupHint(group: CatalogOptionGroup): string {
+  if (group.type === ProductOptionGroupType.TEXT) {
+    return group.minSelections > 0 ? "Obrigatório" : "Opcional";
+  }
+  if (group.minSelections === 0) {
+    return group.maxSelections === 1
+      ? "Opcional"
+      : `Opcional · até ${group.maxSelections}`;
+  }
+  if (group.minSelections === group.maxSelections) {
+    return group.minSelections === 1
+      ? "Obrigatório"
+      : `Escolha ${group.minSelections}`;
+  }
+  return `Escolha de ${group.minSelections} a ${group.maxSelections}`;
+}
+
+// ─── Component ────────────────────────────────────────────────────────────────
+
+interface Props {
+  groups: CatalogOptionGroup[];
+  value: OptionChoices;
+  onChange(next: OptionChoices): void;
+}
+
+/**
+ * OptionGroupsSelector — extras picked on top of the variant (topper,
+ * filling, candles, message).
+ *
+ * A group with maxSelections = 1 behaves like a radio (picking another
+ * option replaces the first); otherwise options toggle until the maximum
+ * is reached.  Options with maxQuantity > 1 get a quantity stepper once
+ * picked.  Controlled — the parent owns the choices.
+ */
+export function OptionGroupsSelector({ groups, value, onChange }: Props) {
+  function setQuantity(optionId: string, quantity: number) {
+    const quantities = { ...value.quantities };
+    if (quantity > 0) quantities[optionId] = quantity;
+    else delete quantities[optionId];
+    onChange({ ...value, quantities });
+  }
+
+  function toggleOption(group: CatalogOptionGroup, optionId: string) {
+    if (value.quantities[optionId]) {
+      setQuantity(optionId, 0);
+      return;
+    }
+    const quantities = { ...value.quantities };
+    const picked = group.options.filter((o) => quantities[o.id]);
+    if (group.maxSelections === 1) {
+      for (const o of picked) delete quantities[o.id];
+    } else if (picked.length >= group.maxSelections) {
+      return;
+    }
+    quantities[optionId] = 1;
+    onChange({ ...value, quantities });
+  }
+
+  function setText(groupId: string, text: string) {
+    onChange({ ...value, texts: { ...value.texts, [groupId]: text } });
+  }
+
+  return (
+    <div className="flex flex-col gap-4">
+      {groups.map((group) => (
+        <fieldset key={group.id} className="flex flex-col gap-2">
+          <legend className="mb-2 flex w-full items-baseline justify-between gap-2">
+            <span className="text-sm font-medium text-[rgb(var(--color-text))]">
+              {group.name}
+            </span>
+            <span className="text-xs text-[rgb(var(--color-text-muted))]">
+              {groupHint(group)}
+            </span>
+          </legend>
+
+          {group.type === ProductOptionGroupType.TEXT ? (
+            <input
+              type="text"
+              value={value.texts[group.id] ?? ""}
+              maxLength={OPTION_TEXT_MAX_LENGTH}
+              onChange={(e) => setText(group.id, e.target.value)}
+              aria-label={group.name}
+              className="min-h-[44px] w-full rounded-lg border border-[rgb(var(--color-border))] bg-[rgb(var(--color-bg))] px-3 py-2 text-sm text-[rgb(var(--color-text))] ring-focus"
+            />
+          ) : (
+            <div className="flex flex-wrap gap-2">
+              {group.options.map((option) => {
+                const quantity = value.quantities[option.id] ?? 0;
+                const isSelected = quantity > 0;
+                return (
+                  <div key={option.id} className="flex items-center gap-1">
+                    <button
+                      type="button"
+                      aria-pressed={isSelected}
+                      onClick={() => toggleOption(group, option.id)}
+                      className={[
+                        "min-h-[44px] rounded-full border px-3 py-1 text-xs font-medium ring-focus cursor-pointer",
+                        "transition-colors duration-100",
+                        isSelected
+                          ? "bg-gray-200 border-2 border-black"
+                          : "border-[rgb(var(--color-border))] bg-[rgb(var(--color-bg))] text-[rgb(var(--color-text))]",
+                      ].join(" ")}
+                    >
+                      {option.label}
+                      {option.price > 0 && (
+                        <span className="ml-1 text-[rgb(var(--color-text-muted))]">
+                          + {formatCurrency(option.price)}
+                        </span>
+                      )}
+                    </button>
+
+                    {isSelected && option.maxQuantity > 1 && (
+                      <div className="flex items-center gap-1">
+                        <button
+                          type="button"
+                          aria-label={`Diminuir ${option.label}`}
+                          onClick={() => setQuantity(option.id, quantity - 1)}
+                          className="flex h-7 w-7 items-center justify-center rounded-lg border border-[rgb(var(--color-border))] text-xs font-bold cursor-pointer"
+                        >
+                          −
+                        </button>
+                        <span className="min-w-[1.5rem] text-center text-xs font-semibold">
+                          {quantity}
+                        </span>
+                        <button
+                          type="button"
+                          aria-label={`Aumentar ${option.label}`}
+                          disabled={quantity >= option.maxQuantity}
+                          onClick={() => setQuantity(option.id, quantity + 1)}
+                          className="flex h-7 w-7 items-center justify-center rounded-lg border border-[rgb(var(--color-border))] text-xs font-bold cursor-pointer disabled:cursor-not-allowed disabled:opacity-40"
+                        >
+                          +
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </fieldset>
+      ))}
+    </div>
+  );
+}
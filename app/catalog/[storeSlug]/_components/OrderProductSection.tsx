@@ -8,17 +8,48 @@ import {
   addOrUpdateItem,
   removeItem,
   cartItemKey,
+  itemKey,
 } from "../_lib/cart";
-import { PriceDisplay } from "./PriceDisplay";
+import { computeOptionsSurcharge } from "@/domain/product/ProductOption";
+import {
+  MAX_ITEM_WEIGHT_KG,
+  ORDER_ITEM_NOTES_MAX_LENGTH,
+} from "@/domain/order/OrderItem";
+import { getWeightRule, priceForWeight } from "@/domain/product/Product";
+import { formatWeight } from "@/shared/utils/formatWeight";
+import { PriceDisplay, formatCurrency } from "./PriceDisplay";
+import {
+  EMPTY_CHOICES,
+  OptionGroupsSelector,
+  missingChoiceMessage,
+  toCartOptions,
+  type OptionChoices,
+} from "./OptionGroupsSelector";
 // ─── Types ────────────────────────────────────────────────────────────────────
 
 type AddState = "idle" | "adding" | "added";
 // ─── Helpers ──────────────────────────────────────────────────────────────────
 
+/**
+ * Weight per unit for a variant sold by weight: the customer's pick, or the
+ * variant's minimum until they change it.  Null for other variants.
+ */
+function resolveWeight(
+  variant: CatalogVariant | null,
+  pickedKg: number | null,
+): number | null {
+  const rule = variant ? getWeightRule(variant) : null;
+  if (!rule) return null;
+  return pickedKg ?? rule.minKg;
+}
+
 function resolveUnitPrice(
   product: CatalogProduct,
   variant: CatalogVariant | null,
+  weightKg: number | null,
 ): number | null {
+  if (variant && weightKg !== null)
+    return priceForWeight(variant.price, weightKg);
   if (variant) return variant.price;
   return product.price;
 }
@@ -35,8 +66,12 @@ interface OrderProductSectionProps {
  *
  * Multi-cart behaviour:
  *  - On first add → appends to cart (other items kept).
- *  - On second add of same product+variant → updates quantity.
+ *  - On second add of same product+variant+options+notes+weight → updates quantity.
+ *  - Variants sold by weight get a weight stepper (minimum, then steps);
+ *    the price shown is an estimate confirmed when the store weighs it.
  *  - Remove button → pulls item from cart without touching others.
+ *  - Items with tracked stock cap the quantity at what is left; sold-out
+ *    variants (or products) are shown as "Esgotado" and cannot be added.
  *  - Customer navigates to /pedido/revisar when already identified,
  *    or /identificar first.
  *
@@ -52,48 +87,100 @@ export function OrderProductSection({
   const [selectedVariant, setSelectedVariant] = useState<CatalogVariant | null>(
     null,
   );
+  const [choices, setChoices] = useState<OptionChoices>(EMPTY_CHOICES);
+  const [itemNotes, setItemNotes] = useState("");
+  const [pickedKg, setPickedKg] = useState<number | null>(null);
   const [quantity, setQuantity] = useState(Math.max(product.minQuantity, 1));
   const [validationError, setValidationError] = useState<string | null>(null);
   const [addState, setAddState] = useState<AddState>("idle");
 
-  // How many of THIS item (product+variant) is already in the cart
+  // How many of THIS item (product+variant+options+notes+weight) is already in the cart
   const [inCartQty, setInCartQty] = useState<number>(0);
 
-  // Sync inCartQty from sessionStorage whenever variant changes (or on mount)
+  const options = toCartOptions(product.optionGroups, choices);
+  const notes = itemNotes.trim() || null;
+  const weightRule = selectedVariant ? getWeightRule(selectedVariant) : null;
+  const weightKg = resolveWeight(selectedVariant, pickedKg);
+  const key = cartItemKey(
+    product.id,
+    selectedVariant?.id ?? null,
+    options,
+    notes,
+    weightKg,
+  );
+
+  // Sync inCartQty from sessionStorage whenever the key changes (or on mount)
   const syncFromCart = useCallback(() => {
     const cart = readCart();
     if (!cart || cart.storeSlug !== storeSlug) {
       setInCartQty(0);
       return;
     }
-    const key = cartItemKey(product.id, selectedVariant?.id ?? null);
-    const existing = cart.items.find(
-      (i) => cartItemKey(i.productId, i.variantId) === key,
+    const key = cartItemKey(
+      product.id,
+      selectedVariant?.id ?? null,
+      toCartOptions(product.optionGroups, choices),
+      itemNotes.trim() || null,
+      resolveWeight(selectedVariant, pickedKg),
     );
+    const existing = cart.items.find((i) => itemKey(i) === key);
     if (existing) {
       setInCartQty(existing.quantity);
       setQuantity(existing.quantity); // keep spinner in sync
     } else {
       setInCartQty(0);
     }
-  }, [product.id, selectedVariant, storeSlug]);
+  }, [
+    product.id,
+    product.optionGroups,
+    selectedVariant,
+    choices,
+    itemNotes,
+    pickedKg,
+    storeSlug,
+  ]);
 
   useEffect(() => {
     syncFromCart();
   }, [syncFromCart]);
 
   // ── Derived ────────────────────────────────────────────────────────────────
-  const unitPrice = resolveUnitPrice(product, selectedVariant);
+  const basePrice = resolveUnitPrice(product, selectedVariant, weightKg);
+  const surcharge = computeOptionsSurcharge(options);
+  const unitPrice =
+    basePrice === null ? null : Math.round((basePrice + surcharge) * 100) / 100;
   const isInCart = inCartQty > 0;
+  // Units left for the current pick — null when made to order
+  const stockAvailable = selectedVariant
+    ? selectedVariant.stockAvailable
+    : hasVariants
+      ? null
+      : product.stockAvailable;
+  const soldOut =
+    product.soldOut || (stockAvailable !== null && stockAvailable === 0);
 
   // ── Handlers ──────────────────────────────────────────────────────────────
   function toggleVariant(variant: CatalogVariant) {
     setSelectedVariant((prev) => (prev?.id === variant.id ? null : variant));
+    setPickedKg(null);
     setValidationError(null);
   }
 
+  // Steps are added in grams so the weight never drifts (0.1 + 0.2)
+  function stepWeight(direction: 1 | -1) {
+    if (!weightRule || weightKg === null) return;
+    const grams =
+      Math.round(weightKg * 1000) +
+      direction * Math.round(weightRule.stepKg * 1000);
+    setPickedKg(
+      Math.min(Math.max(grams / 1000, weightRule.minKg), MAX_ITEM_WEIGHT_KG),
+    );
+  }
+
   function incrementQty() {
-    setQuantity((q) => q + 1);
+    setQuantity((q) =>
+      stockAvailable !== null ? Math.min(q + 1, stockAvailable) : q + 1,
+    );
   }
 
   function decrementQty() {
@@ -105,10 +192,23 @@ export function OrderProductSection({
       setValidationError("Selecione uma variação antes de adicionar.");
       return;
     }
+    const missingChoice = missingChoiceMessage(product.optionGroups, choices);
+    if (missingChoice) {
+      setValidationError(missingChoice);
+      return;
+    }
     if (unitPrice === null) {
       setValidationError("Não foi possível determinar o preço.");
       return;
     }
+    if (stockAvailable !== null && quantity > stockAvailable) {
+      setValidationError(
+        stockAvailable === 0
+          ? "Este item está esgotado."
+          : `Restam apenas ${stockAvailable} unidade(s) em estoque.`,
+      );
+      return;
+    }
     if (addState !== "idle") return;
 
     setAddState("adding");
@@ -118,6 +218,9 @@ export function OrderProductSection({
       variantId: selectedVariant?.id ?? null,
       productName: product.name,
       variantLabel: selectedVariant?.label ?? null,
+      options,
+      notes,
+      weightKg,
       quantity,
       unitPrice,
     });
@@ -134,7 +237,7 @@ export function OrderProductSection({
   function handleRemove() {
     const prev = readCart();
     if (!prev) return;
-    const next = removeItem(prev, product.id, selectedVariant?.id ?? null);
+    const next = removeItem(prev, key);
     writeCart(next);
     setInCartQty(0);
     setQuantity(Math.max(product.minQuantity, 1));
@@ -147,6 +250,7 @@ export function OrderProductSection({
       {/* Price display */}
       <PriceDisplay
         price={product.price}
+        originalPrice={product.originalPrice}
         variants={activeVariants}
         selectedVariant={selectedVariant}
       />
@@ -170,27 +274,106 @@ export function OrderProductSection({
         >
           {activeVariants.map((variant) => {
             const isSelected = selectedVariant?.id === variant.id;
+            const variantSoldOut = variant.stockAvailable === 0;
             return (
               <button
                 key={variant.id}
                 type="button"
                 aria-pressed={isSelected}
+                disabled={variantSoldOut}
                 onClick={() => toggleVariant(variant)}
                 className={[
                   "min-h-[44px] rounded-full border px-3 py-1 text-xs font-medium ring-focus cursor-pointer",
-                  "transition-colors duration-100",
+                  "transition-colors duration-100 disabled:cursor-not-allowed disabled:opacity-50",
                   isSelected
                     ? "bg-gray-200 border-2 border-black"
                     : "border-[rgb(var(--color-border))] bg-[rgb(var(--color-bg))] text-[rgb(var(--color-text))]",
                 ].join(" ")}
               >
                 {variant.label}
+                {variantSoldOut && " · Esgotado"}
               </button>
             );
           })}
         </div>
       )}
 
+      {/* Option groups */}
+      {product.optionGroups.length > 0 && (
+        <OptionGroupsSelector
+          groups={product.optionGroups}
+          value={choices}
+          onChange={(next) => {
+            setChoices(next);
+            setValidationError(null);
+          }}
+        />
+      )}
+
+      {/* Weight — variants sold by weight */}
+      {weightRule && weightKg !== null && (
+        <div className="flex flex-col gap-1">
+          <div className="flex items-center gap-2">
+            <span className="text-xs text-[rgb(var(--color-text-muted))]">
+              Peso
+            </span>
+            <div className="flex items-center gap-1">
+              <button
+                type="button"
+                aria-label="Diminuir peso"
+                onClick={() => stepWeight(-1)}
+                disabled={weightKg <= weightRule.minKg}
+                className="flex h-9 w-9 items-center justify-center rounded-lg border border-[rgb(var(--color-border))] bg-[rgb(var(--color-bg))] text-sm font-bold cursor-pointer disabled:cursor-not-allowed disabled:opacity-40"
+              >
+                −
+              </button>
+              <span
+                aria-live="polite"
+                className="min-w-[4rem] text-center text-sm font-semibold text-[rgb(var(--color-text))]"
+              >
+                {formatWeight(weightKg, "kg")}
+              </span>
+              <button
+                type="button"
+                aria-label="Aumentar peso"
+                onClick={() => stepWeight(1)}
+                disabled={weightKg + weightRule.stepKg > MAX_ITEM_WEIGHT_KG}
+                className="flex h-9 w-9 items-center justify-center rounded-lg border border-[rgb(var(--color-border))] bg-[rgb(var(--color-bg))] text-sm font-bold cursor-pointer disabled:cursor-not-allowed disabled:opacity-40"
+              >
+                +
+              </button>
+            </div>
+          </div>
+          {unitPrice !== null && (
+            <p className="text-xs text-[rgb(var(--color-text-muted))]">
+              Preço estimado: {formatCurrency(unitPrice)} / unidade — o valor
+              final é confirmado na pesagem.
+            </p>
+          )}
+        </div>
+      )}
+
+      {surcharge > 0 && unitPrice !== null && !weightRule && (
+        <p className="text-xs text-[rgb(var(--color-text-muted))]">
+          Com adicionais: {formatCurrency(unitPrice)} / unidade
+        </p>
+      )}
+
+      {/* Per-item notes */}
+      <label className="flex flex-col gap-1">
+        <span className="text-xs text-[rgb(var(--color-text-muted))]">
+          Observação deste item (opcional)
+        </span>
+        <input
+          type="text"
+          value={itemNotes}
+          maxLength={ORDER_ITEM_NOTES_MAX_LENGTH}
+          onChange={(e) => setItemNotes(e.target.value)}
+          placeholder="Ex: sem lactose, escrever Feliz 30 anos"
+          className="min-h-[44px] w-full rounded-lg border border-[rgb(var(--color-border))] bg-[rgb(var(--color-bg))] px-3 py-2 text-sm text-[rgb(var(--color-text))] ring-focus"
+        />
+      </label>
+
       {/* Quantity counter */}
       <div className="flex items-center gap-2">
         <span className="text-xs text-[rgb(var(--color-text-muted))]">
@@ -225,10 +408,12 @@ export function OrderProductSection({
             type="button"
             aria-label="Aumentar quantidade"
             onClick={incrementQty}
+            disabled={stockAvailable !== null && quantity >= stockAvailable}
             className={[
               "flex h-9 w-9 items-center justify-center rounded-lg border text-sm font-bold",
               "border-[rgb(var(--color-border))] bg-[rgb(var(--color-bg))]",
               "transition-colors duration-100 hover:bg-[rgb(var(--color-bg-muted))] cursor-pointer",
+              "disabled:cursor-not-allowed disabled:opacity-40",
             ].join(" ")}
           >
             +
@@ -243,6 +428,15 @@ export function OrderProductSection({
         </p>
       )}
 
+      {/* Stock note */}
+      {stockAvailable !== null && stockAvailable > 0 && (
+        <p className="text-xs text-[rgb(var(--color-text-muted))]">
+          {stockAvailable === 1
+            ? "Última unidade em estoque"
+            : `${stockAvailable} unidades em estoque`}
+        </p>
+      )}
+
       {/* Min quantity note */}
       {product.minQuantity > 1 && (
         <p className="text-xs text-[rgb(var(--color-text-muted))]">
@@ -255,13 +449,13 @@ export function OrderProductSection({
         <button
           type="button"
           onClick={handleAddOrUpdate}
-          disabled={addState === "adding"}
+          disabled={addState === "adding" || soldOut}
           className={[
             "w-full min-h-[44px] rounded-xl px-4 py-2.5 text-sm font-semibold ring-focus cursor-pointer",
             "transition-all duration-200 active:scale-[.98]",
             addState === "added"
               ? "bg-green-600 text-white"
-              : addState === "adding"
+              : addState === "adding" || soldOut
                 ? "bg-foreground/60 text-surface cursor-not-allowed"
                 : isInCart
                   ? "bg-accent/10 text-accent hover:bg-accent/20"
@@ -272,9 +466,11 @@ export function OrderProductSection({
             ? "✓ Adicionado!"
             : addState === "adding"
               ? "Adicionando…"
-              : isInCart
-                ? "Atualizar quantidade"
-                : "Adicionar ao carrinho"}
+              : soldOut
+                ? "Esgotado"
+                : isInCart
+                  ? "Atualizar quantidade"
+                  : "Adicionar ao carrinho"}
         </button>
 
         {isInCart && (
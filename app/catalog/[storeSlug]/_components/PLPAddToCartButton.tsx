@@ -7,6 +7,7 @@ import {
   writeCart,
   addOrUpdateItem,
   cartItemKey,
+  itemKey,
 } from "../_lib/cart";
 import { ProductVariantSheet } from "./ProductVariantSheet";
 
@@ -24,17 +25,21 @@ interface Props {
 /**
  * PLPAddToCartButton — add-to-cart control for the product listing page.
  *
- * Products WITHOUT variants:
+ * Products WITHOUT variants or option groups:
  *   – Shows an "Adicionar" button. Click cycles through Adicionando… → Adicionado! → Adicionar.
  *   – Always returns to idle state after 1 s (no persistent stepper).
  *
- * Products WITH variants:
+ * Products WITH variants or option groups:
  *   – Renders a "+" button that opens ProductVariantSheet (bottom drawer).
- *   – Shows a badge with total qty in cart across all variants.
+ *   – Shows a badge with total qty in cart across all variants and options.
+ *
+ * Sold-out products (tracked stock, nothing left) get a disabled "Esgotado".
  */
 export function PLPAddToCartButton({ product, storeSlug }: Props) {
   const activeVariants = product.variants.filter((v) => v.isActive);
-  const hasVariants = activeVariants.length > 0;
+  // Option choices are made in the sheet, like variants
+  const needsSheet =
+    activeVariants.length > 0 || product.optionGroups.length > 0;
 
   const [sheetOpen, setSheetOpen] = useState(false);
   const [addState, setAddState] = useState<AddState>("idle");
@@ -47,19 +52,17 @@ export function PLPAddToCartButton({ product, storeSlug }: Props) {
       setInCartQty(0);
       return;
     }
-    if (hasVariants) {
+    if (needsSheet) {
       const total = cart.items
         .filter((i) => i.productId === product.id)
         .reduce((sum, i) => sum + i.quantity, 0);
       setInCartQty(total);
     } else {
       const key = cartItemKey(product.id, null);
-      const existing = cart.items.find(
-        (i) => cartItemKey(i.productId, i.variantId) === key,
-      );
+      const existing = cart.items.find((i) => itemKey(i) === key);
       setInCartQty(existing?.quantity ?? 0);
     }
-  }, [product.id, storeSlug, hasVariants]);
+  }, [product.id, storeSlug, needsSheet]);
 
   useEffect(() => {
     syncFromCart();
@@ -67,8 +70,22 @@ export function PLPAddToCartButton({ product, storeSlug }: Props) {
     return () => window.removeEventListener("cart:updated", syncFromCart);
   }, [syncFromCart]);
 
-  // ── With variants — opens bottom sheet ─────────────────────────────────────
-  if (hasVariants) {
+  // ── Sold out — nothing to add ──────────────────────────────────────────────
+  if (product.soldOut) {
+    return (
+      <button
+        type="button"
+        disabled
+        aria-label={`${product.name} esgotado`}
+        className="min-h-[36px] rounded-xl px-3 py-1.5 text-xs font-semibold shrink-0 bg-foreground/10 text-foreground/50 cursor-not-allowed"
+      >
+        Esgotado
+      </button>
+    );
+  }
+
+  // ── With variants or options — opens bottom sheet ──────────────────────────
+  if (needsSheet) {
     return (
       <>
         <button
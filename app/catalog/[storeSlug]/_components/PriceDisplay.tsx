@@ -1,5 +1,5 @@
 import type { CatalogVariant } from "@/domain/catalog/types";
-import { formatWeight } from "@/shared/utils/formatWeight";
+import { getWeightRule, priceForWeight } from "@/domain/product/Product";
 
 // ─── Helpers ──────────────────────────────────────────────────────────────────
 
@@ -10,11 +10,40 @@ export function formatCurrency(value: number): string {
   }).format(value);
 }
 
+/** Lowest price a variant can be ordered at — its minimum weight when sold by weight. */
+function startingPrice(variant: CatalogVariant): number {
+  const rule = getWeightRule(variant);
+  return rule ? priceForWeight(variant.price, rule.minKg) : variant.price;
+}
+
+/** startingPrice at the regular price, while a promo applies. */
+function startingOriginalPrice(variant: CatalogVariant): number | null {
+  if (variant.originalPrice === null) return null;
+  const rule = getWeightRule(variant);
+  return rule
+    ? priceForWeight(variant.originalPrice, rule.minKg)
+    : variant.originalPrice;
+}
+
+/** The regular price, struck through before the promo price ("de/por"). */
+function OriginalPrice({ value }: { value: number | null }) {
+  if (value === null) return null;
+  return (
+    <span className="mr-1.5 text-sm font-normal text-[rgb(var(--color-text-muted))] line-through">
+      <span className="sr-only">de </span>
+      {formatCurrency(value)}
+      <span className="sr-only"> por</span>
+    </span>
+  );
+}
+
 // ─── Types ────────────────────────────────────────────────────────────────────
 
 interface PriceDisplayProps {
   /** Fixed price for simple products. Null → variant-priced. */
   price: number | null;
+  /** Regular price of a simple product while a promo applies. */
+  originalPrice?: number | null;
   /** Active variants; required when price is null */
   variants?: CatalogVariant[];
   /** Currently selected variant (controlled by parent) */
@@ -28,11 +57,14 @@ interface PriceDisplayProps {
  *
  * Logic:
  *   - Simple product (price ≠ null): show fixed price + pricingType suffix
- *   - Variant-priced, variant selected: show variant price + suffix
- *   - Variant-priced, no selection: show "a partir de R$ X,XX" (lowest active variant)
+ *   - Variant-priced, variant selected: show variant price, "/kg" when sold by weight
+ *   - Variant-priced, no selection: show "a partir de R$ X,XX" (lowest active
+ *     variant; a variant sold by weight counts at its minimum weight)
+ *   - A promo shows the regular price struck through before the promo price
  */
 export function PriceDisplay({
   price,
+  originalPrice = null,
   variants = [],
   selectedVariant,
 }: PriceDisplayProps) {
@@ -40,6 +72,7 @@ export function PriceDisplay({
   if (price !== null) {
     return (
       <span className="text-lg font-semibold text-[rgb(var(--color-text))]">
+        <OriginalPrice value={originalPrice} />
         {formatCurrency(price)}
       </span>
     );
@@ -47,23 +80,15 @@ export function PriceDisplay({
 
   // ── Variant selected ────────────────────────────────────────────────────────
   if (selectedVariant) {
-    const weight =
-      selectedVariant.pricingType === "WEIGHT"
-        ? formatWeight(selectedVariant.weightValue, selectedVariant.weightUnit)
-        : null;
-
     return (
       <span className="text-lg font-semibold text-[rgb(var(--color-text))]">
+        <OriginalPrice value={selectedVariant.originalPrice} />
         {formatCurrency(selectedVariant.price)}
-        {weight ? (
-          <span className="ml-1 text-sm font-normal text-[rgb(var(--color-text-muted))]">
-            / {weight}
-          </span>
-        ) : selectedVariant.pricingType === "WEIGHT" ? (
+        {selectedVariant.pricingType === "WEIGHT" && (
           <span className="ml-1 text-sm font-normal text-[rgb(var(--color-text-muted))]">
             /kg
           </span>
-        ) : null}
+        )}
       </span>
     );
   }
@@ -78,14 +103,17 @@ export function PriceDisplay({
     );
   }
 
-  const lowestPrice = Math.min(...activeVariants.map((v) => v.price));
+  const lowest = activeVariants.reduce((min, v) =>
+    startingPrice(v) < startingPrice(min) ? v : min,
+  );
 
   return (
     <span className="text-lg font-semibold text-[rgb(var(--color-text))]">
       <span className="mr-1 text-sm font-normal text-[rgb(var(--color-text-muted))]">
         a partir de
       </span>
-      {formatCurrency(lowestPrice)}
+      <OriginalPrice value={startingOriginalPrice(lowest)} />
+      {formatCurrency(startingPrice(lowest))}
     </span>
   );
 }
@@ -13,7 +13,8 @@ interface Props {
 }
 
 /**
- * ProductVariantSheet — bottom drawer for variant selection + add-to-cart.
+ * ProductVariantSheet — bottom drawer for variant and option selection +
+ * add-to-cart.
  *
  * Rendered only when open (parent controls mounting).
  * Reuses OrderProductSection so all cart logic lives in one place.
@@ -48,7 +49,7 @@ export function ProductVariantSheet({ product, storeSlug, onClose }: Props) {
 
       {/* Panel */}
       <div
-        className="relative mx-auto w-full max-w-lg rounded-t-2xl bg-[rgb(var(--color-bg))] px-4 pt-4 pb-10 shadow-2xl"
+        className="relative mx-auto max-h-[90vh] w-full max-w-lg overflow-y-auto rounded-t-2xl bg-[rgb(var(--color-bg))] px-4 pt-4 pb-10 shadow-2xl"
         role="dialog"
         aria-modal="true"
         aria-label={`Selecione opções para ${product.name}`}
@@ -80,7 +81,7 @@ export function ProductVariantSheet({ product, storeSlug, onClose }: Props) {
           </button>
         </div>
 
-        {/* Full cart interaction — all variant + quantity + CTA logic */}
+        {/* Full cart interaction — all variant + option + quantity + CTA logic */}
         <OrderProductSection product={product} storeSlug={storeSlug} />
       </div>
     </div>
@@ -1,6 +1,6 @@
 "use client";
 
-import { useEffect, useState, useRef } from "react";
+import { useCallback, useEffect, useState, useRef } from "react";
 import { useRouter } from "next/navigation";
 import {
   readCart,
@@ -10,8 +10,10 @@ import {
   setNotes,
   clearCart,
   cartGrandTotal,
+  itemKey,
 } from "../../_lib/cart";
 import type { CartSession } from "../../_lib/cart";
+import { CouponField } from "./CouponField";
 import { CUSTOMER_SESSION_KEY } from "../../identificar/_components/CustomerIdentityForm";
 import { CartItem } from "./CartItem";
 
@@ -40,6 +42,7 @@ export function CartDrawer({ storeSlug, isOpen, onClose }: CartDrawerProps) {
   const router = useRouter();
   const [cart, setCart] = useState<CartSession | null>(null);
   const notesRef = useRef<HTMLTextAreaElement>(null);
+  const [discount, setDiscount] = useState(0);
 
   useEffect(() => {
     function sync() {
@@ -79,14 +82,10 @@ export function CartDrawer({ storeSlug, isOpen, onClose }: CartDrawerProps) {
 
   // ── Handlers ───────────────────────────────────────────────────────────────
 
-  function handleQuantityChange(
-    productId: string,
-    variantId: string | null,
-    newQty: number,
-  ) {
+  function handleQuantityChange(key: string, newQty: number) {
     const current = readCart();
     if (!current) return;
-    const next = updateItemQuantity(current, productId, variantId, newQty, 1);
+    const next = updateItemQuantity(current, key, newQty, 1);
     if (next.items.length === 0) {
       clearCart();
       setCart(null);
@@ -99,10 +98,10 @@ export function CartDrawer({ storeSlug, isOpen, onClose }: CartDrawerProps) {
     window.dispatchEvent(new Event("cart:updated"));
   }
 
-  function handleRemove(productId: string, variantId: string | null) {
+  function handleRemove(key: string) {
     const current = readCart();
     if (!current) return;
-    const next = removeItem(current, productId, variantId);
+    const next = removeItem(current, key);
     if (next.items.length === 0) {
       clearCart();
       setCart(null);
@@ -123,6 +122,12 @@ export function CartDrawer({ storeSlug, isOpen, onClose }: CartDrawerProps) {
     setCart(next);
   }
 
+  // Stable: CouponField re-validates when it changes
+  const handleCouponChange = useCallback((next: CartSession) => {
+    writeCart(next);
+    setCart(next);
+  }, []);
+
   function handleCheckout() {
     const current = readCart();
     if (current && notesRef.current) {
@@ -141,7 +146,7 @@ export function CartDrawer({ storeSlug, isOpen, onClose }: CartDrawerProps) {
   // ── Render ─────────────────────────────────────────────────────────────────
 
   const items = cart?.items ?? [];
-  const grandTotal = cartGrandTotal(cart);
+  const grandTotal = cartGrandTotal(cart) - discount;
 
   return (
     <>
@@ -210,7 +215,7 @@ export function CartDrawer({ storeSlug, isOpen, onClose }: CartDrawerProps) {
               <ul className="flex flex-col gap-3 mb-5">
                 {items.map((item) => (
                   <CartItem
-                    key={`${item.productId}::${item.variantId ?? ""}`}
+                    key={itemKey(item)}
                     item={item}
                     onQuantityChange={handleQuantityChange}
                     onRemove={handleRemove}
@@ -242,6 +247,16 @@ export function CartDrawer({ storeSlug, isOpen, onClose }: CartDrawerProps) {
                   ].join(" ")}
                 />
               </div>
+
+              {/* Coupon */}
+              {cart && (
+                <CouponField
+                  storeSlug={storeSlug}
+                  cart={cart}
+                  onCartChange={handleCouponChange}
+                  onDiscountChange={setDiscount}
+                />
+              )}
             </div>
           )}
         </div>
@@ -1,4 +1,6 @@
-import type { CartItem as CartItemType } from "../../_lib/cart";
+import { formatItemOption } from "@/domain/product/ProductOption";
+import { formatWeight } from "@/shared/utils/formatWeight";
+import { itemKey, type CartItem as CartItemType } from "../../_lib/cart";
 
 // ─── Helpers ──────────────────────────────────────────────────────────────────
 
@@ -9,12 +11,9 @@ const fmt = (n: number) =>
 
 interface Props {
   item: CartItemType;
-  onQuantityChange(
-    productId: string,
-    variantId: string | null,
-    qty: number,
-  ): void;
-  onRemove(productId: string, variantId: string | null): void;
+  /** `key` is the line's itemKey. */
+  onQuantityChange(key: string, qty: number): void;
+  onRemove(key: string): void;
 }
 
 /**
@@ -22,6 +21,8 @@ interface Props {
  * Purely presentational; all mutations go up via callbacks.
  */
 export function CartItem({ item, onQuantityChange, onRemove }: Props) {
+  const key = itemKey(item);
+
   return (
     <li className="flex items-start gap-3 rounded-xl border border-[rgb(var(--color-border))] bg-[rgb(var(--color-bg-muted))] p-3">
       {/* Product info */}
@@ -34,6 +35,24 @@ export function CartItem({ item, onQuantityChange, onRemove }: Props) {
             {item.variantLabel}
           </p>
         )}
+        {item.options?.map((option) => (
+          <p
+            key={`${option.groupId}:${option.optionId ?? ""}`}
+            className="mt-0.5 text-xs text-[rgb(var(--color-text-muted))]"
+          >
+            {formatItemOption(option)}
+          </p>
+        ))}
+        {item.weightKg && (
+          <p className="mt-0.5 text-xs text-[rgb(var(--color-text-muted))]">
+            Peso: {formatWeight(item.weightKg, "kg")} · preço estimado
+          </p>
+        )}
+        {item.notes && (
+          <p className="mt-0.5 text-xs italic text-[rgb(var(--color-text-muted))]">
+            Obs.: {item.notes}
+          </p>
+        )}
         <p className="mt-1 text-xs text-[rgb(var(--color-text-muted))]">
           {fmt(item.unitPrice)} × {item.quantity} ={" "}
           <span className="font-semibold text-[rgb(var(--color-text))]">
@@ -48,13 +67,7 @@ export function CartItem({ item, onQuantityChange, onRemove }: Props) {
           <button
             type="button"
             aria-label="Diminuir"
-            onClick={() =>
-              onQuantityChange(
-                item.productId,
-                item.variantId,
-                item.quantity - 1,
-              )
-            }
+            onClick={() => onQuantityChange(key, item.quantity - 1)}
             className="flex h-6 w-6 items-center justify-center rounded border border-[rgb(var(--color-border))] text-xs font-bold text-[rgb(var(--color-text))] hover:bg-[rgb(var(--color-bg))] transition-colors cursor-pointer"
           >
             −
@@ -65,13 +78,7 @@ export function CartItem({ item, onQuantityChange, onRemove }: Props) {
           <button
             type="button"
             aria-label="Aumentar"
-            onClick={() =>
-              onQuantityChange(
-                item.productId,
-                item.variantId,
-                item.quantity + 1,
-              )
-            }
+            onClick={() => onQuantityChange(key, item.quantity + 1)}
             className="flex h-6 w-6 items-center justify-center rounded border border-[rgb(var(--color-border))] text-xs font-bold text-[rgb(var(--color-text))] hover:bg-[rgb(var(--color-bg))] transition-colors cursor-pointer"
           >
             +
@@ -79,7 +86,7 @@ export function CartItem({ item, onQuantityChange, onRemove }: Props) {
         </div>
         <button
           type="button"
-          onClick={() => onRemove(item.productId, item.variantId)}
+          onClick={() => onRemove(key)}
           className="text-xs text-[rgb(var(--color-text-muted))] hover:text-red-500 transition-colors cursor-pointer"
         >
           Remover
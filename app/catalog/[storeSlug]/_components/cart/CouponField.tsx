@@ -0,0 +1,173 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { setCouponCode, type CartSession } from "../../_lib/cart";
+import { previewCoupon, type CouponPreview } from "../../_lib/coupon";
+import { CUSTOMER_SESSION_KEY } from "../../identificar/_components/CustomerIdentityForm";
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+const fmt = (n: number) =>
+  n.toLocaleString("pt-BR", { style: "currency", currency: "BRL" });
+
+/** WhatsApp of the identified customer, when the customer already identified. */
+function identifiedWhatsapp(): string | null {
+  try {
+    const raw = sessionStorage.getItem(CUSTOMER_SESSION_KEY);
+    return raw ? (JSON.parse(raw) as { whatsapp: string }).whatsapp : null;
+  } catch {
+    return null;
+  }
+}
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+interface CouponFieldProps {
+  storeSlug: string;
+  cart: CartSession;
+  /** Receives the cart with the coupon code set or cleared.  Keep it stable. */
+  onCartChange: (next: CartSession) => void;
+  /** Receives the current discount (0 when no coupon applies).  Keep it stable. */
+  onDiscountChange: (discount: number) => void;
+}
+
+// ─── Component ────────────────────────────────────────────────────────────────
+
+/**
+ * CouponField — coupon code entry of the cart drawers.
+ *
+ * Applying a code previews it against the cart; on success the code is
+ * stored in the cart session.  The preview is refreshed whenever the cart
+ * changes, and a code that stops applying is removed with its reason shown.
+ */
+export function CouponField({
+  storeSlug,
+  cart,
+  onCartChange,
+  onDiscountChange,
+}: CouponFieldProps) {
+  const [code, setCode] = useState("");
+  // Preview of the code it was fetched for; ignored once the code changes
+  const [preview, setPreview] = useState<{
+    code: string;
+    data: CouponPreview;
+  } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const storedCode = cart.couponCode ?? null;
+  const applied =
+    storedCode && preview?.code === storedCode ? preview.data : null;
+
+  useEffect(() => {
+    if (!storedCode) {
+      onDiscountChange(0);
+      return;
+    }
+    let cancelled = false;
+    previewCoupon(storeSlug, storedCode, cart, identifiedWhatsapp()).then(
+      (res) => {
+        if (cancelled) return;
+        if (res.success) {
+          setPreview({ code: storedCode, data: res.data });
+          onDiscountChange(res.data.discount);
+        } else {
+          setError(res.error);
+          onCartChange(setCouponCode(cart, null));
+        }
+      },
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [storeSlug, storedCode, cart, onCartChange, onDiscountChange]);
+
+  async function handleApply() {
+    if (!code.trim()) return;
+    setError(null);
+    setIsLoading(true);
+    const res = await previewCoupon(
+      storeSlug,
+      code,
+      cart,
+      identifiedWhatsapp(),
+    );
+    setIsLoading(false);
+    if (!res.success) {
+      setError(res.error);
+      return;
+    }
+    setCode("");
+    onCartChange(setCouponCode(cart, res.data.code));
+  }
+
+  if (storedCode && applied) {
+    return (
+      <div className="flex items-center justify-between gap-3 rounded-lg border border-green-200 bg-green-50 px-3 py-2.5 mb-5">
+        <div className="min-w-0 text-sm">
+          <p className="font-semibold text-green-800">
+            Cupom {applied.code} aplicado
+          </p>
+          <p className="text-xs text-green-700">
+            {[
+              applied.discount > 0 && `− ${fmt(applied.discount)}`,
+              applied.freeDelivery && "frete grátis na entrega",
+            ]
+              .filter(Boolean)
+              .join(" · ")}
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={() => onCartChange(setCouponCode(cart, null))}
+          className="shrink-0 text-xs text-[rgb(var(--color-text-muted))] hover:text-red-500 transition-colors"
+        >
+          Remover
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-1.5 mb-5">
+      <label
+        htmlFor="cart-coupon"
+        className="text-xs font-semibold uppercase tracking-widest text-[rgb(var(--color-text-muted))]"
+      >
+        Cupom de desconto
+      </label>
+      <div className="flex gap-2">
+        <input
+          id="cart-coupon"
+          type="text"
+          value={code}
+          onChange={(e) => {
+            setCode(e.target.value.toUpperCase());
+            setError(null);
+          }}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") handleApply();
+          }}
+          maxLength={40}
+          autoComplete="off"
+          placeholder="Ex: BEMVINDO10"
+          className={[
+            "min-w-0 flex-1 rounded-lg border border-[rgb(var(--color-border))]",
+            "bg-[rgb(var(--color-bg))] px-3 py-2 text-sm uppercase text-[rgb(var(--color-text))]",
+            "placeholder:normal-case placeholder:text-[rgb(var(--color-text-muted))]",
+            "focus:outline-none focus:ring-2 focus:ring-[rgb(var(--color-accent))]/40",
+          ].join(" ")}
+        />
+        <button
+          type="button"
+          onClick={handleApply}
+          disabled={isLoading || !code.trim()}
+          className="shrink-0 rounded-lg border border-[rgb(var(--color-border))] px-4 text-sm font-semibold text-[rgb(var(--color-text))] hover:bg-[rgb(var(--color-bg-muted))] transition-colors disabled:opacity-50"
+        >
+          {isLoading ? "…" : "Aplicar"}
+        </button>
+      </div>
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  );
+}
@@ -5,9 +5,10 @@
  *
  * Mutation model
  * ──────────────
- * Items are keyed by `cartItemKey(productId, variantId)` so that the same
- * product with different variants is treated as distinct line items, while
- * adding the same product+variant again simply increments the quantity.
+ * Items are keyed by `cartItemKey(productId, variantId, options, notes,
+ * weightKg)` so that the same product with different variants, options,
+ * notes or weights is treated as distinct line items, while adding the same
+ * combination again simply updates the quantity.
  *
  * All mutators are pure functions that return a NEW CartSession (no side
  * effects).  Callers persist the result with `writeCart`.
@@ -17,13 +18,42 @@ export const CART_SESSION_KEY = "encomenda_zap:cart";
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
+/** An option chosen for a line item — one per option (or typed text). */
+export interface CartItemOption {
+  groupId: string;
+  /** Null for text groups. */
+  optionId: string | null;
+  groupName: string;
+  /** Option label, or the customer's text for text groups. */
+  label: string;
+  quantity: number;
+  /** Price per unit of the option in BRL. */
+  price: number;
+}
+
 export interface CartItem {
   productId: string;
   variantId: string | null;
   productName: string;
   variantLabel: string | null;
+  /**
+   * Chosen options, already included in unitPrice.
+   * Optional — carts persisted before this field existed lack it.
+   */
+  options?: CartItemOption[];
+  /**
+   * Customer instructions for this line ("sem lactose").
+   * Optional — carts persisted before this field existed lack it.
+   */
+  notes?: string | null;
+  /**
+   * Weight per unit in kg for variants sold by weight — unitPrice is then
+   * an estimate, confirmed when the store weighs the product.
+   * Optional — absent for unit-priced items and older carts.
+   */
+  weightKg?: number | null;
   quantity: number;
-  /** Price per unit in BRL — frozen at add time */
+  /** Price per unit in BRL, options included — frozen at add time */
   unitPrice: number;
   /** Total for this line: quantity × unitPrice */
   lineTotal: number;
@@ -83,23 +113,70 @@ export interface CartSession {
    * 0    = free delivery.
    */
   deliveryFee: number | null;
+  /**
+   * Coupon code applied in the cart drawer, upper-case.
+   * Only the code is kept — the discount is re-validated against the current
+   * cart on the review screen and again when the order is placed.
+   * Optional — carts persisted before this field existed lack it.
+   */
+  couponCode?: string | null;
+  /**
+   * Idempotency key sent with the order submission.
+   * Generated once per cart (see ensureIdempotencyKey) so that a double tap
+   * or a retried POST returns the order already placed.
+   * Optional — carts persisted before this field existed lack it.
+   */
+  idempotencyKey?: string | null;
 }
 
 // ─── Key helpers ──────────────────────────────────────────────────────────────
 
 /**
- * Stable, unique key for a product + variant combination.
- * Used to find the existing line item in the cart array.
+ * Stable, unique key for a product + variant + options + notes + weight
+ * combination.  Used to find the existing line item in the cart array.
  */
 export function cartItemKey(
   productId: string,
   variantId: string | null,
+  options?: CartItemOption[] | null,
+  notes?: string | null,
+  weightKg?: number | null,
 ): string {
-  return `${productId}::${variantId ?? "__base__"}`;
+  let key = `${productId}::${variantId ?? "__base__"}`;
+  if (options?.length) {
+    key += `::${options
+      .map((o) => `${o.groupId}:${o.optionId ?? o.label}:${o.quantity}`)
+      .join("|")}`;
+  }
+  if (notes) key += `::notes:${notes}`;
+  if (weightKg) key += `::kg:${weightKg}`;
+  return key;
 }
 
-function itemKey(item: Pick<CartItem, "productId" | "variantId">): string {
-  return cartItemKey(item.productId, item.variantId);
+/** Key of an existing line item. */
+export function itemKey(
+  item: Pick<
+    CartItem,
+    "productId" | "variantId" | "options" | "notes" | "weightKg"
+  >,
+): string {
+  return cartItemKey(
+    item.productId,
+    item.variantId,
+    item.options,
+    item.notes,
+    item.weightKg,
+  );
+}
+
+/** The item's options as the API expects them (order, coupon preview). */
+export function itemOptionSelections(item: Pick<CartItem, "options">) {
+  return (item.options ?? []).map((o) => ({
+    groupId: o.groupId,
+    optionId: o.optionId,
+    quantity: o.quantity,
+    text: o.optionId ? null : o.label,
+  }));
 }
 
 // ─── Storage primitives ───────────────────────────────────────────────────────
@@ -129,7 +206,7 @@ export function clearCart(): void {
 
 /**
  * Adds an item to the cart, or replaces its quantity/price if it already
- * exists with the same product+variant key.
+ * exists with the same product+variant+options+notes key.
  *
  * When storeSlug differs from the stored cart's storeSlug, the cart is
  * reset — customers can only have one active store per tab.
@@ -157,9 +234,11 @@ export function addOrUpdateItem(
           pickupTime: null,
           notes: null,
           deliveryFee: null,
+          couponCode: null,
+          idempotencyKey: null,
         };
 
-  const key = cartItemKey(incoming.productId, incoming.variantId);
+  const key = itemKey(incoming);
   const exists = base.items.some((i) => itemKey(i) === key);
 
   const updated = exists
@@ -185,15 +264,10 @@ export function addOrUpdateItem(
 }
 
 /**
- * Removes a line item from the cart by its product+variant key.
+ * Removes a line item from the cart by its key (see itemKey).
  * Returns null when the cart becomes empty (caller should clear & redirect).
  */
-export function removeItem(
-  cart: CartSession,
-  productId: string,
-  variantId: string | null,
-): CartSession {
-  const key = cartItemKey(productId, variantId);
+export function removeItem(cart: CartSession, key: string): CartSession {
   return {
     ...cart,
     items: cart.items.filter((i) => itemKey(i) !== key),
@@ -201,21 +275,19 @@ export function removeItem(
 }
 
 /**
- * Updates the quantity of an existing line item.
+ * Updates the quantity of an existing line item, found by its key.
  * If quantity < minQuantity the item is removed entirely.
  * `minQuantity` defaults to 1.
  */
 export function updateItemQuantity(
   cart: CartSession,
-  productId: string,
-  variantId: string | null,
+  key: string,
   newQuantity: number,
   minQuantity = 1,
 ): CartSession {
   if (newQuantity < minQuantity) {
-    return removeItem(cart, productId, variantId);
+    return removeItem(cart, key);
   }
-  const key = cartItemKey(productId, variantId);
   return {
     ...cart,
     items: cart.items.map((i) =>
@@ -329,3 +401,25 @@ export function setPickupSlot(
 export function setNotes(cart: CartSession, notes: string | null): CartSession {
   return { ...cart, notes: notes || null };
 }
+
+/**
+ * Sets (or clears) the coupon code applied to the cart.
+ * Returns a new CartSession — does not call writeCart.
+ */
+export function setCouponCode(
+  cart: CartSession,
+  code: string | null,
+): CartSession {
+  return { ...cart, couponCode: code || null };
+}
+
+/**
+ * Returns the cart with an idempotency key, generating one when absent.
+ * The key is kept for the lifetime of the cart — clearCart() discards it
+ * after a successful order.
+ * Returns a new CartSession — does not call writeCart.
+ */
+export function ensureIdempotencyKey(cart: CartSession): CartSession {
+  if (cart.idempotencyKey) return cart;
+  return { ...cart, idempotencyKey: crypto.randomUUID() };
+}
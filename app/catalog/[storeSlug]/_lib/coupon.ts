@@ -0,0 +1,60 @@
+/**
+ * Coupon preview — client-side call to the public validate-coupon endpoint.
+ *
+ * Used by the cart drawers and the review screen.  The preview is only
+ * informative: PlaceOrderService validates and applies the coupon again
+ * when the order is placed.
+ */
+
+import { itemOptionSelections, type CartSession } from "./cart";
+
+export interface CouponPreview {
+  /** Normalised (upper-case) code. */
+  code: string;
+  /** Total discount over the cart items, in BRL. */
+  discount: number;
+  /** Whether the delivery fee is waived. */
+  freeDelivery: boolean;
+}
+
+export type CouponPreviewResult =
+  { success: true; data: CouponPreview } | { success: false; error: string };
+
+/**
+ * Validates `code` against the cart items and delivery date.
+ * Pass the customer's WhatsApp once known so per-customer limits apply.
+ */
+export async function previewCoupon(
+  storeSlug: string,
+  code: string,
+  cart: Pick<CartSession, "items" | "deliveryDate">,
+  whatsapp?: string | null,
+): Promise<CouponPreviewResult> {
+  try {
+    const res = await fetch(`/api/catalog/${storeSlug}/validate-coupon`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        code,
+        items: cart.items.map((item) => ({
+          productId: item.productId,
+          variantId: item.variantId ?? null,
+          options: itemOptionSelections(item),
+          weightKg: item.weightKg ?? null,
+          quantity: item.quantity,
+        })),
+        whatsapp: whatsapp ?? null,
+        deliveryDate: cart.deliveryDate,
+      }),
+    });
+    const body = (await res.json()) as
+      | { success: true; data: CouponPreview }
+      | { success: false; error: { message: string } };
+    return body.success ? body : { success: false, error: body.error.message };
+  } catch {
+    return {
+      success: false,
+      error: "Não foi possível validar o cupom. Tente novamente.",
+    };
+  }
+}
@@ -0,0 +1,201 @@
+"use client";
+
+import { useState, type FormEvent } from "react";
+import { useRouter } from "next/navigation";
+import {
+  MAX_CUSTOMER_ADDRESSES,
+  type CustomerAddress,
+} from "@/domain/customer/CustomerAddress";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+interface Props {
+  storeSlug: string;
+  addresses: CustomerAddress[];
+}
+
+const EMPTY_FORM = {
+  label: "",
+  cep: "",
+  street: "",
+  number: "",
+  neighborhood: "",
+  city: "",
+};
+
+const INPUT_CLASS =
+  "w-full rounded-md border border-[rgb(var(--color-border))] bg-surface px-3 py-1.5 text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-accent";
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+export function formatCustomerAddress(address: CustomerAddress): string {
+  const cep = `${address.cep.slice(0, 5)}-${address.cep.slice(5)}`;
+  return `${address.street}, ${address.number} · ${address.neighborhood} · ${address.city} · ${cep}`;
+}
+
+// ─── Component ────────────────────────────────────────────────────────────────
+
+/**
+ * AddressBook — the customer's saved delivery addresses.
+ *
+ * Saved addresses are offered on the order review page for deliveries to
+ * the same CEP as the cart.  Refreshes via router.refresh() after a change.
+ */
+export function AddressBook({ storeSlug, addresses }: Props) {
+  const router = useRouter();
+  const apiBase = `/api/catalog/${storeSlug}/customer/addresses`;
+
+  const [open, setOpen] = useState(false);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  function setField(field: keyof typeof EMPTY_FORM, value: string) {
+    setForm((prev) => ({ ...prev, [field]: value }));
+  }
+
+  async function handleSubmit(e: FormEvent) {
+    e.preventDefault();
+    setError(null);
+    setLoading(true);
+    try {
+      const res = await fetch(apiBase, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...form,
+          label: form.label.trim() || null,
+          cep: form.cep.replace(/\D/g, ""),
+        }),
+      });
+      if (!res.ok) {
+        const json = await res.json().catch(() => ({}));
+        setError(json?.error?.message ?? "Ocorreu um erro. Tente novamente.");
+        return;
+      }
+      setForm(EMPTY_FORM);
+      setOpen(false);
+      router.refresh();
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function handleDelete(address: CustomerAddress) {
+    if (!confirm("Remover este endereço?")) return;
+    setError(null);
+    const res = await fetch(`${apiBase}/${address.id}`, { method: "DELETE" });
+    if (!res.ok) {
+      const json = await res.json().catch(() => ({}));
+      setError(json?.error?.message ?? "Ocorreu um erro. Tente novamente.");
+      return;
+    }
+    router.refresh();
+  }
+
+  return (
+    <div className="space-y-3">
+      {addresses.length === 0 ? (
+        <p className="text-sm text-foreground-muted">Nenhum endereço salvo.</p>
+      ) : (
+        <ul className="divide-y divide-[rgb(var(--color-border))] text-sm">
+          {addresses.map((a) => (
+            <li key={a.id} className="flex items-start gap-3 py-2">
+              <div className="flex-1">
+                {a.label && (
+                  <p className="font-medium text-foreground">{a.label}</p>
+                )}
+                <p className="text-foreground-muted">
+                  {formatCustomerAddress(a)}
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={() => handleDelete(a)}
+                className="text-xs text-red-600 hover:underline"
+              >
+                Remover
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {!open ? (
+        addresses.length < MAX_CUSTOMER_ADDRESSES && (
+          <button
+            type="button"
+            onClick={() => setOpen(true)}
+            className="text-sm font-medium text-accent hover:underline"
+          >
+            + Adicionar endereço
+          </button>
+        )
+      ) : (
+        <form onSubmit={handleSubmit} className="grid grid-cols-2 gap-2">
+          <input
+            placeholder="Apelido (Casa, Trabalho…)"
+            value={form.label}
+            onChange={(e) => setField("label", e.target.value)}
+            maxLength={40}
+            className={`${INPUT_CLASS} col-span-2`}
+          />
+          <input
+            placeholder="CEP"
+            inputMode="numeric"
+            value={form.cep}
+            onChange={(e) => setField("cep", e.target.value)}
+            maxLength={9}
+            className={INPUT_CLASS}
+          />
+          <input
+            placeholder="Número"
+            value={form.number}
+            onChange={(e) => setField("number", e.target.value)}
+            maxLength={20}
+            className={INPUT_CLASS}
+          />
+          <input
+            placeholder="Rua"
+            value={form.street}
+            onChange={(e) => setField("street", e.target.value)}
+            maxLength={200}
+            className={`${INPUT_CLASS} col-span-2`}
+          />
+          <input
+            placeholder="Bairro"
+            value={form.neighborhood}
+            onChange={(e) => setField("neighborhood", e.target.value)}
+            maxLength={100}
+            className={INPUT_CLASS}
+          />
+          <input
+            placeholder="Cidade"
+            value={form.city}
+            onChange={(e) => setField("city", e.target.value)}
+            maxLength={100}
+            className={INPUT_CLASS}
+          />
+          <div className="col-span-2 flex gap-3">
+            <button
+              type="submit"
+              disabled={loading}
+              className="rounded-md bg-accent px-4 py-1.5 text-sm font-medium text-white hover:bg-accent-hover disabled:opacity-50"
+            >
+              {loading ? "Salvando…" : "Salvar"}
+            </button>
+            <button
+              type="button"
+              onClick={() => setOpen(false)}
+              className="text-sm text-foreground-muted hover:text-foreground"
+            >
+              Cancelar
+            </button>
+          </div>
+        </form>
+      )}
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { CUSTOMER_SESSION_KEY } from "../../identificar/_components/CustomerIdentityForm";
+
+/** Ends the customer session and goes back to the catalog. */
+export function CustomerLogoutButton({ storeSlug }: { storeSlug: string }) {
+  const router = useRouter();
+
+  async function handleLogout() {
+    await fetch(`/api/catalog/${storeSlug}/customer/logout`, {
+      method: "POST",
+    });
+    try {
+      sessionStorage.removeItem(CUSTOMER_SESSION_KEY);
+    } catch {
+      // sessionStorage unavailable — nothing to clear
+    }
+    router.push(`/catalog/${storeSlug}`);
+    router.refresh();
+  }
+
+  return (
+    <button
+      type="button"
+      onClick={handleLogout}
+      className="text-xs text-foreground-muted underline hover:text-foreground"
+    >
+      Sair
+    </button>
+  );
+}
@@ -0,0 +1,99 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import type { ReorderOutput } from "@/application/customerAccount/ReorderUseCase";
+import { addOrUpdateItem, readCart, writeCart } from "../../_lib/cart";
+import {
+  CUSTOMER_SESSION_KEY,
+  type CustomerSession,
+} from "../../identificar/_components/CustomerIdentityForm";
+
+interface Props {
+  storeSlug: string;
+  orderId: string;
+  /** Written for the checkout, which skips /identificar when present. */
+  customer: CustomerSession;
+}
+
+/**
+ * ReorderButton — "Pedir de novo": adds the lines of a past order, at
+ * today's prices, to the cart and continues to the date step.
+ *
+ * Lines that can no longer be ordered as they were are listed instead,
+ * and the customer stays on the page to read them.
+ */
+export function ReorderButton({ storeSlug, orderId, customer }: Props) {
+  const router = useRouter();
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [unavailable, setUnavailable] = useState<string[]>([]);
+  const [added, setAdded] = useState(false);
+
+  async function handleReorder() {
+    setError(null);
+    setLoading(true);
+    try {
+      const res = await fetch(
+        `/api/catalog/${storeSlug}/customer/orders/${orderId}/reorder`,
+        { method: "POST" },
+      );
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setError(json?.error?.message ?? "Ocorreu um erro. Tente novamente.");
+        return;
+      }
+
+      const { lines, unavailable }: ReorderOutput = json.data;
+      setUnavailable(unavailable);
+      if (lines.length === 0) return;
+
+      let cart = readCart();
+      for (const line of lines) {
+        cart = addOrUpdateItem(cart, storeSlug, line);
+      }
+      if (cart) writeCart(cart);
+      window.dispatchEvent(new Event("cart:updated"));
+      setAdded(true);
+      try {
+        sessionStorage.setItem(CUSTOMER_SESSION_KEY, JSON.stringify(customer));
+      } catch {
+        // sessionStorage unavailable — /identificar will ask again
+      }
+
+      // Partial reorders stay here so the customer sees what was left out
+      if (unavailable.length === 0) {
+        router.push(`/catalog/${storeSlug}/pedido/data`);
+      }
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  return (
+    <div className="space-y-1">
+      <button
+        type="button"
+        onClick={handleReorder}
+        disabled={loading}
+        className="rounded-md border border-[rgb(var(--color-border))] px-3 py-1 text-xs font-medium text-foreground hover:bg-surface-subtle disabled:opacity-50"
+      >
+        {loading ? "Adicionando…" : "Pedir de novo"}
+      </button>
+      {error && <p className="text-xs text-red-600">{error}</p>}
+      {unavailable.length > 0 && (
+        <p className="text-xs text-foreground-muted">
+          Indisponível hoje: {unavailable.join(", ")}.{" "}
+          {added && (
+            <a
+              href={`/catalog/${storeSlug}/pedido/data`}
+              className="underline hover:text-foreground"
+            >
+              Continuar com o restante
+            </a>
+          )}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,172 @@
+import Link from "next/link";
+import { notFound, redirect } from "next/navigation";
+import type { Metadata } from "next";
+import {
+  getStoreCatalogUseCase,
+  getCustomerAccountUseCase,
+  listCustomerAddressesUseCase,
+} from "@/infra/composition";
+import { getCustomerSession } from "@/infra/http/auth/getCustomerSession";
+import { FulfillmentType, orderTrackingPath } from "@/domain/order/Order";
+import type { CustomerAccount } from "@/application/customerAccount/GetCustomerAccountUseCase";
+import { Card } from "../../../_components/Card";
+import { ReorderButton } from "./_components/ReorderButton";
+import { AddressBook } from "./_components/AddressBook";
+import { CustomerLogoutButton } from "./_components/CustomerLogoutButton";
+
+// ─── Route params ─────────────────────────────────────────────────────────────
+
+interface Props {
+  params: Promise<{ storeSlug: string }>;
+}
+
+// ─── Metadata ─────────────────────────────────────────────────────────────────
+
+export const metadata: Metadata = {
+  title: "Minha conta",
+  robots: { index: false },
+};
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+const formatCurrency = (n: number) =>
+  n.toLocaleString("pt-BR", { style: "currency", currency: "BRL" });
+
+function formatDeliveryDate(date: Date): string {
+  return date.toLocaleDateString("pt-BR", {
+    day: "2-digit",
+    month: "2-digit",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+function SectionLabel({ children }: { children: React.ReactNode }) {
+  return (
+    <p className="text-xs font-semibold uppercase tracking-widest text-foreground-muted">
+      {children}
+    </p>
+  );
+}
+
+// ─── Page ─────────────────────────────────────────────────────────────────────
+
+/**
+ * /catalog/[storeSlug]/conta
+ *
+ * The signed-in customer's account in this store: past orders (with
+ * tracking and "pedir de novo") and saved delivery addresses.
+ * Without a customer session for the store, sends to /entrar.
+ *
+ * Always rendered fresh — reads the customer cookie.
+ */
+export const dynamic = "force-dynamic";
+
+export default async function ContaPage({ params }: Props) {
+  const { storeSlug } = await params;
+  const catalogPath = `/catalog/${storeSlug}`;
+
+  const catalog = await getStoreCatalogUseCase
+    .execute(storeSlug)
+    .catch(() => null);
+  if (!catalog) notFound();
+
+  const session = await getCustomerSession(catalog.storeId);
+  if (!session) redirect(`${catalogPath}/entrar`);
+
+  let account: CustomerAccount;
+  try {
+    account = await getCustomerAccountUseCase.execute(
+      session.customerId,
+      session.storeId,
+    );
+  } catch {
+    redirect(`${catalogPath}/entrar`);
+  }
+  const addresses = await listCustomerAddressesUseCase.execute(
+    session.customerId,
+  );
+
+  return (
+    <div className="min-h-dvh bg-surface-subtle px-4 py-10">
+      <div className="mx-auto w-full max-w-md space-y-6">
+        {/* ── Header ────────────────────────────────────────────────────── */}
+        <div className="space-y-1 text-center">
+          <Link
+            href={catalogPath}
+            className="text-sm font-medium text-foreground-muted hover:text-foreground transition-colors"
+          >
+            {catalog.name}
+          </Link>
+          <h1 className="text-2xl font-bold tracking-tight text-foreground">
+            Olá, {account.customer.name.split(" ")[0]}!
+          </h1>
+          <CustomerLogoutButton storeSlug={storeSlug} />
+        </div>
+
+        {/* ── Orders ────────────────────────────────────────────────────── */}
+        <Card>
+          <div className="flex flex-col gap-4">
+            <SectionLabel>Meus pedidos</SectionLabel>
+            {account.orders.length === 0 ? (
+              <p className="text-sm text-foreground-muted">
+                Você ainda não fez pedidos nesta loja.
+              </p>
+            ) : (
+              <ul className="divide-y divide-[rgb(var(--color-border))]">
+                {account.orders.map((order) => (
+                  <li key={order.id} className="space-y-2 py-3">
+                    <div className="flex items-baseline justify-between gap-3">
+                      <Link
+                        href={orderTrackingPath(storeSlug, order.trackingToken)}
+                        className="font-medium text-foreground hover:underline"
+                      >
+                        {order.orderNumber != null
+                          ? `Pedido #${order.orderNumber}`
+                          : "Pedido"}
+                      </Link>
+                      <span className="text-sm font-semibold text-foreground">
+                        {formatCurrency(order.total)}
+                      </span>
+                    </div>
+                    <p className="text-xs text-foreground-muted">
+                      {order.fulfillmentType === FulfillmentType.PICKUP
+                        ? "Retirada"
+                        : "Entrega"}{" "}
+                      em {formatDeliveryDate(order.deliveryDate)} ·{" "}
+                      {order.statusLabel}
+                    </p>
+                    <p className="text-sm text-foreground">
+                      {order.items
+                        .map(
+                          (i) =>
+                            `${i.quantity}× ${i.productName}${i.variantLabel ? ` (${i.variantLabel})` : ""}`,
+                        )
+                        .join(", ")}
+                    </p>
+                    <ReorderButton
+                      storeSlug={storeSlug}
+                      orderId={order.id}
+                      customer={{
+                        name: account.customer.name,
+                        whatsapp: account.customer.whatsapp,
+                      }}
+                    />
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </Card>
+
+        {/* ── Addresses ─────────────────────────────────────────────────── */}
+        <Card>
+          <div className="flex flex-col gap-4">
+            <SectionLabel>Endereços de entrega</SectionLabel>
+            <AddressBook storeSlug={storeSlug} addresses={addresses} />
+          </div>
+        </Card>
+      </div>
+    </div>
+  );
+}
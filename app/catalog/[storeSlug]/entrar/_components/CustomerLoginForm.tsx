@@ -0,0 +1,212 @@
+"use client";
+
+import { useState, type FormEvent } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "../../../../_components/Button";
+import { Input } from "../../../../_components/Input";
+import {
+  CUSTOMER_SESSION_KEY,
+  type CustomerSession,
+} from "../../identificar/_components/CustomerIdentityForm";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+type Step = "WHATSAPP" | "CODE";
+
+interface Props {
+  storeSlug: string;
+  /** Where to go once signed in. */
+  nextPath: string;
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function formatWhatsApp(digits: string): string {
+  const d = digits.slice(0, 11);
+  if (d.length <= 2) return d.length ? `(${d}` : "";
+  if (d.length <= 6) return `(${d.slice(0, 2)}) ${d.slice(2)}`;
+  if (d.length <= 10)
+    return `(${d.slice(0, 2)}) ${d.slice(2, 6)}-${d.slice(6)}`;
+  return `(${d.slice(0, 2)}) ${d.slice(2, 7)}-${d.slice(7)}`;
+}
+
+async function post(url: string, body: unknown) {
+  const res = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  const json = await res.json().catch(() => ({}));
+  return { res, json };
+}
+
+// ─── Component ────────────────────────────────────────────────────────────────
+
+/**
+ * CustomerLoginForm — two steps: WhatsApp number, then the code received.
+ *
+ * A number without a customer in the store gets a name field after the
+ * first correct code (the API answers nameRequired).  Once signed in the
+ * customer's name and number are also written where the checkout looks for
+ * them, so /identificar can be skipped.
+ */
+export function CustomerLoginForm({ storeSlug, nextPath }: Props) {
+  const router = useRouter();
+  const apiBase = `/api/catalog/${storeSlug}/customer`;
+
+  const [step, setStep] = useState<Step>("WHATSAPP");
+  const [whatsapp, setWhatsapp] = useState("");
+  const [code, setCode] = useState("");
+  const [name, setName] = useState("");
+  const [nameRequired, setNameRequired] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  async function requestCode() {
+    setError(null);
+    if (whatsapp.length < 10) {
+      setError("Informe seu WhatsApp com DDD.");
+      return;
+    }
+    setLoading(true);
+    try {
+      const { res, json } = await post(`${apiBase}/login-code`, { whatsapp });
+      if (!res.ok) {
+        setError(json?.error?.message ?? "Ocorreu um erro. Tente novamente.");
+        return;
+      }
+      setCode("");
+      setStep("CODE");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function verifyCode() {
+    setError(null);
+    setLoading(true);
+    try {
+      const { res, json } = await post(`${apiBase}/login`, {
+        whatsapp,
+        code,
+        name: nameRequired ? name : undefined,
+      });
+      if (!res.ok) {
+        setError(json?.error?.message ?? "Ocorreu um erro. Tente novamente.");
+        return;
+      }
+      if (json.data.nameRequired) {
+        setNameRequired(true);
+        return;
+      }
+
+      const session: CustomerSession = json.data.customer;
+      try {
+        sessionStorage.setItem(CUSTOMER_SESSION_KEY, JSON.stringify(session));
+      } catch {
+        // sessionStorage unavailable — /identificar will ask again
+      }
+      router.push(nextPath);
+      router.refresh();
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  function handleSubmit(e: FormEvent) {
+    e.preventDefault();
+    if (step === "WHATSAPP") void requestCode();
+    else void verifyCode();
+  }
+
+  return (
+    <form onSubmit={handleSubmit} noValidate className="space-y-5">
+      {step === "WHATSAPP" ? (
+        <Input
+          label="WhatsApp"
+          id="login-whatsapp"
+          type="tel"
+          inputMode="numeric"
+          autoComplete="tel"
+          autoFocus
+          placeholder="(11) 99999-8888"
+          value={formatWhatsApp(whatsapp)}
+          onChange={(e) =>
+            setWhatsapp(e.target.value.replace(/\D/g, "").slice(0, 11))
+          }
+        />
+      ) : (
+        <>
+          <p className="text-sm text-foreground-muted">
+            Enviamos um código para{" "}
+            <span className="font-medium text-foreground">
+              {formatWhatsApp(whatsapp)}
+            </span>
+            .{" "}
+            <button
+              type="button"
+              onClick={() => {
+                setStep("WHATSAPP");
+                setNameRequired(false);
+                setError(null);
+              }}
+              className="underline hover:text-foreground"
+            >
+              Trocar número
+            </button>
+          </p>
+          <Input
+            label="Código"
+            id="login-code"
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            autoFocus
+            placeholder="000000"
+            value={code}
+            onChange={(e) =>
+              setCode(e.target.value.replace(/\D/g, "").slice(0, 6))
+            }
+          />
+          {nameRequired && (
+            <Input
+              label="Seu nome"
+              id="login-name"
+              autoComplete="given-name"
+              autoFocus
+              placeholder="Ex.: João Silva"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          )}
+        </>
+      )}
+
+      {error && (
+        <p role="alert" className="text-sm text-red-600">
+          {error}
+        </p>
+      )}
+
+      <Button
+        type="submit"
+        variant="primary"
+        size="md"
+        loading={loading}
+        className="w-full"
+      >
+        {step === "WHATSAPP" ? "Receber código" : "Entrar"}
+      </Button>
+
+      {step === "CODE" && (
+        <button
+          type="button"
+          onClick={() => void requestCode()}
+          disabled={loading}
+          className="w-full text-center text-xs text-foreground-muted hover:text-foreground disabled:opacity-50"
+        >
+          Reenviar código
+        </button>
+      )}
+    </form>
+  );
+}
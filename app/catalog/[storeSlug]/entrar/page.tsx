@@ -0,0 +1,86 @@
+import { notFound } from "next/navigation";
+import type { Metadata } from "next";
+import { getStoreCatalogUseCase } from "@/infra/composition";
+import { Card } from "../../../_components/Card";
+import { CustomerLoginForm } from "./_components/CustomerLoginForm";
+
+// ─── Route params ─────────────────────────────────────────────────────────────
+
+interface Props {
+  params: Promise<{ storeSlug: string }>;
+  searchParams: Promise<{ next?: string }>;
+}
+
+// ─── Metadata ─────────────────────────────────────────────────────────────────
+
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const { storeSlug } = await params;
+
+  try {
+    const catalog = await getStoreCatalogUseCase.execute(storeSlug);
+    return { title: `Entrar — ${catalog.name}`, robots: { index: false } };
+  } catch {
+    return { title: "Entrar" };
+  }
+}
+
+// ─── Page ─────────────────────────────────────────────────────────────────────
+
+/**
+ * /catalog/[storeSlug]/entrar
+ *
+ * Public page — optional customer login by a code sent to the WhatsApp.
+ * Signing in is never required to order; it unlocks "Minha conta" (order
+ * history, reorder, saved addresses) in this store only.
+ *
+ * ?next= — a path inside this catalog to return to after signing in;
+ * anything else falls back to the account page.
+ */
+export const dynamic = "force-dynamic";
+
+export default async function EntrarPage({ params, searchParams }: Props) {
+  const { storeSlug } = await params;
+  const { next } = await searchParams;
+
+  const catalog = await getStoreCatalogUseCase
+    .execute(storeSlug)
+    .catch(() => null);
+  if (!catalog) notFound();
+
+  const catalogPath = `/catalog/${storeSlug}`;
+  const nextPath =
+    next?.startsWith(`${catalogPath}/`) && !next.includes("//")
+      ? next
+      : `${catalogPath}/conta`;
+
+  return (
+    <div className="min-h-dvh bg-surface-subtle flex flex-col items-center justify-center px-4 py-12">
+      <div className="w-full max-w-[400px] space-y-8">
+        <div className="space-y-1.5 text-center">
+          <p className="text-xs font-medium uppercase tracking-widest text-foreground-muted">
+            {catalog.name}
+          </p>
+          <h1 className="text-2xl font-semibold tracking-tight text-foreground">
+            Entrar
+          </h1>
+          <p className="text-sm text-foreground-muted">
+            Enviamos um código para o seu WhatsApp. Sem senha.
+          </p>
+        </div>
+
+        <Card>
+          <CustomerLoginForm storeSlug={storeSlug} nextPath={nextPath} />
+        </Card>
+
+        <div className="text-center">
+          <a
+            href={catalogPath}
+            className="text-sm text-foreground-muted transition-colors duration-150 hover:text-foreground"
+          >
+            ← Voltar ao cardápio
+          </a>
+        </div>
+      </div>
+    </div>
+  );
+}
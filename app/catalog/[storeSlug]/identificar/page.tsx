@@ -73,6 +73,17 @@ export default async function IdentificarPage({ params }: Props) {
           />
         </Card>
 
+        {/* ── Optional login ── */}
+        <p className="text-center text-sm text-foreground-muted">
+          Já comprou aqui?{" "}
+          <a
+            href={`/catalog/${storeSlug}/entrar?next=${encodeURIComponent(`/catalog/${storeSlug}/pedido/data`)}`}
+            className="font-medium text-foreground underline-offset-2 hover:underline"
+          >
+            Entrar com código no WhatsApp
+          </a>
+        </p>
+
         {/* ── Back link ── */}
         <div className="text-center">
           <a
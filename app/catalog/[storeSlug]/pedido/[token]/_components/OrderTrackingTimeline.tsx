@@ -0,0 +1,128 @@
+import type { OrderTimelineStep } from "@/domain/order/OrderTimeline";
+
+// ─── Component ────────────────────────────────────────────────────────────────
+
+interface OrderTrackingTimelineProps {
+  steps: OrderTimelineStep[];
+}
+
+/**
+ * OrderTrackingTimeline — vertical step list for the public tracking page.
+ *
+ * Same visual language as the dashboard's OrderStatusTracker: done steps in
+ * green, the current one filled, upcoming ones outlined.  A failed step
+ * (rejected / cancelled) is rendered in red.
+ *
+ * Server Component — no interactivity.
+ */
+export function OrderTrackingTimeline({ steps }: OrderTrackingTimelineProps) {
+  return (
+    <ol className="flex flex-col gap-0" aria-label="Etapas do pedido">
+      {steps.map((step, idx) => {
+        const isDone = step.state === "done";
+        const isCurrent = step.state === "current";
+        const isFailed = step.state === "failed";
+
+        return (
+          <li key={step.key}>
+            <div className="flex items-center gap-3">
+              {/* Step circle */}
+              <div
+                className={[
+                  "flex h-7 w-7 shrink-0 items-center justify-center rounded-full",
+                  isDone
+                    ? "bg-surface border border-green-600"
+                    : isCurrent
+                      ? "bg-green-600"
+                      : isFailed
+                        ? "bg-red-100 border border-red-300"
+                        : "border-2 border-line bg-surface",
+                ].join(" ")}
+                aria-hidden="true"
+              >
+                {isDone && <CheckIcon className="h-4 w-4 text-green-700" />}
+                {isCurrent && (
+                  <span className="h-2 w-2 rounded-full bg-white" />
+                )}
+                {isFailed && <XIcon className="h-4 w-4 text-red-600" />}
+              </div>
+
+              {/* Step label */}
+              <div>
+                <p
+                  className={[
+                    "text-sm font-semibold",
+                    isDone
+                      ? "text-green-700"
+                      : isCurrent
+                        ? "text-foreground"
+                        : isFailed
+                          ? "text-red-700"
+                          : "text-foreground-muted",
+                  ].join(" ")}
+                >
+                  {step.label}
+                </p>
+                {step.state !== "upcoming" && (
+                  <p className="text-xs text-foreground-muted">
+                    {isCurrent ? "Em andamento" : step.description}
+                  </p>
+                )}
+              </div>
+            </div>
+
+            {/* Connector between steps */}
+            {idx < steps.length - 1 && (
+              <div
+                className={[
+                  "ml-3.5 my-1 w-px h-5",
+                  isDone ? "bg-green-400" : "bg-line",
+                ].join(" ")}
+                aria-hidden="true"
+              />
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
+
+// ─── Icons ────────────────────────────────────────────────────────────────────
+
+function CheckIcon({ className }: { className?: string }) {
+  return (
+    <svg
+      xmlns="http://www.w3.org/2000/svg"
+      viewBox="0 0 20 20"
+      fill="currentColor"
+      className={className}
+      aria-hidden="true"
+    >
+      <path
+        fillRule="evenodd"
+        d="M16.704 4.153a.75.75 0 0 1 .143 1.052l-8 10.5a.75.75 0 0 1-1.127.075l-4.5-4.5a.75.75 0 0 1 1.06-1.06l3.894 3.893 7.48-9.817a.75.75 0 0 1 1.05-.143Z"
+        clipRule="evenodd"
+      />
+    </svg>
+  );
+}
+
+function XIcon({ className }: { className?: string }) {
+  return (
+    <svg
+      xmlns="http://www.w3.org/2000/svg"
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth={2.5}
+      strokeLinecap="round"
+      strokeLinejoin="round"
+      className={className}
+      aria-hidden="true"
+    >
+      <line x1="18" y1="6" x2="6" y2="18" />
+      <line x1="6" y1="6" x2="18" y2="18" />
+    </svg>
+  );
+}
@@ -0,0 +1,94 @@
+"use client";
+
+/**
+ * PixPaymentCard — QR code and "copia e cola" of the order's PIX charge,
+ * shown on the tracking page while an approved order waits for payment
+ * (the deposit first, when the store takes one, then the balance).
+ *
+ * The copy button shows a brief "Copiado!" confirmation for 2 seconds.
+ */
+
+import { useState } from "react";
+import Image from "next/image";
+
+interface PixPaymentCardProps {
+  brCode: string;
+  /** data: URL or provider https URL. */
+  qrCodeImage: string;
+  amount: number;
+  expiresAt: Date | null;
+  /** The charge covers the store's upfront deposit only. */
+  isDeposit: boolean;
+}
+
+const formatCurrency = (n: number) =>
+  n.toLocaleString("pt-BR", { style: "currency", currency: "BRL" });
+
+export function PixPaymentCard({
+  brCode,
+  qrCodeImage,
+  amount,
+  expiresAt,
+  isDeposit,
+}: PixPaymentCardProps) {
+  const [copied, setCopied] = useState(false);
+
+  async function handleCopy() {
+    try {
+      await navigator.clipboard.writeText(brCode);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      // Clipboard API unavailable — the code stays selectable below
+    }
+  }
+
+  return (
+    <div className="flex flex-col items-center gap-4 text-center">
+      <div className="space-y-1">
+        <p className="text-sm font-semibold text-foreground">
+          {isDeposit
+            ? `Pague o sinal de ${formatCurrency(amount)} com PIX`
+            : `Pague ${formatCurrency(amount)} com PIX`}
+        </p>
+        <p className="text-xs text-foreground-muted">
+          Escaneie o QR code ou copie o código no app do seu banco.
+          {expiresAt &&
+            ` Válido até ${expiresAt.toLocaleString("pt-BR", {
+              day: "2-digit",
+              month: "2-digit",
+              hour: "2-digit",
+              minute: "2-digit",
+              timeZone: "America/Sao_Paulo",
+            })}.`}
+        </p>
+      </div>
+
+      <Image
+        src={qrCodeImage}
+        alt="QR code PIX do pedido"
+        width={200}
+        height={200}
+        unoptimized
+        className="rounded-lg border border-line bg-white p-2"
+      />
+
+      <p className="w-full break-all rounded-lg bg-surface-subtle px-3 py-2 font-mono text-xs text-foreground-muted select-all">
+        {brCode}
+      </p>
+
+      <button
+        type="button"
+        onClick={handleCopy}
+        className={[
+          "w-full rounded-xl py-3 px-4 text-sm font-semibold transition-colors",
+          copied
+            ? "bg-green-600 text-white"
+            : "bg-foreground text-surface hover:opacity-90",
+        ].join(" ")}
+      >
+        {copied ? "Copiado!" : "Copiar código PIX"}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,284 @@
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import type { Metadata } from "next";
+import { getOrderTrackingUseCase } from "@/infra/composition";
+import { FulfillmentType } from "@/domain/order/Order";
+import { formatItemOption } from "@/domain/product/ProductOption";
+import { formatWeight } from "@/shared/utils/formatWeight";
+import type { OrderTrackingView } from "@/application/order/GetOrderTrackingUseCase";
+import { Card } from "../../../../_components/Card";
+import { OrderTrackingTimeline } from "./_components/OrderTrackingTimeline";
+import { PixPaymentCard } from "./_components/PixPaymentCard";
+
+// ─── Route params ─────────────────────────────────────────────────────────────
+
+interface Props {
+  params: Promise<{ storeSlug: string; token: string }>;
+}
+
+// ─── Metadata ─────────────────────────────────────────────────────────────────
+
+export const metadata: Metadata = {
+  title: "Acompanhar pedido",
+  robots: { index: false },
+};
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+const formatCurrency = (n: number) =>
+  n.toLocaleString("pt-BR", { style: "currency", currency: "BRL" });
+
+function formatDeliveryDate(date: Date): string {
+  return date.toLocaleDateString("pt-BR", {
+    weekday: "long",
+    day: "numeric",
+    month: "long",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+function formatAddress(order: OrderTrackingView["order"]): string | null {
+  const street = [order.deliveryStreet, order.deliveryNumber]
+    .filter(Boolean)
+    .join(", ");
+  const parts = [street, order.deliveryNeighborhood, order.deliveryCity].filter(
+    Boolean,
+  );
+  return parts.length > 0 ? parts.join(" · ") : order.shippingAddress;
+}
+
+function formatPickupAddress(
+  addr: NonNullable<OrderTrackingView["store"]["pickupAddress"]>,
+): string {
+  return [
+    addr.locationName,
+    `${addr.street}, ${addr.number}`,
+    addr.neighborhood,
+    addr.city,
+    addr.complement ?? undefined,
+    addr.reference ? `Ref: ${addr.reference}` : undefined,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+}
+
+function SectionLabel({ children }: { children: React.ReactNode }) {
+  return (
+    <p className="text-xs font-semibold uppercase tracking-widest text-foreground-muted">
+      {children}
+    </p>
+  );
+}
+
+// ─── Page ─────────────────────────────────────────────────────────────────────
+
+/**
+ * /catalog/[storeSlug]/pedido/[token]
+ *
+ * Public order tracking page — no auth required; the unguessable token in
+ * the URL is the credential.  The link is shared with the customer after
+ * checkout and in the store's WhatsApp messages ({link}).
+ *
+ * Always rendered fresh so status changes show up on reload.
+ */
+export const dynamic = "force-dynamic";
+
+export default async function OrderTrackingPage({ params }: Props) {
+  const { storeSlug, token } = await params;
+
+  let view: OrderTrackingView;
+  try {
+    view = await getOrderTrackingUseCase.execute(storeSlug, token);
+  } catch {
+    notFound();
+  }
+
+  const { store, order, pix, timeline } = view;
+  const isPickup = order.fulfillmentType === FulfillmentType.PICKUP;
+
+  const waDigits = store.whatsapp.replace(/\D/g, "");
+  const waUrl = waDigits
+    ? `https://wa.me/${waDigits.startsWith("55") ? waDigits : `55${waDigits}`}?text=${encodeURIComponent(
+        order.orderNumber != null
+          ? `Olá! Gostaria de falar sobre o pedido nº ${order.orderNumber}.`
+          : "Olá! Gostaria de falar sobre o meu pedido.",
+      )}`
+    : null;
+
+  const address = isPickup
+    ? store.pickupAddress
+      ? formatPickupAddress(store.pickupAddress)
+      : "Endereço de retirada será informado pela loja"
+    : formatAddress(order);
+
+  return (
+    <div className="min-h-dvh bg-surface-subtle px-4 py-10">
+      <div className="mx-auto w-full max-w-md space-y-6">
+        {/* ── Header ────────────────────────────────────────────────────── */}
+        <div className="space-y-1 text-center">
+          <Link
+            href={`/catalog/${store.slug}`}
+            className="text-sm font-medium text-foreground-muted hover:text-foreground transition-colors"
+          >
+            {store.name}
+          </Link>
+          <h1 className="text-2xl font-bold tracking-tight text-foreground">
+            {order.orderNumber != null
+              ? `Pedido #${order.orderNumber}`
+              : "Seu pedido"}
+          </h1>
+          <p className="text-sm text-foreground-muted">
+            Olá, {order.customerFirstName}! Acompanhe aqui o andamento.
+          </p>
+        </div>
+
+        {/* ── Timeline ──────────────────────────────────────────────────── */}
+        <Card>
+          <div className="flex flex-col gap-4">
+            <SectionLabel>Andamento</SectionLabel>
+            <OrderTrackingTimeline steps={timeline} />
+          </div>
+        </Card>
+
+        {/* ── PIX payment — approved orders waiting for payment ──────────── */}
+        {pix && (
+          <Card>
+            <PixPaymentCard
+              brCode={pix.brCode}
+              qrCodeImage={pix.qrCodeImage}
+              amount={pix.amount}
+              expiresAt={pix.expiresAt}
+              isDeposit={pix.isDeposit}
+            />
+          </Card>
+        )}
+
+        {/* ── Logistics ─────────────────────────────────────────────────── */}
+        <Card>
+          <div className="grid grid-cols-2 gap-x-4 gap-y-3 text-sm">
+            <div>
+              <p className="text-xs text-foreground-muted">Modalidade</p>
+              <p className="mt-0.5 font-medium text-foreground">
+                {isPickup
+                  ? `Retirada${order.pickupTime ? ` · ${order.pickupTime}` : ""}`
+                  : "Entrega em domicílio"}
+              </p>
+            </div>
+            <div>
+              <p className="text-xs text-foreground-muted">Data prevista</p>
+              <p className="mt-0.5 font-medium text-foreground capitalize">
+                {formatDeliveryDate(order.deliveryDate)}
+              </p>
+            </div>
+            {address && (
+              <div className="col-span-2">
+                <p className="text-xs text-foreground-muted">
+                  {isPickup ? "Endereço de retirada" : "Endereço de entrega"}
+                </p>
+                <p className="mt-0.5 font-medium text-foreground leading-snug">
+                  {address}
+                </p>
+              </div>
+            )}
+          </div>
+        </Card>
+
+        {/* ── Items + totals ────────────────────────────────────────────── */}
+        <Card>
+          <div className="flex flex-col gap-3 text-sm">
+            <SectionLabel>Itens</SectionLabel>
+            <div className="flex flex-col gap-2">
+              {order.items.map((item, idx) => (
+                <div
+                  key={idx}
+                  className="flex items-start justify-between gap-3"
+                >
+                  <div className="flex-1 min-w-0">
+                    <span className="font-medium text-foreground">
+                      {item.productName}
+                    </span>
+                    {item.variantLabel && (
+                      <span className="text-foreground-muted">
+                        {" "}
+                        − {item.variantLabel}
+                      </span>
+                    )}
+                    <span className="text-foreground-muted">
+                      {" "}
+                      × {item.quantity}
+                    </span>
+                    {item.options.map((option, i) => (
+                      <p key={i} className="text-xs text-foreground-muted">
+                        {formatItemOption(option)}
+                      </p>
+                    ))}
+                    {item.weightKg !== null && (
+                      <p className="text-xs text-foreground-muted">
+                        {item.finalWeightKg !== null
+                          ? `Peso final: ${formatWeight(item.finalWeightKg, "kg")}`
+                          : `Peso: ${formatWeight(item.weightKg, "kg")} · preço estimado`}
+                      </p>
+                    )}
+                    {item.notes && (
+                      <p className="text-xs text-foreground-muted">
+                        Obs.: {item.notes}
+                      </p>
+                    )}
+                  </div>
+                  <span className="font-semibold text-foreground shrink-0">
+                    {formatCurrency(item.lineTotal)}
+                  </span>
+                </div>
+              ))}
+            </div>
+
+            <hr className="border-line" />
+
+            {order.deliveryFee > 0 && (
+              <>
+                <div className="flex justify-between">
+                  <span className="text-foreground-muted">Subtotal</span>
+                  <span>{formatCurrency(order.subtotal)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-foreground-muted">Taxa de entrega</span>
+                  <span>{formatCurrency(order.deliveryFee)}</span>
+                </div>
+              </>
+            )}
+            <div className="flex justify-between font-semibold text-foreground">
+              <span>Total</span>
+              <span>{formatCurrency(order.total)}</span>
+            </div>
+            {order.paid > 0 && (
+              <>
+                <div className="flex justify-between">
+                  <span className="text-foreground-muted">Pago</span>
+                  <span>{formatCurrency(order.paid)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-foreground-muted">Restante</span>
+                  <span>{formatCurrency(order.outstanding)}</span>
+                </div>
+              </>
+            )}
+          </div>
+        </Card>
+
+        {/* ── Contact CTA ───────────────────────────────────────────────── */}
+        {waUrl && (
+          <a
+            href={waUrl}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="flex items-center justify-center gap-2 rounded-xl py-3 px-4 text-sm font-semibold text-white shadow-sm transition-opacity hover:opacity-90 active:opacity-80"
+            style={{ backgroundColor: "#25D366" }}
+          >
+            Falar com {store.name}
+          </a>
+        )}
+      </div>
+    </div>
+  );
+}
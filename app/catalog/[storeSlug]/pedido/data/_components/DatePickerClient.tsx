@@ -9,15 +9,28 @@ import {
   setFulfillmentType,
   setShippingCep,
   setPickupSlot,
+  cartTotalQty,
 } from "../../../_lib/cart";
 import { Button } from "../../../../../_components/Button";
 import { Card } from "../../../../../_components/Card";
+import {
+  findCapacityShortfall,
+  type CapacityRequestLine,
+  type DailyCapacity,
+} from "@/domain/production/ProductionCapacity";
+import {
+  NO_AVAILABILITY_RULE,
+  findAvailabilityIssue,
+  type AvailabilityRule,
+} from "@/domain/product/ProductAvailability";
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
 interface DayEntry {
   date: string; // YYYY-MM-DD
   isOpen: boolean;
+  /** Production capacity of the date. Absent = not limited. */
+  capacity?: DailyCapacity;
 }
 
 interface PickupSlot {
@@ -26,6 +39,21 @@ interface PickupSlot {
   startTime: string;
   endTime: string;
   isActive: boolean;
+  /** Orders still bookable on the selected date. null = unlimited. */
+  remainingOrders: number | null;
+  /** Item units still bookable on the selected date. null = unlimited. */
+  remainingItems: number | null;
+  isFull: boolean;
+}
+
+/** Product availability rules and what they are checked against. */
+interface AvailabilityRules {
+  /** productId → rule. Products without a rule are omitted. */
+  byProduct: Record<string, AvailabilityRule>;
+  /** Server's today, YYYY-MM-DD (UTC). */
+  today: string;
+  /** Lead time of products that set none. */
+  minimumAdvanceDays: number;
 }
 
 interface CalendarCell {
@@ -44,6 +72,35 @@ interface WeekRow {
 
 const DOW_LABELS = ["Dom", "Seg", "Ter", "Qua", "Qui", "Sex", "Sáb"];
 
+/** True when an order with `units` items still fits the slot on the selected date. */
+function slotFits(slot: PickupSlot, units: number): boolean {
+  if (slot.isFull) return false;
+  return slot.remainingItems === null || slot.remainingItems >= units;
+}
+
+/** True when the cart no longer fits the store's production capacity of the day. */
+function daySoldOut(day: DayEntry, lines: CapacityRequestLine[]): boolean {
+  if (!day.capacity) return false;
+  return findCapacityShortfall(day.capacity, lines) !== null;
+}
+
+/** True when some cart product is not made on the day (weekday, season, lead time). */
+function dayUnavailableForCart(
+  date: string,
+  lines: CapacityRequestLine[],
+  rules: AvailabilityRules,
+): boolean {
+  return lines.some(
+    (l) =>
+      findAvailabilityIssue(
+        rules.byProduct[l.productId] ?? NO_AVAILABILITY_RULE,
+        date,
+        rules.today,
+        rules.minimumAdvanceDays,
+      ) !== null,
+  );
+}
+
 /** Strip non-digit chars and return up to 8 digits. */
 function rawCepDigits(value: string): string {
   return value.replace(/\D/g, "").slice(0, 8);
@@ -166,6 +223,7 @@ interface DatePickerClientProps {
   storeSlug: string;
   storeName: string;
   days: DayEntry[];
+  availability: AvailabilityRules;
 }
 
 /**
@@ -176,7 +234,8 @@ interface DatePickerClientProps {
  * Responsibilities:
  * 1. Redirect to catalog when cart is empty.
  * 2. Pre-select deliveryDate already stored in cart (back-navigation UX).
- * 3. Render a calendar grid — open days selectable, closed days disabled.
+ * 3. Render a calendar grid — open days selectable, closed days disabled,
+ *    and so are days on which some cart item is not made.
  * 4. Persist the selected date to the cart (sessionStorage) on "Continuar".
  * 5. Navigate to /pedido/revisar.
  */
@@ -184,6 +243,7 @@ export function DatePickerClient({
   storeSlug,
   storeName,
   days,
+  availability,
 }: DatePickerClientProps) {
   const router = useRouter();
   const [selected, setSelected] = useState<string | null>(null);
@@ -199,6 +259,10 @@ export function DatePickerClient({
   const [pickupSlots, setPickupSlots] = useState<PickupSlot[]>([]);
   const [slotsLoading, setSlotsLoading] = useState(false);
   const [pickupSlotId, setPickupSlotId] = useState<string | null>(null);
+  // Total units in the cart — a slot is only offered when the whole order fits
+  const [cartUnits, setCartUnits] = useState(0);
+  // Cart lines — a date is sold out when they exceed its production capacity
+  const [cartLines, setCartLines] = useState<CapacityRequestLine[]>([]);
 
   // Hydrate: read existing state from cart & guard empty cart
   useEffect(() => {
@@ -215,15 +279,26 @@ export function DatePickerClient({
       setCepStatus("valid");
     }
     if (cart.pickupSlotId) setPickupSlotId(cart.pickupSlotId);
+    setCartUnits(cartTotalQty(cart));
+    const lines = cart.items.map((i) => ({
+      productId: i.productId,
+      variantId: i.variantId,
+      quantity: i.quantity,
+    }));
+    setCartLines(lines);
     if (cart.deliveryDate) {
-      // Re-select if still in available list
+      // Re-select if still in available list and the cart still fits the day
       const stillAvailable = days.some(
-        (d) => d.date === cart.deliveryDate && d.isOpen,
+        (d) =>
+          d.date === cart.deliveryDate &&
+          d.isOpen &&
+          !daySoldOut(d, lines) &&
+          !dayUnavailableForCart(d.date, lines, availability),
       );
       if (stillAvailable) setSelected(cart.deliveryDate);
     }
     setHydrated(true);
-  }, [storeSlug, days, router]);
+  }, [storeSlug, days, availability, router]);
 
   // Fetch pickup slots whenever selected date or fulfillment type change
   useEffect(() => {
@@ -233,17 +308,19 @@ export function DatePickerClient({
       setPickupSlotId(null);
       return;
     }
-    const dow = parseUtcDate(selected).getUTCDay();
     let cancelled = false;
     setSlotsLoading(true);
-    fetch(`/api/catalog/${storeSlug}/pickup-slots?dayOfWeek=${dow}`)
+    // Querying by date returns the remaining capacity of each slot on that day
+    fetch(`/api/catalog/${storeSlug}/pickup-slots?date=${selected}`)
       .then((r) => r.json() as Promise<{ success: boolean; data: { slots: PickupSlot[] } }>)
       .then(({ data: { slots } }) => {
         if (cancelled) return;
         setPickupSlots(slots.filter((s) => s.isActive));
-        // Keep previously chosen slot only if it's still valid for this day
+        // Keep previously chosen slot only if it's still valid and not full for this day
         setPickupSlotId((prev) =>
-          slots.some((s) => s.id === prev && s.isActive) ? prev : null,
+          slots.some((s) => s.id === prev && s.isActive && slotFits(s, cartUnits))
+            ? prev
+            : null,
         );
       })
       .catch(() => {
@@ -255,7 +332,7 @@ export function DatePickerClient({
     return () => {
       cancelled = true;
     };
-  }, [selected, fulfillmentType, storeSlug]);
+  }, [selected, fulfillmentType, storeSlug, cartUnits]);
 
   // ── CEP blur handler ──────────────────────────────────────────────────────
   async function handleCepBlur() {
@@ -547,7 +624,13 @@ export function DatePickerClient({
                         );
                       }
 
-                      const { date, isOpen } = cell.day;
+                      const { date } = cell.day;
+                      const soldOut =
+                        cell.day.isOpen && daySoldOut(cell.day, cartLines);
+                      const notMade =
+                        cell.day.isOpen &&
+                        dayUnavailableForCart(date, cartLines, availability);
+                      const isOpen = cell.day.isOpen && !soldOut && !notMade;
                       const isSelected = selected === date;
                       const dayNum = parseInt(date.slice(8, 10), 10);
 
@@ -555,14 +638,14 @@ export function DatePickerClient({
                         <div key={date} role="gridcell">
                           <button
                             type="button"
-                            aria-label={`${isOpen ? "Selecionar" : "Indisponível"}: ${formatLongDate(date)}`}
+                            aria-label={`${isOpen ? "Selecionar" : soldOut ? "Esgotado" : "Indisponível"}: ${formatLongDate(date)}`}
                             aria-pressed={isSelected}
                             aria-disabled={!isOpen}
                             disabled={!isOpen}
                             onClick={() => isOpen && handleSelect(date)}
                             className={[
                               // Shape and size — square tap target
-                              "w-full aspect-square rounded-lg flex items-center justify-center",
+                              "w-full aspect-square rounded-lg flex flex-col items-center justify-center",
                               "text-sm font-medium select-none transition-all duration-150",
                               "focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-accent focus-visible:ring-offset-1",
                               // State styles
@@ -570,10 +653,17 @@ export function DatePickerClient({
                                 ? "bg-gray-200 border-2 border-black font-bold shadow-md ring-2 ring-accent ring-offset-1"
                                 : isOpen
                                   ? "bg-surface text-foreground border border-line hover:bg-accent/10 hover:border-accent/40 cursor-pointer"
-                                  : "bg-surface-subtle text-foreground-muted cursor-not-allowed opacity-40 line-through",
+                                  : soldOut
+                                    ? "bg-surface-subtle text-foreground-muted cursor-not-allowed opacity-60"
+                                    : "bg-surface-subtle text-foreground-muted cursor-not-allowed opacity-40 line-through",
                             ].join(" ")}
                           >
                             {dayNum}
+                            {soldOut && (
+                              <span className="text-[9px] leading-none font-semibold text-danger">
+                                Esgotado
+                              </span>
+                            )}
                           </button>
                         </div>
                       );
@@ -604,6 +694,12 @@ export function DatePickerClient({
                 </span>
               </div>
             </div>
+            {cartLines.some((l) => availability.byProduct[l.productId]) && (
+              <p className="text-xs text-foreground-muted">
+                Alguns itens do carrinho só são feitos em dias ou épocas
+                específicos — as datas mostradas já consideram isso.
+              </p>
+            )}
           </div>
         </Card>
         {/* ── Pickup slot picker ──────────────────────────────────────────────── */}
@@ -638,14 +734,17 @@ export function DatePickerClient({
               >
                 {pickupSlots.map((slot) => {
                   const isChosen = pickupSlotId === slot.id;
-                  const label = `${slot.startTime} – ${slot.endTime}`;
+                  const fits = slotFits(slot, cartUnits);
                   return (
                     <button
                       key={slot.id}
                       type="button"
                       role="radio"
                       aria-checked={isChosen}
+                      aria-disabled={!fits}
+                      disabled={!fits}
                       onClick={() =>
+                        fits &&
                         setPickupSlotId((prev) =>
                           prev === slot.id ? null : slot.id,
                         )
@@ -653,11 +752,13 @@ export function DatePickerClient({
                       className={[
                         "relative flex flex-col items-center justify-center gap-0.5",
                         "rounded-xl border px-3 py-3.5 text-sm font-semibold",
-                        "transition-all duration-150 cursor-pointer",
+                        "transition-all duration-150",
                         "focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-accent focus-visible:ring-offset-1",
                         isChosen
-                          ? "bg-gray-200 border-2 border-black shadow-md ring-2 ring-accent ring-offset-1"
-                          : "bg-surface text-foreground border-line hover:border-accent/40 hover:bg-accent/5",
+                          ? "bg-gray-200 border-2 border-black shadow-md ring-2 ring-accent ring-offset-1 cursor-pointer"
+                          : fits
+                            ? "bg-surface text-foreground border-line hover:border-accent/40 hover:bg-accent/5 cursor-pointer"
+                            : "bg-surface-subtle text-foreground-muted border-line cursor-not-allowed opacity-50",
                       ].join(" ")}
                     >
                       {isChosen && (
@@ -671,6 +772,20 @@ export function DatePickerClient({
                       <span className="text-[11px] font-normal opacity-80">
                         até {slot.endTime}
                       </span>
+                      {!fits ? (
+                        <span className="text-[10px] font-semibold uppercase tracking-wide text-danger">
+                          {slot.isFull ? "Esgotado" : "Sem espaço para o pedido"}
+                        </span>
+                      ) : (
+                        slot.remainingOrders !== null &&
+                        slot.remainingOrders <= 3 && (
+                          <span className="text-[10px] font-medium text-amber-700">
+                            {slot.remainingOrders === 1
+                              ? "Última vaga"
+                              : `${slot.remainingOrders} vagas`}
+                          </span>
+                        )
+                      )}
                     </button>
                   );
                 })}
@@ -3,9 +3,16 @@ import type { Metadata } from "next";
 import {
   getStoreCatalogUseCase,
   getStoreScheduleUseCase,
+  getProductionCapacityUseCase,
 } from "@/infra/composition";
 import { DatePickerClient } from "./_components/DatePickerClient";
 import type { ScheduleDay } from "@/domain/schedule/StoreSchedule";
+import type { DailyCapacity } from "@/domain/production/ProductionCapacity";
+import {
+  effectiveLeadTime,
+  hasAvailabilityRule,
+  type AvailabilityRule,
+} from "@/domain/product/ProductAvailability";
 
 // ─── Route params ─────────────────────────────────────────────────────────────
 
@@ -50,8 +57,11 @@ export async function generateMetadata({ params }: Props): Promise<Metadata> {
  *
  * Runs entirely on the server:
  * 1. Resolves storeSlug → storeId (via catalog use case).
- * 2. Fetches availability for the next 30 days.
- * 3. Passes the pre-serialised schedule to the client component.
+ * 2. Fetches availability and production capacity for the next 30 days,
+ *    starting at the shortest lead time of any product.
+ * 3. Passes the pre-serialised schedule and the products' availability
+ *    rules to the client component, which keeps only the days every cart
+ *    item can be made on.
  *
  * Only open, editable days are passed to the client — the server already
  * filters out closed and past dates so the client receives a clean list.
@@ -69,9 +79,24 @@ export default async function EscolherDataPage({ params }: Props) {
     notFound();
   }
 
-  const from = addDays(todayUtc(), catalog.minimumAdvanceDays);
+  // Products with their own lead time may be ordered sooner than the store's
+  const today = todayUtc();
+  const leadTimes = catalog.products.map((p) =>
+    effectiveLeadTime(p.availability, catalog.minimumAdvanceDays),
+  );
+  const from = addDays(
+    today,
+    Math.min(catalog.minimumAdvanceDays, ...leadTimes),
+  );
   const to = addDays(from, 29); // 30-day window
 
+  const availabilityByProduct: Record<string, AvailabilityRule> = {};
+  for (const product of catalog.products) {
+    if (hasAvailabilityRule(product.availability)) {
+      availabilityByProduct[product.id] = product.availability;
+    }
+  }
+
   // 2. Fetch schedule — falls back gracefully if service throws
   let days: ScheduleDay[] = [];
   try {
@@ -86,11 +111,34 @@ export default async function EscolherDataPage({ params }: Props) {
     days = [];
   }
 
+  // 3. Production capacity — without it every open day stays selectable and
+  //    the limit is still enforced when the order is placed
+  let capacity: DailyCapacity[] = [];
+  try {
+    capacity = await getProductionCapacityUseCase.execute({
+      storeId: catalog.storeId,
+      from,
+      to,
+    });
+  } catch {
+    capacity = [];
+  }
+  const capacityByDate = new Map(capacity.map((c) => [c.date, c]));
+
   return (
     <DatePickerClient
       storeSlug={storeSlug}
       storeName={catalog.name}
-      days={days.map((d) => ({ date: d.date, isOpen: d.isOpen }))}
+      days={days.map((d) => ({
+        date: d.date,
+        isOpen: d.isOpen,
+        capacity: capacityByDate.get(d.date),
+      }))}
+      availability={{
+        byProduct: availabilityByProduct,
+        today,
+        minimumAdvanceDays: catalog.minimumAdvanceDays,
+      }}
     />
   );
 }
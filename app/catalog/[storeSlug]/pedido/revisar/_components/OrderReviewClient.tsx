@@ -1,19 +1,28 @@
 ﻿"use client";
 
 import { useState, useEffect, useMemo } from "react";
+import Link from "next/link";
 import { useRouter } from "next/navigation";
 import type { StorePickupAddress } from "@/domain/store/types";
+import type { CustomerAddress } from "@/domain/customer/CustomerAddress";
+import { orderTrackingPath } from "@/domain/order/Order";
+import { formatItemOption } from "@/domain/product/ProductOption";
+import { formatWeight } from "@/shared/utils/formatWeight";
 import {
   readCart,
   writeCart,
   clearCart,
   removeItem,
   updateItemQuantity,
-  cartItemKey,
+  itemKey,
+  itemOptionSelections,
   setDeliveryAddress,
   setDeliveryFee,
+  setCouponCode,
+  ensureIdempotencyKey,
 } from "../../../_lib/cart";
 import type { CartItem, CartSession } from "../../../_lib/cart";
+import { previewCoupon, type CouponPreview } from "../../../_lib/coupon";
 import {
   CUSTOMER_SESSION_KEY,
   type CustomerSession,
@@ -27,8 +36,11 @@ import { InlineFeedback } from "../../../../../_components/InlineFeedback";
 interface OrderConfirmation {
   reference: string;
   orderNumber: number | null;
+  trackingToken: string;
   storeName: string;
   subtotal: number;
+  discount: number;
+  couponCode: string | null;
   deliveryFee: number;
   total: number;
   deliveryDate: string;
@@ -45,6 +57,7 @@ interface OrderConfirmation {
   items: {
     productName: string;
     variantLabel: string | null;
+    weightKg: number | null;
     quantity: number;
     unitPrice: number;
     lineTotal: number;
@@ -105,12 +118,8 @@ function Divider() {
 interface EditableItemRowProps {
   item: CartItem;
   disabled: boolean;
-  onQuantityChange: (
-    productId: string,
-    variantId: string | null,
-    newQty: number,
-  ) => void;
-  onRemove: (productId: string, variantId: string | null) => void;
+  onQuantityChange: (key: string, newQty: number) => void;
+  onRemove: (key: string) => void;
 }
 
 function EditableItemRow({
@@ -119,7 +128,7 @@ function EditableItemRow({
   onQuantityChange,
   onRemove,
 }: EditableItemRowProps) {
-  const key = cartItemKey(item.productId, item.variantId);
+  const key = itemKey(item);
 
   return (
     <div className="flex flex-col gap-2 rounded-lg border border-line p-3 bg-surface-subtle">
@@ -134,6 +143,24 @@ function EditableItemRow({
               {item.variantLabel}
             </p>
           )}
+          {item.options?.map((option) => (
+            <p
+              key={`${option.groupId}:${option.optionId ?? ""}`}
+              className="mt-0.5 text-xs text-foreground-muted"
+            >
+              {formatItemOption(option)}
+            </p>
+          ))}
+          {item.weightKg && (
+            <p className="mt-0.5 text-xs text-foreground-muted">
+              Peso: {formatWeight(item.weightKg, "kg")} · preço estimado
+            </p>
+          )}
+          {item.notes && (
+            <p className="mt-0.5 text-xs italic text-foreground-muted">
+              Obs.: {item.notes}
+            </p>
+          )}
         </div>
         <p className="text-sm font-semibold text-foreground shrink-0">
           {formatCurrency(item.lineTotal)}
@@ -149,13 +176,7 @@ function EditableItemRow({
             type="button"
             aria-label="Diminuir quantidade"
             disabled={disabled || item.quantity <= 1}
-            onClick={() =>
-              onQuantityChange(
-                item.productId,
-                item.variantId,
-                item.quantity - 1,
-              )
-            }
+            onClick={() => onQuantityChange(key, item.quantity - 1)}
             className={[
               "flex h-6 w-6 items-center justify-center rounded border text-xs font-bold",
               "border-line bg-surface transition-colors duration-100",
@@ -176,13 +197,7 @@ function EditableItemRow({
             type="button"
             aria-label="Aumentar quantidade"
             disabled={disabled}
-            onClick={() =>
-              onQuantityChange(
-                item.productId,
-                item.variantId,
-                item.quantity + 1,
-              )
-            }
+            onClick={() => onQuantityChange(key, item.quantity + 1)}
             className={[
               "flex h-6 w-6 items-center justify-center rounded border text-xs font-bold",
               "border-line bg-surface transition-colors duration-100",
@@ -203,7 +218,7 @@ function EditableItemRow({
           type="button"
           aria-label={`Remover ${item.productName}`}
           disabled={disabled}
-          onClick={() => onRemove(item.productId, item.variantId)}
+          onClick={() => onRemove(key)}
           className={[
             "text-xs text-danger transition-colors duration-100 ring-focus rounded",
             disabled ? "cursor-not-allowed opacity-40" : "hover:underline",
@@ -219,26 +234,31 @@ function EditableItemRow({
 // â”€â”€ Success view â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€
 
 interface SuccessViewProps {
+  storeSlug: string;
   confirmation: OrderConfirmation;
   initialPickupAddress: StorePickupAddress | null;
   onNewOrder: () => void;
 }
 
 function SuccessView({
+  storeSlug,
   confirmation,
   initialPickupAddress,
   onNewOrder,
 }: SuccessViewProps) {
+  const trackingPath = orderTrackingPath(storeSlug, confirmation.trackingToken);
+
   const waUrl = useMemo(() => {
     if (!confirmation.storeWhatsapp) return null;
     const digits = confirmation.storeWhatsapp.replace(/\D/g, "");
     const normalized = digits.startsWith("55") ? digits : `55${digits}`;
-    const msg =
+    const greeting =
       confirmation.orderNumber != null
         ? `Olá! Gostaria de verificar o pedido nº ${confirmation.orderNumber}.`
         : `Olá! Gostaria de verificar o meu pedido (ref. ${confirmation.reference.slice(0, 8)}).`;
+    const msg = `${greeting}\nAcompanhamento: ${window.location.origin}${trackingPath}`;
     return `https://wa.me/${normalized}?text=${encodeURIComponent(msg)}`;
-  }, [confirmation]);
+  }, [confirmation, trackingPath]);
 
   return (
     <div className="min-h-dvh bg-surface-subtle flex flex-col items-center justify-center px-4 py-12">
@@ -300,10 +320,20 @@ function SuccessView({
               Entrar em contato
             </a>
           )}
+          <Link
+            href={trackingPath}
+            className="flex items-center justify-center rounded-xl border border-line bg-surface py-3 px-4 text-sm font-semibold text-foreground shadow-sm transition-colors hover:bg-surface-hover"
+          >
+            Acompanhar pedido
+          </Link>
           <Button variant="secondary" onClick={onNewOrder} className="w-full">
             Aguardar retorno
           </Button>
         </div>
+        <p className="text-center text-xs text-foreground-muted">
+          Assim que a loja aprovar o pedido, o PIX para pagamento aparece na
+          página de acompanhamento.
+        </p>
 
         {/* Compact summary */}
         <Card>
@@ -392,20 +422,31 @@ function SuccessView({
 
             <Divider />
 
+            {((confirmation.fulfillmentType === "DELIVERY" &&
+              confirmation.deliveryFee > 0) ||
+              confirmation.discount > 0) && (
+              <div className="flex justify-between text-sm">
+                <span className="text-foreground-muted">Subtotal</span>
+                <span>{formatCurrency(confirmation.subtotal)}</span>
+              </div>
+            )}
+            {confirmation.discount > 0 && (
+              <div className="flex justify-between text-sm">
+                <span className="text-foreground-muted">
+                  Desconto
+                  {confirmation.couponCode && ` (${confirmation.couponCode})`}
+                </span>
+                <span className="text-green-600">
+                  − {formatCurrency(confirmation.discount)}
+                </span>
+              </div>
+            )}
             {confirmation.fulfillmentType === "DELIVERY" &&
               confirmation.deliveryFee > 0 && (
-                <>
-                  <div className="flex justify-between text-sm">
-                    <span className="text-foreground-muted">Subtotal</span>
-                    <span>{formatCurrency(confirmation.subtotal)}</span>
-                  </div>
-                  <div className="flex justify-between text-sm">
-                    <span className="text-foreground-muted">
-                      Taxa de entrega
-                    </span>
-                    <span>{formatCurrency(confirmation.deliveryFee)}</span>
-                  </div>
-                </>
+                <div className="flex justify-between text-sm">
+                  <span className="text-foreground-muted">Taxa de entrega</span>
+                  <span>{formatCurrency(confirmation.deliveryFee)}</span>
+                </div>
               )}
             {confirmation.fulfillmentType === "DELIVERY" &&
               confirmation.deliveryFee === 0 && (
@@ -420,6 +461,12 @@ function SuccessView({
               <span>Total</span>
               <span>{formatCurrency(confirmation.total)}</span>
             </div>
+            {confirmation.items.some((item) => item.weightKg !== null) && (
+              <p className="text-xs text-foreground-muted">
+                Total estimado — o valor final dos itens vendidos por peso é
+                confirmado na pesagem.
+              </p>
+            )}
           </div>
         </Card>
 
@@ -443,11 +490,14 @@ function SuccessView({
 interface OrderReviewClientProps {
   storeSlug: string;
   initialPickupAddress: StorePickupAddress | null;
+  /** Addresses saved by the signed-in customer; empty when signed out. */
+  savedAddresses?: CustomerAddress[];
 }
 
 export function OrderReviewClient({
   storeSlug,
   initialPickupAddress,
+  savedAddresses = [],
 }: OrderReviewClientProps) {
   const router = useRouter();
 
@@ -466,6 +516,12 @@ export function OrderReviewClient({
     useState<string>("");
   const [deliveryCity, setDeliveryCityState] = useState<string>("");
   const [deliveryFee, setDeliveryFeeState] = useState<number | null>(null);
+  // Preview of the code it was fetched for; ignored once the code changes
+  const [couponPreview, setCouponPreview] = useState<{
+    code: string;
+    data: CouponPreview;
+  } | null>(null);
+  const [couponNotice, setCouponNotice] = useState<string | null>(null);
   const [submitError, setSubmitError] = useState<string | null>(null);
   const [confirmation, setConfirmation] = useState<OrderConfirmation | null>(
     null,
@@ -534,6 +590,46 @@ export function OrderReviewClient({
     setPageState("review");
   }, [storeSlug, router]);
 
+  // ── Coupon preview ──────────────────────────────────────────────────────────
+  // Re-validated with the customer's WhatsApp (per-customer limits) and on
+  // every item or date change; a code that no longer applies is dropped from
+  // the cart.  Address edits keep the items array, so they don't re-validate.
+  const couponCode = cartSession?.couponCode ?? null;
+  const couponItems = cartSession?.items;
+  const couponDate = cartSession?.deliveryDate ?? null;
+  const customerWhatsapp = customer?.whatsapp;
+  const coupon =
+    couponCode && couponPreview?.code === couponCode
+      ? couponPreview.data
+      : null;
+
+  useEffect(() => {
+    if (!couponItems || !couponCode) return;
+    let cancelled = false;
+    previewCoupon(
+      storeSlug,
+      couponCode,
+      { items: couponItems, deliveryDate: couponDate },
+      customerWhatsapp,
+    ).then((res) => {
+      if (cancelled) return;
+      if (res.success) {
+        setCouponPreview({ code: couponCode, data: res.data });
+        return;
+      }
+      setCouponNotice(`Cupom ${couponCode} removido: ${res.error}`);
+      // The stored cart is the one on screen — every update writes it first
+      const current = readCart();
+      if (!current) return;
+      const next = setCouponCode(current, null);
+      writeCart(next);
+      setCartSession(next);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [storeSlug, couponCode, couponItems, couponDate, customerWhatsapp]);
+
   // â”€â”€ Cart mutation helpers â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€
 
   function applyCartMutation(next: CartSession) {
@@ -547,25 +643,15 @@ export function OrderReviewClient({
     setCartSession(next);
   }
 
-  function handleQuantityChange(
-    productId: string,
-    variantId: string | null,
-    newQty: number,
-  ) {
+  function handleQuantityChange(key: string, newQty: number) {
     if (!cartSession) return;
-    const next = updateItemQuantity(
-      cartSession,
-      productId,
-      variantId,
-      newQty,
-      1,
-    );
+    const next = updateItemQuantity(cartSession, key, newQty, 1);
     applyCartMutation(next);
   }
 
-  function handleRemoveItem(productId: string, variantId: string | null) {
+  function handleRemoveItem(key: string) {
     if (!cartSession) return;
-    const next = removeItem(cartSession, productId, variantId);
+    const next = removeItem(cartSession, key);
     applyCartMutation(next);
   }
 
@@ -593,6 +679,14 @@ export function OrderReviewClient({
     setSubmitError(null);
     setPageState("submitting");
 
+    // Persist the key before sending so a retry (or a reload mid-request)
+    // replays the same submission instead of placing a second order.
+    const session = ensureIdempotencyKey(cartSession);
+    if (session !== cartSession) {
+      writeCart(session);
+      setCartSession(session);
+    }
+
     try {
       const res = await fetch("/api/orders", {
         method: "POST",
@@ -603,6 +697,9 @@ export function OrderReviewClient({
           items: cartSession.items.map((item) => ({
             productId: item.productId,
             variantId: item.variantId ?? null,
+            options: itemOptionSelections(item),
+            notes: item.notes ?? null,
+            weightKg: item.weightKg ?? null,
             quantity: item.quantity,
           })),
           fulfillmentType:
@@ -627,6 +724,8 @@ export function OrderReviewClient({
             fulfillmentType === "delivery" ? deliveryCity || null : null,
           deliveryDate: new Date(`${deliveryDate}T12:00:00`).toISOString(),
           notes: cartSession.notes ?? null,
+          couponCode: cartSession.couponCode ?? null,
+          idempotencyKey: session.idempotencyKey,
         }),
       });
 
@@ -673,6 +772,7 @@ export function OrderReviewClient({
   if (pageState === "success" && confirmation) {
     return (
       <SuccessView
+        storeSlug={storeSlug}
         confirmation={confirmation}
         initialPickupAddress={initialPickupAddress}
         onNewOrder={() => router.push(`/catalog/${storeSlug}`)}
@@ -683,10 +783,14 @@ export function OrderReviewClient({
   // â”€â”€ Render: review â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€
   const items = cartSession?.items ?? [];
   const subtotal = items.reduce((s, i) => s + i.lineTotal, 0);
-  const total =
+  const discount = coupon?.discount ?? 0;
+  const effectiveFee =
     fulfillmentType === "delivery" && deliveryFee !== null
-      ? subtotal + deliveryFee
-      : subtotal;
+      ? coupon?.freeDelivery
+        ? 0
+        : deliveryFee
+      : null;
+  const total = subtotal - discount + (effectiveFee ?? 0);
   // The "submitting" state is handled by an early return above,
   // so isSubmitting is always false here — kept for referential clarity.
   const isSubmitting = false;
@@ -764,7 +868,7 @@ export function OrderReviewClient({
               <div className="flex flex-col gap-2">
                 {items.map((item) => (
                   <EditableItemRow
-                    key={cartItemKey(item.productId, item.variantId)}
+                    key={itemKey(item)}
                     item={item}
                     disabled={isSubmitting}
                     onQuantityChange={handleQuantityChange}
@@ -778,25 +882,38 @@ export function OrderReviewClient({
 
             {/* Total */}
             <div className="flex flex-col gap-2">
-              {fulfillmentType === "delivery" && deliveryFee !== null && (
-                <>
-                  <div className="flex items-center justify-between text-sm">
-                    <p className="text-foreground-muted">Subtotal</p>
+              {(effectiveFee !== null || discount > 0) && (
+                <div className="flex items-center justify-between text-sm">
+                  <p className="text-foreground-muted">Subtotal</p>
+                  <p className="font-medium text-foreground">
+                    {formatCurrency(subtotal)}
+                  </p>
+                </div>
+              )}
+              {discount > 0 && (
+                <div className="flex items-center justify-between text-sm">
+                  <p className="text-foreground-muted">
+                    Desconto ({coupon?.code})
+                  </p>
+                  <p className="font-medium text-green-600">
+                    − {formatCurrency(discount)}
+                  </p>
+                </div>
+              )}
+              {effectiveFee !== null && (
+                <div className="flex items-center justify-between text-sm">
+                  <p className="text-foreground-muted">Taxa de entrega</p>
+                  {effectiveFee === 0 ? (
+                    <p className="font-medium text-green-600">Frete grátis</p>
+                  ) : (
                     <p className="font-medium text-foreground">
-                      {formatCurrency(subtotal)}
+                      {formatCurrency(effectiveFee)}
                     </p>
-                  </div>
-                  <div className="flex items-center justify-between text-sm">
-                    <p className="text-foreground-muted">Taxa de entrega</p>
-                    {deliveryFee === 0 ? (
-                      <p className="font-medium text-green-600">Frete grátis</p>
-                    ) : (
-                      <p className="font-medium text-foreground">
-                        {formatCurrency(deliveryFee)}
-                      </p>
-                    )}
-                  </div>
-                </>
+                  )}
+                </div>
+              )}
+              {couponNotice && (
+                <p className="text-xs text-amber-700">{couponNotice}</p>
               )}
               <div className="flex items-center justify-between">
                 <p className="text-sm font-semibold text-foreground">
@@ -806,6 +923,12 @@ export function OrderReviewClient({
                   {formatCurrency(total)}
                 </p>
               </div>
+              {items.some((item) => item.weightKg) && (
+                <p className="text-xs text-foreground-muted">
+                  Total estimado — o valor final dos itens vendidos por peso é
+                  confirmado na pesagem.
+                </p>
+              )}
             </div>
 
             <Divider />
@@ -893,6 +1016,37 @@ export function OrderReviewClient({
                       </span>
                     </div>
                   )}
+                  {/* Saved addresses — only those in the CEP the fee was quoted for */}
+                  {savedAddresses
+                    .filter(
+                      (a) => a.cep === (shippingCep ?? "").replace(/\D/g, ""),
+                    )
+                    .map((a) => (
+                      <button
+                        key={a.id}
+                        type="button"
+                        disabled={isSubmitting}
+                        onClick={() => {
+                          setDeliveryStreetState(a.street);
+                          setDeliveryNumberState(a.number);
+                          setDeliveryNeighborhoodState(a.neighborhood);
+                          setDeliveryCityState(a.city);
+                          if (cartSession) {
+                            const next = setDeliveryAddress(cartSession, {
+                              street: a.street,
+                              number: a.number,
+                              neighborhood: a.neighborhood,
+                              city: a.city,
+                            });
+                            writeCart(next);
+                            setCartSession(next);
+                          }
+                        }}
+                        className="mr-2 rounded-full border border-line px-3 py-1 text-xs text-foreground hover:border-accent disabled:opacity-50"
+                      >
+                        {a.label ?? `${a.street}, ${a.number}`}
+                      </button>
+                    ))}
                   <div className="grid grid-cols-2 gap-2">
                     <div className="col-span-2">
                       <label className="text-xs text-foreground-muted">
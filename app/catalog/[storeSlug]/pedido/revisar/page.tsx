@@ -1,6 +1,11 @@
 import type { Metadata } from "next";
-import { getStoreCatalogUseCase } from "@/infra/composition";
+import {
+  getStoreCatalogUseCase,
+  listCustomerAddressesUseCase,
+} from "@/infra/composition";
+import { getCustomerSession } from "@/infra/http/auth/getCustomerSession";
 import type { StorePickupAddress } from "@/domain/store/types";
+import type { CustomerAddress } from "@/domain/customer/CustomerAddress";
 import { OrderReviewClient } from "./_components/OrderReviewClient";
 
 // ─── Route params ─────────────────────────────────────────────────────────────
@@ -26,7 +31,8 @@ export async function generateMetadata({ params }: Props): Promise<Metadata> {
  * /catalog/[storeSlug]/pedido/revisar
  *
  * Public page — no auth required.
- * Loads store catalog to surface the configured pickup address for the client.
+ * Loads store catalog to surface the configured pickup address for the client,
+ * and the saved addresses of a signed-in customer.
  */
 export const dynamic = "force-dynamic";
 
@@ -34,9 +40,17 @@ export default async function RevisarPage({ params }: Props) {
   const { storeSlug } = await params;
 
   let pickupAddress: StorePickupAddress | null = null;
+  let savedAddresses: CustomerAddress[] = [];
   try {
     const catalog = await getStoreCatalogUseCase.execute(storeSlug);
     pickupAddress = catalog.pickupAddress;
+
+    const session = await getCustomerSession(catalog.storeId);
+    if (session) {
+      savedAddresses = await listCustomerAddressesUseCase.execute(
+        session.customerId,
+      );
+    }
   } catch {
     // Store not found or DB error — proceed without address
   }
@@ -45,6 +59,7 @@ export default async function RevisarPage({ params }: Props) {
     <OrderReviewClient
       storeSlug={storeSlug}
       initialPickupAddress={pickupAddress}
+      savedAddresses={savedAddresses}
     />
   );
 }
@@ -0,0 +1,81 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { getStaffInviteUseCase } from "@/infra/composition";
+import { StaffRole } from "@/domain/auth/StaffRole";
+import type { StaffInviteDetails } from "@/domain/auth/Staff";
+import { AppError } from "@/shared/errors/AppError";
+import { Card } from "../../_components/Card";
+import AcceptInviteForm from "./_components/AcceptInviteForm";
+
+export const metadata: Metadata = {
+  title: "Convite",
+  robots: { index: false },
+};
+
+const ROLE_PHRASES: Record<StaffRole, string> = {
+  OWNER: "como dono",
+  MANAGER: "como gerente",
+  KITCHEN: "na cozinha",
+  DELIVERY: "nas entregas",
+};
+
+interface Props {
+  params: Promise<{ token: string }>;
+}
+
+/**
+ * /convite/[token] — public page of a staff invite link.
+ *
+ * A pending invite shows the store, the role and the password form;
+ * accepted, expired and unknown links show the same "invalid" notice.
+ */
+export default async function InvitePage({ params }: Props) {
+  const { token } = await params;
+
+  let invite: StaffInviteDetails | null = null;
+  try {
+    invite = await getStaffInviteUseCase.execute(token);
+  } catch (err) {
+    if (!(err instanceof AppError)) throw err;
+  }
+
+  return (
+    <div className="min-h-dvh bg-surface-subtle flex flex-col items-center justify-center px-4 py-12">
+      <div className="w-full max-w-[400px] space-y-8">
+        {invite ? (
+          <>
+            <div className="space-y-1 text-center">
+              <h1 className="text-2xl font-semibold tracking-tight text-foreground">
+                Entrar para {invite.storeName}
+              </h1>
+              <p className="text-sm text-foreground-muted">
+                Você recebeu um convite para trabalhar{" "}
+                {ROLE_PHRASES[invite.role]}. Crie sua senha para acessar o
+                painel.
+              </p>
+            </div>
+            <Card>
+              <AcceptInviteForm token={token} email={invite.email} />
+            </Card>
+          </>
+        ) : (
+          <div className="space-y-3 text-center">
+            <h1 className="text-2xl font-semibold tracking-tight text-foreground">
+              Convite inválido
+            </h1>
+            <p className="text-sm text-foreground-muted">
+              Este convite expirou, já foi usado ou foi cancelado. Peça um novo
+              convite à loja.
+            </p>
+            <Link
+              href="/login"
+              className="inline-block text-sm font-medium text-foreground hover:underline"
+            >
+              Ir para o login
+            </Link>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 "use client";
 
 import { useState, type FormEvent } from "react";
+import Link from "next/link";
 import { useRouter, useSearchParams } from "next/navigation";
 import { Button } from "../../_components/Button";
 import { Input } from "../../_components/Input";
@@ -13,6 +14,7 @@ import { Input } from "../../_components/Input";
  * - Submit credentials to POST /api/auth/login
  * - Display server error via the styled error banner
  * - Redirect on success (cookie was set server-side; we just navigate)
+ * - Link to the password reset, and confirm a reset just made (?senha=redefinida)
  *
  * No business logic lives here — all validation is server-side.
  */
@@ -55,8 +57,19 @@ export default function LoginForm() {
     }
   }
 
+  const passwordReset = searchParams.get("senha") === "redefinida";
+
   return (
     <form onSubmit={handleSubmit} noValidate className="space-y-5">
+      {passwordReset && !error && (
+        <div
+          role="status"
+          className="rounded-lg border border-line bg-surface-subtle px-4 py-3 text-sm text-foreground"
+        >
+          Senha alterada. Entre com a nova senha.
+        </div>
+      )}
+
       {/* ── Error banner ────────────────────────────────────────────────────
           role="alert" triggers a live region announcement for screen readers.
           Conditionally rendered — no empty space when there's no error.
@@ -97,6 +110,15 @@ export default function LoginForm() {
         onChange={(e) => setPassword(e.target.value)}
       />
 
+      <p className="-mt-3 text-right">
+        <Link
+          href="/login/esqueci-senha"
+          className="text-xs font-medium text-foreground-muted hover:text-foreground hover:underline"
+        >
+          Esqueceu a senha?
+        </Link>
+      </p>
+
       {/* ── Submit ── */}
       <Button
         type="submit"
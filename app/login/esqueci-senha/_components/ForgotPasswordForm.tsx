@@ -0,0 +1,88 @@
+"use client";
+
+import { useState, type FormEvent } from "react";
+import { Button } from "../../../_components/Button";
+import { Input } from "../../../_components/Input";
+
+/**
+ * ForgotPasswordForm — Client Component for the /login/esqueci-senha page.
+ *
+ * Submits the email to POST /api/auth/password-reset.  The answer is the
+ * same whether or not the account exists, and so is the message shown.
+ */
+export default function ForgotPasswordForm() {
+  const [email, setEmail] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [sent, setSent] = useState(false);
+  const [loading, setLoading] = useState(false);
+
+  async function handleSubmit(e: FormEvent) {
+    e.preventDefault();
+    setError(null);
+    setLoading(true);
+
+    try {
+      const res = await fetch("/api/auth/password-reset", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email }),
+      });
+
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        setError(data?.error?.message ?? "Não foi possível enviar o link.");
+        return;
+      }
+
+      setSent(true);
+    } catch {
+      setError("Ocorreu um erro inesperado. Tente novamente.");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  if (sent) {
+    return (
+      <p role="status" className="text-sm text-foreground">
+        Se houver uma conta com o e-mail <strong>{email}</strong>, você receberá
+        em instantes um link para redefinir a senha. Confira também a caixa de
+        spam.
+      </p>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} noValidate className="space-y-5">
+      {error && (
+        <div
+          role="alert"
+          className="rounded-lg border border-danger/20 bg-danger/5 px-4 py-3 text-sm text-danger"
+        >
+          {error}
+        </div>
+      )}
+
+      <Input
+        label="E-mail"
+        id="email"
+        type="email"
+        autoComplete="email"
+        required
+        placeholder="voce@empresa.com"
+        value={email}
+        onChange={(e) => setEmail(e.target.value)}
+      />
+
+      <Button
+        type="submit"
+        variant="primary"
+        size="md"
+        loading={loading}
+        className="w-full"
+      >
+        {loading ? "Enviando…" : "Enviar link"}
+      </Button>
+    </form>
+  );
+}
@@ -0,0 +1,41 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { Card } from "../../_components/Card";
+import ForgotPasswordForm from "./_components/ForgotPasswordForm";
+
+export const metadata: Metadata = {
+  title: "Esqueci minha senha",
+  robots: { index: false },
+};
+
+/**
+ * /login/esqueci-senha — asks for the account email and sends a reset link.
+ */
+export default function ForgotPasswordPage() {
+  return (
+    <div className="min-h-dvh bg-surface-subtle flex flex-col items-center justify-center px-4 py-12">
+      <div className="w-full max-w-[400px] space-y-8">
+        <div className="space-y-1 text-center">
+          <h1 className="text-2xl font-semibold tracking-tight text-foreground">
+            Esqueci minha senha
+          </h1>
+          <p className="text-sm text-foreground-muted">
+            Informe o e-mail da sua conta e enviaremos um link para criar uma
+            nova senha.
+          </p>
+        </div>
+        <Card>
+          <ForgotPasswordForm />
+        </Card>
+        <p className="text-center">
+          <Link
+            href="/login"
+            className="text-sm font-medium text-foreground hover:underline"
+          >
+            Voltar para o login
+          </Link>
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+"use client";
+
+import { useState, type FormEvent } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "../../../_components/Button";
+import { Input } from "../../../_components/Input";
+
+/**
+ * ResetPasswordForm — Client Component for the /login/redefinir-senha page.
+ *
+ * - Asks for the new password (twice)
+ * - Submits it with the link's token to POST /api/auth/password-reset/confirm
+ * - Sends the user to /login to sign in with it
+ */
+export default function ResetPasswordForm({ token }: { token: string }) {
+  const router = useRouter();
+
+  const [password, setPassword] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  async function handleSubmit(e: FormEvent) {
+    e.preventDefault();
+    setError(null);
+
+    if (password !== confirmation) {
+      setError("As senhas não conferem.");
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const res = await fetch("/api/auth/password-reset/confirm", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token, password }),
+      });
+
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        setError(data?.error?.message ?? "Não foi possível alterar a senha.");
+        return;
+      }
+
+      router.replace("/login?senha=redefinida");
+    } catch {
+      setError("Ocorreu um erro inesperado. Tente novamente.");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} noValidate className="space-y-5">
+      {error && (
+        <div
+          role="alert"
+          className="rounded-lg border border-danger/20 bg-danger/5 px-4 py-3 text-sm text-danger"
+        >
+          {error}
+        </div>
+      )}
+
+      <Input
+        label="Nova senha"
+        id="password"
+        type="password"
+        autoComplete="new-password"
+        required
+        minLength={8}
+        placeholder="Mínimo de 8 caracteres"
+        value={password}
+        onChange={(e) => setPassword(e.target.value)}
+      />
+
+      <Input
+        label="Repita a senha"
+        id="password-confirmation"
+        type="password"
+        autoComplete="new-password"
+        required
+        value={confirmation}
+        onChange={(e) => setConfirmation(e.target.value)}
+      />
+
+      <Button
+        type="submit"
+        variant="primary"
+        size="md"
+        loading={loading}
+        className="w-full"
+      >
+        {loading ? "Salvando…" : "Salvar nova senha"}
+      </Button>
+    </form>
+  );
+}
@@ -0,0 +1,49 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { Card } from "../../_components/Card";
+import ResetPasswordForm from "./_components/ResetPasswordForm";
+
+export const metadata: Metadata = {
+  title: "Nova senha",
+  robots: { index: false },
+};
+
+interface Props {
+  searchParams: Promise<{ token?: string }>;
+}
+
+/**
+ * /login/redefinir-senha?token=… — page of a password reset link.
+ *
+ * The token is only checked on submit: an expired or used link shows the
+ * error there, with the way back to request a new one.
+ */
+export default async function ResetPasswordPage({ searchParams }: Props) {
+  const { token } = await searchParams;
+
+  return (
+    <div className="min-h-dvh bg-surface-subtle flex flex-col items-center justify-center px-4 py-12">
+      <div className="w-full max-w-[400px] space-y-8">
+        <div className="space-y-1 text-center">
+          <h1 className="text-2xl font-semibold tracking-tight text-foreground">
+            Criar nova senha
+          </h1>
+          <p className="text-sm text-foreground-muted">
+            Você será desconectado de todos os dispositivos.
+          </p>
+        </div>
+        <Card>
+          <ResetPasswordForm token={token ?? ""} />
+        </Card>
+        <p className="text-center">
+          <Link
+            href="/login/esqueci-senha"
+            className="text-sm font-medium text-foreground hover:underline"
+          >
+            Pedir um novo link
+          </Link>
+        </p>
+      </div>
+    </div>
+  );
+}
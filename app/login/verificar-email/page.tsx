@@ -0,0 +1,52 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { verifyEmailUseCase } from "@/infra/composition";
+import { AppError } from "@/shared/errors/AppError";
+
+export const metadata: Metadata = {
+  title: "Confirmar e-mail",
+  robots: { index: false },
+};
+
+interface Props {
+  searchParams: Promise<{ token?: string }>;
+}
+
+/**
+ * /login/verificar-email?token=… — page of an email verification link.
+ *
+ * Opening the link confirms the address; used, expired and unknown links
+ * show the same notice, pointing to "Minha conta" to send a new one.
+ */
+export default async function VerifyEmailPage({ searchParams }: Props) {
+  const { token } = await searchParams;
+
+  let verified = false;
+  try {
+    await verifyEmailUseCase.execute(token ?? "");
+    verified = true;
+  } catch (err) {
+    if (!(err instanceof AppError)) throw err;
+  }
+
+  return (
+    <div className="min-h-dvh bg-surface-subtle flex flex-col items-center justify-center px-4 py-12">
+      <div className="w-full max-w-[400px] space-y-3 text-center">
+        <h1 className="text-2xl font-semibold tracking-tight text-foreground">
+          {verified ? "E-mail confirmado" : "Link inválido"}
+        </h1>
+        <p className="text-sm text-foreground-muted">
+          {verified
+            ? "Obrigado! Seu e-mail foi confirmado."
+            : "Este link expirou ou já foi usado. Você pode pedir um novo em Minha conta, no painel."}
+        </p>
+        <Link
+          href="/dashboard"
+          className="inline-block text-sm font-medium text-foreground hover:underline"
+        >
+          Ir para o painel
+        </Link>
+      </div>
+    </div>
+  );
+}
@@ -1,12 +1,21 @@
 import { NextRequest, NextResponse } from "next/server";
-import { verifyToken } from "@/infra/security/tokenService";
+import type { IssuedSession } from "@/domain/auth/AuthSession";
+import { signToken, verifyToken } from "@/infra/security/tokenService";
 import { verifySuperAdminToken } from "@/infra/security/superAdminTokenService";
 import { SA_COOKIE_NAME } from "@/infra/http/cookies/superAdminCookie";
-
-const COOKIE_NAME = process.env.AUTH_COOKIE_NAME ?? "__session";
+import {
+  COOKIE_NAME,
+  REFRESH_COOKIE_NAME,
+  clearAuthCookie,
+  setSessionCookies,
+} from "@/infra/http/cookies/authCookie";
+import {
+  refreshSessionUseCase,
+  verifySessionUseCase,
+} from "@/infra/composition";
 
 /**
- * Next.js Edge Middleware — runs before every matched request.
+ * Next.js Proxy — runs before every matched request.
  *
  * Two separate auth contexts:
  *
@@ -14,14 +23,28 @@ const COOKIE_NAME = process.env.AUTH_COOKIE_NAME ?? "__session";
  * 2. Super Admin  — /admin/*     protected by `__sa_session` cookie (super admin JWT)
  *
  * Neither token is accepted by the other context.
+ *
+ * Store sessions are checked against the database on every page and API
+ * request, so a revoked session stops at once.  An expired access token is
+ * renewed silently from the `__refresh` cookie: the new token is set on the
+ * response and forwarded in the request, so the page or route handler
+ * already sees it.
  */
 
 const PROTECTED_PREFIXES = ["/dashboard"];
+// Store API routes read the session through withAuth; auth and super
+// admin routes handle their own cookies
+const API_PREFIX = "/api/";
+const API_EXCLUDED_PREFIXES = ["/api/auth/", "/api/admin/"];
 const LOGIN_PATH = "/login";
 const DEFAULT_AFTER_LOGIN = "/dashboard";
 
 const ADMIN_PROTECTED_PREFIXES = ["/admin"];
-const ADMIN_PUBLIC_PATHS = ["/admin/login"];
+const ADMIN_PUBLIC_PATHS = [
+  "/admin/login",
+  "/admin/login/esqueci-senha",
+  "/admin/login/redefinir-senha",
+];
 const ADMIN_LOGIN_PATH = "/admin/login";
 const ADMIN_DEFAULT_AFTER_LOGIN = "/admin/stores";
 
@@ -29,6 +52,13 @@ function isProtected(pathname: string): boolean {
   return PROTECTED_PREFIXES.some((prefix) => pathname.startsWith(prefix));
 }
 
+function isStoreApi(pathname: string): boolean {
+  return (
+    pathname.startsWith(API_PREFIX) &&
+    !API_EXCLUDED_PREFIXES.some((prefix) => pathname.startsWith(prefix))
+  );
+}
+
 function isAdminProtected(pathname: string): boolean {
   return (
     ADMIN_PROTECTED_PREFIXES.some((prefix) => pathname.startsWith(prefix)) &&
@@ -69,40 +99,94 @@ export async function proxy(req: NextRequest): Promise<NextResponse> {
   }
 
   // ── Store Admin routes ────────────────────────────────────────────────────
-  const token = req.cookies.get(COOKIE_NAME)?.value;
+  const isLogin = pathname === LOGIN_PATH;
+  const isApi = isStoreApi(pathname);
+  if (!isLogin && !isApi && !isProtected(pathname)) {
+    return NextResponse.next();
+  }
+
+  const hasCookies =
+    req.cookies.has(COOKIE_NAME) || req.cookies.has(REFRESH_COOKIE_NAME);
+  // Public API routes (catalog, checkout, webhooks) need no session
+  if (isApi && !hasCookies) return NextResponse.next();
+
+  const session = await authenticate(req);
 
   // ── Already authenticated → bounce away from /login ──────────────────────
-  if (pathname === LOGIN_PATH) {
-    if (token) {
-      try {
-        await verifyToken(token);
-        const dest = req.nextUrl.clone();
-        dest.pathname = DEFAULT_AFTER_LOGIN;
-        return NextResponse.redirect(dest);
-      } catch {
-        // Token invalid — let them reach the login page
-      }
+  if (isLogin) {
+    if (!session) return NextResponse.next();
+    const dest = req.nextUrl.clone();
+    dest.pathname = DEFAULT_AFTER_LOGIN;
+    const response = NextResponse.redirect(dest);
+    if (session.renewed) {
+      setSessionCookies(
+        response.cookies,
+        session.renewed.accessToken,
+        session.renewed.issued,
+      );
     }
-    return NextResponse.next();
+    return response;
   }
 
-  // ── Protected routes ──────────────────────────────────────────────────────
-  if (!isProtected(pathname)) {
-    return NextResponse.next();
+  if (!session) {
+    if (isApi) {
+      // Let withAuth answer 401 — public routes still work
+      req.cookies.delete(COOKIE_NAME);
+      const response = NextResponse.next({ request: { headers: req.headers } });
+      clearAuthCookie(response.cookies);
+      return response;
+    }
+    // Session expired, revoked or tampered — clear it and redirect
+    const response = redirectToLogin(req);
+    if (hasCookies) clearAuthCookie(response.cookies);
+    return response;
   }
 
-  if (!token) {
-    return redirectToLogin(req);
+  if (!session.renewed) return NextResponse.next();
+
+  const { accessToken, issued } = session.renewed;
+  req.cookies.set(COOKIE_NAME, accessToken);
+  const response = NextResponse.next({ request: { headers: req.headers } });
+  setSessionCookies(response.cookies, accessToken, issued);
+  return response;
+}
+
+// ─── Store sessions ───────────────────────────────────────────────────────────
+
+interface StoreSession {
+  /** Set when the access token was renewed from the refresh cookie. */
+  renewed: { accessToken: string; issued: IssuedSession } | null;
+}
+
+/**
+ * Resolves the store session of a request: the access token when it is
+ * valid and its session active, else a refresh.  null means signed out.
+ */
+async function authenticate(req: NextRequest): Promise<StoreSession | null> {
+  const token = req.cookies.get(COOKIE_NAME)?.value;
+  if (token) {
+    let sessionId: string | null = null;
+    try {
+      ({ sessionId } = await verifyToken(token));
+    } catch {
+      // Expired or tampered — fall through to the refresh token
+    }
+    if (sessionId) {
+      // A revoked session cannot be refreshed either
+      const active = await verifySessionUseCase.execute(sessionId);
+      return active ? { renewed: null } : null;
+    }
   }
 
+  const refreshToken = req.cookies.get(REFRESH_COOKIE_NAME)?.value;
+  if (!refreshToken) return null;
   try {
-    await verifyToken(token);
-    return NextResponse.next();
+    const issued = await refreshSessionUseCase.execute(refreshToken);
+    return {
+      renewed: { accessToken: await signToken(issued.claims), issued },
+    };
   } catch {
-    // Token expired or tampered — clear it and redirect
-    const response = redirectToLogin(req);
-    response.cookies.delete(COOKIE_NAME);
-    return response;
+    return null;
   }
 }
 
@@ -122,5 +206,5 @@ function redirectToAdminLogin(req: NextRequest): NextResponse {
 }
 
 export const config = {
-  matcher: ["/dashboard/:path*", "/login", "/admin/:path*"],
+  matcher: ["/dashboard/:path*", "/login", "/admin/:path*", "/api/:path*"],
 };
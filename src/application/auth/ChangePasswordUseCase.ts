@@ -0,0 +1,71 @@
+import { AppError } from "@/shared/errors/AppError";
+import { HttpStatus } from "@/shared/http/statuses";
+import type { IAdminRepository } from "@/domain/auth/IAdminRepository";
+import type { IAuthSessionRepository } from "@/domain/auth/IAuthSessionRepository";
+import type { IssuedSession, SessionClient } from "@/domain/auth/AuthSession";
+import type { IPasswordHasher } from "@/application/ports/IPasswordHasher";
+import type { StartSessionUseCase } from "./StartSessionUseCase";
+
+export interface ChangePasswordInput {
+  adminId: string;
+  currentPassword: string;
+  newPassword: string;
+}
+
+const MIN_PASSWORD_LENGTH = 8;
+
+/**
+ * ChangePasswordUseCase
+ *
+ * Replaces the user's password after checking the current one, then
+ * revokes every session — a leaked session dies with the old password.
+ * The device making the change gets a fresh session, returned for the
+ * caller to set its cookies.
+ */
+export class ChangePasswordUseCase {
+  constructor(
+    private readonly adminRepo: IAdminRepository,
+    private readonly sessionRepo: IAuthSessionRepository,
+    private readonly hasher: IPasswordHasher,
+    private readonly startSession: StartSessionUseCase,
+  ) {}
+
+  async execute(
+    input: ChangePasswordInput,
+    client: SessionClient,
+  ): Promise<IssuedSession> {
+    if (!input.newPassword || input.newPassword.length < MIN_PASSWORD_LENGTH) {
+      throw new AppError(
+        `A nova senha deve ter pelo menos ${MIN_PASSWORD_LENGTH} caracteres.`,
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    const admin = await this.adminRepo.findById(input.adminId);
+    if (!admin) {
+      throw new AppError("Usuário não encontrado.", HttpStatus.NOT_FOUND);
+    }
+
+    const matches = await this.hasher.verify(
+      input.currentPassword,
+      admin.passwordHash,
+    );
+    if (!matches) {
+      throw new AppError(
+        "A senha atual não confere.",
+        HttpStatus.UNPROCESSABLE_ENTITY,
+      );
+    }
+
+    await this.adminRepo.updatePasswordHash(
+      admin.id,
+      await this.hasher.hash(input.newPassword),
+    );
+    await this.sessionRepo.revokeAll(admin.id);
+
+    return this.startSession.execute(
+      { adminId: admin.id, storeId: admin.storeId, role: admin.role },
+      client,
+    );
+  }
+}
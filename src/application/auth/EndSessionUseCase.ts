@@ -0,0 +1,20 @@
+import type { IAuthSessionRepository } from "@/domain/auth/IAuthSessionRepository";
+import { hashOpaqueToken } from "./opaqueToken";
+
+/**
+ * EndSessionUseCase — logout: revokes the session of a refresh token.
+ * Unknown or already revoked tokens are ignored; logging out always works.
+ */
+export class EndSessionUseCase {
+  constructor(private readonly sessionRepo: IAuthSessionRepository) {}
+
+  async execute(refreshToken: string): Promise<void> {
+    if (!refreshToken) return;
+    const match = await this.sessionRepo.findByTokenHash(
+      hashOpaqueToken(refreshToken),
+    );
+    if (match) {
+      await this.sessionRepo.revoke(match.session.id, match.session.adminId);
+    }
+  }
+}
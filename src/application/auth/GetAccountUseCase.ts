@@ -0,0 +1,23 @@
+import { AppError } from "@/shared/errors/AppError";
+import { HttpStatus } from "@/shared/http/statuses";
+import type { IAdminRepository } from "@/domain/auth/IAdminRepository";
+
+export interface AccountDetails {
+  email: string;
+  emailVerifiedAt: Date | null;
+}
+
+/**
+ * GetAccountUseCase — what "Minha conta" shows about the signed-in user.
+ */
+export class GetAccountUseCase {
+  constructor(private readonly adminRepo: IAdminRepository) {}
+
+  async execute(adminId: string): Promise<AccountDetails> {
+    const admin = await this.adminRepo.findById(adminId);
+    if (!admin) {
+      throw new AppError("Usuário não encontrado.", HttpStatus.NOT_FOUND);
+    }
+    return { email: admin.email, emailVerifiedAt: admin.emailVerifiedAt };
+  }
+}
@@ -0,0 +1,13 @@
+import type { IAuthSessionRepository } from "@/domain/auth/IAuthSessionRepository";
+import type { AuthSession } from "@/domain/auth/AuthSession";
+
+/**
+ * ListSessionsUseCase — the signed-in devices of a user ("sessões ativas").
+ */
+export class ListSessionsUseCase {
+  constructor(private readonly sessionRepo: IAuthSessionRepository) {}
+
+  execute(adminId: string): Promise<AuthSession[]> {
+    return this.sessionRepo.listActive(adminId, new Date());
+  }
+}
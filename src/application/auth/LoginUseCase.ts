@@ -1,18 +1,23 @@
 import { AppError } from "@/shared/errors/AppError";
 import { HttpStatus } from "@/shared/http/statuses";
 import type { IAdminRepository } from "@/domain/auth/IAdminRepository";
+import type { StaffRole } from "@/domain/auth/StaffRole";
 import type { IPasswordHasher } from "@/application/ports/IPasswordHasher";
+import type { LoginThrottle } from "@/application/rateLimit/LoginThrottle";
 
 // ─── DTOs ─────────────────────────────────────────────────────────────────────
 
 export interface LoginInput {
   email: string;
   password: string;
+  /** Client IP, for the per-IP attempt limit; null when unknown. */
+  ipAddress?: string | null;
 }
 
 export interface LoginOutput {
   adminId: string;
   storeId: string;
+  role: StaffRole;
 }
 
 // ─── Constants ────────────────────────────────────────────────────────────────
@@ -38,16 +43,24 @@ const DUMMY_HASH =
  * 1. User enumeration prevention via dummy hash comparison on unknown email.
  * 2. Constant-time comparison via Argon2's internal verify (delegated to hasher).
  * 3. Single generic error message regardless of which field failed.
+ * 4. Brute force is throttled per IP and per email (see LoginThrottle) —
+ *    checked before the hash runs, so a locked-out attempt costs nothing.
  */
 export class LoginUseCase {
   constructor(
     private readonly adminRepo: IAdminRepository,
     private readonly hasher: IPasswordHasher,
+    private readonly throttle: LoginThrottle,
   ) {}
 
   async execute(input: LoginInput): Promise<LoginOutput> {
     const normalizedEmail = input.email.trim().toLowerCase();
 
+    await this.throttle.check({
+      email: normalizedEmail,
+      ipAddress: input.ipAddress ?? null,
+    });
+
     const admin = await this.adminRepo.findByEmail(normalizedEmail);
 
     // Always run a real hash verify to prevent timing-based enumeration.
@@ -58,8 +71,10 @@ export class LoginUseCase {
     );
 
     if (!admin || !passwordMatches) {
+      await this.throttle.recordFailure(normalizedEmail);
       throw new AppError(INVALID_CREDENTIALS_MESSAGE, HttpStatus.UNAUTHORIZED);
     }
+    await this.throttle.recordSuccess(normalizedEmail);
 
     if (admin.storeStatus !== "ACTIVE") {
       throw new AppError(
@@ -68,6 +83,6 @@ export class LoginUseCase {
       );
     }
 
-    return { adminId: admin.id, storeId: admin.storeId };
+    return { adminId: admin.id, storeId: admin.storeId, role: admin.role };
   }
 }
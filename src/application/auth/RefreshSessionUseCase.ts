@@ -0,0 +1,92 @@
+import { AppError } from "@/shared/errors/AppError";
+import { HttpStatus } from "@/shared/http/statuses";
+import type { IAdminRepository } from "@/domain/auth/IAdminRepository";
+import type { IAuthSessionRepository } from "@/domain/auth/IAuthSessionRepository";
+import {
+  REFRESH_REUSE_GRACE_MS,
+  isSessionActive,
+  type IssuedSession,
+} from "@/domain/auth/AuthSession";
+import { generateOpaqueToken, hashOpaqueToken } from "./opaqueToken";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * RefreshSessionUseCase — trades a refresh token for new session claims.
+ *
+ * Rules:
+ *   1. The session must be active, its user still exist and the store be
+ *      ACTIVE; otherwise the session is revoked.
+ *   2. The current token is rotated and the claims re-read from the user
+ *      (role changes apply here).
+ *   3. The token replaced last is accepted for REFRESH_REUSE_GRACE_MS
+ *      without rotating — parallel requests of one page.  Any later use is
+ *      treated as theft: the session is revoked.
+ *
+ * Every failure is a generic 401 — the caller signs the user out.
+ */
+export class RefreshSessionUseCase {
+  constructor(
+    private readonly sessionRepo: IAuthSessionRepository,
+    private readonly adminRepo: IAdminRepository,
+    private readonly refreshTtlDays: number,
+  ) {}
+
+  async execute(refreshToken: string): Promise<IssuedSession> {
+    const now = new Date();
+    const tokenHash = hashOpaqueToken(refreshToken);
+    const match = refreshToken
+      ? await this.sessionRepo.findByTokenHash(tokenHash)
+      : null;
+    if (!match || !isSessionActive(match.session, now)) throw unauthorized();
+
+    const { session } = match;
+    const reusedInGrace =
+      !match.current &&
+      match.rotatedAt !== null &&
+      now.getTime() - match.rotatedAt.getTime() <= REFRESH_REUSE_GRACE_MS;
+    if (!match.current && !reusedInGrace) {
+      await this.sessionRepo.revoke(session.id, session.adminId);
+      throw unauthorized();
+    }
+
+    const admin = await this.adminRepo.findById(session.adminId);
+    if (!admin || admin.storeStatus !== "ACTIVE") {
+      await this.sessionRepo.revoke(session.id, session.adminId);
+      throw unauthorized();
+    }
+
+    const claims = {
+      adminId: admin.id,
+      storeId: admin.storeId,
+      role: admin.role,
+      sessionId: session.id,
+    };
+
+    if (match.current) {
+      const next = generateOpaqueToken();
+      const expiresAt = new Date(now.getTime() + this.refreshTtlDays * DAY_MS);
+      const rotated = await this.sessionRepo.rotate(
+        session.id,
+        tokenHash,
+        next.tokenHash,
+        expiresAt,
+        now,
+      );
+      if (rotated) {
+        return {
+          claims,
+          refreshToken: next.token,
+          refreshExpiresAt: expiresAt,
+        };
+      }
+      // A concurrent refresh rotated it first — its response sets the cookie
+    }
+
+    return { claims, refreshToken: null, refreshExpiresAt: session.expiresAt };
+  }
+}
+
+function unauthorized(): AppError {
+  return new AppError("Session expired.", HttpStatus.UNAUTHORIZED);
+}
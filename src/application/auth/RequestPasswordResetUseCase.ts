@@ -0,0 +1,58 @@
+import type { IAdminRepository } from "@/domain/auth/IAdminRepository";
+import type { IAccountTokenRepository } from "@/domain/auth/IAccountTokenRepository";
+import {
+  ACCOUNT_TOKEN_TTL_MINUTES,
+  AccountTokenPurpose,
+} from "@/domain/auth/AccountToken";
+import type { IEmailSender } from "@/application/ports/IEmailSender";
+import { issueAccountToken } from "./accountTokens";
+
+/**
+ * RequestPasswordResetUseCase — "esqueci minha senha" for store users.
+ *
+ * Emails a single-use reset link.  Unknown addresses get no email but the
+ * same (empty) answer, so the form never tells which emails have accounts.
+ * A failed send is logged, never reported, for the same reason.  The
+ * controller runs this after responding, so response time doesn't tell
+ * either.
+ */
+export class RequestPasswordResetUseCase {
+  constructor(
+    private readonly adminRepo: IAdminRepository,
+    private readonly tokenRepo: IAccountTokenRepository,
+    private readonly emailSender: IEmailSender,
+    private readonly appUrl: string,
+  ) {}
+
+  async execute(email: string): Promise<void> {
+    const admin = await this.adminRepo.findByEmail(email.trim().toLowerCase());
+    if (!admin) return;
+
+    const token = await issueAccountToken(
+      this.tokenRepo,
+      AccountTokenPurpose.PASSWORD_RESET,
+      admin.id,
+    );
+    const link = `${this.appUrl}/login/redefinir-senha?token=${token}`;
+    const minutes =
+      ACCOUNT_TOKEN_TTL_MINUTES[AccountTokenPurpose.PASSWORD_RESET];
+
+    const result = await this.emailSender.send({
+      to: admin.email,
+      subject: "Redefinir sua senha — Encomenda Zap",
+      text: [
+        "Recebemos um pedido para redefinir a senha da sua conta no Encomenda Zap.",
+        "",
+        `Para escolher uma nova senha, abra o link abaixo (válido por ${minutes} minutos):`,
+        link,
+        "",
+        "Se não foi você, ignore este e-mail — sua senha continua a mesma.",
+      ].join("\n"),
+    });
+    if (!result.success) {
+      console.error(
+        `[RequestPasswordResetUseCase] email to admin ${admin.id} failed: ${result.error}`,
+      );
+    }
+  }
+}
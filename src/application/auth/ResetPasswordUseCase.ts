@@ -0,0 +1,60 @@
+import { AppError } from "@/shared/errors/AppError";
+import { HttpStatus } from "@/shared/http/statuses";
+import type { IAdminRepository } from "@/domain/auth/IAdminRepository";
+import type { IAccountTokenRepository } from "@/domain/auth/IAccountTokenRepository";
+import type { IAuthSessionRepository } from "@/domain/auth/IAuthSessionRepository";
+import { AccountTokenPurpose } from "@/domain/auth/AccountToken";
+import type { IPasswordHasher } from "@/application/ports/IPasswordHasher";
+import { redeemAccountToken } from "./accountTokens";
+
+export interface ResetPasswordInput {
+  token: string;
+  password: string;
+}
+
+const MIN_PASSWORD_LENGTH = 8;
+
+/**
+ * ResetPasswordUseCase
+ *
+ * Sets a new password from a reset link.  Every session of the user is
+ * revoked, like a password change, and the email counts as verified — the
+ * link could only be opened from its inbox.  The user then signs in.
+ */
+export class ResetPasswordUseCase {
+  constructor(
+    private readonly tokenRepo: IAccountTokenRepository,
+    private readonly adminRepo: IAdminRepository,
+    private readonly sessionRepo: IAuthSessionRepository,
+    private readonly hasher: IPasswordHasher,
+  ) {}
+
+  async execute(input: ResetPasswordInput): Promise<void> {
+    if (!input.password || input.password.length < MIN_PASSWORD_LENGTH) {
+      throw new AppError(
+        `A senha deve ter pelo menos ${MIN_PASSWORD_LENGTH} caracteres.`,
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    const token = await redeemAccountToken(
+      this.tokenRepo,
+      input.token,
+      AccountTokenPurpose.PASSWORD_RESET,
+    );
+    const admin = await this.adminRepo.findById(token.subjectId);
+    if (!admin) {
+      throw new AppError(
+        "Link inválido ou expirado. Solicite um novo.",
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    await this.adminRepo.updatePasswordHash(
+      admin.id,
+      await this.hasher.hash(input.password),
+    );
+    await this.sessionRepo.revokeAll(admin.id);
+    await this.adminRepo.markEmailVerified(admin.id, new Date());
+  }
+}
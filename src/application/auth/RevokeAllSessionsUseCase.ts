@@ -0,0 +1,13 @@
+import type { IAuthSessionRepository } from "@/domain/auth/IAuthSessionRepository";
+
+/**
+ * RevokeAllSessionsUseCase — "sair de todos os dispositivos": signs every
+ * device of the user out, the current one included.
+ */
+export class RevokeAllSessionsUseCase {
+  constructor(private readonly sessionRepo: IAuthSessionRepository) {}
+
+  execute(adminId: string): Promise<number> {
+    return this.sessionRepo.revokeAll(adminId);
+  }
+}
@@ -0,0 +1,17 @@
+import { AppError } from "@/shared/errors/AppError";
+import { HttpStatus } from "@/shared/http/statuses";
+import type { IAuthSessionRepository } from "@/domain/auth/IAuthSessionRepository";
+
+/**
+ * RevokeSessionUseCase — signs one device of the user out, at once.
+ */
+export class RevokeSessionUseCase {
+  constructor(private readonly sessionRepo: IAuthSessionRepository) {}
+
+  async execute(sessionId: string, adminId: string): Promise<void> {
+    const revoked = await this.sessionRepo.revoke(sessionId, adminId);
+    if (!revoked) {
+      throw new AppError("Sessão não encontrada.", HttpStatus.NOT_FOUND);
+    }
+  }
+}
@@ -0,0 +1,67 @@
+import { AppError } from "@/shared/errors/AppError";
+import { HttpStatus } from "@/shared/http/statuses";
+import type { IAdminRepository } from "@/domain/auth/IAdminRepository";
+import type { IAccountTokenRepository } from "@/domain/auth/IAccountTokenRepository";
+import {
+  ACCOUNT_TOKEN_TTL_MINUTES,
+  AccountTokenPurpose,
+} from "@/domain/auth/AccountToken";
+import type { IEmailSender } from "@/application/ports/IEmailSender";
+import { issueAccountToken } from "./accountTokens";
+
+/**
+ * SendEmailVerificationUseCase
+ *
+ * Emails a link confirming the user's address — after registering, and
+ * again on request from "Minha conta".  Returns whether the email went out;
+ * a failed send is logged and never breaks the calling flow.
+ */
+export class SendEmailVerificationUseCase {
+  constructor(
+    private readonly adminRepo: IAdminRepository,
+    private readonly tokenRepo: IAccountTokenRepository,
+    private readonly emailSender: IEmailSender,
+    private readonly appUrl: string,
+  ) {}
+
+  async execute(adminId: string): Promise<boolean> {
+    const admin = await this.adminRepo.findById(adminId);
+    if (!admin) {
+      throw new AppError("Usuário não encontrado.", HttpStatus.NOT_FOUND);
+    }
+    if (admin.emailVerifiedAt) {
+      throw new AppError(
+        "Seu e-mail já foi confirmado.",
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    const token = await issueAccountToken(
+      this.tokenRepo,
+      AccountTokenPurpose.EMAIL_VERIFICATION,
+      admin.id,
+    );
+    const link = `${this.appUrl}/login/verificar-email?token=${token}`;
+    const hours =
+      ACCOUNT_TOKEN_TTL_MINUTES[AccountTokenPurpose.EMAIL_VERIFICATION] / 60;
+
+    const result = await this.emailSender.send({
+      to: admin.email,
+      subject: "Confirme seu e-mail — Encomenda Zap",
+      text: [
+        "Boas-vindas ao Encomenda Zap!",
+        "",
+        `Confirme seu e-mail abrindo o link abaixo (válido por ${hours} horas):`,
+        link,
+        "",
+        "Se você não criou uma conta, ignore este e-mail.",
+      ].join("\n"),
+    });
+    if (!result.success) {
+      console.error(
+        `[SendEmailVerificationUseCase] email to admin ${admin.id} failed: ${result.error}`,
+      );
+    }
+    return result.success;
+  }
+}
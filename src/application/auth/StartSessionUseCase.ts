@@ -0,0 +1,47 @@
+import type { IAuthSessionRepository } from "@/domain/auth/IAuthSessionRepository";
+import type { IssuedSession, SessionClient } from "@/domain/auth/AuthSession";
+import type { StaffRole } from "@/domain/auth/StaffRole";
+import { generateOpaqueToken } from "./opaqueToken";
+
+export interface StartSessionInput {
+  adminId: string;
+  storeId: string;
+  role: StaffRole;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * StartSessionUseCase — opens a session for a user who just proved who they
+ * are (login, accepted invite, password change).
+ *
+ * The caller signs the access token from the claims and stores the refresh
+ * token in its cookie; only the token's hash reaches the repository.
+ */
+export class StartSessionUseCase {
+  constructor(
+    private readonly sessionRepo: IAuthSessionRepository,
+    private readonly refreshTtlDays: number,
+  ) {}
+
+  async execute(
+    input: StartSessionInput,
+    client: SessionClient,
+  ): Promise<IssuedSession> {
+    const { token, tokenHash } = generateOpaqueToken();
+    const expiresAt = new Date(Date.now() + this.refreshTtlDays * DAY_MS);
+
+    const session = await this.sessionRepo.create({
+      adminId: input.adminId,
+      tokenHash,
+      expiresAt,
+      ...client,
+    });
+
+    return {
+      claims: { ...input, sessionId: session.id },
+      refreshToken: token,
+      refreshExpiresAt: expiresAt,
+    };
+  }
+}
@@ -0,0 +1,23 @@
+import type { IAdminRepository } from "@/domain/auth/IAdminRepository";
+import type { IAccountTokenRepository } from "@/domain/auth/IAccountTokenRepository";
+import { AccountTokenPurpose } from "@/domain/auth/AccountToken";
+import { redeemAccountToken } from "./accountTokens";
+
+/**
+ * VerifyEmailUseCase — confirms the user's email from a verification link.
+ */
+export class VerifyEmailUseCase {
+  constructor(
+    private readonly tokenRepo: IAccountTokenRepository,
+    private readonly adminRepo: IAdminRepository,
+  ) {}
+
+  async execute(token: string): Promise<void> {
+    const found = await redeemAccountToken(
+      this.tokenRepo,
+      token,
+      AccountTokenPurpose.EMAIL_VERIFICATION,
+    );
+    await this.adminRepo.markEmailVerified(found.subjectId, new Date());
+  }
+}
@@ -0,0 +1,14 @@
+import type { IAuthSessionRepository } from "@/domain/auth/IAuthSessionRepository";
+
+/**
+ * VerifySessionUseCase — whether the session named by an access token is
+ * still active.  Checked on every authenticated request, so a revoked
+ * session stops working before its access token expires.
+ */
+export class VerifySessionUseCase {
+  constructor(private readonly sessionRepo: IAuthSessionRepository) {}
+
+  execute(sessionId: string): Promise<boolean> {
+    return this.sessionRepo.isActive(sessionId, new Date());
+  }
+}
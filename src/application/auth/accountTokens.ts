@@ -0,0 +1,54 @@
+import { AppError } from "@/shared/errors/AppError";
+import { HttpStatus } from "@/shared/http/statuses";
+import type { IAccountTokenRepository } from "@/domain/auth/IAccountTokenRepository";
+import {
+  ACCOUNT_TOKEN_TTL_MINUTES,
+  type AccountToken,
+  type AccountTokenPurpose,
+} from "@/domain/auth/AccountToken";
+import { generateOpaqueToken, hashOpaqueToken } from "./opaqueToken";
+
+/**
+ * Issues the token of an emailed link and returns it — the only time it
+ * exists in clear.
+ */
+export async function issueAccountToken(
+  repo: IAccountTokenRepository,
+  purpose: AccountTokenPurpose,
+  subjectId: string,
+): Promise<string> {
+  const { token, tokenHash } = generateOpaqueToken();
+  const ttlMs = ACCOUNT_TOKEN_TTL_MINUTES[purpose] * 60 * 1000;
+  await repo.issue({
+    purpose,
+    subjectId,
+    tokenHash,
+    expiresAt: new Date(Date.now() + ttlMs),
+  });
+  return token;
+}
+
+/**
+ * Uses up the token of a link.  Unknown, expired, used and other-purpose
+ * tokens all fail with the same 400.
+ */
+export async function redeemAccountToken(
+  repo: IAccountTokenRepository,
+  token: string,
+  purpose: AccountTokenPurpose,
+): Promise<AccountToken> {
+  const found = token
+    ? await repo.findByTokenHash(hashOpaqueToken(token))
+    : null;
+  if (
+    !found ||
+    found.purpose !== purpose ||
+    !(await repo.consume(found.id, new Date()))
+  ) {
+    throw new AppError(
+      "Link inválido ou expirado. Solicite um novo.",
+      HttpStatus.BAD_REQUEST,
+    );
+  }
+  return found;
+}
@@ -0,0 +1,15 @@
+import { createHash, randomBytes } from "node:crypto";
+
+/**
+ * Opaque tokens — invite links and refresh tokens.  32 random bytes,
+ * base64url.  Only the SHA-256 hash is stored, so a leaked database does
+ * not hand out working tokens.
+ */
+export function generateOpaqueToken(): { token: string; tokenHash: string } {
+  const token = randomBytes(32).toString("base64url");
+  return { token, tokenHash: hashOpaqueToken(token) };
+}
+
+export function hashOpaqueToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
@@ -1,7 +1,16 @@
 import { AppError } from "@/shared/errors/AppError";
 import { HttpStatus } from "@/shared/http/statuses";
 import type { ICatalogRepository } from "@/domain/catalog/ICatalogRepository";
-import type { StoreCatalog } from "@/domain/catalog/types";
+import type { CatalogProduct, StoreCatalog } from "@/domain/catalog/types";
+import { findAvailabilityIssue } from "@/domain/product/ProductAvailability";
+import {
+  priceWindowAt,
+  priceWindowForDate,
+  resolveEffectivePrice,
+  schedulesFor,
+  type PriceWindow,
+} from "@/domain/product/PriceSchedule";
+import { isValidIsoDate } from "@/application/pickupSlot/pickupSlotHelpers";
 
 /**
  * GetStoreCatalogUseCase
@@ -12,6 +21,14 @@ import type { StoreCatalog } from "@/domain/catalog/types";
  * This use case is consumed by Server Components — no HTTP layer involved.
  * It is intentionally read-only and requires no authentication.
  *
+ * Given a delivery date (YYYY-MM-DD), each product's unavailableReason says
+ * why it cannot be made that day — weekday, date range or lead time.
+ *
+ * Prices are resolved for the delivery date when given, otherwise for now:
+ * a due scheduled change replaces the price, and a promo sets the price
+ * with the regular one as originalPrice — the price PlaceOrderService
+ * freezes for that date.
+ *
  * Future extension points:
  *  - Accept optional `search` / `category` filter params
  *  - Add pagination when product count grows
@@ -19,7 +36,11 @@ import type { StoreCatalog } from "@/domain/catalog/types";
 export class GetStoreCatalogUseCase {
   constructor(private readonly catalogRepo: ICatalogRepository) {}
 
-  async execute(slug: string, categorySlug?: string): Promise<StoreCatalog> {
+  async execute(
+    slug: string,
+    categorySlug?: string,
+    deliveryDate?: string,
+  ): Promise<StoreCatalog> {
     if (!slug?.trim()) {
       throw new AppError("Store slug is required.", HttpStatus.BAD_REQUEST);
     }
@@ -32,7 +53,61 @@ export class GetStoreCatalogUseCase {
     if (!catalog) {
       throw new AppError("Catálogo não encontrado.", HttpStatus.NOT_FOUND);
     }
+    if (!deliveryDate) {
+      const window = priceWindowAt(new Date());
+      return {
+        ...catalog,
+        products: catalog.products.map((p) => this.withPrices(p, window)),
+      };
+    }
+
+    if (!isValidIsoDate(deliveryDate)) {
+      throw new AppError(
+        "deliveryDate must be YYYY-MM-DD.",
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+    const today = new Date().toISOString().slice(0, 10);
+    const window = priceWindowForDate(deliveryDate);
+    return {
+      ...catalog,
+      products: catalog.products.map((product) => ({
+        ...this.withPrices(product, window),
+        unavailableReason: findAvailabilityIssue(
+          product.availability,
+          deliveryDate,
+          today,
+          catalog.minimumAdvanceDays,
+        ),
+      })),
+    };
+  }
+
+  private withPrices(
+    product: CatalogProduct,
+    window: PriceWindow,
+  ): CatalogProduct {
+    if (product.priceSchedules.length === 0) return product;
 
-    return catalog;
+    const base =
+      product.price !== null
+        ? resolveEffectivePrice(
+            product.price,
+            schedulesFor(product.priceSchedules, null),
+            window,
+          )
+        : { price: null, originalPrice: null };
+    return {
+      ...product,
+      ...base,
+      variants: product.variants.map((v) => ({
+        ...v,
+        ...resolveEffectivePrice(
+          v.price,
+          schedulesFor(product.priceSchedules, v.id),
+          window,
+        ),
+      })),
+    };
   }
 }
@@ -3,11 +3,13 @@ import { HttpStatus } from "@/shared/http/statuses";
 import { slugify } from "@/shared/utils/slugify";
 import type { ICategoryRepository } from "@/domain/category/ICategoryRepository";
 import type { Category, UpdateCategoryInput } from "@/domain/category/Category";
+import { assertValidAvailability } from "@/application/product/availabilityHelpers";
 
 /**
  * UpdateCategoryUseCase
  *
- * Allows partial updates to name, slug, and isActive.
+ * Allows partial updates to name, slug, isActive and the availability rule
+ * applied to the category's products.
  * Regenerates the slug when name changes (unless slug is explicitly provided).
  * Validates slug uniqueness within the store.
  */
@@ -70,6 +72,11 @@ export class UpdateCategoryUseCase {
       patch.isActive = input.isActive;
     }
 
+    if (input.availability !== undefined) {
+      assertValidAvailability(input.availability);
+      patch.availability = input.availability;
+    }
+
     const updated = await this.categoryRepo.update(id, storeId, patch);
     if (!updated) {
       throw new AppError("Category not found.", HttpStatus.NOT_FOUND);
@@ -0,0 +1,166 @@
+import type { ICouponRepository } from "@/domain/coupon/ICouponRepository";
+import type { IProductCategoryRepository } from "@/domain/category/IProductCategoryRepository";
+import type { CreateOrderItemInput } from "@/domain/order/OrderItem";
+import {
+  computeCouponDiscounts,
+  findCouponRejection,
+  normalizeCouponCode,
+  type Coupon,
+  type CouponRejection,
+} from "@/domain/coupon/Coupon";
+import { AppError } from "@/shared/errors/AppError";
+import { HttpStatus } from "@/shared/http/statuses";
+
+// ─── I/O types ────────────────────────────────────────────────────────────────
+
+type PricedItem = Omit<CreateOrderItemInput, "orderId">;
+
+export interface ApplyCouponInput {
+  storeId: string;
+  /** Code as typed by the customer — normalised here. */
+  code: string;
+  /**
+   * Normalised WhatsApp of the customer.  Null when not known yet (cart
+   * preview) — the per-customer limit is then checked at placement only.
+   */
+  customerWhatsapp: string | null;
+  /** Lines with their current prices already frozen. */
+  items: PricedItem[];
+}
+
+export interface CouponApplication {
+  coupon: Coupon;
+  /** The input lines with discountAmount filled in. */
+  items: PricedItem[];
+  /** Total discount over all items. */
+  discount: number;
+  /** Whether the delivery fee is waived. */
+  freeDelivery: boolean;
+}
+
+/**
+ * Customer-facing explanation of why a coupon cannot be used.  Also used
+ * by the placement transaction, which re-checks the usage limits.
+ */
+export function couponRejectionMessage(
+  rejection: CouponRejection,
+  coupon?: Pick<Coupon, "minSubtotal">,
+): string {
+  switch (rejection) {
+    case "INACTIVE":
+      return "Este cupom não está mais disponível.";
+    case "NOT_STARTED":
+      return "Este cupom ainda não está valendo.";
+    case "EXPIRED":
+      return "Este cupom expirou.";
+    case "USAGE_LIMIT":
+      return "Este cupom atingiu o limite de usos.";
+    case "CUSTOMER_LIMIT":
+      return "Você já usou este cupom o número máximo de vezes.";
+    case "BELOW_MINIMUM":
+      return `Este cupom vale para pedidos a partir de ${(
+        coupon?.minSubtotal ?? 0
+      ).toLocaleString("pt-BR", { style: "currency", currency: "BRL" })}.`;
+  }
+}
+
+// ─── Use case ─────────────────────────────────────────────────────────────────
+
+/**
+ * ApplyCouponUseCase — validates a coupon code against a cart and computes
+ * its discounts.
+ *
+ * Shared by PlaceOrderService (which persists the result) and
+ * ValidateCouponUseCase (the cart preview), so the customer always sees the
+ * discount the order will get.
+ *
+ * Throws AppError(422) with a customer-facing message when the code is
+ * unknown, breaks a rule (validity, limits, minimum subtotal) or applies to
+ * nothing in the cart.
+ */
+export class ApplyCouponUseCase {
+  constructor(
+    private readonly couponRepo: ICouponRepository,
+    private readonly productCategoryRepo: IProductCategoryRepository,
+  ) {}
+
+  async execute(input: ApplyCouponInput): Promise<CouponApplication> {
+    const coupon = await this.couponRepo.findByCode(
+      input.storeId,
+      normalizeCouponCode(input.code),
+    );
+    if (!coupon) {
+      throw new AppError(
+        "Cupom não encontrado. Confira o código.",
+        HttpStatus.UNPROCESSABLE_ENTITY,
+      );
+    }
+
+    // ── Rules ────────────────────────────────────────────────────────────────
+    const subtotal = input.items.reduce(
+      (sum, item) => sum + item.unitPrice * item.quantity,
+      0,
+    );
+    const [totalUses, customerUses] = await Promise.all([
+      coupon.maxUses !== null ? this.couponRepo.countRedemptions(coupon.id) : 0,
+      coupon.maxUsesPerCustomer !== null && input.customerWhatsapp
+        ? this.couponRepo.countRedemptions(coupon.id, input.customerWhatsapp)
+        : 0,
+    ]);
+
+    const rejection = findCouponRejection(coupon, {
+      now: new Date(),
+      subtotal,
+      totalUses,
+      customerUses,
+    });
+    if (rejection) {
+      throw new AppError(
+        couponRejectionMessage(rejection, coupon),
+        HttpStatus.UNPROCESSABLE_ENTITY,
+      );
+    }
+
+    // ── Discounts ────────────────────────────────────────────────────────────
+    const categoryIds = coupon.categoryId
+      ? await Promise.all(
+          input.items.map((item) =>
+            this.productCategoryRepo.findCategoryIdsByProduct(
+              item.productId,
+              input.storeId,
+            ),
+          ),
+        )
+      : input.items.map(() => []);
+
+    const perUnit = computeCouponDiscounts(
+      coupon,
+      input.items.map((item, i) => ({
+        productId: item.productId,
+        categoryIds: categoryIds[i],
+        unitPrice: item.unitPrice,
+        quantity: item.quantity,
+      })),
+    );
+    const items = input.items.map((item, i) => ({
+      ...item,
+      discountAmount: perUnit[i],
+    }));
+    const discount =
+      Math.round(
+        items.reduce(
+          (sum, item) => sum + item.discountAmount * item.quantity,
+          0,
+        ) * 100,
+      ) / 100;
+
+    if (discount === 0 && !coupon.freeDelivery) {
+      throw new AppError(
+        "Este cupom não vale para os itens do carrinho.",
+        HttpStatus.UNPROCESSABLE_ENTITY,
+      );
+    }
+
+    return { coupon, items, discount, freeDelivery: coupon.freeDelivery };
+  }
+}
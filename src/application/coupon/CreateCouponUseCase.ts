@@ -0,0 +1,172 @@
+import type { ICouponRepository } from "@/domain/coupon/ICouponRepository";
+import type { IProductRepository } from "@/domain/product/IProductRepository";
+import type { ICategoryRepository } from "@/domain/category/ICategoryRepository";
+import {
+  COUPON_CODE_MAX_LENGTH,
+  CouponDiscountType,
+  CouponScope,
+  normalizeCouponCode,
+  type Coupon,
+  type CreateCouponInput,
+} from "@/domain/coupon/Coupon";
+import { AppError } from "@/shared/errors/AppError";
+import { HttpStatus } from "@/shared/http/statuses";
+
+// Letters, digits, hyphen and underscore — easy to type and to read aloud
+const CODE_RE = /^[A-Z0-9_-]+$/;
+
+/** Optional limit: null, or a positive integer. */
+function normalizeLimit(
+  value: number | null | undefined,
+  label: string,
+): number | null {
+  if (value === null || value === undefined) return null;
+  if (!Number.isInteger(value) || value <= 0) {
+    throw new AppError(
+      `${label} deve ser um número inteiro positivo.`,
+      HttpStatus.BAD_REQUEST,
+    );
+  }
+  return value;
+}
+
+/**
+ * CreateCouponUseCase
+ *
+ * Validates and persists a new store coupon.
+ *
+ * Business rules:
+ * 1. The code is normalised to upper-case and may only contain letters,
+ *    digits, "-" and "_".  Duplicates are rejected by the repository (409).
+ * 2. PERCENTAGE values are in (0, 100]; FIXED values are > 0.  A zero
+ *    value is only allowed for free-delivery coupons.
+ * 3. PRODUCT / CATEGORY coupons must target a product / category of the
+ *    same store; ORDER coupons target nothing.
+ * 4. endsAt, when both are set, must be after startsAt.
+ * 5. Usage limits are positive integers (null = unlimited); the minimum
+ *    subtotal is >= 0 (null = none).
+ */
+export class CreateCouponUseCase {
+  constructor(
+    private readonly couponRepo: ICouponRepository,
+    private readonly productRepo: IProductRepository,
+    private readonly categoryRepo: ICategoryRepository,
+  ) {}
+
+  async execute(input: CreateCouponInput): Promise<Coupon> {
+    // ── Code ─────────────────────────────────────────────────────────────────
+    const code = normalizeCouponCode(input.code ?? "");
+    if (!code) {
+      throw new AppError("Informe o código do cupom.", HttpStatus.BAD_REQUEST);
+    }
+    if (code.length > COUPON_CODE_MAX_LENGTH || !CODE_RE.test(code)) {
+      throw new AppError(
+        `O código deve ter até ${COUPON_CODE_MAX_LENGTH} caracteres, usando apenas letras, números, "-" e "_".`,
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    // ── Discount ─────────────────────────────────────────────────────────────
+    if (
+      !Object.values(CouponDiscountType).includes(input.discountType) ||
+      !Object.values(CouponScope).includes(input.scope)
+    ) {
+      throw new AppError("Tipo de cupom inválido.", HttpStatus.BAD_REQUEST);
+    }
+    const freeDelivery = input.freeDelivery === true;
+    const value = input.discountValue;
+    if (
+      !Number.isFinite(value) ||
+      value < 0 ||
+      (value === 0 && !freeDelivery)
+    ) {
+      throw new AppError(
+        "O valor do desconto deve ser maior que zero.",
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+    if (input.discountType === CouponDiscountType.PERCENTAGE && value > 100) {
+      throw new AppError(
+        "O desconto percentual não pode passar de 100%.",
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    // ── Target ───────────────────────────────────────────────────────────────
+    let productId: string | null = null;
+    let categoryId: string | null = null;
+    if (input.scope === CouponScope.PRODUCT) {
+      const product = input.productId
+        ? await this.productRepo.findById(input.productId, input.storeId)
+        : null;
+      if (!product) {
+        throw new AppError(
+          "Escolha o produto do cupom.",
+          HttpStatus.UNPROCESSABLE_ENTITY,
+        );
+      }
+      productId = product.id;
+    }
+    if (input.scope === CouponScope.CATEGORY) {
+      const category = input.categoryId
+        ? await this.categoryRepo.findById(input.categoryId, input.storeId)
+        : null;
+      if (!category) {
+        throw new AppError(
+          "Escolha a categoria do cupom.",
+          HttpStatus.UNPROCESSABLE_ENTITY,
+        );
+      }
+      categoryId = category.id;
+    }
+
+    // ── Validity window ──────────────────────────────────────────────────────
+    const startsAt = input.startsAt ?? null;
+    const endsAt = input.endsAt ?? null;
+    if (
+      (startsAt && isNaN(startsAt.getTime())) ||
+      (endsAt && isNaN(endsAt.getTime()))
+    ) {
+      throw new AppError("Data de validade inválida.", HttpStatus.BAD_REQUEST);
+    }
+    if (startsAt && endsAt && endsAt <= startsAt) {
+      throw new AppError(
+        "O fim da validade deve ser depois do início.",
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    // ── Limits ───────────────────────────────────────────────────────────────
+    const maxUses = normalizeLimit(input.maxUses, "O limite de usos");
+    const maxUsesPerCustomer = normalizeLimit(
+      input.maxUsesPerCustomer,
+      "O limite por cliente",
+    );
+    const minSubtotal = input.minSubtotal ?? null;
+    if (
+      minSubtotal !== null &&
+      (!Number.isFinite(minSubtotal) || minSubtotal < 0)
+    ) {
+      throw new AppError(
+        "O pedido mínimo não pode ser negativo.",
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    return this.couponRepo.create({
+      storeId: input.storeId,
+      code,
+      discountType: input.discountType,
+      discountValue: value,
+      scope: input.scope,
+      productId,
+      categoryId,
+      startsAt,
+      endsAt,
+      maxUses,
+      maxUsesPerCustomer,
+      minSubtotal,
+      freeDelivery,
+    });
+  }
+}
@@ -0,0 +1,20 @@
+import type { ICouponRepository } from "@/domain/coupon/ICouponRepository";
+import { AppError } from "@/shared/errors/AppError";
+import { HttpStatus } from "@/shared/http/statuses";
+
+/**
+ * DeleteCouponUseCase
+ *
+ * Permanently removes a coupon.  Orders that redeemed it keep their
+ * discounts and the couponCode snapshot.
+ */
+export class DeleteCouponUseCase {
+  constructor(private readonly couponRepo: ICouponRepository) {}
+
+  async execute(id: string, storeId: string): Promise<void> {
+    const deleted = await this.couponRepo.delete(id, storeId);
+    if (!deleted) {
+      throw new AppError("Cupom não encontrado.", HttpStatus.NOT_FOUND);
+    }
+  }
+}
@@ -0,0 +1,16 @@
+import type { ICouponRepository } from "@/domain/coupon/ICouponRepository";
+import type { CouponWithUsage } from "@/domain/coupon/Coupon";
+
+/**
+ * ListCouponsUseCase
+ *
+ * Returns every coupon of the store with its redemption count, newest first.
+ * storeId always comes from the authenticated session.
+ */
+export class ListCouponsUseCase {
+  constructor(private readonly couponRepo: ICouponRepository) {}
+
+  async execute(storeId: string): Promise<CouponWithUsage[]> {
+    return this.couponRepo.findByStore(storeId);
+  }
+}
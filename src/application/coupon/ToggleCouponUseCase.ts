@@ -0,0 +1,26 @@
+import type { ICouponRepository } from "@/domain/coupon/ICouponRepository";
+import type { Coupon } from "@/domain/coupon/Coupon";
+import { AppError } from "@/shared/errors/AppError";
+import { HttpStatus } from "@/shared/http/statuses";
+
+/**
+ * ToggleCouponUseCase
+ *
+ * Activates or deactivates a coupon.  A deactivated coupon is refused at
+ * checkout; orders that already redeemed it are unaffected.
+ */
+export class ToggleCouponUseCase {
+  constructor(private readonly couponRepo: ICouponRepository) {}
+
+  async execute(
+    id: string,
+    storeId: string,
+    isActive: boolean,
+  ): Promise<Coupon> {
+    const updated = await this.couponRepo.setActive(id, storeId, isActive);
+    if (!updated) {
+      throw new AppError("Cupom não encontrado.", HttpStatus.NOT_FOUND);
+    }
+    return updated;
+  }
+}
@@ -0,0 +1,145 @@
+import type { ICatalogRepository } from "@/domain/catalog/ICatalogRepository";
+import type { IProductRepository } from "@/domain/product/IProductRepository";
+import type { CreateOrderItemInput } from "@/domain/order/OrderItem";
+import { normalizeWhatsApp } from "@/domain/customer/Customer";
+import {
+  resolveLineOptions,
+  resolveLinePrice,
+} from "@/application/order/orderHelpers";
+import type { OptionSelection } from "@/domain/product/ProductOption";
+import {
+  priceWindowAt,
+  priceWindowForDate,
+  withEffectivePrices,
+} from "@/domain/product/PriceSchedule";
+import { isValidIsoDate } from "@/application/pickupSlot/pickupSlotHelpers";
+import { AppError } from "@/shared/errors/AppError";
+import { HttpStatus } from "@/shared/http/statuses";
+import type { ApplyCouponUseCase } from "./ApplyCouponUseCase";
+
+// ─── I/O types ────────────────────────────────────────────────────────────────
+
+export interface ValidateCouponInput {
+  storeSlug: string;
+  code: string;
+  items: {
+    productId: string;
+    variantId?: string | null;
+    options?: OptionSelection[] | null;
+    /** Weight per unit, in kg — WEIGHT variants only. */
+    weightKg?: number | null;
+    quantity: number;
+  }[];
+  /** Raw WhatsApp of the identified customer, when known. */
+  customerWhatsapp?: string | null;
+  /** Chosen delivery date (YYYY-MM-DD), which prices resolve for. */
+  deliveryDate?: string | null;
+}
+
+export interface CouponPreview {
+  /** Normalised code, as the order will record it. */
+  code: string;
+  /** Total discount over the cart items. */
+  discount: number;
+  /** Whether the delivery fee is waived. */
+  freeDelivery: boolean;
+}
+
+// ─── Use case ─────────────────────────────────────────────────────────────────
+
+/**
+ * ValidateCouponUseCase
+ *
+ * Public use case — no authentication required.
+ * Previews a coupon against the cart: prices are read from the catalogue
+ * exactly as PlaceOrderService does (promos for the delivery date once it
+ * is chosen, for now before), then ApplyCouponUseCase computes the
+ * discount.  Nothing is persisted — placement re-validates everything.
+ */
+export class ValidateCouponUseCase {
+  constructor(
+    private readonly catalogRepo: ICatalogRepository,
+    private readonly productRepo: IProductRepository,
+    private readonly applyCoupon: ApplyCouponUseCase,
+  ) {}
+
+  async execute(input: ValidateCouponInput): Promise<CouponPreview> {
+    if (!input.code?.trim()) {
+      throw new AppError("Informe o código do cupom.", HttpStatus.BAD_REQUEST);
+    }
+    if (!Array.isArray(input.items) || input.items.length === 0) {
+      throw new AppError(
+        "Adicione itens ao carrinho antes de aplicar um cupom.",
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    const catalog = await this.catalogRepo.findBySlug(
+      input.storeSlug.trim().toLowerCase(),
+    );
+    if (!catalog) {
+      throw new AppError("Loja não encontrada.", HttpStatus.NOT_FOUND);
+    }
+
+    const priceWindow =
+      input.deliveryDate && isValidIsoDate(input.deliveryDate)
+        ? priceWindowForDate(input.deliveryDate)
+        : priceWindowAt(new Date());
+
+    const items: Omit<CreateOrderItemInput, "orderId">[] = [];
+    for (const line of input.items) {
+      const product = await this.productRepo.findById(
+        line.productId,
+        catalog.storeId,
+      );
+      if (!product || !product.isActive) {
+        throw new AppError(
+          "Um dos produtos do carrinho não está mais disponível.",
+          HttpStatus.UNPROCESSABLE_ENTITY,
+        );
+      }
+      const { unitPrice, variantId, variantLabel, weightKg, pricePerKg } =
+        resolveLinePrice(
+          withEffectivePrices(product, priceWindow),
+          line.variantId,
+          line.weightKg,
+        );
+      const { options, surcharge } = resolveLineOptions(product, line.options);
+      items.push({
+        productId: product.id,
+        variantId,
+        productName: product.name,
+        variantLabel,
+        options,
+        weightKg,
+        pricePerKg,
+        quantity: line.quantity,
+        unitPrice: Math.round((unitPrice + surcharge) * 100) / 100,
+      });
+    }
+
+    // An invalid number only skips the per-customer limit; placement
+    // rejects it anyway.
+    let customerWhatsapp: string | null = null;
+    if (input.customerWhatsapp) {
+      try {
+        customerWhatsapp = normalizeWhatsApp(input.customerWhatsapp);
+      } catch {
+        customerWhatsapp = null;
+      }
+    }
+
+    const application = await this.applyCoupon.execute({
+      storeId: catalog.storeId,
+      code: input.code,
+      customerWhatsapp,
+      items,
+    });
+
+    return {
+      code: application.coupon.code,
+      discount: application.discount,
+      freeDelivery: application.freeDelivery,
+    };
+  }
+}
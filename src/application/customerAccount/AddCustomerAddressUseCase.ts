@@ -0,0 +1,76 @@
+import { AppError } from "@/shared/errors/AppError";
+import { HttpStatus } from "@/shared/http/statuses";
+import type { ICustomerAddressRepository } from "@/domain/customer/ICustomerAddressRepository";
+import {
+  MAX_CUSTOMER_ADDRESSES,
+  type CustomerAddress,
+} from "@/domain/customer/CustomerAddress";
+
+export interface AddCustomerAddressInput {
+  customerId: string;
+  label?: string | null;
+  cep: string;
+  street: string;
+  number: string;
+  neighborhood: string;
+  city: string;
+}
+
+const LABEL_MAX_LENGTH = 40;
+const FIELD_MAX_LENGTH = 200;
+
+/**
+ * AddCustomerAddressUseCase — saves a delivery address for a signed-in
+ * customer.
+ *
+ * The CEP is only checked for shape: whether the store delivers there is
+ * decided at checkout, and may change over time.
+ */
+export class AddCustomerAddressUseCase {
+  constructor(private readonly addressRepo: ICustomerAddressRepository) {}
+
+  async execute(input: AddCustomerAddressInput): Promise<CustomerAddress> {
+    const cep = input.cep.replace(/\D/g, "");
+    if (cep.length !== 8) {
+      throw new AppError(
+        "Informe um CEP com 8 dígitos.",
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    const fields = {
+      street: input.street.trim(),
+      number: input.number.trim(),
+      neighborhood: input.neighborhood.trim(),
+      city: input.city.trim(),
+    };
+    if (Object.values(fields).some((v) => !v)) {
+      throw new AppError(
+        "Preencha rua, número, bairro e cidade.",
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+    const label = input.label?.trim() || null;
+    if (
+      Object.values(fields).some((v) => v.length > FIELD_MAX_LENGTH) ||
+      (label && label.length > LABEL_MAX_LENGTH)
+    ) {
+      throw new AppError("Endereço longo demais.", HttpStatus.BAD_REQUEST);
+    }
+
+    const count = await this.addressRepo.countByCustomer(input.customerId);
+    if (count >= MAX_CUSTOMER_ADDRESSES) {
+      throw new AppError(
+        `Você já tem ${MAX_CUSTOMER_ADDRESSES} endereços salvos. Remova um para adicionar outro.`,
+        HttpStatus.UNPROCESSABLE_ENTITY,
+      );
+    }
+
+    return this.addressRepo.create({
+      customerId: input.customerId,
+      label,
+      cep,
+      ...fields,
+    });
+  }
+}
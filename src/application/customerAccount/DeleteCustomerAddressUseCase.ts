@@ -0,0 +1,18 @@
+import { AppError } from "@/shared/errors/AppError";
+import { HttpStatus } from "@/shared/http/statuses";
+import type { ICustomerAddressRepository } from "@/domain/customer/ICustomerAddressRepository";
+
+/**
+ * DeleteCustomerAddressUseCase — removes one of the customer's own saved
+ * addresses.  Someone else's address is reported as not found.
+ */
+export class DeleteCustomerAddressUseCase {
+  constructor(private readonly addressRepo: ICustomerAddressRepository) {}
+
+  async execute(addressId: string, customerId: string): Promise<void> {
+    const deleted = await this.addressRepo.delete(addressId, customerId);
+    if (!deleted) {
+      throw new AppError("Endereço não encontrado.", HttpStatus.NOT_FOUND);
+    }
+  }
+}
@@ -0,0 +1,97 @@
+import { AppError } from "@/shared/errors/AppError";
+import { HttpStatus } from "@/shared/http/statuses";
+import type { ICustomerRepository } from "@/domain/customer/ICustomerRepository";
+import type { IOrderRepository } from "@/domain/order/IOrderRepository";
+import type { Customer } from "@/domain/customer/Customer";
+import type { OrderWithDetails } from "@/domain/order/Order";
+import { computeOrderTotal } from "@/domain/order/OrderItem";
+import { buildOrderTimeline } from "@/domain/order/OrderTimeline";
+
+// ─── Output ───────────────────────────────────────────────────────────────────
+
+export interface CustomerOrderSummary extends Pick<
+  OrderWithDetails,
+  | "id"
+  | "orderNumber"
+  | "trackingToken"
+  | "fulfillmentType"
+  | "deliveryDate"
+  | "createdAt"
+> {
+  /** Where the order stands, as the tracking timeline words it. */
+  statusLabel: string;
+  /** Items plus delivery fee. */
+  total: number;
+  items: Pick<
+    OrderWithDetails["items"][number],
+    "productName" | "variantLabel" | "quantity"
+  >[];
+}
+
+export interface CustomerAccount {
+  customer: Pick<Customer, "id" | "name" | "whatsapp">;
+  /** Most recent first. */
+  orders: CustomerOrderSummary[];
+}
+
+// ─── Use case ─────────────────────────────────────────────────────────────────
+
+/**
+ * GetCustomerAccountUseCase — the "Minha conta" page of a signed-in customer.
+ *
+ * Every order of the customer in the store is listed, including those placed
+ * before they first signed in — orders are linked by WhatsApp number.
+ *
+ * Throws AppError(NOT_FOUND) when the customer no longer exists; the page
+ * then sends them back to the login.
+ */
+export class GetCustomerAccountUseCase {
+  constructor(
+    private readonly customerRepo: ICustomerRepository,
+    private readonly orderRepo: IOrderRepository,
+  ) {}
+
+  async execute(customerId: string, storeId: string): Promise<CustomerAccount> {
+    const customer = await this.customerRepo.findById(customerId, storeId);
+    if (!customer) {
+      throw new AppError("Cliente não encontrado.", HttpStatus.NOT_FOUND);
+    }
+
+    const orders = await this.orderRepo.findAllByStoreWithDetails(storeId, {
+      customerId,
+    });
+    orders.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+
+    return {
+      customer: {
+        id: customer.id,
+        name: customer.name,
+        whatsapp: customer.whatsapp,
+      },
+      orders: orders.map((order) => ({
+        id: order.id,
+        orderNumber: order.orderNumber,
+        trackingToken: order.trackingToken,
+        fulfillmentType: order.fulfillmentType,
+        deliveryDate: order.deliveryDate,
+        createdAt: order.createdAt,
+        statusLabel: currentStepLabel(order),
+        total: computeOrderTotal(order.items) + order.deliveryFee,
+        items: order.items.map((item) => ({
+          productName: item.productName,
+          variantLabel: item.variantLabel,
+          quantity: item.quantity,
+        })),
+      })),
+    };
+  }
+}
+
+/** Label of the last step reached — done, or failed (rejected, cancelled). */
+function currentStepLabel(order: OrderWithDetails): string {
+  const steps = buildOrderTimeline(order);
+  const reached = steps.filter(
+    (s) => s.state === "done" || s.state === "failed",
+  );
+  return (reached[reached.length - 1] ?? steps[0]).label;
+}
@@ -0,0 +1,14 @@
+import type { ICustomerAddressRepository } from "@/domain/customer/ICustomerAddressRepository";
+import type { CustomerAddress } from "@/domain/customer/CustomerAddress";
+
+/**
+ * ListCustomerAddressesUseCase — a signed-in customer's saved delivery
+ * addresses, oldest first (account page and checkout).
+ */
+export class ListCustomerAddressesUseCase {
+  constructor(private readonly addressRepo: ICustomerAddressRepository) {}
+
+  async execute(customerId: string): Promise<CustomerAddress[]> {
+    return this.addressRepo.listByCustomer(customerId);
+  }
+}
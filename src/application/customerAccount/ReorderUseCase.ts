@@ -0,0 +1,202 @@
+import { AppError } from "@/shared/errors/AppError";
+import { HttpStatus } from "@/shared/http/statuses";
+import type { IOrderRepository } from "@/domain/order/IOrderRepository";
+import type { OrderItem } from "@/domain/order/OrderItem";
+import type { CatalogProduct, CatalogVariant } from "@/domain/catalog/types";
+import {
+  getWeightRule,
+  isOrderableWeight,
+  priceForWeight,
+} from "@/domain/product/Product";
+import {
+  ProductOptionGroupType,
+  computeOptionsSurcharge,
+} from "@/domain/product/ProductOption";
+import type { GetStoreCatalogUseCase } from "@/application/catalog/GetStoreCatalogUseCase";
+
+// ─── DTOs ─────────────────────────────────────────────────────────────────────
+
+export interface ReorderInput {
+  storeSlug: string;
+  /** From the customer session. */
+  storeId: string;
+  customerId: string;
+  orderId: string;
+}
+
+/** A chosen option, as the catalog cart keeps it. */
+export interface ReorderLineOption {
+  groupId: string;
+  /** Null for text groups. */
+  optionId: string | null;
+  groupName: string;
+  label: string;
+  quantity: number;
+  price: number;
+}
+
+/** A cart line rebuilt from a past order line, at today's price. */
+export interface ReorderLine {
+  productId: string;
+  variantId: string | null;
+  productName: string;
+  variantLabel: string | null;
+  options: ReorderLineOption[];
+  notes: string | null;
+  weightKg: number | null;
+  quantity: number;
+  /** Per unit, options included. */
+  unitPrice: number;
+}
+
+export interface ReorderOutput {
+  lines: ReorderLine[];
+  /** Past lines that cannot be ordered as they were, for display. */
+  unavailable: string[];
+}
+
+// ─── Use case ─────────────────────────────────────────────────────────────────
+
+/**
+ * ReorderUseCase — "pedir de novo" from the customer's order history.
+ *
+ * Rebuilds the lines of a past order against the current catalog, so the
+ * cart starts from what is on sale today: current prices (promos
+ * included), same variant, options matched by group name and label, same
+ * notes and weight.  A line whose product, variant or options are gone, or
+ * that is sold out, is left out and named in `unavailable`.
+ *
+ * Nothing is persisted — the lines go to the cart and through the normal
+ * checkout, which validates and prices everything again.
+ */
+export class ReorderUseCase {
+  constructor(
+    private readonly orderRepo: IOrderRepository,
+    private readonly getStoreCatalog: GetStoreCatalogUseCase,
+  ) {}
+
+  async execute(input: ReorderInput): Promise<ReorderOutput> {
+    const catalog = await this.getStoreCatalog.execute(input.storeSlug);
+    const order =
+      catalog.storeId === input.storeId
+        ? await this.orderRepo.findByIdWithDetails(input.orderId, input.storeId)
+        : null;
+    if (!order || order.customerId !== input.customerId) {
+      throw new AppError("Pedido não encontrado.", HttpStatus.NOT_FOUND);
+    }
+
+    const lines: ReorderLine[] = [];
+    const unavailable: string[] = [];
+    for (const item of order.items) {
+      const product = catalog.products.find((p) => p.id === item.productId);
+      const line = product ? rebuildLine(product, item) : null;
+      if (line) {
+        lines.push(line);
+      } else {
+        unavailable.push(
+          item.variantLabel
+            ? `${item.productName} (${item.variantLabel})`
+            : item.productName,
+        );
+      }
+    }
+    return { lines, unavailable };
+  }
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+/** The line as it can be ordered today, or null when it no longer can. */
+function rebuildLine(
+  product: CatalogProduct,
+  item: OrderItem,
+): ReorderLine | null {
+  if (product.soldOut) return null;
+
+  let variant: CatalogVariant | null = null;
+  if (item.variantId) {
+    variant =
+      product.variants.find((v) => v.id === item.variantId && v.isActive) ??
+      null;
+    if (!variant) return null;
+  } else if (product.variants.length > 0) {
+    return null;
+  }
+
+  const rule = variant ? getWeightRule(variant) : null;
+  const weightKg = rule ? item.weightKg : null;
+  if (rule && (weightKg === null || !isOrderableWeight(weightKg, rule))) {
+    return null;
+  }
+  const basePrice =
+    variant && weightKg !== null
+      ? priceForWeight(variant.price, weightKg)
+      : (variant?.price ?? product.price);
+  if (basePrice === null) return null;
+
+  const options = matchOptions(product, item);
+  if (!options) return null;
+
+  const quantity = Math.max(item.quantity, product.minQuantity);
+  const stock = variant?.stockAvailable ?? product.stockAvailable;
+  if (stock !== null && stock < quantity) return null;
+
+  return {
+    productId: product.id,
+    variantId: variant?.id ?? null,
+    productName: product.name,
+    variantLabel: variant?.label ?? null,
+    options,
+    notes: item.notes,
+    weightKg,
+    quantity,
+    unitPrice: basePrice + computeOptionsSurcharge(options),
+  };
+}
+
+/**
+ * Finds the past options among the product's current ones — the order keeps
+ * only names and labels.  Null when one is gone or a group's limits are no
+ * longer met.
+ */
+function matchOptions(
+  product: CatalogProduct,
+  item: OrderItem,
+): ReorderLineOption[] | null {
+  const options: ReorderLineOption[] = [];
+  for (const past of item.options) {
+    const group = product.optionGroups.find((g) => g.name === past.groupName);
+    if (!group) return null;
+
+    if (group.type === ProductOptionGroupType.TEXT) {
+      options.push({
+        groupId: group.id,
+        optionId: null,
+        groupName: group.name,
+        label: past.label,
+        quantity: 1,
+        price: 0,
+      });
+      continue;
+    }
+
+    const option = group.options.find((o) => o.label === past.label);
+    if (!option) return null;
+    options.push({
+      groupId: group.id,
+      optionId: option.id,
+      groupName: group.name,
+      label: option.label,
+      quantity: Math.min(past.quantity, option.maxQuantity),
+      price: option.price,
+    });
+  }
+
+  for (const group of product.optionGroups) {
+    const picked = options.filter((o) => o.groupId === group.id).length;
+    if (picked < group.minSelections || picked > group.maxSelections) {
+      return null;
+    }
+  }
+  return options;
+}
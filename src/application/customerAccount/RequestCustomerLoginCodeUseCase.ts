@@ -0,0 +1,68 @@
+import { AppError } from "@/shared/errors/AppError";
+import { HttpStatus } from "@/shared/http/statuses";
+import type { ICatalogRepository } from "@/domain/catalog/ICatalogRepository";
+import type { ICustomerLoginCodeRepository } from "@/domain/customer/ICustomerLoginCodeRepository";
+import { LOGIN_CODE_TTL_MINUTES } from "@/domain/customer/CustomerLoginCode";
+import type { IMessagingGateway } from "@/application/ports/IMessagingGateway";
+import {
+  generateLoginCode,
+  hashLoginCode,
+  resolveLoginTarget,
+} from "./loginCodes";
+
+export interface RequestCustomerLoginCodeInput {
+  storeSlug: string;
+  whatsapp: string;
+}
+
+/**
+ * RequestCustomerLoginCodeUseCase — first step of the customer login.
+ *
+ * Sends a one-time code to the WhatsApp number through the messaging
+ * gateway, whether or not the number has ordered before: the account is
+ * created when the code comes back (see VerifyCustomerLoginCodeUseCase).
+ * Unlike order notifications, a failed send is reported — the customer is
+ * waiting for this message.
+ *
+ * How often codes may be requested is limited by the caller (per number
+ * and per IP).
+ */
+export class RequestCustomerLoginCodeUseCase {
+  constructor(
+    private readonly catalogRepo: ICatalogRepository,
+    private readonly codeRepo: ICustomerLoginCodeRepository,
+    private readonly messagingGateway: IMessagingGateway,
+  ) {}
+
+  async execute(input: RequestCustomerLoginCodeInput): Promise<void> {
+    const target = await resolveLoginTarget(
+      this.catalogRepo,
+      input.storeSlug,
+      input.whatsapp,
+    );
+
+    const code = generateLoginCode();
+    await this.codeRepo.issue({
+      storeId: target.storeId,
+      whatsapp: target.whatsapp,
+      codeHash: hashLoginCode(code),
+      expiresAt: new Date(Date.now() + LOGIN_CODE_TTL_MINUTES * 60 * 1000),
+    });
+
+    const result = await this.messagingGateway.send({
+      to: target.whatsapp,
+      body:
+        `${code} é o seu código de acesso em ${target.storeName}. ` +
+        `Ele vale por ${LOGIN_CODE_TTL_MINUTES} minutos — não o compartilhe com ninguém.`,
+    });
+    if (!result.success) {
+      console.error(
+        `[RequestCustomerLoginCodeUseCase] send failed: ${result.error}`,
+      );
+      throw new AppError(
+        "Não foi possível enviar o código pelo WhatsApp. Tente novamente.",
+        HttpStatus.BAD_GATEWAY,
+      );
+    }
+  }
+}
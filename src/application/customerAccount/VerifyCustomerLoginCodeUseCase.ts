@@ -0,0 +1,124 @@
+import { timingSafeEqual } from "node:crypto";
+import { AppError } from "@/shared/errors/AppError";
+import { HttpStatus } from "@/shared/http/statuses";
+import type { ICatalogRepository } from "@/domain/catalog/ICatalogRepository";
+import type { ICustomerRepository } from "@/domain/customer/ICustomerRepository";
+import type { ICustomerLoginCodeRepository } from "@/domain/customer/ICustomerLoginCodeRepository";
+import type { Customer } from "@/domain/customer/Customer";
+import { LOGIN_CODE_MAX_ATTEMPTS } from "@/domain/customer/CustomerLoginCode";
+import { hashLoginCode, resolveLoginTarget } from "./loginCodes";
+
+// ─── DTOs ─────────────────────────────────────────────────────────────────────
+
+export interface VerifyCustomerLoginCodeInput {
+  storeSlug: string;
+  whatsapp: string;
+  code: string;
+  /** Needed only when the number has no customer in the store yet. */
+  name?: string | null;
+}
+
+export type VerifyCustomerLoginCodeOutput =
+  | { status: "SIGNED_IN"; customer: Customer }
+  /** The code is right and still valid — ask for a name and send it again. */
+  | { status: "NAME_REQUIRED" };
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+const INVALID_CODE_MESSAGE = "Código inválido ou expirado. Solicite um novo.";
+const NAME_MAX_LENGTH = 100;
+
+// ─── Use Case ─────────────────────────────────────────────────────────────────
+
+/**
+ * VerifyCustomerLoginCodeUseCase — second step of the customer login.
+ *
+ * Checks the code sent by RequestCustomerLoginCodeUseCase and returns the
+ * store's customer for the number, creating it on first login — orders
+ * placed earlier with the same number are already theirs.  The caller opens
+ * the customer session.
+ *
+ * Rules:
+ *   1. Each check first claims one of the code's LOGIN_CODE_MAX_ATTEMPTS
+ *      attempts, atomically, so parallel guesses cannot go past the limit.
+ *      Codes are compared in constant time; the last wrong guess deletes
+ *      the code.
+ *   2. A code is used once — deleted on success.
+ *   3. A new customer must give a name.  Without one the code is kept and
+ *      NAME_REQUIRED returned, so the form can ask for it.
+ */
+export class VerifyCustomerLoginCodeUseCase {
+  constructor(
+    private readonly catalogRepo: ICatalogRepository,
+    private readonly codeRepo: ICustomerLoginCodeRepository,
+    private readonly customerRepo: ICustomerRepository,
+  ) {}
+
+  async execute(
+    input: VerifyCustomerLoginCodeInput,
+  ): Promise<VerifyCustomerLoginCodeOutput> {
+    const target = await resolveLoginTarget(
+      this.catalogRepo,
+      input.storeSlug,
+      input.whatsapp,
+    );
+
+    const current = await this.codeRepo.findCurrent(
+      target.storeId,
+      target.whatsapp,
+    );
+    if (!current || current.expiresAt <= new Date()) {
+      throw new AppError(INVALID_CODE_MESSAGE, HttpStatus.BAD_REQUEST);
+    }
+
+    if (
+      !(await this.codeRepo.claimAttempt(current.id, LOGIN_CODE_MAX_ATTEMPTS))
+    ) {
+      await this.codeRepo.delete(current.id);
+      throw new AppError(INVALID_CODE_MESSAGE, HttpStatus.BAD_REQUEST);
+    }
+
+    if (!codesMatch(hashLoginCode(input.code.trim()), current.codeHash)) {
+      if (current.attempts + 1 >= LOGIN_CODE_MAX_ATTEMPTS) {
+        await this.codeRepo.delete(current.id);
+        throw new AppError(INVALID_CODE_MESSAGE, HttpStatus.BAD_REQUEST);
+      }
+      throw new AppError("Código incorreto.", HttpStatus.BAD_REQUEST);
+    }
+
+    const existing = await this.customerRepo.findByWhatsApp(
+      target.whatsapp,
+      target.storeId,
+    );
+    const name = input.name?.trim() ?? "";
+    if (!existing) {
+      if (!name) return { status: "NAME_REQUIRED" };
+      if (name.length < 2 || name.length > NAME_MAX_LENGTH) {
+        throw new AppError(
+          `O nome deve ter entre 2 e ${NAME_MAX_LENGTH} caracteres.`,
+          HttpStatus.UNPROCESSABLE_ENTITY,
+        );
+      }
+    }
+
+    // A concurrent request may have used the code first
+    if (!(await this.codeRepo.delete(current.id))) {
+      throw new AppError(INVALID_CODE_MESSAGE, HttpStatus.BAD_REQUEST);
+    }
+
+    const customer =
+      existing ??
+      (await this.customerRepo.create({
+        storeId: target.storeId,
+        name,
+        whatsapp: target.whatsapp,
+      }));
+    return { status: "SIGNED_IN", customer };
+  }
+}
+
+function codesMatch(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
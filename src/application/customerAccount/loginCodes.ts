@@ -0,0 +1,48 @@
+import { createHash, randomInt } from "node:crypto";
+import { AppError } from "@/shared/errors/AppError";
+import { HttpStatus } from "@/shared/http/statuses";
+import type { ICatalogRepository } from "@/domain/catalog/ICatalogRepository";
+import { normalizeWhatsApp } from "@/domain/customer/Customer";
+import { LOGIN_CODE_LENGTH } from "@/domain/customer/CustomerLoginCode";
+
+export interface LoginTarget {
+  storeId: string;
+  storeName: string;
+  /** Normalised digits-only WhatsApp number. */
+  whatsapp: string;
+}
+
+/** Resolves the store of the URL and normalises the typed number. */
+export async function resolveLoginTarget(
+  catalogRepo: ICatalogRepository,
+  storeSlug: string,
+  rawWhatsapp: string,
+): Promise<LoginTarget> {
+  let whatsapp: string;
+  try {
+    whatsapp = normalizeWhatsApp(rawWhatsapp);
+  } catch {
+    throw new AppError(
+      "Informe um WhatsApp válido, com DDD.",
+      HttpStatus.BAD_REQUEST,
+    );
+  }
+
+  const store = await catalogRepo.findBySlug(storeSlug.trim().toLowerCase());
+  if (!store) {
+    throw new AppError("Loja não encontrada.", HttpStatus.NOT_FOUND);
+  }
+  return { storeId: store.storeId, storeName: store.name, whatsapp };
+}
+
+/** A random numeric code, zero-padded to LOGIN_CODE_LENGTH digits. */
+export function generateLoginCode(): string {
+  return String(randomInt(0, 10 ** LOGIN_CODE_LENGTH)).padStart(
+    LOGIN_CODE_LENGTH,
+    "0",
+  );
+}
+
+export function hashLoginCode(code: string): string {
+  return createHash("sha256").update(code).digest("hex");
+}
@@ -0,0 +1,56 @@
+import type { IOrderRepository } from "@/domain/order/IOrderRepository";
+import type { IStoreRepository } from "@/domain/store/IStoreRepository";
+import type { IPixChargeRepository } from "@/domain/payment/IPixChargeRepository";
+import {
+  buildMessageVars,
+  type MessageVars,
+} from "@/domain/store/StoreMessageConfig";
+
+export interface MessagePreview {
+  /** Order the vars were built from, e.g. "Pedido nº 42". */
+  source: string;
+  vars: MessageVars;
+}
+
+/**
+ * GetMessagePreviewUseCase — placeholder values taken from the store's most
+ * recent order, so the settings page can preview templates with real data.
+ *
+ * Returns null when the store has no orders yet; the UI then falls back to
+ * sample values.
+ */
+export class GetMessagePreviewUseCase {
+  constructor(
+    private readonly orderRepo: IOrderRepository,
+    private readonly storeRepo: IStoreRepository,
+    private readonly pixChargeRepo: IPixChargeRepository,
+    private readonly appUrl: string,
+  ) {}
+
+  async execute(storeId: string): Promise<MessagePreview | null> {
+    const [order, pickupAddress, pixKey, identity] = await Promise.all([
+      this.orderRepo.findLatestWithDetails(storeId),
+      this.storeRepo.findPickupAddress(storeId),
+      this.storeRepo.findPixKey(storeId),
+      this.storeRepo.findIdentity(storeId),
+    ]);
+    if (!order) return null;
+    const pixCharge = await this.pixChargeRepo.findLatestByOrder(
+      order.id,
+      storeId,
+    );
+
+    return {
+      source: order.orderNumber
+        ? `Pedido nº ${order.orderNumber}`
+        : "Pedido mais recente",
+      vars: buildMessageVars(order, {
+        pickupAddress,
+        pixKey,
+        pixCode: pixCharge?.brCode ?? null,
+        slug: identity?.slug ?? null,
+        appUrl: this.appUrl,
+      }),
+    };
+  }
+}
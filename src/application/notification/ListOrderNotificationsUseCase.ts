@@ -0,0 +1,20 @@
+import type { IOrderNotificationRepository } from "@/domain/notification/IOrderNotificationRepository";
+import type { OrderNotification } from "@/domain/notification/OrderNotification";
+
+/**
+ * ListOrderNotificationsUseCase
+ *
+ * Returns every automated message attempt for an order, oldest first.
+ * Primary consumer: admin order detail page.
+ * Always tenant-scoped — storeId from session, never from URL params.
+ */
+export class ListOrderNotificationsUseCase {
+  constructor(private readonly repo: IOrderNotificationRepository) {}
+
+  async execute(
+    orderId: string,
+    storeId: string,
+  ): Promise<OrderNotification[]> {
+    return this.repo.findByOrder(orderId, storeId);
+  }
+}
@@ -0,0 +1,67 @@
+import type { IOrderRepository } from "@/domain/order/IOrderRepository";
+import type { IOrderNotificationRepository } from "@/domain/notification/IOrderNotificationRepository";
+import {
+  NotificationStatus,
+  OrderNotificationEvent,
+} from "@/domain/notification/OrderNotification";
+import { addDays, todayUtc } from "@/application/schedule/scheduleHelpers";
+import type { SendOrderNotificationUseCase } from "./SendOrderNotificationUseCase";
+
+export interface SendDayBeforeRemindersOutput {
+  /** Delivery date the reminders were for, YYYY-MM-DD. */
+  date: string;
+  sent: number;
+  failed: number;
+  /** Orders skipped because a reminder was already sent. */
+  skipped: number;
+}
+
+/**
+ * SendDayBeforeRemindersUseCase — reminds customers of tomorrow's orders.
+ *
+ * Meant to run once a day from a scheduler (see /api/cron/reminders), for
+ * every store at once.  Only APPROVED orders that are still open receive a
+ * reminder, and orders that already have a SENT reminder are skipped, so the
+ * job is safe to re-run after a partial failure.
+ */
+export class SendDayBeforeRemindersUseCase {
+  constructor(
+    private readonly orderRepo: IOrderRepository,
+    private readonly notificationRepo: IOrderNotificationRepository,
+    private readonly notifier: SendOrderNotificationUseCase,
+  ) {}
+
+  async execute(): Promise<SendDayBeforeRemindersOutput> {
+    const date = addDays(todayUtc(), 1);
+    const orders = await this.orderRepo.findOpenApprovedForDeliveryRange(
+      new Date(`${date}T00:00:00.000Z`),
+      new Date(`${date}T23:59:59.999Z`),
+    );
+
+    const alreadySent = await this.notificationRepo.findOrderIdsWithSent(
+      orders.map((o) => o.id),
+      OrderNotificationEvent.ORDER_REMINDER,
+    );
+
+    const output: SendDayBeforeRemindersOutput = {
+      date,
+      sent: 0,
+      failed: 0,
+      skipped: alreadySent.size,
+    };
+
+    // Sequential on purpose — keeps us well below provider rate limits.
+    for (const order of orders) {
+      if (alreadySent.has(order.id)) continue;
+      const notification = await this.notifier.execute({
+        orderId: order.id,
+        storeId: order.storeId,
+        event: OrderNotificationEvent.ORDER_REMINDER,
+      });
+      if (notification?.status === NotificationStatus.SENT) output.sent++;
+      else output.failed++;
+    }
+
+    return output;
+  }
+}
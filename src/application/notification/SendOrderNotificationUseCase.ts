@@ -0,0 +1,129 @@
+import type { IMessagingGateway } from "@/application/ports/IMessagingGateway";
+import type { IOrderRepository } from "@/domain/order/IOrderRepository";
+import type { IStoreRepository } from "@/domain/store/IStoreRepository";
+import type { IStoreMessageRepository } from "@/domain/store/IStoreMessageRepository";
+import type { IOrderNotificationRepository } from "@/domain/notification/IOrderNotificationRepository";
+import type { IPixChargeRepository } from "@/domain/payment/IPixChargeRepository";
+import { PixChargeStatus } from "@/domain/payment/PixCharge";
+import {
+  NotificationStatus,
+  OrderNotificationEvent,
+  type OrderNotification,
+} from "@/domain/notification/OrderNotification";
+import {
+  DEFAULT_MESSAGES,
+  buildMessageVars,
+  getTemplate,
+  resolveMessage,
+  type MessageTemplateKey,
+} from "@/domain/store/StoreMessageConfig";
+
+// ─── Input ────────────────────────────────────────────────────────────────────
+
+export interface SendOrderNotificationInput {
+  orderId: string;
+  storeId: string;
+  event: OrderNotificationEvent;
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+/** Which store template renders each event. */
+const EVENT_TEMPLATES: Record<OrderNotificationEvent, MessageTemplateKey> = {
+  [OrderNotificationEvent.ORDER_RECEIVED]: "received",
+  [OrderNotificationEvent.ORDER_APPROVED]: "approval",
+  [OrderNotificationEvent.ORDER_REJECTED]: "rejection",
+  [OrderNotificationEvent.ORDER_PAID]: "paid",
+  [OrderNotificationEvent.ORDER_READY_FOR_PICKUP]: "readyForPickup",
+  [OrderNotificationEvent.ORDER_OUT_FOR_DELIVERY]: "outForDelivery",
+  [OrderNotificationEvent.ORDER_DELIVERED]: "delivered",
+  [OrderNotificationEvent.ORDER_CANCELLED]: "cancelled",
+  [OrderNotificationEvent.ORDER_REMINDER]: "reminder",
+};
+
+// ─── Use case ─────────────────────────────────────────────────────────────────
+
+/**
+ * SendOrderNotificationUseCase
+ *
+ * Renders the store's template for an order event, sends it to the customer
+ * through the messaging gateway and records the attempt.
+ *
+ * Best-effort by design: it never throws.  Callers run it after the order
+ * change is persisted, and a provider outage (or a logging failure) must not
+ * turn a successful approval into an error for the store owner.
+ *
+ * Returns the recorded attempt, or null when nothing could be recorded
+ * (order not found, database unavailable).
+ */
+export class SendOrderNotificationUseCase {
+  constructor(
+    private readonly orderRepo: IOrderRepository,
+    private readonly storeRepo: IStoreRepository,
+    private readonly messageRepo: IStoreMessageRepository,
+    private readonly notificationRepo: IOrderNotificationRepository,
+    private readonly pixChargeRepo: IPixChargeRepository,
+    private readonly gateway: IMessagingGateway,
+    /** Origin of the tracking links in {link}, e.g. "https://app.example". */
+    private readonly appUrl: string,
+  ) {}
+
+  async execute(
+    input: SendOrderNotificationInput,
+  ): Promise<OrderNotification | null> {
+    const { orderId, storeId, event } = input;
+
+    try {
+      const [order, config, pickupAddress, pixKey, identity, pixCharge] =
+        await Promise.all([
+          this.orderRepo.findByIdWithDetails(orderId, storeId),
+          this.messageRepo.findByStore(storeId),
+          this.storeRepo.findPickupAddress(storeId),
+          this.storeRepo.findPixKey(storeId),
+          this.storeRepo.findIdentity(storeId),
+          this.pixChargeRepo.findLatestByOrder(orderId, storeId),
+        ]);
+      if (!order) return null;
+
+      const key = EVENT_TEMPLATES[event];
+      const body = resolveMessage(
+        getTemplate(config, key),
+        DEFAULT_MESSAGES[key],
+        buildMessageVars(order, {
+          pickupAddress,
+          pixKey,
+          pixCode:
+            pixCharge?.status === PixChargeStatus.PENDING
+              ? pixCharge.brCode
+              : null,
+          slug: identity?.slug ?? null,
+          appUrl: this.appUrl,
+        }),
+      );
+      const result = await this.gateway.send({
+        to: order.customerWhatsapp,
+        body,
+      });
+
+      return await this.notificationRepo.create({
+        storeId,
+        orderId,
+        event,
+        channel: this.gateway.channel,
+        recipient: order.customerWhatsapp,
+        body,
+        status: result.success
+          ? NotificationStatus.SENT
+          : NotificationStatus.FAILED,
+        providerMessageId: result.success ? result.providerMessageId : null,
+        error: result.success ? null : result.error,
+      });
+    } catch (err) {
+      console.error(
+        `[SendOrderNotificationUseCase] ${event} for order ${orderId} failed:`,
+        err,
+      );
+      return null;
+    }
+  }
+}
@@ -0,0 +1,86 @@
+import type { IOrderRepository } from "@/domain/order/IOrderRepository";
+import {
+  FulfillmentType,
+  OrderStatus,
+  OrderTrackingStatus,
+} from "@/domain/order/Order";
+import {
+  NotificationStatus,
+  OrderNotificationEvent,
+  type OrderNotification,
+} from "@/domain/notification/OrderNotification";
+import { AppError } from "@/shared/errors/AppError";
+import { HttpStatus } from "@/shared/http/statuses";
+import type { SendOrderNotificationUseCase } from "./SendOrderNotificationUseCase";
+
+/** Events the store owner triggers by hand, and the fulfillment they fit. */
+const PROGRESS_EVENTS = {
+  [OrderNotificationEvent.ORDER_READY_FOR_PICKUP]: FulfillmentType.PICKUP,
+  [OrderNotificationEvent.ORDER_OUT_FOR_DELIVERY]: FulfillmentType.DELIVERY,
+} as const;
+
+export type OrderProgressEvent = keyof typeof PROGRESS_EVENTS;
+
+export function isOrderProgressEvent(
+  event: string,
+): event is OrderProgressEvent {
+  return Object.prototype.hasOwnProperty.call(PROGRESS_EVENTS, event);
+}
+
+/**
+ * SendOrderProgressMessageUseCase — "ready for pickup" / "out for delivery".
+ *
+ * These moments have no status of their own, so the store owner sends them
+ * from the order detail page.  The order must be APPROVED, still open and
+ * of the matching fulfillment type.
+ *
+ * Unlike automatic notifications a failed send is reported back (502), since
+ * the store owner is waiting for the result.
+ */
+export class SendOrderProgressMessageUseCase {
+  constructor(
+    private readonly orderRepo: IOrderRepository,
+    private readonly notifier: SendOrderNotificationUseCase,
+  ) {}
+
+  async execute(
+    orderId: string,
+    storeId: string,
+    event: OrderProgressEvent,
+  ): Promise<OrderNotification> {
+    const order = await this.orderRepo.findById(orderId, storeId);
+    if (!order) {
+      throw new AppError("Pedido não encontrado.", HttpStatus.NOT_FOUND);
+    }
+
+    if (
+      order.status !== OrderStatus.APPROVED ||
+      order.orderStatus === OrderTrackingStatus.DELIVERED ||
+      order.orderStatus === OrderTrackingStatus.CANCELLED
+    ) {
+      throw new AppError(
+        "Só é possível avisar o cliente sobre pedidos aprovados em andamento.",
+        HttpStatus.CONFLICT,
+      );
+    }
+    if (order.fulfillmentType !== PROGRESS_EVENTS[event]) {
+      throw new AppError(
+        "Este aviso não corresponde à forma de entrega do pedido.",
+        HttpStatus.UNPROCESSABLE_ENTITY,
+      );
+    }
+
+    const notification = await this.notifier.execute({
+      orderId,
+      storeId,
+      event,
+    });
+    if (!notification || notification.status !== NotificationStatus.SENT) {
+      throw new AppError(
+        "Não foi possível enviar a mensagem. Tente novamente.",
+        HttpStatus.BAD_GATEWAY,
+      );
+    }
+    return notification;
+  }
+}
@@ -0,0 +1,45 @@
+import type { IOrderRepository } from "@/domain/order/IOrderRepository";
+import { FulfillmentType, OrderTrackingStatus } from "@/domain/order/Order";
+import type { Order } from "@/domain/order/Order";
+import type { OrderChangeContext } from "@/domain/order/OrderStatusLog";
+import type { UpdateOrderTrackingStatusUseCase } from "./UpdateOrderTrackingStatusUseCase";
+import { AppError } from "@/shared/errors/AppError";
+import { HttpStatus } from "@/shared/http/statuses";
+
+/**
+ * ConfirmDeliveryUseCase
+ *
+ * Marks an order DELIVERED from the delivery run.  Only a DELIVERY order of
+ * `date` (YYYY-MM-DD, UTC) qualifies — delivery users reach no other order.
+ * The transition itself, its history entry and the customer message are
+ * UpdateOrderTrackingStatusUseCase's, so an unpaid order is refused there.
+ */
+export class ConfirmDeliveryUseCase {
+  constructor(
+    private readonly orderRepo: IOrderRepository,
+    private readonly updateTrackingStatus: UpdateOrderTrackingStatusUseCase,
+  ) {}
+
+  async execute(
+    orderId: string,
+    storeId: string,
+    date: string,
+    change: OrderChangeContext,
+  ): Promise<Order> {
+    const order = await this.orderRepo.findById(orderId, storeId);
+    if (
+      !order ||
+      order.fulfillmentType !== FulfillmentType.DELIVERY ||
+      order.deliveryDate.toISOString().slice(0, 10) !== date
+    ) {
+      throw new AppError("Entrega não encontrada.", HttpStatus.NOT_FOUND);
+    }
+
+    return this.updateTrackingStatus.execute(
+      orderId,
+      storeId,
+      OrderTrackingStatus.DELIVERED,
+      change,
+    );
+  }
+}
@@ -0,0 +1,526 @@
+import { AppError } from "@/shared/errors/AppError";
+import { HttpStatus } from "@/shared/http/statuses";
+import { validateItemQuantity } from "@/domain/order/OrderItem";
+import {
+  OrderStatus,
+  FulfillmentType,
+  isOrderEditable,
+  type OrderWithDetails,
+  type UpdateOrderInput,
+} from "@/domain/order/Order";
+import type { OrderChangeContext } from "@/domain/order/OrderStatusLog";
+import {
+  computeSlotAvailability,
+  canSlotFit,
+  formatSlotLabel,
+} from "@/domain/pickupSlot/StorePickupSlot";
+import {
+  aggregateProductionUsage,
+  computeDailyCapacity,
+  findCapacityShortfall,
+} from "@/domain/production/ProductionCapacity";
+import {
+  priceWindowForDate,
+  withEffectivePrices,
+} from "@/domain/product/PriceSchedule";
+import { computeCouponDiscounts } from "@/domain/coupon/Coupon";
+import { defaultIsOpen } from "@/application/schedule/scheduleHelpers";
+import type { IOrderRepository } from "@/domain/order/IOrderRepository";
+import type { IProductRepository } from "@/domain/product/IProductRepository";
+import type { IStoreRepository } from "@/domain/store/IStoreRepository";
+import type { IStoreCepRangeRepository } from "@/domain/cepRange/IStoreCepRangeRepository";
+import type { IStorePickupSlotRepository } from "@/domain/pickupSlot/IStorePickupSlotRepository";
+import type { IStoreScheduleRepository } from "@/domain/schedule/IStoreScheduleRepository";
+import type { ICouponRepository } from "@/domain/coupon/ICouponRepository";
+import type { IProductCategoryRepository } from "@/domain/category/IProductCategoryRepository";
+import type { SyncOrderPaymentStatusUseCase } from "@/application/payment/SyncOrderPaymentStatusUseCase";
+import type { StorePickupSlot } from "@/domain/pickupSlot/StorePickupSlot";
+import type { Product } from "@/domain/product/Product";
+import {
+  assertMinimumAdvance,
+  assertProductsAvailable,
+  buildShippingAddress,
+  capacityShortfallMessage,
+  resolveDeliveryFee,
+  resolveLineOptions,
+  resolveLinePrice,
+  slotFullMessage,
+} from "./orderHelpers";
+
+// ─── Input ────────────────────────────────────────────────────────────────────
+
+export interface EditOrderItemInput {
+  /**
+   * OrderItem.id of a line already on the order.  Kept lines retain their
+   * frozen name, price, options, notes and weight — only the quantity
+   * changes, and a changed quantity clears the recorded weighing.  Omit for
+   * new lines, which are added without options or weight: a product whose
+   * option groups require a choice, or a variant sold by weight, cannot be
+   * added here.
+   */
+  itemId?: string | null;
+  productId: string;
+  variantId?: string | null;
+  quantity: number;
+}
+
+/** The complete edited state of the order — lines missing here are removed. */
+export interface EditOrderInput {
+  items: EditOrderItemInput[];
+  deliveryDate: Date;
+  fulfillmentType: FulfillmentType;
+  /** Required when fulfillmentType === PICKUP. */
+  pickupSlotId?: string | null;
+  /** Required when fulfillmentType === DELIVERY. */
+  deliveryCep?: string | null;
+  deliveryStreet?: string | null;
+  deliveryNumber?: string | null;
+  deliveryNeighborhood?: string | null;
+  deliveryCity?: string | null;
+}
+
+// ─── Use case ─────────────────────────────────────────────────────────────────
+
+/**
+ * EditOrderUseCase — store-side edit of an open order's items, date and
+ * fulfillment (e.g. the customer calls to add a second cake).
+ *
+ * Steps:
+ *   1. Order exists, belongs to the store and is still editable
+ *      (not rejected, delivered or cancelled)
+ *   2. Date — when it changed, minimumAdvanceDays and the store schedule
+ *      are checked again, exactly as at placement
+ *   3. PICKUP: slot exists, is active and matches the weekday (re-checked
+ *      when the slot or the date changed)
+ *      DELIVERY: fee recomputed from the CEP ranges when the CEP changed or
+ *      the order switched from pickup; otherwise the frozen fee is kept
+ *   4. Items — kept lines keep their frozen prices; new lines freeze the
+ *      catalogue price for the delivery date, promos included.  Product
+ *      availability (weekdays, date range, lead time) is checked as at
+ *      placement: for every line when the date changed, otherwise for the
+ *      products the edit adds
+ *   4c. Coupon — when the lines changed, its discounts are recomputed over
+ *      the edited lines (a FIXED order coupon is re-split, never grown) and
+ *      its minimum subtotal re-checked; an edit below the minimum is
+ *      rejected.  A coupon deleted since placement gives no discount.  A
+ *      free-delivery coupon keeps the fee at zero
+ *   5. Slot and daily production capacity, excluding the order's own usage
+ *   6. Persist fields + item set in one transaction; the repository records
+ *      the change in the status history
+ *   7. Re-sync the payment status with the new total — a paid order whose
+ *      total went up is PARTIALLY_PAID again
+ */
+export class EditOrderUseCase {
+  constructor(
+    private readonly orderRepo: IOrderRepository,
+    private readonly productRepo: IProductRepository,
+    private readonly storeRepo: IStoreRepository,
+    private readonly cepRangeRepo: IStoreCepRangeRepository,
+    private readonly pickupSlotRepo: IStorePickupSlotRepository,
+    private readonly scheduleRepo: IStoreScheduleRepository,
+    private readonly couponRepo: ICouponRepository,
+    private readonly productCategoryRepo: IProductCategoryRepository,
+    private readonly syncPaymentStatus: SyncOrderPaymentStatusUseCase,
+  ) {}
+
+  async execute(
+    orderId: string,
+    storeId: string,
+    input: EditOrderInput,
+    change: OrderChangeContext,
+  ): Promise<OrderWithDetails> {
+    // ── 1. Load and gate ─────────────────────────────────────────────────────
+
+    const current = await this.orderRepo.findByIdWithDetails(orderId, storeId);
+    if (!current) {
+      throw new AppError("Pedido não encontrado.", HttpStatus.NOT_FOUND);
+    }
+    if (!isOrderEditable(current)) {
+      throw new AppError(
+        "Pedidos rejeitados, entregues ou cancelados não podem ser editados.",
+        HttpStatus.CONFLICT,
+      );
+    }
+
+    if (!Array.isArray(input.items) || input.items.length === 0) {
+      throw new AppError(
+        "O pedido precisa ter pelo menos um item.",
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+    if (
+      !(input.deliveryDate instanceof Date) ||
+      isNaN(input.deliveryDate.getTime())
+    ) {
+      throw new AppError("Data de entrega inválida.", HttpStatus.BAD_REQUEST);
+    }
+
+    const isPickup = input.fulfillmentType === FulfillmentType.PICKUP;
+    if (isPickup && !input.pickupSlotId?.trim()) {
+      throw new AppError(
+        "Escolha um horário de retirada.",
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+    if (
+      !isPickup &&
+      (!input.deliveryCep?.trim() ||
+        !input.deliveryStreet?.trim() ||
+        !input.deliveryNumber?.trim() ||
+        !input.deliveryNeighborhood?.trim() ||
+        !input.deliveryCity?.trim())
+    ) {
+      throw new AppError(
+        "Preencha o endereço de entrega completo.",
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    // ── 2. Date ──────────────────────────────────────────────────────────────
+
+    const orderDate = input.deliveryDate.toISOString().slice(0, 10);
+    const currentDate = current.deliveryDate.toISOString().slice(0, 10);
+    const dateChanged = orderDate !== currentDate;
+
+    const minimumAdvanceDays =
+      await this.storeRepo.findMinimumAdvanceDays(storeId);
+    if (dateChanged) {
+      assertMinimumAdvance(input.deliveryDate, minimumAdvanceDays);
+
+      const override = await this.scheduleRepo.findByDate(storeId, orderDate);
+      const isOpen = override ? override.isOpen : defaultIsOpen(orderDate);
+      if (!isOpen) {
+        throw new AppError(
+          "A loja não está recebendo pedidos para a data escolhida. Escolha outra data.",
+          HttpStatus.UNPROCESSABLE_ENTITY,
+        );
+      }
+    }
+
+    // ── 3. Fulfillment ───────────────────────────────────────────────────────
+
+    let pickupSlot: StorePickupSlot | null = null;
+    const slotChanged =
+      isPickup &&
+      (dateChanged || input.pickupSlotId?.trim() !== current.pickupSlotId);
+
+    if (isPickup) {
+      pickupSlot = await this.pickupSlotRepo.findById(
+        (input.pickupSlotId ?? "").trim(),
+        storeId,
+      );
+      if (!pickupSlot || (slotChanged && !pickupSlot.isActive)) {
+        throw new AppError(
+          "O horário de retirada escolhido não está disponível. Escolha outro horário.",
+          HttpStatus.UNPROCESSABLE_ENTITY,
+        );
+      }
+      if (pickupSlot.dayOfWeek !== input.deliveryDate.getUTCDay()) {
+        throw new AppError(
+          "O horário de retirada escolhido não é válido para a data do pedido.",
+          HttpStatus.UNPROCESSABLE_ENTITY,
+        );
+      }
+    }
+
+    const deliveryCep = isPickup
+      ? null
+      : (input.deliveryCep ?? "").replace(/\D/g, "");
+    let deliveryFee = current.deliveryFee;
+    if (isPickup) {
+      deliveryFee = 0;
+    } else if (
+      current.fulfillmentType !== FulfillmentType.DELIVERY ||
+      deliveryCep !== (current.deliveryCep ?? "").replace(/\D/g, "")
+    ) {
+      deliveryFee = resolveDeliveryFee(
+        deliveryCep ?? "",
+        await this.cepRangeRepo.findByStore(storeId),
+        await this.storeRepo.findDefaultDeliveryFee(storeId),
+      );
+    }
+
+    // ── 4. Items ─────────────────────────────────────────────────────────────
+
+    const items: NonNullable<UpdateOrderInput["items"]> = [];
+    const products = new Map<string, Product>();
+
+    for (const line of input.items) {
+      const kept = line.itemId
+        ? current.items.find((item) => item.id === line.itemId)
+        : undefined;
+      if (line.itemId && !kept) {
+        throw new AppError(
+          "Item do pedido não encontrado.",
+          HttpStatus.UNPROCESSABLE_ENTITY,
+        );
+      }
+
+      const productId = kept ? kept.productId : line.productId?.trim();
+      if (!productId) {
+        throw new AppError(
+          "Cada item precisa de um produto.",
+          HttpStatus.BAD_REQUEST,
+        );
+      }
+
+      let product = products.get(productId) ?? null;
+      if (!product) {
+        product = await this.productRepo.findById(productId, storeId);
+        if (product) products.set(product.id, product);
+      }
+
+      try {
+        validateItemQuantity(
+          line.quantity,
+          product?.minQuantity ?? 1,
+          kept?.productName ?? product?.name ?? "item",
+        );
+      } catch (err) {
+        throw new AppError(
+          (err as Error).message,
+          HttpStatus.UNPROCESSABLE_ENTITY,
+        );
+      }
+
+      if (kept) {
+        // Frozen snapshot — the catalogue may have changed since placement
+        items.push({
+          productId: kept.productId,
+          variantId: kept.variantId,
+          productName: kept.productName,
+          variantLabel: kept.variantLabel,
+          options: kept.options,
+          notes: kept.notes,
+          weightKg: kept.weightKg,
+          pricePerKg: kept.pricePerKg,
+          // The weighing covered the old quantity
+          finalWeightKg:
+            line.quantity === kept.quantity ? kept.finalWeightKg : null,
+          quantity: line.quantity,
+          unitPrice: kept.unitPrice,
+          discountAmount: kept.discountAmount,
+        });
+        continue;
+      }
+
+      if (!product || !product.isActive) {
+        throw new AppError(
+          product
+            ? `"${product.name}" está indisponível.`
+            : "Produto não encontrado ou indisponível.",
+          HttpStatus.UNPROCESSABLE_ENTITY,
+        );
+      }
+
+      // Rejects WEIGHT variants — new lines carry no weight
+      const { unitPrice, variantId, variantLabel } = resolveLinePrice(
+        withEffectivePrices(product, priceWindowForDate(orderDate)),
+        line.variantId,
+      );
+      // Rejects products with required option groups
+      resolveLineOptions(product, []);
+      items.push({
+        productId: product.id,
+        variantId,
+        productName: product.name,
+        variantLabel,
+        quantity: line.quantity,
+        unitPrice,
+        discountAmount: 0,
+      });
+    }
+
+    // ── 4b. Product availability for the date ───────────────────────────────
+
+    const checkedIds = [...new Set(items.map((item) => item.productId))].filter(
+      (productId) =>
+        dateChanged ||
+        !current.items.some((item) => item.productId === productId),
+    );
+    if (checkedIds.length > 0) {
+      assertProductsAvailable(
+        await this.productRepo.findAvailability(checkedIds, storeId),
+        checkedIds,
+        input.deliveryDate,
+        minimumAdvanceDays,
+      );
+    }
+
+    // ── 4c. Coupon — re-applied over the edited lines ──────────────────────
+
+    const linesChanged =
+      items.length !== current.items.length ||
+      input.items.some(
+        (line) =>
+          !line.itemId ||
+          current.items.find((item) => item.id === line.itemId)?.quantity !==
+            line.quantity,
+      );
+    const coupon = current.couponId
+      ? await this.couponRepo.findById(current.couponId, storeId)
+      : null;
+
+    if (current.couponCode && linesChanged) {
+      const subtotal = items.reduce(
+        (sum, item) => sum + item.unitPrice * item.quantity,
+        0,
+      );
+      if (
+        coupon &&
+        coupon.minSubtotal !== null &&
+        subtotal < coupon.minSubtotal
+      ) {
+        throw new AppError(
+          `O cupom ${coupon.code} do pedido vale a partir de ${coupon.minSubtotal.toLocaleString(
+            "pt-BR",
+            { style: "currency", currency: "BRL" },
+          )} em itens. Ajuste os itens para manter o desconto.`,
+          HttpStatus.UNPROCESSABLE_ENTITY,
+        );
+      }
+
+      const categoryIds = coupon?.categoryId
+        ? await Promise.all(
+            items.map((item) =>
+              this.productCategoryRepo.findCategoryIdsByProduct(
+                item.productId,
+                storeId,
+              ),
+            ),
+          )
+        : items.map(() => []);
+      const perUnit = coupon
+        ? computeCouponDiscounts(
+            coupon,
+            items.map((item, i) => ({
+              productId: item.productId,
+              categoryIds: categoryIds[i],
+              unitPrice: item.unitPrice,
+              quantity: item.quantity,
+            })),
+          )
+        : items.map(() => 0);
+      items.forEach((item, i) => {
+        item.discountAmount = perUnit[i];
+      });
+    }
+    if (coupon?.freeDelivery) deliveryFee = 0;
+
+    // ── 5a. Pickup slot capacity — without this order's own booking ─────────
+
+    const itemUnits = items.reduce((sum, item) => sum + item.quantity, 0);
+
+    if (
+      pickupSlot &&
+      (pickupSlot.maxOrders !== null || pickupSlot.maxItems !== null)
+    ) {
+      const [usage] = await this.orderRepo.getPickupSlotUsage(storeId, {
+        from: new Date(`${orderDate}T00:00:00.000Z`),
+        to: new Date(`${orderDate}T23:59:59.999Z`),
+        pickupSlotIds: [pickupSlot.id],
+      });
+      const ownBooking =
+        !slotChanged && usage
+          ? {
+              orderCount: 1,
+              itemUnits: current.items.reduce((s, i) => s + i.quantity, 0),
+            }
+          : { orderCount: 0, itemUnits: 0 };
+      const availability = computeSlotAvailability(
+        pickupSlot,
+        usage && {
+          orderCount: usage.orderCount - ownBooking.orderCount,
+          itemUnits: usage.itemUnits - ownBooking.itemUnits,
+        },
+        orderDate,
+      );
+
+      if (!canSlotFit(availability, itemUnits)) {
+        throw new AppError(slotFullMessage(availability), HttpStatus.CONFLICT);
+      }
+    }
+
+    // ── 5b. Daily production capacity — without this order's own items ─────
+
+    const productList = [...products.values()];
+    const storeDailyCapacity = await this.storeRepo.findDailyCapacity(storeId);
+    const hasProductionLimit =
+      storeDailyCapacity !== null ||
+      productList.some(
+        (p) =>
+          p.dailyCapacity !== null ||
+          p.variants.some((v) => v.dailyCapacity !== null),
+      );
+
+    if (hasProductionLimit) {
+      const booked = await this.orderRepo.findAllByStoreWithDetails(storeId, {
+        deliveryDateFrom: new Date(`${orderDate}T00:00:00.000Z`),
+        deliveryDateTo: new Date(`${orderDate}T23:59:59.999Z`),
+        status: [OrderStatus.APPROVED, OrderStatus.PENDING],
+      });
+      const capacity = computeDailyCapacity(
+        orderDate,
+        aggregateProductionUsage(
+          booked.filter((order) => order.id !== orderId),
+        ).get(orderDate),
+        { storeDailyCapacity, products: productList },
+      );
+      const shortfall = findCapacityShortfall(capacity, items);
+
+      if (shortfall) {
+        throw new AppError(
+          capacityShortfallMessage(shortfall, productList),
+          HttpStatus.CONFLICT,
+        );
+      }
+    }
+
+    // ── 6. Persist ───────────────────────────────────────────────────────────
+
+    const delivery = isPickup
+      ? null
+      : {
+          deliveryCep,
+          deliveryStreet: input.deliveryStreet!.trim(),
+          deliveryNumber: input.deliveryNumber!.trim(),
+          deliveryNeighborhood: input.deliveryNeighborhood!.trim(),
+          deliveryCity: input.deliveryCity!.trim(),
+        };
+
+    const updated = await this.orderRepo.update(
+      orderId,
+      storeId,
+      {
+        // Same calendar day keeps the stored timestamp — no spurious change
+        deliveryDate: dateChanged ? input.deliveryDate : current.deliveryDate,
+        fulfillmentType: input.fulfillmentType,
+        // Label and id always come from the stored slot, never the client
+        pickupTime: pickupSlot ? formatSlotLabel(pickupSlot) : null,
+        pickupSlotId: pickupSlot?.id ?? null,
+        deliveryCep: delivery?.deliveryCep ?? null,
+        deliveryStreet: delivery?.deliveryStreet ?? null,
+        deliveryNumber: delivery?.deliveryNumber ?? null,
+        deliveryNeighborhood: delivery?.deliveryNeighborhood ?? null,
+        deliveryCity: delivery?.deliveryCity ?? null,
+        shippingAddress: delivery ? buildShippingAddress(delivery) : null,
+        deliveryFee,
+        items,
+      },
+      change,
+    );
+    if (!updated) {
+      throw new AppError("Pedido não encontrado.", HttpStatus.NOT_FOUND);
+    }
+
+    // ── 7. Payment status ────────────────────────────────────────────────────
+
+    await this.syncPaymentStatus.execute(orderId, storeId, change);
+
+    const edited = await this.orderRepo.findByIdWithDetails(orderId, storeId);
+    if (!edited) {
+      throw new AppError("Pedido não encontrado.", HttpStatus.NOT_FOUND);
+    }
+    return edited;
+  }
+}
@@ -0,0 +1,196 @@
+import { AppError } from "@/shared/errors/AppError";
+import { HttpStatus } from "@/shared/http/statuses";
+import type { ICatalogRepository } from "@/domain/catalog/ICatalogRepository";
+import type { IOrderRepository } from "@/domain/order/IOrderRepository";
+import type { IPaymentRepository } from "@/domain/payment/IPaymentRepository";
+import type { OrderWithDetails } from "@/domain/order/Order";
+import {
+  buildOrderTimeline,
+  type OrderTimelineStep,
+} from "@/domain/order/OrderTimeline";
+import {
+  computeLineTotal,
+  computeOrderTotal,
+  type OrderItem,
+} from "@/domain/order/OrderItem";
+import type { StorePickupAddress } from "@/domain/store/types";
+import type { PixCharge } from "@/domain/payment/PixCharge";
+import { computeOrderBalance } from "@/domain/payment/Payment";
+import type { IssuePixChargeUseCase } from "@/application/payment/IssuePixChargeUseCase";
+
+// ─── Output ───────────────────────────────────────────────────────────────────
+
+/**
+ * OrderTrackingView — what the public tracking page may show.
+ *
+ * Deliberately narrower than OrderWithDetails: anyone holding the link sees
+ * it, so the customer's WhatsApp number and internal ids are left out.
+ */
+export interface OrderTrackingView {
+  store: {
+    name: string;
+    slug: string;
+    /** Digit string for the contact CTA. */
+    whatsapp: string;
+    pickupAddress: StorePickupAddress | null;
+  };
+  order: Pick<
+    OrderWithDetails,
+    | "orderNumber"
+    | "status"
+    | "orderStatus"
+    | "fulfillmentType"
+    | "deliveryDate"
+    | "pickupTime"
+    | "deliveryStreet"
+    | "deliveryNumber"
+    | "deliveryNeighborhood"
+    | "deliveryCity"
+    | "deliveryCep"
+    | "shippingAddress"
+    | "notes"
+    | "deliveryFee"
+    | "createdAt"
+  > & {
+    /** First name only. */
+    customerFirstName: string;
+    items: (Pick<
+      OrderItem,
+      | "productName"
+      | "variantLabel"
+      | "options"
+      | "notes"
+      | "weightKg"
+      | "finalWeightKg"
+      | "quantity"
+      | "unitPrice"
+    > & { lineTotal: number })[];
+    subtotal: number;
+    total: number;
+    /** Sum of the payments recorded so far. */
+    paid: number;
+    outstanding: number;
+  };
+  /** PIX charge to pay. Null unless the order is approved and unpaid. */
+  pix:
+    | (Pick<PixCharge, "brCode" | "qrCodeImage" | "amount" | "expiresAt"> & {
+        /** Charge for the store's upfront deposit, not the whole balance. */
+        isDeposit: boolean;
+      })
+    | null;
+  timeline: OrderTimelineStep[];
+}
+
+// ─── Use case ─────────────────────────────────────────────────────────────────
+
+/**
+ * GetOrderTrackingUseCase
+ *
+ * Resolves the public tracking page /catalog/[storeSlug]/pedido/[token].
+ * No authentication: the unguessable token is the credential, and it must
+ * belong to the store in the URL.
+ *
+ * Approved orders waiting for payment carry their PIX charge, issued on the
+ * spot when missing or outdated (e.g. the store edited the order, or a
+ * deposit was paid and the balance is now due).
+ *
+ * Throws AppError(NOT_FOUND) for an unknown store or token — the page maps
+ * both to the same 404 so nothing leaks about which part was wrong.
+ */
+export class GetOrderTrackingUseCase {
+  constructor(
+    private readonly catalogRepo: ICatalogRepository,
+    private readonly orderRepo: IOrderRepository,
+    private readonly paymentRepo: IPaymentRepository,
+    private readonly issuePixCharge: IssuePixChargeUseCase,
+  ) {}
+
+  async execute(
+    storeSlug: string,
+    trackingToken: string,
+  ): Promise<OrderTrackingView> {
+    const slug = storeSlug?.trim().toLowerCase();
+    const token = trackingToken?.trim();
+    if (!slug || !token) {
+      throw new AppError("Pedido não encontrado.", HttpStatus.NOT_FOUND);
+    }
+
+    const store = await this.catalogRepo.findBySlug(slug);
+    if (!store) {
+      throw new AppError("Pedido não encontrado.", HttpStatus.NOT_FOUND);
+    }
+
+    const order = await this.orderRepo.findByTrackingToken(
+      token,
+      store.storeId,
+    );
+    if (!order) {
+      throw new AppError("Pedido não encontrado.", HttpStatus.NOT_FOUND);
+    }
+
+    const subtotal = computeOrderTotal(order.items);
+    const [pix, payments] = await Promise.all([
+      this.issuePixCharge.execute({
+        orderId: order.id,
+        storeId: store.storeId,
+      }),
+      this.paymentRepo.findByOrder(order.id, store.storeId),
+    ]);
+    const balance = computeOrderBalance(
+      subtotal + order.deliveryFee,
+      payments,
+      null,
+    );
+    const name = order.customerName.trim();
+
+    return {
+      store: {
+        name: store.name,
+        slug: store.slug,
+        whatsapp: store.whatsapp,
+        pickupAddress: store.pickupAddress,
+      },
+      order: {
+        orderNumber: order.orderNumber,
+        status: order.status,
+        orderStatus: order.orderStatus,
+        fulfillmentType: order.fulfillmentType,
+        deliveryDate: order.deliveryDate,
+        pickupTime: order.pickupTime,
+        deliveryStreet: order.deliveryStreet,
+        deliveryNumber: order.deliveryNumber,
+        deliveryNeighborhood: order.deliveryNeighborhood,
+        deliveryCity: order.deliveryCity,
+        deliveryCep: order.deliveryCep,
+        shippingAddress: order.shippingAddress,
+        notes: order.notes,
+        deliveryFee: order.deliveryFee,
+        createdAt: order.createdAt,
+        customerFirstName: name.split(/\s+/)[0] ?? name,
+        items: order.items.map((item) => ({
+          productName: item.productName,
+          variantLabel: item.variantLabel,
+          options: item.options,
+          notes: item.notes,
+          weightKg: item.weightKg,
+          finalWeightKg: item.finalWeightKg,
+          quantity: item.quantity,
+          unitPrice: item.unitPrice,
+          lineTotal: computeLineTotal(item),
+        })),
+        subtotal,
+        total: balance.total,
+        paid: balance.paid,
+        outstanding: balance.outstanding,
+      },
+      pix: pix && {
+        brCode: pix.brCode,
+        qrCodeImage: pix.qrCodeImage,
+        amount: pix.amount,
+        expiresAt: pix.expiresAt,
+        isDeposit: balance.paid === 0 && pix.amount < balance.total,
+      },
+      timeline: buildOrderTimeline(order),
+    };
+  }
+}
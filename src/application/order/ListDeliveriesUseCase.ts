@@ -0,0 +1,34 @@
+import type { IOrderRepository } from "@/domain/order/IOrderRepository";
+import {
+  FulfillmentType,
+  OrderStatus,
+  OrderTrackingStatus,
+} from "@/domain/order/Order";
+import type { OrderWithDetails } from "@/domain/order/Order";
+
+/**
+ * ListDeliveriesUseCase
+ *
+ * The delivery run of one date: approved DELIVERY orders, cancelled ones
+ * left out, delivered ones kept so the driver sees the whole day.
+ * Primary consumer: the /dashboard/deliveries page of delivery users.
+ *
+ * `date` is a YYYY-MM-DD calendar date, queried as a full UTC day like the
+ * production board.
+ */
+export class ListDeliveriesUseCase {
+  constructor(private readonly orderRepo: IOrderRepository) {}
+
+  async execute(storeId: string, date: string): Promise<OrderWithDetails[]> {
+    const orders = await this.orderRepo.findAllByStoreWithDetails(storeId, {
+      status: OrderStatus.APPROVED,
+      deliveryDateFrom: new Date(`${date}T00:00:00.000Z`),
+      deliveryDateTo: new Date(`${date}T23:59:59.999Z`),
+    });
+    return orders.filter(
+      (o) =>
+        o.fulfillmentType === FulfillmentType.DELIVERY &&
+        o.orderStatus !== OrderTrackingStatus.CANCELLED,
+    );
+  }
+}
@@ -0,0 +1,18 @@
+import type { IOrderStatusLogRepository } from "@/domain/order/IOrderStatusLogRepository";
+import type { OrderStatusLog } from "@/domain/order/OrderStatusLog";
+
+/**
+ * ListOrderStatusHistoryUseCase
+ *
+ * Returns the audit trail of an order — every transition and edit with its
+ * author and reason — oldest first.
+ * Primary consumer: admin order detail page.
+ * Always tenant-scoped — storeId from session, never from URL params.
+ */
+export class ListOrderStatusHistoryUseCase {
+  constructor(private readonly repo: IOrderStatusLogRepository) {}
+
+  async execute(orderId: string, storeId: string): Promise<OrderStatusLog[]> {
+    return this.repo.findByOrder(orderId, storeId);
+  }
+}
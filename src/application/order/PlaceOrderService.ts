@@ -2,19 +2,60 @@ import { AppError } from "@/shared/errors/AppError";
 import { HttpStatus } from "@/shared/http/statuses";
 import { normalizeWhatsApp } from "@/domain/customer/Customer";
 import {
+  ORDER_ITEM_NOTES_MAX_LENGTH,
   validateItemQuantity,
   computeLineTotal,
   computeOrderTotal,
 } from "@/domain/order/OrderItem";
-import { OrderStatus, FulfillmentType } from "@/domain/order/Order";
+import {
+  OrderStatus,
+  FulfillmentType,
+  type OrderWithDetails,
+} from "@/domain/order/Order";
+import {
+  computeSlotAvailability,
+  canSlotFit,
+  formatSlotLabel,
+} from "@/domain/pickupSlot/StorePickupSlot";
+import {
+  aggregateProductionUsage,
+  computeDailyCapacity,
+  findCapacityShortfall,
+} from "@/domain/production/ProductionCapacity";
+import { findStockShortfall } from "@/domain/product/ProductStock";
+import {
+  priceWindowForDate,
+  withEffectivePrices,
+} from "@/domain/product/PriceSchedule";
+import { OrderNotificationEvent } from "@/domain/notification/OrderNotification";
+import { defaultIsOpen } from "@/application/schedule/scheduleHelpers";
+import {
+  assertProductsAvailable,
+  buildShippingAddress,
+  capacityShortfallMessage,
+  resolveDeliveryFee,
+  resolveLineOptions,
+  resolveLinePrice,
+  slotFullMessage,
+  stockShortfallMessage,
+} from "./orderHelpers";
+import type { SendOrderNotificationUseCase } from "@/application/notification/SendOrderNotificationUseCase";
+import type { ApplyCouponUseCase } from "@/application/coupon/ApplyCouponUseCase";
 import type { ICatalogRepository } from "@/domain/catalog/ICatalogRepository";
-import type { ICustomerRepository } from "@/domain/customer/ICustomerRepository";
 import type { IProductRepository } from "@/domain/product/IProductRepository";
 import type { IOrderRepository } from "@/domain/order/IOrderRepository";
-import type { IOrderItemRepository } from "@/domain/order/IOrderItemRepository";
 import type { IStoreCepRangeRepository } from "@/domain/cepRange/IStoreCepRangeRepository";
+import type { IStorePickupSlotRepository } from "@/domain/pickupSlot/IStorePickupSlotRepository";
+import type { IStoreScheduleRepository } from "@/domain/schedule/IStoreScheduleRepository";
+import type { StorePickupSlot } from "@/domain/pickupSlot/StorePickupSlot";
 import type { CreateOrderItemInput } from "@/domain/order/OrderItem";
 import type { StorePickupAddress } from "@/domain/store/types";
+import type { StoreCatalog } from "@/domain/catalog/types";
+import type { Product } from "@/domain/product/Product";
+import type {
+  OptionSelection,
+  OrderItemOption,
+} from "@/domain/product/ProductOption";
 
 // ─── I/O types ────────────────────────────────────────────────────────────────
 
@@ -23,6 +64,12 @@ export interface PlaceOrderItemInput {
   productId: string;
   /** CatalogVariant.id — required when the product has variants */
   variantId?: string | null;
+  /** Choices for the product's option groups. */
+  options?: OptionSelection[] | null;
+  /** Customer instructions for this line. Stored trimmed, at most 200 chars. */
+  notes?: string | null;
+  /** Weight per unit, in kg — required for WEIGHT variants. */
+  weightKg?: number | null;
   quantity: number;
 }
 
@@ -36,9 +83,13 @@ export interface PlaceOrderInput {
   /** How the order should be fulfilled. */
   fulfillmentType: FulfillmentType;
   // ─ PICKUP fields ───────────────────────────────────────────
-  /** Chosen time slot label e.g. "09:00 – 12:00". PICKUP only. */
+  /**
+   * Chosen time slot label e.g. "09:00 – 12:00". PICKUP only.
+   * Informational — the label persisted on the order is always rebuilt from
+   * the stored slot, never taken from the client.
+   */
   pickupTime?: string | null;
-  /** StorePickupSlot.id. PICKUP only. */
+  /** StorePickupSlot.id. Required when fulfillmentType === PICKUP. */
   pickupSlotId?: string | null;
   // ─ DELIVERY fields ───────────────────────────────────────
   /** 8-digit CEP (no hyphen). Required when fulfillmentType === DELIVERY. */
@@ -54,6 +105,13 @@ export interface PlaceOrderInput {
   deliveryDate: Date;
   /** Optional free-text note from the customer. Stored verbatim, at most 500 chars. */
   notes?: string | null;
+  /** Coupon code typed in the cart. Validated and applied by ApplyCouponUseCase. */
+  couponCode?: string | null;
+  /**
+   * Client-generated key, one per cart session. Replaying a request with the
+   * same key returns the original order instead of creating a new one.
+   */
+  idempotencyKey?: string | null;
 }
 
 // ─── Output — no internal IDs exposed ────────────────────────────────────────
@@ -61,7 +119,12 @@ export interface PlaceOrderInput {
 export interface PlaceOrderItemOutput {
   productName: string;
   variantLabel: string | null;
+  options: OrderItemOption[];
+  notes: string | null;
+  /** Weight ordered per unit, in kg. Null unless sold by weight. */
+  weightKg: number | null;
   quantity: number;
+  /** Estimate for the ordered weight when sold by weight. */
   unitPrice: number;
   lineTotal: number;
 }
@@ -93,17 +156,23 @@ export interface PlaceOrderOutput {
   /** Legacy: populated from structured delivery fields. */
   shippingAddress: string | null;
   deliveryDate: Date;
-  /** Sum of all line totals (items only, excluding delivery fee). */
+  /** Items at their frozen prices, before discounts (excluding delivery fee). */
   subtotal: number;
+  /** Coupon discount over all items. 0 when no coupon was redeemed. */
+  discount: number;
+  /** Redeemed coupon code, or null. */
+  couponCode: string | null;
   /** Delivery fee frozen at order creation time. 0 for pickup or free delivery. */
   deliveryFee: number;
-  /** Grand total = subtotal + deliveryFee. */
+  /** Grand total = subtotal - discount + deliveryFee. */
   total: number;
   createdAt: Date;
   /** Optional customer note, forwarded verbatim. */
   notes: string | null;
   /** Per-store sequential number shown to the customer (e.g. #42). */
   orderNumber: number | null;
+  /** Token of the public tracking page /catalog/[storeSlug]/pedido/[token]. */
+  trackingToken: string;
   /** Store's WhatsApp number (digit string) — for customer contact CTA. */
   storeWhatsapp: string;
   /** Store's configured pickup address, or null when not set. */
@@ -123,6 +192,64 @@ function formatWhatsApp(digits: string): string {
   return digits;
 }
 
+/**
+ * Builds the public summary from a persisted order.
+ * Used for both fresh placements and idempotent replays, so a replayed
+ * request returns exactly what the first one did.
+ */
+function toOutput(
+  order: OrderWithDetails,
+  store: Pick<StoreCatalog, "name" | "whatsapp" | "pickupAddress">,
+): PlaceOrderOutput {
+  const subtotal = order.items.reduce(
+    (sum, item) => sum + item.unitPrice * item.quantity,
+    0,
+  );
+  // Rounded to cents — the per-unit discounts are cent values already
+  const discount =
+    Math.round((subtotal - computeOrderTotal(order.items)) * 100) / 100;
+
+  return {
+    reference: order.id,
+    status: order.status,
+    storeName: store.name,
+    customer: {
+      name: order.customerName,
+      whatsapp: formatWhatsApp(order.customerWhatsapp),
+    },
+    items: order.items.map((item) => ({
+      productName: item.productName,
+      variantLabel: item.variantLabel,
+      options: item.options,
+      notes: item.notes,
+      weightKg: item.weightKg,
+      quantity: item.quantity,
+      unitPrice: item.unitPrice,
+      lineTotal: computeLineTotal(item),
+    })),
+    fulfillmentType: order.fulfillmentType,
+    pickupTime: order.pickupTime,
+    deliveryCep: order.deliveryCep,
+    deliveryStreet: order.deliveryStreet,
+    deliveryNumber: order.deliveryNumber,
+    deliveryNeighborhood: order.deliveryNeighborhood,
+    deliveryCity: order.deliveryCity,
+    shippingAddress: order.shippingAddress,
+    deliveryDate: order.deliveryDate,
+    subtotal,
+    discount,
+    couponCode: order.couponCode,
+    deliveryFee: order.deliveryFee,
+    total: subtotal - discount + order.deliveryFee,
+    createdAt: order.createdAt,
+    notes: order.notes,
+    orderNumber: order.orderNumber,
+    trackingToken: order.trackingToken,
+    storeWhatsapp: store.whatsapp,
+    pickupAddress: store.pickupAddress,
+  };
+}
+
 // ─── Service ─────────────────────────────────────────────────────────────────
 
 /**
@@ -131,33 +258,59 @@ function formatWhatsApp(digits: string): string {
  * Responsibilities (all):
  *   1. Validate inputs (date, items non-empty, customer fields)
  *   2. Resolve store from slug — 404 if unknown
- *   3. Upsert customer — find or create by WhatsApp per store
+ *      ─ Replay: an idempotency key already used returns the original order
+ *      ─ `beforePlacing` runs here, once the request is known to be a new
+ *        order — the controller's rate limits, which replays must not hit
+ *      ─ Date is open in the store schedule, and every product can be made
+ *        on it: weekdays, date range, lead time (minimumAdvanceDays unless
+ *        the product or its category sets one)
+ *      ─ PICKUP: slot exists, belongs to the store, is active and matches
+ *        the weekday of the chosen date
+ *   3. Normalise the customer's WhatsApp
  *   4. Validate each line item:
  *        ─ Product exists and is active in this store
  *        ─ Variant exists and is active (when provided)
  *        ─ Variant required for variant-priced products
+ *        ─ WEIGHT variants: weight from the minimum, in whole steps
  *        ─ quantity >= product.minQuantity
- *   5. Freeze prices from current catalogue
- *   6. Create Order (status = PENDING)
- *   7. Create OrderItems
+ *        ─ Options satisfy the product's option groups (min/max choices,
+ *          option quantity, text length)
+ *   5. Freeze prices from current catalogue, option prices included, and
+ *      snapshot the chosen options and the line's notes.  Promo and
+ *      scheduled prices in effect on the delivery date apply.  WEIGHT lines
+ *      freeze the weight and price per kg; their price is an estimate
+ *   5a. Apply the coupon, when a code was given: per-unit discounts and,
+ *       for free-delivery coupons, a zero delivery fee
+ *   5b. Check the pickup slot still has capacity on the chosen date
+ *   5c. Check the store / product / variant daily production capacity
+ *   5d. Check products sold from stock still have the units
+ *   6. Persist customer + Order (status = PENDING) + OrderItems in one
+ *      transaction, reserving the stock and re-checking the coupon limits,
+ *      the pickup slot and the production capacity — a failure leaves
+ *      nothing behind
+ *   7. Send the "order received" message to the customer (best-effort)
  *   8. Return a public summary with no internal IDs
  *
  * Not responsible for:
- *   ─ Sending WhatsApp notifications (future — emit an event or call a notifier)
  *   ─ Payment processing (future)
  *   ─ Authentication — order creation is public
  */
 export class PlaceOrderService {
   constructor(
     private readonly catalogRepo: ICatalogRepository,
-    private readonly customerRepo: ICustomerRepository,
     private readonly productRepo: IProductRepository,
     private readonly orderRepo: IOrderRepository,
-    private readonly orderItemRepo: IOrderItemRepository,
     private readonly cepRangeRepo: IStoreCepRangeRepository,
+    private readonly pickupSlotRepo: IStorePickupSlotRepository,
+    private readonly scheduleRepo: IStoreScheduleRepository,
+    private readonly notifier: SendOrderNotificationUseCase,
+    private readonly applyCoupon: ApplyCouponUseCase,
   ) {}
 
-  async execute(input: PlaceOrderInput): Promise<PlaceOrderOutput> {
+  async execute(
+    input: PlaceOrderInput,
+    beforePlacing?: () => Promise<void>,
+  ): Promise<PlaceOrderOutput> {
     // ── 1. Basic payload validation ──────────────────────────────────────────
 
     if (!input.storeSlug?.trim()) {
@@ -220,6 +373,15 @@ export class PlaceOrderService {
         );
       }
     }
+    if (
+      input.fulfillmentType === FulfillmentType.PICKUP &&
+      !input.pickupSlotId?.trim()
+    ) {
+      throw new AppError(
+        "Escolha um horário de retirada.",
+        HttpStatus.BAD_REQUEST,
+      );
+    }
 
     // ── 2. Resolve store ─────────────────────────────────────────────────────
 
@@ -229,50 +391,76 @@ export class PlaceOrderService {
     if (!catalog) {
       throw new AppError("Store not found.", HttpStatus.NOT_FOUND);
     }
-    const {
-      storeId,
-      name: storeName,
-      whatsapp: storeWhatsapp,
-      pickupAddress,
-      defaultDeliveryFee,
+    const { storeId, defaultDeliveryFee, minimumAdvanceDays } = catalog;
+
+    // Replayed submission (double tap, network retry): return the order that
+    // was already placed, before any rule that may have changed since.
+    const idempotencyKey = input.idempotencyKey?.trim() || null;
+    if (idempotencyKey) {
+      const existing = await this.orderRepo.findByIdempotencyKey(
+        storeId,
+        idempotencyKey,
+      );
+      if (existing) return toOutput(existing, catalog);
+    }
+    await beforePlacing?.();
+
+    // Validate the date against each product's availability: weekdays, date
+    // range and lead time (the store's minimumAdvanceDays when it sets none).
+    assertProductsAvailable(
+      catalog.products,
+      input.items.map((line) => line.productId),
+      input.deliveryDate,
       minimumAdvanceDays,
-    } = catalog;
-
-    // Validate delivery date against the store's minimum advance days setting.
-    // Comparison is at UTC-day granularity to avoid timezone-related off-by-one errors.
-    const todayUtc = new Date();
-    todayUtc.setUTCHours(0, 0, 0, 0);
-    const minDateUtc = new Date(todayUtc);
-    minDateUtc.setUTCDate(minDateUtc.getUTCDate() + minimumAdvanceDays);
-    const orderDateUtc = new Date(input.deliveryDate);
-    orderDateUtc.setUTCHours(0, 0, 0, 0);
-    if (orderDateUtc < minDateUtc) {
+    );
+
+    // Validate the date against the store schedule: an explicit override
+    // wins, otherwise the default weekday rule applies (same as the date picker).
+    const orderDate = input.deliveryDate.toISOString().slice(0, 10);
+    const override = await this.scheduleRepo.findByDate(storeId, orderDate);
+    const isOpen = override ? override.isOpen : defaultIsOpen(orderDate);
+    if (!isOpen) {
       throw new AppError(
-        minimumAdvanceDays <= 1
-          ? "A data do pedido deve ser uma data futura."
-          : `O pedido deve ser feito com no mínimo ${minimumAdvanceDays} dias de antecedência.`,
+        "A loja não está recebendo pedidos para a data escolhida. Escolha outra data.",
         HttpStatus.UNPROCESSABLE_ENTITY,
       );
     }
 
-    // ── 2b. Resolve delivery fee (DELIVERY orders only) ─────────────────────
+    // ── 2a. Resolve pickup slot (PICKUP orders only) ─────────────────────────
 
-    let deliveryFee = 0;
-    if (input.fulfillmentType === FulfillmentType.DELIVERY) {
-      const cepDigits = (input.deliveryCep ?? "").replace(/\D/g, "");
-      const ranges = await this.cepRangeRepo.findByStore(storeId);
-      if (ranges.length === 0) {
-        // Unrestricted delivery — use store default
-        deliveryFee = defaultDeliveryFee;
-      } else {
-        const matchedRange = ranges.find(
-          (r) => cepDigits >= r.cepStart && cepDigits <= r.cepEnd,
+    let pickupSlot: StorePickupSlot | null = null;
+    if (input.fulfillmentType === FulfillmentType.PICKUP) {
+      // findById is store-scoped — a slot from another store resolves to null
+      pickupSlot = await this.pickupSlotRepo.findById(
+        (input.pickupSlotId ?? "").trim(),
+        storeId,
+      );
+      if (!pickupSlot || !pickupSlot.isActive) {
+        throw new AppError(
+          "O horário de retirada escolhido não está mais disponível. Escolha outro horário.",
+          HttpStatus.UNPROCESSABLE_ENTITY,
+        );
+      }
+      if (pickupSlot.dayOfWeek !== input.deliveryDate.getUTCDay()) {
+        throw new AppError(
+          "O horário de retirada escolhido não é válido para a data do pedido.",
+          HttpStatus.UNPROCESSABLE_ENTITY,
         );
-        deliveryFee = matchedRange ? matchedRange.deliveryFee : 0;
       }
     }
 
-    // ── 3. Upsert customer ───────────────────────────────────────────────────
+    // ── 2b. Resolve delivery fee (DELIVERY orders only) ─────────────────────
+
+    let deliveryFee =
+      input.fulfillmentType === FulfillmentType.DELIVERY
+        ? resolveDeliveryFee(
+            input.deliveryCep ?? "",
+            await this.cepRangeRepo.findByStore(storeId),
+            defaultDeliveryFee,
+          )
+        : 0;
+
+    // ── 3. Normalise customer WhatsApp ───────────────────────────────────────
 
     let normalisedWhatsApp: string;
     try {
@@ -284,22 +472,11 @@ export class PlaceOrderService {
       );
     }
 
-    const existingCustomer = await this.customerRepo.findByWhatsApp(
-      normalisedWhatsApp,
-      storeId,
-    );
-
-    const customer =
-      existingCustomer ??
-      (await this.customerRepo.create({
-        storeId,
-        name: input.customer.name.trim(),
-        whatsapp: normalisedWhatsApp,
-      }));
-
     // ── 4 + 5. Validate items and freeze prices ───────────────────────────────
 
-    const resolvedItems: CreateOrderItemInput[] = [];
+    let resolvedItems: Omit<CreateOrderItemInput, "orderId">[] = [];
+    const resolvedProducts = new Map<string, Product>();
+    const priceWindow = priceWindowForDate(orderDate);
 
     for (const line of input.items) {
       if (!line.productId?.trim()) {
@@ -324,140 +501,170 @@ export class PlaceOrderService {
         );
       }
 
+      resolvedProducts.set(product.id, product);
+
       // Validate quantity against minimum
       validateItemQuantity(line.quantity, product.minQuantity, product.name);
 
-      const hasVariants = product.variants.filter((v) => v.isActive).length > 0;
-
-      let frozenPrice: number;
-      let variantId: string | null = null;
-      let variantLabel: string | null = null;
-
-      if (hasVariants) {
-        // Variant-priced product — variantId is mandatory
-        if (!line.variantId) {
-          throw new AppError(
-            `Please select a variant for "${product.name}".`,
-            HttpStatus.UNPROCESSABLE_ENTITY,
-          );
-        }
-
-        const variant = product.variants.find(
-          (v) => v.id === line.variantId && v.isActive,
+      // Variant-priced products require an active variant
+      const { unitPrice, variantId, variantLabel, weightKg, pricePerKg } =
+        resolveLinePrice(
+          withEffectivePrices(product, priceWindow),
+          line.variantId,
+          line.weightKg,
         );
-        if (!variant) {
-          throw new AppError(
-            `Selected variant for "${product.name}" is not available.`,
-            HttpStatus.UNPROCESSABLE_ENTITY,
-          );
-        }
-
-        frozenPrice = variant.price;
-        variantId = variant.id;
-        variantLabel = variant.label;
-      } else {
-        // Simple product — price must be defined on the product
-        if (product.price === null || product.price === undefined) {
-          throw new AppError(
-            `"${product.name}" has no available price.`,
-            HttpStatus.UNPROCESSABLE_ENTITY,
-          );
-        }
-        frozenPrice = product.price;
-      }
+      const { options, surcharge } = resolveLineOptions(product, line.options);
 
       resolvedItems.push({
-        orderId: "", // filled in after order creation
         productId: product.id,
         variantId,
         productName: product.name,
         variantLabel,
+        options,
+        notes: line.notes
+          ? line.notes.trim().slice(0, ORDER_ITEM_NOTES_MAX_LENGTH) || null
+          : null,
+        weightKg,
+        pricePerKg,
         quantity: line.quantity,
-        unitPrice: frozenPrice,
+        unitPrice: Math.round((unitPrice + surcharge) * 100) / 100,
         discountAmount: 0,
       });
     }
 
-    // ── 6. Create order ──────────────────────────────────────────────────────
+    // ── 5a. Coupon ────────────────────────────────────────────────────────────
+    // The usage limits are re-checked in placeWithItems, with the coupon
+    // locked, so concurrent checkouts cannot go past them.
+
+    let coupon: { id: string; code: string } | null = null;
+    if (input.couponCode?.trim()) {
+      const application = await this.applyCoupon.execute({
+        storeId,
+        code: input.couponCode,
+        customerWhatsapp: normalisedWhatsApp,
+        items: resolvedItems,
+      });
+      resolvedItems = application.items;
+      if (application.freeDelivery) deliveryFee = 0;
+      coupon = application.coupon;
+    }
+
+    // ── 5b. Pickup slot capacity (PICKUP orders only) ────────────────────────
+    // Friendly early answer; placeWithItems re-counts with the slot locked,
+    // so concurrent orders cannot overbook it.
+
+    if (
+      pickupSlot &&
+      (pickupSlot.maxOrders !== null || pickupSlot.maxItems !== null)
+    ) {
+      const [usage] = await this.orderRepo.getPickupSlotUsage(storeId, {
+        from: new Date(`${orderDate}T00:00:00.000Z`),
+        to: new Date(`${orderDate}T23:59:59.999Z`),
+        pickupSlotIds: [pickupSlot.id],
+      });
+      const availability = computeSlotAvailability(
+        pickupSlot,
+        usage,
+        orderDate,
+      );
+      const itemUnits = resolvedItems.reduce((sum, i) => sum + i.quantity, 0);
+
+      if (!canSlotFit(availability, itemUnits)) {
+        throw new AppError(slotFullMessage(availability), HttpStatus.CONFLICT);
+      }
+    }
+
+    // ── 5c. Daily production capacity ────────────────────────────────────────
+    // Friendly early answer; placeWithItems re-counts the day with the store
+    // locked, so concurrent orders cannot go over the limits.
+
+    const products = [...resolvedProducts.values()];
+    const hasProductionLimit =
+      catalog.dailyCapacity !== null ||
+      products.some(
+        (p) =>
+          p.dailyCapacity !== null ||
+          p.variants.some((v) => v.dailyCapacity !== null),
+      );
+
+    if (hasProductionLimit) {
+      const booked = await this.orderRepo.findAllByStoreWithDetails(storeId, {
+        deliveryDateFrom: new Date(`${orderDate}T00:00:00.000Z`),
+        deliveryDateTo: new Date(`${orderDate}T23:59:59.999Z`),
+        status: [OrderStatus.APPROVED, OrderStatus.PENDING],
+      });
+      const capacity = computeDailyCapacity(
+        orderDate,
+        aggregateProductionUsage(booked).get(orderDate),
+        { storeDailyCapacity: catalog.dailyCapacity, products },
+      );
+      const shortfall = findCapacityShortfall(capacity, resolvedItems);
+
+      if (shortfall) {
+        throw new AppError(
+          capacityShortfallMessage(shortfall, products),
+          HttpStatus.CONFLICT,
+        );
+      }
+    }
+
+    // ── 5d. Stock ─────────────────────────────────────────────────────────────
+    // Friendly early answer; the reservation in placeWithItems is what
+    // actually guards the last units against concurrent orders.
+
+    const stockShortfall = findStockShortfall(products, resolvedItems);
+    if (stockShortfall) {
+      throw new AppError(
+        stockShortfallMessage(stockShortfall, products),
+        HttpStatus.CONFLICT,
+      );
+    }
+
+    // ── 6. Persist customer, order and items atomically ──────────────────────
 
     // Build legacy shippingAddress from structured delivery fields
     const shippingAddress =
       input.fulfillmentType === FulfillmentType.DELIVERY
-        ? [
-            `${input.deliveryStreet}, ${input.deliveryNumber}`,
-            input.deliveryNeighborhood,
-            input.deliveryCity,
-            `CEP ${input.deliveryCep}`,
-          ]
-            .filter(Boolean)
-            .join(" – ")
+        ? buildShippingAddress(input)
         : null;
 
-    const order = await this.orderRepo.create({
-      storeId,
-      customerId: customer.id,
-      deliveryDate: input.deliveryDate,
-      fulfillmentType: input.fulfillmentType,
-      pickupTime: input.pickupTime ?? null,
-      pickupSlotId: input.pickupSlotId ?? null,
-      deliveryCep: input.deliveryCep ?? null,
-      deliveryStreet: input.deliveryStreet ?? null,
-      deliveryNumber: input.deliveryNumber ?? null,
-      deliveryNeighborhood: input.deliveryNeighborhood ?? null,
-      deliveryCity: input.deliveryCity ?? null,
-      shippingAddress,
-      notes: input.notes ? input.notes.trim().slice(0, 500) : null,
-      deliveryFee,
+    const order = await this.orderRepo.placeWithItems({
+      customer: {
+        name: input.customer.name.trim(),
+        whatsapp: normalisedWhatsApp,
+      },
+      order: {
+        storeId,
+        deliveryDate: input.deliveryDate,
+        fulfillmentType: input.fulfillmentType,
+        // Label and id always come from the stored slot, never the client
+        pickupTime: pickupSlot ? formatSlotLabel(pickupSlot) : null,
+        pickupSlotId: pickupSlot?.id ?? null,
+        deliveryCep: input.deliveryCep ?? null,
+        deliveryStreet: input.deliveryStreet ?? null,
+        deliveryNumber: input.deliveryNumber ?? null,
+        deliveryNeighborhood: input.deliveryNeighborhood ?? null,
+        deliveryCity: input.deliveryCity ?? null,
+        shippingAddress,
+        notes: input.notes ? input.notes.trim().slice(0, 500) : null,
+        deliveryFee,
+        idempotencyKey,
+        couponId: coupon?.id ?? null,
+        couponCode: coupon?.code ?? null,
+      },
+      items: resolvedItems,
     });
 
-    // ── 7. Create items (backfill orderId now that we have it) ───────────────
+    // ── 7. Notify the customer — never fails the placement ───────────────────
 
-    const itemsWithOrderId = resolvedItems.map((item) => ({
-      ...item,
+    await this.notifier.execute({
       orderId: order.id,
-    }));
-
-    const createdItems = await this.orderItemRepo.createMany(itemsWithOrderId);
+      storeId,
+      event: OrderNotificationEvent.ORDER_RECEIVED,
+    });
 
     // ── 8. Build public summary ───────────────────────────────────────────────
 
-    const outputItems: PlaceOrderItemOutput[] = createdItems.map((item) => ({
-      productName: item.productName,
-      variantLabel: item.variantLabel,
-      quantity: item.quantity,
-      unitPrice: item.unitPrice,
-      lineTotal: computeLineTotal(item),
-    }));
-
-    const subtotal = computeOrderTotal(createdItems);
-    const grandTotal = subtotal + deliveryFee;
-
-    return {
-      reference: order.id,
-      status: order.status,
-      storeName,
-      customer: {
-        name: customer.name,
-        whatsapp: formatWhatsApp(normalisedWhatsApp),
-      },
-      items: outputItems,
-      fulfillmentType: order.fulfillmentType,
-      pickupTime: order.pickupTime,
-      deliveryCep: order.deliveryCep,
-      deliveryStreet: order.deliveryStreet,
-      deliveryNumber: order.deliveryNumber,
-      deliveryNeighborhood: order.deliveryNeighborhood,
-      deliveryCity: order.deliveryCity,
-      shippingAddress: order.shippingAddress,
-      deliveryDate: order.deliveryDate,
-      subtotal,
-      deliveryFee,
-      total: grandTotal,
-      createdAt: order.createdAt,
-      notes: order.notes,
-      orderNumber: order.orderNumber,
-      storeWhatsapp,
-      pickupAddress,
-    };
+    return toOutput(order, catalog);
   }
 }
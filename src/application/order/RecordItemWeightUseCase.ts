@@ -0,0 +1,99 @@
+import type { IOrderRepository } from "@/domain/order/IOrderRepository";
+import { isOrderEditable } from "@/domain/order/Order";
+import { MAX_ITEM_WEIGHT_KG, type OrderItem } from "@/domain/order/OrderItem";
+import type { OrderChangeContext } from "@/domain/order/OrderStatusLog";
+import type { SyncOrderPaymentStatusUseCase } from "@/application/payment/SyncOrderPaymentStatusUseCase";
+import { AppError } from "@/shared/errors/AppError";
+import { HttpStatus } from "@/shared/http/statuses";
+
+export interface RecordItemWeightInput {
+  orderId: string;
+  storeId: string;
+  itemId: string;
+  /** Weighed amount of the whole line, in kg. */
+  finalWeightKg: number;
+}
+
+/**
+ * RecordItemWeightUseCase
+ *
+ * Records how much a line sold by weight actually weighed once produced.
+ * The order total follows: the line is adjusted by the difference from the
+ * ordered weight at the frozen price per kg (computeWeightAdjustment).
+ *
+ * Business rules:
+ *   1. Weight is positive, in grams, and at most MAX_ITEM_WEIGHT_KG.
+ *   2. Only open orders (not rejected, delivered or cancelled) are weighed.
+ *   3. The line must have been ordered by weight.
+ *   4. Recording again replaces the previous weighing; each one is logged
+ *      in the order history by the repository.
+ *   5. The payment status follows the new total — a paid order that came
+ *      out heavier is PARTIALLY_PAID again.
+ */
+export class RecordItemWeightUseCase {
+  constructor(
+    private readonly orderRepo: IOrderRepository,
+    private readonly syncPaymentStatus: SyncOrderPaymentStatusUseCase,
+  ) {}
+
+  async execute(
+    input: RecordItemWeightInput,
+    change: OrderChangeContext,
+  ): Promise<OrderItem> {
+    const { orderId, storeId, itemId } = input;
+
+    if (
+      typeof input.finalWeightKg !== "number" ||
+      !Number.isFinite(input.finalWeightKg) ||
+      Math.round(input.finalWeightKg * 1000) <= 0
+    ) {
+      throw new AppError(
+        "Informe um peso maior que zero.",
+        HttpStatus.UNPROCESSABLE_ENTITY,
+      );
+    }
+    const finalWeightKg = Math.round(input.finalWeightKg * 1000) / 1000;
+
+    const order = await this.orderRepo.findByIdWithDetails(orderId, storeId);
+    if (!order) {
+      throw new AppError("Pedido não encontrado.", HttpStatus.NOT_FOUND);
+    }
+    if (!isOrderEditable(order)) {
+      throw new AppError(
+        "Pedidos rejeitados, entregues ou cancelados não podem ser pesados.",
+        HttpStatus.CONFLICT,
+      );
+    }
+
+    const item = order.items.find((i) => i.id === itemId);
+    if (!item) {
+      throw new AppError("Item não encontrado.", HttpStatus.NOT_FOUND);
+    }
+    if (item.weightKg === null || item.pricePerKg === null) {
+      throw new AppError(
+        `"${item.productName}" não é vendido por peso.`,
+        HttpStatus.UNPROCESSABLE_ENTITY,
+      );
+    }
+    if (finalWeightKg > MAX_ITEM_WEIGHT_KG * item.quantity) {
+      throw new AppError(
+        `O peso deve ser de no máximo ${MAX_ITEM_WEIGHT_KG * item.quantity} kg.`,
+        HttpStatus.UNPROCESSABLE_ENTITY,
+      );
+    }
+
+    const updated = await this.orderRepo.recordItemWeight(
+      orderId,
+      storeId,
+      itemId,
+      finalWeightKg,
+      change,
+    );
+    if (!updated) {
+      throw new AppError("Item não encontrado.", HttpStatus.NOT_FOUND);
+    }
+
+    await this.syncPaymentStatus.execute(orderId, storeId, change);
+    return updated;
+  }
+}
@@ -0,0 +1,92 @@
+import type { IOrderRepository } from "@/domain/order/IOrderRepository";
+import { OrderStatus, canTransitionTo } from "@/domain/order/Order";
+import type { Order } from "@/domain/order/Order";
+import {
+  type OrderChangeContext,
+  STATUS_REASON_MAX_LENGTH,
+} from "@/domain/order/OrderStatusLog";
+import { OrderNotificationEvent } from "@/domain/notification/OrderNotification";
+import type { SendOrderNotificationUseCase } from "@/application/notification/SendOrderNotificationUseCase";
+import type { IssuePixChargeUseCase } from "@/application/payment/IssuePixChargeUseCase";
+import { AppError } from "@/shared/errors/AppError";
+import { HttpStatus } from "@/shared/http/statuses";
+
+/** Decision statuses that message the customer. */
+const NOTIFIED_STATUSES: Partial<Record<OrderStatus, OrderNotificationEvent>> =
+  {
+    [OrderStatus.APPROVED]: OrderNotificationEvent.ORDER_APPROVED,
+    [OrderStatus.REJECTED]: OrderNotificationEvent.ORDER_REJECTED,
+  };
+
+/**
+ * UpdateOrderStatusUseCase
+ *
+ * Applies a decision status transition (approve / reject) and notifies the
+ * customer.
+ *
+ * Business rules enforced here (before hitting the DB):
+ *   1. Order must exist and belong to the store.
+ *   2. Transition must be valid per ALLOWED_TRANSITIONS.
+ *   3. The optional reason fits STATUS_REASON_MAX_LENGTH.
+ *
+ * The transition is recorded in the order's status history with the actor
+ * and reason from `change`.
+ * The notification is sent after the write and never fails the transition.
+ * An approval first issues the order's PIX charge, so the approval message
+ * can carry its "copia e cola" code.
+ */
+export class UpdateOrderStatusUseCase {
+  constructor(
+    private readonly orderRepo: IOrderRepository,
+    private readonly notifier: SendOrderNotificationUseCase,
+    private readonly issuePixCharge: IssuePixChargeUseCase,
+  ) {}
+
+  async execute(
+    orderId: string,
+    storeId: string,
+    newStatus: OrderStatus,
+    change: OrderChangeContext,
+  ): Promise<Order> {
+    const reason = change.reason?.trim() || null;
+    if (reason && reason.length > STATUS_REASON_MAX_LENGTH) {
+      throw new AppError(
+        `O motivo deve ter no máximo ${STATUS_REASON_MAX_LENGTH} caracteres.`,
+        HttpStatus.UNPROCESSABLE_ENTITY,
+      );
+    }
+
+    const current = await this.orderRepo.findById(orderId, storeId);
+    if (!current) {
+      throw new AppError("Pedido não encontrado.", HttpStatus.NOT_FOUND);
+    }
+
+    if (!canTransitionTo(current.status, newStatus)) {
+      throw new AppError(
+        "Transição de status não permitida.",
+        HttpStatus.CONFLICT,
+      );
+    }
+
+    const updated = await this.orderRepo.updateStatus(
+      orderId,
+      storeId,
+      newStatus,
+      { ...change, reason },
+    );
+    if (!updated) {
+      throw new AppError("Pedido não encontrado.", HttpStatus.NOT_FOUND);
+    }
+
+    if (newStatus === OrderStatus.APPROVED) {
+      await this.issuePixCharge.execute({ orderId, storeId });
+    }
+
+    const event = NOTIFIED_STATUSES[newStatus];
+    if (event) {
+      await this.notifier.execute({ orderId, storeId, event });
+    }
+
+    return updated;
+  }
+}
@@ -5,8 +5,23 @@ import {
   canTrackingTransitionTo,
 } from "@/domain/order/Order";
 import type { Order } from "@/domain/order/Order";
+import {
+  type OrderChangeContext,
+  STATUS_REASON_MAX_LENGTH,
+} from "@/domain/order/OrderStatusLog";
+import { OrderNotificationEvent } from "@/domain/notification/OrderNotification";
+import type { SendOrderNotificationUseCase } from "@/application/notification/SendOrderNotificationUseCase";
 import { AppError } from "@/shared/errors/AppError";
 
+/** Tracking statuses that message the customer. */
+const NOTIFIED_STATUSES: Partial<
+  Record<OrderTrackingStatus, OrderNotificationEvent>
+> = {
+  [OrderTrackingStatus.PAID]: OrderNotificationEvent.ORDER_PAID,
+  [OrderTrackingStatus.DELIVERED]: OrderNotificationEvent.ORDER_DELIVERED,
+  [OrderTrackingStatus.CANCELLED]: OrderNotificationEvent.ORDER_CANCELLED,
+};
+
 /**
  * UpdateOrderTrackingStatusUseCase
  *
@@ -16,15 +31,31 @@ import { AppError } from "@/shared/errors/AppError";
  *   1. Order must exist and belong to the store.
  *   2. Decision status must be APPROVED — tracking only applies to approved orders.
  *   3. Transition must be valid per TRACKING_ALLOWED_TRANSITIONS.
+ *   4. The optional reason fits STATUS_REASON_MAX_LENGTH.
+ *
+ * The transition is recorded in the order's status history.
+ * PAID, DELIVERED and CANCELLED notify the customer after the write.
  */
 export class UpdateOrderTrackingStatusUseCase {
-  constructor(private readonly orderRepo: IOrderRepository) {}
+  constructor(
+    private readonly orderRepo: IOrderRepository,
+    private readonly notifier: SendOrderNotificationUseCase,
+  ) {}
 
   async execute(
     orderId: string,
     storeId: string,
     newStatus: OrderTrackingStatus,
+    change: OrderChangeContext,
   ): Promise<Order> {
+    const reason = change.reason?.trim() || null;
+    if (reason && reason.length > STATUS_REASON_MAX_LENGTH) {
+      throw new AppError(
+        `O motivo deve ter no máximo ${STATUS_REASON_MAX_LENGTH} caracteres.`,
+        422,
+      );
+    }
+
     const order = await this.orderRepo.findById(orderId, storeId);
 
     if (!order) {
@@ -51,12 +82,18 @@ export class UpdateOrderTrackingStatusUseCase {
       orderId,
       storeId,
       newStatus,
+      { ...change, reason },
     );
 
     if (!updated) {
       throw new AppError("Pedido não encontrado.", 404);
     }
 
+    const event = NOTIFIED_STATUSES[newStatus];
+    if (event) {
+      await this.notifier.execute({ orderId, storeId, event });
+    }
+
     return updated;
   }
 }
@@ -0,0 +1,413 @@
+/**
+ * orderHelpers — rules shared by PlaceOrderService and EditOrderUseCase.
+ *
+ * Placing and editing an order must agree on dates, fees, prices and
+ * capacity messages; keeping them here means a rule changes in one place.
+ */
+
+import { AppError } from "@/shared/errors/AppError";
+import { HttpStatus } from "@/shared/http/statuses";
+import type { StoreCepRange } from "@/domain/cepRange/StoreCepRange";
+import type { CapacityShortfall } from "@/domain/production/ProductionCapacity";
+import type { PickupSlotAvailability } from "@/domain/pickupSlot/StorePickupSlot";
+import { MAX_ITEM_WEIGHT_KG } from "@/domain/order/OrderItem";
+import {
+  getWeightRule,
+  isOrderableWeight,
+  priceForWeight,
+  type Product,
+  type ProductVariant,
+} from "@/domain/product/Product";
+import type { StockShortfall } from "@/domain/product/ProductStock";
+import {
+  NO_AVAILABILITY_RULE,
+  findAvailabilityIssue,
+  type AvailabilityRule,
+} from "@/domain/product/ProductAvailability";
+import {
+  OPTION_TEXT_MAX_LENGTH,
+  ProductOptionGroupType,
+  computeOptionsSurcharge,
+  type OptionSelection,
+  type OrderItemOption,
+} from "@/domain/product/ProductOption";
+
+// ─── Delivery date ────────────────────────────────────────────────────────────
+
+/**
+ * Rejects a date earlier than today + minimumAdvanceDays.
+ * Comparison is at UTC-day granularity to avoid timezone-related
+ * off-by-one errors.
+ */
+export function assertMinimumAdvance(
+  deliveryDate: Date,
+  minimumAdvanceDays: number,
+): void {
+  const todayUtc = new Date();
+  todayUtc.setUTCHours(0, 0, 0, 0);
+  const minDateUtc = new Date(todayUtc);
+  minDateUtc.setUTCDate(minDateUtc.getUTCDate() + minimumAdvanceDays);
+  const orderDateUtc = new Date(deliveryDate);
+  orderDateUtc.setUTCHours(0, 0, 0, 0);
+  if (orderDateUtc < minDateUtc) {
+    throw new AppError(
+      minimumAdvanceDays <= 1
+        ? "A data do pedido deve ser uma data futura."
+        : `O pedido deve ser feito com no mínimo ${minimumAdvanceDays} dias de antecedência.`,
+      HttpStatus.UNPROCESSABLE_ENTITY,
+    );
+  }
+}
+
+const WEEKDAY_NAMES = [
+  "domingo",
+  "segunda",
+  "terça",
+  "quarta",
+  "quinta",
+  "sexta",
+  "sábado",
+];
+
+function formatIsoDate(date: string): string {
+  const [year, month, day] = date.split("-");
+  return `${day}/${month}/${year}`;
+}
+
+/**
+ * Rejects a date on which a product of the order cannot be made: outside
+ * its weekdays or date range, or sooner than its lead time.  Products
+ * without a lead time of their own follow minimumAdvanceDays, so an order
+ * of such products gets the same message as assertMinimumAdvance.
+ *
+ * Products missing from `products` (inactive, unknown) only get the store
+ * rule here; the item validation rejects them afterwards.
+ */
+export function assertProductsAvailable(
+  products: { id: string; name: string; availability: AvailabilityRule }[],
+  productIds: string[],
+  deliveryDate: Date,
+  minimumAdvanceDays: number,
+): void {
+  const date = deliveryDate.toISOString().slice(0, 10);
+  const today = new Date().toISOString().slice(0, 10);
+
+  for (const productId of productIds) {
+    const product = products.find((p) => p.id === productId);
+    const rule = product?.availability ?? NO_AVAILABILITY_RULE;
+    const issue = findAvailabilityIssue(rule, date, today, minimumAdvanceDays);
+    if (!issue) continue;
+
+    if (!product || (issue === "LEAD_TIME" && rule.leadTimeDays === null)) {
+      assertMinimumAdvance(deliveryDate, minimumAdvanceDays);
+      continue;
+    }
+
+    const name = `"${product.name}"`;
+    const messages = {
+      LEAD_TIME: `${name} precisa ser encomendado com no mínimo ${rule.leadTimeDays} dia(s) de antecedência.`,
+      NOT_STARTED: `${name} está disponível a partir de ${formatIsoDate(rule.availableFrom ?? date)}.`,
+      ENDED: `${name} está disponível somente até ${formatIsoDate(rule.availableUntil ?? date)}.`,
+      WEEKDAY: `${name} só é feito em: ${rule.availableWeekdays.map((d) => WEEKDAY_NAMES[d]).join(", ")}. Escolha outra data.`,
+    };
+    throw new AppError(messages[issue], HttpStatus.UNPROCESSABLE_ENTITY);
+  }
+}
+
+// ─── Delivery ─────────────────────────────────────────────────────────────────
+
+/**
+ * Delivery fee for a CEP.  Without ranges the store delivers anywhere at
+ * its default fee; with ranges, a CEP outside all of them pays nothing.
+ */
+export function resolveDeliveryFee(
+  cep: string,
+  ranges: StoreCepRange[],
+  defaultDeliveryFee: number,
+): number {
+  if (ranges.length === 0) return defaultDeliveryFee;
+  const cepDigits = cep.replace(/\D/g, "");
+  const matchedRange = ranges.find(
+    (r) => cepDigits >= r.cepStart && cepDigits <= r.cepEnd,
+  );
+  return matchedRange ? matchedRange.deliveryFee : 0;
+}
+
+/** Legacy one-line address built from the structured delivery fields. */
+export function buildShippingAddress(fields: {
+  deliveryCep?: string | null;
+  deliveryStreet?: string | null;
+  deliveryNumber?: string | null;
+  deliveryNeighborhood?: string | null;
+  deliveryCity?: string | null;
+}): string {
+  return [
+    `${fields.deliveryStreet}, ${fields.deliveryNumber}`,
+    fields.deliveryNeighborhood,
+    fields.deliveryCity,
+    `CEP ${fields.deliveryCep}`,
+  ]
+    .filter(Boolean)
+    .join(" – ");
+}
+
+// ─── Prices ───────────────────────────────────────────────────────────────────
+
+/**
+ * Current price of a product line — the value frozen on new order items.
+ * Variant-priced products require an active variant.  WEIGHT variants also
+ * require the weight ordered per unit, within the variant's minimum and
+ * step; their unit price is the estimate for that weight.
+ */
+export function resolveLinePrice(
+  product: Product,
+  variantId: string | null | undefined,
+  weightKg?: number | null,
+): {
+  unitPrice: number;
+  variantId: string | null;
+  variantLabel: string | null;
+  weightKg: number | null;
+  pricePerKg: number | null;
+} {
+  const hasVariants = product.variants.some((v) => v.isActive);
+
+  if (hasVariants) {
+    if (!variantId) {
+      throw new AppError(
+        `Please select a variant for "${product.name}".`,
+        HttpStatus.UNPROCESSABLE_ENTITY,
+      );
+    }
+    const variant = product.variants.find(
+      (v) => v.id === variantId && v.isActive,
+    );
+    if (!variant) {
+      throw new AppError(
+        `Selected variant for "${product.name}" is not available.`,
+        HttpStatus.UNPROCESSABLE_ENTITY,
+      );
+    }
+
+    const rule = getWeightRule(variant);
+    if (!rule) {
+      return {
+        unitPrice: variant.price,
+        variantId: variant.id,
+        variantLabel: variant.label,
+        weightKg: null,
+        pricePerKg: null,
+      };
+    }
+    if (
+      weightKg == null ||
+      !isOrderableWeight(weightKg, rule) ||
+      weightKg > MAX_ITEM_WEIGHT_KG
+    ) {
+      throw new AppError(
+        `Please choose a valid weight for "${product.name} – ${variant.label}": from ${rule.minKg} kg in steps of ${rule.stepKg} kg.`,
+        HttpStatus.UNPROCESSABLE_ENTITY,
+      );
+    }
+    return {
+      unitPrice: priceForWeight(variant.price, weightKg),
+      variantId: variant.id,
+      variantLabel: variant.label,
+      weightKg,
+      pricePerKg: variant.price,
+    };
+  }
+
+  // Simple product — price must be defined on the product
+  if (product.price === null || product.price === undefined) {
+    throw new AppError(
+      `"${product.name}" has no available price.`,
+      HttpStatus.UNPROCESSABLE_ENTITY,
+    );
+  }
+  return {
+    unitPrice: product.price,
+    variantId: null,
+    variantLabel: null,
+    weightKg: null,
+    pricePerKg: null,
+  };
+}
+
+/**
+ * Checks the customer's option choices against the product's option groups
+ * and returns the snapshot to freeze on the item with its per-unit price.
+ *   - every selection belongs to one of the product's groups and options
+ *   - option quantity from 1 to the option's maxQuantity, text within
+ *     OPTION_TEXT_MAX_LENGTH
+ *   - each group gets between minSelections and maxSelections choices
+ * Snapshot order follows the groups' and options' display order.
+ */
+export function resolveLineOptions(
+  product: Product,
+  selections: OptionSelection[] | null | undefined,
+): { options: OrderItemOption[]; surcharge: number } {
+  const invalid = () =>
+    new AppError(
+      `Uma das opções escolhidas para "${product.name}" não está mais disponível.`,
+      HttpStatus.UNPROCESSABLE_ENTITY,
+    );
+
+  const chosen = selections ?? [];
+  if (
+    chosen.some((s) => !product.optionGroups.some((g) => g.id === s.groupId))
+  ) {
+    throw invalid();
+  }
+
+  const options: OrderItemOption[] = [];
+  for (const group of product.optionGroups) {
+    const inGroup = chosen.filter((s) => s.groupId === group.id);
+
+    if (group.type === ProductOptionGroupType.TEXT) {
+      const texts = inGroup
+        .map((s) => s.text?.trim() ?? "")
+        .filter((text) => text !== "");
+      if (texts.some((text) => text.length > OPTION_TEXT_MAX_LENGTH)) {
+        throw new AppError(
+          `"${group.name}" deve ter no máximo ${OPTION_TEXT_MAX_LENGTH} caracteres.`,
+          HttpStatus.UNPROCESSABLE_ENTITY,
+        );
+      }
+      if (texts.length > 1) throw invalid();
+      if (texts.length < group.minSelections) {
+        throw new AppError(
+          `Preencha "${group.name}" para "${product.name}".`,
+          HttpStatus.UNPROCESSABLE_ENTITY,
+        );
+      }
+      for (const text of texts) {
+        options.push({
+          groupName: group.name,
+          label: text,
+          quantity: 1,
+          price: 0,
+        });
+      }
+      continue;
+    }
+
+    const picked = new Set<string>();
+    for (const selection of inGroup) {
+      const option = group.options.find((o) => o.id === selection.optionId);
+      if (!option || picked.has(option.id)) throw invalid();
+      picked.add(option.id);
+    }
+    if (
+      picked.size < group.minSelections ||
+      picked.size > group.maxSelections
+    ) {
+      throw new AppError(
+        group.minSelections === group.maxSelections
+          ? `Escolha ${group.minSelections} opção(ões) em "${group.name}" para "${product.name}".`
+          : `Escolha de ${group.minSelections} a ${group.maxSelections} opção(ões) em "${group.name}" para "${product.name}".`,
+        HttpStatus.UNPROCESSABLE_ENTITY,
+      );
+    }
+
+    for (const option of group.options) {
+      const selection = inGroup.find((s) => s.optionId === option.id);
+      if (!selection) continue;
+      const quantity = selection.quantity ?? 1;
+      if (
+        !Number.isInteger(quantity) ||
+        quantity < 1 ||
+        quantity > option.maxQuantity
+      ) {
+        throw new AppError(
+          `Quantidade inválida de "${option.label}" para "${product.name}".`,
+          HttpStatus.UNPROCESSABLE_ENTITY,
+        );
+      }
+      options.push({
+        groupName: group.name,
+        label: option.label,
+        quantity,
+        price: option.price,
+      });
+    }
+  }
+
+  return { options, surcharge: computeOptionsSurcharge(options) };
+}
+
+// ─── Capacity ─────────────────────────────────────────────────────────────────
+
+/**
+ * Customer-facing explanation of a pickup slot that cannot take the order.
+ * Also used by the order repository when a placement loses a race for the
+ * slot's last places.
+ */
+export function slotFullMessage(
+  availability: Pick<PickupSlotAvailability, "isFull" | "remainingItems">,
+): string {
+  return availability.isFull
+    ? "Este horário de retirada está esgotado para a data escolhida. Escolha outro horário."
+    : `Este horário de retirada comporta apenas mais ${availability.remainingItems} item(ns) na data escolhida. Escolha outro horário ou reduza o pedido.`;
+}
+
+/**
+ * Customer-facing explanation of a production capacity shortfall.  Also
+ * used by the order repository when a placement loses a race for the last
+ * units of the day.
+ */
+export function capacityShortfallMessage(
+  shortfall: CapacityShortfall,
+  products: (Pick<Product, "id" | "name"> & {
+    variants: Pick<ProductVariant, "id" | "label">[];
+  })[],
+): string {
+  if (shortfall.scope === "STORE") {
+    return shortfall.remaining === 0
+      ? "A produção para a data escolhida está esgotada. Escolha outra data."
+      : `A loja só consegue produzir mais ${shortfall.remaining} item(ns) na data escolhida. Escolha outra data ou reduza o pedido.`;
+  }
+
+  let name = "este produto";
+  if (shortfall.scope === "PRODUCT") {
+    const product = products.find((p) => p.id === shortfall.productId);
+    if (product) name = `"${product.name}"`;
+  } else {
+    for (const product of products) {
+      const variant = product.variants.find(
+        (v) => v.id === shortfall.variantId,
+      );
+      if (variant) name = `"${product.name} – ${variant.label}"`;
+    }
+  }
+
+  return shortfall.remaining === 0
+    ? `${name} está esgotado para a data escolhida. Escolha outra data.`
+    : `Restam apenas ${shortfall.remaining} unidade(s) de ${name} para a data escolhida.`;
+}
+
+// ─── Stock ────────────────────────────────────────────────────────────────────
+
+/**
+ * Customer-facing explanation of a stock shortfall.  Also used by the
+ * order repository when a reservation loses a race for the last units.
+ */
+export function stockShortfallMessage(
+  shortfall: StockShortfall,
+  products: (Pick<Product, "id" | "name"> & {
+    variants: Pick<ProductVariant, "id" | "label">[];
+  })[],
+): string {
+  const product = products.find((p) => p.id === shortfall.productId);
+  const variant =
+    shortfall.scope === "VARIANT"
+      ? product?.variants.find((v) => v.id === shortfall.variantId)
+      : undefined;
+  const name = product
+    ? `"${product.name}${variant ? ` – ${variant.label}` : ""}"`
+    : "este produto";
+
+  return shortfall.available === 0
+    ? `${name} está esgotado.`
+    : `Restam apenas ${shortfall.available} unidade(s) de ${name} em estoque.`;
+}
@@ -0,0 +1,81 @@
+import type { IPixPaymentGateway } from "@/application/ports/IPixPaymentGateway";
+import type { IPixChargeRepository } from "@/domain/payment/IPixChargeRepository";
+import type { RecordPaymentUseCase } from "@/application/payment/RecordPaymentUseCase";
+import { PaymentMethod } from "@/domain/payment/Payment";
+import { PixChargeStatus } from "@/domain/payment/PixCharge";
+import { SYSTEM_CHANGE } from "@/domain/order/OrderStatusLog";
+import { AppError } from "@/shared/errors/AppError";
+import { HttpStatus } from "@/shared/http/statuses";
+
+export interface ConfirmPixPaymentInput {
+  /** Request body exactly as received — the signature covers these bytes. */
+  rawBody: string;
+  headers: Headers;
+}
+
+export interface ConfirmPixPaymentResult {
+  /** Charges marked as paid by this delivery. */
+  confirmed: number;
+}
+
+/**
+ * ConfirmPixPaymentUseCase
+ *
+ * Handles a payment webhook from the PIX provider.
+ *
+ * Business rules:
+ *   1. The signature must match (401 otherwise) — nothing else authenticates
+ *      the caller.
+ *   2. Unknown charges are ignored, and a charge is confirmed only once, so
+ *      providers may retry a delivery safely.
+ *   3. The amount is recorded as a PIX payment through RecordPaymentUseCase
+ *      as a SYSTEM change, which moves the order to PARTIALLY_PAID (deposit)
+ *      or PAID.  Recording is idempotent per charge and runs for charges
+ *      already paid too: a delivery that failed after marking the charge
+ *      paid is completed by the provider's retry.
+ *   4. Any failure fails the webhook, so the provider retries it.
+ */
+export class ConfirmPixPaymentUseCase {
+  constructor(
+    private readonly gateway: IPixPaymentGateway,
+    private readonly chargeRepo: IPixChargeRepository,
+    private readonly recordPayment: RecordPaymentUseCase,
+  ) {}
+
+  async execute(
+    input: ConfirmPixPaymentInput,
+  ): Promise<ConfirmPixPaymentResult> {
+    const notices = this.gateway.parseWebhook(input.rawBody, input.headers);
+    if (!notices) {
+      throw new AppError("Invalid signature.", HttpStatus.UNAUTHORIZED);
+    }
+
+    let confirmed = 0;
+    for (const notice of notices) {
+      const charge = await this.chargeRepo.findByProviderChargeId(
+        this.gateway.provider,
+        notice.providerChargeId,
+      );
+      if (!charge) continue;
+
+      const paid = await this.chargeRepo.markPaid(charge.id, notice.paidAt);
+      if (paid) confirmed++;
+      else if (charge.status !== PixChargeStatus.PAID) continue;
+
+      await this.recordPayment.execute(
+        {
+          orderId: charge.orderId,
+          storeId: charge.storeId,
+          amount: charge.amount,
+          method: PaymentMethod.PIX,
+          paidAt: charge.paidAt ?? notice.paidAt,
+          notes: "Confirmado automaticamente pelo provedor PIX.",
+          pixChargeId: charge.id,
+        },
+        { ...SYSTEM_CHANGE, reason: "Pagamento PIX confirmado." },
+      );
+    }
+
+    return { confirmed };
+  }
+}
@@ -0,0 +1,46 @@
+import type { IOrderRepository } from "@/domain/order/IOrderRepository";
+import type { IStoreRepository } from "@/domain/store/IStoreRepository";
+import type { IPaymentRepository } from "@/domain/payment/IPaymentRepository";
+import { computeOrderTotal } from "@/domain/order/OrderItem";
+import {
+  computeOrderBalance,
+  type OrderBalance,
+  type Payment,
+} from "@/domain/payment/Payment";
+
+export interface OrderPayments {
+  /** Oldest first. */
+  payments: Payment[];
+  balance: OrderBalance;
+}
+
+/**
+ * GetOrderPaymentsUseCase — payments recorded for an order with its paid
+ * and outstanding balance, for the dashboard order page.
+ * Returns null when the order does not belong to the store.
+ */
+export class GetOrderPaymentsUseCase {
+  constructor(
+    private readonly orderRepo: IOrderRepository,
+    private readonly storeRepo: IStoreRepository,
+    private readonly paymentRepo: IPaymentRepository,
+  ) {}
+
+  async execute(
+    orderId: string,
+    storeId: string,
+  ): Promise<OrderPayments | null> {
+    const [order, payments, depositPercentage] = await Promise.all([
+      this.orderRepo.findByIdWithDetails(orderId, storeId),
+      this.paymentRepo.findByOrder(orderId, storeId),
+      this.storeRepo.findDepositPercentage(storeId),
+    ]);
+    if (!order) return null;
+
+    const total = computeOrderTotal(order.items) + order.deliveryFee;
+    return {
+      payments,
+      balance: computeOrderBalance(total, payments, depositPercentage),
+    };
+  }
+}
@@ -0,0 +1,14 @@
+import type { IPixChargeRepository } from "@/domain/payment/IPixChargeRepository";
+import type { PixCharge } from "@/domain/payment/PixCharge";
+
+/**
+ * GetOrderPixChargeUseCase — the most recent PIX charge of an order, paid or
+ * not.  Read-only: charges are issued by IssuePixChargeUseCase.
+ */
+export class GetOrderPixChargeUseCase {
+  constructor(private readonly chargeRepo: IPixChargeRepository) {}
+
+  async execute(orderId: string, storeId: string): Promise<PixCharge | null> {
+    return this.chargeRepo.findLatestByOrder(orderId, storeId);
+  }
+}
@@ -0,0 +1,122 @@
+import { randomUUID } from "crypto";
+import type { IPixPaymentGateway } from "@/application/ports/IPixPaymentGateway";
+import type { IOrderRepository } from "@/domain/order/IOrderRepository";
+import type { IStoreRepository } from "@/domain/store/IStoreRepository";
+import type { IPixChargeRepository } from "@/domain/payment/IPixChargeRepository";
+import type { IPaymentRepository } from "@/domain/payment/IPaymentRepository";
+import { OrderStatus, OrderTrackingStatus } from "@/domain/order/Order";
+import { computeOrderTotal } from "@/domain/order/OrderItem";
+import { isPixChargeUsable, type PixCharge } from "@/domain/payment/PixCharge";
+import {
+  computeAmountDue,
+  computeOrderBalance,
+} from "@/domain/payment/Payment";
+import { PIX_STATIC_TXID_MAX_LENGTH } from "@/domain/payment/PixBrCode";
+
+export interface IssuePixChargeInput {
+  orderId: string;
+  storeId: string;
+}
+
+/**
+ * IssuePixChargeUseCase
+ *
+ * Returns the PIX charge the customer should pay for an order, issuing one
+ * through the payment gateway when needed.
+ *
+ * Rules:
+ *   1. Only approved orders still waiting for payment (tracking PENDING or
+ *      PARTIALLY_PAID) get a charge.
+ *   2. The charge is for the deposit while nothing was paid, and for the
+ *      outstanding balance afterwards (see computeAmountDue).
+ *   3. The latest charge is reused while it is unpaid, not expired and for
+ *      that amount; otherwise a new one is issued.
+ *
+ * Best-effort by design, like the notifications: it never throws and
+ * returns null when there is nothing to pay or the gateway failed, so an
+ * approval never fails because of the payment provider.
+ */
+export class IssuePixChargeUseCase {
+  constructor(
+    private readonly orderRepo: IOrderRepository,
+    private readonly storeRepo: IStoreRepository,
+    private readonly chargeRepo: IPixChargeRepository,
+    private readonly paymentRepo: IPaymentRepository,
+    private readonly gateway: IPixPaymentGateway,
+  ) {}
+
+  async execute(input: IssuePixChargeInput): Promise<PixCharge | null> {
+    const { orderId, storeId } = input;
+
+    try {
+      const order = await this.orderRepo.findByIdWithDetails(orderId, storeId);
+      const tracking = order?.orderStatus ?? OrderTrackingStatus.PENDING;
+      if (
+        !order ||
+        order.status !== OrderStatus.APPROVED ||
+        (tracking !== OrderTrackingStatus.PENDING &&
+          tracking !== OrderTrackingStatus.PARTIALLY_PAID)
+      ) {
+        return null;
+      }
+
+      const [payments, depositPercentage] = await Promise.all([
+        this.paymentRepo.findByOrder(orderId, storeId),
+        this.storeRepo.findDepositPercentage(storeId),
+      ]);
+      const amount = computeAmountDue(
+        computeOrderBalance(
+          computeOrderTotal(order.items) + order.deliveryFee,
+          payments,
+          depositPercentage,
+        ),
+      );
+      if (amount <= 0) return null;
+
+      const latest = await this.chargeRepo.findLatestByOrder(orderId, storeId);
+      if (latest && isPixChargeUsable(latest, amount, new Date())) {
+        return latest;
+      }
+
+      const [identity, pixKey, pickupAddress] = await Promise.all([
+        this.storeRepo.findIdentity(storeId),
+        this.storeRepo.findPixKey(storeId),
+        this.storeRepo.findPickupAddress(storeId),
+      ]);
+      const storeName = identity?.name ?? "";
+
+      const result = await this.gateway.createCharge({
+        txid: randomUUID()
+          .replace(/-/g, "")
+          .slice(0, PIX_STATIC_TXID_MAX_LENGTH),
+        amount,
+        description: order.orderNumber
+          ? `Pedido nº ${order.orderNumber} - ${storeName}`
+          : `Pedido - ${storeName}`,
+        pixKey,
+        merchantName: storeName,
+        merchantCity: pickupAddress?.city ?? "",
+      });
+      if (!result.success) {
+        console.error(
+          `[IssuePixChargeUseCase] ${this.gateway.provider} charge for order ${orderId} failed: ${result.error}`,
+        );
+        return null;
+      }
+
+      return await this.chargeRepo.create({
+        storeId,
+        orderId,
+        provider: this.gateway.provider,
+        amount,
+        ...result.charge,
+      });
+    } catch (err) {
+      console.error(
+        `[IssuePixChargeUseCase] charge for order ${orderId} failed:`,
+        err,
+      );
+      return null;
+    }
+  }
+}
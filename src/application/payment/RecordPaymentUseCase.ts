@@ -0,0 +1,168 @@
+import type { IOrderRepository } from "@/domain/order/IOrderRepository";
+import type { IStoreRepository } from "@/domain/store/IStoreRepository";
+import type { IPaymentRepository } from "@/domain/payment/IPaymentRepository";
+import type { UpdateOrderTrackingStatusUseCase } from "@/application/order/UpdateOrderTrackingStatusUseCase";
+import { OrderStatus, OrderTrackingStatus } from "@/domain/order/Order";
+import { computeOrderTotal } from "@/domain/order/OrderItem";
+import type { OrderChangeContext } from "@/domain/order/OrderStatusLog";
+import {
+  PAYMENT_NOTES_MAX_LENGTH,
+  PaymentMethod,
+  computeOrderBalance,
+  trackingStatusForBalance,
+  type Payment,
+} from "@/domain/payment/Payment";
+import { AppError } from "@/shared/errors/AppError";
+import { HttpStatus } from "@/shared/http/statuses";
+
+export interface RecordPaymentInput {
+  orderId: string;
+  storeId: string;
+  amount: number;
+  method: PaymentMethod;
+  /** When the money was received. Defaults to now. */
+  paidAt?: Date | null;
+  notes?: string | null;
+  /**
+   * PIX charge settled by this payment (webhook).  Recorded once per
+   * charge: a repeated call returns the payment already recorded.
+   */
+  pixChargeId?: string | null;
+}
+
+/**
+ * Tracking statuses that still accept payments.  A PAID order whose total
+ * went up is moved back to PARTIALLY_PAID (SyncOrderPaymentStatusUseCase).
+ */
+const PAYABLE_STATUSES: ReadonlyArray<OrderTrackingStatus> = [
+  OrderTrackingStatus.PENDING,
+  OrderTrackingStatus.PARTIALLY_PAID,
+];
+
+/**
+ * RecordPaymentUseCase
+ *
+ * Records money received for an order — a deposit, the balance or any part
+ * of the total — and moves the tracking status along with the balance.
+ *
+ * Business rules:
+ *   1. Amount is positive, in cents, and no larger than what is outstanding.
+ *   2. Only approved orders still waiting for payment (tracking PENDING or
+ *      PARTIALLY_PAID) accept payments.
+ *   3. Once recorded, the order moves to PARTIALLY_PAID, or to PAID when
+ *      nothing is left, through UpdateOrderTrackingStatusUseCase: history
+ *      and customer notification as for a manual change.
+ *
+ * Payments of a PIX charge (pixChargeId) are money the provider already
+ * confirmed: they are recorded once per charge, even past the outstanding
+ * balance or on an order that no longer accepts payments — the status then
+ * stays as it is.
+ *
+ * `change` identifies who recorded it: the admin, or SYSTEM for the PIX
+ * webhook.
+ */
+export class RecordPaymentUseCase {
+  constructor(
+    private readonly orderRepo: IOrderRepository,
+    private readonly storeRepo: IStoreRepository,
+    private readonly paymentRepo: IPaymentRepository,
+    private readonly updateTrackingStatus: UpdateOrderTrackingStatusUseCase,
+  ) {}
+
+  async execute(
+    input: RecordPaymentInput,
+    change: OrderChangeContext,
+  ): Promise<Payment> {
+    const { orderId, storeId, amount, method } = input;
+    const pixChargeId = input.pixChargeId ?? null;
+
+    if (
+      typeof amount !== "number" ||
+      !Number.isFinite(amount) ||
+      Math.round(amount * 100) <= 0
+    ) {
+      throw new AppError(
+        "Informe um valor maior que zero.",
+        HttpStatus.UNPROCESSABLE_ENTITY,
+      );
+    }
+    if (!Object.values(PaymentMethod).includes(method)) {
+      throw new AppError(
+        "Forma de pagamento inválida.",
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+    const paidAt = input.paidAt ?? new Date();
+    if (Number.isNaN(paidAt.getTime())) {
+      throw new AppError("Data de pagamento inválida.", HttpStatus.BAD_REQUEST);
+    }
+    const notes = input.notes?.trim() || null;
+    if (notes && notes.length > PAYMENT_NOTES_MAX_LENGTH) {
+      throw new AppError(
+        `A observação deve ter no máximo ${PAYMENT_NOTES_MAX_LENGTH} caracteres.`,
+        HttpStatus.UNPROCESSABLE_ENTITY,
+      );
+    }
+
+    const order = await this.orderRepo.findByIdWithDetails(orderId, storeId);
+    if (!order) {
+      throw new AppError("Pedido não encontrado.", HttpStatus.NOT_FOUND);
+    }
+    const current = order.orderStatus ?? OrderTrackingStatus.PENDING;
+    const acceptsPayments =
+      order.status === OrderStatus.APPROVED &&
+      PAYABLE_STATUSES.includes(current);
+    if (!acceptsPayments && !pixChargeId) {
+      throw new AppError(
+        "Pagamentos só podem ser registrados em pedidos aprovados e ainda não quitados.",
+        HttpStatus.CONFLICT,
+      );
+    }
+
+    const [payments, depositPercentage] = await Promise.all([
+      this.paymentRepo.findByOrder(orderId, storeId),
+      this.storeRepo.findDepositPercentage(storeId),
+    ]);
+    const total = computeOrderTotal(order.items) + order.deliveryFee;
+
+    // A retried webhook finds its payment here and only syncs the status
+    let payment =
+      (pixChargeId && payments.find((p) => p.pixChargeId === pixChargeId)) ||
+      null;
+    if (!payment) {
+      const before = computeOrderBalance(total, payments, depositPercentage);
+      if (
+        !pixChargeId &&
+        Math.round(amount * 100) > Math.round(before.outstanding * 100)
+      ) {
+        throw new AppError(
+          `O valor excede o saldo em aberto de R$ ${before.outstanding.toFixed(2).replace(".", ",")}.`,
+          HttpStatus.UNPROCESSABLE_ENTITY,
+        );
+      }
+
+      payment = await this.paymentRepo.create({
+        storeId,
+        orderId,
+        amount: Math.round(amount * 100) / 100,
+        method,
+        paidAt,
+        notes,
+        recordedById: change.actorId,
+        pixChargeId,
+      });
+      payments.push(payment);
+    }
+
+    if (acceptsPayments) {
+      const next = trackingStatusForBalance(
+        computeOrderBalance(total, payments, depositPercentage),
+      );
+      if (next !== current) {
+        await this.updateTrackingStatus.execute(orderId, storeId, next, change);
+      }
+    }
+
+    return payment;
+  }
+}
@@ -0,0 +1,68 @@
+import type { IOrderRepository } from "@/domain/order/IOrderRepository";
+import type { IStoreRepository } from "@/domain/store/IStoreRepository";
+import type { IPaymentRepository } from "@/domain/payment/IPaymentRepository";
+import type { UpdateOrderTrackingStatusUseCase } from "@/application/order/UpdateOrderTrackingStatusUseCase";
+import {
+  OrderStatus,
+  OrderTrackingStatus,
+  canTrackingTransitionTo,
+} from "@/domain/order/Order";
+import { computeOrderTotal } from "@/domain/order/OrderItem";
+import type { OrderChangeContext } from "@/domain/order/OrderStatusLog";
+import {
+  computeOrderBalance,
+  trackingStatusForBalance,
+} from "@/domain/payment/Payment";
+
+/** Tracking statuses that follow the balance. */
+const PAYMENT_STATUSES: ReadonlyArray<OrderTrackingStatus> = [
+  OrderTrackingStatus.PENDING,
+  OrderTrackingStatus.PARTIALLY_PAID,
+  OrderTrackingStatus.PAID,
+];
+
+/**
+ * SyncOrderPaymentStatusUseCase
+ *
+ * Brings the tracking status of an approved order in line with its balance
+ * after the total changed — an edit or a weighing.  A raised total turns a
+ * PAID order back into PARTIALLY_PAID, so the rest can be recorded; a
+ * lowered one may settle it.
+ *
+ * Delivered and cancelled orders, and orders not approved, are left alone.
+ * The move goes through UpdateOrderTrackingStatusUseCase: history and
+ * customer notification as for a manual change.
+ */
+export class SyncOrderPaymentStatusUseCase {
+  constructor(
+    private readonly orderRepo: IOrderRepository,
+    private readonly storeRepo: IStoreRepository,
+    private readonly paymentRepo: IPaymentRepository,
+    private readonly updateTrackingStatus: UpdateOrderTrackingStatusUseCase,
+  ) {}
+
+  async execute(
+    orderId: string,
+    storeId: string,
+    change: OrderChangeContext,
+  ): Promise<void> {
+    const order = await this.orderRepo.findByIdWithDetails(orderId, storeId);
+    if (!order || order.status !== OrderStatus.APPROVED) return;
+
+    const current = order.orderStatus ?? OrderTrackingStatus.PENDING;
+    if (!PAYMENT_STATUSES.includes(current)) return;
+
+    const [payments, depositPercentage] = await Promise.all([
+      this.paymentRepo.findByOrder(orderId, storeId),
+      this.storeRepo.findDepositPercentage(storeId),
+    ]);
+    const total = computeOrderTotal(order.items) + order.deliveryFee;
+    const next = trackingStatusForBalance(
+      computeOrderBalance(total, payments, depositPercentage),
+    );
+
+    if (next !== current && canTrackingTransitionTo(current, next)) {
+      await this.updateTrackingStatus.execute(orderId, storeId, next, change);
+    }
+  }
+}
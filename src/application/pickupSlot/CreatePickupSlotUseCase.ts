@@ -5,6 +5,7 @@ import type {
 } from "@/domain/pickupSlot/StorePickupSlot";
 import { AppError } from "@/shared/errors/AppError";
 import { HttpStatus } from "@/shared/http/statuses";
+import { normalizeCapacityLimit } from "./pickupSlotHelpers";
 
 // HH:mm regex — accepts 00:00 to 23:59
 const TIME_RE = /^(?:[01]\d|2[0-3]):[0-5]\d$/;
@@ -22,6 +23,8 @@ const TIME_RE = /^(?:[01]\d|2[0-3]):[0-5]\d$/;
  *    Overlap condition: A < D && C < B
  *    where [A,B] is existing and [C,D] is the candidate.
  *    Adjacent slots (B == C) are NOT considered overlapping.
+ * 4. maxOrders / maxItems are optional; when given they must be positive
+ *    integers (null = unlimited).
  */
 export class CreatePickupSlotUseCase {
   constructor(private readonly repo: IStorePickupSlotRepository) {}
@@ -61,6 +64,10 @@ export class CreatePickupSlotUseCase {
       );
     }
 
+    // ── Capacity limits ──────────────────────────────────────────────────────
+    const maxOrders = normalizeCapacityLimit(input.maxOrders, "maxOrders");
+    const maxItems = normalizeCapacityLimit(input.maxItems, "maxItems");
+
     // ── Overlap check against active slots for the same store + dayOfWeek ───
     const existing = await this.repo.findByStore(input.storeId, {
       dayOfWeek: input.dayOfWeek,
@@ -82,6 +89,7 @@ export class CreatePickupSlotUseCase {
       input.dayOfWeek,
       input.startTime,
       input.endTime,
+      { maxOrders, maxItems },
     );
   }
 }
@@ -1,8 +1,13 @@
 import type { ICatalogRepository } from "@/domain/catalog/ICatalogRepository";
 import type { IStorePickupSlotRepository } from "@/domain/pickupSlot/IStorePickupSlotRepository";
-import type { ListPickupSlotsResponse } from "@/domain/pickupSlot/StorePickupSlot";
+import type { IOrderRepository } from "@/domain/order/IOrderRepository";
+import {
+  computeSlotAvailability,
+  type PublicPickupSlotsResponse,
+} from "@/domain/pickupSlot/StorePickupSlot";
 import { AppError } from "@/shared/errors/AppError";
 import { HttpStatus } from "@/shared/http/statuses";
+import { isValidIsoDate } from "./pickupSlotHelpers";
 
 /**
  * GetPublicPickupSlotsUseCase
@@ -10,6 +15,11 @@ import { HttpStatus } from "@/shared/http/statuses";
  * Returns the ACTIVE pickup slots for a store identified by its public slug.
  * Designed for the public catalog flow — no authentication required.
  *
+ * When a `date` (YYYY-MM-DD) is given, each slot carries its remaining
+ * capacity for that date (remainingOrders / remainingItems / isFull) so the
+ * date picker can grey out full slots.  The date also implies the dayOfWeek.
+ * Without a date, remaining values reflect the configured limits only.
+ *
  * Uses ICatalogRepository only to resolve slug → storeId and verify the store
  * is active.  Product data returned by that repo is intentionally discarded.
  *
@@ -20,16 +30,29 @@ export class GetPublicPickupSlotsUseCase {
   constructor(
     private readonly catalogRepo: ICatalogRepository,
     private readonly pickupSlotRepo: IStorePickupSlotRepository,
+    private readonly orderRepo: IOrderRepository,
   ) {}
 
   async execute(
     storeSlug: string,
     dayOfWeek?: number,
-  ): Promise<ListPickupSlotsResponse> {
+    date?: string,
+  ): Promise<PublicPickupSlotsResponse> {
     if (!storeSlug?.trim()) {
       throw new AppError("Store slug is required.", HttpStatus.BAD_REQUEST);
     }
 
+    if (date !== undefined) {
+      if (!isValidIsoDate(date)) {
+        throw new AppError(
+          "Invalid 'date'. Expected YYYY-MM-DD.",
+          HttpStatus.BAD_REQUEST,
+        );
+      }
+      // The date always wins over an explicit dayOfWeek
+      dayOfWeek = new Date(`${date}T00:00:00Z`).getUTCDay();
+    }
+
     if (dayOfWeek !== undefined) {
       if (!Number.isInteger(dayOfWeek) || dayOfWeek < 0 || dayOfWeek > 6) {
         throw new AppError(
@@ -52,6 +75,26 @@ export class GetPublicPickupSlotsUseCase {
       activeOnly: true,
     });
 
-    return { slots };
+    if (date === undefined || slots.length === 0) {
+      return {
+        slots: slots.map((slot) =>
+          computeSlotAvailability(slot, undefined, null),
+        ),
+      };
+    }
+
+    // ── Remaining capacity for the requested date ──────────────────────────
+    const usage = await this.orderRepo.getPickupSlotUsage(catalog.storeId, {
+      from: new Date(`${date}T00:00:00.000Z`),
+      to: new Date(`${date}T23:59:59.999Z`),
+      pickupSlotIds: slots.map((s) => s.id),
+    });
+    const usageBySlot = new Map(usage.map((u) => [u.pickupSlotId, u]));
+
+    return {
+      slots: slots.map((slot) =>
+        computeSlotAvailability(slot, usageBySlot.get(slot.id), date),
+      ),
+    };
   }
 }
@@ -0,0 +1,42 @@
+import type { IStorePickupSlotRepository } from "@/domain/pickupSlot/IStorePickupSlotRepository";
+import type {
+  UpdatePickupSlotCapacityInput,
+  PickupSlotResponse,
+} from "@/domain/pickupSlot/StorePickupSlot";
+import { AppError } from "@/shared/errors/AppError";
+import { HttpStatus } from "@/shared/http/statuses";
+import { normalizeCapacityLimit } from "./pickupSlotHelpers";
+
+/**
+ * UpdatePickupSlotCapacityUseCase
+ *
+ * Sets (or clears) the per-date booking limits of a pickup slot.
+ *
+ * Notes:
+ * ─ Lowering a limit below what is already booked is allowed — existing
+ *   orders are kept; the slot simply shows as full until usage drops.
+ * ─ storeId is taken from the session — never from the request body.
+ */
+export class UpdatePickupSlotCapacityUseCase {
+  constructor(private readonly repo: IStorePickupSlotRepository) {}
+
+  async execute(
+    input: UpdatePickupSlotCapacityInput,
+  ): Promise<PickupSlotResponse> {
+    const maxOrders = normalizeCapacityLimit(input.maxOrders, "maxOrders");
+    const maxItems = normalizeCapacityLimit(input.maxItems, "maxItems");
+
+    const updated = await this.repo.setCapacity(
+      input.id,
+      input.storeId,
+      maxOrders,
+      maxItems,
+    );
+
+    if (!updated) {
+      throw new AppError("Pickup slot not found.", HttpStatus.NOT_FOUND);
+    }
+
+    return updated;
+  }
+}
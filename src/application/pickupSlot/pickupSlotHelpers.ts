@@ -0,0 +1,36 @@
+import { AppError } from "@/shared/errors/AppError";
+import { HttpStatus } from "@/shared/http/statuses";
+
+/**
+ * pickupSlotHelpers — pure functions shared by the pickup-slot use cases.
+ */
+
+/**
+ * Validates an optional per-date capacity limit (maxOrders / maxItems).
+ * null / undefined means unlimited; any other value must be a positive integer.
+ *
+ * @returns the normalised limit (null when unlimited)
+ */
+export function normalizeCapacityLimit(
+  value: number | null | undefined,
+  field: "maxOrders" | "maxItems",
+): number | null {
+  if (value === null || value === undefined) return null;
+  if (!Number.isInteger(value) || value < 1) {
+    throw new AppError(
+      `${field} must be a positive integer or null (unlimited).`,
+      HttpStatus.BAD_REQUEST,
+    );
+  }
+  return value;
+}
+
+/**
+ * Returns true when `s` is a valid YYYY-MM-DD calendar date.
+ */
+export function isValidIsoDate(s: string): boolean {
+  return (
+    /^\d{4}-\d{2}-\d{2}$/.test(s) &&
+    !isNaN(new Date(`${s}T00:00:00Z`).getTime())
+  );
+}
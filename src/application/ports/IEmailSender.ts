@@ -0,0 +1,30 @@
+/**
+ * Port: outbound email used by the Application layer (password reset,
+ * email verification).
+ *
+ * Defined here (application/ports) so use cases depend on this
+ * interface — not on a concrete transport (SMTP, a local outbox, a future
+ * provider API, etc.).
+ *
+ * NestJS migration: this becomes an injection token with a provider
+ * binding chosen per environment.
+ */
+
+export interface OutgoingEmail {
+  to: string;
+  subject: string;
+  /** Plain-text body, already rendered. */
+  text: string;
+}
+
+export type EmailSendResult =
+  { success: true } | { success: false; error: string };
+
+export interface IEmailSender {
+  /**
+   * Sends one email.
+   * Delivery problems are reported through the result, never thrown — the
+   * caller decides whether the flow that triggered the send can go on.
+   */
+  send(email: OutgoingEmail): Promise<EmailSendResult>;
+}
@@ -0,0 +1,33 @@
+/**
+ * Port: outbound customer messaging used by the Application layer.
+ *
+ * Defined here (application/ports) so use cases depend on this
+ * interface — not on a concrete provider (WhatsApp Cloud API, a local
+ * logger, a future SMS gateway, etc.).
+ *
+ * NestJS migration: this becomes an injection token with a provider
+ * binding chosen per environment.
+ */
+
+export interface OutgoingMessage {
+  /** Recipient as a digits-only number with country code (e.g. "5511999998888"). */
+  to: string;
+  /** Plain-text body, already rendered. */
+  body: string;
+}
+
+export type MessageSendResult =
+  | { success: true; providerMessageId: string | null }
+  | { success: false; error: string };
+
+export interface IMessagingGateway {
+  /** Stable identifier recorded with every attempt (e.g. "whatsapp-cloud"). */
+  readonly channel: string;
+
+  /**
+   * Sends one text message.
+   * Delivery problems are reported through the result, never thrown — a
+   * provider outage must not break the order flow that triggered the send.
+   */
+  send(message: OutgoingMessage): Promise<MessageSendResult>;
+}
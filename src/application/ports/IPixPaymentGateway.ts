@@ -0,0 +1,62 @@
+/**
+ * Port: PIX charges used by the Application layer.
+ *
+ * Defined here (application/ports) so use cases depend on this
+ * interface — not on a concrete provider (a PSP API, a locally built static
+ * code, the fake used in tests, etc.).
+ *
+ * NestJS migration: this becomes an injection token with a provider
+ * binding chosen per environment.
+ */
+
+export interface PixChargeRequest {
+  /** Our reference for the charge — letters and digits, at most 25. */
+  txid: string;
+  /** Amount in BRL. */
+  amount: number;
+  /** Shown to the payer, e.g. "Pedido nº 42 - Doces da Ana". */
+  description: string;
+  /** Receiver of locally built static codes. Null when the store has none. */
+  pixKey: string | null;
+  merchantName: string;
+  merchantCity: string;
+}
+
+export interface IssuedPixCharge {
+  /** Charge id at the provider — what its webhooks refer to. */
+  providerChargeId: string;
+  /** "Copia e cola" payload. */
+  brCode: string;
+  /** data: URL or https URL of the QR code image. */
+  qrCodeImage: string;
+  expiresAt: Date | null;
+}
+
+export type PixChargeResult =
+  | { success: true; charge: IssuedPixCharge }
+  | { success: false; error: string };
+
+/** A payment confirmed by the provider. */
+export interface PixPaymentNotice {
+  providerChargeId: string;
+  paidAt: Date;
+}
+
+export interface IPixPaymentGateway {
+  /** Stable identifier stored with every charge (e.g. "openpix"). */
+  readonly provider: string;
+
+  /**
+   * Issues a charge.
+   * Provider problems are reported through the result, never thrown — the
+   * order approval that triggers it must not fail because of a PSP outage.
+   */
+  createCharge(request: PixChargeRequest): Promise<PixChargeResult>;
+
+  /**
+   * Checks the webhook signature and extracts the confirmed payments.
+   * Returns null when the signature does not match (or the gateway takes no
+   * webhooks); an empty array for valid events that confirm nothing.
+   */
+  parseWebhook(rawBody: string, headers: Headers): PixPaymentNotice[] | null;
+}
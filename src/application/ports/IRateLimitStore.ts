@@ -0,0 +1,33 @@
+/**
+ * Port: counters behind rate limiting and login lockout.
+ *
+ * Defined here (application/ports) so the limits are decided by the
+ * Application layer and stored anywhere — process memory for a single
+ * instance, Postgres when several instances must share the counts.
+ */
+
+export interface RateLimitCounter {
+  /** Hits in the current window. */
+  count: number;
+  /** When the current window ends and the count starts over. */
+  resetAt: Date;
+  /** Set while the key is locked out — may outlast the window. */
+  blockedUntil: Date | null;
+}
+
+export interface IRateLimitStore {
+  /**
+   * Counts one hit, atomically.  An expired window starts over at 1 with
+   * `windowMs` from `now`.
+   */
+  hit(key: string, windowMs: number, now: Date): Promise<RateLimitCounter>;
+
+  /** The key's state at `now` (count 0 once the window ended); null when unknown. */
+  get(key: string, now: Date): Promise<RateLimitCounter | null>;
+
+  /** Locks the key out until `until`. */
+  block(key: string, until: Date): Promise<void>;
+
+  /** Forgets the key — hits and lockout. */
+  reset(key: string): Promise<void>;
+}
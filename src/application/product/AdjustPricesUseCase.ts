@@ -0,0 +1,130 @@
+import { AppError } from "@/shared/errors/AppError";
+import { HttpStatus } from "@/shared/http/statuses";
+import type { IProductRepository } from "@/domain/product/IProductRepository";
+import type { IPriceAdjustmentRepository } from "@/domain/product/IPriceAdjustmentRepository";
+import type { ICategoryRepository } from "@/domain/category/ICategoryRepository";
+import type { IProductCategoryRepository } from "@/domain/category/IProductCategoryRepository";
+import type { Product } from "@/domain/product/Product";
+import {
+  MAX_PRICE_CHANGE_AMOUNT,
+  MAX_PRICE_CHANGE_PERCENT,
+  PriceAdjustmentScope,
+  isValidPriceRule,
+  planPriceChanges,
+  type AdjustPricesInput,
+  type PriceAdjustment,
+  type PriceChange,
+} from "@/domain/product/PriceAdjustment";
+
+export interface PriceAdjustmentPreview {
+  dryRun: boolean;
+  changes: PriceChange[];
+  /** The logged adjustment; null on a dry run. */
+  adjustment: PriceAdjustment | null;
+}
+
+/**
+ * AdjustPricesUseCase
+ *
+ * Raises or lowers every price of the chosen products, of a category or
+ * of the whole catalog by a percentage or a fixed amount, with optional
+ * rounding (see PriceAdjustment.ts).
+ *
+ * dryRun returns the planned changes without writing — the preview diff.
+ * Otherwise all prices are set and the adjustment is logged in one
+ * transaction; it fails with CONFLICT when a price was edited since the
+ * preview.  A change taking any price to zero or below is rejected.
+ */
+export class AdjustPricesUseCase {
+  constructor(
+    private readonly productRepo: IProductRepository,
+    private readonly categoryRepo: ICategoryRepository,
+    private readonly productCategoryRepo: IProductCategoryRepository,
+    private readonly priceAdjustmentRepo: IPriceAdjustmentRepository,
+  ) {}
+
+  async execute(
+    input: AdjustPricesInput,
+    dryRun: boolean,
+  ): Promise<PriceAdjustmentPreview> {
+    if (!isValidPriceRule(input)) {
+      throw new AppError(
+        `The change must be a percentage above -100 and up to ${MAX_PRICE_CHANGE_PERCENT}, or an amount up to ${MAX_PRICE_CHANGE_AMOUNT} either way.`,
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+    if (input.value === 0) {
+      throw new AppError(
+        "The change must not be zero.",
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    const products = await this.productsInScope(input);
+    const changes = planPriceChanges(products, input);
+    if (changes.length === 0) {
+      throw new AppError(
+        "No price would change.",
+        HttpStatus.UNPROCESSABLE_ENTITY,
+      );
+    }
+    const invalid = changes.find((c) => c.newPrice <= 0);
+    if (invalid) {
+      throw new AppError(
+        `The price of "${invalid.productName}" would drop to zero or below.`,
+        HttpStatus.UNPROCESSABLE_ENTITY,
+      );
+    }
+
+    if (dryRun) return { dryRun, changes, adjustment: null };
+
+    const adjustment = await this.priceAdjustmentRepo.apply({
+      storeId: input.storeId,
+      mode: input.mode,
+      value: input.value,
+      rounding: input.rounding,
+      scope: input.scope,
+      actorId: input.actorId,
+      changes,
+    });
+    return { dryRun, changes, adjustment };
+  }
+
+  private async productsInScope(input: AdjustPricesInput): Promise<Product[]> {
+    const products = await this.productRepo.findAllByStore(input.storeId);
+
+    switch (input.scope) {
+      case PriceAdjustmentScope.ALL:
+        return products;
+
+      case PriceAdjustmentScope.PRODUCTS: {
+        const ids = new Set(input.productIds ?? []);
+        if (ids.size === 0) {
+          throw new AppError(
+            "Select at least one product.",
+            HttpStatus.BAD_REQUEST,
+          );
+        }
+        return products.filter((p) => ids.has(p.id));
+      }
+
+      case PriceAdjustmentScope.CATEGORY: {
+        const category = input.categoryId
+          ? await this.categoryRepo.findById(input.categoryId, input.storeId)
+          : null;
+        if (!category) {
+          throw new AppError("Category not found.", HttpStatus.NOT_FOUND);
+        }
+        const assigned = await this.productCategoryRepo.findProductsByCategory(
+          category.id,
+          input.storeId,
+        );
+        const ids = new Set(assigned.map((a) => a.productId));
+        return products.filter((p) => ids.has(p.id));
+      }
+
+      default:
+        throw new AppError("Invalid scope.", HttpStatus.BAD_REQUEST);
+    }
+  }
+}
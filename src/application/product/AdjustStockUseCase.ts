@@ -0,0 +1,51 @@
+import { AppError } from "@/shared/errors/AppError";
+import { HttpStatus } from "@/shared/http/statuses";
+import type { IStockRepository } from "@/domain/product/IStockRepository";
+import {
+  MAX_STOCK_ON_HAND,
+  STOCK_REASON_MAX_LENGTH,
+  isValidStockCount,
+  type AdjustStockInput,
+  type StockMovement,
+} from "@/domain/product/ProductStock";
+
+/**
+ * AdjustStockUseCase
+ *
+ * Sets the stock count of a product, or of one of its variants — after a
+ * stocktake, a new batch or breakage — and records it in the history.
+ *
+ * Business rules:
+ *   1. The count is an integer from 0 to MAX_STOCK_ON_HAND, or null to stop
+ *      tracking (the item goes back to made to order).
+ *   2. The count cannot be lower than the units reserved by open orders.
+ *   3. The optional reason is trimmed and capped at STOCK_REASON_MAX_LENGTH.
+ */
+export class AdjustStockUseCase {
+  constructor(private readonly repo: IStockRepository) {}
+
+  async execute(input: AdjustStockInput): Promise<StockMovement> {
+    if (!isValidStockCount(input.stockOnHand)) {
+      throw new AppError(
+        `Stock must be a whole number from 0 to ${MAX_STOCK_ON_HAND}, or empty to stop tracking.`,
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+    const reason = input.reason?.trim() || null;
+    if (reason && reason.length > STOCK_REASON_MAX_LENGTH) {
+      throw new AppError(
+        `Reason must be at most ${STOCK_REASON_MAX_LENGTH} characters.`,
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    const movement = await this.repo.adjust({ ...input, reason });
+    if (!movement) {
+      throw new AppError(
+        input.variantId ? "Variant not found." : "Product not found.",
+        HttpStatus.NOT_FOUND,
+      );
+    }
+    return movement;
+  }
+}
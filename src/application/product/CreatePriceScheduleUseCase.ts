@@ -0,0 +1,138 @@
+import { AppError } from "@/shared/errors/AppError";
+import { HttpStatus } from "@/shared/http/statuses";
+import type { IProductRepository } from "@/domain/product/IProductRepository";
+import type { IPriceScheduleRepository } from "@/domain/product/IPriceScheduleRepository";
+import {
+  PriceScheduleKind,
+  promosOverlap,
+  schedulesFor,
+  type CreatePriceScheduleInput,
+  type PriceSchedule,
+} from "@/domain/product/PriceSchedule";
+
+function isValidDate(value: Date | null): value is Date {
+  return value instanceof Date && !isNaN(value.getTime());
+}
+
+/**
+ * CreatePriceScheduleUseCase
+ *
+ * Schedules a promo ("de/por") or a future price for a product's base price
+ * or one of its variants.
+ *
+ * Business rules:
+ *   1. The price is a positive number.
+ *   2. A PROMO has an end after its start, and the end is in the future;
+ *      its price is below the current regular price.  Promos of the same
+ *      price cannot overlap.
+ *   3. A CHANGE starts in the future and has no end.
+ *   4. The base price can only be scheduled on products priced without
+ *      variants; a variant must belong to the product.
+ */
+export class CreatePriceScheduleUseCase {
+  constructor(
+    private readonly productRepo: IProductRepository,
+    private readonly scheduleRepo: IPriceScheduleRepository,
+  ) {}
+
+  async execute(input: CreatePriceScheduleInput): Promise<PriceSchedule> {
+    const now = new Date();
+
+    if (!Object.values(PriceScheduleKind).includes(input.kind)) {
+      throw new AppError(
+        "kind must be PROMO or CHANGE.",
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+    if (!Number.isFinite(input.price) || input.price <= 0) {
+      throw new AppError(
+        "Price must be a positive number.",
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+    if (!isValidDate(input.startsAt)) {
+      throw new AppError(
+        "startsAt must be a valid date.",
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    let endsAt: Date | null = null;
+    if (input.kind === PriceScheduleKind.PROMO) {
+      if (!isValidDate(input.endsAt)) {
+        throw new AppError(
+          "A promo needs a valid end date.",
+          HttpStatus.BAD_REQUEST,
+        );
+      }
+      if (input.endsAt <= input.startsAt) {
+        throw new AppError(
+          "The promo must end after it starts.",
+          HttpStatus.BAD_REQUEST,
+        );
+      }
+      if (input.endsAt <= now) {
+        throw new AppError(
+          "The promo must end in the future.",
+          HttpStatus.BAD_REQUEST,
+        );
+      }
+      endsAt = input.endsAt;
+    } else if (input.startsAt <= now) {
+      throw new AppError(
+        "A scheduled price must start in the future. To change the price now, edit the product.",
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    const product = await this.productRepo.findById(
+      input.productId,
+      input.storeId,
+    );
+    if (!product) {
+      throw new AppError("Product not found.", HttpStatus.NOT_FOUND);
+    }
+
+    let regularPrice: number;
+    if (input.variantId) {
+      const variant = product.variants.find((v) => v.id === input.variantId);
+      if (!variant) {
+        throw new AppError("Variant not found.", HttpStatus.NOT_FOUND);
+      }
+      regularPrice = variant.price;
+    } else {
+      if (product.price === null) {
+        throw new AppError(
+          "This product is priced by its variants. Choose a variant.",
+          HttpStatus.UNPROCESSABLE_ENTITY,
+        );
+      }
+      regularPrice = product.price;
+    }
+
+    if (input.kind === PriceScheduleKind.PROMO) {
+      if (input.price >= regularPrice) {
+        throw new AppError(
+          "The promo price must be lower than the regular price.",
+          HttpStatus.UNPROCESSABLE_ENTITY,
+        );
+      }
+      const overlapping = schedulesFor(
+        product.priceSchedules,
+        input.variantId,
+      ).some(
+        (s) =>
+          s.kind === PriceScheduleKind.PROMO &&
+          promosOverlap(s, { startsAt: input.startsAt, endsAt }),
+      );
+      if (overlapping) {
+        throw new AppError(
+          "Another promo for this price overlaps these dates.",
+          HttpStatus.CONFLICT,
+        );
+      }
+    }
+
+    return this.scheduleRepo.create({ ...input, endsAt });
+  }
+}
@@ -2,9 +2,14 @@ import { AppError } from "@/shared/errors/AppError";
 import { HttpStatus } from "@/shared/http/statuses";
 import type { IProductRepository } from "@/domain/product/IProductRepository";
 import type { IProductCategoryRepository } from "@/domain/category/IProductCategoryRepository";
-import type {
-  CreateProductInput,
-  ProductResponse,
+import { isValidDailyCapacity } from "@/domain/production/ProductionCapacity";
+import { validateOptionGroups } from "./optionGroupHelpers";
+import { assertValidAvailability } from "./availabilityHelpers";
+import {
+  MAX_SKU_LENGTH,
+  isValidSku,
+  type CreateProductInput,
+  type ProductResponse,
 } from "@/domain/product/Product";
 
 const MAX_NAME_LENGTH = 200;
@@ -20,6 +25,8 @@ const MAX_VARIANTS = 50;
  *   - Without variants: requires price > 0 at the product level.
  *   - With variants:    price on the product is optional; each variant
  *                       must have price > 0 and a non-empty label.
+ * Option groups, when given, are validated by validateOptionGroups.
+ * A SKU, when given, must be unique within the store.
  *
  * storeId always comes from the authenticated session, never from the client.
  */
@@ -30,8 +37,62 @@ export class CreateProductUseCase {
   ) {}
 
   async execute(input: CreateProductInput): Promise<ProductResponse> {
+    this.validate(input);
+
+    if (!input.categoryIds || input.categoryIds.length === 0) {
+      throw new AppError(
+        "Pelo menos uma categoria deve ser atribuída ao produto.",
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    const sku = input.sku?.trim() || null;
+    if (sku && (await this.repo.findBySku(sku, input.storeId))) {
+      throw new AppError(
+        "A product with this SKU already exists.",
+        HttpStatus.CONFLICT,
+      );
+    }
+
+    const hasVariants = (input.variants?.length ?? 0) > 0;
+
+    const product = await this.repo.create({
+      storeId: input.storeId,
+      sku,
+      name: input.name.trim(),
+      description: input.description?.trim(),
+      price: hasVariants ? undefined : input.price,
+      minQuantity: input.minQuantity ?? 1,
+      dailyCapacity: input.dailyCapacity ?? null,
+      availability: input.availability,
+      isActive: input.isActive ?? true,
+      variants: input.variants ?? [],
+      optionGroups: input.optionGroups ?? [],
+    });
+
+    await this.productCategoryRepo.replaceForProduct(
+      product.id,
+      input.storeId,
+      input.categoryIds,
+    );
+
+    return product;
+  }
+
+  /**
+   * Every rule that needs no lookup (name, price, variants, option groups),
+   * throwing the same errors as execute.  The CSV import runs it for its
+   * dry-run preview; categories and SKU uniqueness are left to execute.
+   */
+  validate(input: Omit<CreateProductInput, "storeId" | "categoryIds">): void {
     // ── Product-level validations ──────────────────────────────────────────
 
+    if (input.sku && !isValidSku(input.sku.trim())) {
+      throw new AppError(
+        `SKU must be at most ${MAX_SKU_LENGTH} letters, digits or . _ - / characters.`,
+        HttpStatus.BAD_REQUEST,
+      );
+    }
     if (!input.name?.trim()) {
       throw new AppError("Product name is required.", HttpStatus.BAD_REQUEST);
     }
@@ -74,6 +135,15 @@ export class CreateProductUseCase {
       );
     }
 
+    if (!isValidDailyCapacity(input.dailyCapacity)) {
+      throw new AppError(
+        "Daily capacity must be a positive integer or empty for unlimited.",
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    assertValidAvailability(input.availability);
+
     // ── Variant validations ───────────────────────────────────────────────
 
     if (hasVariants) {
@@ -102,6 +172,12 @@ export class CreateProductUseCase {
             HttpStatus.BAD_REQUEST,
           );
         }
+        if (!isValidDailyCapacity(v.dailyCapacity)) {
+          throw new AppError(
+            `Variant "${v.label}": daily capacity must be a positive integer or empty.`,
+            HttpStatus.BAD_REQUEST,
+          );
+        }
         if (v.pricingType === "WEIGHT") {
           if (typeof v.weightValue !== "number" || v.weightValue <= 0) {
             throw new AppError(
@@ -115,33 +191,16 @@ export class CreateProductUseCase {
               HttpStatus.BAD_REQUEST,
             );
           }
+          if (typeof v.weightStep !== "number" || v.weightStep <= 0) {
+            throw new AppError(
+              `Variant "${v.label}": weightStep must be a positive number for WEIGHT pricing.`,
+              HttpStatus.BAD_REQUEST,
+            );
+          }
         }
       }
     }
 
-    if (!input.categoryIds || input.categoryIds.length === 0) {
-      throw new AppError(
-        "Pelo menos uma categoria deve ser atribuída ao produto.",
-        HttpStatus.BAD_REQUEST,
-      );
-    }
-
-    const product = await this.repo.create({
-      storeId: input.storeId,
-      name: input.name.trim(),
-      description: input.description?.trim(),
-      price: hasVariants ? undefined : input.price,
-      minQuantity: minQty,
-      isActive: input.isActive ?? true,
-      variants: input.variants ?? [],
-    });
-
-    await this.productCategoryRepo.replaceForProduct(
-      product.id,
-      input.storeId,
-      input.categoryIds,
-    );
-
-    return product;
+    validateOptionGroups(input.optionGroups ?? []);
   }
 }
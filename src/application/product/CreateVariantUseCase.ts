@@ -1,6 +1,7 @@
 import { AppError } from "@/shared/errors/AppError";
 import { HttpStatus } from "@/shared/http/statuses";
 import type { IProductRepository } from "@/domain/product/IProductRepository";
+import { isValidDailyCapacity } from "@/domain/production/ProductionCapacity";
 import type {
   CreateVariantInput,
   ProductVariant,
@@ -19,7 +20,9 @@ const VALID_WEIGHT_UNITS = ["g", "kg"] as const;
  * - label must be non-empty and ≤ MAX_LABEL_LENGTH
  * - price must be > 0
  * - pricingType must be a known value
- * - when pricingType is WEIGHT: weightValue must be > 0 and weightUnit must be "g" or "kg"
+ * - when pricingType is WEIGHT: weightValue and weightStep must be > 0 and
+ *   weightUnit must be "g" or "kg"; price is per kg
+ * - dailyCapacity, when set, must be a positive integer
  */
 export class CreateVariantUseCase {
   constructor(private readonly repo: IProductRepository) {}
@@ -29,6 +32,29 @@ export class CreateVariantUseCase {
     storeId: string,
     input: CreateVariantInput,
   ): Promise<ProductVariant> {
+    this.validate(input);
+
+    return this.repo.createVariant(productId, storeId, {
+      label: input.label.trim(),
+      price: input.price,
+      pricingType: input.pricingType,
+      weightValue:
+        input.pricingType === "WEIGHT" ? (input.weightValue ?? null) : null,
+      weightUnit:
+        input.pricingType === "WEIGHT" ? (input.weightUnit ?? null) : null,
+      weightStep:
+        input.pricingType === "WEIGHT" ? (input.weightStep ?? null) : null,
+      dailyCapacity: input.dailyCapacity ?? null,
+      isActive: input.isActive ?? true,
+      sortOrder: input.sortOrder ?? 0,
+    });
+  }
+
+  /**
+   * The business rules listed above, without saving.  The CSV import runs
+   * it for its dry-run preview.
+   */
+  validate(input: CreateVariantInput): void {
     if (!input.label?.trim()) {
       throw new AppError("Variant label is required.", HttpStatus.BAD_REQUEST);
     }
@@ -69,18 +95,19 @@ export class CreateVariantUseCase {
           HttpStatus.BAD_REQUEST,
         );
       }
+      if (typeof input.weightStep !== "number" || input.weightStep <= 0) {
+        throw new AppError(
+          "weightStep must be a positive number for WEIGHT pricing.",
+          HttpStatus.BAD_REQUEST,
+        );
+      }
     }
 
-    return this.repo.createVariant(productId, storeId, {
-      label: input.label.trim(),
-      price: input.price,
-      pricingType: input.pricingType,
-      weightValue:
-        input.pricingType === "WEIGHT" ? (input.weightValue ?? null) : null,
-      weightUnit:
-        input.pricingType === "WEIGHT" ? (input.weightUnit ?? null) : null,
-      isActive: input.isActive ?? true,
-      sortOrder: input.sortOrder ?? 0,
-    });
+    if (!isValidDailyCapacity(input.dailyCapacity)) {
+      throw new AppError(
+        "Daily capacity must be a positive integer or empty for unlimited.",
+        HttpStatus.BAD_REQUEST,
+      );
+    }
   }
 }
@@ -0,0 +1,20 @@
+import { AppError } from "@/shared/errors/AppError";
+import { HttpStatus } from "@/shared/http/statuses";
+import type { IPriceScheduleRepository } from "@/domain/product/IPriceScheduleRepository";
+
+/**
+ * DeletePriceScheduleUseCase
+ *
+ * Cancels a pending promo or scheduled price.  Ending a running promo early
+ * is the same: the regular price applies again at once.
+ */
+export class DeletePriceScheduleUseCase {
+  constructor(private readonly repo: IPriceScheduleRepository) {}
+
+  async execute(id: string, productId: string, storeId: string): Promise<void> {
+    const deleted = await this.repo.delete(id, productId, storeId);
+    if (!deleted) {
+      throw new AppError("Scheduled price not found.", HttpStatus.NOT_FOUND);
+    }
+  }
+}
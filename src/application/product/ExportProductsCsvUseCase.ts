@@ -0,0 +1,41 @@
+import { toCsv } from "@/shared/utils/csv";
+import type { IProductRepository } from "@/domain/product/IProductRepository";
+import type { ICategoryRepository } from "@/domain/category/ICategoryRepository";
+import type { IProductCategoryRepository } from "@/domain/category/IProductCategoryRepository";
+import { toProductCsvRows } from "./productCsv";
+
+/**
+ * ExportProductsCsvUseCase
+ *
+ * Returns the store's products, variants, categories and prices as CSV in
+ * the format ImportProductsCsvUseCase reads (see productCsv.ts), so a
+ * spreadsheet can be exported, edited and imported back.
+ */
+export class ExportProductsCsvUseCase {
+  constructor(
+    private readonly productRepo: IProductRepository,
+    private readonly categoryRepo: ICategoryRepository,
+    private readonly productCategoryRepo: IProductCategoryRepository,
+  ) {}
+
+  async execute(storeId: string): Promise<string> {
+    const [products, categories, assignments] = await Promise.all([
+      this.productRepo.findAllByStore(storeId),
+      this.categoryRepo.findAllByStore(storeId),
+      this.productCategoryRepo.findAssignmentsByStore(storeId),
+    ]);
+
+    const categoryName = new Map(categories.map((c) => [c.id, c.name]));
+    const namesByProduct = new Map<string, string[]>();
+    for (const { productId, categoryId } of assignments) {
+      const name = categoryName.get(categoryId);
+      if (!name) continue;
+      namesByProduct.set(productId, [
+        ...(namesByProduct.get(productId) ?? []),
+        name,
+      ]);
+    }
+
+    return toCsv(toProductCsvRows(products, namesByProduct));
+  }
+}
@@ -0,0 +1,258 @@
+import { AppError } from "@/shared/errors/AppError";
+import { HttpStatus } from "@/shared/http/statuses";
+import { parseCsv } from "@/shared/utils/csv";
+import { slugify } from "@/shared/utils/slugify";
+import type { IProductRepository } from "@/domain/product/IProductRepository";
+import type { ICategoryRepository } from "@/domain/category/ICategoryRepository";
+import type { Product } from "@/domain/product/Product";
+import type { CreateProductUseCase } from "./CreateProductUseCase";
+import type { UpdateProductUseCase } from "./UpdateProductUseCase";
+import type { CreateVariantUseCase } from "./CreateVariantUseCase";
+import type { UpdateVariantUseCase } from "./UpdateVariantUseCase";
+import type { CreateCategoryUseCase } from "@/application/category/CreateCategoryUseCase";
+import type { AssignProductToCategoryUseCase } from "@/application/category/AssignProductToCategoryUseCase";
+import {
+  parseProductCsv,
+  type ProductCsvDraft,
+  type ProductImportError,
+} from "./productCsv";
+
+const MAX_ROWS = 5000;
+
+export interface ProductImportItem {
+  sku: string;
+  name: string;
+  /** CREATE for a SKU the store does not have yet, UPDATE otherwise. */
+  action: "CREATE" | "UPDATE";
+  variantCount: number;
+  categories: string[];
+  /** Empty when the product is (or, on a dry run, would be) imported. */
+  errors: ProductImportError[];
+}
+
+export interface ProductImportReport {
+  dryRun: boolean;
+  items: ProductImportItem[];
+  /** Category names the store does not have — created by the import. */
+  newCategories: string[];
+  /** Products saved; 0 on a dry run. */
+  imported: number;
+}
+
+/**
+ * ImportProductsCsvUseCase
+ *
+ * Creates or updates products from a CSV (format in productCsv.ts), matched
+ * by SKU.  Every write goes through the regular use cases so the same
+ * business rules apply:
+ *   - new SKU       → CreateProductUseCase, variants and categories included
+ *   - existing SKU  → UpdateProductUseCase, then CreateVariantUseCase /
+ *                     UpdateVariantUseCase per variant (matched by label) and
+ *                     AssignProductToCategoryUseCase per category
+ *   - new category  → CreateCategoryUseCase
+ * The import only adds: variants and categories missing from the file are
+ * kept.
+ *
+ * dryRun reads and validates without writing and returns the same report,
+ * with the row-level errors the import would hit.  Products with errors
+ * are skipped; the others are imported.
+ */
+export class ImportProductsCsvUseCase {
+  constructor(
+    private readonly productRepo: IProductRepository,
+    private readonly categoryRepo: ICategoryRepository,
+    private readonly createProductUseCase: CreateProductUseCase,
+    private readonly updateProductUseCase: UpdateProductUseCase,
+    private readonly createVariantUseCase: CreateVariantUseCase,
+    private readonly updateVariantUseCase: UpdateVariantUseCase,
+    private readonly createCategoryUseCase: CreateCategoryUseCase,
+    private readonly assignProductToCategoryUseCase: AssignProductToCategoryUseCase,
+  ) {}
+
+  async execute(
+    storeId: string,
+    csv: string,
+    dryRun: boolean,
+  ): Promise<ProductImportReport> {
+    const rows = parseCsv(csv);
+    if (rows.length < 2) {
+      throw new AppError(
+        "The CSV has no product rows.",
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+    if (rows.length > MAX_ROWS + 1) {
+      throw new AppError(
+        `The CSV can have at most ${MAX_ROWS} rows.`,
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    const drafts = parseProductCsv(rows);
+    const [products, categories] = await Promise.all([
+      this.productRepo.findAllByStore(storeId),
+      this.categoryRepo.findAllByStore(storeId),
+    ]);
+    const bySku = new Map(
+      products.filter((p) => p.sku).map((p) => [p.sku!, p]),
+    );
+    const categoryIds = new Map(categories.map((c) => [c.slug, c.id]));
+
+    for (const draft of drafts) {
+      if (draft.errors.length === 0) {
+        await this.validate(draft, bySku.get(draft.sku));
+      }
+    }
+
+    const newCategories = [
+      ...new Map(
+        drafts
+          .flatMap((d) => d.categoryNames)
+          .filter((name) => !categoryIds.has(slugify(name)))
+          .map((name) => [slugify(name), name]),
+      ).values(),
+    ];
+
+    let imported = 0;
+    if (!dryRun) {
+      await this.createCategories(storeId, drafts, newCategories, categoryIds);
+      for (const draft of drafts) {
+        if (draft.errors.length > 0) continue;
+        await this.save(storeId, draft, bySku.get(draft.sku), categoryIds);
+        if (draft.errors.length === 0) imported++;
+      }
+    }
+
+    return {
+      dryRun,
+      items: drafts.map((d) => ({
+        sku: d.sku,
+        name: d.input.name,
+        action: bySku.has(d.sku) ? "UPDATE" : "CREATE",
+        variantCount: d.input.variants?.length ?? 0,
+        categories: d.categoryNames,
+        errors: d.errors,
+      })),
+      newCategories,
+      imported,
+    };
+  }
+
+  // ─── Helpers ─────────────────────────────────────────────────────────────────
+
+  /** Runs the use cases' own checks, recording the first failure. */
+  private async validate(
+    draft: ProductCsvDraft,
+    existing: Product | undefined,
+  ): Promise<void> {
+    await this.recordErrors(draft, async () => {
+      if (draft.categoryNames.length === 0) {
+        throw new AppError(
+          "At least one category is required.",
+          HttpStatus.BAD_REQUEST,
+        );
+      }
+      this.createProductUseCase.validate(draft.input);
+      if (existing) {
+        for (const v of draft.input.variants ?? []) {
+          this.createVariantUseCase.validate(v);
+        }
+      }
+    });
+  }
+
+  private async createCategories(
+    storeId: string,
+    drafts: ProductCsvDraft[],
+    names: string[],
+    categoryIds: Map<string, string>,
+  ): Promise<void> {
+    for (const name of names) {
+      const users = drafts.filter(
+        (d) =>
+          d.errors.length === 0 &&
+          d.categoryNames.some((n) => slugify(n) === slugify(name)),
+      );
+      if (users.length === 0) continue;
+      try {
+        const category = await this.createCategoryUseCase.execute(
+          storeId,
+          name,
+        );
+        categoryIds.set(category.slug, category.id);
+      } catch (err) {
+        if (!(err instanceof AppError)) throw err;
+        for (const d of users) {
+          d.errors.push({
+            line: d.lines[0],
+            message: `Category "${name}": ${err.message}`,
+          });
+        }
+      }
+    }
+  }
+
+  private async save(
+    storeId: string,
+    draft: ProductCsvDraft,
+    existing: Product | undefined,
+    categoryIds: Map<string, string>,
+  ): Promise<void> {
+    const ids = draft.categoryNames.map((n) => categoryIds.get(slugify(n))!);
+    const variants = draft.input.variants ?? [];
+
+    await this.recordErrors(draft, async () => {
+      if (!existing) {
+        await this.createProductUseCase.execute({
+          ...draft.input,
+          storeId,
+          categoryIds: ids,
+        });
+        return;
+      }
+
+      await this.updateProductUseCase.execute(existing.id, storeId, {
+        name: draft.input.name,
+        description: draft.input.description ?? "",
+        price: variants.length > 0 ? null : draft.input.price,
+        minQuantity: draft.input.minQuantity ?? 1,
+        dailyCapacity: draft.input.dailyCapacity ?? null,
+        isActive: draft.input.isActive,
+      });
+      for (const [i, v] of variants.entries()) {
+        const current = existing.variants.find((x) => x.label === v.label);
+        if (current) {
+          await this.updateVariantUseCase.execute(current.id, storeId, {
+            ...v,
+            sortOrder: i,
+          });
+        } else {
+          await this.createVariantUseCase.execute(existing.id, storeId, {
+            ...v,
+            sortOrder: i,
+          });
+        }
+      }
+      for (const categoryId of ids) {
+        await this.assignProductToCategoryUseCase.execute(
+          existing.id,
+          categoryId,
+          storeId,
+        );
+      }
+    });
+  }
+
+  /** Business-rule errors become errors of the draft; others propagate. */
+  private async recordErrors(
+    draft: ProductCsvDraft,
+    run: () => Promise<void>,
+  ): Promise<void> {
+    try {
+      await run();
+    } catch (err) {
+      if (!(err instanceof AppError)) throw err;
+      draft.errors.push({ line: draft.lines[0], message: err.message });
+    }
+  }
+}
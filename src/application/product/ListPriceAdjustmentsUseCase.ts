@@ -0,0 +1,19 @@
+import type { IPriceAdjustmentRepository } from "@/domain/product/IPriceAdjustmentRepository";
+import type { PriceAdjustment } from "@/domain/product/PriceAdjustment";
+
+/** Adjustments shown on the prices page — older ones stay in the table. */
+const HISTORY_LIMIT = 20;
+
+/**
+ * ListPriceAdjustmentsUseCase
+ *
+ * Returns the store's latest bulk price adjustments, newest first, each
+ * with the prices it changed.
+ */
+export class ListPriceAdjustmentsUseCase {
+  constructor(private readonly repo: IPriceAdjustmentRepository) {}
+
+  async execute(storeId: string): Promise<PriceAdjustment[]> {
+    return this.repo.findAllByStore(storeId, HISTORY_LIMIT);
+  }
+}
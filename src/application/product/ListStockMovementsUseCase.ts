@@ -0,0 +1,21 @@
+import type { IStockRepository } from "@/domain/product/IStockRepository";
+import type { StockMovement } from "@/domain/product/ProductStock";
+
+/** Movements shown on the product page — older ones stay in the table. */
+const HISTORY_LIMIT = 50;
+
+/**
+ * ListStockMovementsUseCase
+ *
+ * Returns the latest stock movements of a product and its variants, newest
+ * first: counts set by the store and units reserved, released and consumed
+ * by orders.
+ * Always tenant-scoped — storeId from session, never from URL params.
+ */
+export class ListStockMovementsUseCase {
+  constructor(private readonly repo: IStockRepository) {}
+
+  async execute(productId: string, storeId: string): Promise<StockMovement[]> {
+    return this.repo.findMovementsByProduct(productId, storeId, HISTORY_LIMIT);
+  }
+}
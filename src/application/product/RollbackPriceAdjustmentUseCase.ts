@@ -0,0 +1,33 @@
+import { AppError } from "@/shared/errors/AppError";
+import { HttpStatus } from "@/shared/http/statuses";
+import type { IPriceAdjustmentRepository } from "@/domain/product/IPriceAdjustmentRepository";
+import type { PriceRollbackResult } from "@/domain/product/PriceAdjustment";
+
+/**
+ * RollbackPriceAdjustmentUseCase
+ *
+ * Restores the prices a bulk adjustment changed, in one transaction.
+ * Prices edited since the adjustment are kept and counted as skipped.
+ * An adjustment can be rolled back once.
+ */
+export class RollbackPriceAdjustmentUseCase {
+  constructor(private readonly repo: IPriceAdjustmentRepository) {}
+
+  async execute(id: string, storeId: string): Promise<PriceRollbackResult> {
+    const adjustment = await this.repo.findById(id, storeId);
+    if (!adjustment) {
+      throw new AppError("Price adjustment not found.", HttpStatus.NOT_FOUND);
+    }
+
+    const result = adjustment.rolledBackAt
+      ? null
+      : await this.repo.rollback(id, storeId);
+    if (!result) {
+      throw new AppError(
+        "This adjustment was already rolled back.",
+        HttpStatus.CONFLICT,
+      );
+    }
+    return result;
+  }
+}
@@ -0,0 +1,18 @@
+import type { IPriceScheduleRepository } from "@/domain/product/IPriceScheduleRepository";
+import type { PriceScheduleSettlement } from "@/domain/product/PriceSchedule";
+
+/**
+ * SettlePriceSchedulesUseCase
+ *
+ * Run by the scheduler.  Writes due scheduled prices into their products
+ * and variants and retires ended promos, so the dashboard shows the current
+ * price and the stored price stays the base for later edits.  Reads resolve
+ * due entries on their own, so a late or skipped run changes no price.
+ */
+export class SettlePriceSchedulesUseCase {
+  constructor(private readonly repo: IPriceScheduleRepository) {}
+
+  async execute(): Promise<PriceScheduleSettlement> {
+    return this.repo.settleDue(new Date());
+  }
+}
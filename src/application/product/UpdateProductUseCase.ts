@@ -2,9 +2,14 @@ import { AppError } from "@/shared/errors/AppError";
 import { HttpStatus } from "@/shared/http/statuses";
 import type { IProductRepository } from "@/domain/product/IProductRepository";
 import type { IProductCategoryRepository } from "@/domain/category/IProductCategoryRepository";
-import type {
-  UpdateProductInput,
-  ProductResponse,
+import { isValidDailyCapacity } from "@/domain/production/ProductionCapacity";
+import { validateOptionGroups } from "./optionGroupHelpers";
+import { assertValidAvailability } from "./availabilityHelpers";
+import {
+  MAX_SKU_LENGTH,
+  isValidSku,
+  type UpdateProductInput,
+  type ProductResponse,
 } from "@/domain/product/Product";
 
 const MAX_NAME_LENGTH = 200;
@@ -15,10 +20,13 @@ const MAX_DESC_LENGTH = 1000;
  *
  * Validates partial update input and delegates to the repository.
  * When input.variants is defined, all existing variants are replaced
- * atomically (delete-then-create transaction in the repository).
+ * atomically (delete-then-create transaction in the repository); the same
+ * goes for input.optionGroups.
  *
  * price may be set to null explicitly (switching a product from simple-price
  * mode to variant-priced mode after variants have been added).
+ * sku may be set to null (or "") to clear it; a new SKU must be unique
+ * within the store.
  */
 export class UpdateProductUseCase {
   constructor(
@@ -31,6 +39,24 @@ export class UpdateProductUseCase {
     storeId: string,
     input: UpdateProductInput,
   ): Promise<ProductResponse> {
+    // "" clears the SKU, like null
+    const sku = input.sku === undefined ? undefined : input.sku?.trim() || null;
+    if (sku) {
+      if (!isValidSku(sku)) {
+        throw new AppError(
+          `SKU must be at most ${MAX_SKU_LENGTH} letters, digits or . _ - / characters.`,
+          HttpStatus.BAD_REQUEST,
+        );
+      }
+      const owner = await this.repo.findBySku(sku, storeId);
+      if (owner && owner.id !== id) {
+        throw new AppError(
+          "A product with this SKU already exists.",
+          HttpStatus.CONFLICT,
+        );
+      }
+    }
+
     if (input.name !== undefined) {
       if (!input.name.trim()) {
         throw new AppError(
@@ -78,6 +104,15 @@ export class UpdateProductUseCase {
       );
     }
 
+    if (!isValidDailyCapacity(input.dailyCapacity)) {
+      throw new AppError(
+        "Daily capacity must be a positive integer or empty for unlimited.",
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    assertValidAvailability(input.availability);
+
     // Validate variants when provided
     if (input.variants !== undefined) {
       for (const v of input.variants) {
@@ -93,6 +128,12 @@ export class UpdateProductUseCase {
             HttpStatus.BAD_REQUEST,
           );
         }
+        if (!isValidDailyCapacity(v.dailyCapacity)) {
+          throw new AppError(
+            `Variant "${v.label}": daily capacity must be a positive integer or empty.`,
+            HttpStatus.BAD_REQUEST,
+          );
+        }
         if (v.pricingType === "WEIGHT") {
           if (typeof v.weightValue !== "number" || v.weightValue <= 0) {
             throw new AppError(
@@ -106,10 +147,20 @@ export class UpdateProductUseCase {
               HttpStatus.BAD_REQUEST,
             );
           }
+          if (typeof v.weightStep !== "number" || v.weightStep <= 0) {
+            throw new AppError(
+              `Variant "${v.label}": weightStep must be a positive number for WEIGHT pricing.`,
+              HttpStatus.BAD_REQUEST,
+            );
+          }
         }
       }
     }
 
+    if (input.optionGroups !== undefined) {
+      validateOptionGroups(input.optionGroups);
+    }
+
     if (input.categoryIds !== undefined) {
       if (input.categoryIds.length === 0) {
         throw new AppError(
@@ -119,30 +170,29 @@ export class UpdateProductUseCase {
       }
     }
 
-    const updated = await this.repo.update(id, storeId, input);
+    let updated = await this.repo.update(id, storeId, { ...input, sku });
     if (!updated) {
       throw new AppError("Product not found.", HttpStatus.NOT_FOUND);
     }
 
     // Replace all variants atomically when variants were provided
     if (input.variants !== undefined) {
-      const withVariants = await this.repo.replaceVariants(
+      updated = await this.repo.replaceVariants(id, storeId, input.variants);
+      if (!updated) {
+        throw new AppError("Product not found.", HttpStatus.NOT_FOUND);
+      }
+    }
+
+    // Same for option groups
+    if (input.optionGroups !== undefined) {
+      updated = await this.repo.replaceOptionGroups(
         id,
         storeId,
-        input.variants,
+        input.optionGroups,
       );
-      if (!withVariants) {
+      if (!updated) {
         throw new AppError("Product not found.", HttpStatus.NOT_FOUND);
       }
-
-      if (input.categoryIds !== undefined) {
-        await this.productCategoryRepo.replaceForProduct(
-          id,
-          storeId,
-          input.categoryIds,
-        );
-      }
-      return withVariants;
     }
 
     if (input.categoryIds !== undefined) {
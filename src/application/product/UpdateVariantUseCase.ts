@@ -1,6 +1,7 @@
 import { AppError } from "@/shared/errors/AppError";
 import { HttpStatus } from "@/shared/http/statuses";
 import type { IProductRepository } from "@/domain/product/IProductRepository";
+import { isValidDailyCapacity } from "@/domain/production/ProductionCapacity";
 import type {
   UpdateVariantInput,
   ProductVariant,
@@ -81,6 +82,21 @@ export class UpdateVariantUseCase {
           HttpStatus.BAD_REQUEST,
         );
       }
+      if (input.weightStep !== undefined && input.weightStep !== null) {
+        if (typeof input.weightStep !== "number" || input.weightStep <= 0) {
+          throw new AppError(
+            "weightStep must be a positive number for WEIGHT pricing.",
+            HttpStatus.BAD_REQUEST,
+          );
+        }
+      }
+    }
+
+    if (!isValidDailyCapacity(input.dailyCapacity)) {
+      throw new AppError(
+        "Daily capacity must be a positive integer or empty for unlimited.",
+        HttpStatus.BAD_REQUEST,
+      );
     }
 
     const updated = await this.repo.updateVariant(variantId, storeId, input);
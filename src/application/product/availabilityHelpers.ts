@@ -0,0 +1,31 @@
+/**
+ * availabilityHelpers — availability rule checks shared by the product and
+ * category use cases.
+ */
+
+import { AppError } from "@/shared/errors/AppError";
+import { HttpStatus } from "@/shared/http/statuses";
+import {
+  MAX_LEAD_TIME_DAYS,
+  validateAvailabilityRule,
+  type AvailabilityRule,
+} from "@/domain/product/ProductAvailability";
+
+const MESSAGES: Record<keyof AvailabilityRule, string> = {
+  availableWeekdays: "Weekdays must be distinct values from 0 (Sunday) to 6.",
+  availableFrom: "Available from must be a valid date (YYYY-MM-DD).",
+  availableUntil:
+    "Available until must be a valid date (YYYY-MM-DD), not before the start date.",
+  leadTimeDays: `Lead time must be an integer from 0 to ${MAX_LEAD_TIME_DAYS} days, or empty for the store's minimum advance.`,
+};
+
+/** Throws AppError(BAD_REQUEST) naming the first invalid field. */
+export function assertValidAvailability(
+  rule: AvailabilityRule | undefined,
+): void {
+  if (!rule) return;
+  const invalid = validateAvailabilityRule(rule);
+  if (invalid) {
+    throw new AppError(MESSAGES[invalid], HttpStatus.BAD_REQUEST);
+  }
+}
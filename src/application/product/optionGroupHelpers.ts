@@ -0,0 +1,129 @@
+/**
+ * optionGroupHelpers — option group rules shared by CreateProductUseCase
+ * and UpdateProductUseCase.
+ */
+
+import { AppError } from "@/shared/errors/AppError";
+import { HttpStatus } from "@/shared/http/statuses";
+import {
+  ProductOptionGroupType,
+  type CreateOptionGroupInput,
+} from "@/domain/product/ProductOption";
+
+const MAX_OPTION_GROUPS = 10;
+const MAX_OPTIONS_PER_GROUP = 30;
+const MAX_GROUP_NAME_LENGTH = 100;
+const MAX_OPTION_LABEL_LENGTH = 100;
+const MAX_OPTION_QUANTITY = 99;
+
+/**
+ * Validates a product's option groups.
+ *   - CHOICE: at least one option; 0 <= min <= max <= number of options.
+ *   - TEXT:   no options; max is 1, min is 0 (optional) or 1 (required).
+ *   - Options: non-empty label, price >= 0, maxQuantity from 1 to 99.
+ */
+export function validateOptionGroups(groups: CreateOptionGroupInput[]): void {
+  if (groups.length > MAX_OPTION_GROUPS) {
+    throw new AppError(
+      `A product can have at most ${MAX_OPTION_GROUPS} option groups.`,
+      HttpStatus.BAD_REQUEST,
+    );
+  }
+
+  for (const g of groups) {
+    if (!g.name?.trim()) {
+      throw new AppError(
+        "Each option group must have a non-empty name.",
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+    if (g.name.length > MAX_GROUP_NAME_LENGTH) {
+      throw new AppError(
+        `Option group name must be at most ${MAX_GROUP_NAME_LENGTH} characters.`,
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+    if (!Object.values(ProductOptionGroupType).includes(g.type)) {
+      throw new AppError(
+        `Option group "${g.name}": invalid type.`,
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+    if (
+      !Number.isInteger(g.minSelections) ||
+      !Number.isInteger(g.maxSelections) ||
+      g.minSelections < 0 ||
+      g.maxSelections < 1 ||
+      g.minSelections > g.maxSelections
+    ) {
+      throw new AppError(
+        `Option group "${g.name}": selections must satisfy 0 <= min <= max and max >= 1.`,
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    if (g.type === ProductOptionGroupType.TEXT) {
+      if (g.options.length > 0 || g.maxSelections !== 1) {
+        throw new AppError(
+          `Option group "${g.name}": text groups take one text and no options.`,
+          HttpStatus.BAD_REQUEST,
+        );
+      }
+      continue;
+    }
+
+    if (g.options.length === 0) {
+      throw new AppError(
+        `Option group "${g.name}" must have at least one option.`,
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+    if (g.options.length > MAX_OPTIONS_PER_GROUP) {
+      throw new AppError(
+        `Option group "${g.name}" can have at most ${MAX_OPTIONS_PER_GROUP} options.`,
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+    if (g.maxSelections > g.options.length) {
+      throw new AppError(
+        `Option group "${g.name}": max selections cannot exceed the number of options.`,
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+    for (const o of g.options) {
+      if (!o.label?.trim()) {
+        throw new AppError(
+          `Option group "${g.name}": each option must have a non-empty label.`,
+          HttpStatus.BAD_REQUEST,
+        );
+      }
+      if (o.label.length > MAX_OPTION_LABEL_LENGTH) {
+        throw new AppError(
+          `Option label must be at most ${MAX_OPTION_LABEL_LENGTH} characters.`,
+          HttpStatus.BAD_REQUEST,
+        );
+      }
+      if (
+        typeof o.price !== "number" ||
+        !Number.isFinite(o.price) ||
+        o.price < 0
+      ) {
+        throw new AppError(
+          `Option "${o.label}": price must be zero or a positive number.`,
+          HttpStatus.BAD_REQUEST,
+        );
+      }
+      const maxQuantity = o.maxQuantity ?? 1;
+      if (
+        !Number.isInteger(maxQuantity) ||
+        maxQuantity < 1 ||
+        maxQuantity > MAX_OPTION_QUANTITY
+      ) {
+        throw new AppError(
+          `Option "${o.label}": max quantity must be an integer from 1 to ${MAX_OPTION_QUANTITY}.`,
+          HttpStatus.BAD_REQUEST,
+        );
+      }
+    }
+  }
+}
@@ -0,0 +1,250 @@
+/**
+ * productCsv — the product spreadsheet format shared by
+ * ExportProductsCsvUseCase and ImportProductsCsvUseCase.
+ *
+ * One row per variant; a simple product takes a single row with the
+ * variant columns empty.  Rows with the same sku make up one product, and
+ * its product columns (name … active) are read from its first row.
+ * Categories are names separated by "|".  Decimals take "." or ",".
+ *
+ *   sku,name,description,categories,price,min_quantity,daily_capacity,active,
+ *   variant,variant_price,pricing_type,weight_value,weight_unit,weight_step
+ */
+
+import { AppError } from "@/shared/errors/AppError";
+import { HttpStatus } from "@/shared/http/statuses";
+import type { CsvRow } from "@/shared/utils/csv";
+import type {
+  CreateProductInput,
+  CreateVariantInput,
+  Product,
+} from "@/domain/product/Product";
+
+export const PRODUCT_CSV_COLUMNS = [
+  "sku",
+  "name",
+  "description",
+  "categories",
+  "price",
+  "min_quantity",
+  "daily_capacity",
+  "active",
+  "variant",
+  "variant_price",
+  "pricing_type",
+  "weight_value",
+  "weight_unit",
+  "weight_step",
+] as const;
+
+type ProductCsvColumn = (typeof PRODUCT_CSV_COLUMNS)[number];
+
+const REQUIRED_COLUMNS: ProductCsvColumn[] = ["sku", "name"];
+
+const CATEGORY_SEPARATOR = "|";
+
+/** Values accepted in the active column; exported as true / false. */
+const BOOLEANS = new Map<string, boolean>([
+  ["true", true],
+  ["false", false],
+  ["sim", true],
+  ["não", false],
+  ["nao", false],
+  ["1", true],
+  ["0", false],
+]);
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface ProductImportError {
+  /** Line of the CSV file, header = 1. */
+  line: number;
+  message: string;
+}
+
+/** A product read from the CSV, before the business rules run. */
+export interface ProductCsvDraft {
+  sku: string;
+  /** Lines the product was read from. */
+  lines: number[];
+  input: Omit<CreateProductInput, "storeId" | "categoryIds">;
+  categoryNames: string[];
+  /** Cells that could not be read — the draft is not imported. */
+  errors: ProductImportError[];
+}
+
+// ─── Export ───────────────────────────────────────────────────────────────────
+
+function formatNumber(value: number | null | undefined): string {
+  return value == null ? "" : String(value);
+}
+
+/**
+ * Rows of the spreadsheet, header first.
+ *
+ * @param categoryNames Names of each product's categories, by product id.
+ */
+export function toProductCsvRows(
+  products: Product[],
+  categoryNames: Map<string, string[]>,
+): string[][] {
+  const rows: string[][] = [[...PRODUCT_CSV_COLUMNS]];
+
+  for (const p of products) {
+    const productCells = [
+      p.sku ?? "",
+      p.name,
+      p.description ?? "",
+      (categoryNames.get(p.id) ?? []).join(CATEGORY_SEPARATOR),
+      formatNumber(p.price),
+      String(p.minQuantity),
+      formatNumber(p.dailyCapacity),
+      p.isActive ? "true" : "false",
+    ];
+    if (p.variants.length === 0) {
+      rows.push([...productCells, "", "", "", "", "", ""]);
+      continue;
+    }
+    for (const v of p.variants) {
+      rows.push([
+        ...productCells,
+        v.label,
+        formatNumber(v.price),
+        v.pricingType,
+        formatNumber(v.weightValue),
+        v.weightUnit ?? "",
+        formatNumber(v.weightStep),
+      ]);
+    }
+  }
+
+  return rows;
+}
+
+// ─── Import ───────────────────────────────────────────────────────────────────
+
+/**
+ * Groups the CSV rows into product drafts, by sku.  Throws when the header
+ * lacks a required column; every other problem is an error on its draft.
+ */
+export function parseProductCsv(rows: CsvRow[]): ProductCsvDraft[] {
+  const [header, ...body] = rows;
+  const index = new Map(
+    (header?.cells ?? []).map((c, i) => [c.trim().toLowerCase(), i]),
+  );
+  const missing = REQUIRED_COLUMNS.filter((c) => !index.has(c));
+  if (missing.length > 0) {
+    throw new AppError(
+      `The CSV header must include the columns: ${missing.join(", ")}.`,
+      HttpStatus.BAD_REQUEST,
+    );
+  }
+
+  const drafts = new Map<string, ProductCsvDraft>();
+
+  for (const row of body) {
+    const errors: ProductImportError[] = [];
+    const cell = (column: ProductCsvColumn): string => {
+      const i = index.get(column);
+      return i === undefined ? "" : (row.cells[i] ?? "").trim();
+    };
+    const number = (column: ProductCsvColumn): number | undefined => {
+      const raw = cell(column);
+      if (raw === "") return undefined;
+      const value = Number(raw.includes(".") ? raw : raw.replace(",", "."));
+      if (!Number.isFinite(value)) {
+        errors.push({ line: row.line, message: `${column} must be a number.` });
+        return undefined;
+      }
+      return value;
+    };
+
+    const sku = cell("sku");
+    let draft = sku ? drafts.get(sku) : undefined;
+
+    if (!draft) {
+      const active = cell("active").toLowerCase();
+      if (active && !BOOLEANS.has(active)) {
+        errors.push({
+          line: row.line,
+          message: "active must be true or false.",
+        });
+      }
+      draft = {
+        sku,
+        lines: [],
+        input: {
+          sku,
+          name: cell("name"),
+          description: cell("description") || undefined,
+          price: number("price"),
+          minQuantity: number("min_quantity"),
+          dailyCapacity: number("daily_capacity") ?? null,
+          isActive: active ? BOOLEANS.get(active) : true,
+          variants: [],
+        },
+        categoryNames: cell("categories")
+          .split(CATEGORY_SEPARATOR)
+          .map((n) => n.trim())
+          .filter(Boolean),
+        errors: [],
+      };
+      if (!sku) {
+        errors.push({ line: row.line, message: "sku is required." });
+      }
+      drafts.set(sku || `line:${row.line}`, draft);
+    }
+    draft.lines.push(row.line);
+
+    const label = cell("variant");
+    const variants = draft.input.variants!;
+    if (label) {
+      if (draft.lines.length > 1 && variants.length === 0) {
+        errors.push({
+          line: row.line,
+          message: `SKU ${sku} mixes a row without variant and rows with variants.`,
+        });
+      } else if (variants.some((v) => v.label === label)) {
+        errors.push({
+          line: row.line,
+          message: `Variant "${label}" appears twice for SKU ${sku}.`,
+        });
+      } else {
+        variants.push(parseVariant(label, cell, number, row.line, errors));
+      }
+    } else if (draft.lines.length > 1) {
+      errors.push({
+        line: row.line,
+        message: `SKU ${sku} repeats without a variant.`,
+      });
+    }
+
+    draft.errors.push(...errors);
+  }
+
+  return [...drafts.values()];
+}
+
+function parseVariant(
+  label: string,
+  cell: (column: ProductCsvColumn) => string,
+  number: (column: ProductCsvColumn) => number | undefined,
+  line: number,
+  errors: ProductImportError[],
+): CreateVariantInput {
+  const pricingType = (cell("pricing_type") || "UNIT").toUpperCase();
+  if (pricingType !== "UNIT" && pricingType !== "WEIGHT") {
+    errors.push({ line, message: "pricing_type must be UNIT or WEIGHT." });
+  }
+  const weight = pricingType === "WEIGHT";
+  const unit = cell("weight_unit").toLowerCase();
+
+  return {
+    label,
+    price: number("variant_price") ?? NaN,
+    pricingType: weight ? "WEIGHT" : "UNIT",
+    weightValue: weight ? (number("weight_value") ?? null) : null,
+    weightUnit: weight && (unit === "g" || unit === "kg") ? unit : null,
+    weightStep: weight ? (number("weight_step") ?? null) : null,
+  };
+}
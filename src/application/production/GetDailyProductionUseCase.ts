@@ -89,6 +89,9 @@ export class GetDailyProductionUseCase {
           incrementId: order.orderNumber,
           customerName: order.customerName,
           quantity: item.quantity,
+          options: item.options,
+          itemNotes: item.notes,
+          weightKg: item.weightKg,
           deliveryTime: order.pickupTime,
           customerWhatsapp: order.customerWhatsapp,
           notes: order.notes,
@@ -0,0 +1,81 @@
+import type { IOrderRepository } from "@/domain/order/IOrderRepository";
+import { OrderStatus } from "@/domain/order/Order";
+import type { IProductRepository } from "@/domain/product/IProductRepository";
+import type { IStoreRepository } from "@/domain/store/IStoreRepository";
+import {
+  aggregateProductionUsage,
+  computeDailyCapacity,
+  type DailyCapacity,
+} from "@/domain/production/ProductionCapacity";
+import { dateRange } from "@/application/schedule/scheduleHelpers";
+import { AppError } from "@/shared/errors/AppError";
+import { HttpStatus } from "@/shared/http/statuses";
+
+// ─── Input ────────────────────────────────────────────────────────────────────
+
+export interface GetProductionCapacityInput {
+  storeId: string;
+  /** First date of the window, YYYY-MM-DD. */
+  from: string;
+  /** Last date of the window (inclusive), YYYY-MM-DD. */
+  to: string;
+}
+
+/** Longest window a single call may request — keeps the order query bounded. */
+const MAX_RANGE_DAYS = 92;
+
+// ─── Use case ─────────────────────────────────────────────────────────────────
+
+/**
+ * GetProductionCapacityUseCase
+ *
+ * Returns the production capacity of every date in [from, to]: the store-wide
+ * limit, units already booked and what remains per store / product / variant.
+ *
+ * Used by the dashboard agenda (used vs. capacity per day) and by the public
+ * date picker (greys out dates the cart no longer fits in).
+ *
+ * Algorithm:
+ * 1. Fetch PENDING + APPROVED orders in the window, the store limit and the
+ *    product limits in parallel.
+ * 2. Aggregate item quantities per delivery date.
+ * 3. Resolve each date of the window against the limits.
+ */
+export class GetProductionCapacityUseCase {
+  constructor(
+    private readonly orderRepo: IOrderRepository,
+    private readonly storeRepo: IStoreRepository,
+    private readonly productRepo: IProductRepository,
+  ) {}
+
+  async execute(input: GetProductionCapacityInput): Promise<DailyCapacity[]> {
+    const { storeId, from, to } = input;
+
+    const dates = dateRange(from, to);
+    if (dates.length === 0 || dates.length > MAX_RANGE_DAYS) {
+      throw new AppError(
+        `Date range must cover between 1 and ${MAX_RANGE_DAYS} days.`,
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    // ── 1. Orders + limits ─────────────────────────────────────────────────
+    const [orders, storeDailyCapacity, products] = await Promise.all([
+      this.orderRepo.findAllByStoreWithDetails(storeId, {
+        deliveryDateFrom: new Date(`${from}T00:00:00.000Z`),
+        deliveryDateTo: new Date(`${to}T23:59:59.999Z`),
+        status: [OrderStatus.APPROVED, OrderStatus.PENDING],
+      }),
+      this.storeRepo.findDailyCapacity(storeId),
+      this.productRepo.findAllByStore(storeId),
+    ]);
+
+    // ── 2+3. Usage per date → capacity per date ────────────────────────────
+    const usageByDate = aggregateProductionUsage(orders);
+    const limits = { storeDailyCapacity, products };
+
+    return dates.map((date) =>
+      computeDailyCapacity(date, usageByDate.get(date), limits),
+    );
+  }
+}
@@ -0,0 +1,90 @@
+import { RateLimitError } from "@/shared/errors/RateLimitError";
+import type { IRateLimitStore } from "@/application/ports/IRateLimitStore";
+
+export interface LoginAttempt {
+  /** Normalized email. */
+  email: string;
+  ipAddress: string | null;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+/** Attempts per IP, successful or not, in IP_WINDOW_MS. */
+const IP_LIMIT = 30;
+const IP_WINDOW_MS = 15 * MINUTE_MS;
+
+/** Failures of one email kept in count for this long. */
+const FAILURE_WINDOW_MS = 24 * 60 * MINUTE_MS;
+/** Failures allowed before the first lockout. */
+const FREE_FAILURES = 5;
+/** First lockout; each further failure doubles it, up to MAX_LOCKOUT_MS. */
+const BASE_LOCKOUT_MS = MINUTE_MS;
+const MAX_LOCKOUT_MS = 60 * MINUTE_MS;
+
+const MESSAGE = "Muitas tentativas de login. Tente novamente mais tarde.";
+
+/**
+ * LoginThrottle — brute-force protection of a login form.
+ *
+ * Rules:
+ *   1. An IP gets IP_LIMIT attempts per window, across all emails.
+ *   2. An email gets FREE_FAILURES wrong passwords; every further failure
+ *      locks it out for BASE_LOCKOUT_MS, doubled each time, capped at
+ *      MAX_LOCKOUT_MS.  While locked, even the right password is refused —
+ *      the cap bounds how long an attacker can keep the owner out.
+ *   3. A successful login clears the email's failures.
+ *
+ * `scope` separates the counters of each login form (store, super admin).
+ */
+export class LoginThrottle {
+  constructor(
+    private readonly store: IRateLimitStore,
+    private readonly scope: string,
+  ) {}
+
+  /** Throws RateLimitError when the IP or the email may not try now. */
+  async check(attempt: LoginAttempt): Promise<void> {
+    const now = new Date();
+
+    if (attempt.ipAddress) {
+      const ip = await this.store.hit(
+        `${this.scope}:ip:${attempt.ipAddress}`,
+        IP_WINDOW_MS,
+        now,
+      );
+      if (ip.count > IP_LIMIT) {
+        throw new RateLimitError(MESSAGE, secondsUntil(ip.resetAt, now));
+      }
+    }
+
+    const email = await this.store.get(this.emailKey(attempt.email), now);
+    if (email?.blockedUntil && email.blockedUntil > now) {
+      throw new RateLimitError(MESSAGE, secondsUntil(email.blockedUntil, now));
+    }
+  }
+
+  async recordFailure(email: string): Promise<void> {
+    const now = new Date();
+    const key = this.emailKey(email);
+    const { count } = await this.store.hit(key, FAILURE_WINDOW_MS, now);
+    if (count <= FREE_FAILURES) return;
+
+    const lockoutMs = Math.min(
+      BASE_LOCKOUT_MS * 2 ** (count - FREE_FAILURES - 1),
+      MAX_LOCKOUT_MS,
+    );
+    await this.store.block(key, new Date(now.getTime() + lockoutMs));
+  }
+
+  async recordSuccess(email: string): Promise<void> {
+    await this.store.reset(this.emailKey(email));
+  }
+
+  private emailKey(email: string): string {
+    return `${this.scope}:email:${email}`;
+  }
+}
+
+function secondsUntil(at: Date, now: Date): number {
+  return (at.getTime() - now.getTime()) / 1000;
+}
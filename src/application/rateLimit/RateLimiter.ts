@@ -0,0 +1,57 @@
+import { RateLimitError } from "@/shared/errors/RateLimitError";
+import type { IRateLimitStore } from "@/application/ports/IRateLimitStore";
+
+export interface RateLimitRule {
+  /** Key prefix — one counter per rule and subject. */
+  name: string;
+  /** Hits allowed per window. */
+  limit: number;
+  windowMs: number;
+  /** Shown with the 429. */
+  message: string;
+}
+
+/**
+ * RateLimiter — fixed-window limits on public endpoints.
+ *
+ * consume() counts every call, allowed or not, so a client hammering past
+ * the limit stays limited until the window ends.  check() and record()
+ * split it for limits on outcomes: refuse up front, count only what
+ * succeeded.
+ */
+export class RateLimiter {
+  constructor(private readonly store: IRateLimitStore) {}
+
+  /** Counts a hit of `subject` (IP, WhatsApp…); throws RateLimitError over the limit. */
+  async consume(rule: RateLimitRule, subject: string): Promise<void> {
+    const now = new Date();
+    const counter = await this.store.hit(
+      `${rule.name}:${subject}`,
+      rule.windowMs,
+      now,
+    );
+    if (counter.count > rule.limit) {
+      throw new RateLimitError(
+        rule.message,
+        (counter.resetAt.getTime() - now.getTime()) / 1000,
+      );
+    }
+  }
+
+  /** Throws RateLimitError when `subject` already used up the window; counts nothing. */
+  async check(rule: RateLimitRule, subject: string): Promise<void> {
+    const now = new Date();
+    const counter = await this.store.get(`${rule.name}:${subject}`, now);
+    if (counter && counter.count >= rule.limit) {
+      throw new RateLimitError(
+        rule.message,
+        (counter.resetAt.getTime() - now.getTime()) / 1000,
+      );
+    }
+  }
+
+  /** Counts a hit of `subject` without enforcing the limit — see check(). */
+  async record(rule: RateLimitRule, subject: string): Promise<void> {
+    await this.store.hit(`${rule.name}:${subject}`, rule.windowMs, new Date());
+  }
+}
@@ -0,0 +1,48 @@
+import { AppError } from "@/shared/errors/AppError";
+import { HttpStatus } from "@/shared/http/statuses";
+import type { IStaffRepository } from "@/domain/auth/IStaffRepository";
+import type { StaffMember } from "@/domain/auth/Staff";
+import type { IPasswordHasher } from "@/application/ports/IPasswordHasher";
+import type { GetStaffInviteUseCase } from "./GetStaffInviteUseCase";
+
+export interface AcceptStaffInviteInput {
+  token: string;
+  password: string;
+}
+
+const MIN_PASSWORD_LENGTH = 8;
+
+/**
+ * AcceptStaffInviteUseCase
+ *
+ * Turns a pending invite into a store user with the password chosen by the
+ * invitee.  The caller signs them in with the returned member.
+ */
+export class AcceptStaffInviteUseCase {
+  constructor(
+    private readonly repo: IStaffRepository,
+    private readonly getInvite: GetStaffInviteUseCase,
+    private readonly hasher: IPasswordHasher,
+  ) {}
+
+  async execute(input: AcceptStaffInviteInput): Promise<StaffMember> {
+    if (!input.password || input.password.length < MIN_PASSWORD_LENGTH) {
+      throw new AppError(
+        `A senha deve ter pelo menos ${MIN_PASSWORD_LENGTH} caracteres.`,
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    const invite = await this.getInvite.execute(input.token);
+    const passwordHash = await this.hasher.hash(input.password);
+
+    const member = await this.repo.acceptInvite(invite.id, passwordHash);
+    if (!member) {
+      throw new AppError(
+        "Este convite já foi aceito. Entre com seu e-mail e senha.",
+        HttpStatus.CONFLICT,
+      );
+    }
+    return member;
+  }
+}
@@ -0,0 +1,56 @@
+import { AppError } from "@/shared/errors/AppError";
+import { HttpStatus } from "@/shared/http/statuses";
+import type { IStaffRepository } from "@/domain/auth/IStaffRepository";
+import type { IAuthSessionRepository } from "@/domain/auth/IAuthSessionRepository";
+import { INVITABLE_ROLES, StaffRole } from "@/domain/auth/StaffRole";
+
+export interface ChangeStaffRoleInput {
+  storeId: string;
+  /** The user making the change. */
+  actorId: string;
+  memberId: string;
+  role: StaffRole;
+}
+
+/**
+ * ChangeStaffRoleUseCase
+ *
+ * Gives a store user another role.  The owner's role is fixed and OWNER is
+ * never granted, so the store keeps exactly one owner.  The user's
+ * sessions are revoked, so the new role applies at once: they sign in
+ * again instead of keeping the old one until their access token renews.
+ */
+export class ChangeStaffRoleUseCase {
+  constructor(
+    private readonly repo: IStaffRepository,
+    private readonly sessionRepo: IAuthSessionRepository,
+  ) {}
+
+  async execute(input: ChangeStaffRoleInput): Promise<void> {
+    if (!INVITABLE_ROLES.includes(input.role)) {
+      throw new AppError("Função inválida.", HttpStatus.BAD_REQUEST);
+    }
+    if (input.memberId === input.actorId) {
+      throw new AppError(
+        "Você não pode alterar a sua própria função.",
+        HttpStatus.UNPROCESSABLE_ENTITY,
+      );
+    }
+
+    const member = await this.repo.findMember(input.memberId, input.storeId);
+    if (!member) {
+      throw new AppError("Usuário não encontrado.", HttpStatus.NOT_FOUND);
+    }
+    if (member.role === StaffRole.OWNER) {
+      throw new AppError(
+        "A função do dono da loja não pode ser alterada.",
+        HttpStatus.UNPROCESSABLE_ENTITY,
+      );
+    }
+
+    if (member.role === input.role) return;
+
+    await this.repo.updateRole(member.id, input.storeId, input.role);
+    await this.sessionRepo.revokeAll(member.id);
+  }
+}
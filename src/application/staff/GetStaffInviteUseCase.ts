@@ -0,0 +1,28 @@
+import { AppError } from "@/shared/errors/AppError";
+import { HttpStatus } from "@/shared/http/statuses";
+import type { IStaffRepository } from "@/domain/auth/IStaffRepository";
+import type { StaffInviteDetails } from "@/domain/auth/Staff";
+import { hashOpaqueToken } from "@/application/auth/opaqueToken";
+
+/**
+ * GetStaffInviteUseCase
+ *
+ * Resolves an invite link to its pending invite.  Accepted, expired and
+ * unknown links all read as "not found" — the page says the same for each.
+ */
+export class GetStaffInviteUseCase {
+  constructor(private readonly repo: IStaffRepository) {}
+
+  async execute(token: string): Promise<StaffInviteDetails> {
+    const invite = token
+      ? await this.repo.findInviteByTokenHash(hashOpaqueToken(token))
+      : null;
+    if (!invite || invite.acceptedAt || invite.expiresAt <= new Date()) {
+      throw new AppError(
+        "Convite inválido ou expirado. Peça um novo convite à loja.",
+        HttpStatus.NOT_FOUND,
+      );
+    }
+    return invite;
+  }
+}
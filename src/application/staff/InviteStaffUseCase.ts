@@ -0,0 +1,63 @@
+import { AppError } from "@/shared/errors/AppError";
+import { HttpStatus } from "@/shared/http/statuses";
+import type { IStaffRepository } from "@/domain/auth/IStaffRepository";
+import { STAFF_INVITE_TTL_DAYS, type StaffInvite } from "@/domain/auth/Staff";
+import { INVITABLE_ROLES, type StaffRole } from "@/domain/auth/StaffRole";
+import { generateOpaqueToken } from "@/application/auth/opaqueToken";
+
+export interface InviteStaffInput {
+  storeId: string;
+  invitedById: string;
+  email: string;
+  role: StaffRole;
+}
+
+export interface InviteStaffOutput {
+  invite: StaffInvite;
+  /** Raw token for the invite link — shown once, never stored. */
+  token: string;
+}
+
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * InviteStaffUseCase
+ *
+ * Creates an invite for a new store user.  The owner shares the returned
+ * link; whoever opens it sets a password and joins with the invited role.
+ *
+ * Rules:
+ *   1. A valid email that no user of any store signs in with yet.
+ *   2. Any role but OWNER — a store has a single owner.
+ */
+export class InviteStaffUseCase {
+  constructor(private readonly repo: IStaffRepository) {}
+
+  async execute(input: InviteStaffInput): Promise<InviteStaffOutput> {
+    const email = input.email.trim().toLowerCase();
+    if (!EMAIL_REGEX.test(email)) {
+      throw new AppError("Informe um e-mail válido.", HttpStatus.BAD_REQUEST);
+    }
+    if (!INVITABLE_ROLES.includes(input.role)) {
+      throw new AppError("Função inválida.", HttpStatus.BAD_REQUEST);
+    }
+    if (await this.repo.isEmailTaken(email)) {
+      throw new AppError(
+        "Este e-mail já tem acesso a uma loja.",
+        HttpStatus.CONFLICT,
+      );
+    }
+
+    const { token, tokenHash } = generateOpaqueToken();
+    const invite = await this.repo.createInvite({
+      storeId: input.storeId,
+      email,
+      role: input.role,
+      tokenHash,
+      expiresAt: new Date(Date.now() + STAFF_INVITE_TTL_DAYS * DAY_MS),
+      invitedById: input.invitedById,
+    });
+    return { invite, token };
+  }
+}
@@ -0,0 +1,24 @@
+import type { IStaffRepository } from "@/domain/auth/IStaffRepository";
+import type { StaffInvite, StaffMember } from "@/domain/auth/Staff";
+
+export interface StaffOverview {
+  members: StaffMember[];
+  invites: StaffInvite[];
+}
+
+/**
+ * ListStaffUseCase
+ *
+ * The store's users and its pending invites, for the users page.
+ */
+export class ListStaffUseCase {
+  constructor(private readonly repo: IStaffRepository) {}
+
+  async execute(storeId: string): Promise<StaffOverview> {
+    const [members, invites] = await Promise.all([
+      this.repo.listMembers(storeId),
+      this.repo.listPendingInvites(storeId, new Date()),
+    ]);
+    return { members, invites };
+  }
+}
@@ -0,0 +1,42 @@
+import { AppError } from "@/shared/errors/AppError";
+import { HttpStatus } from "@/shared/http/statuses";
+import type { IStaffRepository } from "@/domain/auth/IStaffRepository";
+import { StaffRole } from "@/domain/auth/StaffRole";
+
+/**
+ * RemoveStaffMemberUseCase
+ *
+ * Removes a store user.  Their history (status changes, payments, stock
+ * movements) stays, without the author; their sessions go with them, so
+ * they are signed out at once.  Neither the owner nor the user making the
+ * change can be removed.
+ */
+export class RemoveStaffMemberUseCase {
+  constructor(private readonly repo: IStaffRepository) {}
+
+  async execute(
+    memberId: string,
+    storeId: string,
+    actorId: string,
+  ): Promise<void> {
+    if (memberId === actorId) {
+      throw new AppError(
+        "Você não pode remover o seu próprio acesso.",
+        HttpStatus.UNPROCESSABLE_ENTITY,
+      );
+    }
+
+    const member = await this.repo.findMember(memberId, storeId);
+    if (!member) {
+      throw new AppError("Usuário não encontrado.", HttpStatus.NOT_FOUND);
+    }
+    if (member.role === StaffRole.OWNER) {
+      throw new AppError(
+        "O dono da loja não pode ser removido.",
+        HttpStatus.UNPROCESSABLE_ENTITY,
+      );
+    }
+
+    await this.repo.deleteMember(member.id, storeId);
+  }
+}
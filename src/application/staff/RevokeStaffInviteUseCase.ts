@@ -0,0 +1,19 @@
+import { AppError } from "@/shared/errors/AppError";
+import { HttpStatus } from "@/shared/http/statuses";
+import type { IStaffRepository } from "@/domain/auth/IStaffRepository";
+
+/**
+ * RevokeStaffInviteUseCase
+ *
+ * Cancels a pending invite — its link stops working at once.
+ */
+export class RevokeStaffInviteUseCase {
+  constructor(private readonly repo: IStaffRepository) {}
+
+  async execute(inviteId: string, storeId: string): Promise<void> {
+    const deleted = await this.repo.deleteInvite(inviteId, storeId);
+    if (!deleted) {
+      throw new AppError("Convite não encontrado.", HttpStatus.NOT_FOUND);
+    }
+  }
+}
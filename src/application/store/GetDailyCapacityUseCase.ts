@@ -0,0 +1,15 @@
+import type { IStoreRepository } from "@/domain/store/IStoreRepository";
+
+/**
+ * GetDailyCapacityUseCase
+ *
+ * Returns how many item units the store produces per delivery date.
+ * null means unlimited (also the fallback when the store row is not found).
+ */
+export class GetDailyCapacityUseCase {
+  constructor(private readonly storeRepo: IStoreRepository) {}
+
+  async execute(storeId: string): Promise<number | null> {
+    return this.storeRepo.findDailyCapacity(storeId);
+  }
+}
@@ -0,0 +1,15 @@
+import type { IStoreRepository } from "@/domain/store/IStoreRepository";
+
+/**
+ * GetDepositPercentageUseCase
+ *
+ * Returns the share of the order total (1–100 %) the store takes upfront.
+ * null means no deposit: the full amount is charged at once.
+ */
+export class GetDepositPercentageUseCase {
+  constructor(private readonly storeRepo: IStoreRepository) {}
+
+  async execute(storeId: string): Promise<number | null> {
+    return this.storeRepo.findDepositPercentage(storeId);
+  }
+}
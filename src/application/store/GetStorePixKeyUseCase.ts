@@ -0,0 +1,13 @@
+import type { IStoreRepository } from "@/domain/store/IStoreRepository";
+
+/**
+ * GetStorePixKeyUseCase — returns the store's PIX key shown in messages.
+ * Returns null when the key has not been set up yet.
+ */
+export class GetStorePixKeyUseCase {
+  constructor(private readonly storeRepo: IStoreRepository) {}
+
+  async execute(storeId: string): Promise<string | null> {
+    return this.storeRepo.findPixKey(storeId);
+  }
+}
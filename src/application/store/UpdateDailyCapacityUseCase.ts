@@ -0,0 +1,30 @@
+import type { IStoreRepository } from "@/domain/store/IStoreRepository";
+import { isValidDailyCapacity } from "@/domain/production/ProductionCapacity";
+import { AppError } from "@/shared/errors/AppError";
+import { HttpStatus } from "@/shared/http/statuses";
+
+/**
+ * UpdateDailyCapacityUseCase
+ *
+ * Sets the maximum number of item units the store produces per delivery date.
+ *
+ * Validation:
+ *   - capacity must be a positive integer, or null for unlimited
+ */
+export class UpdateDailyCapacityUseCase {
+  constructor(private readonly storeRepo: IStoreRepository) {}
+
+  async execute(storeId: string, capacity: number | null): Promise<void> {
+    if (!storeId?.trim()) {
+      throw new AppError("storeId is required.", HttpStatus.BAD_REQUEST);
+    }
+    if (!isValidDailyCapacity(capacity)) {
+      throw new AppError(
+        "A capacidade diária deve ser um número inteiro maior que zero.",
+        HttpStatus.UNPROCESSABLE_ENTITY,
+      );
+    }
+
+    await this.storeRepo.updateDailyCapacity(storeId, capacity);
+  }
+}
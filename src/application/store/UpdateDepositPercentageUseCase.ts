@@ -0,0 +1,30 @@
+import type { IStoreRepository } from "@/domain/store/IStoreRepository";
+import { isValidDepositPercentage } from "@/domain/payment/Payment";
+import { AppError } from "@/shared/errors/AppError";
+import { HttpStatus } from "@/shared/http/statuses";
+
+/**
+ * UpdateDepositPercentageUseCase
+ *
+ * Sets the share of the order total customers pay upfront as a deposit.
+ *
+ * Validation:
+ *   - percentage must be an integer from 1 to 100, or null for no deposit
+ */
+export class UpdateDepositPercentageUseCase {
+  constructor(private readonly storeRepo: IStoreRepository) {}
+
+  async execute(storeId: string, percentage: number | null): Promise<void> {
+    if (!storeId?.trim()) {
+      throw new AppError("storeId is required.", HttpStatus.BAD_REQUEST);
+    }
+    if (!isValidDepositPercentage(percentage)) {
+      throw new AppError(
+        "O sinal deve ser um número inteiro entre 1 e 100%.",
+        HttpStatus.UNPROCESSABLE_ENTITY,
+      );
+    }
+
+    await this.storeRepo.updateDepositPercentage(storeId, percentage);
+  }
+}
@@ -0,0 +1,30 @@
+import type { IStoreRepository } from "@/domain/store/IStoreRepository";
+import { AppError } from "@/shared/errors/AppError";
+import { HttpStatus } from "@/shared/http/statuses";
+
+const PIX_KEY_MAX_LENGTH = 100;
+
+/**
+ * UpdateStorePixKeyUseCase — persists the PIX key used by the {pix}
+ * message placeholder.
+ *
+ * The key is free text (CPF/CNPJ, e-mail, phone or random key) — it is only
+ * displayed to customers, never used to initiate a payment.  An empty value
+ * removes the key.
+ */
+export class UpdateStorePixKeyUseCase {
+  constructor(private readonly storeRepo: IStoreRepository) {}
+
+  async execute(storeId: string, rawInput: string | null): Promise<void> {
+    const pixKey = rawInput?.trim() || null;
+
+    if (pixKey && pixKey.length > PIX_KEY_MAX_LENGTH) {
+      throw new AppError(
+        `A chave PIX deve ter no máximo ${PIX_KEY_MAX_LENGTH} caracteres.`,
+        HttpStatus.UNPROCESSABLE_ENTITY,
+      );
+    }
+
+    await this.storeRepo.updatePixKey(storeId, pixKey);
+  }
+}
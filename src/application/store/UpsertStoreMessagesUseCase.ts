@@ -1,6 +1,15 @@
 import type { IStoreMessageRepository } from "@/domain/store/IStoreMessageRepository";
-import type { StoreMessageConfig } from "@/domain/store/StoreMessageConfig";
-import { MESSAGE_MAX_LENGTH } from "@/domain/store/StoreMessageConfig";
+import type {
+  MessageTemplateKey,
+  StoreMessageConfig,
+} from "@/domain/store/StoreMessageConfig";
+import {
+  MESSAGE_MAX_LENGTH,
+  MESSAGE_TEMPLATES,
+  findUnknownPlaceholders,
+} from "@/domain/store/StoreMessageConfig";
+import { AppError } from "@/shared/errors/AppError";
+import { HttpStatus } from "@/shared/http/statuses";
 
 function sanitize(value: string | null | undefined): string | null {
   if (value === null || value === undefined) return null;
@@ -9,19 +18,34 @@ function sanitize(value: string | null | undefined): string | null {
   return stripped.slice(0, MESSAGE_MAX_LENGTH);
 }
 
+/** Template text per event. Missing / empty keys reset to the default. */
+export type UpsertStoreMessagesInput = Partial<
+  Record<MessageTemplateKey, string | null>
+>;
+
 export class UpsertStoreMessagesUseCase {
   constructor(private readonly repo: IStoreMessageRepository) {}
 
   async execute(
     storeId: string,
-    approvalMessage: string | null | undefined,
-    rejectionMessage: string | null | undefined,
+    input: UpsertStoreMessagesInput,
   ): Promise<StoreMessageConfig> {
-    const config: StoreMessageConfig = {
-      storeId,
-      approvalMessage: sanitize(approvalMessage),
-      rejectionMessage: sanitize(rejectionMessage),
-    };
+    const config = { storeId } as StoreMessageConfig;
+
+    for (const { key, label } of MESSAGE_TEMPLATES) {
+      const template = sanitize(input[key]);
+      if (template) {
+        const unknown = findUnknownPlaceholders(template);
+        if (unknown.length > 0) {
+          throw new AppError(
+            `Marcadores inválidos em "${label}": ${unknown.join(", ")}.`,
+            HttpStatus.UNPROCESSABLE_ENTITY,
+          );
+        }
+      }
+      config[`${key}Message`] = template;
+    }
+
     return this.repo.upsert(config);
   }
 }
@@ -2,12 +2,15 @@ import { AppError } from "@/shared/errors/AppError";
 import { HttpStatus } from "@/shared/http/statuses";
 import type { ISuperAdminRepository } from "@/domain/superAdmin/ISuperAdminRepository";
 import type { IPasswordHasher } from "@/application/ports/IPasswordHasher";
+import type { LoginThrottle } from "@/application/rateLimit/LoginThrottle";
 
 // ─── DTOs ─────────────────────────────────────────────────────────────────────
 
 export interface LoginSuperAdminInput {
   email: string;
   password: string;
+  /** Client IP, for the per-IP attempt limit; null when unknown. */
+  ipAddress?: string | null;
 }
 
 export interface LoginSuperAdminOutput {
@@ -31,15 +34,21 @@ const DUMMY_HASH =
  * - User enumeration prevention via constant-time dummy hash.
  * - Inactive accounts are rejected after verification (avoids timing leak).
  * - Single generic error for all failure modes.
+ * - The same per-IP and per-email throttling, with its own counters.
  */
 export class LoginSuperAdminUseCase {
   constructor(
     private readonly superAdminRepo: ISuperAdminRepository,
     private readonly hasher: IPasswordHasher,
+    private readonly throttle: LoginThrottle,
   ) {}
 
   async execute(input: LoginSuperAdminInput): Promise<LoginSuperAdminOutput> {
     const normalizedEmail = input.email.trim().toLowerCase();
+    await this.throttle.check({
+      email: normalizedEmail,
+      ipAddress: input.ipAddress ?? null,
+    });
     const superAdmin = await this.superAdminRepo.findByEmail(normalizedEmail);
 
     const hashToVerify = superAdmin?.passwordHash ?? DUMMY_HASH;
@@ -49,9 +58,12 @@ export class LoginSuperAdminUseCase {
     );
 
     if (!passwordMatches || !superAdmin) {
+      await this.throttle.recordFailure(normalizedEmail);
       throw new AppError(INVALID_CREDENTIALS_MESSAGE, HttpStatus.UNAUTHORIZED);
     }
 
+    await this.throttle.recordSuccess(normalizedEmail);
+
     if (!superAdmin.isActive) {
       throw new AppError(INVALID_CREDENTIALS_MESSAGE, HttpStatus.UNAUTHORIZED);
     }
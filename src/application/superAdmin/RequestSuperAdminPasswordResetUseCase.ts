@@ -0,0 +1,59 @@
+import type { ISuperAdminRepository } from "@/domain/superAdmin/ISuperAdminRepository";
+import type { IAccountTokenRepository } from "@/domain/auth/IAccountTokenRepository";
+import {
+  ACCOUNT_TOKEN_TTL_MINUTES,
+  AccountTokenPurpose,
+} from "@/domain/auth/AccountToken";
+import type { IEmailSender } from "@/application/ports/IEmailSender";
+import { issueAccountToken } from "@/application/auth/accountTokens";
+
+/**
+ * RequestSuperAdminPasswordResetUseCase — "esqueci minha senha" on
+ * /admin/login.
+ *
+ * Mirrors RequestPasswordResetUseCase with its own token purpose, so a
+ * store reset link never opens a platform account.  Unknown and inactive
+ * accounts get no email and the same answer; like it, it runs after the
+ * response is sent.
+ */
+export class RequestSuperAdminPasswordResetUseCase {
+  constructor(
+    private readonly superAdminRepo: ISuperAdminRepository,
+    private readonly tokenRepo: IAccountTokenRepository,
+    private readonly emailSender: IEmailSender,
+    private readonly appUrl: string,
+  ) {}
+
+  async execute(email: string): Promise<void> {
+    const superAdmin = await this.superAdminRepo.findByEmail(
+      email.trim().toLowerCase(),
+    );
+    if (!superAdmin?.isActive) return;
+
+    const purpose = AccountTokenPurpose.SUPER_ADMIN_PASSWORD_RESET;
+    const token = await issueAccountToken(
+      this.tokenRepo,
+      purpose,
+      superAdmin.id,
+    );
+    const link = `${this.appUrl}/admin/login/redefinir-senha?token=${token}`;
+
+    const result = await this.emailSender.send({
+      to: superAdmin.email,
+      subject: "Redefinir senha do Super Admin — Encomenda Zap",
+      text: [
+        "Recebemos um pedido para redefinir a senha de administração da plataforma.",
+        "",
+        `Abra o link abaixo para escolher uma nova senha (válido por ${ACCOUNT_TOKEN_TTL_MINUTES[purpose]} minutos):`,
+        link,
+        "",
+        "Se não foi você, ignore este e-mail e avise a equipe.",
+      ].join("\n"),
+    });
+    if (!result.success) {
+      console.error(
+        `[RequestSuperAdminPasswordResetUseCase] email to super admin ${superAdmin.id} failed: ${result.error}`,
+      );
+    }
+  }
+}
@@ -0,0 +1,56 @@
+import { AppError } from "@/shared/errors/AppError";
+import { HttpStatus } from "@/shared/http/statuses";
+import type { ISuperAdminRepository } from "@/domain/superAdmin/ISuperAdminRepository";
+import type { IAccountTokenRepository } from "@/domain/auth/IAccountTokenRepository";
+import { AccountTokenPurpose } from "@/domain/auth/AccountToken";
+import type { IPasswordHasher } from "@/application/ports/IPasswordHasher";
+import { redeemAccountToken } from "@/application/auth/accountTokens";
+
+export interface ResetSuperAdminPasswordInput {
+  token: string;
+  password: string;
+}
+
+// Same minimum as scripts/seed-super-admin.ts
+const MIN_PASSWORD_LENGTH = 12;
+
+/**
+ * ResetSuperAdminPasswordUseCase
+ *
+ * Sets a new super admin password from a reset link.  Super admin sessions
+ * are stateless: tokens already issued stay valid until they expire.
+ */
+export class ResetSuperAdminPasswordUseCase {
+  constructor(
+    private readonly tokenRepo: IAccountTokenRepository,
+    private readonly superAdminRepo: ISuperAdminRepository,
+    private readonly hasher: IPasswordHasher,
+  ) {}
+
+  async execute(input: ResetSuperAdminPasswordInput): Promise<void> {
+    if (!input.password || input.password.length < MIN_PASSWORD_LENGTH) {
+      throw new AppError(
+        `A senha deve ter pelo menos ${MIN_PASSWORD_LENGTH} caracteres.`,
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    const token = await redeemAccountToken(
+      this.tokenRepo,
+      input.token,
+      AccountTokenPurpose.SUPER_ADMIN_PASSWORD_RESET,
+    );
+    const superAdmin = await this.superAdminRepo.findById(token.subjectId);
+    if (!superAdmin?.isActive) {
+      throw new AppError(
+        "Link inválido ou expirado. Solicite um novo.",
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    await this.superAdminRepo.updatePasswordHash(
+      superAdmin.id,
+      await this.hasher.hash(input.password),
+    );
+  }
+}
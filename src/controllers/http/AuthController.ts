@@ -1,20 +1,32 @@
-import { NextRequest, NextResponse } from "next/server";
+import { NextRequest, NextResponse, after } from "next/server";
 import { AppError } from "@/shared/errors/AppError";
 import { HttpStatus } from "@/shared/http/statuses";
 import { ok, created, withErrorHandler } from "@/shared/http";
 import { signToken } from "@/infra/security/tokenService";
 import {
-  setAuthCookie,
+  setSessionCookies,
   clearAuthCookie,
+  REFRESH_COOKIE_NAME,
 } from "@/infra/http/cookies/authCookie";
+import { sessionClientFrom } from "@/infra/http/auth/sessionClient";
 import type { LoginUseCase } from "@/application/auth/LoginUseCase";
 import type { RegisterStoreUseCase } from "@/application/store/RegisterStoreUseCase";
+import type { AcceptStaffInviteUseCase } from "@/application/staff/AcceptStaffInviteUseCase";
+import type {
+  StartSessionInput,
+  StartSessionUseCase,
+} from "@/application/auth/StartSessionUseCase";
+import type { EndSessionUseCase } from "@/application/auth/EndSessionUseCase";
+import type { SendEmailVerificationUseCase } from "@/application/auth/SendEmailVerificationUseCase";
+import type { RequestPasswordResetUseCase } from "@/application/auth/RequestPasswordResetUseCase";
+import type { ResetPasswordUseCase } from "@/application/auth/ResetPasswordUseCase";
 
 // ─── Input size guards ────────────────────────────────────────────────────────
 
 const MAX = {
   email: 254, // RFC 5321
   password: 128,
+  token: 128,
   storeName: 100,
   whatsapp: 20,
 } as const;
@@ -27,7 +39,8 @@ const MAX = {
  * Responsibilities (and ONLY these):
  * 1. Parse and size-guard the raw request body
  * 2. Call the appropriate application use case
- * 3. Sign the JWT and attach it as an HttpOnly cookie (login)
+ * 3. Open the session, sign the JWT and attach both tokens as HttpOnly
+ *    cookies (login); revoke the session (logout)
  * 4. Map the use case result to a NextResponse
  *
  * NestJS migration:
@@ -40,6 +53,12 @@ export class AuthController {
   constructor(
     private readonly loginUseCase: LoginUseCase,
     private readonly registerStoreUseCase: RegisterStoreUseCase,
+    private readonly acceptStaffInviteUseCase: AcceptStaffInviteUseCase,
+    private readonly startSessionUseCase: StartSessionUseCase,
+    private readonly endSessionUseCase: EndSessionUseCase,
+    private readonly sendEmailVerificationUseCase: SendEmailVerificationUseCase,
+    private readonly requestPasswordResetUseCase: RequestPasswordResetUseCase,
+    private readonly resetPasswordUseCase: ResetPasswordUseCase,
   ) {}
 
   // ─── POST /api/auth/login ───────────────────────────────────────────────────
@@ -53,15 +72,18 @@ export class AuthController {
       this.guardLength("email", email, MAX.email);
       this.guardLength("password", password, MAX.password);
 
-      const { adminId, storeId } = await this.loginUseCase.execute({
+      const { adminId, storeId, role } = await this.loginUseCase.execute({
         email: String(email ?? ""),
         password: String(password ?? ""),
+        ipAddress: sessionClientFrom((req as NextRequest).headers).ipAddress,
       });
 
-      const token = await signToken({ adminId, storeId });
-
-      const response = ok({ adminId, storeId });
-      setAuthCookie(response, token);
+      const response = ok({ adminId, storeId, role });
+      await this.startSession(req as NextRequest, response, {
+        adminId,
+        storeId,
+        role,
+      });
 
       return response;
     },
@@ -87,20 +109,123 @@ export class AuthController {
         adminPassword: String(adminPassword ?? ""),
       });
 
+      // A failed send is logged; the owner can resend from "Minha conta"
+      await this.sendEmailVerificationUseCase.execute(result.adminId);
+
       return created({ storeId: result.storeId, adminId: result.adminId });
     },
   );
 
+  // ─── POST /api/auth/password-reset ──────────────────────────────────────────
+
+  /**
+   * Emails a reset link — same answer whether or not the account exists.
+   * The lookup and the email run after the response, so its timing does
+   * not tell either.
+   */
+  readonly requestPasswordReset = withErrorHandler(
+    async (req: unknown): Promise<NextResponse> => {
+      const body = await this.parseJsonBody(req as NextRequest);
+
+      const { email } = body;
+
+      this.guardLength("email", email, MAX.email);
+
+      after(() =>
+        this.requestPasswordResetUseCase
+          .execute(String(email ?? ""))
+          .catch((err: unknown) => {
+            console.error(
+              "[AuthController] password reset request failed:",
+              err,
+            );
+          }),
+      );
+
+      return ok({ message: "If the account exists, a reset link was sent." });
+    },
+  );
+
+  // ─── POST /api/auth/password-reset/confirm ──────────────────────────────────
+
+  readonly resetPassword = withErrorHandler(
+    async (req: unknown): Promise<NextResponse> => {
+      const body = await this.parseJsonBody(req as NextRequest);
+
+      const { token, password } = body;
+
+      this.guardLength("token", token, MAX.token);
+      this.guardLength("password", password, MAX.password);
+
+      await this.resetPasswordUseCase.execute({
+        token: String(token ?? ""),
+        password: String(password ?? ""),
+      });
+
+      return ok({ message: "Password updated." });
+    },
+  );
+
+  // ─── POST /api/auth/invites/:token ──────────────────────────────────────────
+
+  /** Accepts a staff invite with the chosen password and signs the user in. */
+  readonly acceptInvite = withErrorHandler(
+    async (req: unknown, ...args: unknown[]): Promise<NextResponse> => {
+      const ctx = (args[0] ?? {}) as { params: Promise<{ token: string }> };
+      const { token } = await ctx.params;
+      const body = await this.parseJsonBody(req as NextRequest);
+
+      const { password } = body;
+
+      this.guardLength("password", password, MAX.password);
+
+      const member = await this.acceptStaffInviteUseCase.execute({
+        token,
+        password: String(password ?? ""),
+      });
+
+      const session = {
+        adminId: member.id,
+        storeId: member.storeId,
+        role: member.role,
+      };
+      const response = created(session);
+      await this.startSession(req as NextRequest, response, session);
+
+      return response;
+    },
+  );
+
   // ─── POST /api/auth/logout ──────────────────────────────────────────────────
 
-  readonly logout = withErrorHandler(async (): Promise<NextResponse> => {
-    const response = ok({ message: "Signed out." });
-    clearAuthCookie(response);
-    return response;
-  });
+  readonly logout = withErrorHandler(
+    async (req: unknown): Promise<NextResponse> => {
+      const refreshToken = (req as NextRequest).cookies.get(
+        REFRESH_COOKIE_NAME,
+      )?.value;
+      await this.endSessionUseCase.execute(refreshToken ?? "");
+
+      const response = ok({ message: "Signed out." });
+      clearAuthCookie(response.cookies);
+      return response;
+    },
+  );
 
   // ─── Helpers ─────────────────────────────────────────────────────────────────
 
+  /** Opens a session for the requesting device and sets its cookies. */
+  private async startSession(
+    req: NextRequest,
+    response: NextResponse,
+    input: StartSessionInput,
+  ): Promise<void> {
+    const issued = await this.startSessionUseCase.execute(
+      input,
+      sessionClientFrom(req.headers),
+    );
+    setSessionCookies(response.cookies, await signToken(issued.claims), issued);
+  }
+
   private async parseJsonBody(
     req: NextRequest,
   ): Promise<Record<string, unknown>> {
@@ -14,6 +14,7 @@ import type { RemoveProductFromCategoryUseCase } from "@/application/category/Re
 import type { ReorderCategoryProductsUseCase } from "@/application/category/ReorderCategoryProductsUseCase";
 import type { GetCategoryProductsUseCase } from "@/application/category/GetCategoryProductsUseCase";
 import type { UpdateCategoryOrderUseCase } from "@/application/category/UpdateCategoryOrderUseCase";
+import { parseAvailability } from "./parseAvailability";
 
 export class CategoryController {
   constructor(
@@ -75,7 +76,7 @@ export class CategoryController {
     ): Promise<NextResponse> => {
       const id = await this.extractId(args);
       const body = await this.parseJsonBody(req);
-      const { name, isActive } = body;
+      const { name, isActive, availability } = body;
       try {
         const category = await this.updateCategoryUseCase.execute(
           id,
@@ -83,6 +84,7 @@ export class CategoryController {
           {
             name: name !== undefined ? String(name) : undefined,
             isActive: isActive !== undefined ? Boolean(isActive) : undefined,
+            availability: parseAvailability(availability),
           },
         );
         return ok(category);
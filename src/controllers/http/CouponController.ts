@@ -0,0 +1,69 @@
+import { NextResponse } from "next/server";
+import { AppError } from "@/shared/errors/AppError";
+import { HttpStatus } from "@/shared/http/statuses";
+import { ok, errorResponse } from "@/shared/http";
+import { parseOptionSelections } from "@/domain/product/ProductOption";
+import type { ValidateCouponUseCase } from "@/application/coupon/ValidateCouponUseCase";
+
+/**
+ * CouponController — HTTP adapter for the public coupon preview.
+ *
+ * Public route (unauthenticated, storeId resolved from storeSlug):
+ *   POST /api/catalog/:storeSlug/validate-coupon
+ *        { code, items: [{ productId, variantId, options?, weightKg?, quantity }], whatsapp? }
+ *
+ * Coupons are managed from the dashboard through server actions.
+ */
+export class CouponController {
+  constructor(private readonly validateUseCase: ValidateCouponUseCase) {}
+
+  readonly validatePublic = async (
+    req: Request,
+    ...args: unknown[]
+  ): Promise<NextResponse> => {
+    const ctx = (args[0] ?? {}) as {
+      params: Promise<{ storeSlug: string }>;
+    };
+    const { storeSlug } = await ctx.params;
+
+    let body: Record<string, unknown>;
+    try {
+      body = await req.json();
+    } catch {
+      return errorResponse(
+        new AppError("Invalid JSON body.", HttpStatus.BAD_REQUEST),
+      );
+    }
+
+    const { code, items, whatsapp, deliveryDate } = body;
+    if (!Array.isArray(items)) {
+      return errorResponse(
+        new AppError("items must be an array.", HttpStatus.BAD_REQUEST),
+      );
+    }
+
+    try {
+      const result = await this.validateUseCase.execute({
+        storeSlug,
+        code: typeof code === "string" ? code : "",
+        items: items.map((item: unknown) => {
+          const i = item as Record<string, unknown>;
+          return {
+            productId: String(i.productId ?? ""),
+            variantId: i.variantId != null ? String(i.variantId) : null,
+            options: parseOptionSelections(i.options),
+            weightKg: i.weightKg != null ? Number(i.weightKg) : null,
+            quantity: Number(i.quantity),
+          };
+        }),
+        customerWhatsapp: typeof whatsapp === "string" ? whatsapp : null,
+        deliveryDate: typeof deliveryDate === "string" ? deliveryDate : null,
+      });
+      return ok(result);
+    } catch (err) {
+      return errorResponse(
+        err instanceof AppError ? err : new AppError("Unexpected error."),
+      );
+    }
+  };
+}
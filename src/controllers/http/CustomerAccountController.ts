@@ -0,0 +1,148 @@
+import { NextResponse } from "next/server";
+import { AppError } from "@/shared/errors/AppError";
+import { HttpStatus } from "@/shared/http/statuses";
+import { ok, created, noContent, errorResponse } from "@/shared/http";
+import {
+  withCustomerAuth,
+  type CustomerRequest,
+} from "@/infra/http/middleware/withCustomerAuth";
+import type { ListCustomerAddressesUseCase } from "@/application/customerAccount/ListCustomerAddressesUseCase";
+import type { AddCustomerAddressUseCase } from "@/application/customerAccount/AddCustomerAddressUseCase";
+import type { DeleteCustomerAddressUseCase } from "@/application/customerAccount/DeleteCustomerAddressUseCase";
+import type { ReorderUseCase } from "@/application/customerAccount/ReorderUseCase";
+
+// ─── Controller ───────────────────────────────────────────────────────────────
+
+/**
+ * CustomerAccountController — HTTP adapter for the signed-in customer's
+ * "Minha conta" in a catalog.
+ *
+ * Routes (customer session required, see withCustomerAuth):
+ *   GET    /api/catalog/:storeSlug/customer/addresses
+ *   POST   /api/catalog/:storeSlug/customer/addresses
+ *          { label?, cep, street, number, neighborhood, city }
+ *   DELETE /api/catalog/:storeSlug/customer/addresses/:addressId
+ *   POST   /api/catalog/:storeSlug/customer/orders/:orderId/reorder
+ *          → { lines, unavailable } — lines ready for the cart
+ *
+ * The account page itself is a Server Component (GetCustomerAccountUseCase).
+ */
+export class CustomerAccountController {
+  constructor(
+    private readonly listAddressesUseCase: ListCustomerAddressesUseCase,
+    private readonly addAddressUseCase: AddCustomerAddressUseCase,
+    private readonly deleteAddressUseCase: DeleteCustomerAddressUseCase,
+    private readonly reorderUseCase: ReorderUseCase,
+  ) {}
+
+  // ─── GET /api/catalog/:storeSlug/customer/addresses ─────────────────────────
+
+  readonly listAddresses = withCustomerAuth(
+    async (req: CustomerRequest): Promise<NextResponse> => {
+      try {
+        const addresses = await this.listAddressesUseCase.execute(
+          req.customer.customerId,
+        );
+        return ok({ addresses });
+      } catch (err) {
+        return this.fail(err);
+      }
+    },
+  );
+
+  // ─── POST /api/catalog/:storeSlug/customer/addresses ────────────────────────
+
+  readonly addAddress = withCustomerAuth(
+    async (req: CustomerRequest): Promise<NextResponse> => {
+      try {
+        const body = await this.parseJsonBody(req);
+        const { label, cep, street, number, neighborhood, city } = body;
+
+        const address = await this.addAddressUseCase.execute({
+          customerId: req.customer.customerId,
+          label: typeof label === "string" ? label : null,
+          cep: String(cep ?? ""),
+          street: String(street ?? ""),
+          number: String(number ?? ""),
+          neighborhood: String(neighborhood ?? ""),
+          city: String(city ?? ""),
+        });
+        return created(address);
+      } catch (err) {
+        return this.fail(err);
+      }
+    },
+  );
+
+  // ─── DELETE /api/catalog/:storeSlug/customer/addresses/:addressId ───────────
+
+  readonly deleteAddress = withCustomerAuth(
+    async (req: CustomerRequest, ...args: unknown[]): Promise<NextResponse> => {
+      try {
+        const { addressId } = await this.extractParams(args);
+        await this.deleteAddressUseCase.execute(
+          addressId,
+          req.customer.customerId,
+        );
+        return noContent();
+      } catch (err) {
+        return this.fail(err);
+      }
+    },
+  );
+
+  // ─── POST /api/catalog/:storeSlug/customer/orders/:orderId/reorder ──────────
+
+  readonly reorder = withCustomerAuth(
+    async (req: CustomerRequest, ...args: unknown[]): Promise<NextResponse> => {
+      try {
+        const { storeSlug, orderId } = await this.extractParams(args);
+        const result = await this.reorderUseCase.execute({
+          storeSlug,
+          storeId: req.customer.storeId,
+          customerId: req.customer.customerId,
+          orderId,
+        });
+        return ok(result);
+      } catch (err) {
+        return this.fail(err);
+      }
+    },
+  );
+
+  // ─── Helpers ─────────────────────────────────────────────────────────────────
+
+  private fail(err: unknown): NextResponse {
+    return errorResponse(
+      err instanceof AppError ? err : new AppError("Unexpected error."),
+    );
+  }
+
+  private async parseJsonBody(
+    req: CustomerRequest,
+  ): Promise<Record<string, unknown>> {
+    try {
+      return (await req.json()) as Record<string, unknown>;
+    } catch {
+      throw new AppError("Invalid JSON body.", HttpStatus.BAD_REQUEST);
+    }
+  }
+
+  private async extractParams(
+    args: unknown[],
+  ): Promise<{ storeSlug: string; addressId: string; orderId: string }> {
+    const ctx = (args[0] ?? {}) as {
+      params: Promise<{
+        storeSlug: string;
+        addressId?: string;
+        orderId?: string;
+      }>;
+    };
+    const params = await ctx.params;
+    return {
+      storeSlug: params.storeSlug,
+      addressId: params.addressId ?? "",
+      orderId: params.orderId ?? "",
+    };
+  }
+}
@@ -0,0 +1,185 @@
+import { NextRequest, NextResponse } from "next/server";
+import { AppError } from "@/shared/errors/AppError";
+import { HttpStatus } from "@/shared/http/statuses";
+import { ok, withErrorHandler } from "@/shared/http";
+import { normalizeWhatsApp } from "@/domain/customer/Customer";
+import { signCustomerToken } from "@/infra/security/customerTokenService";
+import {
+  setCustomerCookie,
+  clearCustomerCookie,
+} from "@/infra/http/cookies/customerCookie";
+import { sessionClientFrom } from "@/infra/http/auth/sessionClient";
+import type { RequestCustomerLoginCodeUseCase } from "@/application/customerAccount/RequestCustomerLoginCodeUseCase";
+import type { VerifyCustomerLoginCodeUseCase } from "@/application/customerAccount/VerifyCustomerLoginCodeUseCase";
+import type {
+  RateLimiter,
+  RateLimitRule,
+} from "@/application/rateLimit/RateLimiter";
+
+// ─── Input size guards ────────────────────────────────────────────────────────
+
+const MAX = {
+  whatsapp: 20,
+  code: 12,
+  name: 100,
+} as const;
+
+// ─── Rate limits ──────────────────────────────────────────────────────────────
+
+const MINUTE_MS = 60 * 1000;
+
+/** Each code is a WhatsApp message — keep both numbers and IPs in check. */
+const CODES_PER_WHATSAPP: RateLimitRule = {
+  name: "customer-code:whatsapp",
+  limit: 3,
+  windowMs: 15 * MINUTE_MS,
+  message: "Você já pediu vários códigos. Aguarde alguns minutos.",
+};
+
+const CODES_PER_IP: RateLimitRule = {
+  name: "customer-code:ip",
+  limit: 10,
+  windowMs: 60 * MINUTE_MS,
+  message: "Muitos códigos pedidos. Aguarde um pouco e tente novamente.",
+};
+
+/** Codes also die after a few wrong guesses; this caps guessing across numbers. */
+const LOGINS_PER_IP: RateLimitRule = {
+  name: "customer-login:ip",
+  limit: 30,
+  windowMs: 15 * MINUTE_MS,
+  message: "Muitas tentativas. Aguarde um pouco e tente novamente.",
+};
+
+// ─── Controller ───────────────────────────────────────────────────────────────
+
+/**
+ * CustomerAuthController — HTTP adapter for the customer login of a
+ * catalog, by one-time code sent over WhatsApp.
+ *
+ * Public routes (storeId resolved from storeSlug):
+ *   POST /api/catalog/:storeSlug/customer/login-code  { whatsapp }
+ *   POST /api/catalog/:storeSlug/customer/login       { whatsapp, code, name? }
+ *        → { nameRequired: true } for a new number sent without a name
+ *   POST /api/catalog/:storeSlug/customer/logout
+ *
+ * The session is a JWT in its own HttpOnly cookie (see customerCookie),
+ * valid only in the store it was opened in.
+ */
+export class CustomerAuthController {
+  constructor(
+    private readonly requestCodeUseCase: RequestCustomerLoginCodeUseCase,
+    private readonly verifyCodeUseCase: VerifyCustomerLoginCodeUseCase,
+    private readonly rateLimiter: RateLimiter,
+  ) {}
+
+  // ─── POST /api/catalog/:storeSlug/customer/login-code ───────────────────────
+
+  readonly requestCode = withErrorHandler(
+    async (req: unknown, ...args: unknown[]): Promise<NextResponse> => {
+      const storeSlug = await this.extractStoreSlug(args);
+      const body = await this.parseJsonBody(req as NextRequest);
+      const { whatsapp } = body;
+
+      this.guardLength("whatsapp", whatsapp, MAX.whatsapp);
+
+      const { ipAddress } = sessionClientFrom((req as NextRequest).headers);
+      if (ipAddress) await this.rateLimiter.consume(CODES_PER_IP, ipAddress);
+      // An invalid number is rejected by the use case — nothing to count
+      const normalized = this.tryNormalize(whatsapp);
+      if (normalized) {
+        await this.rateLimiter.consume(CODES_PER_WHATSAPP, normalized);
+      }
+
+      await this.requestCodeUseCase.execute({
+        storeSlug,
+        whatsapp: String(whatsapp ?? ""),
+      });
+
+      return ok({ message: "Código enviado." });
+    },
+  );
+
+  // ─── POST /api/catalog/:storeSlug/customer/login ────────────────────────────
+
+  readonly login = withErrorHandler(
+    async (req: unknown, ...args: unknown[]): Promise<NextResponse> => {
+      const storeSlug = await this.extractStoreSlug(args);
+      const body = await this.parseJsonBody(req as NextRequest);
+      const { whatsapp, code, name } = body;
+
+      this.guardLength("whatsapp", whatsapp, MAX.whatsapp);
+      this.guardLength("code", code, MAX.code);
+      this.guardLength("name", name, MAX.name);
+
+      const { ipAddress } = sessionClientFrom((req as NextRequest).headers);
+      if (ipAddress) await this.rateLimiter.consume(LOGINS_PER_IP, ipAddress);
+
+      const result = await this.verifyCodeUseCase.execute({
+        storeSlug,
+        whatsapp: String(whatsapp ?? ""),
+        code: String(code ?? ""),
+        name: typeof name === "string" ? name : null,
+      });
+      if (result.status === "NAME_REQUIRED") {
+        return ok({ nameRequired: true });
+      }
+
+      const { customer } = result;
+      const token = await signCustomerToken({
+        customerId: customer.id,
+        storeId: customer.storeId,
+        role: "CUSTOMER",
+      });
+      const response = ok({
+        nameRequired: false,
+        customer: { name: customer.name, whatsapp: customer.whatsapp },
+      });
+      setCustomerCookie(response, token);
+      return response;
+    },
+  );
+
+  // ─── POST /api/catalog/:storeSlug/customer/logout ───────────────────────────
+
+  readonly logout = withErrorHandler(async (): Promise<NextResponse> => {
+    const response = ok({ message: "Signed out." });
+    clearCustomerCookie(response);
+    return response;
+  });
+
+  // ─── Helpers ─────────────────────────────────────────────────────────────────
+
+  private async extractStoreSlug(args: unknown[]): Promise<string> {
+    const ctx = (args[0] ?? {}) as { params: Promise<{ storeSlug: string }> };
+    const { storeSlug } = await ctx.params;
+    return storeSlug;
+  }
+
+  private tryNormalize(whatsapp: unknown): string | null {
+    try {
+      return normalizeWhatsApp(String(whatsapp ?? ""));
+    } catch {
+      return null;
+    }
+  }
+
+  private async parseJsonBody(
+    req: NextRequest,
+  ): Promise<Record<string, unknown>> {
+    try {
+      return (await req.json()) as Record<string, unknown>;
+    } catch {
+      throw new AppError("Invalid JSON body.", HttpStatus.BAD_REQUEST);
+    }
+  }
+
+  private guardLength(field: string, value: unknown, max: number): void {
+    if (typeof value === "string" && value.length > max) {
+      throw new AppError(
+        `${field} must be at most ${max} characters.`,
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+  }
+}
@@ -6,6 +6,7 @@ import {
   withAuth,
   type AuthenticatedRequest,
 } from "@/infra/http/middleware/withAuth";
+import { Permission } from "@/domain/auth/StaffRole";
 import type { ToggleChecklistItemUseCase } from "@/application/production/ToggleChecklistItemUseCase";
 
 // ─── Controller ───────────────────────────────────────────────────────────────
@@ -18,7 +19,8 @@ import type { ToggleChecklistItemUseCase } from "@/application/production/Toggle
  * an unnecessary HTTP round-trip.
  *
  * This controller only handles the POST /api/production/checklist toggle
- * mutation originating from the client-side board component.
+ * mutation originating from the client-side board component — open to
+ * kitchen users (Permission.PRODUCTION).
  */
 export class DailyProductionController {
   constructor(
@@ -69,5 +71,6 @@ export class DailyProductionController {
         );
       }
     },
+    Permission.PRODUCTION,
   );
 }
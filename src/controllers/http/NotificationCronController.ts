@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ok, errorResponse } from "@/shared/http";
+import { HttpStatus } from "@/shared/http/statuses";
+import type { SendDayBeforeRemindersUseCase } from "@/application/notification/SendDayBeforeRemindersUseCase";
+
+// ─── Controller ───────────────────────────────────────────────────────────────
+
+/**
+ * NotificationCronController — HTTP adapter for scheduled notification jobs.
+ *
+ * Authentication: a shared secret sent by the scheduler as
+ * `Authorization: Bearer <CRON_SECRET>`.  When CRON_SECRET is not configured
+ * every request is refused, so the job can never run unauthenticated.
+ */
+export class NotificationCronController {
+  constructor(
+    private readonly sendDayBeforeRemindersUseCase: SendDayBeforeRemindersUseCase,
+    private readonly cronSecret: string | undefined,
+  ) {}
+
+  // ─── GET /api/cron/reminders ────────────────────────────────────────────────
+
+  readonly sendReminders = async (req: NextRequest): Promise<NextResponse> => {
+    const authorization = req.headers.get("authorization");
+    if (!this.cronSecret || authorization !== `Bearer ${this.cronSecret}`) {
+      return errorResponse("Unauthorized.", HttpStatus.UNAUTHORIZED);
+    }
+
+    try {
+      const result = await this.sendDayBeforeRemindersUseCase.execute();
+      return ok(result);
+    } catch (err) {
+      console.error("[NotificationCronController] reminders failed:", err);
+      return errorResponse(
+        "Erro ao enviar lembretes.",
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  };
+}
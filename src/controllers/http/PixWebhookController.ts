@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { AppError } from "@/shared/errors/AppError";
+import { ok, errorResponse } from "@/shared/http";
+import type { ConfirmPixPaymentUseCase } from "@/application/payment/ConfirmPixPaymentUseCase";
+
+// ─── Controller ───────────────────────────────────────────────────────────────
+
+/**
+ * PixWebhookController — HTTP adapter for payment notifications of the PIX
+ * provider.
+ *
+ * Authentication: the provider's signature over the raw body, checked by the
+ * payment gateway.  The body is therefore read as text, never re-serialised.
+ */
+export class PixWebhookController {
+  constructor(
+    private readonly confirmPixPaymentUseCase: ConfirmPixPaymentUseCase,
+  ) {}
+
+  // ─── POST /api/webhooks/pix ─────────────────────────────────────────────────
+
+  readonly receive = async (req: NextRequest): Promise<NextResponse> => {
+    try {
+      const rawBody = await req.text();
+      const result = await this.confirmPixPaymentUseCase.execute({
+        rawBody,
+        headers: req.headers,
+      });
+      return ok(result);
+    } catch (err) {
+      if (err instanceof AppError) return errorResponse(err);
+      console.error("[PixWebhookController] webhook failed:", err);
+      return errorResponse("Erro ao processar o pagamento.");
+    }
+  };
+}
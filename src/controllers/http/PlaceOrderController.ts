@@ -3,7 +3,35 @@ import { AppError } from "@/shared/errors/AppError";
 import { HttpStatus } from "@/shared/http/statuses";
 import { created, errorResponse } from "@/shared/http";
 import { FulfillmentType } from "@/domain/order/Order";
+import { normalizeWhatsApp } from "@/domain/customer/Customer";
+import { parseOptionSelections } from "@/domain/product/ProductOption";
+import { sessionClientFrom } from "@/infra/http/auth/sessionClient";
 import type { PlaceOrderService } from "@/application/order/PlaceOrderService";
+import type {
+  RateLimiter,
+  RateLimitRule,
+} from "@/application/rateLimit/RateLimiter";
+
+// ─── Rate limits ──────────────────────────────────────────────────────────────
+
+const HOUR_MS = 60 * 60 * 1000;
+const LIMIT_MESSAGE =
+  "Muitos pedidos em pouco tempo. Aguarde um pouco e tente novamente.";
+
+/** Generous per IP — customers behind one carrier NAT share an address. */
+const PER_IP: RateLimitRule = {
+  name: "orders:ip",
+  limit: 20,
+  windowMs: HOUR_MS,
+  message: LIMIT_MESSAGE,
+};
+
+const PER_WHATSAPP: RateLimitRule = {
+  name: "orders:whatsapp",
+  limit: 5,
+  windowMs: HOUR_MS,
+  message: LIMIT_MESSAGE,
+};
 
 /**
  * PlaceOrderController — HTTP adapter for the public order-creation endpoint.
@@ -17,10 +45,16 @@ import type { PlaceOrderService } from "@/application/order/PlaceOrderService";
  * (product active, quantity >= min, future date, etc.) is in the service.
  * This layer only handles structural concerns: missing fields, wrong types.
  *
- * Authentication: none — order creation is public.
+ * Authentication: none — order creation is public, so it is rate-limited
+ * per client IP and per customer WhatsApp number (429 with Retry-After).
+ * Idempotent replays are never limited; the IP counts every other attempt,
+ * the WhatsApp number only the orders actually placed.
  */
 export class PlaceOrderController {
-  constructor(private readonly service: PlaceOrderService) {}
+  constructor(
+    private readonly service: PlaceOrderService,
+    private readonly rateLimiter: RateLimiter,
+  ) {}
 
   readonly placeOrder = async (req: NextRequest): Promise<NextResponse> => {
     // ── 1. Parse body ──────────────────────────────────────────────────────
@@ -50,6 +84,8 @@ export class PlaceOrderController {
       deliveryCity,
       deliveryDate,
       notes,
+      couponCode,
+      idempotencyKey,
     } = body;
 
     // Structural guard: customer must be an object
@@ -88,43 +124,71 @@ export class PlaceOrderController {
       );
     }
 
-    // ── 3. Call service ────────────────────────────────────────────────────
+    // ── 3. Call service — rate-limited unless it replays an order ─────────
 
     try {
-      const result = await this.service.execute({
-        storeSlug: String(storeSlug ?? ""),
-        customer: {
-          name: String(customerObj.name ?? ""),
-          whatsapp: String(customerObj.whatsapp ?? ""),
+      const { ipAddress } = sessionClientFrom(req.headers);
+      const whatsappKey = this.tryNormalize(customerObj.whatsapp);
+      let placing = false;
+
+      const result = await this.service.execute(
+        {
+          storeSlug: String(storeSlug ?? ""),
+          customer: {
+            name: String(customerObj.name ?? ""),
+            whatsapp: String(customerObj.whatsapp ?? ""),
+          },
+          items: items.map((item: unknown) => {
+            const i = item as Record<string, unknown>;
+            return {
+              productId: String(i.productId ?? ""),
+              variantId: i.variantId != null ? String(i.variantId) : null,
+              options: parseOptionSelections(i.options),
+              notes: typeof i.notes === "string" ? i.notes : null,
+              weightKg: i.weightKg != null ? Number(i.weightKg) : null,
+              quantity: Number(i.quantity),
+            };
+          }),
+          fulfillmentType:
+            fulfillmentType === FulfillmentType.DELIVERY
+              ? FulfillmentType.DELIVERY
+              : FulfillmentType.PICKUP,
+          pickupTime: typeof pickupTime === "string" ? pickupTime : null,
+          pickupSlotId: typeof pickupSlotId === "string" ? pickupSlotId : null,
+          deliveryCep: typeof deliveryCep === "string" ? deliveryCep : null,
+          deliveryStreet:
+            typeof deliveryStreet === "string" ? deliveryStreet : null,
+          deliveryNumber:
+            typeof deliveryNumber === "string" ? deliveryNumber : null,
+          deliveryNeighborhood:
+            typeof deliveryNeighborhood === "string"
+              ? deliveryNeighborhood
+              : null,
+          deliveryCity: typeof deliveryCity === "string" ? deliveryCity : null,
+          deliveryDate: parsedDeliveryDate,
+          notes:
+            typeof notes === "string" && notes.trim() ? notes.trim() : null,
+          couponCode:
+            typeof couponCode === "string" && couponCode.trim()
+              ? couponCode.trim()
+              : null,
+          idempotencyKey:
+            typeof idempotencyKey === "string" && idempotencyKey.trim()
+              ? idempotencyKey.trim().slice(0, 100)
+              : null,
+        },
+        async () => {
+          placing = true;
+          if (ipAddress) await this.rateLimiter.consume(PER_IP, ipAddress);
+          if (whatsappKey) {
+            await this.rateLimiter.check(PER_WHATSAPP, whatsappKey);
+          }
         },
-        items: items.map((item: unknown) => {
-          const i = item as Record<string, unknown>;
-          return {
-            productId: String(i.productId ?? ""),
-            variantId: i.variantId != null ? String(i.variantId) : null,
-            quantity: Number(i.quantity),
-          };
-        }),
-        fulfillmentType:
-          fulfillmentType === FulfillmentType.DELIVERY
-            ? FulfillmentType.DELIVERY
-            : FulfillmentType.PICKUP,
-        pickupTime: typeof pickupTime === "string" ? pickupTime : null,
-        pickupSlotId: typeof pickupSlotId === "string" ? pickupSlotId : null,
-        deliveryCep: typeof deliveryCep === "string" ? deliveryCep : null,
-        deliveryStreet:
-          typeof deliveryStreet === "string" ? deliveryStreet : null,
-        deliveryNumber:
-          typeof deliveryNumber === "string" ? deliveryNumber : null,
-        deliveryNeighborhood:
-          typeof deliveryNeighborhood === "string"
-            ? deliveryNeighborhood
-            : null,
-        deliveryCity: typeof deliveryCity === "string" ? deliveryCity : null,
-        deliveryDate: parsedDeliveryDate,
-        notes: typeof notes === "string" && notes.trim() ? notes.trim() : null,
-      });
+      );
 
+      if (placing && whatsappKey) {
+        await this.rateLimiter.record(PER_WHATSAPP, whatsappKey);
+      }
       return created(result);
     } catch (err) {
       return errorResponse(
@@ -132,4 +196,13 @@ export class PlaceOrderController {
       );
     }
   };
+
+  /** Null for an invalid number — the service rejects it, nothing to count. */
+  private tryNormalize(whatsapp: unknown): string | null {
+    try {
+      return normalizeWhatsApp(String(whatsapp ?? ""));
+    } catch {
+      return null;
+    }
+  }
 }
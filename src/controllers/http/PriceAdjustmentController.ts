@@ -0,0 +1,103 @@
+import { NextResponse } from "next/server";
+import { AppError } from "@/shared/errors/AppError";
+import { HttpStatus } from "@/shared/http/statuses";
+import { ok, errorResponse } from "@/shared/http";
+import {
+  withAuth,
+  type AuthenticatedRequest,
+} from "@/infra/http/middleware/withAuth";
+import type { AdjustPricesUseCase } from "@/application/product/AdjustPricesUseCase";
+import type { RollbackPriceAdjustmentUseCase } from "@/application/product/RollbackPriceAdjustmentUseCase";
+import type {
+  PriceAdjustmentMode,
+  PriceAdjustmentScope,
+  PriceRounding,
+} from "@/domain/product/PriceAdjustment";
+
+// ─── Controller ───────────────────────────────────────────────────────────────
+
+/**
+ * PriceAdjustmentController — HTTP adapter for bulk price changes.
+ *
+ * Routes:
+ *   POST /api/products/prices
+ *        { scope, productIds?, categoryId?, mode, value, rounding, dryRun? }
+ *   POST /api/products/prices/:id/rollback
+ *
+ * dryRun defaults to true: only an explicit false changes prices.
+ */
+export class PriceAdjustmentController {
+  constructor(
+    private readonly adjustPricesUseCase: AdjustPricesUseCase,
+    private readonly rollbackPriceAdjustmentUseCase: RollbackPriceAdjustmentUseCase,
+  ) {}
+
+  // ─── POST /api/products/prices ──────────────────────────────────────────────
+
+  readonly adjust = withAuth(
+    async (req: AuthenticatedRequest): Promise<NextResponse> => {
+      try {
+        const body = await this.parseJsonBody(req);
+        const { scope, productIds, categoryId, mode, value, rounding } = body;
+
+        // Enum values are checked by the use case
+        const result = await this.adjustPricesUseCase.execute(
+          {
+            storeId: req.session.storeId,
+            actorId: req.session.adminId,
+            scope: String(scope) as PriceAdjustmentScope,
+            productIds: Array.isArray(productIds)
+              ? productIds.map(String)
+              : undefined,
+            categoryId: categoryId ? String(categoryId) : undefined,
+            mode: String(mode) as PriceAdjustmentMode,
+            value: Number(value),
+            rounding: String(rounding ?? "NONE") as PriceRounding,
+          },
+          body.dryRun !== false,
+        );
+        return ok(result);
+      } catch (err) {
+        return errorResponse(
+          err instanceof AppError ? err : new AppError("Unexpected error."),
+        );
+      }
+    },
+  );
+
+  // ─── POST /api/products/prices/:id/rollback ─────────────────────────────────
+
+  readonly rollback = withAuth(
+    async (
+      req: AuthenticatedRequest,
+      ...args: unknown[]
+    ): Promise<NextResponse> => {
+      const ctx = (args[0] ?? {}) as { params: Promise<{ id: string }> };
+      const { id } = await ctx.params;
+
+      try {
+        const result = await this.rollbackPriceAdjustmentUseCase.execute(
+          id,
+          req.session.storeId,
+        );
+        return ok(result);
+      } catch (err) {
+        return errorResponse(
+          err instanceof AppError ? err : new AppError("Unexpected error."),
+        );
+      }
+    },
+  );
+
+  // ─── Helpers ─────────────────────────────────────────────────────────────────
+
+  private async parseJsonBody(
+    req: AuthenticatedRequest,
+  ): Promise<Record<string, unknown>> {
+    try {
+      return (await req.json()) as Record<string, unknown>;
+    } catch {
+      throw new AppError("Invalid JSON body.", HttpStatus.BAD_REQUEST);
+    }
+  }
+}
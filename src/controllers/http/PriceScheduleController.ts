@@ -0,0 +1,132 @@
+import { NextRequest, NextResponse } from "next/server";
+import { AppError } from "@/shared/errors/AppError";
+import { HttpStatus } from "@/shared/http/statuses";
+import { ok, created, noContent, errorResponse } from "@/shared/http";
+import {
+  withAuth,
+  type AuthenticatedRequest,
+} from "@/infra/http/middleware/withAuth";
+import type { CreatePriceScheduleUseCase } from "@/application/product/CreatePriceScheduleUseCase";
+import type { DeletePriceScheduleUseCase } from "@/application/product/DeletePriceScheduleUseCase";
+import type { SettlePriceSchedulesUseCase } from "@/application/product/SettlePriceSchedulesUseCase";
+import type { PriceScheduleKind } from "@/domain/product/PriceSchedule";
+
+// ─── Controller ───────────────────────────────────────────────────────────────
+
+/**
+ * PriceScheduleController — HTTP adapter for promotional and scheduled
+ * prices.
+ *
+ * Routes:
+ *   POST   /api/products/:id/price-schedules
+ *          { kind, variantId?, price, startsAt, endsAt? }  (ISO datetimes)
+ *   DELETE /api/products/:id/price-schedules/:scheduleId
+ *   GET    /api/cron/prices   Authorization: Bearer <CRON_SECRET>
+ *
+ * The cron route refuses every request when CRON_SECRET is not configured.
+ */
+export class PriceScheduleController {
+  constructor(
+    private readonly createPriceScheduleUseCase: CreatePriceScheduleUseCase,
+    private readonly deletePriceScheduleUseCase: DeletePriceScheduleUseCase,
+    private readonly settlePriceSchedulesUseCase: SettlePriceSchedulesUseCase,
+    private readonly cronSecret: string | undefined,
+  ) {}
+
+  // ─── POST /api/products/:id/price-schedules ─────────────────────────────────
+
+  readonly create = withAuth(
+    async (
+      req: AuthenticatedRequest,
+      ...args: unknown[]
+    ): Promise<NextResponse> => {
+      const { productId } = await this.extractIds(args);
+
+      try {
+        const body = await this.parseJsonBody(req);
+        const { kind, variantId, price, startsAt, endsAt } = body;
+
+        const schedule = await this.createPriceScheduleUseCase.execute({
+          storeId: req.session.storeId,
+          productId,
+          variantId: variantId ? String(variantId) : null,
+          kind: String(kind ?? "") as PriceScheduleKind,
+          price: Number(price),
+          startsAt: new Date(String(startsAt ?? "")),
+          endsAt: endsAt ? new Date(String(endsAt)) : null,
+        });
+        return created(schedule);
+      } catch (err) {
+        return errorResponse(
+          err instanceof AppError ? err : new AppError("Unexpected error."),
+        );
+      }
+    },
+  );
+
+  // ─── DELETE /api/products/:id/price-schedules/:scheduleId ───────────────────
+
+  readonly delete = withAuth(
+    async (
+      req: AuthenticatedRequest,
+      ...args: unknown[]
+    ): Promise<NextResponse> => {
+      const { productId, scheduleId } = await this.extractIds(args);
+
+      try {
+        await this.deletePriceScheduleUseCase.execute(
+          scheduleId,
+          productId,
+          req.session.storeId,
+        );
+        return noContent();
+      } catch (err) {
+        return errorResponse(
+          err instanceof AppError ? err : new AppError("Unexpected error."),
+        );
+      }
+    },
+  );
+
+  // ─── GET /api/cron/prices ───────────────────────────────────────────────────
+
+  readonly settle = async (req: NextRequest): Promise<NextResponse> => {
+    const authorization = req.headers.get("authorization");
+    if (!this.cronSecret || authorization !== `Bearer ${this.cronSecret}`) {
+      return errorResponse("Unauthorized.", HttpStatus.UNAUTHORIZED);
+    }
+
+    try {
+      const result = await this.settlePriceSchedulesUseCase.execute();
+      return ok(result);
+    } catch (err) {
+      console.error("[PriceScheduleController] settle failed:", err);
+      return errorResponse(
+        "Erro ao aplicar preços programados.",
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  };
+
+  // ─── Helpers ─────────────────────────────────────────────────────────────────
+
+  private async parseJsonBody(
+    req: AuthenticatedRequest,
+  ): Promise<Record<string, unknown>> {
+    try {
+      return (await req.json()) as Record<string, unknown>;
+    } catch {
+      throw new AppError("Invalid JSON body.", HttpStatus.BAD_REQUEST);
+    }
+  }
+
+  private async extractIds(
+    args: unknown[],
+  ): Promise<{ productId: string; scheduleId: string }> {
+    const ctx = (args[0] ?? {}) as {
+      params: Promise<{ id: string; scheduleId?: string }>;
+    };
+    const params = await ctx.params;
+    return { productId: params.id, scheduleId: params.scheduleId ?? "" };
+  }
+}
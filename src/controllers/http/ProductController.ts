@@ -11,6 +11,11 @@ import type { ListProductsUseCase } from "@/application/product/ListProductsUseC
 import type { GetProductByIdUseCase } from "@/application/product/GetProductByIdUseCase";
 import type { UpdateProductUseCase } from "@/application/product/UpdateProductUseCase";
 import type { DeleteProductUseCase } from "@/application/product/DeleteProductUseCase";
+import {
+  ProductOptionGroupType,
+  type CreateOptionGroupInput,
+} from "@/domain/product/ProductOption";
+import { parseAvailability } from "./parseAvailability";
 
 // ─── Controller ───────────────────────────────────────────────────────────────
 
@@ -45,18 +50,23 @@ export class ProductController {
     async (req: AuthenticatedRequest): Promise<NextResponse> => {
       const body = await this.parseJsonBody(req);
       const {
+        sku,
         name,
         description,
         price,
         isActive,
         minQuantity,
+        dailyCapacity,
+        availability,
         variants,
+        optionGroups,
         categoryIds,
       } = body;
 
       try {
         const product = await this.createProductUseCase.execute({
           storeId: req.session.storeId,
+          sku: sku != null ? String(sku) : null,
           name: String(name ?? ""),
           description:
             description !== undefined ? String(description) : undefined,
@@ -64,6 +74,8 @@ export class ProductController {
           isActive: isActive !== undefined ? Boolean(isActive) : true,
           minQuantity:
             minQuantity !== undefined ? Number(minQuantity) : undefined,
+          dailyCapacity: this.parseDailyCapacity(dailyCapacity),
+          availability: parseAvailability(availability),
           variants: Array.isArray(variants)
             ? variants.map((v: Record<string, unknown>) => ({
                 label: String(v.label ?? ""),
@@ -81,10 +93,16 @@ export class ProductController {
                   (v.weightUnit === "g" || v.weightUnit === "kg")
                     ? v.weightUnit
                     : null,
+                weightStep:
+                  v.pricingType === "WEIGHT" && v.weightStep != null
+                    ? Number(v.weightStep)
+                    : null,
+                dailyCapacity: this.parseDailyCapacity(v.dailyCapacity),
                 isActive: v.isActive !== undefined ? Boolean(v.isActive) : true,
                 sortOrder: v.sortOrder !== undefined ? Number(v.sortOrder) : 0,
               }))
             : [],
+          optionGroups: this.parseOptionGroups(optionGroups),
           categoryIds: Array.isArray(categoryIds)
             ? categoryIds.map(String)
             : undefined,
@@ -148,12 +166,16 @@ export class ProductController {
       const id = await this.extractId(args);
       const body = await this.parseJsonBody(req);
       const {
+        sku,
         name,
         description,
         price,
         isActive,
         minQuantity,
+        dailyCapacity,
+        availability,
         variants,
+        optionGroups,
         categoryIds,
       } = body;
 
@@ -162,6 +184,9 @@ export class ProductController {
           id,
           req.session.storeId,
           {
+            ...(sku !== undefined && {
+              sku: sku === null ? null : String(sku),
+            }),
             ...(name !== undefined && { name: String(name) }),
             ...(description !== undefined && {
               description: String(description),
@@ -174,6 +199,10 @@ export class ProductController {
             ...(minQuantity !== undefined && {
               minQuantity: Number(minQuantity),
             }),
+            ...(dailyCapacity !== undefined && {
+              dailyCapacity: this.parseDailyCapacity(dailyCapacity),
+            }),
+            availability: parseAvailability(availability),
             // variants: replace all existing variants when provided
             ...(Array.isArray(variants) && {
               variants: variants.map(
@@ -193,6 +222,11 @@ export class ProductController {
                     (v.weightUnit === "g" || v.weightUnit === "kg")
                       ? v.weightUnit
                       : null,
+                  weightStep:
+                    v.pricingType === "WEIGHT" && v.weightStep != null
+                      ? Number(v.weightStep)
+                      : null,
+                  dailyCapacity: this.parseDailyCapacity(v.dailyCapacity),
                   isActive:
                     v.isActive !== undefined ? Boolean(v.isActive) : true,
                   sortOrder:
@@ -200,6 +234,10 @@ export class ProductController {
                 }),
               ),
             }),
+            // optionGroups: replace all existing groups when provided
+            ...(Array.isArray(optionGroups) && {
+              optionGroups: this.parseOptionGroups(optionGroups),
+            }),
             ...(Array.isArray(categoryIds) && {
               categoryIds: categoryIds.map(String),
             }),
@@ -250,4 +288,32 @@ export class ProductController {
     const { id } = await ctx.params;
     return id;
   }
+
+  /** Coerces the option groups payload; the use case validates the values. */
+  private parseOptionGroups(value: unknown): CreateOptionGroupInput[] {
+    if (!Array.isArray(value)) return [];
+    return value.map((g: Record<string, unknown>) => ({
+      name: String(g.name ?? ""),
+      type:
+        g.type === ProductOptionGroupType.TEXT
+          ? ProductOptionGroupType.TEXT
+          : ProductOptionGroupType.CHOICE,
+      minSelections: Number(g.minSelections ?? 0),
+      maxSelections: Number(g.maxSelections ?? 1),
+      options: Array.isArray(g.options)
+        ? g.options.map((o: Record<string, unknown>) => ({
+            label: String(o.label ?? ""),
+            price: Number(o.price ?? 0),
+            maxQuantity: Number(o.maxQuantity ?? 1),
+          }))
+        : [],
+    }));
+  }
+
+  /** Empty / null → unlimited; anything else is validated by the use case. */
+  private parseDailyCapacity(value: unknown): number | null {
+    return value === null || value === undefined || value === ""
+      ? null
+      : Number(value);
+  }
 }
@@ -0,0 +1,86 @@
+import { NextResponse } from "next/server";
+import { AppError } from "@/shared/errors/AppError";
+import { HttpStatus } from "@/shared/http/statuses";
+import { ok, errorResponse } from "@/shared/http";
+import {
+  withAuth,
+  type AuthenticatedRequest,
+} from "@/infra/http/middleware/withAuth";
+import type { ExportProductsCsvUseCase } from "@/application/product/ExportProductsCsvUseCase";
+import type { ImportProductsCsvUseCase } from "@/application/product/ImportProductsCsvUseCase";
+
+// ─── Controller ───────────────────────────────────────────────────────────────
+
+/**
+ * ProductCsvController — HTTP adapter for the product spreadsheet.
+ *
+ * Routes:
+ *   GET  /api/products/csv   → CSV file download
+ *   POST /api/products/csv   { csv, dryRun? } → ProductImportReport
+ *
+ * dryRun defaults to true: only an explicit false writes anything.
+ */
+export class ProductCsvController {
+  constructor(
+    private readonly exportProductsCsvUseCase: ExportProductsCsvUseCase,
+    private readonly importProductsCsvUseCase: ImportProductsCsvUseCase,
+  ) {}
+
+  // ─── GET /api/products/csv ──────────────────────────────────────────────────
+
+  readonly export = withAuth(
+    async (req: AuthenticatedRequest): Promise<NextResponse> => {
+      try {
+        const csv = await this.exportProductsCsvUseCase.execute(
+          req.session.storeId,
+        );
+        // BOM so spreadsheet apps read the file as UTF-8
+        return new NextResponse(`\uFEFF${csv}`, {
+          headers: {
+            "Content-Type": "text/csv; charset=utf-8",
+            "Content-Disposition": 'attachment; filename="produtos.csv"',
+          },
+        });
+      } catch (err) {
+        return errorResponse(
+          err instanceof AppError ? err : new AppError("Unexpected error."),
+        );
+      }
+    },
+  );
+
+  // ─── POST /api/products/csv ─────────────────────────────────────────────────
+
+  readonly import = withAuth(
+    async (req: AuthenticatedRequest): Promise<NextResponse> => {
+      try {
+        const body = await this.parseJsonBody(req);
+        if (typeof body.csv !== "string") {
+          throw new AppError("csv is required.", HttpStatus.BAD_REQUEST);
+        }
+        const report = await this.importProductsCsvUseCase.execute(
+          req.session.storeId,
+          body.csv,
+          body.dryRun !== false,
+        );
+        return ok(report);
+      } catch (err) {
+        return errorResponse(
+          err instanceof AppError ? err : new AppError("Unexpected error."),
+        );
+      }
+    },
+  );
+
+  // ─── Helpers ─────────────────────────────────────────────────────────────────
+
+  private async parseJsonBody(
+    req: AuthenticatedRequest,
+  ): Promise<Record<string, unknown>> {
+    try {
+      return (await req.json()) as Record<string, unknown>;
+    } catch {
+      throw new AppError("Invalid JSON body.", HttpStatus.BAD_REQUEST);
+    }
+  }
+}
@@ -0,0 +1,71 @@
+import { NextResponse } from "next/server";
+import { AppError } from "@/shared/errors/AppError";
+import { HttpStatus } from "@/shared/http/statuses";
+import { ok, errorResponse } from "@/shared/http";
+import {
+  withAuth,
+  type AuthenticatedRequest,
+} from "@/infra/http/middleware/withAuth";
+import type { AdjustStockUseCase } from "@/application/product/AdjustStockUseCase";
+
+// ─── Controller ───────────────────────────────────────────────────────────────
+
+/**
+ * ProductStockController — HTTP adapter for stock counts set by the store.
+ *
+ * Routes:
+ *   POST /api/products/:id/stock   { variantId?, stockOnHand, reason? }
+ *
+ * stockOnHand null / "" stops tracking the stock.
+ */
+export class ProductStockController {
+  constructor(private readonly adjustStockUseCase: AdjustStockUseCase) {}
+
+  // ─── POST /api/products/:id/stock ───────────────────────────────────────────
+
+  readonly adjust = withAuth(
+    async (
+      req: AuthenticatedRequest,
+      ...args: unknown[]
+    ): Promise<NextResponse> => {
+      const ctx = (args[0] ?? {}) as { params: Promise<{ id: string }> };
+      const { id: productId } = await ctx.params;
+
+      try {
+        const body = await this.parseJsonBody(req);
+        const { variantId, stockOnHand, reason } = body;
+
+        const movement = await this.adjustStockUseCase.execute({
+          storeId: req.session.storeId,
+          productId,
+          variantId: variantId ? String(variantId) : null,
+          stockOnHand:
+            stockOnHand === null ||
+            stockOnHand === undefined ||
+            stockOnHand === ""
+              ? null
+              : Number(stockOnHand),
+          reason: typeof reason === "string" ? reason : null,
+          actorId: req.session.adminId,
+        });
+        return ok(movement);
+      } catch (err) {
+        return errorResponse(
+          err instanceof AppError ? err : new AppError("Unexpected error."),
+        );
+      }
+    },
+  );
+
+  // ─── Helpers ─────────────────────────────────────────────────────────────────
+
+  private async parseJsonBody(
+    req: AuthenticatedRequest,
+  ): Promise<Record<string, unknown>> {
+    try {
+      return (await req.json()) as Record<string, unknown>;
+    } catch {
+      throw new AppError("Invalid JSON body.", HttpStatus.BAD_REQUEST);
+    }
+  }
+}
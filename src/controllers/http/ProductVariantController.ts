@@ -43,6 +43,8 @@ export class ProductVariantController {
         pricingType,
         weightValue,
         weightUnit,
+        weightStep,
+        dailyCapacity,
         isActive,
         sortOrder,
       } = body;
@@ -60,6 +62,11 @@ export class ProductVariantController {
                 ? Number(weightValue)
                 : null,
             weightUnit: this.parseWeightUnit(weightUnit),
+            weightStep:
+              weightStep !== undefined && weightStep !== null
+                ? Number(weightStep)
+                : null,
+            dailyCapacity: this.parseDailyCapacity(dailyCapacity),
             isActive: isActive !== undefined ? Boolean(isActive) : true,
             sortOrder: sortOrder !== undefined ? Number(sortOrder) : 0,
           },
@@ -88,6 +95,8 @@ export class ProductVariantController {
         pricingType,
         weightValue,
         weightUnit,
+        weightStep,
+        dailyCapacity,
         isActive,
         sortOrder,
       } = body;
@@ -108,6 +117,12 @@ export class ProductVariantController {
             ...(weightUnit !== undefined && {
               weightUnit: this.parseWeightUnit(weightUnit),
             }),
+            ...(weightStep !== undefined && {
+              weightStep: weightStep !== null ? Number(weightStep) : null,
+            }),
+            ...(dailyCapacity !== undefined && {
+              dailyCapacity: this.parseDailyCapacity(dailyCapacity),
+            }),
             ...(isActive !== undefined && { isActive: Boolean(isActive) }),
             ...(sortOrder !== undefined && { sortOrder: Number(sortOrder) }),
           },
@@ -171,4 +186,11 @@ export class ProductVariantController {
     if (value === "g" || value === "kg") return value;
     return null;
   }
+
+  /** Empty / null → unlimited; anything else is validated by the use case. */
+  private parseDailyCapacity(value: unknown): number | null {
+    return value === null || value === undefined || value === ""
+      ? null
+      : Number(value);
+  }
 }
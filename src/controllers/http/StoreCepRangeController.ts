@@ -10,6 +10,19 @@ import type { GetCepRangeUseCase } from "@/application/cepRange/GetCepRangeUseCa
 import type { AddCepRangeUseCase } from "@/application/cepRange/UpsertCepRangeUseCase";
 import type { DeleteCepRangeUseCase } from "@/application/cepRange/DeleteCepRangeUseCase";
 import type { ValidateCepUseCase } from "@/application/cepRange/ValidateCepUseCase";
+import type {
+  RateLimiter,
+  RateLimitRule,
+} from "@/application/rateLimit/RateLimiter";
+import { sessionClientFrom } from "@/infra/http/auth/sessionClient";
+
+/** Checkout looks a CEP up a few times; this only stops scraping. */
+const VALIDATE_PER_IP: RateLimitRule = {
+  name: "validate-cep:ip",
+  limit: 60,
+  windowMs: 60 * 1000,
+  message: "Muitas consultas de CEP. Aguarde um instante.",
+};
 
 /**
  * StoreCepRangeController â€” HTTP adapter for CEP range management.
@@ -19,7 +32,8 @@ import type { ValidateCepUseCase } from "@/application/cepRange/ValidateCepUseCa
  *   POST   /api/cep-range          â€” add a new range
  *   DELETE /api/cep-range/:id      â€” remove a specific range
  *
- * Public route (unauthenticated, storeId resolved from storeSlug):
+ * Public route (unauthenticated, storeId resolved from storeSlug, rate-limited
+ * per IP):
  *   GET  /api/catalog/:storeSlug/validate-cep?cep=01310000
  */
 export class StoreCepRangeController {
@@ -28,6 +42,7 @@ export class StoreCepRangeController {
     private readonly addUseCase: AddCepRangeUseCase,
     private readonly deleteUseCase: DeleteCepRangeUseCase,
     private readonly validateUseCase: ValidateCepUseCase,
+    private readonly rateLimiter: RateLimiter,
   ) {}
 
   // â”€â”€â”€ GET /api/cep-range â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€
@@ -115,6 +130,10 @@ export class StoreCepRangeController {
     const cep = searchParams.get("cep") ?? "";
 
     try {
+      const { ipAddress } = sessionClientFrom(req.headers);
+      if (ipAddress) {
+        await this.rateLimiter.consume(VALIDATE_PER_IP, ipAddress);
+      }
       const result = await this.validateUseCase.execute(storeSlug, cep);
       return ok(result);
     } catch (err) {
@@ -11,6 +11,14 @@ import type { CreatePickupSlotUseCase } from "@/application/pickupSlot/CreatePic
 import type { TogglePickupSlotUseCase } from "@/application/pickupSlot/TogglePickupSlotUseCase";
 import type { DeletePickupSlotUseCase } from "@/application/pickupSlot/DeletePickupSlotUseCase";
 import type { GetPublicPickupSlotsUseCase } from "@/application/pickupSlot/GetPublicPickupSlotsUseCase";
+import type { UpdatePickupSlotCapacityUseCase } from "@/application/pickupSlot/UpdatePickupSlotCapacityUseCase";
+
+/** Parses an optional capacity limit from a JSON body — null means unlimited. */
+function parseCapacityLimit(value: unknown): number | null {
+  return value === null || value === undefined || value === ""
+    ? null
+    : Number(value);
+}
 
 /**
  * StorePickupSlotController — HTTP adapter for pickup-slot management.
@@ -19,11 +27,14 @@ import type { GetPublicPickupSlotsUseCase } from "@/application/pickupSlot/GetPu
  *   GET    /api/pickup-slots                — list all slots (optionally filter by ?dayOfWeek=)
  *   POST   /api/pickup-slots                — create a new slot
  *   PATCH  /api/pickup-slots/:id           — activate / deactivate
+ *   PUT    /api/pickup-slots/:id/capacity  — set per-date maxOrders / maxItems
  *   DELETE /api/pickup-slots/:id           — permanently remove
  *
  * Public route (unauthenticated, storeId resolved from storeSlug):
  *   GET  /api/catalog/:storeSlug/pickup-slots  — active slots for customer flow
- *                                               (optional ?dayOfWeek=N)
+ *                                               (optional ?dayOfWeek=N, or
+ *                                               ?date=YYYY-MM-DD for remaining
+ *                                               capacity on that date)
  */
 export class StorePickupSlotController {
   constructor(
@@ -32,6 +43,7 @@ export class StorePickupSlotController {
     private readonly toggleSlotUseCase: TogglePickupSlotUseCase,
     private readonly deleteSlotUseCase: DeletePickupSlotUseCase,
     private readonly getPublicSlotsUseCase: GetPublicPickupSlotsUseCase,
+    private readonly updateCapacityUseCase: UpdatePickupSlotCapacityUseCase,
   ) {}
 
   // ─── GET /api/pickup-slots ──────────────────────────────────────────────────
@@ -76,6 +88,8 @@ export class StorePickupSlotController {
           dayOfWeek: Number(body.dayOfWeek),
           startTime: String(body.startTime ?? ""),
           endTime: String(body.endTime ?? ""),
+          maxOrders: parseCapacityLimit(body.maxOrders),
+          maxItems: parseCapacityLimit(body.maxItems),
         });
         return created(slot);
       } catch (err) {
@@ -126,6 +140,41 @@ export class StorePickupSlotController {
     },
   );
 
+  // ─── PUT /api/pickup-slots/:id/capacity ─────────────────────────────────────
+
+  readonly updateCapacity = withAuth(
+    async (
+      req: AuthenticatedRequest,
+      ...args: unknown[]
+    ): Promise<NextResponse> => {
+      const ctx = (args[0] ?? {}) as { params: Promise<{ id: string }> };
+      const { id } = await ctx.params;
+
+      let body: Record<string, unknown>;
+      try {
+        body = (await req.json()) as Record<string, unknown>;
+      } catch {
+        return errorResponse(
+          new AppError("Invalid JSON body.", HttpStatus.BAD_REQUEST),
+        );
+      }
+
+      try {
+        const slot = await this.updateCapacityUseCase.execute({
+          id,
+          storeId: req.session.storeId,
+          maxOrders: parseCapacityLimit(body.maxOrders),
+          maxItems: parseCapacityLimit(body.maxItems),
+        });
+        return ok(slot);
+      } catch (err) {
+        return errorResponse(
+          err instanceof AppError ? err : new AppError("Unexpected error."),
+        );
+      }
+    },
+  );
+
   // ─── DELETE /api/pickup-slots/:id ────────────────────────────────────────────
 
   readonly delete = withAuth(
@@ -158,11 +207,13 @@ export class StorePickupSlotController {
     const { searchParams } = new URL(req.url);
     const raw = searchParams.get("dayOfWeek");
     const dayOfWeek = raw !== null ? Number(raw) : undefined;
+    const date = searchParams.get("date") ?? undefined;
 
     try {
       const result = await this.getPublicSlotsUseCase.execute(
         storeSlug,
         dayOfWeek,
+        date,
       );
       return ok(result);
     } catch (err) {
@@ -1,4 +1,4 @@
-import { NextRequest, NextResponse } from "next/server";
+import { NextRequest, NextResponse, after } from "next/server";
 import { AppError } from "@/shared/errors/AppError";
 import { HttpStatus } from "@/shared/http/statuses";
 import { ok, withErrorHandler } from "@/shared/http";
@@ -7,11 +7,15 @@ import {
   setSuperAdminCookie,
   clearSuperAdminCookie,
 } from "@/infra/http/cookies/superAdminCookie";
+import { sessionClientFrom } from "@/infra/http/auth/sessionClient";
 import type { LoginSuperAdminUseCase } from "@/application/superAdmin/LoginSuperAdminUseCase";
+import type { RequestSuperAdminPasswordResetUseCase } from "@/application/superAdmin/RequestSuperAdminPasswordResetUseCase";
+import type { ResetSuperAdminPasswordUseCase } from "@/application/superAdmin/ResetSuperAdminPasswordUseCase";
 
 const MAX = {
   email: 254,
   password: 128,
+  token: 128,
 } as const;
 
 /**
@@ -23,6 +27,8 @@ const MAX = {
 export class SuperAdminAuthController {
   constructor(
     private readonly loginSuperAdminUseCase: LoginSuperAdminUseCase,
+    private readonly requestPasswordResetUseCase: RequestSuperAdminPasswordResetUseCase,
+    private readonly resetPasswordUseCase: ResetSuperAdminPasswordUseCase,
   ) {}
 
   // ─── POST /api/admin/auth/login ────────────────────────────────────────────
@@ -38,6 +44,7 @@ export class SuperAdminAuthController {
       const { superAdminId } = await this.loginSuperAdminUseCase.execute({
         email: String(email ?? ""),
         password: String(password ?? ""),
+        ipAddress: sessionClientFrom((req as NextRequest).headers).ipAddress,
       });
 
       const token = await signSuperAdminToken({
@@ -51,6 +58,54 @@ export class SuperAdminAuthController {
     },
   );
 
+  // ─── POST /api/admin/auth/password-reset ───────────────────────────────────
+
+  /**
+   * Emails a reset link — same answer whether or not the account exists.
+   * The lookup and the email run after the response, so its timing does
+   * not tell either.
+   */
+  readonly requestPasswordReset = withErrorHandler(
+    async (req: unknown): Promise<NextResponse> => {
+      const body = await this.parseJsonBody(req as NextRequest);
+      const { email } = body;
+
+      this.guardLength("email", email, MAX.email);
+
+      after(() =>
+        this.requestPasswordResetUseCase
+          .execute(String(email ?? ""))
+          .catch((err: unknown) => {
+            console.error(
+              "[SuperAdminAuthController] password reset request failed:",
+              err,
+            );
+          }),
+      );
+
+      return ok({ message: "If the account exists, a reset link was sent." });
+    },
+  );
+
+  // ─── POST /api/admin/auth/password-reset/confirm ───────────────────────────
+
+  readonly resetPassword = withErrorHandler(
+    async (req: unknown): Promise<NextResponse> => {
+      const body = await this.parseJsonBody(req as NextRequest);
+      const { token, password } = body;
+
+      this.guardLength("token", token, MAX.token);
+      this.guardLength("password", password, MAX.password);
+
+      await this.resetPasswordUseCase.execute({
+        token: String(token ?? ""),
+        password: String(password ?? ""),
+      });
+
+      return ok({ message: "Password updated." });
+    },
+  );
+
   // ─── POST /api/admin/auth/logout ───────────────────────────────────────────
 
   readonly logout = withErrorHandler(async (): Promise<NextResponse> => {
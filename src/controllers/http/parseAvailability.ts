@@ -0,0 +1,32 @@
+import type { AvailabilityRule } from "@/domain/product/ProductAvailability";
+
+/**
+ * Coerces the `availability` payload shared by the product and category
+ * routes; the use cases validate the values.
+ *
+ * Empty strings and null clear a field.  Returns undefined when the
+ * payload has no rule, so updates leave the current one untouched.
+ */
+export function parseAvailability(
+  value: unknown,
+): AvailabilityRule | undefined {
+  if (value === undefined || value === null || typeof value !== "object") {
+    return undefined;
+  }
+  const raw = value as Record<string, unknown>;
+  const optional = (v: unknown) =>
+    v === null || v === undefined || v === "" ? null : v;
+
+  const from = optional(raw.availableFrom);
+  const until = optional(raw.availableUntil);
+  const lead = optional(raw.leadTimeDays);
+
+  return {
+    availableWeekdays: Array.isArray(raw.availableWeekdays)
+      ? raw.availableWeekdays.map(Number)
+      : [],
+    availableFrom: from === null ? null : String(from),
+    availableUntil: until === null ? null : String(until),
+    leadTimeDays: lead === null ? null : Number(lead),
+  };
+}
@@ -0,0 +1,51 @@
+/**
+ * Account tokens — pure TypeScript, no Prisma, no Next.js.
+ *
+ * Design rationale:
+ * ─ Password reset and email verification links carry a random token; only
+ *   its hash is stored, like invites and sessions.
+ * ─ A token works once and for a limited time.  Issuing a new one for the
+ *   same account and purpose discards the previous — only the latest email
+ *   counts.
+ * ─ Super admins share the table through their own purpose; their tokens
+ *   are never accepted by the store flows, nor the reverse.
+ */
+
+// ─── Enums ────────────────────────────────────────────────────────────────────
+
+/** Mirrors the Prisma enum of the same name. */
+export enum AccountTokenPurpose {
+  PASSWORD_RESET = "PASSWORD_RESET",
+  EMAIL_VERIFICATION = "EMAIL_VERIFICATION",
+  SUPER_ADMIN_PASSWORD_RESET = "SUPER_ADMIN_PASSWORD_RESET",
+}
+
+// ─── Entities ─────────────────────────────────────────────────────────────────
+
+export interface AccountToken {
+  id: string;
+  purpose: AccountTokenPurpose;
+  /** Admin id, or SuperAdmin id for SUPER_ADMIN_PASSWORD_RESET. */
+  subjectId: string;
+  expiresAt: Date;
+  usedAt: Date | null;
+  createdAt: Date;
+}
+
+// ─── Input types ──────────────────────────────────────────────────────────────
+
+export interface IssueAccountTokenInput {
+  purpose: AccountTokenPurpose;
+  subjectId: string;
+  tokenHash: string;
+  expiresAt: Date;
+}
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+/** How long a link stays valid, per purpose. */
+export const ACCOUNT_TOKEN_TTL_MINUTES: Record<AccountTokenPurpose, number> = {
+  [AccountTokenPurpose.PASSWORD_RESET]: 60,
+  [AccountTokenPurpose.EMAIL_VERIFICATION]: 48 * 60,
+  [AccountTokenPurpose.SUPER_ADMIN_PASSWORD_RESET]: 60,
+};
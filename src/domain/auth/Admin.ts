@@ -1,3 +1,5 @@
+import type { StaffRole } from "./StaffRole";
+
 /**
  * Admin entity — minimal shape used during authentication.
  *
@@ -9,5 +11,8 @@ export interface Admin {
   email: string;
   passwordHash: string;
   storeId: string;
+  role: StaffRole;
   storeStatus: string;
+  /** null until the user confirms the address through an emailed link. */
+  emailVerifiedAt: Date | null;
 }
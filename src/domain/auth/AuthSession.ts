@@ -0,0 +1,77 @@
+import type { StaffRole } from "./StaffRole";
+
+/**
+ * Admin sessions — pure TypeScript, no Prisma, no Next.js, no HTTP.
+ *
+ * Design rationale:
+ * ─ Signing in opens a session: one row per device, holding the hash of a
+ *   long-lived refresh token.  Requests carry a short-lived access token
+ *   (JWT) naming the session, and are accepted only while it is active —
+ *   revoking a session signs its device out at once.
+ * ─ Every refresh rotates the refresh token.  The replaced token is kept
+ *   (hashed) for REFRESH_REUSE_GRACE_MS: parallel requests of one page may
+ *   present it together.  Presented later, it can only be a copy — the
+ *   session is revoked.
+ * ─ A refresh re-reads the user, so role changes apply from the next
+ *   access token and removed users or suspended stores lose access.
+ */
+
+// ─── Entities ─────────────────────────────────────────────────────────────────
+
+export interface AuthSession {
+  id: string;
+  adminId: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: Date;
+  lastUsedAt: Date;
+  expiresAt: Date;
+  revokedAt: Date | null;
+}
+
+/** What an access token says about its holder. */
+export interface SessionClaims {
+  adminId: string;
+  storeId: string;
+  role: StaffRole;
+  sessionId: string;
+}
+
+/** The device opening or refreshing a session, as seen in the request. */
+export interface SessionClient {
+  userAgent: string | null;
+  ipAddress: string | null;
+}
+
+/** A session opened or refreshed: claims and, when rotated, a new token. */
+export interface IssuedSession {
+  claims: SessionClaims;
+  /** null when a concurrent request already rotated the token. */
+  refreshToken: string | null;
+  refreshExpiresAt: Date;
+}
+
+// ─── Input types ──────────────────────────────────────────────────────────────
+
+export interface CreateAuthSessionInput extends SessionClient {
+  adminId: string;
+  tokenHash: string;
+  expiresAt: Date;
+}
+
+/** A session found by one of its refresh token hashes. */
+export interface AuthSessionMatch {
+  session: AuthSession;
+  /** false when the hash is the previous, already rotated token. */
+  current: boolean;
+  rotatedAt: Date | null;
+}
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+/** How long a replaced refresh token is still accepted (without rotating). */
+export const REFRESH_REUSE_GRACE_MS = 30_000;
+
+export function isSessionActive(session: AuthSession, now: Date): boolean {
+  return session.revokedAt === null && session.expiresAt > now;
+}
@@ -0,0 +1,17 @@
+import type { AccountToken, IssueAccountTokenInput } from "./AccountToken";
+
+/**
+ * IAccountTokenRepository — password reset and email verification tokens.
+ */
+export interface IAccountTokenRepository {
+  /** Stores a token, discarding the unused ones of the same subject and purpose. */
+  issue(input: IssueAccountTokenInput): Promise<AccountToken>;
+
+  findByTokenHash(tokenHash: string): Promise<AccountToken | null>;
+
+  /**
+   * Marks the token used, atomically: returns false when it was already
+   * used or has expired at `now`.
+   */
+  consume(id: string, now: Date): Promise<boolean>;
+}
@@ -5,8 +5,9 @@ import type { Admin } from "./Admin";
  *
  * Defined in the domain — infrastructure implementations must comply.
  *
- * Authentication is the only domain concern here:
- * the repository exposes only the lookup needed to verify credentials.
+ * Authentication is the only domain concern here: the lookups needed to
+ * verify credentials and refresh sessions, the password change and email
+ * verification.
  */
 export interface IAdminRepository {
   /**
@@ -15,4 +16,11 @@ export interface IAdminRepository {
    * their user-facing responses (enumeration prevention).
    */
   findByEmail(email: string): Promise<Admin | null>;
+
+  findById(id: string): Promise<Admin | null>;
+
+  updatePasswordHash(id: string, passwordHash: string): Promise<void>;
+
+  /** Keeps the first verification date when already verified. */
+  markEmailVerified(id: string, at: Date): Promise<void>;
 }
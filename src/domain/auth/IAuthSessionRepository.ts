@@ -0,0 +1,40 @@
+import type {
+  AuthSession,
+  AuthSessionMatch,
+  CreateAuthSessionInput,
+} from "./AuthSession";
+
+/**
+ * IAuthSessionRepository — signed-in devices of the store users.
+ */
+export interface IAuthSessionRepository {
+  create(input: CreateAuthSessionInput): Promise<AuthSession>;
+
+  /** Looks a refresh token hash up among current and previous tokens. */
+  findByTokenHash(tokenHash: string): Promise<AuthSessionMatch | null>;
+
+  /**
+   * Replaces the refresh token of an active session, atomically: returns
+   * false when `currentHash` is no longer the session's token (a concurrent
+   * refresh won) or the session was revoked.
+   */
+  rotate(
+    id: string,
+    currentHash: string,
+    newHash: string,
+    expiresAt: Date,
+    now: Date,
+  ): Promise<boolean>;
+
+  /** Whether the session is neither revoked nor expired at `now`. */
+  isActive(id: string, now: Date): Promise<boolean>;
+
+  /** Active sessions of one user, most recently used first. */
+  listActive(adminId: string, now: Date): Promise<AuthSession[]>;
+
+  /** Returns false when no active session of the user matches. */
+  revoke(id: string, adminId: string): Promise<boolean>;
+
+  /** Revokes every active session of the user; returns how many. */
+  revokeAll(adminId: string): Promise<number>;
+}
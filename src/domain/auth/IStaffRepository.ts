@@ -0,0 +1,49 @@
+import type {
+  CreateStaffInviteInput,
+  StaffInvite,
+  StaffInviteDetails,
+  StaffMember,
+} from "./Staff";
+import type { StaffRole } from "./StaffRole";
+
+/**
+ * IStaffRepository — the users of a store and their invites.
+ *
+ * Every method is scoped by storeId except the invite lookup by token,
+ * which is how a not-yet-user reaches their invite.
+ */
+export interface IStaffRepository {
+  /** Oldest first — the OWNER leads. */
+  listMembers(storeId: string): Promise<StaffMember[]>;
+
+  findMember(id: string, storeId: string): Promise<StaffMember | null>;
+
+  /** Returns false when no member matches. */
+  updateRole(id: string, storeId: string, role: StaffRole): Promise<boolean>;
+
+  /** Returns false when no member matches. */
+  deleteMember(id: string, storeId: string): Promise<boolean>;
+
+  /** Whether a user of any store already signs in with `email`. */
+  isEmailTaken(email: string): Promise<boolean>;
+
+  /** Invites neither accepted nor expired by `now`, newest first. */
+  listPendingInvites(storeId: string, now: Date): Promise<StaffInvite[]>;
+
+  createInvite(input: CreateStaffInviteInput): Promise<StaffInvite>;
+
+  findInviteByTokenHash(tokenHash: string): Promise<StaffInviteDetails | null>;
+
+  /** Removes a pending invite. Returns false when none matches. */
+  deleteInvite(id: string, storeId: string): Promise<boolean>;
+
+  /**
+   * Creates the invited user and marks the invite accepted, atomically.
+   * Returns null when the invite was accepted meanwhile.
+   * Throws AppError(CONFLICT) when the email already signs in.
+   */
+  acceptInvite(
+    inviteId: string,
+    passwordHash: string,
+  ): Promise<StaffMember | null>;
+}
@@ -0,0 +1,49 @@
+import type { StaffRole } from "./StaffRole";
+
+/**
+ * Store staff — the users of a store and the invites that add them.
+ * Pure TypeScript; see StaffRole.ts for what each role may do.
+ */
+
+// ─── Entities ─────────────────────────────────────────────────────────────────
+
+export interface StaffMember {
+  id: string;
+  storeId: string;
+  email: string;
+  role: StaffRole;
+  createdAt: Date;
+}
+
+export interface StaffInvite {
+  id: string;
+  storeId: string;
+  email: string;
+  role: StaffRole;
+  expiresAt: Date;
+  /** Set once the invite created its user. */
+  acceptedAt: Date | null;
+  createdAt: Date;
+}
+
+/** An invite as shown to the person accepting it. */
+export interface StaffInviteDetails extends StaffInvite {
+  storeName: string;
+}
+
+// ─── Input types ──────────────────────────────────────────────────────────────
+
+export interface CreateStaffInviteInput {
+  storeId: string;
+  email: string;
+  role: StaffRole;
+  /** SHA-256 of the token sent in the link — the token itself is never stored. */
+  tokenHash: string;
+  expiresAt: Date;
+  invitedById: string;
+}
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+/** How long an invite link stays valid. */
+export const STAFF_INVITE_TTL_DAYS = 7;
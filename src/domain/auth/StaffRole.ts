@@ -0,0 +1,87 @@
+/**
+ * Store staff roles and permissions — pure TypeScript, no Prisma, no Next.js.
+ *
+ * Design rationale:
+ * ─ A store has many users (Admins); each carries one role.  The role is
+ *   signed into the session token, so checks need no database round-trip.
+ * ─ Code asks for a Permission, never for a role: what a role may do is
+ *   decided here and nowhere else.
+ * ─ MANAGE_STORE covers everything the dashboard did before roles existed
+ *   (catalog, orders, customers, settings…) and is the default requirement
+ *   of withAuth and getSession — new routes stay closed to kitchen and
+ *   delivery users unless they opt in.
+ * ─ Every store keeps exactly one OWNER, the user who registered it.
+ *   Invites can grant any other role.
+ */
+
+// ─── Enums ────────────────────────────────────────────────────────────────────
+
+/** Mirrors the Prisma enum of the same name. */
+export enum StaffRole {
+  OWNER = "OWNER",
+  MANAGER = "MANAGER",
+  KITCHEN = "KITCHEN",
+  DELIVERY = "DELIVERY",
+}
+
+export enum Permission {
+  /** Catalog, orders, customers, coupons, agenda and settings. */
+  MANAGE_STORE = "MANAGE_STORE",
+  /** The store's users and invites. */
+  MANAGE_STAFF = "MANAGE_STAFF",
+  /** Production board and daily checklist. */
+  PRODUCTION = "PRODUCTION",
+  /** Today's delivery orders. */
+  DELIVERIES = "DELIVERIES",
+}
+
+// ─── Permissions ──────────────────────────────────────────────────────────────
+
+const ROLE_PERMISSIONS: Record<StaffRole, readonly Permission[]> = {
+  [StaffRole.OWNER]: [
+    Permission.MANAGE_STORE,
+    Permission.MANAGE_STAFF,
+    Permission.PRODUCTION,
+    Permission.DELIVERIES,
+  ],
+  [StaffRole.MANAGER]: [
+    Permission.MANAGE_STORE,
+    Permission.PRODUCTION,
+    Permission.DELIVERIES,
+  ],
+  [StaffRole.KITCHEN]: [Permission.PRODUCTION],
+  [StaffRole.DELIVERY]: [Permission.DELIVERIES],
+};
+
+export function isStaffRole(value: unknown): value is StaffRole {
+  return (
+    typeof value === "string" &&
+    Object.values(StaffRole).includes(value as StaffRole)
+  );
+}
+
+export function hasPermission(
+  role: StaffRole,
+  permission: Permission,
+): boolean {
+  return ROLE_PERMISSIONS[role]?.includes(permission) ?? false;
+}
+
+/** Roles an invite can grant — every role but OWNER. */
+export const INVITABLE_ROLES: readonly StaffRole[] = [
+  StaffRole.MANAGER,
+  StaffRole.KITCHEN,
+  StaffRole.DELIVERY,
+];
+
+/** The page a user lands on, and is sent back to when a page is off-limits. */
+export function homePathForRole(role: StaffRole): string {
+  switch (role) {
+    case StaffRole.KITCHEN:
+      return "/dashboard/production";
+    case StaffRole.DELIVERY:
+      return "/dashboard/deliveries";
+    default:
+      return "/dashboard";
+  }
+}
@@ -16,6 +16,8 @@ export interface ICatalogRepository {
    *
    * Products are returned ordered by name ascending; variants by sortOrder.
    * Only active products and active variants are included.
+   * Prices are the stored ones, with the pending priceSchedules alongside;
+   * GetStoreCatalogUseCase resolves them.
    */
   findBySlug(slug: string, categorySlug?: string): Promise<StoreCatalog | null>;
 }
@@ -1,5 +1,11 @@
 import type { PricingType } from "@/domain/product/Product";
+import type { ProductOptionGroupType } from "@/domain/product/ProductOption";
 import type { StorePickupAddress } from "@/domain/store/types";
+import type {
+  AvailabilityIssue,
+  AvailabilityRule,
+} from "@/domain/product/ProductAvailability";
+import type { PriceSchedule } from "@/domain/product/PriceSchedule";
 
 /**
  * Catalog domain types — public-facing, read-only view of a store's offering.
@@ -37,16 +43,46 @@ export interface CatalogImage {
 export interface CatalogVariant {
   id: string;
   label: string;
+  /** Per kg for WEIGHT-priced variants. Promo price while one applies. */
   price: number;
+  /** Regular price, struck through while a promo applies. Otherwise null. */
+  originalPrice: number | null;
   pricingType: PricingType;
-  /** Base weight quantity for WEIGHT-priced variants (e.g. 250). Null for UNIT. */
+  /** Minimum weight for WEIGHT-priced variants (e.g. 500). Null for UNIT. */
   weightValue: number | null;
-  /** Unit of weight: "g" or "kg". Null for UNIT variants. */
+  /** Unit of weightValue and weightStep: "g" or "kg". Null for UNIT variants. */
   weightUnit: string | null;
+  /** Increment above the minimum weight. Null for UNIT variants. */
+  weightStep: number | null;
+  /**
+   * Units left for sale — the variant's own stock, else the product's.
+   * Null = made to order (not tracked).
+   */
+  stockAvailable: number | null;
   isActive: boolean;
   sortOrder: number;
 }
 
+// ─── Catalog Option Group ────────────────────────────────────────────────────
+
+export interface CatalogOption {
+  id: string;
+  label: string;
+  /** Added to the unit price for each unit picked. 0 = free. */
+  price: number;
+  maxQuantity: number;
+}
+
+export interface CatalogOptionGroup {
+  id: string;
+  name: string;
+  type: ProductOptionGroupType;
+  minSelections: number;
+  maxSelections: number;
+  /** Ordered by sortOrder. Empty for TEXT groups. */
+  options: CatalogOption[];
+}
+
 // ─── Catalog Product ─────────────────────────────────────────────────────────
 
 export interface CatalogProduct {
@@ -56,9 +92,29 @@ export interface CatalogProduct {
   /**
    * Fixed price for simple products (null = variant-priced).
    * When null, pricing is determined by the selected variant.
+   * Resolved by GetStoreCatalogUseCase for now or the delivery date.
    */
   price: number | null;
+  /** Regular price, struck through while a promo applies. Otherwise null. */
+  originalPrice: number | null;
+  /** Scheduled prices of the product and its variants (see PriceSchedule). */
+  priceSchedules: PriceSchedule[];
   minQuantity: number;
+  /** Units left of the product's own stock. Null = not tracked. */
+  stockAvailable: number | null;
+  /** True when stock is tracked and nothing is left ("Esgotado"). */
+  soldOut: boolean;
+  /**
+   * Days the product can be made: its own rule merged with its
+   * categories' (see mergeAvailability).  leadTimeDays null = the store's
+   * minimumAdvanceDays.
+   */
+  availability: AvailabilityRule;
+  /**
+   * Why the product cannot be made for the delivery date passed to
+   * GetStoreCatalogUseCase.  null when it can, or when no date was given.
+   */
+  unavailableReason: AvailabilityIssue | null;
   /** Public URL of the main image (position = 1), or null when no images exist. */
   mainImageUrl: string | null;
   /**
@@ -67,6 +123,8 @@ export interface CatalogProduct {
    */
   images: CatalogImage[];
   variants: CatalogVariant[];
+  /** Extras picked on top of the variant, ordered by sortOrder. */
+  optionGroups: CatalogOptionGroup[];
 }
 
 // ─── Store Catalog ────────────────────────────────────────────────────────────
@@ -88,6 +146,8 @@ export interface StoreCatalog {
   defaultDeliveryFee: number;
   /** Minimum number of days in advance customers must place orders (0 = same-day). */
   minimumAdvanceDays: number;
+  /** Maximum item units the store produces per delivery date. null = unlimited. */
+  dailyCapacity: number | null;
   /** Active categories ordered by position. */
   categories: StoreCatalogCategory[];
   products: CatalogProduct[];
@@ -6,6 +6,8 @@
  * query remains tenant-scoped even when categories are fetched independently.
  */
 
+import type { AvailabilityRule } from "@/domain/product/ProductAvailability";
+
 // ─── Category entity ──────────────────────────────────────────────────────────
 
 export interface Category {
@@ -16,6 +18,8 @@ export interface Category {
   slug: string;
   /** Display order in the catalog tab bar and admin list (lower = first). */
   position: number;
+  /** Applies to the category's products where they set no rule of their own. */
+  availability: AvailabilityRule;
   isActive: boolean;
   createdAt: Date;
   updatedAt: Date;
@@ -49,6 +53,8 @@ export interface UpdateCategoryInput {
   name?: string;
   slug?: string;
   isActive?: boolean;
+  /** When provided, replaces the whole rule. */
+  availability?: AvailabilityRule;
 }
 
 /** Lightweight public projection returned by list/detail queries. */
@@ -58,6 +64,7 @@ export interface CategorySummary {
   name: string;
   slug: string;
   position: number;
+  availability: AvailabilityRule;
   isActive: boolean;
   /** Number of active products assigned to this category. */
   productCount: number;
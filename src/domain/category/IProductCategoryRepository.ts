@@ -42,6 +42,14 @@ export interface IProductCategoryRepository {
     storeId: string,
   ): Promise<Pick<Category, "id" | "name" | "slug">[]>;
 
+  /**
+   * Return every product↔category assignment of a store, ordered by
+   * category position.  Used by the product CSV export.
+   */
+  findAssignmentsByStore(
+    storeId: string,
+  ): Promise<{ productId: string; categoryId: string }[]>;
+
   /**
    * Bulk-reorder products within a category.
    * orderedProductIds must contain exactly the IDs currently assigned.
@@ -0,0 +1,229 @@
+/**
+ * Coupon domain model — pure TypeScript, no Prisma, no Next.js, no HTTP.
+ *
+ * Design rationale:
+ * ─ A coupon belongs to one store and is identified by a code the customer
+ *   types in the catalog cart.  Codes are case-insensitive: they are stored
+ *   and compared upper-case (normalizeCouponCode).
+ * ─ The discount is written per unit into OrderItem.discountAmount, so
+ *   lineTotal = (unitPrice - discountAmount) * quantity keeps holding and
+ *   every existing total (dashboard, customers, tracking) reflects it.
+ * ─ Usage limits are checked against the orders that reference the coupon
+ *   (rejected orders excluded) instead of a counter on the coupon.
+ * ─ Rules are pure functions (findCouponRejection, computeCouponDiscounts);
+ *   the application layer loads the data and maps rejections to messages.
+ */
+
+// ─── Enums ────────────────────────────────────────────────────────────────────
+
+/**
+ * PERCENTAGE — discountValue % off (0 < value <= 100).
+ * FIXED      — discountValue BRL off.
+ */
+export enum CouponDiscountType {
+  PERCENTAGE = "PERCENTAGE",
+  FIXED = "FIXED",
+}
+
+/**
+ * What the discount applies to.
+ * ORDER    — the whole items subtotal.
+ * PRODUCT  — every unit of one product (productId).
+ * CATEGORY — every unit of the products in one category (categoryId).
+ */
+export enum CouponScope {
+  ORDER = "ORDER",
+  PRODUCT = "PRODUCT",
+  CATEGORY = "CATEGORY",
+}
+
+/** Longest code accepted — matches the database column. */
+export const COUPON_CODE_MAX_LENGTH = 40;
+
+// ─── Entity ───────────────────────────────────────────────────────────────────
+
+export interface Coupon {
+  id: string;
+  storeId: string;
+  /** Upper-case code, unique per store. */
+  code: string;
+  discountType: CouponDiscountType;
+  /** Percentage for PERCENTAGE coupons, BRL amount for FIXED ones. */
+  discountValue: number;
+  scope: CouponScope;
+  /** Target product. PRODUCT scope only. */
+  productId: string | null;
+  /** Target category. CATEGORY scope only. */
+  categoryId: string | null;
+  /** Validity window. Null = no bound. */
+  startsAt: Date | null;
+  endsAt: Date | null;
+  /** Total redemptions allowed. Null = unlimited. */
+  maxUses: number | null;
+  /** Redemptions allowed per WhatsApp number. Null = unlimited. */
+  maxUsesPerCustomer: number | null;
+  /** Minimum items subtotal, before discounts. Null = no minimum. */
+  minSubtotal: number | null;
+  /** Waives the delivery fee of DELIVERY orders. */
+  freeDelivery: boolean;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/** Coupon with its redemption count — dashboard list. */
+export interface CouponWithUsage extends Coupon {
+  /** Orders that redeemed the coupon, rejected ones excluded. */
+  usageCount: number;
+}
+
+// ─── Input types ─────────────────────────────────────────────────────────────
+
+export interface CreateCouponInput {
+  storeId: string;
+  code: string;
+  discountType: CouponDiscountType;
+  discountValue: number;
+  scope: CouponScope;
+  productId?: string | null;
+  categoryId?: string | null;
+  startsAt?: Date | null;
+  endsAt?: Date | null;
+  maxUses?: number | null;
+  maxUsesPerCustomer?: number | null;
+  minSubtotal?: number | null;
+  freeDelivery?: boolean;
+}
+
+// ─── Domain helpers ───────────────────────────────────────────────────────────
+
+/** Canonical form of a code as typed by the customer or the store. */
+export function normalizeCouponCode(raw: string): string {
+  return raw.trim().toUpperCase();
+}
+
+/** Everything findCouponRejection needs to know about the redemption. */
+export interface CouponRedemptionContext {
+  now: Date;
+  /** Items subtotal before any discount. */
+  subtotal: number;
+  /** Orders that already redeemed the coupon. */
+  totalUses: number;
+  /** Orders of this WhatsApp number that already redeemed it. */
+  customerUses: number;
+}
+
+export type CouponRejection =
+  | "INACTIVE"
+  | "NOT_STARTED"
+  | "EXPIRED"
+  | "USAGE_LIMIT"
+  | "CUSTOMER_LIMIT"
+  | "BELOW_MINIMUM";
+
+/**
+ * findCouponRejection — first rule the redemption breaks, or null when the
+ * coupon can be used.  Whether the cart contains an eligible item is checked
+ * separately (computeCouponDiscounts).
+ */
+export function findCouponRejection(
+  coupon: Coupon,
+  ctx: CouponRedemptionContext,
+): CouponRejection | null {
+  if (!coupon.isActive) return "INACTIVE";
+  if (coupon.startsAt && ctx.now < coupon.startsAt) return "NOT_STARTED";
+  if (coupon.endsAt && ctx.now > coupon.endsAt) return "EXPIRED";
+  if (coupon.maxUses !== null && ctx.totalUses >= coupon.maxUses) {
+    return "USAGE_LIMIT";
+  }
+  if (
+    coupon.maxUsesPerCustomer !== null &&
+    ctx.customerUses >= coupon.maxUsesPerCustomer
+  ) {
+    return "CUSTOMER_LIMIT";
+  }
+  if (coupon.minSubtotal !== null && ctx.subtotal < coupon.minSubtotal) {
+    return "BELOW_MINIMUM";
+  }
+  return null;
+}
+
+/** A cart line as far as discount computation is concerned. */
+export interface CouponLine {
+  productId: string;
+  /** Categories of the product — used by CATEGORY coupons. */
+  categoryIds: string[];
+  unitPrice: number;
+  quantity: number;
+}
+
+/** Rounds down to whole cents so a discount never exceeds what was promised. */
+function floorCents(value: number): number {
+  return Math.floor(value * 100 + 1e-6) / 100;
+}
+
+/** Whether the coupon targets this line. ORDER coupons target every line. */
+export function isLineEligible(coupon: Coupon, line: CouponLine): boolean {
+  switch (coupon.scope) {
+    case CouponScope.ORDER:
+      return true;
+    case CouponScope.PRODUCT:
+      return line.productId === coupon.productId;
+    case CouponScope.CATEGORY:
+      return (
+        coupon.categoryId !== null &&
+        line.categoryIds.includes(coupon.categoryId)
+      );
+  }
+}
+
+/**
+ * computeCouponDiscounts — per-unit discount of each line, in input order.
+ *
+ * ─ PERCENTAGE: discountValue % of the unit price of every eligible line.
+ * ─ FIXED, PRODUCT / CATEGORY scope: discountValue off every eligible unit.
+ * ─ FIXED, ORDER scope: discountValue off the subtotal, split across lines
+ *   in proportion to their totals.  Because discounts are stored per unit
+ *   and rounded down to the cent, the total may fall a few cents short.
+ *
+ * A unit is never discounted below zero.
+ *
+ * @example
+ *   // 10% off, two lines
+ *   computeCouponDiscounts(tenPercent, [
+ *     { productId: "a", categoryIds: [], unitPrice: 50, quantity: 2 },
+ *     { productId: "b", categoryIds: [], unitPrice: 8, quantity: 1 },
+ *   ])
+ *   // → [5, 0.8]
+ */
+export function computeCouponDiscounts(
+  coupon: Coupon,
+  lines: CouponLine[],
+): number[] {
+  const eligible = lines.map((line) => isLineEligible(coupon, line));
+
+  if (
+    coupon.discountType === CouponDiscountType.FIXED &&
+    coupon.scope === CouponScope.ORDER
+  ) {
+    const subtotal = lines.reduce(
+      (sum, line) => sum + line.unitPrice * line.quantity,
+      0,
+    );
+    if (subtotal <= 0) return lines.map(() => 0);
+    const amount = Math.min(coupon.discountValue, subtotal);
+    return lines.map((line) => {
+      const share = (amount * line.unitPrice * line.quantity) / subtotal;
+      return Math.min(floorCents(share / line.quantity), line.unitPrice);
+    });
+  }
+
+  return lines.map((line, i) => {
+    if (!eligible[i]) return 0;
+    const perUnit =
+      coupon.discountType === CouponDiscountType.PERCENTAGE
+        ? floorCents((line.unitPrice * coupon.discountValue) / 100)
+        : coupon.discountValue;
+    return Math.min(perUnit, line.unitPrice);
+  });
+}
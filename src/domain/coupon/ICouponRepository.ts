@@ -0,0 +1,55 @@
+import type { Coupon, CouponWithUsage, CreateCouponInput } from "./Coupon";
+
+/**
+ * ICouponRepository — domain port.
+ *
+ * Concrete implementation: PrismaCouponRepository
+ *
+ * Redemption rules (validity, limits, minimum subtotal) live in the domain
+ * and application layers; the repository only performs I/O.
+ */
+export interface ICouponRepository {
+  // ─── Queries ──────────────────────────────────────────────────────────────
+
+  /** All coupons of a store with their redemption counts, newest first. */
+  findByStore(storeId: string): Promise<CouponWithUsage[]>;
+
+  /**
+   * Find a coupon by its (already normalised) code, scoped by storeId.
+   * Returns null when no coupon of the store has that code.
+   */
+  findByCode(storeId: string, code: string): Promise<Coupon | null>;
+
+  /** Find a coupon by id, scoped by storeId. Returns null when not found. */
+  findById(id: string, storeId: string): Promise<Coupon | null>;
+
+  /**
+   * Orders that redeemed the coupon, rejected ones excluded.
+   * When customerWhatsapp is given, only that customer's orders count.
+   */
+  countRedemptions(
+    couponId: string,
+    customerWhatsapp?: string,
+  ): Promise<number>;
+
+  // ─── Mutations ─────────────────────────────────────────────────────────────
+
+  /** Persist a new coupon. The code must already be normalised. */
+  create(input: CreateCouponInput): Promise<Coupon>;
+
+  /**
+   * Flip isActive on an existing coupon.
+   * Returns null if the coupon does not exist or belongs to a different store.
+   */
+  setActive(
+    id: string,
+    storeId: string,
+    isActive: boolean,
+  ): Promise<Coupon | null>;
+
+  /**
+   * Permanently remove a coupon. Orders keep their couponCode snapshot.
+   * Returns true if deleted, false if not found or belongs to a different store.
+   */
+  delete(id: string, storeId: string): Promise<boolean>;
+}
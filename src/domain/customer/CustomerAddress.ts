@@ -0,0 +1,34 @@
+/**
+ * Saved delivery addresses of a signed-in customer — pure TypeScript.
+ *
+ * The fields mirror the structured delivery address of an Order, so a
+ * saved address fills the checkout form as is.  Addresses belong to the
+ * Customer row, which is already scoped to one store.
+ */
+
+/** Addresses a customer may keep per store. */
+export const MAX_CUSTOMER_ADDRESSES = 10;
+
+export interface CustomerAddress {
+  id: string;
+  customerId: string;
+  /** Optional nickname ("Casa", "Trabalho"). */
+  label: string | null;
+  /** 8-digit CEP, no hyphen. */
+  cep: string;
+  street: string;
+  number: string;
+  neighborhood: string;
+  city: string;
+  createdAt: Date;
+}
+
+export interface CreateCustomerAddressInput {
+  customerId: string;
+  label: string | null;
+  cep: string;
+  street: string;
+  number: string;
+  neighborhood: string;
+  city: string;
+}
@@ -0,0 +1,35 @@
+/**
+ * Customer login codes — pure TypeScript, no Prisma, no Next.js.
+ *
+ * Design rationale:
+ * ─ Customers sign in with their WhatsApp number: a short numeric code is
+ *   sent there and typed back.  Owning the number is the whole credential,
+ *   so there is no password to forget.
+ * ─ A code belongs to a (store, WhatsApp) pair — customers are per store.
+ *   Asking again replaces the previous code.
+ * ─ Only a hash is stored.  A code is checked at most LOGIN_CODE_MAX_ATTEMPTS
+ *   times, so its six digits cannot be brute-forced within its TTL.
+ */
+
+export const LOGIN_CODE_LENGTH = 6;
+export const LOGIN_CODE_TTL_MINUTES = 10;
+export const LOGIN_CODE_MAX_ATTEMPTS = 5;
+
+export interface CustomerLoginCode {
+  id: string;
+  storeId: string;
+  /** Normalised digits-only WhatsApp number. */
+  whatsapp: string;
+  codeHash: string;
+  /** Checks made so far, right or wrong. */
+  attempts: number;
+  expiresAt: Date;
+  createdAt: Date;
+}
+
+export interface IssueCustomerLoginCodeInput {
+  storeId: string;
+  whatsapp: string;
+  codeHash: string;
+  expiresAt: Date;
+}
@@ -0,0 +1,23 @@
+import type {
+  CreateCustomerAddressInput,
+  CustomerAddress,
+} from "./CustomerAddress";
+
+/**
+ * ICustomerAddressRepository — domain port (interface).
+ *
+ * Every method is scoped by customerId — a customer only ever reaches their
+ * own addresses.  The concrete implementation lives in
+ * infra/repositories/PrismaCustomerAddressRepository.ts.
+ */
+export interface ICustomerAddressRepository {
+  /** Oldest first. */
+  listByCustomer(customerId: string): Promise<CustomerAddress[]>;
+
+  countByCustomer(customerId: string): Promise<number>;
+
+  create(input: CreateCustomerAddressInput): Promise<CustomerAddress>;
+
+  /** Returns false when the address does not exist or is someone else's. */
+  delete(id: string, customerId: string): Promise<boolean>;
+}
@@ -0,0 +1,34 @@
+import type {
+  CustomerLoginCode,
+  IssueCustomerLoginCodeInput,
+} from "./CustomerLoginCode";
+
+/**
+ * ICustomerLoginCodeRepository — domain port (interface).
+ *
+ * The concrete implementation lives in
+ * infra/repositories/PrismaCustomerLoginCodeRepository.ts.
+ */
+export interface ICustomerLoginCodeRepository {
+  /** Stores a new code, deleting any previous one of the same number. */
+  issue(input: IssueCustomerLoginCodeInput): Promise<void>;
+
+  /** The current code of the number in the store, expired or not; null when none. */
+  findCurrent(
+    storeId: string,
+    whatsapp: string,
+  ): Promise<CustomerLoginCode | null>;
+
+  /**
+   * Takes one attempt of the code, atomically.  Returns false when the code
+   * has used up maxAttempts or is already gone — used or replaced by a
+   * concurrent request.
+   */
+  claimAttempt(id: string, maxAttempts: number): Promise<boolean>;
+
+  /**
+   * Deletes the code.  Returns false when it was already gone — a
+   * concurrent request used it first.
+   */
+  delete(id: string): Promise<boolean>;
+}
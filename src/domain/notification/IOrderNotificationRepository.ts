@@ -0,0 +1,32 @@
+import type {
+  CreateOrderNotificationInput,
+  OrderNotification,
+  OrderNotificationEvent,
+} from "./OrderNotification";
+
+/**
+ * IOrderNotificationRepository — domain port.
+ *
+ * Append-only log of automated customer messages.  The concrete
+ * implementation lives in:
+ *   src/infra/repositories/PrismaOrderNotificationRepository.ts
+ */
+export interface IOrderNotificationRepository {
+  /** Records one send attempt. */
+  create(input: CreateOrderNotificationInput): Promise<OrderNotification>;
+
+  /**
+   * Returns every attempt for an order, oldest first.
+   * Scoped by storeId — another store's order yields an empty list.
+   */
+  findByOrder(orderId: string, storeId: string): Promise<OrderNotification[]>;
+
+  /**
+   * Returns the ids of the given orders that already have a SENT attempt
+   * for the event.  Used to avoid sending the same message twice.
+   */
+  findOrderIdsWithSent(
+    orderIds: string[],
+    event: OrderNotificationEvent,
+  ): Promise<Set<string>>;
+}
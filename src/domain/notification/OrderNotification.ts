@@ -0,0 +1,68 @@
+/**
+ * OrderNotification — one attempt to send an automated message to the
+ * customer of an order.
+ *
+ * Design rationale:
+ * ─ Append-only: every attempt (including failures and retries) is its own
+ *   record, so support can see exactly what was sent, when and through which
+ *   gateway.
+ * ─ body is the rendered text, frozen at send time — later template edits do
+ *   not rewrite history.
+ */
+
+// ─── OrderNotificationEvent ───────────────────────────────────────────────────
+
+/**
+ * Order lifecycle moments that trigger an automated customer message.
+ * Mirrors the Prisma enum of the same name.
+ */
+export enum OrderNotificationEvent {
+  ORDER_RECEIVED = "ORDER_RECEIVED",
+  ORDER_APPROVED = "ORDER_APPROVED",
+  ORDER_REJECTED = "ORDER_REJECTED",
+  ORDER_PAID = "ORDER_PAID",
+  ORDER_DELIVERED = "ORDER_DELIVERED",
+  ORDER_CANCELLED = "ORDER_CANCELLED",
+  ORDER_READY_FOR_PICKUP = "ORDER_READY_FOR_PICKUP",
+  ORDER_OUT_FOR_DELIVERY = "ORDER_OUT_FOR_DELIVERY",
+  ORDER_REMINDER = "ORDER_REMINDER",
+}
+
+// ─── NotificationStatus ───────────────────────────────────────────────────────
+
+/**
+ * SENT   — the gateway accepted the message.
+ * FAILED — the gateway rejected it or could not be reached.
+ */
+export enum NotificationStatus {
+  SENT = "SENT",
+  FAILED = "FAILED",
+}
+
+// ─── Entity ───────────────────────────────────────────────────────────────────
+
+export interface OrderNotification {
+  id: string;
+  storeId: string;
+  orderId: string;
+  event: OrderNotificationEvent;
+  /** Gateway that handled the attempt (e.g. "whatsapp-cloud", "log"). */
+  channel: string;
+  /** Normalised digits-only WhatsApp number (e.g. "5511999998888"). */
+  recipient: string;
+  /** Rendered message text exactly as sent. */
+  body: string;
+  status: NotificationStatus;
+  /** Provider message id. Null when the attempt failed. */
+  providerMessageId: string | null;
+  /** Provider error description. Null when the attempt succeeded. */
+  error: string | null;
+  createdAt: Date;
+}
+
+// ─── Input types ─────────────────────────────────────────────────────────────
+
+export type CreateOrderNotificationInput = Omit<
+  OrderNotification,
+  "id" | "createdAt"
+>;
@@ -6,8 +6,11 @@ import type {
   CreateOrderInput,
   UpdateOrderInput,
   OrderFilters,
+  PlaceOrderRecord,
 } from "./Order";
 import type { OrderItem } from "./OrderItem";
+import type { OrderChangeContext } from "./OrderStatusLog";
+import type { PickupSlotUsage } from "../pickupSlot/StorePickupSlot";
 
 /**
  * IOrderRepository — domain port (interface).
@@ -51,6 +54,33 @@ export interface IOrderRepository {
     storeId: string,
   ): Promise<OrderWithDetails | null>;
 
+  /**
+   * Returns the most recently created order of the store with details,
+   * or null when the store has no orders yet.
+   * Used by the message settings live preview.
+   */
+  findLatestWithDetails(storeId: string): Promise<OrderWithDetails | null>;
+
+  /**
+   * Returns the order behind a public tracking link, with details.
+   * Null when the token is unknown or belongs to another store.
+   */
+  findByTrackingToken(
+    trackingToken: string,
+    storeId: string,
+  ): Promise<OrderWithDetails | null>;
+
+  /**
+   * Returns APPROVED orders of ALL stores delivered within the range whose
+   * tracking status is still open (neither DELIVERED nor CANCELLED).
+   *
+   * NOT tenant-scoped — only for scheduled system jobs (day-before reminders).
+   */
+  findOpenApprovedForDeliveryRange(
+    from: Date,
+    to: Date,
+  ): Promise<Pick<Order, "id" | "storeId">[]>;
+
   /**
    * Returns a single order by id, tenant-scoped. Null if not found.
    */
@@ -73,24 +103,82 @@ export interface IOrderRepository {
    */
   findAllByCustomer(customerId: string, storeId: string): Promise<Order[]>;
 
+  /**
+   * Returns the order created with the given idempotency key, with customer
+   * info and items loaded. Null when no order used the key in this store.
+   */
+  findByIdempotencyKey(
+    storeId: string,
+    idempotencyKey: string,
+  ): Promise<OrderWithDetails | null>;
+
+  /**
+   * Aggregates the booked load per pickup slot and calendar date (UTC day of
+   * deliveryDate) within [from, to].
+   *
+   * Counts PENDING and APPROVED orders only — REJECTED orders and orders
+   * whose tracking status is CANCELLED free their slot again.
+   * Optionally restricted to a set of slot ids.
+   */
+  getPickupSlotUsage(
+    storeId: string,
+    range: { from: Date; to: Date; pickupSlotIds?: string[] },
+  ): Promise<PickupSlotUsage[]>;
+
   // ─── Commands ───────────────────────────────────────────────────────────────
 
   /**
    * Creates a new order.  Status is always PENDING — domain invariant
    * enforced here and in the Prisma model default.
+   *
+   * Every command below also appends an OrderStatusLog entry in the same
+   * transaction; creation is logged as a SYSTEM change to PENDING.
    */
   create(input: CreateOrderInput): Promise<Order>;
 
   /**
-   * Updates mutable logistics fields (deliveryDate, shippingAddress).
+   * Places a public order atomically: upserts the customer, allocates the
+   * order number, creates the order and its items in a single transaction.
+   *
+   * When the idempotency key was already used (including by a concurrent
+   * request that won the race), the previously created order is returned
+   * instead of creating a second one.
+   *
+   * Lines of products sold from stock reserve their units in the same
+   * transaction; a counter without enough units fails the placement.  A
+   * redeemed coupon is locked and its usage limits re-checked there too, as
+   * are the pickup slot bookings and the daily production capacity.
+   */
+  placeWithItems(record: PlaceOrderRecord): Promise<OrderWithDetails>;
+
+  /**
+   * Updates mutable fields (logistics, delivery fee) and, when
+   * input.items is set, replaces the item set — all in one transaction.
+   * New items re-reserve stock after the old ones release theirs.
+   * Logs a DETAILS entry with the changed fields (none when nothing changed).
    * Returns null when the order is not found or doesn't belong to the store.
    */
   update(
     id: string,
     storeId: string,
     input: UpdateOrderInput,
+    change: OrderChangeContext,
   ): Promise<Order | null>;
 
+  /**
+   * Records the weighed amount of a line sold by weight.
+   * Logs a DETAILS entry with the weighing and the items total before and
+   * after, in the same transaction.
+   * Returns null when the order or the item is not found in the store.
+   */
+  recordItemWeight(
+    orderId: string,
+    storeId: string,
+    itemId: string,
+    finalWeightKg: number,
+    change: OrderChangeContext,
+  ): Promise<OrderItem | null>;
+
   /**
    * Transitions the order to a new status.
    *
@@ -98,6 +186,7 @@ export interface IOrderRepository {
    *   1. Verify the order belongs to the store.
    *   2. Validate the transition is allowed (via canTransitionTo()).
    *   3. Persist the new status and return the updated entity.
+   *   4. On REJECTED, release the stock the order reserved.
    *
    * Returns null  → order not found.
    * Throws Error  → transition not allowed (use canTransitionTo() to pre-check
@@ -107,6 +196,7 @@ export interface IOrderRepository {
     id: string,
     storeId: string,
     newStatus: OrderStatus,
+    change: OrderChangeContext,
   ): Promise<Order | null>;
 
   /**
@@ -117,6 +207,8 @@ export interface IOrderRepository {
    *   2. Order's decision status is APPROVED.
    *   3. Transition is valid per TRACKING_ALLOWED_TRANSITIONS.
    *
+   * Stock: CANCELLED releases what the order reserved; DELIVERED consumes it.
+   *
    * Returns null  → order not found.
    * Throws Error  → invalid transition or decision status != APPROVED.
    */
@@ -124,10 +216,12 @@ export interface IOrderRepository {
     id: string,
     storeId: string,
     newStatus: OrderTrackingStatus,
+    change: OrderChangeContext,
   ): Promise<Order | null>;
 
   /**
-   * Hard-deletes an order.  Returns true if deleted, false if not found.
+   * Hard-deletes an order, releasing its reserved stock first.
+   * Returns true if deleted, false if not found.
    *
    * Intended for admin-level cleanup only.  In most workflows, prefer
    * transitioning to REJECTED to keep audit history.
@@ -0,0 +1,12 @@
+import type { OrderStatusLog } from "./OrderStatusLog";
+
+/**
+ * IOrderStatusLogRepository — read side of the order audit trail.
+ *
+ * There is no create(): entries are written by IOrderRepository together
+ * with the change they describe.
+ */
+export interface IOrderStatusLogRepository {
+  /** Every entry of the order, oldest first. Tenant-scoped. */
+  findByOrder(orderId: string, storeId: string): Promise<OrderStatusLog[]>;
+}
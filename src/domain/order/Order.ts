@@ -11,9 +11,10 @@
  * ─ deliveryDate is mandatory — the store always needs to know when to
  *   prepare the order.
  *
+ * ─ Every transition and edit is recorded in OrderStatusLog.
+ *
  * Planned expansions:
  *   ─ Payment       — payment intent / confirmation reference
- *   ─ StatusHistory — audit trail of every transition with actor + timestamp
  */
 
 // ─── OrderStatus ─────────────────────────────────────────────────────────────
@@ -43,13 +44,15 @@ export enum OrderStatus {
 /**
  * Operational tracking status — active ONLY when OrderStatus = APPROVED.
  *
- * PENDING   → order approved, awaiting payment.
- * PAID      → payment confirmed by the store.
- * DELIVERED → order delivered to the customer.
- * CANCELLED → order cancelled after approval.
+ * PENDING        → order approved, awaiting payment.
+ * PARTIALLY_PAID → deposit or part of the total received.
+ * PAID           → payment confirmed by the store.
+ * DELIVERED      → order delivered to the customer.
+ * CANCELLED      → order cancelled after approval.
  */
 export enum OrderTrackingStatus {
   PENDING = "PENDING",
+  PARTIALLY_PAID = "PARTIALLY_PAID",
   PAID = "PAID",
   DELIVERED = "DELIVERED",
   CANCELLED = "CANCELLED",
@@ -112,8 +115,9 @@ export function canTransitionTo(
 /**
  * TRACKING_ALLOWED_TRANSITIONS — FSM for the post-approval lifecycle.
  *
- * PENDING  → PAID | CANCELLED
- * PAID     → DELIVERED
+ * PENDING        → PARTIALLY_PAID | PAID | CANCELLED
+ * PARTIALLY_PAID → PAID | CANCELLED
+ * PAID           → DELIVERED | PARTIALLY_PAID (an edit raised the total)
  * DELIVERED → (terminal)
  * CANCELLED → (terminal)
  */
@@ -121,10 +125,18 @@ export const TRACKING_ALLOWED_TRANSITIONS: Readonly<
   Record<OrderTrackingStatus, ReadonlyArray<OrderTrackingStatus>>
 > = {
   [OrderTrackingStatus.PENDING]: [
+    OrderTrackingStatus.PARTIALLY_PAID,
+    OrderTrackingStatus.PAID,
+    OrderTrackingStatus.CANCELLED,
+  ],
+  [OrderTrackingStatus.PARTIALLY_PAID]: [
     OrderTrackingStatus.PAID,
     OrderTrackingStatus.CANCELLED,
   ],
-  [OrderTrackingStatus.PAID]: [OrderTrackingStatus.DELIVERED],
+  [OrderTrackingStatus.PAID]: [
+    OrderTrackingStatus.DELIVERED,
+    OrderTrackingStatus.PARTIALLY_PAID,
+  ],
   [OrderTrackingStatus.DELIVERED]: [],
   [OrderTrackingStatus.CANCELLED]: [],
 };
@@ -187,10 +199,27 @@ export interface Order {
    * NULL when status is PENDING or REJECTED.
    */
   orderStatus: OrderTrackingStatus | null;
+  /** Unguessable token of the customer's public tracking page. */
+  trackingToken: string;
+  /** Coupon redeemed at checkout. Null when none, or when it was deleted since. */
+  couponId: string | null;
+  /** Snapshot of the redeemed coupon code — kept even if the coupon is deleted. */
+  couponCode: string | null;
   createdAt: Date;
   updatedAt: Date;
 }
 
+/**
+ * orderTrackingPath — path of the customer's public tracking page.
+ * Prefix with the app origin to build a shareable link.
+ */
+export function orderTrackingPath(
+  storeSlug: string,
+  trackingToken: string,
+): string {
+  return `/catalog/${storeSlug}/pedido/${trackingToken}`;
+}
+
 // ─── Input types ─────────────────────────────────────────────────────────────
 
 export interface CreateOrderInput {
@@ -214,17 +243,43 @@ export interface CreateOrderInput {
   notes?: string | null;
   /** Delivery fee to freeze on the order. 0 for pickup. */
   deliveryFee?: number;
+  /**
+   * Client-generated key that makes order placement replay-safe.
+   * Unique per store — a second create with the same key is rejected.
+   */
+  idempotencyKey?: string | null;
+  /** Coupon redeemed at checkout; its discounts are already on the items. */
+  couponId?: string | null;
+  couponCode?: string | null;
   /**
    * Not accepted here — new orders always start as PENDING (domain invariant).
    * Status is driven exclusively through IOrderRepository.updateStatus().
    */
 }
 
+/**
+ * PlaceOrderRecord — every write of a public order placement.
+ *
+ * Persisted by IOrderRepository.placeWithItems() inside ONE transaction:
+ * customer (found or created), order and items either all exist or none do.
+ */
+export interface PlaceOrderRecord {
+  /** Order fields — customerId is resolved inside the transaction. */
+  order: Omit<CreateOrderInput, "customerId">;
+  /** Looked up by (whatsapp, storeId); created when absent. */
+  customer: { name: string; whatsapp: string };
+  /** Line items with frozen prices — orderId is filled in by the repository. */
+  items: Omit<import("./OrderItem").CreateOrderItemInput, "orderId">[];
+}
+
 /**
  * UpdateOrderInput — fields a store owner can change while the order is open.
  *
  * Status is intentionally excluded: use IOrderRepository.updateStatus() so
  * that all transition validation is co-located in one place.
+ *
+ * Callers (EditOrderUseCase) are responsible for re-validating the order
+ * before the write — the repository persists the values as given.
  */
 export interface UpdateOrderInput {
   deliveryDate?: Date;
@@ -237,6 +292,27 @@ export interface UpdateOrderInput {
   deliveryNeighborhood?: string | null;
   deliveryCity?: string | null;
   shippingAddress?: string | null;
+  /** Recomputed when the fulfillment type or the delivery CEP changes. */
+  deliveryFee?: number;
+  /**
+   * When present, replaces the whole item set in the same transaction.
+   * Lines kept from the original order carry their frozen prices unchanged.
+   */
+  items?: Omit<import("./OrderItem").CreateOrderItemInput, "orderId">[];
+}
+
+/**
+ * isOrderEditable — items, date and fulfillment can change until the order
+ * is rejected, delivered or cancelled.
+ */
+export function isOrderEditable(
+  order: Pick<Order, "status" | "orderStatus">,
+): boolean {
+  return (
+    order.status !== OrderStatus.REJECTED &&
+    order.orderStatus !== OrderTrackingStatus.DELIVERED &&
+    order.orderStatus !== OrderTrackingStatus.CANCELLED
+  );
 }
 
 /**
@@ -7,20 +7,35 @@
  *   edits the product.  This is the core "price freezing" invariant.
  * ─ productName and variantLabel are snapshot fields — they capture the
  *   display strings at order time so receipts and history views remain
- *   accurate regardless of future catalogue edits.
- * ─ discountAmount is stored per-unit at 0 by default.  When a coupon
- *   or loyalty discount feature is introduced, it populates this field
- *   without requiring any schema change.
+ *   accurate regardless of future catalogue edits.  `options` does the same
+ *   for the chosen option groups; their prices are already in unitPrice.
+ * ─ notes are the customer's instructions for this line only ("sem
+ *   lactose", "escrever Feliz 30 anos"); Order.notes covers the whole order.
+ * ─ Lines of WEIGHT variants freeze the ordered weight (weightKg) and the
+ *   price per kg; unitPrice is the estimate for that weight.  Once produced,
+ *   the store records the weighed amount (finalWeightKg) and the line total
+ *   is adjusted by the difference — unitPrice itself never changes.
+ * ─ discountAmount is stored per-unit at 0 by default.  A redeemed coupon
+ *   populates it (computeCouponDiscounts); the coupon itself is referenced
+ *   on the Order (couponId / couponCode).
  * ─ There is no updatedAt — items are append-only.  Editing an order
- *   replaces the item set (via IOrderItemRepository.replaceAll) rather
- *   than mutating individual items.
+ *   replaces the item set (via IOrderRepository.update, which also records
+ *   the edit) rather than mutating individual items.
  *
  * Planned expansions:
- *   ─ couponCode / couponId   — reference to the discount applied
- *   ─ notes                   — per-item customer instructions ("sem glúten")
  *   ─ tax                     — per-unit tax amount for fiscal notes
  */
 
+import type { OrderItemOption } from "@/domain/product/ProductOption";
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+/** Matches the VarChar(200) column. Longer notes are truncated. */
+export const ORDER_ITEM_NOTES_MAX_LENGTH = 200;
+
+/** Largest weight, in kg, ordered or recorded for a single line. */
+export const MAX_ITEM_WEIGHT_KG = 500;
+
 // ─── OrderItem entity ─────────────────────────────────────────────────────────
 
 export interface OrderItem {
@@ -39,6 +54,19 @@ export interface OrderItem {
    * Null when no variant was selected.
    */
   variantLabel: string | null;
+  /** Snapshot of the chosen options (toppers, fillings, message…). */
+  options: OrderItemOption[];
+  /** Customer instructions for this line. Null if none. */
+  notes: string | null;
+  /** Weight ordered per unit, in kg. Null unless the variant is sold by weight. */
+  weightKg: number | null;
+  /** Price per kg frozen at order time. Null unless sold by weight. */
+  pricePerKg: number | null;
+  /**
+   * Weighed amount of the whole line, in kg, recorded by the store after
+   * production. Null until weighed (and for lines not sold by weight).
+   */
+  finalWeightKg: number | null;
   /**
    * Number of units ordered.
    * Must be >= the product's minQuantity at the time of order creation.
@@ -47,13 +75,14 @@ export interface OrderItem {
   /**
    * Price per unit at order creation — frozen forever.
    * Taken from the variant price when variantId is set, otherwise from
-   * the product's base price.  Callers are responsible for providing the
-   * correct value; the domain never fetches prices itself.
+   * the product's base price, plus the price of the chosen options.
+   * Callers are responsible for providing the correct value; the domain
+   * never fetches prices itself.
    */
   unitPrice: number;
   /**
    * Discount applied per unit at order time.
-   * Defaults to 0.  Future coupon / loyalty features populate this field.
+   * Defaults to 0.  Populated by a redeemed coupon.
    * lineTotal = (unitPrice - discountAmount) * quantity
    */
   discountAmount: number;
@@ -64,27 +93,78 @@ export interface OrderItem {
 
 // ─── Domain helpers ───────────────────────────────────────────────────────────
 
+type WeighedLine = Partial<
+  Pick<OrderItem, "weightKg" | "pricePerKg" | "finalWeightKg">
+>;
+
+type PricedLine = Pick<OrderItem, "unitPrice" | "discountAmount" | "quantity"> &
+  WeighedLine;
+
+/**
+ * computeWeightAdjustment — difference between the weighed and the ordered
+ * weight of a line, at the frozen price per kg, rounded to the cent.
+ * 0 until the line is weighed (and for lines not sold by weight).
+ *
+ * @example
+ *   // Ordered 1 kg at R$ 80/kg, weighed 1.1 kg
+ *   computeWeightAdjustment({ quantity: 1, weightKg: 1, pricePerKg: 80, finalWeightKg: 1.1 })
+ *   // → 8
+ */
+export function computeWeightAdjustment(
+  item: Pick<OrderItem, "quantity"> & WeighedLine,
+): number {
+  if (
+    item.finalWeightKg == null ||
+    item.weightKg == null ||
+    item.pricePerKg == null
+  ) {
+    return 0;
+  }
+  const difference = item.finalWeightKg - item.weightKg * item.quantity;
+  return Math.round(item.pricePerKg * difference * 100) / 100;
+}
+
 /**
  * computeLineTotal — pure function, no side effects.
- * Returns the total cost for a single line item after discount.
+ * Returns the total cost for a single line item after discount, including
+ * the weight adjustment of a weighed line.
  *
  * @example
  *   computeLineTotal({ unitPrice: 29.90, discountAmount: 5, quantity: 2 })
  *   // → 49.80
  */
-export function computeLineTotal(
-  item: Pick<OrderItem, "unitPrice" | "discountAmount" | "quantity">,
-): number {
-  return (item.unitPrice - item.discountAmount) * item.quantity;
+export function computeLineTotal(item: PricedLine): number {
+  return (
+    (item.unitPrice - item.discountAmount) * item.quantity +
+    computeWeightAdjustment(item)
+  );
 }
 
 /**
  * computeOrderTotal — sums all line totals for a complete order.
  */
-export function computeOrderTotal(items: OrderItem[]): number {
+export function computeOrderTotal(items: PricedLine[]): number {
   return items.reduce((sum, item) => sum + computeLineTotal(item), 0);
 }
 
+/**
+ * computeOrderGrandTotal — what the customer pays for the order: the line
+ * totals (discounts and weighing adjustments included) plus the delivery
+ * fee, rounded to the cent.  Every screen showing an order's total uses it.
+ *
+ * @example
+ *   computeOrderGrandTotal({ items: [{ unitPrice: 30, discountAmount: 0, quantity: 2 }], deliveryFee: 8 })
+ *   // → 68
+ */
+export function computeOrderGrandTotal(order: {
+  items: PricedLine[];
+  deliveryFee: number;
+}): number {
+  return (
+    Math.round((computeOrderTotal(order.items) + order.deliveryFee) * 100) / 100
+  );
+}
+
 /**
  * validateItemQuantity — enforces the product's minQuantity invariant.
  *
@@ -123,6 +203,16 @@ export interface CreateOrderItemInput {
   productName: string;
   /** Snapshot — caller must supply the label at the time of ordering. */
   variantLabel?: string | null;
+  /** Snapshot of the chosen options. Empty / omitted when none. */
+  options?: OrderItemOption[];
+  /** Customer instructions for this line. Null / omitted when none. */
+  notes?: string | null;
+  /** Weight ordered per unit, in kg. Null / omitted unless sold by weight. */
+  weightKg?: number | null;
+  /** Snapshot — price per kg. Null / omitted unless sold by weight. */
+  pricePerKg?: number | null;
+  /** Weighed amount of the line, kept when an edit leaves the line as is. */
+  finalWeightKg?: number | null;
   quantity: number;
   /**
    * Unit price frozen at order time.
@@ -132,7 +222,7 @@ export interface CreateOrderItemInput {
   unitPrice: number;
   /**
    * Optional per-unit discount. Defaults to 0 when omitted.
-   * Future: populated by coupon / loyalty discount use cases.
+   * Populated by ApplyCouponUseCase when a coupon is redeemed.
    */
   discountAmount?: number;
 }
@@ -0,0 +1,81 @@
+/**
+ * OrderStatusLog — audit trail of an order.
+ *
+ * Design rationale:
+ * ─ One record per status transition (decision or tracking) or edit, written
+ *   by the repository in the same transaction as the change itself.
+ * ─ Append-only: history is never rewritten.
+ * ─ Every write that changes an order takes an OrderChangeContext, so the
+ *   "who" and "why" cannot be forgotten by a new caller.
+ */
+
+// ─── Enums ────────────────────────────────────────────────────────────────────
+
+/**
+ * What changed.  Mirrors the Prisma enum of the same name.
+ *
+ * STATUS          — OrderStatus (PENDING / APPROVED / REJECTED).
+ * TRACKING_STATUS — OrderTrackingStatus (PENDING / PAID / DELIVERED / CANCELLED).
+ * DETAILS         — order fields edited by the store; values are JSON snapshots.
+ */
+export enum OrderStatusLogField {
+  STATUS = "STATUS",
+  TRACKING_STATUS = "TRACKING_STATUS",
+  DETAILS = "DETAILS",
+}
+
+/**
+ * Who made the change.  Mirrors the Prisma enum of the same name.
+ *
+ * ADMIN  — a logged-in store admin (actorId is set).
+ * SYSTEM — the platform itself: checkout, payment webhooks, scheduled jobs.
+ */
+export enum OrderActorType {
+  ADMIN = "ADMIN",
+  SYSTEM = "SYSTEM",
+}
+
+// ─── Change context ───────────────────────────────────────────────────────────
+
+export const STATUS_REASON_MAX_LENGTH = 500;
+
+/** Author and optional reason of a change — passed to every order write. */
+export interface OrderChangeContext {
+  actorType: OrderActorType;
+  /** Admin id. Null for SYSTEM changes. */
+  actorId: string | null;
+  /** Optional free-text reason, e.g. why the order was rejected. */
+  reason?: string | null;
+}
+
+/** Builds the context of a change made by a logged-in admin. */
+export function adminChange(
+  adminId: string,
+  reason?: string | null,
+): OrderChangeContext {
+  return { actorType: OrderActorType.ADMIN, actorId: adminId, reason };
+}
+
+/** Context of changes made by the platform itself. */
+export const SYSTEM_CHANGE: OrderChangeContext = {
+  actorType: OrderActorType.SYSTEM,
+  actorId: null,
+};
+
+// ─── Entity ───────────────────────────────────────────────────────────────────
+
+export interface OrderStatusLog {
+  id: string;
+  storeId: string;
+  orderId: string;
+  field: OrderStatusLogField;
+  /** Previous value. Null when the order was just created. */
+  fromValue: string | null;
+  toValue: string | null;
+  actorType: OrderActorType;
+  actorId: string | null;
+  /** E-mail of the admin, resolved at read time. Null for SYSTEM changes. */
+  actorEmail: string | null;
+  reason: string | null;
+  createdAt: Date;
+}
@@ -0,0 +1,118 @@
+/**
+ * OrderTimeline — the customer-facing view of an order's progress.
+ *
+ * Merges the two status machines (OrderStatus for the store's decision,
+ * OrderTrackingStatus for what happens after approval) into one linear list
+ * of steps:
+ *
+ *   Recebido → Aprovado → Pago → Entregue
+ *
+ * A rejected or cancelled order ends with a "failed" step instead of the
+ * remaining ones.  While only part of the total was paid (the deposit), the
+ * payment step stays current with its own description.
+ */
+
+import { OrderStatus, OrderTrackingStatus, type Order } from "./Order";
+
+export type OrderTimelineStepState = "done" | "current" | "upcoming" | "failed";
+
+export interface OrderTimelineStep {
+  key:
+    "received" | "approved" | "rejected" | "paid" | "delivered" | "cancelled";
+  label: string;
+  description: string;
+  state: OrderTimelineStepState;
+}
+
+const RECEIVED = {
+  key: "received",
+  label: "Pedido recebido",
+  description: "A loja recebeu o seu pedido.",
+} as const;
+const APPROVED = {
+  key: "approved",
+  label: "Pedido aprovado",
+  description: "A loja confirmou o seu pedido.",
+} as const;
+const PAID = {
+  key: "paid",
+  label: "Pagamento confirmado",
+  description: "A loja confirmou o pagamento.",
+} as const;
+const DELIVERED = {
+  key: "delivered",
+  label: "Pedido entregue",
+  description: "Pedido entregue. Bom apetite!",
+} as const;
+
+/** Builds the timeline for the order's current statuses. */
+export function buildOrderTimeline(
+  order: Pick<Order, "status" | "orderStatus">,
+): OrderTimelineStep[] {
+  if (order.status === OrderStatus.PENDING) {
+    return [
+      { ...RECEIVED, state: "done" },
+      { ...APPROVED, state: "current" },
+      { ...PAID, state: "upcoming" },
+      { ...DELIVERED, state: "upcoming" },
+    ];
+  }
+
+  if (order.status === OrderStatus.REJECTED) {
+    return [
+      { ...RECEIVED, state: "done" },
+      {
+        key: "rejected",
+        label: "Pedido recusado",
+        description: "A loja não pôde aceitar este pedido.",
+        state: "failed",
+      },
+    ];
+  }
+
+  switch (order.orderStatus) {
+    case OrderTrackingStatus.CANCELLED:
+      return [
+        { ...RECEIVED, state: "done" },
+        { ...APPROVED, state: "done" },
+        {
+          key: "cancelled",
+          label: "Pedido cancelado",
+          description: "Este pedido foi cancelado.",
+          state: "failed",
+        },
+      ];
+    case OrderTrackingStatus.DELIVERED:
+      return [
+        { ...RECEIVED, state: "done" },
+        { ...APPROVED, state: "done" },
+        { ...PAID, state: "done" },
+        { ...DELIVERED, state: "done" },
+      ];
+    case OrderTrackingStatus.PARTIALLY_PAID:
+      return [
+        { ...RECEIVED, state: "done" },
+        { ...APPROVED, state: "done" },
+        {
+          ...PAID,
+          description: "A loja recebeu parte do pagamento. Falta o restante.",
+          state: "current",
+        },
+        { ...DELIVERED, state: "upcoming" },
+      ];
+    case OrderTrackingStatus.PAID:
+      return [
+        { ...RECEIVED, state: "done" },
+        { ...APPROVED, state: "done" },
+        { ...PAID, state: "done" },
+        { ...DELIVERED, state: "current" },
+      ];
+    default:
+      return [
+        { ...RECEIVED, state: "done" },
+        { ...APPROVED, state: "done" },
+        { ...PAID, state: "current" },
+        { ...DELIVERED, state: "upcoming" },
+      ];
+  }
+}
@@ -0,0 +1,17 @@
+import type { CreatePaymentInput, Payment } from "./Payment";
+
+/**
+ * IPaymentRepository — domain port.
+ *
+ * Concrete implementation: PrismaPaymentRepository
+ */
+export interface IPaymentRepository {
+  // ─── Queries ──────────────────────────────────────────────────────────────
+
+  /** Payments of an order, oldest first, scoped by storeId. */
+  findByOrder(orderId: string, storeId: string): Promise<Payment[]>;
+
+  // ─── Mutations ─────────────────────────────────────────────────────────────
+
+  create(input: CreatePaymentInput): Promise<Payment>;
+}
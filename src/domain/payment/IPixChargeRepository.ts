@@ -0,0 +1,36 @@
+import type { CreatePixChargeInput, PixCharge } from "./PixCharge";
+
+/**
+ * IPixChargeRepository — domain port.
+ *
+ * Concrete implementation: PrismaPixChargeRepository
+ */
+export interface IPixChargeRepository {
+  // ─── Queries ──────────────────────────────────────────────────────────────
+
+  /** Most recently issued charge of an order, scoped by storeId. */
+  findLatestByOrder(
+    orderId: string,
+    storeId: string,
+  ): Promise<PixCharge | null>;
+
+  /**
+   * Resolve a webhook reference.  Not scoped by store: the provider does not
+   * know about stores, and (provider, providerChargeId) is unique.
+   */
+  findByProviderChargeId(
+    provider: string,
+    providerChargeId: string,
+  ): Promise<PixCharge | null>;
+
+  // ─── Mutations ─────────────────────────────────────────────────────────────
+
+  create(input: CreatePixChargeInput): Promise<PixCharge>;
+
+  /**
+   * PENDING → PAID.
+   * Returns null when the charge was already paid, so a webhook delivered
+   * twice confirms the order only once.
+   */
+  markPaid(id: string, paidAt: Date): Promise<PixCharge | null>;
+}
@@ -0,0 +1,130 @@
+/**
+ * Payment domain model — pure TypeScript, no Prisma, no Next.js, no HTTP.
+ *
+ * Design rationale:
+ * ─ An order may be paid in several parts: custom-cake shops usually take a
+ *   deposit upfront and the balance on delivery.  Each amount received is a
+ *   Payment; what the order has been paid is their sum, never a stored total.
+ * ─ Stores configure the deposit as a percentage of the order total
+ *   (Store.depositPercentage).  Without one, the full amount is due at once.
+ * ─ The tracking status follows the balance: PARTIALLY_PAID once something
+ *   was received, PAID when nothing is left outstanding.
+ */
+
+import { OrderTrackingStatus } from "@/domain/order/Order";
+
+// ─── Enums ────────────────────────────────────────────────────────────────────
+
+/** Mirrors the Prisma enum of the same name. */
+export enum PaymentMethod {
+  PIX = "PIX",
+  CASH = "CASH",
+  CARD = "CARD",
+}
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+/** Matches the VarChar(500) column. */
+export const PAYMENT_NOTES_MAX_LENGTH = 500;
+
+// ─── Entity ───────────────────────────────────────────────────────────────────
+
+export interface Payment {
+  id: string;
+  storeId: string;
+  orderId: string;
+  /** Amount received in BRL. */
+  amount: number;
+  method: PaymentMethod;
+  /** When the money was received — may be earlier than createdAt. */
+  paidAt: Date;
+  notes: string | null;
+  /** Admin who recorded it. Null = system (PIX webhook) or admin removed. */
+  recordedById: string | null;
+  /** PIX charge it settled. Null for payments recorded by hand. */
+  pixChargeId: string | null;
+  createdAt: Date;
+}
+
+// ─── Input types ─────────────────────────────────────────────────────────────
+
+export interface CreatePaymentInput {
+  storeId: string;
+  orderId: string;
+  amount: number;
+  method: PaymentMethod;
+  paidAt: Date;
+  notes: string | null;
+  recordedById: string | null;
+  pixChargeId: string | null;
+}
+
+// ─── Balance ──────────────────────────────────────────────────────────────────
+
+export interface OrderBalance {
+  /** Items total plus delivery fee. */
+  total: number;
+  /** Sum of the recorded payments. */
+  paid: number;
+  /** What is left to pay — never negative. */
+  outstanding: number;
+  /** Amount due upfront. Equals `total` when the store takes no deposit. */
+  deposit: number;
+}
+
+const toCents = (n: number) => Math.round(n * 100);
+
+/** A deposit percentage is null (no deposit) or an integer from 1 to 100. */
+export function isValidDepositPercentage(percentage: number | null): boolean {
+  return (
+    percentage === null ||
+    (Number.isInteger(percentage) && percentage >= 1 && percentage <= 100)
+  );
+}
+
+/**
+ * Deposit due for an order of `total`, rounded to the cent.
+ * Without a deposit percentage the whole total is due upfront.
+ */
+export function computeDepositAmount(
+  total: number,
+  percentage: number | null,
+): number {
+  if (!percentage) return total;
+  return Math.round((toCents(total) * percentage) / 100) / 100;
+}
+
+/** Paid and outstanding amounts of an order. */
+export function computeOrderBalance(
+  total: number,
+  payments: ReadonlyArray<Pick<Payment, "amount">>,
+  depositPercentage: number | null,
+): OrderBalance {
+  const paidCents = payments.reduce((sum, p) => sum + toCents(p.amount), 0);
+  return {
+    total,
+    paid: paidCents / 100,
+    outstanding: Math.max(0, toCents(total) - paidCents) / 100,
+    deposit: computeDepositAmount(total, depositPercentage),
+  };
+}
+
+/**
+ * Amount the customer should pay next: the deposit while nothing was paid,
+ * the outstanding balance afterwards.
+ */
+export function computeAmountDue(balance: OrderBalance): number {
+  return balance.paid > 0 ? balance.outstanding : balance.deposit;
+}
+
+/**
+ * Tracking status the order should have for its balance:
+ * PAID when settled, PARTIALLY_PAID when something was received.
+ */
+export function trackingStatusForBalance(
+  balance: OrderBalance,
+): OrderTrackingStatus {
+  if (balance.outstanding <= 0) return OrderTrackingStatus.PAID;
+  if (balance.paid > 0) return OrderTrackingStatus.PARTIALLY_PAID;
+  return OrderTrackingStatus.PENDING;
+}
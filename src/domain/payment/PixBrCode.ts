@@ -0,0 +1,114 @@
+/**
+ * PIX BR Code — the "copia e cola" payload behind every PIX QR code.
+ *
+ * Pure TypeScript implementation of the EMV® QRCPS merchant-presented
+ * format as profiled by the Banco Central do Brasil (Manual de Padrões para
+ * Iniciação do Pix):
+ * ─ Static codes carry the receiver's PIX key and are built locally.
+ * ─ Dynamic codes carry the location URL of a charge created at a PSP; the
+ *   PSP returns the finished payload, but buildPixBrCode can rebuild it.
+ * ─ Every field is ID (2 digits) + length (2 digits) + value; the payload
+ *   ends with a CRC16-CCITT checksum over everything before it.
+ */
+
+// ─── Limits ───────────────────────────────────────────────────────────────────
+
+/** Longest txid a static code may carry (field 62-05). */
+export const PIX_STATIC_TXID_MAX_LENGTH = 25;
+
+const MERCHANT_NAME_MAX_LENGTH = 25;
+const MERCHANT_CITY_MAX_LENGTH = 15;
+
+// ─── Input ────────────────────────────────────────────────────────────────────
+
+export type PixBrCodeInput = {
+  /** Receiver name shown by the payer's bank. Truncated to 25 characters. */
+  merchantName: string;
+  /** Receiver city. Truncated to 15 characters. */
+  merchantCity: string;
+  /** Amount in BRL. Null lets the payer type it. */
+  amount: number | null;
+} & (
+  | {
+      /** Static code: the receiver's PIX key. */
+      pixKey: string;
+      /** Reference reported back by the bank — letters and digits only. */
+      txid: string | null;
+    }
+  | {
+      /** Dynamic code: the charge location URL, without the scheme. */
+      location: string;
+    }
+);
+
+// ─── Builder ──────────────────────────────────────────────────────────────────
+
+function field(id: string, value: string): string {
+  return `${id}${value.length.toString().padStart(2, "0")}${value}`;
+}
+
+/** Upper-case ASCII letters, digits and spaces — what every bank accepts. */
+function sanitize(value: string, maxLength: number): string {
+  return value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^A-Za-z0-9 ]/g, "")
+    .trim()
+    .toUpperCase()
+    .slice(0, maxLength);
+}
+
+/** CRC16-CCITT (polynomial 0x1021, initial value 0xFFFF), as 4 hex digits. */
+export function pixCrc16(payload: string): string {
+  let crc = 0xffff;
+  for (let i = 0; i < payload.length; i++) {
+    crc ^= payload.charCodeAt(i) << 8;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? (crc << 1) ^ 0x1021 : crc << 1;
+      crc &= 0xffff;
+    }
+  }
+  return crc.toString(16).toUpperCase().padStart(4, "0");
+}
+
+/** Builds the full "copia e cola" payload, checksum included. */
+export function buildPixBrCode(input: PixBrCodeInput): string {
+  const isDynamic = "location" in input;
+
+  const account = [
+    field("00", "br.gov.bcb.pix"),
+    isDynamic ? field("25", input.location) : field("01", input.pixKey.trim()),
+  ].join("");
+
+  const txid = isDynamic
+    ? "***"
+    : sanitize(input.txid ?? "", PIX_STATIC_TXID_MAX_LENGTH).replace(
+        / /g,
+        "",
+      ) || "***";
+
+  const payload = [
+    field("00", "01"),
+    // 12 = single use — only dynamic charges can enforce it
+    isDynamic ? field("01", "12") : "",
+    field("26", account),
+    field("52", "0000"),
+    field("53", "986"),
+    input.amount !== null && input.amount > 0
+      ? field("54", input.amount.toFixed(2))
+      : "",
+    field("58", "BR"),
+    field(
+      "59",
+      sanitize(input.merchantName, MERCHANT_NAME_MAX_LENGTH) || "LOJA",
+    ),
+    field(
+      "60",
+      sanitize(input.merchantCity, MERCHANT_CITY_MAX_LENGTH) || "BRASIL",
+    ),
+    field("62", field("05", txid)),
+    "6304",
+  ].join("");
+
+  return `${payload}${pixCrc16(payload)}`;
+}
@@ -0,0 +1,75 @@
+/**
+ * PixCharge domain model — pure TypeScript, no Prisma, no Next.js, no HTTP.
+ *
+ * Design rationale:
+ * ─ One charge is issued per approved order through the payment gateway and
+ *   shown to the customer as a "copia e cola" code and a QR image.
+ * ─ The amount is frozen at issue time.  When the order total changes (the
+ *   store edited the order) the charge stops being usable and a new one is
+ *   issued; older charges stay for the record.
+ * ─ A charge is PAID once the provider's webhook confirms it.  The order
+ *   tracking status then moves to PAID through the usual use case, so the
+ *   history and the customer notification behave as for a manual change.
+ */
+
+// ─── Enums ────────────────────────────────────────────────────────────────────
+
+/** Mirrors the Prisma enum of the same name. */
+export enum PixChargeStatus {
+  PENDING = "PENDING",
+  PAID = "PAID",
+}
+
+// ─── Entity ───────────────────────────────────────────────────────────────────
+
+export interface PixCharge {
+  id: string;
+  storeId: string;
+  orderId: string;
+  /** Gateway that issued the charge, e.g. "openpix", "static". */
+  provider: string;
+  /** Charge id at the provider — what its webhooks refer to. */
+  providerChargeId: string;
+  /** Amount in BRL, frozen at issue time. */
+  amount: number;
+  /** "Copia e cola" payload. */
+  brCode: string;
+  /** QR code image: a data: URL or an https URL served by the provider. */
+  qrCodeImage: string;
+  status: PixChargeStatus;
+  /** After this moment the provider refuses payment. Null = no expiry. */
+  expiresAt: Date | null;
+  paidAt: Date | null;
+  createdAt: Date;
+}
+
+// ─── Input types ─────────────────────────────────────────────────────────────
+
+export interface CreatePixChargeInput {
+  storeId: string;
+  orderId: string;
+  provider: string;
+  providerChargeId: string;
+  amount: number;
+  brCode: string;
+  qrCodeImage: string;
+  expiresAt: Date | null;
+}
+
+// ─── Domain helpers ───────────────────────────────────────────────────────────
+
+/**
+ * Whether `charge` can still be shown for an order whose total is `amount`:
+ * unpaid, not expired and issued for that exact amount.
+ */
+export function isPixChargeUsable(
+  charge: PixCharge,
+  amount: number,
+  now: Date,
+): boolean {
+  return (
+    charge.status === PixChargeStatus.PENDING &&
+    (charge.expiresAt === null || charge.expiresAt > now) &&
+    Math.round(charge.amount * 100) === Math.round(amount * 100)
+  );
+}
@@ -34,8 +34,20 @@ export interface IStorePickupSlotRepository {
     dayOfWeek: number,
     startTime: string,
     endTime: string,
+    capacity?: { maxOrders: number | null; maxItems: number | null },
   ): Promise<StorePickupSlot>;
 
+  /**
+   * Replace the per-date capacity limits of an existing slot.
+   * Returns null if the slot does not exist or belongs to a different store.
+   */
+  setCapacity(
+    id: string,
+    storeId: string,
+    maxOrders: number | null,
+    maxItems: number | null,
+  ): Promise<StorePickupSlot | null>;
+
   /**
    * Flip isActive on an existing slot.
    * Returns null if the slot does not exist or belongs to a different store.
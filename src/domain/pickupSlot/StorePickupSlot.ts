@@ -16,6 +16,11 @@
  *
  * dayOfWeek:
  * ─ Follows JS Date.getDay() convention: 0 = Sunday … 6 = Saturday.
+ *
+ * Capacity:
+ * ─ maxOrders / maxItems cap bookings per calendar date (null = unlimited).
+ * ─ Usage is derived from orders, never stored on the slot itself — see
+ *   PickupSlotUsage and computeSlotAvailability() below.
  */
 
 // ─── Entity ───────────────────────────────────────────────────────────────────
@@ -29,6 +34,10 @@ export interface StorePickupSlot {
   startTime: string;
   /** Slot closing time – "HH:mm". Always > startTime. */
   endTime: string;
+  /** Maximum orders per date in this slot. Null = unlimited. */
+  maxOrders: number | null;
+  /** Maximum item units (sum of quantities) per date. Null = unlimited. */
+  maxItems: number | null;
   isActive: boolean;
   createdAt: Date;
   updatedAt: Date;
@@ -41,6 +50,17 @@ export interface CreatePickupSlotInput {
   dayOfWeek: number;
   startTime: string;
   endTime: string;
+  /** Optional per-date order cap. Null / omitted = unlimited. */
+  maxOrders?: number | null;
+  /** Optional per-date item-unit cap. Null / omitted = unlimited. */
+  maxItems?: number | null;
+}
+
+export interface UpdatePickupSlotCapacityInput {
+  id: string;
+  storeId: string;
+  maxOrders: number | null;
+  maxItems: number | null;
 }
 
 export interface TogglePickupSlotInput {
@@ -62,3 +82,99 @@ export type PickupSlotResponse = StorePickupSlot;
 export interface ListPickupSlotsResponse {
   slots: StorePickupSlot[];
 }
+
+/**
+ * formatSlotLabel — canonical human-readable label stored on PICKUP orders.
+ *
+ * @example
+ *   formatSlotLabel({ startTime: "09:00", endTime: "12:00" }) // "09:00 – 12:00"
+ */
+export function formatSlotLabel(
+  slot: Pick<StorePickupSlot, "startTime" | "endTime">,
+): string {
+  return `${slot.startTime} – ${slot.endTime}`;
+}
+
+// ─── Capacity ─────────────────────────────────────────────────────────────────
+
+/**
+ * Booked load of a single slot on a single calendar date.
+ * Computed by IOrderRepository.getPickupSlotUsage() from live orders.
+ */
+export interface PickupSlotUsage {
+  pickupSlotId: string;
+  /** Calendar date in YYYY-MM-DD format. */
+  date: string;
+  /** Number of orders booked in the slot on this date. */
+  orderCount: number;
+  /** Sum of item quantities across those orders. */
+  itemUnits: number;
+}
+
+/**
+ * A slot enriched with its remaining capacity for one specific date.
+ * Returned by the public pickup-slots endpoint.
+ */
+export interface PickupSlotAvailability extends StorePickupSlot {
+  /** Calendar date the remaining values refer to, or null when none was given. */
+  date: string | null;
+  /** Orders still bookable on the date. Null = unlimited. */
+  remainingOrders: number | null;
+  /** Item units still bookable on the date. Null = unlimited. */
+  remainingItems: number | null;
+  /** True when no further order can be booked in the slot on the date. */
+  isFull: boolean;
+}
+
+export interface PublicPickupSlotsResponse {
+  slots: PickupSlotAvailability[];
+}
+
+/**
+ * computeSlotAvailability — pure function, no side effects.
+ * Missing usage means nothing has been booked yet.
+ */
+export function computeSlotAvailability(
+  slot: StorePickupSlot,
+  usage: Pick<PickupSlotUsage, "orderCount" | "itemUnits"> | undefined,
+  date: string | null,
+): PickupSlotAvailability {
+  const orderCount = usage?.orderCount ?? 0;
+  const itemUnits = usage?.itemUnits ?? 0;
+
+  const remainingOrders =
+    slot.maxOrders === null ? null : Math.max(0, slot.maxOrders - orderCount);
+  const remainingItems =
+    slot.maxItems === null ? null : Math.max(0, slot.maxItems - itemUnits);
+
+  return {
+    ...slot,
+    date,
+    remainingOrders,
+    remainingItems,
+    isFull: remainingOrders === 0 || remainingItems === 0,
+  };
+}
+
+/**
+ * canSlotFit — true when one more order with `itemUnits` units fits the slot.
+ *
+ * @example
+ *   canSlotFit({ remainingOrders: 2, remainingItems: 3 }, 4) // false
+ */
+export function canSlotFit(
+  availability: Pick<
+    PickupSlotAvailability,
+    "remainingOrders" | "remainingItems"
+  >,
+  itemUnits: number,
+): boolean {
+  if (availability.remainingOrders !== null && availability.remainingOrders < 1)
+    return false;
+  if (
+    availability.remainingItems !== null &&
+    availability.remainingItems < itemUnits
+  )
+    return false;
+  return true;
+}
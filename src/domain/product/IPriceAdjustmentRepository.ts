@@ -0,0 +1,29 @@
+import type {
+  PriceAdjustment,
+  PriceRollbackResult,
+  RecordPriceAdjustmentInput,
+} from "./PriceAdjustment";
+
+/**
+ * IPriceAdjustmentRepository — bulk price changes and their log.
+ */
+export interface IPriceAdjustmentRepository {
+  /**
+   * Sets every new price and records the adjustment, in one transaction.
+   * Rejects the whole adjustment when a price no longer matches its
+   * oldPrice (edited since the preview).
+   */
+  apply(input: RecordPriceAdjustmentInput): Promise<PriceAdjustment>;
+
+  /** Latest adjustments of a store, newest first. */
+  findAllByStore(storeId: string, limit: number): Promise<PriceAdjustment[]>;
+
+  findById(id: string, storeId: string): Promise<PriceAdjustment | null>;
+
+  /**
+   * Restores the old prices still at the adjusted value and marks the
+   * adjustment rolled back, in one transaction.  Returns null when it is
+   * not found or was already rolled back.
+   */
+  rollback(id: string, storeId: string): Promise<PriceRollbackResult | null>;
+}
@@ -0,0 +1,23 @@
+import type {
+  CreatePriceScheduleInput,
+  PriceSchedule,
+  PriceScheduleSettlement,
+} from "./PriceSchedule";
+
+/**
+ * IPriceScheduleRepository — promotional and future prices.
+ *
+ * Pending entries are read with their product (Product.priceSchedules).
+ */
+export interface IPriceScheduleRepository {
+  create(input: CreatePriceScheduleInput): Promise<PriceSchedule>;
+
+  /** Returns false when no pending entry matches. */
+  delete(id: string, productId: string, storeId: string): Promise<boolean>;
+
+  /**
+   * Writes every CHANGE due by `now` into its product / variant and marks
+   * it settled, along with the PROMOs ended by then.  All stores at once.
+   */
+  settleDue(now: Date): Promise<PriceScheduleSettlement>;
+}
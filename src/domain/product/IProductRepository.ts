@@ -6,6 +6,7 @@ import type {
   CreateVariantInput,
   UpdateVariantInput,
 } from "./Product";
+import type { CreateOptionGroupInput } from "./ProductOption";
 
 /**
  * Repository interface for Product + ProductVariant persistence.
@@ -30,8 +31,21 @@ export interface IProductRepository {
    */
   findById(id: string, storeId: string): Promise<Product | null>;
 
+  /** Returns null when no product of the store has this SKU. */
+  findBySku(sku: string, storeId: string): Promise<Product | null>;
+
+  /**
+   * The availability rule that applies to each product: its own, merged
+   * with its categories' (see mergeAvailability).  Unknown ids are left out.
+   */
+  findAvailability(
+    ids: string[],
+    storeId: string,
+  ): Promise<Pick<Product, "id" | "name" | "availability">[]>;
+
   /**
-   * Creates a product and its initial variants (if any) in one transaction.
+   * Creates a product with its initial variants and option groups (if any)
+   * in one transaction.
    */
   create(input: CreateProductInput): Promise<Product>;
 
@@ -50,7 +64,8 @@ export interface IProductRepository {
 
   /**
    * Replaces ALL variants for a product in a single transaction.
-   * Deletes every existing variant then creates the new list.
+   * Existing variants are matched by label and updated in place (keeping
+   * their id and stock); the others are deleted and the new ones created.
    * Returns null if the product is not found / store mismatch.
    */
   replaceVariants(
@@ -59,6 +74,17 @@ export interface IProductRepository {
     variants: CreateVariantInput[],
   ): Promise<Product | null>;
 
+  /**
+   * Replaces ALL option groups (and their options) for a product in a
+   * single transaction.  Returns null if the product is not found / store
+   * mismatch.
+   */
+  replaceOptionGroups(
+    productId: string,
+    storeId: string,
+    groups: CreateOptionGroupInput[],
+  ): Promise<Product | null>;
+
   // ─── Variants ───────────────────────────────────────────────────────────────
 
   /**
@@ -0,0 +1,23 @@
+import type { AdjustStockInput, StockMovement } from "./ProductStock";
+
+/**
+ * IStockRepository — stock counts set by the store and their history.
+ *
+ * Order reservations are not here: IOrderRepository moves stock together
+ * with the order change that causes it.
+ */
+export interface IStockRepository {
+  /**
+   * Sets the stock count of a product or one of its variants and records
+   * the ADJUSTMENT.  Returns null when the product / variant is not found
+   * in the store.  Rejects a count below the units reserved by open orders.
+   */
+  adjust(input: AdjustStockInput): Promise<StockMovement | null>;
+
+  /** Latest movements of a product and its variants, newest first. */
+  findMovementsByProduct(
+    productId: string,
+    storeId: string,
+    limit: number,
+  ): Promise<StockMovement[]>;
+}
@@ -0,0 +1,178 @@
+/**
+ * Bulk price adjustment — pure TypeScript, no Prisma, no Next.js, no HTTP.
+ *
+ * Design rationale:
+ * ─ When costs go up the store raises many prices at once: by a percentage
+ *   or a fixed amount, on chosen products, a category or the whole catalog.
+ *   Every price in scope changes — the product's base price and each
+ *   variant's (per kg for WEIGHT variants).
+ * ─ Rounding goes up to the next price ending in ,90 or to the next whole
+ *   real, so it never undoes an increase.
+ * ─ Each adjustment is logged with the old and new price of every entry and
+ *   can be rolled back.  A rollback only restores prices still at the value
+ *   the adjustment set; prices edited since are left alone.
+ * ─ Orders are untouched: OrderItem.unitPrice is frozen when the order is
+ *   placed.
+ */
+
+import type { Product } from "./Product";
+
+// ─── Enums ────────────────────────────────────────────────────────────────────
+
+/** Mirrors the Prisma enum of the same name. */
+export enum PriceAdjustmentMode {
+  /** value is a percentage: 10 = +10 %, -5 = −5 %. */
+  PERCENT = "PERCENT",
+  /** value is an amount in reais added to each price. */
+  FIXED = "FIXED",
+}
+
+/** Mirrors the Prisma enum of the same name. */
+export enum PriceRounding {
+  NONE = "NONE",
+  /** Up to the next price ending in ,90 (R$ 23,47 → R$ 23,90). */
+  NINETY = "NINETY",
+  /** Up to the next whole real (R$ 23,47 → R$ 24,00). */
+  WHOLE = "WHOLE",
+}
+
+/** Mirrors the Prisma enum of the same name. */
+export enum PriceAdjustmentScope {
+  PRODUCTS = "PRODUCTS",
+  CATEGORY = "CATEGORY",
+  ALL = "ALL",
+}
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+/** Largest percentage either way — guards against typos like 1000. */
+export const MAX_PRICE_CHANGE_PERCENT = 500;
+
+/** Largest fixed change either way, in reais. */
+export const MAX_PRICE_CHANGE_AMOUNT = 10_000;
+
+// ─── Entities ─────────────────────────────────────────────────────────────────
+
+export interface PriceRule {
+  mode: PriceAdjustmentMode;
+  value: number;
+  rounding: PriceRounding;
+}
+
+/** One price an adjustment changes. */
+export interface PriceChange {
+  productId: string;
+  /** null = the product's base price. */
+  variantId: string | null;
+  productName: string;
+  variantLabel: string | null;
+  oldPrice: number;
+  newPrice: number;
+}
+
+export interface PriceAdjustment extends PriceRule {
+  id: string;
+  storeId: string;
+  scope: PriceAdjustmentScope;
+  /** Admin who applied it. null when the admin was removed. */
+  actorId: string | null;
+  changes: PriceChange[];
+  rolledBackAt: Date | null;
+  createdAt: Date;
+}
+
+// ─── Input types ──────────────────────────────────────────────────────────────
+
+export interface AdjustPricesInput extends PriceRule {
+  storeId: string;
+  actorId: string | null;
+  scope: PriceAdjustmentScope;
+  /** Products to adjust when scope is PRODUCTS. */
+  productIds?: string[];
+  /** Category whose products to adjust when scope is CATEGORY. */
+  categoryId?: string;
+}
+
+export interface RecordPriceAdjustmentInput extends PriceRule {
+  storeId: string;
+  scope: PriceAdjustmentScope;
+  actorId: string | null;
+  changes: PriceChange[];
+}
+
+/** Outcome of a rollback. */
+export interface PriceRollbackResult {
+  /** Prices set back to their old value. */
+  restored: number;
+  /** Prices edited (or deleted) since the adjustment, left as they are. */
+  skipped: number;
+}
+
+// ─── Rules ────────────────────────────────────────────────────────────────────
+
+/** The price after `rule`, in reais, rounded to the cent. */
+export function applyPriceRule(price: number, rule: PriceRule): number {
+  const raw =
+    rule.mode === PriceAdjustmentMode.PERCENT
+      ? price * (1 + rule.value / 100)
+      : price + rule.value;
+  let cents = Math.round(raw * 100);
+
+  if (rule.rounding === PriceRounding.NINETY) {
+    const ninety = Math.floor(cents / 100) * 100 + 90;
+    cents = ninety >= cents ? ninety : ninety + 100;
+  } else if (rule.rounding === PriceRounding.WHOLE) {
+    cents = Math.ceil(cents / 100) * 100;
+  }
+  return cents / 100;
+}
+
+/**
+ * planPriceChanges — every price of `products` that `rule` changes.
+ * Prices the rule leaves equal are omitted; a new price may be ≤ 0, which
+ * the caller must reject.
+ */
+export function planPriceChanges(
+  products: Pick<Product, "id" | "name" | "price" | "variants">[],
+  rule: PriceRule,
+): PriceChange[] {
+  const changes: PriceChange[] = [];
+  for (const p of products) {
+    if (p.price !== null) {
+      changes.push({
+        productId: p.id,
+        variantId: null,
+        productName: p.name,
+        variantLabel: null,
+        oldPrice: p.price,
+        newPrice: applyPriceRule(p.price, rule),
+      });
+    }
+    for (const v of p.variants) {
+      changes.push({
+        productId: p.id,
+        variantId: v.id,
+        productName: p.name,
+        variantLabel: v.label,
+        oldPrice: v.price,
+        newPrice: applyPriceRule(v.price, rule),
+      });
+    }
+  }
+  return changes.filter((c) => c.newPrice !== c.oldPrice);
+}
+
+/** Whether `rule.value` is a usable change for its mode. */
+export function isValidPriceRule(rule: PriceRule): boolean {
+  const max =
+    rule.mode === PriceAdjustmentMode.PERCENT
+      ? MAX_PRICE_CHANGE_PERCENT
+      : MAX_PRICE_CHANGE_AMOUNT;
+  return (
+    Object.values(PriceAdjustmentMode).includes(rule.mode) &&
+    Object.values(PriceRounding).includes(rule.rounding) &&
+    Number.isFinite(rule.value) &&
+    Math.abs(rule.value) <= max &&
+    (rule.mode !== PriceAdjustmentMode.PERCENT || rule.value > -100)
+  );
+}
@@ -0,0 +1,178 @@
+/**
+ * Scheduled prices — pure TypeScript, no Prisma, no Next.js, no HTTP.
+ *
+ * Design rationale:
+ * ─ A PROMO is a "de/por" price for a window: from startsAt until endsAt
+ *   the product (or variant) sells for `price` and the catalog shows the
+ *   regular price struck through.  It only applies while it is below the
+ *   regular price.
+ * ─ A CHANGE is a future price: from startsAt on, `price` replaces the
+ *   regular price.  A scheduled job writes it into the product / variant
+ *   once due and marks it settled; until then reads resolve it on the fly,
+ *   so it takes effect on time either way.
+ * ─ Prices resolve for a window of time: the current moment, or the whole
+ *   delivery date (UTC, as order dates are stored).  An entry in effect at
+ *   any point of the delivery date applies to orders for that date — the
+ *   price the catalog shows for the date is the price the order freezes.
+ * ─ A target is the product's base price (variantId null) or one variant.
+ */
+
+import type { Product } from "./Product";
+
+// ─── Enums ────────────────────────────────────────────────────────────────────
+
+/** Mirrors the Prisma enum of the same name. */
+export enum PriceScheduleKind {
+  PROMO = "PROMO",
+  CHANGE = "CHANGE",
+}
+
+// ─── Entities ─────────────────────────────────────────────────────────────────
+
+export interface PriceSchedule {
+  id: string;
+  productId: string;
+  /** null = the product's base price. */
+  variantId: string | null;
+  kind: PriceScheduleKind;
+  /** Per kg for WEIGHT variants, like the price it replaces. */
+  price: number;
+  startsAt: Date;
+  /** End of a PROMO (exclusive). Always null for a CHANGE. */
+  endsAt: Date | null;
+  createdAt: Date;
+}
+
+/** A price and, while a promo applies, the regular price it replaces. */
+export interface EffectivePrice {
+  price: number;
+  /** Regular price shown struck through. null when no promo applies. */
+  originalPrice: number | null;
+}
+
+/** Span of time prices are resolved for; both ends inclusive. */
+export interface PriceWindow {
+  from: Date;
+  to: Date;
+}
+
+// ─── Input types ──────────────────────────────────────────────────────────────
+
+export interface CreatePriceScheduleInput {
+  storeId: string;
+  productId: string;
+  variantId: string | null;
+  kind: PriceScheduleKind;
+  price: number;
+  startsAt: Date;
+  endsAt: Date | null;
+}
+
+/** Outcome of the scheduled job. */
+export interface PriceScheduleSettlement {
+  /** Due CHANGEs written into their product / variant. */
+  applied: number;
+  /** PROMOs past their end. */
+  expired: number;
+}
+
+// ─── Windows ──────────────────────────────────────────────────────────────────
+
+export function priceWindowAt(moment: Date): PriceWindow {
+  return { from: moment, to: moment };
+}
+
+/** The whole of a YYYY-MM-DD date, in UTC. */
+export function priceWindowForDate(isoDate: string): PriceWindow {
+  return {
+    from: new Date(`${isoDate}T00:00:00.000Z`),
+    to: new Date(`${isoDate}T23:59:59.999Z`),
+  };
+}
+
+// ─── Resolution ───────────────────────────────────────────────────────────────
+
+/** Entries of one target — the base price when variantId is null. */
+export function schedulesFor(
+  schedules: PriceSchedule[],
+  variantId: string | null,
+): PriceSchedule[] {
+  return schedules.filter((s) => s.variantId === variantId);
+}
+
+/**
+ * resolveEffectivePrice — the price of one target during `window`.
+ *
+ * The latest CHANGE started by the end of the window replaces the stored
+ * price; the lowest PROMO overlapping the window then applies when below it.
+ */
+export function resolveEffectivePrice(
+  storedPrice: number,
+  schedules: PriceSchedule[],
+  window: PriceWindow,
+): EffectivePrice {
+  let regular = storedPrice;
+  let latestChange: PriceSchedule | null = null;
+  let promo: number | null = null;
+
+  for (const s of schedules) {
+    if (s.startsAt > window.to) continue;
+    if (s.kind === PriceScheduleKind.CHANGE) {
+      if (!latestChange || s.startsAt >= latestChange.startsAt) {
+        latestChange = s;
+      }
+    } else if (s.endsAt && s.endsAt > window.from) {
+      promo = promo === null ? s.price : Math.min(promo, s.price);
+    }
+  }
+  if (latestChange) regular = latestChange.price;
+
+  return promo !== null && promo < regular
+    ? { price: promo, originalPrice: regular }
+    : { price: regular, originalPrice: null };
+}
+
+/**
+ * The product with its base price and variant prices resolved for
+ * `window` — what order placement freezes into unitPrice.
+ */
+export function withEffectivePrices(
+  product: Product,
+  window: PriceWindow,
+): Product {
+  if (product.priceSchedules.length === 0) return product;
+  return {
+    ...product,
+    price:
+      product.price !== null
+        ? resolveEffectivePrice(
+            product.price,
+            schedulesFor(product.priceSchedules, null),
+            window,
+          ).price
+        : null,
+    variants: product.variants.map((v) => ({
+      ...v,
+      price: resolveEffectivePrice(
+        v.price,
+        schedulesFor(product.priceSchedules, v.id),
+        window,
+      ).price,
+    })),
+  };
+}
+
+// ─── Validation ───────────────────────────────────────────────────────────────
+
+/** Whether two PROMOs of the same target are in effect at the same time. */
+export function promosOverlap(
+  a: Pick<PriceSchedule, "startsAt" | "endsAt">,
+  b: Pick<PriceSchedule, "startsAt" | "endsAt">,
+): boolean {
+  return (
+    a.endsAt !== null &&
+    b.endsAt !== null &&
+    a.startsAt < b.endsAt &&
+    b.startsAt < a.endsAt
+  );
+}
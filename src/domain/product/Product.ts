@@ -8,12 +8,31 @@
  * ─ Products with variants delegate pricing to the variant.
  * ─ minQuantity lives on Product because the minimum order rule applies
  *   regardless of which variant is chosen.
+ * ─ Extras picked on top of the variant (toppers, fillings, a message) are
+ *   option groups — see ProductOption.ts.
+ * ─ WEIGHT variants are ordered by weight: price is per kg, weightValue /
+ *   weightUnit is the smallest amount sold and weightStep the increment
+ *   above it (e.g. from 1 kg in steps of 0.5 kg).  The customer pays an
+ *   estimate; the store records the weighed amount once produced.
+ * ─ Stock is optional, on the product or per variant — see ProductStock.ts.
+ * ─ Seasonal items and set production days are availability rules — see
+ *   ProductAvailability.ts.
+ * ─ Promotional and future prices are scheduled entries — see
+ *   PriceSchedule.ts.  price here is the regular price until then.
+ * ─ sku is the store's own product code.  Optional, unique per store, and
+ *   the key the CSV import matches existing products by.
  *
  * Multi-tenancy: storeId is present on BOTH entities so every query
  * remains tenant-scoped even when variants are fetched independently.
  */
 
 import type { ProductImage } from "@/domain/productImage/ProductImage";
+import type { AvailabilityRule } from "./ProductAvailability";
+import type { PriceSchedule } from "./PriceSchedule";
+import type {
+  CreateOptionGroupInput,
+  ProductOptionGroup,
+} from "./ProductOption";
 
 // ─── Value objects ────────────────────────────────────────────────────────────
 
@@ -43,19 +62,33 @@ export interface ProductVariant {
    * Examples: "P", "M", "G" / "500g", "1kg" / "Chocolate", "Baunilha"
    */
   label: string;
-  /** Price for this specific variant in the store currency */
+  /**
+   * Price for this specific variant in the store currency.
+   * Per kg when pricingType is WEIGHT.
+   */
   price: number;
   pricingType: PricingType;
   /**
-   * Base weight quantity for WEIGHT-priced variants (e.g. 250 for "250g").
+   * Minimum weight a customer may order, in weightUnit (e.g. 500 for "500g").
    * null when pricingType is UNIT.
    */
   weightValue: number | null;
   /**
-   * Unit of weight: "g" or "kg".
+   * Unit of weightValue and weightStep: "g" or "kg".
    * null when pricingType is UNIT.
    */
   weightUnit: WeightUnit | null;
+  /**
+   * Increment above the minimum weight, in weightUnit (e.g. 0.5 kg).
+   * null when pricingType is UNIT.
+   */
+  weightStep: number | null;
+  /** Maximum units of this variant per delivery date. null = unlimited. */
+  dailyCapacity: number | null;
+  /** Units in stock. null = not tracked for this variant. */
+  stockOnHand: number | null;
+  /** Units held by open orders, out of stockOnHand. */
+  stockReserved: number;
   isActive: boolean;
   /** Display order within the product's variant list (lower = first) */
   sortOrder: number;
@@ -68,6 +101,8 @@ export interface ProductVariant {
 export interface Product {
   id: string;
   storeId: string;
+  /** Store's own product code, unique per store. null = none. */
+  sku: string | null;
   name: string;
   description: string | null;
   /**
@@ -80,11 +115,35 @@ export interface Product {
    * Default 1. Enforced at checkout / order creation.
    */
   minQuantity: number;
+  /**
+   * Maximum units (all variants summed) per delivery date.
+   * null = unlimited. Enforced at order creation.
+   */
+  dailyCapacity: number | null;
+  /**
+   * Units in stock. null = made to order (stock is not tracked).
+   * Variants with their own count are tracked apart.
+   */
+  stockOnHand: number | null;
+  /** Units held by open orders, out of stockOnHand. */
+  stockReserved: number;
+  /**
+   * The product's own availability rule.  Its categories' rules apply to
+   * the fields left empty (see mergeAvailability).
+   */
+  availability: AvailabilityRule;
   isActive: boolean;
   createdAt: Date;
   updatedAt: Date;
   /** Eagerly loaded when requested via findById / findAllByStore */
   variants: ProductVariant[];
+  /** Eagerly loaded with their options, ordered by sortOrder. */
+  optionGroups: ProductOptionGroup[];
+  /**
+   * PROMOs not yet over and CHANGEs not yet applied, of the product and its
+   * variants, ordered by startsAt.
+   */
+  priceSchedules: PriceSchedule[];
   /**
    * Eagerly loaded images ordered by position (ascending).
    * findAllByStore includes only the main image (position = 1).
@@ -103,6 +162,10 @@ export interface CreateVariantInput {
   weightValue?: number | null;
   /** Required when pricingType is WEIGHT. */
   weightUnit?: WeightUnit | null;
+  /** Required when pricingType is WEIGHT. Must be > 0. */
+  weightStep?: number | null;
+  /** Positive integer, or null / omitted for unlimited. */
+  dailyCapacity?: number | null;
   isActive?: boolean;
   sortOrder?: number;
 }
@@ -115,12 +178,18 @@ export interface UpdateVariantInput {
   weightValue?: number | null;
   /** Set to null to clear. Required when pricingType is being set to WEIGHT. */
   weightUnit?: WeightUnit | null;
+  /** Set to null to clear. Required when pricingType is being set to WEIGHT. */
+  weightStep?: number | null;
+  /** Set to null for unlimited. */
+  dailyCapacity?: number | null;
   isActive?: boolean;
   sortOrder?: number;
 }
 
 export interface CreateProductInput {
   storeId: string;
+  /** Omitted / null = no SKU. */
+  sku?: string | null;
   name: string;
   description?: string;
   /**
@@ -129,17 +198,28 @@ export interface CreateProductInput {
    */
   price?: number;
   minQuantity?: number;
+  /** Positive integer, or null / omitted for unlimited. */
+  dailyCapacity?: number | null;
+  /** Omitted = no rule of its own. */
+  availability?: AvailabilityRule;
   isActive?: boolean;
   variants?: CreateVariantInput[];
+  optionGroups?: CreateOptionGroupInput[];
   /** At least one category must be assigned. */
   categoryIds?: string[];
 }
 
 export interface UpdateProductInput {
+  /** Set to null to clear. */
+  sku?: string | null;
   name?: string;
   description?: string;
   price?: number | null;
   minQuantity?: number;
+  /** Set to null for unlimited. */
+  dailyCapacity?: number | null;
+  /** When provided, replaces the whole rule. */
+  availability?: AvailabilityRule;
   isActive?: boolean;
   /**
    * When provided, ALL existing variants for the product are replaced with
@@ -147,9 +227,86 @@ export interface UpdateProductInput {
    * Pass an empty array to remove all variants.
    */
   variants?: CreateVariantInput[];
+  /**
+   * When provided, ALL option groups are replaced with this list, like
+   * variants.  Pass an empty array to remove them.
+   */
+  optionGroups?: CreateOptionGroupInput[];
   /** When provided, replaces all current category assignments. Must be non-empty. */
   categoryIds?: string[];
 }
 
 /** Safe public shape returned by all use cases and API routes. */
 export type ProductResponse = Product;
+
+// ─── Weight pricing ───────────────────────────────────────────────────────────
+
+/** Weight a WEIGHT variant may be ordered in, in kg. */
+export interface WeightRule {
+  minKg: number;
+  stepKg: number;
+}
+
+/** Converts a weight in `unit` to kg. */
+export function toKilograms(value: number, unit: WeightUnit): number {
+  return unit === "g" ? value / 1000 : value;
+}
+
+/**
+ * Minimum and step of a WEIGHT variant in kg.
+ * Null for UNIT variants (and for WEIGHT variants missing their weights).
+ * Accepts catalogue variants, whose weightUnit is a plain string.
+ */
+export function getWeightRule(
+  variant: Pick<
+    ProductVariant,
+    "pricingType" | "weightValue" | "weightStep"
+  > & {
+    weightUnit: string | null;
+  },
+): WeightRule | null {
+  if (
+    variant.pricingType !== "WEIGHT" ||
+    variant.weightValue == null ||
+    (variant.weightUnit !== "g" && variant.weightUnit !== "kg") ||
+    variant.weightStep == null
+  ) {
+    return null;
+  }
+  return {
+    minKg: toKilograms(variant.weightValue, variant.weightUnit),
+    stepKg: toKilograms(variant.weightStep, variant.weightUnit),
+  };
+}
+
+/**
+ * Whether `weightKg` can be ordered: at least the minimum and a whole number
+ * of steps above it.  Compared in grams so 0.1 + 0.2 style errors never
+ * reject a valid weight.
+ */
+export function isOrderableWeight(weightKg: number, rule: WeightRule): boolean {
+  if (!Number.isFinite(weightKg)) return false;
+  const grams = Math.round(weightKg * 1000);
+  const minGrams = Math.round(rule.minKg * 1000);
+  const stepGrams = Math.round(rule.stepKg * 1000);
+  return (
+    grams >= minGrams && stepGrams > 0 && (grams - minGrams) % stepGrams === 0
+  );
+}
+
+/** Price of `weightKg` at `pricePerKg`, rounded to the cent. */
+export function priceForWeight(pricePerKg: number, weightKg: number): number {
+  return Math.round(pricePerKg * weightKg * 100) / 100;
+}
+
+// ─── SKU ──────────────────────────────────────────────────────────────────────
+
+export const MAX_SKU_LENGTH = 64;
+
+/**
+ * Whether `sku` is a usable product code: 1–MAX_SKU_LENGTH letters, digits
+ * and . _ - / — no spaces, so it survives spreadsheets and CSV round trips.
+ */
+export function isValidSku(sku: string): boolean {
+  return sku.length <= MAX_SKU_LENGTH && /^[\w./-]+$/.test(sku);
+}
@@ -0,0 +1,201 @@
+/**
+ * Product availability — on which delivery dates an item can be made.
+ * Pure TypeScript, no Prisma, no Next.js, no HTTP.
+ *
+ * Design rationale:
+ * ─ Some items are seasonal (panettone in December) or made on set days
+ *   (feijoada on Saturdays).  A rule lists the allowed weekdays, a first and
+ *   last delivery date, and a lead time in days.  Every part is optional;
+ *   an empty rule means "any day the store is open".
+ * ─ Rules live on products and on categories.  A product's own setting wins
+ *   field by field; otherwise its categories apply, combined so the strictest
+ *   bound wins (mergeAvailability).
+ * ─ The lead time replaces Store.minimumAdvanceDays for the product — it
+ *   can be longer (panettone: 7 days) or shorter (bread: same day).
+ * ─ Dates are calendar days (YYYY-MM-DD, UTC), like the store schedule.
+ *
+ * Every function here is pure so it can run on the server (catalog, order
+ * placement) and in the browser (catalog date picker) alike.
+ */
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+/** Longest lead time a store may set, in days. */
+export const MAX_LEAD_TIME_DAYS = 365;
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface AvailabilityRule {
+  /** Weekdays the item is made (0 = Sunday … 6 = Saturday). Empty = every day. */
+  availableWeekdays: number[];
+  /** First delivery date, YYYY-MM-DD. null = no bound. */
+  availableFrom: string | null;
+  /** Last delivery date, YYYY-MM-DD. null = no bound. */
+  availableUntil: string | null;
+  /** Days of notice required. null = the store's minimumAdvanceDays. */
+  leadTimeDays: number | null;
+}
+
+/** Why an item cannot be made for a date. */
+export type AvailabilityIssue =
+  "LEAD_TIME" | "WEEKDAY" | "NOT_STARTED" | "ENDED";
+
+export const NO_AVAILABILITY_RULE: AvailabilityRule = {
+  availableWeekdays: [],
+  availableFrom: null,
+  availableUntil: null,
+  leadTimeDays: null,
+};
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function addDays(date: string, n: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + n);
+  return d.toISOString().slice(0, 10);
+}
+
+function weekdayOf(date: string): number {
+  return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
+
+// ─── Rules ────────────────────────────────────────────────────────────────────
+
+/**
+ * mergeAvailability — the rule that applies to a product.
+ *
+ * Each field of the product's own rule wins when set.  Otherwise the
+ * categories combine: weekdays allowed by all of them, the latest start,
+ * the earliest end and the longest lead time.
+ */
+export function mergeAvailability(
+  own: AvailabilityRule,
+  categories: AvailabilityRule[],
+): AvailabilityRule {
+  let weekdays: number[] | null = null;
+  let from: string | null = null;
+  let until: string | null = null;
+  let lead: number | null = null;
+
+  for (const rule of categories) {
+    if (rule.availableWeekdays.length > 0) {
+      weekdays = weekdays
+        ? weekdays.filter((d) => rule.availableWeekdays.includes(d))
+        : [...rule.availableWeekdays];
+    }
+    if (rule.availableFrom && (!from || rule.availableFrom > from)) {
+      from = rule.availableFrom;
+    }
+    if (rule.availableUntil && (!until || rule.availableUntil < until)) {
+      until = rule.availableUntil;
+    }
+    if (
+      rule.leadTimeDays !== null &&
+      (lead === null || rule.leadTimeDays > lead)
+    ) {
+      lead = rule.leadTimeDays;
+    }
+  }
+
+  return {
+    availableWeekdays:
+      own.availableWeekdays.length > 0
+        ? own.availableWeekdays
+        : (weekdays ?? []),
+    availableFrom: own.availableFrom ?? from,
+    availableUntil: own.availableUntil ?? until,
+    leadTimeDays: own.leadTimeDays ?? lead,
+  };
+}
+
+/** True when the rule restricts anything: weekdays, dates or lead time. */
+export function hasAvailabilityRule(rule: AvailabilityRule): boolean {
+  return (
+    rule.availableWeekdays.length > 0 ||
+    rule.availableFrom !== null ||
+    rule.availableUntil !== null ||
+    rule.leadTimeDays !== null
+  );
+}
+
+/** Days of notice for an item: its lead time, else the store's. */
+export function effectiveLeadTime(
+  rule: AvailabilityRule,
+  storeMinimumAdvanceDays: number,
+): number {
+  return rule.leadTimeDays ?? storeMinimumAdvanceDays;
+}
+
+/**
+ * findAvailabilityIssue — null when the item can be made for `date`,
+ * otherwise the first rule it breaks (lead time → date range → weekday).
+ *
+ * @param date   Delivery date, YYYY-MM-DD.
+ * @param today  Today's date, YYYY-MM-DD (UTC).
+ */
+export function findAvailabilityIssue(
+  rule: AvailabilityRule,
+  date: string,
+  today: string,
+  storeMinimumAdvanceDays: number,
+): AvailabilityIssue | null {
+  if (date < addDays(today, effectiveLeadTime(rule, storeMinimumAdvanceDays))) {
+    return "LEAD_TIME";
+  }
+  if (rule.availableFrom && date < rule.availableFrom) return "NOT_STARTED";
+  if (rule.availableUntil && date > rule.availableUntil) return "ENDED";
+  if (
+    rule.availableWeekdays.length > 0 &&
+    !rule.availableWeekdays.includes(weekdayOf(date))
+  ) {
+    return "WEEKDAY";
+  }
+  return null;
+}
+
+// ─── Validation ───────────────────────────────────────────────────────────────
+
+function isCalendarDate(value: string): boolean {
+  return (
+    /^\d{4}-\d{2}-\d{2}$/.test(value) &&
+    !isNaN(new Date(`${value}T00:00:00Z`).getTime()) &&
+    new Date(`${value}T00:00:00Z`).toISOString().startsWith(value)
+  );
+}
+
+/**
+ * validateAvailabilityRule — null when the rule is valid, otherwise the
+ * field at fault.  Weekdays must be distinct integers 0–6, dates real
+ * calendar days in order, and the lead time an integer 0–MAX_LEAD_TIME_DAYS.
+ */
+export function validateAvailabilityRule(
+  rule: AvailabilityRule,
+): keyof AvailabilityRule | null {
+  const { availableWeekdays: days } = rule;
+  if (
+    !Array.isArray(days) ||
+    days.some((d) => !Number.isInteger(d) || d < 0 || d > 6) ||
+    new Set(days).size !== days.length
+  ) {
+    return "availableWeekdays";
+  }
+  if (rule.availableFrom !== null && !isCalendarDate(rule.availableFrom)) {
+    return "availableFrom";
+  }
+  if (
+    rule.availableUntil !== null &&
+    (!isCalendarDate(rule.availableUntil) ||
+      (rule.availableFrom !== null && rule.availableUntil < rule.availableFrom))
+  ) {
+    return "availableUntil";
+  }
+  if (
+    rule.leadTimeDays !== null &&
+    (!Number.isInteger(rule.leadTimeDays) ||
+      rule.leadTimeDays < 0 ||
+      rule.leadTimeDays > MAX_LEAD_TIME_DAYS)
+  ) {
+    return "leadTimeDays";
+  }
+  return null;
+}
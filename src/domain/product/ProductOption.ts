@@ -0,0 +1,140 @@
+/**
+ * Product option groups — pure TypeScript, no Prisma, no Next.js, no HTTP.
+ *
+ * Design rationale:
+ * ─ A variant answers "which cake" (size, flavour); option groups answer
+ *   "what goes with it": a topper for R$ 10, a filling from a list, a
+ *   number of candles, a message written on top.
+ * ─ CHOICE groups list options; TEXT groups take free text from the
+ *   customer and have no options.  min/maxSelections bound how many
+ *   options of a group are picked (a TEXT group is required when
+ *   minSelections is 1).
+ * ─ Option prices are added to the line's unit price.  What was chosen is
+ *   frozen on the OrderItem as OrderItemOption[], like the product name
+ *   and price, so later catalogue edits never change past orders.
+ */
+
+// ─── Enums ────────────────────────────────────────────────────────────────────
+
+/** Mirrors the Prisma enum of the same name. */
+export enum ProductOptionGroupType {
+  CHOICE = "CHOICE",
+  TEXT = "TEXT",
+}
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+/** Longest text a customer may type in a TEXT group. */
+export const OPTION_TEXT_MAX_LENGTH = 200;
+
+// ─── Entities ─────────────────────────────────────────────────────────────────
+
+export interface ProductOption {
+  id: string;
+  groupId: string;
+  label: string;
+  /** Added to the unit price for each unit picked. 0 = free. */
+  price: number;
+  /** Units of this option a customer may pick (e.g. 10 candles). Default 1. */
+  maxQuantity: number;
+  sortOrder: number;
+}
+
+export interface ProductOptionGroup {
+  id: string;
+  productId: string;
+  storeId: string;
+  name: string;
+  type: ProductOptionGroupType;
+  /** Options that must be picked. 0 = optional group. */
+  minSelections: number;
+  /** Options that may be picked. Always 1 for TEXT groups. */
+  maxSelections: number;
+  sortOrder: number;
+  /** Ordered by sortOrder. Empty for TEXT groups. */
+  options: ProductOption[];
+}
+
+// ─── Input types ──────────────────────────────────────────────────────────────
+
+export interface CreateOptionInput {
+  label: string;
+  price: number;
+  maxQuantity?: number;
+}
+
+export interface CreateOptionGroupInput {
+  name: string;
+  type: ProductOptionGroupType;
+  minSelections: number;
+  maxSelections: number;
+  /** Must be empty for TEXT groups. */
+  options: CreateOptionInput[];
+}
+
+/** What the customer picked in one group — one entry per option (or text). */
+export interface OptionSelection {
+  groupId: string;
+  /** CHOICE groups only. */
+  optionId?: string | null;
+  /** Units of the option. Defaults to 1. */
+  quantity?: number | null;
+  /** TEXT groups only. */
+  text?: string | null;
+}
+
+/**
+ * Coerces an untrusted JSON payload (order or coupon request) into option
+ * selections.  Structure only — the values are checked against the
+ * product's option groups when the order is priced.
+ */
+export function parseOptionSelections(raw: unknown): OptionSelection[] {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter(
+      (s): s is Record<string, unknown> => typeof s === "object" && s !== null,
+    )
+    .map((s) => ({
+      groupId: String(s.groupId ?? ""),
+      optionId: s.optionId != null ? String(s.optionId) : null,
+      quantity: s.quantity != null ? Number(s.quantity) : null,
+      text: typeof s.text === "string" ? s.text : null,
+    }));
+}
+
+// ─── Order snapshot ───────────────────────────────────────────────────────────
+
+/**
+ * A chosen option as frozen on the OrderItem.
+ * For TEXT groups `label` is the text the customer typed and `price` is 0.
+ */
+export interface OrderItemOption {
+  groupName: string;
+  label: string;
+  quantity: number;
+  /** Price per unit of the option at order time. */
+  price: number;
+}
+
+/** Per-unit surcharge of the chosen options, rounded to the cent. */
+export function computeOptionsSurcharge(
+  options: ReadonlyArray<Pick<OrderItemOption, "price" | "quantity">>,
+): number {
+  const cents = options.reduce(
+    (sum, o) => sum + Math.round(o.price * 100) * o.quantity,
+    0,
+  );
+  return cents / 100;
+}
+
+/**
+ * One-line description of a chosen option for receipts and boards.
+ *
+ * @example
+ *   formatItemOption({ groupName: "Velas", label: "Vela colorida", quantity: 3, price: 2 })
+ *   // → "Velas: 3× Vela colorida"
+ */
+export function formatItemOption(option: OrderItemOption): string {
+  const quantity = option.quantity > 1 ? `${option.quantity}× ` : "";
+  return `${option.groupName}: ${quantity}${option.label}`;
+}
@@ -0,0 +1,195 @@
+/**
+ * Product stock — pure TypeScript, no Prisma, no Next.js, no HTTP.
+ *
+ * Design rationale:
+ * ─ Most items are made to order and have no stock (stockOnHand null).
+ *   Shops that sell a fixed batch (jars, boxes) set a count on the product,
+ *   or on each variant when sizes or flavours are counted apart.  A variant
+ *   with its own count takes precedence over the product's.
+ * ─ Placing an order reserves units; they are released when the order is
+ *   REJECTED or CANCELLED and consumed (leave stockOnHand) when DELIVERED.
+ *   What is available for sale is stockOnHand − stockReserved.
+ * ─ Every change is recorded as a StockMovement, so the dashboard can show
+ *   the history and an order knows exactly what it still holds.
+ */
+
+// ─── Enums ────────────────────────────────────────────────────────────────────
+
+/** Mirrors the Prisma enum of the same name. */
+export enum StockMovementType {
+  ADJUSTMENT = "ADJUSTMENT",
+  RESERVE = "RESERVE",
+  RELEASE = "RELEASE",
+  CONSUME = "CONSUME",
+}
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+export const STOCK_REASON_MAX_LENGTH = 200;
+
+/** Highest count a store may set — guards against typos like 10000000. */
+export const MAX_STOCK_ON_HAND = 100_000;
+
+// ─── Entities ─────────────────────────────────────────────────────────────────
+
+/** Stock counters of a product or variant. */
+export interface StockLevel {
+  /** Units in stock. null = stock is not tracked. */
+  stockOnHand: number | null;
+  /** Units held by open orders, out of stockOnHand. */
+  stockReserved: number;
+}
+
+export interface StockMovement {
+  id: string;
+  storeId: string;
+  productId: string;
+  /** Set when the movement is on the variant's own stock. */
+  variantId: string | null;
+  /** Label of the variant, resolved at read time. */
+  variantLabel: string | null;
+  /** Set for RESERVE / RELEASE / CONSUME. */
+  orderId: string | null;
+  /** Order number, resolved at read time. */
+  orderNumber: number | null;
+  type: StockMovementType;
+  /** Units moved. Signed for ADJUSTMENT (new count − previous count). */
+  quantity: number;
+  /** null when the adjustment stopped tracking the stock. */
+  onHandAfter: number | null;
+  reservedAfter: number;
+  reason: string | null;
+  /** Admin id. null for system movements. */
+  actorId: string | null;
+  /** E-mail of the admin, resolved at read time. */
+  actorEmail: string | null;
+  createdAt: Date;
+}
+
+// ─── Input types ──────────────────────────────────────────────────────────────
+
+/** A count set by the store (stocktake, new batch, breakage). */
+export interface AdjustStockInput {
+  storeId: string;
+  productId: string;
+  /** Adjusts the variant's own stock; null adjusts the product's. */
+  variantId: string | null;
+  /** New count, or null to stop tracking. */
+  stockOnHand: number | null;
+  reason: string | null;
+  actorId: string | null;
+}
+
+// ─── Rules ────────────────────────────────────────────────────────────────────
+
+/** Units available for sale. null when stock is not tracked. */
+export function availableStock(level: StockLevel): number | null {
+  return level.stockOnHand === null
+    ? null
+    : Math.max(0, level.stockOnHand - level.stockReserved);
+}
+
+/**
+ * Units available across a product's counters — its own and those of the
+ * variants counted apart.  null when nothing is tracked.
+ */
+export function totalAvailableStock(
+  product: StockLevel & { variants: StockLevel[] },
+): number | null {
+  const levels = [product, ...product.variants].filter(
+    (l) => l.stockOnHand !== null,
+  );
+  return levels.length === 0
+    ? null
+    : levels.reduce((sum, l) => sum + (availableStock(l) ?? 0), 0);
+}
+
+/** Where the stock of an order line is counted. */
+export type StockTarget =
+  | { scope: "VARIANT"; productId: string; variantId: string }
+  | { scope: "PRODUCT"; productId: string };
+
+/** Identifies a counter in maps, e.g. "VARIANT:<id>". */
+export function stockTargetKey(target: StockTarget): string {
+  return target.scope === "VARIANT"
+    ? `VARIANT:${target.variantId}`
+    : `PRODUCT:${target.productId}`;
+}
+
+/**
+ * The counter an order line draws from: the variant's own stock, else the
+ * product's.  null when neither is tracked (made to order).
+ */
+export function resolveStockTarget(
+  product: StockLevel & {
+    id: string;
+    variants: (StockLevel & { id: string })[];
+  },
+  variantId: string | null | undefined,
+): (StockTarget & { available: number }) | null {
+  const variant = variantId
+    ? product.variants.find((v) => v.id === variantId)
+    : undefined;
+  if (variant && variant.stockOnHand !== null) {
+    return {
+      scope: "VARIANT",
+      productId: product.id,
+      variantId: variant.id,
+      available: availableStock(variant) ?? 0,
+    };
+  }
+  if (product.stockOnHand !== null) {
+    return {
+      scope: "PRODUCT",
+      productId: product.id,
+      available: availableStock(product) ?? 0,
+    };
+  }
+  return null;
+}
+
+/** A stock counter an order would overdraw. */
+export type StockShortfall = StockTarget & { available: number };
+
+/**
+ * findStockShortfall — null when every line fits the available stock,
+ * otherwise the first counter overdrawn.
+ *
+ * Quantities drawing from the same counter across lines are summed first.
+ */
+export function findStockShortfall(
+  products: Parameters<typeof resolveStockTarget>[0][],
+  lines: { productId: string; variantId?: string | null; quantity: number }[],
+): StockShortfall | null {
+  const requested = new Map<
+    string,
+    { target: StockShortfall; units: number }
+  >();
+
+  for (const line of lines) {
+    const product = products.find((p) => p.id === line.productId);
+    const target = product && resolveStockTarget(product, line.variantId);
+    if (!target) continue;
+
+    const key = stockTargetKey(target);
+    const entry = requested.get(key);
+    if (entry) entry.units += line.quantity;
+    else requested.set(key, { target, units: line.quantity });
+  }
+
+  for (const { target, units } of requested.values()) {
+    if (units > target.available) return target;
+  }
+  return null;
+}
+
+/** A stock count is either null (not tracked) or an integer from 0. */
+export function isValidStockCount(value: number | null | undefined): boolean {
+  return (
+    value === null ||
+    (typeof value === "number" &&
+      Number.isInteger(value) &&
+      value >= 0 &&
+      value <= MAX_STOCK_ON_HAND)
+  );
+}
@@ -8,9 +8,11 @@
  * Hierarchy:
  *   DailyProductionGroup (one per category)
  *     └── DailyProductionItem (one per product + variant combination)
- *           └── DailyProductionOrderRef (one per contributing order)
+ *           └── DailyProductionOrderRef (one per contributing order line)
  */
 
+import type { OrderItemOption } from "@/domain/product/ProductOption";
+
 // ─── Order reference within a production item ─────────────────────────────────
 
 /**
@@ -26,11 +28,21 @@ export interface DailyProductionOrderRef {
   customerName: string;
   /** Units of this specific product+variant contributed by this order. */
   quantity: number;
+  /**
+   * Options chosen for these units (topper, filling, message…). An order
+   * that asks for the same product+variant with different options has one
+   * reference per line.
+   */
+  options: OrderItemOption[];
+  /** Customer instructions for these units only. Null if none. */
+  itemNotes: string | null;
+  /** Weight ordered per unit, in kg, for variants sold by weight. Null otherwise. */
+  weightKg: number | null;
   /** Pickup time window, e.g. "09:00 – 12:00". Null for delivery orders. */
   deliveryTime: string | null;
   /** Digits-only WhatsApp number for quick-action button. */
   customerWhatsapp: string;
-  /** Customer observation note. Null if none. */
+  /** Customer observation note for the whole order. Null if none. */
   notes: string | null;
 }
 
@@ -0,0 +1,214 @@
+/**
+ * ProductionCapacity — how many units a store can produce per delivery date.
+ *
+ * Limits (all optional, null = unlimited):
+ * ─ Store.dailyCapacity          — item units across all products.
+ * ─ Product.dailyCapacity        — units of one product, all variants summed.
+ * ─ ProductVariant.dailyCapacity — units of one specific variant.
+ *
+ * Usage is never stored: it is rebuilt from the PENDING + APPROVED orders of
+ * the date, the same set GetDailyProductionUseCase aggregates when pending
+ * orders are included.  Approved orders later CANCELLED free their units.
+ *
+ * Every function here is pure so it can run on the server (order placement,
+ * agenda) and in the browser (catalog date picker) alike.
+ */
+
+import {
+  OrderTrackingStatus,
+  type OrderWithDetails,
+} from "@/domain/order/Order";
+import type { Product, ProductVariant } from "@/domain/product/Product";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+/** Units already booked for one delivery date. */
+export interface DailyProductionUsage {
+  /** Calendar date, YYYY-MM-DD. */
+  date: string;
+  /** Sum of quantities across every order item of the date. */
+  totalUnits: number;
+  /** productId → units. */
+  byProduct: Record<string, number>;
+  /** variantId → units. */
+  byVariant: Record<string, number>;
+}
+
+/** The limits that apply to a store — products without caps may be omitted. */
+export interface ProductionCapacityLimits {
+  storeDailyCapacity: number | null;
+  products: Array<
+    Pick<Product, "id" | "dailyCapacity"> & {
+      variants: Pick<ProductVariant, "id" | "dailyCapacity">[];
+    }
+  >;
+}
+
+/** Resolved capacity of a single delivery date. */
+export interface DailyCapacity {
+  /** Calendar date, YYYY-MM-DD. */
+  date: string;
+  /** Store-wide limit in units. Null = unlimited. */
+  capacity: number | null;
+  /** Units already booked on the date. */
+  usedUnits: number;
+  /** Store-wide units still available. Null = unlimited. */
+  remainingUnits: number | null;
+  /** Remaining units per product that has its own limit (productId → units). */
+  remainingByProduct: Record<string, number>;
+  /** Remaining units per variant that has its own limit (variantId → units). */
+  remainingByVariant: Record<string, number>;
+}
+
+/** One line of a prospective order, as far as capacity is concerned. */
+export interface CapacityRequestLine {
+  productId: string;
+  variantId?: string | null;
+  quantity: number;
+}
+
+/** The first limit an order would exceed. */
+export type CapacityShortfall =
+  | { scope: "STORE"; remaining: number }
+  | { scope: "PRODUCT"; productId: string; remaining: number }
+  | { scope: "VARIANT"; variantId: string; remaining: number };
+
+// ─── Aggregation ──────────────────────────────────────────────────────────────
+
+/**
+ * Groups order items by delivery date (UTC day of deliveryDate).
+ * Callers decide which statuses count — typically PENDING + APPROVED;
+ * orders whose tracking status is CANCELLED are always skipped.
+ */
+export function aggregateProductionUsage(
+  orders: (Pick<OrderWithDetails, "deliveryDate" | "orderStatus"> & {
+    items: CapacityRequestLine[];
+  })[],
+): Map<string, DailyProductionUsage> {
+  const byDate = new Map<string, DailyProductionUsage>();
+
+  for (const order of orders) {
+    if (order.orderStatus === OrderTrackingStatus.CANCELLED) continue;
+
+    const date = order.deliveryDate.toISOString().slice(0, 10);
+    let usage = byDate.get(date);
+    if (!usage) {
+      usage = { date, totalUnits: 0, byProduct: {}, byVariant: {} };
+      byDate.set(date, usage);
+    }
+
+    for (const item of order.items) {
+      usage.totalUnits += item.quantity;
+      usage.byProduct[item.productId] =
+        (usage.byProduct[item.productId] ?? 0) + item.quantity;
+      if (item.variantId) {
+        usage.byVariant[item.variantId] =
+          (usage.byVariant[item.variantId] ?? 0) + item.quantity;
+      }
+    }
+  }
+
+  return byDate;
+}
+
+/**
+ * computeDailyCapacity — merges limits and usage for one date.
+ * Missing usage means nothing has been booked yet.
+ */
+export function computeDailyCapacity(
+  date: string,
+  usage: DailyProductionUsage | undefined,
+  limits: ProductionCapacityLimits,
+): DailyCapacity {
+  const usedUnits = usage?.totalUnits ?? 0;
+  const remainingByProduct: Record<string, number> = {};
+  const remainingByVariant: Record<string, number> = {};
+
+  for (const product of limits.products) {
+    if (product.dailyCapacity !== null) {
+      remainingByProduct[product.id] = Math.max(
+        0,
+        product.dailyCapacity - (usage?.byProduct[product.id] ?? 0),
+      );
+    }
+    for (const variant of product.variants) {
+      if (variant.dailyCapacity !== null) {
+        remainingByVariant[variant.id] = Math.max(
+          0,
+          variant.dailyCapacity - (usage?.byVariant[variant.id] ?? 0),
+        );
+      }
+    }
+  }
+
+  return {
+    date,
+    capacity: limits.storeDailyCapacity,
+    usedUnits,
+    remainingUnits:
+      limits.storeDailyCapacity === null
+        ? null
+        : Math.max(0, limits.storeDailyCapacity - usedUnits),
+    remainingByProduct,
+    remainingByVariant,
+  };
+}
+
+/**
+ * findCapacityShortfall — null when every line fits, otherwise the first
+ * limit exceeded (store → product → variant).
+ *
+ * Quantities of the same product / variant across lines are summed first.
+ */
+export function findCapacityShortfall(
+  capacity: DailyCapacity,
+  lines: CapacityRequestLine[],
+): CapacityShortfall | null {
+  let total = 0;
+  const byProduct = new Map<string, number>();
+  const byVariant = new Map<string, number>();
+
+  for (const line of lines) {
+    total += line.quantity;
+    byProduct.set(
+      line.productId,
+      (byProduct.get(line.productId) ?? 0) + line.quantity,
+    );
+    if (line.variantId) {
+      byVariant.set(
+        line.variantId,
+        (byVariant.get(line.variantId) ?? 0) + line.quantity,
+      );
+    }
+  }
+
+  if (capacity.remainingUnits !== null && total > capacity.remainingUnits) {
+    return { scope: "STORE", remaining: capacity.remainingUnits };
+  }
+  for (const [productId, quantity] of byProduct) {
+    const remaining = capacity.remainingByProduct[productId];
+    if (remaining !== undefined && quantity > remaining) {
+      return { scope: "PRODUCT", productId, remaining };
+    }
+  }
+  for (const [variantId, quantity] of byVariant) {
+    const remaining = capacity.remainingByVariant[variantId];
+    if (remaining !== undefined && quantity > remaining) {
+      return { scope: "VARIANT", variantId, remaining };
+    }
+  }
+  return null;
+}
+
+// ─── Validation ───────────────────────────────────────────────────────────────
+
+/** A daily limit is either absent (null / undefined) or a positive integer. */
+export function isValidDailyCapacity(
+  value: number | null | undefined,
+): boolean {
+  return (
+    value === null ||
+    value === undefined ||
+    (Number.isInteger(value) && value > 0)
+  );
+}
@@ -93,6 +93,27 @@ export interface IStoreRepository {
   /** Persists the store's minimum advance days setting. */
   updateMinimumAdvanceDays(storeId: string, days: number): Promise<void>;
 
+  /** Returns the store's daily production capacity in units (null = unlimited). */
+  findDailyCapacity(storeId: string): Promise<number | null>;
+
+  /** Persists the store's daily production capacity. Pass null for unlimited. */
+  updateDailyCapacity(storeId: string, capacity: number | null): Promise<void>;
+
+  /** Returns the store's PIX key, or null when not configured. */
+  findPixKey(storeId: string): Promise<string | null>;
+
+  /** Persists the store's PIX key. Pass null to remove it. */
+  updatePixKey(storeId: string, pixKey: string | null): Promise<void>;
+
+  /** Returns the deposit share (1–100 %) due upfront, or null for none. */
+  findDepositPercentage(storeId: string): Promise<number | null>;
+
+  /** Persists the store's deposit percentage. Pass null for no deposit. */
+  updateDepositPercentage(
+    storeId: string,
+    percentage: number | null,
+  ): Promise<void>;
+
   // ─── Super-admin-scoped methods (not tenant-isolated) ────────────────────────
 
   /**
@@ -1,38 +1,151 @@
 /**
  * StoreMessageConfig — per-store WhatsApp message templates.
  *
- * Each template may include the following placeholders that are resolved
- * at send-time by the application layer:
- *   {cliente} — customer first name
- *   {pedido}  — per-store sequential order number (e.g. "42")
- *   {data}    — formatted delivery date (e.g. "sexta-feira, 6 de março")
+ * One template per order event (see MESSAGE_TEMPLATES).  Each template may
+ * include the placeholders listed in MESSAGE_PLACEHOLDERS; they are resolved
+ * at send-time by the application layer from the order and store data.
  *
- * Both message fields are optional.  When null the application falls back
+ * Every message field is optional.  When null the application falls back
  * to DEFAULT_MESSAGES.  This keeps old stores working without DB updates.
  *
  * Extensibility note: additional channels (email, SMS) should extend this
  * model by adding new nullable fields, not by creating a new entity.
  */
 
+import type { OrderWithDetails } from "@/domain/order/Order";
+import { FulfillmentType, orderTrackingPath } from "@/domain/order/Order";
+import { computeOrderTotal } from "@/domain/order/OrderItem";
+import { formatItemOption } from "@/domain/product/ProductOption";
+import type { StorePickupAddress } from "./types";
+
+// ─── Template keys ────────────────────────────────────────────────────────────
+
+/**
+ * Order events that have a configurable message.
+ * The matching column on StoreMessageConfig is `${key}Message`.
+ */
+export type MessageTemplateKey =
+  | "received"
+  | "approval"
+  | "rejection"
+  | "paid"
+  | "readyForPickup"
+  | "outForDelivery"
+  | "delivered"
+  | "cancelled"
+  | "reminder";
+
 // ─── Entity ───────────────────────────────────────────────────────────────────
 
 export interface StoreMessageConfig {
   storeId: string;
+  /** Template for a newly placed order. Null means "use default". */
+  receivedMessage: string | null;
   /** Template for order approval. Null means "use default". */
   approvalMessage: string | null;
   /** Template for order rejection. Null means "use default". */
   rejectionMessage: string | null;
+  /** Template for payment confirmation. Null means "use default". */
+  paidMessage: string | null;
+  /** Template for "ready for pickup" (PICKUP orders). Null means "use default". */
+  readyForPickupMessage: string | null;
+  /** Template for "out for delivery" (DELIVERY orders). Null means "use default". */
+  outForDeliveryMessage: string | null;
+  /** Template for a delivered order. Null means "use default". */
+  deliveredMessage: string | null;
+  /** Template for an order cancelled after approval. Null means "use default". */
+  cancelledMessage: string | null;
+  /** Template for the reminder sent the day before delivery. Null means "use default". */
+  reminderMessage: string | null;
+}
+
+/** Only the template columns — what the store owner edits. */
+export type StoreMessageTemplates = Omit<StoreMessageConfig, "storeId">;
+
+/** Returns the custom template for an event, or null when not configured. */
+export function getTemplate(
+  config: StoreMessageConfig | null,
+  key: MessageTemplateKey,
+): string | null {
+  return config?.[`${key}Message`] ?? null;
 }
 
 // ─── Defaults ─────────────────────────────────────────────────────────────────
 
 export const DEFAULT_MESSAGES = {
+  received:
+    "Olá {cliente}, recebemos seu pedido nº {pedido} para {data}!\n{itens}\nTotal: {total}. Avisaremos assim que ele for confirmado.",
   approval:
-    "Olá {cliente}, seu pedido nº {pedido} foi aprovado! Entrega prevista: {data}. 🎉",
+    "Olá {cliente}, seu pedido nº {pedido} foi aprovado! Entrega prevista: {data}. 🎉\nPague com PIX copia e cola:\n{pix_copia_e_cola}\nAcompanhe aqui: {link}",
   rejection:
     "Olá {cliente}, infelizmente seu pedido nº {pedido} não pôde ser aceito. Entre em contato para mais informações.",
+  paid: "Olá {cliente}, o pagamento do pedido nº {pedido} foi confirmado. Obrigado!",
+  readyForPickup:
+    "Olá {cliente}, seu pedido nº {pedido} está pronto para retirada em {endereco} ({horario}).",
+  outForDelivery:
+    "Olá {cliente}, seu pedido nº {pedido} saiu para entrega em {endereco}.",
+  delivered:
+    "Olá {cliente}, seu pedido nº {pedido} foi entregue. Bom apetite e obrigado pela preferência! 💛",
+  cancelled:
+    "Olá {cliente}, seu pedido nº {pedido} foi cancelado. Entre em contato se tiver alguma dúvida.",
+  reminder:
+    "Olá {cliente}, lembrete: seu pedido nº {pedido} é para amanhã, {data}. Total: {total}.",
   contact: "Olá {cliente}, estamos falando sobre seu pedido nº {pedido}.",
-} as const;
+} as const satisfies Record<MessageTemplateKey | "contact", string>;
+
+// ─── Template catalogue (used by the settings UI) ────────────────────────────
+
+export const MESSAGE_TEMPLATES: ReadonlyArray<{
+  key: MessageTemplateKey;
+  label: string;
+  description: string;
+}> = [
+  {
+    key: "received",
+    label: "Pedido recebido",
+    description: "Enviada assim que o cliente finaliza o pedido.",
+  },
+  {
+    key: "approval",
+    label: "Pedido aprovado",
+    description: "Enviada ao aprovar o pedido.",
+  },
+  {
+    key: "rejection",
+    label: "Pedido recusado",
+    description: "Enviada ao recusar o pedido.",
+  },
+  {
+    key: "paid",
+    label: "Pagamento confirmado",
+    description: "Enviada ao marcar o pedido como pago.",
+  },
+  {
+    key: "readyForPickup",
+    label: "Pronto para retirada",
+    description: "Enviada pelo botão de aviso em pedidos de retirada.",
+  },
+  {
+    key: "outForDelivery",
+    label: "Saiu para entrega",
+    description: "Enviada pelo botão de aviso em pedidos de entrega.",
+  },
+  {
+    key: "delivered",
+    label: "Pedido entregue",
+    description: "Enviada ao marcar o pedido como entregue.",
+  },
+  {
+    key: "cancelled",
+    label: "Pedido cancelado",
+    description: "Enviada ao cancelar um pedido aprovado.",
+  },
+  {
+    key: "reminder",
+    label: "Lembrete (véspera)",
+    description: "Enviada no dia anterior à entrega de pedidos aprovados.",
+  },
+];
 
 // ─── Placeholder constants (used in UI documentation) ────────────────────────
 
@@ -40,21 +153,59 @@ export const MESSAGE_PLACEHOLDERS = [
   { key: "{cliente}", description: "Nome do cliente" },
   { key: "{pedido}", description: "Número do pedido (ex: 42)" },
   { key: "{data}", description: "Data de entrega formatada" },
+  { key: "{itens}", description: "Lista de itens do pedido" },
+  { key: "{total}", description: "Total do pedido com taxa" },
+  { key: "{taxa}", description: "Taxa de entrega" },
+  { key: "{endereco}", description: "Endereço de retirada ou de entrega" },
+  { key: "{horario}", description: "Horário de retirada" },
+  { key: "{pix}", description: "Chave PIX da loja" },
+  {
+    key: "{pix_copia_e_cola}",
+    description: "Código PIX copia e cola do pedido aprovado",
+  },
+  { key: "{link}", description: "Link de acompanhamento do pedido" },
 ] as const;
 
 export const MESSAGE_MAX_LENGTH = 500;
 
+const KNOWN_PLACEHOLDERS = new Set<string>(
+  MESSAGE_PLACEHOLDERS.map((p) => p.key),
+);
+
+/**
+ * findUnknownPlaceholders — returns every `{token}` in the template that is
+ * not a supported placeholder (deduplicated, in order of appearance).
+ * An empty array means the template is valid.
+ */
+export function findUnknownPlaceholders(template: string): string[] {
+  const unknown: string[] = [];
+  for (const match of template.matchAll(/\{[^{}\s]*\}/g)) {
+    const token = match[0];
+    if (!KNOWN_PLACEHOLDERS.has(token) && !unknown.includes(token)) {
+      unknown.push(token);
+    }
+  }
+  return unknown;
+}
+
 // ─── Render helper ────────────────────────────────────────────────────────────
 
 export interface MessageVars {
   cliente: string;
   pedido: string;
   data: string;
+  itens: string;
+  total: string;
+  taxa: string;
+  endereco: string;
+  horario: string;
+  pix: string;
+  pix_copia_e_cola: string;
+  link: string;
 }
 
 /**
- * renderMessage — resolves {client}, {pedido}, {data} placeholders in a
- * template string.
+ * renderMessage — resolves every supported placeholder in a template string.
  *
  * Strips all HTML tags before rendering to prevent injection.
  * Unknown placeholders (e.g. {foo}) are left as-is.
@@ -62,10 +213,11 @@ export interface MessageVars {
 export function renderMessage(template: string, vars: MessageVars): string {
   // Strip HTML tags
   const safe = template.replace(/<[^>]*>/g, "");
-  return safe
-    .replace(/\{cliente\}/g, vars.cliente)
-    .replace(/\{pedido\}/g, vars.pedido)
-    .replace(/\{data\}/g, vars.data);
+  return safe.replace(/\{(\w+)\}/g, (token, name: string) =>
+    Object.prototype.hasOwnProperty.call(vars, name)
+      ? vars[name as keyof MessageVars]
+      : token,
+  );
 }
 
 /**
@@ -79,3 +231,90 @@ export function resolveMessage(
 ): string {
   return renderMessage(template ?? fallback, vars);
 }
+
+// ─── Vars from an order ───────────────────────────────────────────────────────
+
+/** Store data some placeholders need besides the order itself. */
+export interface MessageStoreData {
+  pickupAddress: StorePickupAddress | null;
+  pixKey: string | null;
+  /** "Copia e cola" of the order's unpaid PIX charge. Null when none. */
+  pixCode: string | null;
+  /** Public catalog slug — without it there is no tracking link. */
+  slug: string | null;
+  /** Origin the tracking link points to, e.g. "https://encomendazap.com.br". */
+  appUrl: string;
+}
+
+function formatBrl(value: number): string {
+  return new Intl.NumberFormat("pt-BR", {
+    style: "currency",
+    currency: "BRL",
+  }).format(value);
+}
+
+function formatPickupAddress(addr: StorePickupAddress): string {
+  return [
+    addr.locationName,
+    [addr.street, addr.number, addr.neighborhood, addr.city]
+      .filter(Boolean)
+      .join(", "),
+    addr.complement,
+  ]
+    .filter(Boolean)
+    .join(" – ");
+}
+
+/**
+ * buildMessageVars — resolves every placeholder value for an order.
+ *
+ * Values that do not apply to the order (e.g. {horario} on a delivery order,
+ * {pix} before a key is configured, {pix_copia_e_cola} without an unpaid
+ * charge) render as "—".
+ */
+export function buildMessageVars(
+  order: OrderWithDetails,
+  store: MessageStoreData,
+): MessageVars {
+  const name = order.customerName.trim();
+  const subtotal = computeOrderTotal(order.items);
+  const isPickup = order.fulfillmentType === FulfillmentType.PICKUP;
+
+  const endereco = isPickup
+    ? store.pickupAddress
+      ? formatPickupAddress(store.pickupAddress)
+      : null
+    : order.shippingAddress;
+
+  return {
+    cliente: name.split(/\s+/)[0] ?? name,
+    pedido: order.orderNumber?.toString() ?? "—",
+    data: order.deliveryDate.toLocaleDateString("pt-BR", {
+      weekday: "long",
+      day: "numeric",
+      month: "long",
+      year: "numeric",
+      timeZone: "UTC",
+    }),
+    itens: order.items
+      .map(
+        (item) =>
+          `${item.quantity}x ${item.productName}${item.variantLabel ? ` (${item.variantLabel})` : ""}` +
+          (item.weightKg !== null
+            ? ` – ${item.weightKg.toLocaleString("pt-BR", { maximumFractionDigits: 3 })} kg`
+            : "") +
+          item.options.map((o) => `\n   + ${formatItemOption(o)}`).join("") +
+          (item.notes ? `\n   Obs.: ${item.notes}` : ""),
+      )
+      .join("\n"),
+    total: formatBrl(subtotal + order.deliveryFee),
+    taxa: formatBrl(order.deliveryFee),
+    endereco: endereco || "—",
+    horario: (isPickup && order.pickupTime) || "—",
+    pix: store.pixKey || "—",
+    pix_copia_e_cola: store.pixCode || "—",
+    link: store.slug
+      ? `${store.appUrl}${orderTrackingPath(store.slug, order.trackingToken)}`
+      : "—",
+  };
+}
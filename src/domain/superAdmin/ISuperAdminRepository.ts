@@ -11,4 +11,7 @@ export interface ISuperAdminRepository {
 
   /** Find a super admin by ID. Returns null if not found. */
   findById(id: string): Promise<SuperAdmin | null>;
+
+  /** Replaces the password hash (password reset). */
+  updatePasswordHash(id: string, passwordHash: string): Promise<void>;
 }
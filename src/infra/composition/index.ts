@@ -33,6 +33,9 @@ import { PrismaAdminRepository } from "@/infra/repositories/PrismaAdminRepositor
 import { PrismaStoreRepository } from "@/infra/repositories/PrismaStoreRepository";
 import { PrismaSuperAdminRepository } from "@/infra/repositories/PrismaSuperAdminRepository";
 import { PrismaProductRepository } from "@/infra/repositories/PrismaProductRepository";
+import { PrismaStockRepository } from "@/infra/repositories/PrismaStockRepository";
+import { PrismaPriceAdjustmentRepository } from "@/infra/repositories/PrismaPriceAdjustmentRepository";
+import { PrismaPriceScheduleRepository } from "@/infra/repositories/PrismaPriceScheduleRepository";
 import { PrismaCatalogRepository } from "@/infra/repositories/PrismaCatalogRepository";
 import { PrismaCustomerRepository } from "@/infra/repositories/PrismaCustomerRepository";
 import { PrismaOrderRepository } from "@/infra/repositories/PrismaOrderRepository";
@@ -45,11 +48,31 @@ import { PrismaProductImageRepository } from "@/infra/repositories/PrismaProduct
 import { PrismaCategoryRepository } from "@/infra/repositories/PrismaCategoryRepository";
 import { PrismaProductCategoryRepository } from "@/infra/repositories/PrismaProductCategoryRepository";
 import { PrismaDailyProductionChecklistRepository } from "@/infra/repositories/PrismaDailyProductionChecklistRepository";
+import { PrismaCouponRepository } from "@/infra/repositories/PrismaCouponRepository";
 
 // ─── Application ─────────────────────────────────────────────────────────────
 
 import { LoginUseCase } from "@/application/auth/LoginUseCase";
 import { RegisterStoreUseCase } from "@/application/store/RegisterStoreUseCase";
+import { PrismaStaffRepository } from "@/infra/repositories/PrismaStaffRepository";
+import { ListStaffUseCase } from "@/application/staff/ListStaffUseCase";
+import { InviteStaffUseCase } from "@/application/staff/InviteStaffUseCase";
+import { GetStaffInviteUseCase } from "@/application/staff/GetStaffInviteUseCase";
+import { AcceptStaffInviteUseCase } from "@/application/staff/AcceptStaffInviteUseCase";
+import { ChangeStaffRoleUseCase } from "@/application/staff/ChangeStaffRoleUseCase";
+import { RemoveStaffMemberUseCase } from "@/application/staff/RemoveStaffMemberUseCase";
+import { RevokeStaffInviteUseCase } from "@/application/staff/RevokeStaffInviteUseCase";
+import { PrismaAuthSessionRepository } from "@/infra/repositories/PrismaAuthSessionRepository";
+import { StartSessionUseCase } from "@/application/auth/StartSessionUseCase";
+import { RefreshSessionUseCase } from "@/application/auth/RefreshSessionUseCase";
+import { VerifySessionUseCase } from "@/application/auth/VerifySessionUseCase";
+import { EndSessionUseCase } from "@/application/auth/EndSessionUseCase";
+import { ListSessionsUseCase } from "@/application/auth/ListSessionsUseCase";
+import { RevokeSessionUseCase } from "@/application/auth/RevokeSessionUseCase";
+import { RevokeAllSessionsUseCase } from "@/application/auth/RevokeAllSessionsUseCase";
+import { ChangePasswordUseCase } from "@/application/auth/ChangePasswordUseCase";
+import { ListDeliveriesUseCase } from "@/application/order/ListDeliveriesUseCase";
+import { ConfirmDeliveryUseCase } from "@/application/order/ConfirmDeliveryUseCase";
 import { LoginSuperAdminUseCase } from "@/application/superAdmin/LoginSuperAdminUseCase";
 import { ListAllStoresUseCase } from "@/application/store/ListAllStoresUseCase";
 import { GetStoreDetailUseCase } from "@/application/store/GetStoreDetailUseCase";
@@ -64,7 +87,18 @@ import { DeleteProductUseCase } from "@/application/product/DeleteProductUseCase
 import { CreateVariantUseCase } from "@/application/product/CreateVariantUseCase";
 import { UpdateVariantUseCase } from "@/application/product/UpdateVariantUseCase";
 import { DeleteVariantUseCase } from "@/application/product/DeleteVariantUseCase";
+import { AdjustStockUseCase } from "@/application/product/AdjustStockUseCase";
+import { ListStockMovementsUseCase } from "@/application/product/ListStockMovementsUseCase";
+import { ExportProductsCsvUseCase } from "@/application/product/ExportProductsCsvUseCase";
+import { ImportProductsCsvUseCase } from "@/application/product/ImportProductsCsvUseCase";
+import { AdjustPricesUseCase } from "@/application/product/AdjustPricesUseCase";
+import { RollbackPriceAdjustmentUseCase } from "@/application/product/RollbackPriceAdjustmentUseCase";
+import { CreatePriceScheduleUseCase } from "@/application/product/CreatePriceScheduleUseCase";
+import { DeletePriceScheduleUseCase } from "@/application/product/DeletePriceScheduleUseCase";
+import { SettlePriceSchedulesUseCase } from "@/application/product/SettlePriceSchedulesUseCase";
+import { ListPriceAdjustmentsUseCase } from "@/application/product/ListPriceAdjustmentsUseCase";
 import { GetStoreCatalogUseCase } from "@/application/catalog/GetStoreCatalogUseCase";
+import { GetOrderTrackingUseCase } from "@/application/order/GetOrderTrackingUseCase";
 import { PlaceOrderService } from "@/application/order/PlaceOrderService";
 import { ListOrdersUseCase } from "@/application/order/ListOrdersUseCase";
 import { GetOrderUseCase } from "@/application/order/GetOrderUseCase";
@@ -77,6 +111,13 @@ import { CreatePickupSlotUseCase } from "@/application/pickupSlot/CreatePickupSl
 import { TogglePickupSlotUseCase } from "@/application/pickupSlot/TogglePickupSlotUseCase";
 import { DeletePickupSlotUseCase } from "@/application/pickupSlot/DeletePickupSlotUseCase";
 import { GetPublicPickupSlotsUseCase } from "@/application/pickupSlot/GetPublicPickupSlotsUseCase";
+import { UpdatePickupSlotCapacityUseCase } from "@/application/pickupSlot/UpdatePickupSlotCapacityUseCase";
+import { ApplyCouponUseCase } from "@/application/coupon/ApplyCouponUseCase";
+import { ValidateCouponUseCase } from "@/application/coupon/ValidateCouponUseCase";
+import { ListCouponsUseCase } from "@/application/coupon/ListCouponsUseCase";
+import { CreateCouponUseCase } from "@/application/coupon/CreateCouponUseCase";
+import { ToggleCouponUseCase } from "@/application/coupon/ToggleCouponUseCase";
+import { DeleteCouponUseCase } from "@/application/coupon/DeleteCouponUseCase";
 import { GetCepRangeUseCase } from "@/application/cepRange/GetCepRangeUseCase";
 import { AddCepRangeUseCase } from "@/application/cepRange/UpsertCepRangeUseCase";
 import { DeleteCepRangeUseCase } from "@/application/cepRange/DeleteCepRangeUseCase";
@@ -90,6 +131,10 @@ import { UpdateStorePickupAddressUseCase } from "@/application/store/UpdateStore
 import { UpdateDefaultDeliveryFeeUseCase } from "@/application/store/UpdateDefaultDeliveryFeeUseCase";
 import { GetMinimumAdvanceDaysUseCase } from "@/application/store/GetMinimumAdvanceDaysUseCase";
 import { UpdateMinimumAdvanceDaysUseCase } from "@/application/store/UpdateMinimumAdvanceDaysUseCase";
+import { GetDailyCapacityUseCase } from "@/application/store/GetDailyCapacityUseCase";
+import { UpdateDailyCapacityUseCase } from "@/application/store/UpdateDailyCapacityUseCase";
+import { GetStorePixKeyUseCase } from "@/application/store/GetStorePixKeyUseCase";
+import { UpdateStorePixKeyUseCase } from "@/application/store/UpdateStorePixKeyUseCase";
 import { AddProductImageUseCase } from "@/application/productImage/AddProductImageUseCase";
 import { GetProductImagesUseCase } from "@/application/productImage/GetProductImagesUseCase";
 import { ReplaceProductImagesUseCase } from "@/application/productImage/ReplaceProductImagesUseCase";
@@ -108,6 +153,7 @@ import { GetProductCategoryIdsUseCase } from "@/application/category/GetProductC
 import { UpdateCategoryOrderUseCase } from "@/application/category/UpdateCategoryOrderUseCase";
 import { GetDailyProductionUseCase } from "@/application/production/GetDailyProductionUseCase";
 import { ToggleChecklistItemUseCase } from "@/application/production/ToggleChecklistItemUseCase";
+import { GetProductionCapacityUseCase } from "@/application/production/GetProductionCapacityUseCase";
 import { GetStoreIdentityUseCase } from "@/application/store/GetStoreIdentityUseCase";
 import { UpdateStoreIdentityUseCase } from "@/application/store/UpdateStoreIdentityUseCase";
 
@@ -118,15 +164,77 @@ import { SuperAdminAuthController } from "@/controllers/http/SuperAdminAuthContr
 import { AdminStoreController } from "@/controllers/http/AdminStoreController";
 import { ProductController } from "@/controllers/http/ProductController";
 import { ProductVariantController } from "@/controllers/http/ProductVariantController";
+import { ProductStockController } from "@/controllers/http/ProductStockController";
+import { ProductCsvController } from "@/controllers/http/ProductCsvController";
+import { PriceAdjustmentController } from "@/controllers/http/PriceAdjustmentController";
+import { PriceScheduleController } from "@/controllers/http/PriceScheduleController";
 import { PlaceOrderController } from "@/controllers/http/PlaceOrderController";
+import { NotificationCronController } from "@/controllers/http/NotificationCronController";
 import { StoreScheduleController } from "@/controllers/http/StoreScheduleController";
 import { StorePickupSlotController } from "@/controllers/http/StorePickupSlotController";
 import { StoreCepRangeController } from "@/controllers/http/StoreCepRangeController";
+import { CouponController } from "@/controllers/http/CouponController";
 import { ProductImageController } from "@/controllers/http/ProductImageController";
 import { ProductImageUploadController } from "@/controllers/http/ProductImageUploadController";
 import { ReplaceProductImagesController } from "@/controllers/http/ReplaceProductImagesController";
 import { CategoryController } from "@/controllers/http/CategoryController";
 import { DailyProductionController } from "@/controllers/http/DailyProductionController";
+import { PrismaOrderNotificationRepository } from "@/infra/repositories/PrismaOrderNotificationRepository";
+import { PrismaOrderStatusLogRepository } from "@/infra/repositories/PrismaOrderStatusLogRepository";
+import { WhatsAppCloudApiGateway } from "@/infra/messaging/WhatsAppCloudApiGateway";
+import { LogMessagingGateway } from "@/infra/messaging/LogMessagingGateway";
+import type { IMessagingGateway } from "@/application/ports/IMessagingGateway";
+import { SmtpEmailSender } from "@/infra/email/SmtpEmailSender";
+import { LocalEmailSender } from "@/infra/email/LocalEmailSender";
+import type { IEmailSender } from "@/application/ports/IEmailSender";
+import { InMemoryRateLimitStore } from "@/infra/rateLimit/InMemoryRateLimitStore";
+import { PrismaRateLimitStore } from "@/infra/rateLimit/PrismaRateLimitStore";
+import type { IRateLimitStore } from "@/application/ports/IRateLimitStore";
+import { RateLimiter } from "@/application/rateLimit/RateLimiter";
+import { LoginThrottle } from "@/application/rateLimit/LoginThrottle";
+import { PrismaAccountTokenRepository } from "@/infra/repositories/PrismaAccountTokenRepository";
+import { SendEmailVerificationUseCase } from "@/application/auth/SendEmailVerificationUseCase";
+import { VerifyEmailUseCase } from "@/application/auth/VerifyEmailUseCase";
+import { RequestPasswordResetUseCase } from "@/application/auth/RequestPasswordResetUseCase";
+import { ResetPasswordUseCase } from "@/application/auth/ResetPasswordUseCase";
+import { GetAccountUseCase } from "@/application/auth/GetAccountUseCase";
+import { RequestSuperAdminPasswordResetUseCase } from "@/application/superAdmin/RequestSuperAdminPasswordResetUseCase";
+import { ResetSuperAdminPasswordUseCase } from "@/application/superAdmin/ResetSuperAdminPasswordUseCase";
+import { SendOrderNotificationUseCase } from "@/application/notification/SendOrderNotificationUseCase";
+import { UpdateOrderStatusUseCase } from "@/application/order/UpdateOrderStatusUseCase";
+import { ListOrderStatusHistoryUseCase } from "@/application/order/ListOrderStatusHistoryUseCase";
+import { EditOrderUseCase } from "@/application/order/EditOrderUseCase";
+import { RecordItemWeightUseCase } from "@/application/order/RecordItemWeightUseCase";
+import { ListOrderNotificationsUseCase } from "@/application/notification/ListOrderNotificationsUseCase";
+import { GetMessagePreviewUseCase } from "@/application/notification/GetMessagePreviewUseCase";
+import { SendDayBeforeRemindersUseCase } from "@/application/notification/SendDayBeforeRemindersUseCase";
+import { SendOrderProgressMessageUseCase } from "@/application/notification/SendOrderProgressMessageUseCase";
+import { PrismaPixChargeRepository } from "@/infra/repositories/PrismaPixChargeRepository";
+import { OpenPixGateway } from "@/infra/payment/OpenPixGateway";
+import { FakePixGateway } from "@/infra/payment/FakePixGateway";
+import { StaticPixGateway } from "@/infra/payment/StaticPixGateway";
+import type { IPixPaymentGateway } from "@/application/ports/IPixPaymentGateway";
+import { IssuePixChargeUseCase } from "@/application/payment/IssuePixChargeUseCase";
+import { ConfirmPixPaymentUseCase } from "@/application/payment/ConfirmPixPaymentUseCase";
+import { GetOrderPixChargeUseCase } from "@/application/payment/GetOrderPixChargeUseCase";
+import { PrismaPaymentRepository } from "@/infra/repositories/PrismaPaymentRepository";
+import { RecordPaymentUseCase } from "@/application/payment/RecordPaymentUseCase";
+import { SyncOrderPaymentStatusUseCase } from "@/application/payment/SyncOrderPaymentStatusUseCase";
+import { GetOrderPaymentsUseCase } from "@/application/payment/GetOrderPaymentsUseCase";
+import { GetDepositPercentageUseCase } from "@/application/store/GetDepositPercentageUseCase";
+import { UpdateDepositPercentageUseCase } from "@/application/store/UpdateDepositPercentageUseCase";
+import { PixWebhookController } from "@/controllers/http/PixWebhookController";
+import { PrismaCustomerLoginCodeRepository } from "@/infra/repositories/PrismaCustomerLoginCodeRepository";
+import { PrismaCustomerAddressRepository } from "@/infra/repositories/PrismaCustomerAddressRepository";
+import { RequestCustomerLoginCodeUseCase } from "@/application/customerAccount/RequestCustomerLoginCodeUseCase";
+import { VerifyCustomerLoginCodeUseCase } from "@/application/customerAccount/VerifyCustomerLoginCodeUseCase";
+import { GetCustomerAccountUseCase } from "@/application/customerAccount/GetCustomerAccountUseCase";
+import { ListCustomerAddressesUseCase } from "@/application/customerAccount/ListCustomerAddressesUseCase";
+import { AddCustomerAddressUseCase } from "@/application/customerAccount/AddCustomerAddressUseCase";
+import { DeleteCustomerAddressUseCase } from "@/application/customerAccount/DeleteCustomerAddressUseCase";
+import { ReorderUseCase } from "@/application/customerAccount/ReorderUseCase";
+import { CustomerAuthController } from "@/controllers/http/CustomerAuthController";
+import { CustomerAccountController } from "@/controllers/http/CustomerAccountController";
 
 // ─── Wire-up ─────────────────────────────────────────────────────────────────
 // Module-level singletons — Next.js server restarts on code changes,
@@ -134,9 +242,15 @@ import { DailyProductionController } from "@/controllers/http/DailyProductionCon
 
 const hasher = new Argon2PasswordHasher();
 const adminRepo = new PrismaAdminRepository();
+const staffRepo = new PrismaStaffRepository();
+const sessionRepo = new PrismaAuthSessionRepository();
+const accountTokenRepo = new PrismaAccountTokenRepository();
 const storeRepo = new PrismaStoreRepository();
 const superAdminRepo = new PrismaSuperAdminRepository();
 const productRepo = new PrismaProductRepository();
+const stockRepo = new PrismaStockRepository();
+const priceAdjustmentRepo = new PrismaPriceAdjustmentRepository();
+const priceScheduleRepo = new PrismaPriceScheduleRepository();
 const catalogRepo = new PrismaCatalogRepository();
 const customerRepo = new PrismaCustomerRepository();
 const orderRepo = new PrismaOrderRepository();
@@ -149,14 +263,138 @@ const categoryRepo = new PrismaCategoryRepository();
 const productCategoryRepo = new PrismaProductCategoryRepository();
 const dailyProductionChecklistRepo =
   new PrismaDailyProductionChecklistRepository();
+const messageRepo = new PrismaStoreMessageRepository();
+const orderNotificationRepo = new PrismaOrderNotificationRepository();
+const orderStatusLogRepo = new PrismaOrderStatusLogRepository();
+const couponRepo = new PrismaCouponRepository();
+const pixChargeRepo = new PrismaPixChargeRepository();
+const paymentRepo = new PrismaPaymentRepository();
+const customerLoginCodeRepo = new PrismaCustomerLoginCodeRepository();
+const customerAddressRepo = new PrismaCustomerAddressRepository();
+
+// ─── Messaging ────────────────────────────────────────────────────────────────
+// WhatsApp Cloud API when configured; otherwise messages are only logged
+// (local development, previews, tests).
+
+function createMessagingGateway(): IMessagingGateway {
+  const accessToken = process.env.WHATSAPP_CLOUD_ACCESS_TOKEN;
+  const phoneNumberId = process.env.WHATSAPP_CLOUD_PHONE_NUMBER_ID;
+  if (!accessToken || !phoneNumberId) return new LogMessagingGateway();
+  return new WhatsAppCloudApiGateway(
+    accessToken,
+    phoneNumberId,
+    process.env.WHATSAPP_CLOUD_API_VERSION || undefined,
+  );
+}
+
+const messagingGateway = createMessagingGateway();
+
+// ─── Email ────────────────────────────────────────────────────────────────────
+// SMTP when configured; otherwise emails are logged and, with
+// EMAIL_OUTBOX_DIR, saved as files (local development, previews, tests).
+
+function createEmailSender(): IEmailSender {
+  const smtpUrl = process.env.SMTP_URL;
+  if (!smtpUrl) {
+    return new LocalEmailSender(process.env.EMAIL_OUTBOX_DIR || null);
+  }
+  const from = process.env.EMAIL_FROM;
+  if (!from) throw new Error("EMAIL_FROM is required with SMTP_URL.");
+  return new SmtpEmailSender(smtpUrl, from);
+}
+
+const emailSender = createEmailSender();
+
+// ─── Rate limiting ────────────────────────────────────────────────────────────
+// Counters live in Postgres so every instance sees the same counts;
+// RATE_LIMIT_STORE=memory keeps them in process (single instance, tests).
+
+function createRateLimitStore(): IRateLimitStore {
+  return process.env.RATE_LIMIT_STORE === "memory"
+    ? new InMemoryRateLimitStore()
+    : new PrismaRateLimitStore();
+}
+
+const rateLimitStore = createRateLimitStore();
+const rateLimiter = new RateLimiter(rateLimitStore);
+
+// ─── Payments ─────────────────────────────────────────────────────────────────
+// PIX_PROVIDER picks the gateway: "openpix" (dynamic charges confirmed by
+// webhook), "fake" (local PSP for development and tests) or, by default,
+// static codes built from the store's own PIX key.
+
+function createPixPaymentGateway(): IPixPaymentGateway {
+  const webhookSecret = process.env.PIX_WEBHOOK_SECRET ?? "";
+  switch (process.env.PIX_PROVIDER) {
+    case "openpix": {
+      const appId = process.env.OPENPIX_APP_ID;
+      if (!appId) throw new Error("OPENPIX_APP_ID is required for openpix.");
+      return new OpenPixGateway(appId, webhookSecret);
+    }
+    case "fake":
+      return new FakePixGateway(webhookSecret);
+    default:
+      return new StaticPixGateway();
+  }
+}
+
+const pixPaymentGateway = createPixPaymentGateway();
+
+/** Public origin used in links sent to customers (order tracking). */
+export const appUrl = (process.env.APP_URL || "http://localhost:3000").replace(
+  /\/+$/,
+  "",
+);
+
+const sendOrderNotificationUseCase = new SendOrderNotificationUseCase(
+  orderRepo,
+  storeRepo,
+  messageRepo,
+  orderNotificationRepo,
+  pixChargeRepo,
+  messagingGateway,
+  appUrl,
+);
+
+const issuePixChargeUseCase = new IssuePixChargeUseCase(
+  orderRepo,
+  storeRepo,
+  pixChargeRepo,
+  paymentRepo,
+  pixPaymentGateway,
+);
 
-const loginUseCase = new LoginUseCase(adminRepo, hasher);
+const loginUseCase = new LoginUseCase(
+  adminRepo,
+  hasher,
+  new LoginThrottle(rateLimitStore, "login"),
+);
+// Refresh tokens (and the sessions behind them) last this many days
+const refreshTokenDays = Number(process.env.AUTH_REFRESH_TOKEN_DAYS) || 30;
+const startSessionUseCase = new StartSessionUseCase(
+  sessionRepo,
+  refreshTokenDays,
+);
+const endSessionUseCase = new EndSessionUseCase(sessionRepo);
+const sendEmailVerificationUseCase = new SendEmailVerificationUseCase(
+  adminRepo,
+  accountTokenRepo,
+  emailSender,
+  appUrl,
+);
 const registerStoreUseCase = new RegisterStoreUseCase(storeRepo, hasher);
+export const getStaffInviteUseCase = new GetStaffInviteUseCase(staffRepo);
+const acceptStaffInviteUseCase = new AcceptStaffInviteUseCase(
+  staffRepo,
+  getStaffInviteUseCase,
+  hasher,
+);
 
 // ─── Super Admin ──────────────────────────────────────────────────────────────
 const loginSuperAdminUseCase = new LoginSuperAdminUseCase(
   superAdminRepo,
   hasher,
+  new LoginThrottle(rateLimitStore, "admin-login"),
 );
 const listAllStoresUseCase = new ListAllStoresUseCase(storeRepo);
 const getStoreDetailUseCase = new GetStoreDetailUseCase(storeRepo);
@@ -181,16 +419,36 @@ const deleteProductUseCase = new DeleteProductUseCase(productRepo);
 const createVariantUseCase = new CreateVariantUseCase(productRepo);
 const updateVariantUseCase = new UpdateVariantUseCase(productRepo);
 const deleteVariantUseCase = new DeleteVariantUseCase(productRepo);
+const adjustStockUseCase = new AdjustStockUseCase(stockRepo);
+const listStockMovementsUseCase = new ListStockMovementsUseCase(stockRepo);
 
 // ─── Exported singletons (imported by route handlers) ────────────────────────
 
 export const authController = new AuthController(
   loginUseCase,
   registerStoreUseCase,
+  acceptStaffInviteUseCase,
+  startSessionUseCase,
+  endSessionUseCase,
+  sendEmailVerificationUseCase,
+  new RequestPasswordResetUseCase(
+    adminRepo,
+    accountTokenRepo,
+    emailSender,
+    appUrl,
+  ),
+  new ResetPasswordUseCase(accountTokenRepo, adminRepo, sessionRepo, hasher),
 );
 
 export const superAdminAuthController = new SuperAdminAuthController(
   loginSuperAdminUseCase,
+  new RequestSuperAdminPasswordResetUseCase(
+    superAdminRepo,
+    accountTokenRepo,
+    emailSender,
+    appUrl,
+  ),
+  new ResetSuperAdminPasswordUseCase(accountTokenRepo, superAdminRepo, hasher),
 );
 
 export const adminStoreController = new AdminStoreController(
@@ -218,20 +476,105 @@ export const productVariantController = new ProductVariantController(
   deleteVariantUseCase,
 );
 
+export const productStockController = new ProductStockController(
+  adjustStockUseCase,
+);
+
+// Export use case for the product page (stock history)
+export { listStockMovementsUseCase };
+
+const applyCouponUseCase = new ApplyCouponUseCase(
+  couponRepo,
+  productCategoryRepo,
+);
+
 const placeOrderService = new PlaceOrderService(
   catalogRepo,
-  customerRepo,
   productRepo,
   orderRepo,
-  orderItemRepo,
   cepRangeRepo,
+  pickupSlotRepo,
+  scheduleRepo,
+  sendOrderNotificationUseCase,
+  applyCouponUseCase,
+);
+export const placeOrderController = new PlaceOrderController(
+  placeOrderService,
+  rateLimiter,
 );
-export const placeOrderController = new PlaceOrderController(placeOrderService);
 
 export const listOrdersUseCase = new ListOrdersUseCase(orderRepo);
 export const getOrderUseCase = new GetOrderUseCase(orderRepo);
+export const updateOrderStatusUseCase = new UpdateOrderStatusUseCase(
+  orderRepo,
+  sendOrderNotificationUseCase,
+  issuePixChargeUseCase,
+);
 export const updateOrderTrackingStatusUseCase =
-  new UpdateOrderTrackingStatusUseCase(orderRepo);
+  new UpdateOrderTrackingStatusUseCase(orderRepo, sendOrderNotificationUseCase);
+export const listDeliveriesUseCase = new ListDeliveriesUseCase(orderRepo);
+export const confirmDeliveryUseCase = new ConfirmDeliveryUseCase(
+  orderRepo,
+  updateOrderTrackingStatusUseCase,
+);
+export const recordPaymentUseCase = new RecordPaymentUseCase(
+  orderRepo,
+  storeRepo,
+  paymentRepo,
+  updateOrderTrackingStatusUseCase,
+);
+const syncOrderPaymentStatusUseCase = new SyncOrderPaymentStatusUseCase(
+  orderRepo,
+  storeRepo,
+  paymentRepo,
+  updateOrderTrackingStatusUseCase,
+);
+export const getOrderPaymentsUseCase = new GetOrderPaymentsUseCase(
+  orderRepo,
+  storeRepo,
+  paymentRepo,
+);
+export const editOrderUseCase = new EditOrderUseCase(
+  orderRepo,
+  productRepo,
+  storeRepo,
+  cepRangeRepo,
+  pickupSlotRepo,
+  scheduleRepo,
+  couponRepo,
+  productCategoryRepo,
+  syncOrderPaymentStatusUseCase,
+);
+export const recordItemWeightUseCase = new RecordItemWeightUseCase(
+  orderRepo,
+  syncOrderPaymentStatusUseCase,
+);
+export const listOrderStatusHistoryUseCase = new ListOrderStatusHistoryUseCase(
+  orderStatusLogRepo,
+);
+export const listOrderNotificationsUseCase = new ListOrderNotificationsUseCase(
+  orderNotificationRepo,
+);
+export const sendOrderProgressMessageUseCase =
+  new SendOrderProgressMessageUseCase(orderRepo, sendOrderNotificationUseCase);
+export const notificationCronController = new NotificationCronController(
+  new SendDayBeforeRemindersUseCase(
+    orderRepo,
+    orderNotificationRepo,
+    sendOrderNotificationUseCase,
+  ),
+  process.env.CRON_SECRET,
+);
+export const getOrderPixChargeUseCase = new GetOrderPixChargeUseCase(
+  pixChargeRepo,
+);
+export const pixWebhookController = new PixWebhookController(
+  new ConfirmPixPaymentUseCase(
+    pixPaymentGateway,
+    pixChargeRepo,
+    recordPaymentUseCase,
+  ),
+);
 export const listCustomersWithStatsUseCase = new ListCustomersWithStatsUseCase(
   customerRepo,
 );
@@ -240,6 +583,12 @@ export const listCustomersWithStatsUseCase = new ListCustomersWithStatsUseCase(
  * Use case singletons — available for direct use in Server Components.
  */
 export const getStoreCatalogUseCase = new GetStoreCatalogUseCase(catalogRepo);
+export const getOrderTrackingUseCase = new GetOrderTrackingUseCase(
+  catalogRepo,
+  orderRepo,
+  paymentRepo,
+  issuePixChargeUseCase,
+);
 
 export { listProductsUseCase, getProductByIdUseCase };
 
@@ -309,6 +658,10 @@ const deletePickupSlotUseCase = new DeletePickupSlotUseCase(pickupSlotRepo);
 const getPublicPickupSlotsUseCase = new GetPublicPickupSlotsUseCase(
   catalogRepo,
   pickupSlotRepo,
+  orderRepo,
+);
+const updatePickupSlotCapacityUseCase = new UpdatePickupSlotCapacityUseCase(
+  pickupSlotRepo,
 );
 
 export const storePickupSlotController = new StorePickupSlotController(
@@ -317,6 +670,7 @@ export const storePickupSlotController = new StorePickupSlotController(
   togglePickupSlotUseCase,
   deletePickupSlotUseCase,
   getPublicPickupSlotsUseCase,
+  updatePickupSlotCapacityUseCase,
 );
 
 export { listPickupSlotsUseCase };
@@ -333,18 +687,37 @@ export const storeCepRangeController = new StoreCepRangeController(
   addCepRangeUseCase,
   deleteCepRangeUseCase,
   validateCepUseCase,
+  rateLimiter,
 );
 
 export { getCepRangeUseCase };
 
-// ─── Message Config ────────────────────────────────────────────────────────────
+// ─── Coupons ──────────────────────────────────────────────────────────────────
 
-const messageRepo = new PrismaStoreMessageRepository();
+export const listCouponsUseCase = new ListCouponsUseCase(couponRepo);
+export const createCouponUseCase = new CreateCouponUseCase(
+  couponRepo,
+  productRepo,
+  categoryRepo,
+);
+export const toggleCouponUseCase = new ToggleCouponUseCase(couponRepo);
+export const deleteCouponUseCase = new DeleteCouponUseCase(couponRepo);
+export const couponController = new CouponController(
+  new ValidateCouponUseCase(catalogRepo, productRepo, applyCouponUseCase),
+);
+
+// ─── Message Config ────────────────────────────────────────────────────────────
 
 export const getStoreMessagesUseCase = new GetStoreMessagesUseCase(messageRepo);
 export const upsertStoreMessagesUseCase = new UpsertStoreMessagesUseCase(
   messageRepo,
 );
+export const getMessagePreviewUseCase = new GetMessagePreviewUseCase(
+  orderRepo,
+  storeRepo,
+  pixChargeRepo,
+  appUrl,
+);
 
 export const getStoreWhatsappUseCase = new GetStoreWhatsappUseCase(storeRepo);
 export const updateStoreWhatsappUseCase = new UpdateStoreWhatsappUseCase(
@@ -366,6 +739,20 @@ export const getMinimumAdvanceDaysUseCase = new GetMinimumAdvanceDaysUseCase(
 export const updateMinimumAdvanceDaysUseCase =
   new UpdateMinimumAdvanceDaysUseCase(storeRepo);
 
+export const getDailyCapacityUseCase = new GetDailyCapacityUseCase(storeRepo);
+export const updateDailyCapacityUseCase = new UpdateDailyCapacityUseCase(
+  storeRepo,
+);
+
+export const getStorePixKeyUseCase = new GetStorePixKeyUseCase(storeRepo);
+export const updateStorePixKeyUseCase = new UpdateStorePixKeyUseCase(storeRepo);
+
+export const getDepositPercentageUseCase = new GetDepositPercentageUseCase(
+  storeRepo,
+);
+export const updateDepositPercentageUseCase =
+  new UpdateDepositPercentageUseCase(storeRepo);
+
 // Helper: read default delivery fee directly via storeRepo
 export { storeRepo };
 
@@ -407,6 +794,95 @@ export const categoryController = new CategoryController(
   updateCategoryOrderUseCase,
 );
 
+// ─── Product CSV ──────────────────────────────────────────────────────────────
+
+const exportProductsCsvUseCase = new ExportProductsCsvUseCase(
+  productRepo,
+  categoryRepo,
+  productCategoryRepo,
+);
+const importProductsCsvUseCase = new ImportProductsCsvUseCase(
+  productRepo,
+  categoryRepo,
+  createProductUseCase,
+  updateProductUseCase,
+  createVariantUseCase,
+  updateVariantUseCase,
+  createCategoryUseCase,
+  assignProductToCategoryUseCase,
+);
+
+export const productCsvController = new ProductCsvController(
+  exportProductsCsvUseCase,
+  importProductsCsvUseCase,
+);
+
+// ─── Bulk Price Adjustment ────────────────────────────────────────────────────
+
+const adjustPricesUseCase = new AdjustPricesUseCase(
+  productRepo,
+  categoryRepo,
+  productCategoryRepo,
+  priceAdjustmentRepo,
+);
+const rollbackPriceAdjustmentUseCase = new RollbackPriceAdjustmentUseCase(
+  priceAdjustmentRepo,
+);
+export const listPriceAdjustmentsUseCase = new ListPriceAdjustmentsUseCase(
+  priceAdjustmentRepo,
+);
+
+export const priceAdjustmentController = new PriceAdjustmentController(
+  adjustPricesUseCase,
+  rollbackPriceAdjustmentUseCase,
+);
+
+// ─── Scheduled Prices ─────────────────────────────────────────────────────────
+
+export const priceScheduleController = new PriceScheduleController(
+  new CreatePriceScheduleUseCase(productRepo, priceScheduleRepo),
+  new DeletePriceScheduleUseCase(priceScheduleRepo),
+  new SettlePriceSchedulesUseCase(priceScheduleRepo),
+  process.env.CRON_SECRET,
+);
+
+// ─── Staff ────────────────────────────────────────────────────────────────────
+
+export const listStaffUseCase = new ListStaffUseCase(staffRepo);
+export const inviteStaffUseCase = new InviteStaffUseCase(staffRepo);
+export const changeStaffRoleUseCase = new ChangeStaffRoleUseCase(
+  staffRepo,
+  sessionRepo,
+);
+export const removeStaffMemberUseCase = new RemoveStaffMemberUseCase(staffRepo);
+export const revokeStaffInviteUseCase = new RevokeStaffInviteUseCase(staffRepo);
+
+// ─── Auth Sessions ────────────────────────────────────────────────────────────
+
+export const verifySessionUseCase = new VerifySessionUseCase(sessionRepo);
+export const refreshSessionUseCase = new RefreshSessionUseCase(
+  sessionRepo,
+  adminRepo,
+  refreshTokenDays,
+);
+export const listSessionsUseCase = new ListSessionsUseCase(sessionRepo);
+export const revokeSessionUseCase = new RevokeSessionUseCase(sessionRepo);
+export const revokeAllSessionsUseCase = new RevokeAllSessionsUseCase(
+  sessionRepo,
+);
+export { sendEmailVerificationUseCase };
+export const verifyEmailUseCase = new VerifyEmailUseCase(
+  accountTokenRepo,
+  adminRepo,
+);
+export const getAccountUseCase = new GetAccountUseCase(adminRepo);
+export const changePasswordUseCase = new ChangePasswordUseCase(
+  adminRepo,
+  sessionRepo,
+  hasher,
+  startSessionUseCase,
+);
+
 // ─── Daily Production ─────────────────────────────────────────────────────────────────
 
 export const getDailyProductionUseCase = new GetDailyProductionUseCase(
@@ -414,6 +890,12 @@ export const getDailyProductionUseCase = new GetDailyProductionUseCase(
   dailyProductionChecklistRepo,
 );
 
+export const getProductionCapacityUseCase = new GetProductionCapacityUseCase(
+  orderRepo,
+  storeRepo,
+  productRepo,
+);
+
 const toggleChecklistItemUseCase = new ToggleChecklistItemUseCase(
   dailyProductionChecklistRepo,
 );
@@ -428,3 +910,34 @@ export const getStoreIdentityUseCase = new GetStoreIdentityUseCase(storeRepo);
 export const updateStoreIdentityUseCase = new UpdateStoreIdentityUseCase(
   storeRepo,
 );
+
+// ─── Customer Accounts ────────────────────────────────────────────────────────
+
+export const customerAuthController = new CustomerAuthController(
+  new RequestCustomerLoginCodeUseCase(
+    catalogRepo,
+    customerLoginCodeRepo,
+    messagingGateway,
+  ),
+  new VerifyCustomerLoginCodeUseCase(
+    catalogRepo,
+    customerLoginCodeRepo,
+    customerRepo,
+  ),
+  rateLimiter,
+);
+
+export const getCustomerAccountUseCase = new GetCustomerAccountUseCase(
+  customerRepo,
+  orderRepo,
+);
+export const listCustomerAddressesUseCase = new ListCustomerAddressesUseCase(
+  customerAddressRepo,
+);
+
+export const customerAccountController = new CustomerAccountController(
+  listCustomerAddressesUseCase,
+  new AddCustomerAddressUseCase(customerAddressRepo),
+  new DeleteCustomerAddressUseCase(customerAddressRepo),
+  new ReorderUseCase(orderRepo, getStoreCatalogUseCase),
+);
@@ -0,0 +1,44 @@
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+import type {
+  EmailSendResult,
+  IEmailSender,
+  OutgoingEmail,
+} from "@/application/ports/IEmailSender";
+
+/**
+ * LocalEmailSender
+ *
+ * Development / test implementation of IEmailSender.
+ * Nothing leaves the machine: each email is written to the server log and,
+ * when an outbox directory is given (EMAIL_OUTBOX_DIR), saved there as a
+ * text file — handy for opening reset and verification links.  Also kept in
+ * `sent` so tests can assert on what would have been delivered.
+ *
+ * Used automatically when SMTP is not configured.
+ */
+export class LocalEmailSender implements IEmailSender {
+  /** Every email "sent" by this instance, oldest first. */
+  readonly sent: OutgoingEmail[] = [];
+
+  constructor(private readonly outboxDir: string | null = null) {}
+
+  async send(email: OutgoingEmail): Promise<EmailSendResult> {
+    this.sent.push(email);
+    const rendered = `To: ${email.to}\nSubject: ${email.subject}\n\n${email.text}\n`;
+    console.info(`[LocalEmailSender]\n${rendered}`);
+
+    if (!this.outboxDir) return { success: true };
+    try {
+      await mkdir(this.outboxDir, { recursive: true });
+      const name = `${new Date().toISOString().replace(/[:.]/g, "-")}-${email.to}.txt`;
+      await writeFile(path.join(this.outboxDir, name), rendered, "utf8");
+      return { success: true };
+    } catch (err) {
+      return {
+        success: false,
+        error: err instanceof Error ? err.message : "Outbox write failed",
+      };
+    }
+  }
+}
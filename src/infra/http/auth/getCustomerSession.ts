@@ -0,0 +1,33 @@
+import { cookies } from "next/headers";
+import {
+  verifyCustomerToken,
+  type CustomerSessionPayload,
+} from "@/infra/security/customerTokenService";
+import { CUSTOMER_COOKIE_NAME } from "@/infra/http/cookies/customerCookie";
+
+/**
+ * Returns the customer session of the store for use inside Server
+ * Components, or null when the visitor is not signed in there.
+ *
+ * Unlike getSession this never redirects — catalog pages work signed out,
+ * and each decides what to do without a session.  A session of another
+ * store counts as none.
+ *
+ * @example
+ * const session = await getCustomerSession(catalog.storeId);
+ * if (!session) redirect(`/catalog/${storeSlug}/entrar`);
+ */
+export async function getCustomerSession(
+  storeId: string,
+): Promise<CustomerSessionPayload | null> {
+  const cookieStore = await cookies();
+  const token = cookieStore.get(CUSTOMER_COOKIE_NAME)?.value;
+  if (!token) return null;
+
+  try {
+    const session = await verifyCustomerToken(token);
+    return session.storeId === storeId ? session : null;
+  } catch {
+    return null;
+  }
+}
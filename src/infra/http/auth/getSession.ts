@@ -4,21 +4,61 @@ import {
   verifyToken,
   type SessionPayload,
 } from "@/infra/security/tokenService";
+import {
+  Permission,
+  hasPermission,
+  homePathForRole,
+} from "@/domain/auth/StaffRole";
+import { AppError } from "@/shared/errors/AppError";
+import { HttpStatus } from "@/shared/http/statuses";
 
 const COOKIE_NAME = process.env.AUTH_COOKIE_NAME ?? "__session";
 
 /**
  * Returns the verified session payload for use inside Server Components.
  *
- * - Call from any Server Component or Server Action inside a protected route.
+ * - Call from any Server Component inside a protected route.
  * - Redirects to /login if the session is missing or expired.
+ * - Redirects to the role's home page (see homePathForRole) when the role
+ *   lacks `permission` — MANAGE_STORE by default; null lets any signed-in
+ *   user through.
  * - Never throws — callers always receive a valid SessionPayload or are redirected.
  *
  * @example
  * const session = await getSession();
  * // session.adminId and session.storeId are always defined here
  */
-export async function getSession(): Promise<SessionPayload> {
+export async function getSession(
+  permission: Permission | null = Permission.MANAGE_STORE,
+): Promise<SessionPayload> {
+  const session = await readSession();
+  if (permission && !hasPermission(session.role, permission)) {
+    redirect(homePathForRole(session.role));
+  }
+  return session;
+}
+
+/**
+ * Server Action counterpart of getSession.
+ *
+ * Redirects to /login the same way, but throws AppError(FORBIDDEN) when the
+ * role lacks `permission` so the action can report it like any other
+ * failure instead of navigating away.  null lets any signed-in user through.
+ */
+export async function getActionSession(
+  permission: Permission | null = Permission.MANAGE_STORE,
+): Promise<SessionPayload> {
+  const session = await readSession();
+  if (permission && !hasPermission(session.role, permission)) {
+    throw new AppError(
+      "Você não tem permissão para esta ação.",
+      HttpStatus.FORBIDDEN,
+    );
+  }
+  return session;
+}
+
+async function readSession(): Promise<SessionPayload> {
   const cookieStore = await cookies();
   const token = cookieStore.get(COOKIE_NAME)?.value;
 
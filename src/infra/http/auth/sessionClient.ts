@@ -0,0 +1,30 @@
+import type { SessionClient } from "@/domain/auth/AuthSession";
+
+/**
+ * Proxies in front of the app that append to x-forwarded-for (hosting load
+ * balancer, CDN…).  The client IP is the hop the outermost of them added;
+ * anything to its left came from the client and may be forged.
+ */
+const TRUSTED_PROXY_HOPS = Math.max(
+  1,
+  Number.parseInt(process.env.TRUSTED_PROXY_HOPS ?? "1", 10) || 1,
+);
+
+/**
+ * The device behind a request, as listed under "sessões ativas", and the
+ * IP the rate limits and login lockout count by.
+ */
+export function sessionClientFrom(
+  headers: Pick<Headers, "get">,
+): SessionClient {
+  const userAgent = headers.get("user-agent");
+  const hops = (headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map((hop) => hop.trim())
+    .filter(Boolean);
+  const ipAddress = hops[Math.max(0, hops.length - TRUSTED_PROXY_HOPS)];
+  return {
+    userAgent: userAgent ? userAgent.slice(0, 255) : null,
+    ipAddress: ipAddress ? ipAddress.slice(0, 45) : null,
+  };
+}
@@ -1,12 +1,28 @@
 import { type NextResponse } from "next/server";
+import type { IssuedSession } from "@/domain/auth/AuthSession";
 
 const COOKIE_NAME = process.env.AUTH_COOKIE_NAME ?? "__session";
+const REFRESH_COOKIE_NAME = process.env.AUTH_REFRESH_COOKIE_NAME ?? "__refresh";
 
-// 24 hours in seconds — matches token expiry
+// 24 hours in seconds — the access token itself expires sooner and is
+// renewed from the refresh cookie
 const COOKIE_MAX_AGE = 60 * 60 * 24;
 
 /**
- * Attaches the auth cookie to a NextResponse.
+ * Where cookies are written: `response.cookies` in route handlers and the
+ * proxy, `await cookies()` in Server Actions.
+ */
+type CookieJar = Pick<NextResponse["cookies"], "set">;
+
+const COOKIE_FLAGS = {
+  httpOnly: true,
+  secure: process.env.NODE_ENV === "production",
+  sameSite: "lax",
+  path: "/",
+} as const;
+
+/**
+ * Attaches the auth cookie (access token).
  *
  * Security flags:
  * - httpOnly    → JavaScript cannot read the cookie (XSS mitigation)
@@ -16,27 +32,35 @@ const COOKIE_MAX_AGE = 60 * 60 * 24;
  * - path=/       → Cookie scoped to all routes
  * - maxAge       → Explicit expiry; no persistent cookie in the browser if omitted
  */
-export function setAuthCookie(response: NextResponse, token: string): void {
-  response.cookies.set(COOKIE_NAME, token, {
-    httpOnly: true,
-    secure: process.env.NODE_ENV === "production",
-    sameSite: "lax",
-    path: "/",
-    maxAge: COOKIE_MAX_AGE,
-  });
+export function setAuthCookie(jar: CookieJar, token: string): void {
+  jar.set(COOKIE_NAME, token, { ...COOKIE_FLAGS, maxAge: COOKIE_MAX_AGE });
+}
+
+/**
+ * Attaches the cookies of an opened or refreshed session: the access token
+ * and, when it was rotated, the refresh token — same flags, kept until the
+ * session expires.
+ */
+export function setSessionCookies(
+  jar: CookieJar,
+  accessToken: string,
+  issued: IssuedSession,
+): void {
+  setAuthCookie(jar, accessToken);
+  if (issued.refreshToken) {
+    jar.set(REFRESH_COOKIE_NAME, issued.refreshToken, {
+      ...COOKIE_FLAGS,
+      expires: issued.refreshExpiresAt,
+    });
+  }
 }
 
 /**
- * Clears the auth cookie (used on logout).
+ * Clears the auth and refresh cookies (used on logout).
  */
-export function clearAuthCookie(response: NextResponse): void {
-  response.cookies.set(COOKIE_NAME, "", {
-    httpOnly: true,
-    secure: process.env.NODE_ENV === "production",
-    sameSite: "lax",
-    path: "/",
-    maxAge: 0,
-  });
+export function clearAuthCookie(jar: CookieJar): void {
+  jar.set(COOKIE_NAME, "", { ...COOKIE_FLAGS, maxAge: 0 });
+  jar.set(REFRESH_COOKIE_NAME, "", { ...COOKIE_FLAGS, maxAge: 0 });
 }
 
-export { COOKIE_NAME };
+export { COOKIE_NAME, REFRESH_COOKIE_NAME };
@@ -0,0 +1,36 @@
+import { type NextResponse } from "next/server";
+
+export const CUSTOMER_COOKIE_NAME =
+  process.env.CUSTOMER_COOKIE_NAME ?? "__customer";
+
+// 30 days in seconds — matches the default CUSTOMER_TOKEN_EXPIRY
+const COOKIE_MAX_AGE = 60 * 60 * 24 * 30;
+
+/**
+ * Attaches the customer session cookie to a NextResponse.
+ *
+ * Separate from the store-admin (__session) and super-admin (__sa_session)
+ * cookies: a store owner testing their own catalog keeps both sessions.
+ */
+export function setCustomerCookie(response: NextResponse, token: string): void {
+  response.cookies.set(CUSTOMER_COOKIE_NAME, token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax",
+    path: "/",
+    maxAge: COOKIE_MAX_AGE,
+  });
+}
+
+/**
+ * Clears the customer session cookie on logout.
+ */
+export function clearCustomerCookie(response: NextResponse): void {
+  response.cookies.set(CUSTOMER_COOKIE_NAME, "", {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax",
+    path: "/",
+    maxAge: 0,
+  });
+}
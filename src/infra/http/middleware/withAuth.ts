@@ -6,6 +6,7 @@ import {
 import { errorResponse } from "@/shared/http/response";
 import { HttpStatus } from "@/shared/http/statuses";
 import { COOKIE_NAME } from "@/infra/http/cookies/authCookie";
+import { Permission, hasPermission } from "@/domain/auth/StaffRole";
 
 // ─── Augmented request ────────────────────────────────────────────────────────
 
@@ -35,13 +36,21 @@ type AuthenticatedHandler = (
  *     return ok({ storeId });
  *   });
  *
+ *   // Open to kitchen users too
+ *   export const GET = withAuth(handler, Permission.PRODUCTION);
+ *
  * Flow:
  * 1. Reads the JWT from the HttpOnly auth cookie
  * 2. Verifies and decodes the token (throws on expiry or tampering)
- * 3. Attaches the decoded SessionPayload to req.session
- * 4. Returns 401 on any auth failure — never leaks the reason
+ * 3. Checks the session's role grants `permission` (default MANAGE_STORE)
+ * 4. Attaches the decoded SessionPayload to req.session
+ * 5. Returns 401 on any auth failure — never leaks the reason — and 403
+ *    when the role lacks the permission
  */
-export function withAuth(handler: AuthenticatedHandler) {
+export function withAuth(
+  handler: AuthenticatedHandler,
+  permission: Permission = Permission.MANAGE_STORE,
+) {
   return async (
     req: NextRequest,
     ...args: unknown[]
@@ -60,6 +69,10 @@ export function withAuth(handler: AuthenticatedHandler) {
       return errorResponse("Unauthorized.", HttpStatus.UNAUTHORIZED);
     }
 
+    if (!hasPermission(session.role, permission)) {
+      return errorResponse("Forbidden.", HttpStatus.FORBIDDEN);
+    }
+
     // Attach session to request (cast is safe — we just verified the payload)
     const authenticatedReq = req as AuthenticatedRequest;
     authenticatedReq.session = session;
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  verifyCustomerToken,
+  type CustomerSessionPayload,
+} from "@/infra/security/customerTokenService";
+import { errorResponse } from "@/shared/http/response";
+import { HttpStatus } from "@/shared/http/statuses";
+import { CUSTOMER_COOKIE_NAME } from "@/infra/http/cookies/customerCookie";
+
+// ─── Augmented request ────────────────────────────────────────────────────────
+
+/**
+ * NextRequest extended with the verified customer session.
+ * Handlers wrapped by withCustomerAuth receive this type.
+ */
+export interface CustomerRequest extends NextRequest {
+  customer: CustomerSessionPayload;
+}
+
+type CustomerHandler = (
+  req: CustomerRequest,
+  ...args: unknown[]
+) => Promise<NextResponse>;
+
+// ─── Middleware ───────────────────────────────────────────────────────────────
+
+/**
+ * Customer counterpart of withAuth, for the catalog's "Minha conta" API.
+ *
+ * Reads the customer cookie, verifies it and attaches the payload to
+ * req.customer; 401 on any failure.  The token carries its store, so
+ * handlers scope every query by req.customer — never by the URL's slug.
+ */
+export function withCustomerAuth(handler: CustomerHandler) {
+  return async (
+    req: NextRequest,
+    ...args: unknown[]
+  ): Promise<NextResponse> => {
+    const token = req.cookies.get(CUSTOMER_COOKIE_NAME)?.value;
+    if (!token) {
+      return errorResponse("Unauthorized.", HttpStatus.UNAUTHORIZED);
+    }
+
+    let customer: CustomerSessionPayload;
+    try {
+      customer = await verifyCustomerToken(token);
+    } catch {
+      return errorResponse("Unauthorized.", HttpStatus.UNAUTHORIZED);
+    }
+
+    const customerReq = req as CustomerRequest;
+    customerReq.customer = customer;
+    return handler(customerReq, ...args);
+  };
+}
@@ -0,0 +1,28 @@
+import { randomUUID } from "crypto";
+import type {
+  IMessagingGateway,
+  MessageSendResult,
+  OutgoingMessage,
+} from "@/application/ports/IMessagingGateway";
+
+/**
+ * LogMessagingGateway
+ *
+ * Development / test implementation of IMessagingGateway.
+ * Nothing leaves the machine: each message is written to the server log and
+ * kept in `sent` so tests can assert on what would have been delivered.
+ *
+ * Used automatically when the WhatsApp Cloud API is not configured.
+ */
+export class LogMessagingGateway implements IMessagingGateway {
+  readonly channel = "log";
+
+  /** Every message "sent" by this instance, oldest first. */
+  readonly sent: OutgoingMessage[] = [];
+
+  async send(message: OutgoingMessage): Promise<MessageSendResult> {
+    this.sent.push(message);
+    console.info(`[LogMessagingGateway] → ${message.to}\n${message.body}`);
+    return { success: true, providerMessageId: `log-${randomUUID()}` };
+  }
+}
@@ -0,0 +1,76 @@
+import type {
+  IMessagingGateway,
+  MessageSendResult,
+  OutgoingMessage,
+} from "@/application/ports/IMessagingGateway";
+
+/**
+ * WhatsAppCloudApiGateway
+ *
+ * Concrete implementation of IMessagingGateway using the WhatsApp Business
+ * Cloud API (Meta Graph API, `POST /{phone-number-id}/messages`).
+ *
+ * Required environment variables:
+ *   WHATSAPP_CLOUD_ACCESS_TOKEN     — permanent system-user token
+ *   WHATSAPP_CLOUD_PHONE_NUMBER_ID  — sender phone number id
+ * Optional:
+ *   WHATSAPP_CLOUD_API_VERSION      — Graph API version (default v21.0)
+ *
+ * Free-form text messages are only delivered inside the 24-hour customer
+ * service window; outside it the API answers with an error, which is
+ * returned as a failed result and recorded like any other attempt.
+ */
+export class WhatsAppCloudApiGateway implements IMessagingGateway {
+  readonly channel = "whatsapp-cloud";
+
+  constructor(
+    private readonly accessToken: string,
+    private readonly phoneNumberId: string,
+    private readonly apiVersion = "v21.0",
+  ) {}
+
+  async send(message: OutgoingMessage): Promise<MessageSendResult> {
+    const url = `https://graph.facebook.com/${this.apiVersion}/${this.phoneNumberId}/messages`;
+
+    try {
+      const res = await fetch(url, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${this.accessToken}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          messaging_product: "whatsapp",
+          recipient_type: "individual",
+          to: message.to,
+          type: "text",
+          text: { preview_url: false, body: message.body },
+        }),
+        signal: AbortSignal.timeout(10_000),
+      });
+
+      const json = (await res.json().catch(() => ({}))) as {
+        messages?: Array<{ id?: string }>;
+        error?: { message?: string; code?: number };
+      };
+
+      if (!res.ok) {
+        const detail = json.error?.message ?? res.statusText;
+        return {
+          success: false,
+          error: `HTTP ${res.status}${json.error?.code ? ` (code ${json.error.code})` : ""}: ${detail}`,
+        };
+      }
+
+      return {
+        success: true,
+        providerMessageId: json.messages?.[0]?.id ?? null,
+      };
+    } catch (err) {
+      return {
+        success: false,
+        error: err instanceof Error ? err.message : "Network error.",
+      };
+    }
+  }
+}
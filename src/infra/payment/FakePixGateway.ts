@@ -0,0 +1,105 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import type {
+  IPixPaymentGateway,
+  PixChargeRequest,
+  PixChargeResult,
+  PixPaymentNotice,
+} from "@/application/ports/IPixPaymentGateway";
+import { buildPixBrCode } from "@/domain/payment/PixBrCode";
+import { renderPixQrCode } from "./pixQrCode";
+
+const SIGNATURE_HEADER = "x-fake-pix-signature";
+
+/**
+ * FakePixGateway
+ *
+ * Development / test implementation of IPixPaymentGateway that behaves like
+ * a PSP without any network: charges are dynamic BR Codes pointing at a
+ * made-up location, and payments are "confirmed" by posting a webhook signed
+ * with the shared secret — `paidWebhook()` builds one.
+ *
+ * Webhook format:
+ *   POST { "event": "charge.paid", "chargeId": "...", "paidAt": "ISO date" }
+ *   x-fake-pix-signature: hex HMAC-SHA256 of the raw body
+ *
+ * Selected with PIX_PROVIDER=fake.
+ */
+export class FakePixGateway implements IPixPaymentGateway {
+  readonly provider = "fake";
+
+  /** Every charge issued by this instance, oldest first. */
+  readonly issued: PixChargeRequest[] = [];
+
+  constructor(private readonly webhookSecret: string) {}
+
+  async createCharge(request: PixChargeRequest): Promise<PixChargeResult> {
+    this.issued.push(request);
+    const brCode = buildPixBrCode({
+      location: `pix.fake.local/cob/${request.txid}`,
+      amount: request.amount,
+      merchantName: request.merchantName,
+      merchantCity: request.merchantCity,
+    });
+    return {
+      success: true,
+      charge: {
+        providerChargeId: request.txid,
+        brCode,
+        qrCodeImage: await renderPixQrCode(brCode),
+        expiresAt: null,
+      },
+    };
+  }
+
+  parseWebhook(rawBody: string, headers: Headers): PixPaymentNotice[] | null {
+    const signature = headers.get(SIGNATURE_HEADER) ?? "";
+    const expected = this.sign(rawBody);
+    if (
+      !this.webhookSecret ||
+      signature.length !== expected.length ||
+      !timingSafeEqual(Buffer.from(signature), Buffer.from(expected))
+    ) {
+      return null;
+    }
+
+    try {
+      const event = JSON.parse(rawBody) as {
+        event?: string;
+        chargeId?: string;
+        paidAt?: string;
+      };
+      if (event.event !== "charge.paid" || !event.chargeId) return [];
+      const paidAt = event.paidAt ? new Date(event.paidAt) : new Date();
+      return [
+        {
+          providerChargeId: event.chargeId,
+          paidAt: isNaN(paidAt.getTime()) ? new Date() : paidAt,
+        },
+      ];
+    } catch {
+      return [];
+    }
+  }
+
+  /** Builds a signed "charge.paid" webhook, as the provider would post it. */
+  paidWebhook(
+    providerChargeId: string,
+    paidAt = new Date(),
+  ): { body: string; headers: Headers } {
+    const body = JSON.stringify({
+      event: "charge.paid",
+      chargeId: providerChargeId,
+      paidAt: paidAt.toISOString(),
+    });
+    return {
+      body,
+      headers: new Headers({ [SIGNATURE_HEADER]: this.sign(body) }),
+    };
+  }
+
+  private sign(rawBody: string): string {
+    return createHmac("sha256", this.webhookSecret)
+      .update(rawBody)
+      .digest("hex");
+  }
+}
@@ -0,0 +1,125 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import type {
+  IPixPaymentGateway,
+  PixChargeRequest,
+  PixChargeResult,
+  PixPaymentNotice,
+} from "@/application/ports/IPixPaymentGateway";
+
+/** Seconds a charge stays payable. */
+const CHARGE_EXPIRES_IN = 3 * 24 * 60 * 60;
+
+/**
+ * OpenPixGateway
+ *
+ * Concrete implementation of IPixPaymentGateway using the OpenPix (Woovi)
+ * API: dynamic charges (`POST /api/v1/charge`) confirmed by the
+ * OPENPIX:CHARGE_COMPLETED webhook.
+ *
+ * Required environment variables:
+ *   OPENPIX_APP_ID          — application id, sent as the Authorization header
+ *   PIX_WEBHOOK_SECRET      — HMAC secret configured on the webhook
+ *
+ * Webhooks are authenticated by `X-OpenPix-Signature`: base64 HMAC-SHA1 of
+ * the raw body.  Our txid is sent as the charge correlationID, which is what
+ * the webhook refers back to.
+ */
+export class OpenPixGateway implements IPixPaymentGateway {
+  readonly provider = "openpix";
+
+  constructor(
+    private readonly appId: string,
+    private readonly webhookSecret: string,
+    private readonly baseUrl = "https://api.openpix.com.br",
+  ) {}
+
+  async createCharge(request: PixChargeRequest): Promise<PixChargeResult> {
+    try {
+      const res = await fetch(`${this.baseUrl}/api/v1/charge`, {
+        method: "POST",
+        headers: {
+          Authorization: this.appId,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          correlationID: request.txid,
+          value: Math.round(request.amount * 100),
+          comment: request.description.slice(0, 140),
+          expiresIn: CHARGE_EXPIRES_IN,
+        }),
+        signal: AbortSignal.timeout(10_000),
+      });
+
+      const json = (await res.json().catch(() => ({}))) as {
+        charge?: {
+          correlationID?: string;
+          brCode?: string;
+          qrCodeImage?: string;
+          expiresDate?: string;
+        };
+        error?: string;
+      };
+
+      const charge = json.charge;
+      if (!res.ok || !charge?.brCode || !charge.qrCodeImage) {
+        return {
+          success: false,
+          error: `HTTP ${res.status}: ${json.error ?? res.statusText}`,
+        };
+      }
+
+      return {
+        success: true,
+        charge: {
+          providerChargeId: charge.correlationID ?? request.txid,
+          brCode: charge.brCode,
+          qrCodeImage: charge.qrCodeImage,
+          expiresAt: charge.expiresDate ? new Date(charge.expiresDate) : null,
+        },
+      };
+    } catch (err) {
+      return {
+        success: false,
+        error: err instanceof Error ? err.message : "Network error.",
+      };
+    }
+  }
+
+  parseWebhook(rawBody: string, headers: Headers): PixPaymentNotice[] | null {
+    const signature = headers.get("x-openpix-signature") ?? "";
+    const expected = createHmac("sha1", this.webhookSecret)
+      .update(rawBody)
+      .digest("base64");
+    if (
+      !this.webhookSecret ||
+      signature.length !== expected.length ||
+      !timingSafeEqual(Buffer.from(signature), Buffer.from(expected))
+    ) {
+      return null;
+    }
+
+    try {
+      const event = JSON.parse(rawBody) as {
+        event?: string;
+        charge?: { correlationID?: string; status?: string; paidAt?: string };
+      };
+      const charge = event.charge;
+      if (
+        event.event !== "OPENPIX:CHARGE_COMPLETED" ||
+        charge?.status !== "COMPLETED" ||
+        !charge.correlationID
+      ) {
+        return [];
+      }
+      const paidAt = charge.paidAt ? new Date(charge.paidAt) : new Date();
+      return [
+        {
+          providerChargeId: charge.correlationID,
+          paidAt: isNaN(paidAt.getTime()) ? new Date() : paidAt,
+        },
+      ];
+    } catch {
+      return [];
+    }
+  }
+}
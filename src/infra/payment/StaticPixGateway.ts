@@ -0,0 +1,57 @@
+import type {
+  IPixPaymentGateway,
+  PixChargeRequest,
+  PixChargeResult,
+  PixPaymentNotice,
+} from "@/application/ports/IPixPaymentGateway";
+import { buildPixBrCode } from "@/domain/payment/PixBrCode";
+import { renderPixQrCode } from "./pixQrCode";
+
+/**
+ * StaticPixGateway
+ *
+ * Builds a static BR Code with the store's own PIX key — no provider account
+ * needed.  The money goes straight to the store, but no one reports the
+ * payment back: there are no webhooks, and the store marks the order as
+ * paid by hand.
+ *
+ * Used automatically when no PIX provider is configured.
+ */
+export class StaticPixGateway implements IPixPaymentGateway {
+  readonly provider = "static";
+
+  async createCharge(request: PixChargeRequest): Promise<PixChargeResult> {
+    if (!request.pixKey) {
+      return { success: false, error: "Store has no PIX key configured." };
+    }
+
+    const brCode = buildPixBrCode({
+      pixKey: request.pixKey,
+      txid: request.txid,
+      amount: request.amount,
+      merchantName: request.merchantName,
+      merchantCity: request.merchantCity,
+    });
+
+    try {
+      return {
+        success: true,
+        charge: {
+          providerChargeId: request.txid,
+          brCode,
+          qrCodeImage: await renderPixQrCode(brCode),
+          expiresAt: null,
+        },
+      };
+    } catch (err) {
+      return {
+        success: false,
+        error: err instanceof Error ? err.message : "QR code rendering failed.",
+      };
+    }
+  }
+
+  parseWebhook(): PixPaymentNotice[] | null {
+    return null;
+  }
+}
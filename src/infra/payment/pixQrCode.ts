@@ -0,0 +1,14 @@
+import QRCode from "qrcode";
+
+/**
+ * Renders a BR Code as a PNG data: URL, for gateways whose provider does not
+ * serve a QR image of its own.  Medium error correction keeps the image
+ * readable on phone screens with glare.
+ */
+export function renderPixQrCode(brCode: string): Promise<string> {
+  return QRCode.toDataURL(brCode, {
+    errorCorrectionLevel: "M",
+    margin: 1,
+    width: 320,
+  });
+}
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "store_pickup_slots" ADD COLUMN     "maxItems" INTEGER,
+ADD COLUMN     "maxOrders" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "orders_pickupSlotId_deliveryDate_idx" ON "orders"("pickupSlotId", "deliveryDate");
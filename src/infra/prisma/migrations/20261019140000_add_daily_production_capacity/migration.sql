@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "product_variants" ADD COLUMN     "dailyCapacity" INTEGER;
+
+-- AlterTable
+ALTER TABLE "products" ADD COLUMN     "dailyCapacity" INTEGER;
+
+-- AlterTable
+ALTER TABLE "stores" ADD COLUMN     "dailyCapacity" INTEGER;
@@ -0,0 +1,34 @@
+-- CreateEnum
+CREATE TYPE "OrderNotificationEvent" AS ENUM ('ORDER_RECEIVED', 'ORDER_APPROVED', 'ORDER_REJECTED', 'ORDER_PAID', 'ORDER_DELIVERED', 'ORDER_CANCELLED');
+
+-- CreateEnum
+CREATE TYPE "NotificationStatus" AS ENUM ('SENT', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "order_notifications" (
+    "id" TEXT NOT NULL,
+    "storeId" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "event" "OrderNotificationEvent" NOT NULL,
+    "channel" TEXT NOT NULL,
+    "recipient" TEXT NOT NULL,
+    "body" TEXT NOT NULL,
+    "status" "NotificationStatus" NOT NULL,
+    "providerMessageId" TEXT,
+    "error" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "order_notifications_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "order_notifications_orderId_createdAt_idx" ON "order_notifications"("orderId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "order_notifications_storeId_createdAt_idx" ON "order_notifications"("storeId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "order_notifications" ADD CONSTRAINT "order_notifications_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "stores"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "order_notifications" ADD CONSTRAINT "order_notifications_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "orders"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,16 @@
+-- AlterEnum
+ALTER TYPE "OrderNotificationEvent" ADD VALUE 'ORDER_READY_FOR_PICKUP';
+ALTER TYPE "OrderNotificationEvent" ADD VALUE 'ORDER_OUT_FOR_DELIVERY';
+ALTER TYPE "OrderNotificationEvent" ADD VALUE 'ORDER_REMINDER';
+
+-- AlterTable
+ALTER TABLE "stores" ADD COLUMN "pixKey" VARCHAR(100);
+
+-- AlterTable
+ALTER TABLE "store_message_configs" ADD COLUMN "receivedMessage" VARCHAR(500),
+ADD COLUMN "paidMessage" VARCHAR(500),
+ADD COLUMN "readyForPickupMessage" VARCHAR(500),
+ADD COLUMN "outForDeliveryMessage" VARCHAR(500),
+ADD COLUMN "deliveredMessage" VARCHAR(500),
+ADD COLUMN "cancelledMessage" VARCHAR(500),
+ADD COLUMN "reminderMessage" VARCHAR(500);
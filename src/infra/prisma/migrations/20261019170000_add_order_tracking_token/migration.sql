@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "orders" ADD COLUMN     "trackingToken" VARCHAR(64);
+
+-- Backfill existing orders so every customer can be sent a tracking link
+UPDATE "orders"
+SET "trackingToken" = replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', '')
+WHERE "trackingToken" IS NULL;
+
+ALTER TABLE "orders" ALTER COLUMN "trackingToken" SET NOT NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "orders_trackingToken_key" ON "orders"("trackingToken");
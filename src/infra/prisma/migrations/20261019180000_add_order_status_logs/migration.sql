@@ -0,0 +1,39 @@
+-- CreateEnum
+CREATE TYPE "OrderStatusLogField" AS ENUM ('STATUS', 'TRACKING_STATUS', 'DETAILS');
+
+-- CreateEnum
+CREATE TYPE "OrderActorType" AS ENUM ('ADMIN', 'SYSTEM');
+
+-- CreateTable
+CREATE TABLE "order_status_logs" (
+    "id" TEXT NOT NULL,
+    "storeId" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "field" "OrderStatusLogField" NOT NULL,
+    "fromValue" TEXT,
+    "toValue" TEXT,
+    "actorType" "OrderActorType" NOT NULL,
+    "actorId" TEXT,
+    "reason" VARCHAR(500),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "order_status_logs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "order_status_logs_orderId_createdAt_idx" ON "order_status_logs"("orderId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "order_status_logs" ADD CONSTRAINT "order_status_logs_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "stores"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "order_status_logs" ADD CONSTRAINT "order_status_logs_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "orders"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "order_status_logs" ADD CONSTRAINT "order_status_logs_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "admins"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill: every existing order gets its creation entry so the history
+-- always starts at placement.
+INSERT INTO "order_status_logs" ("id", "storeId", "orderId", "field", "fromValue", "toValue", "actorType", "createdAt")
+SELECT gen_random_uuid()::text, "storeId", "id", 'STATUS', NULL, 'PENDING', 'SYSTEM', "createdAt"
+FROM "orders";
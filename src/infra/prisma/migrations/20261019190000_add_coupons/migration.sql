@@ -0,0 +1,50 @@
+-- CreateEnum
+CREATE TYPE "CouponDiscountType" AS ENUM ('PERCENTAGE', 'FIXED');
+
+-- CreateEnum
+CREATE TYPE "CouponScope" AS ENUM ('ORDER', 'PRODUCT', 'CATEGORY');
+
+-- AlterTable
+ALTER TABLE "orders" ADD COLUMN "couponId" TEXT,
+ADD COLUMN "couponCode" TEXT;
+
+-- CreateTable
+CREATE TABLE "coupons" (
+    "id" TEXT NOT NULL,
+    "storeId" TEXT NOT NULL,
+    "code" VARCHAR(40) NOT NULL,
+    "discountType" "CouponDiscountType" NOT NULL,
+    "discountValue" DECIMAL(10,2) NOT NULL,
+    "scope" "CouponScope" NOT NULL DEFAULT 'ORDER',
+    "productId" TEXT,
+    "categoryId" TEXT,
+    "startsAt" TIMESTAMP(3),
+    "endsAt" TIMESTAMP(3),
+    "maxUses" INTEGER,
+    "maxUsesPerCustomer" INTEGER,
+    "minSubtotal" DECIMAL(10,2),
+    "freeDelivery" BOOLEAN NOT NULL DEFAULT false,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "coupons_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "coupons_storeId_code_key" ON "coupons"("storeId", "code");
+
+-- CreateIndex
+CREATE INDEX "orders_couponId_idx" ON "orders"("couponId");
+
+-- AddForeignKey
+ALTER TABLE "orders" ADD CONSTRAINT "orders_couponId_fkey" FOREIGN KEY ("couponId") REFERENCES "coupons"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "coupons" ADD CONSTRAINT "coupons_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "stores"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "coupons" ADD CONSTRAINT "coupons_productId_fkey" FOREIGN KEY ("productId") REFERENCES "products"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "coupons" ADD CONSTRAINT "coupons_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "categories"("id") ON DELETE CASCADE ON UPDATE CASCADE;
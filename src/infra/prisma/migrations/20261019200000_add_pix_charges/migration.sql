@@ -0,0 +1,32 @@
+-- CreateEnum
+CREATE TYPE "PixChargeStatus" AS ENUM ('PENDING', 'PAID');
+
+-- CreateTable
+CREATE TABLE "pix_charges" (
+    "id" TEXT NOT NULL,
+    "storeId" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "provider" VARCHAR(30) NOT NULL,
+    "providerChargeId" VARCHAR(100) NOT NULL,
+    "amount" DECIMAL(10,2) NOT NULL,
+    "brCode" TEXT NOT NULL,
+    "qrCodeImage" TEXT NOT NULL,
+    "status" "PixChargeStatus" NOT NULL DEFAULT 'PENDING',
+    "expiresAt" TIMESTAMP(3),
+    "paidAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "pix_charges_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "pix_charges_provider_providerChargeId_key" ON "pix_charges"("provider", "providerChargeId");
+
+-- CreateIndex
+CREATE INDEX "pix_charges_orderId_createdAt_idx" ON "pix_charges"("orderId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "pix_charges" ADD CONSTRAINT "pix_charges_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "stores"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "pix_charges" ADD CONSTRAINT "pix_charges_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "orders"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,35 @@
+-- AlterEnum
+ALTER TYPE "OrderTrackingStatus" ADD VALUE 'PARTIALLY_PAID' BEFORE 'PAID';
+
+-- CreateEnum
+CREATE TYPE "PaymentMethod" AS ENUM ('PIX', 'CASH', 'CARD');
+
+-- AlterTable
+ALTER TABLE "stores" ADD COLUMN "depositPercentage" INTEGER;
+
+-- CreateTable
+CREATE TABLE "payments" (
+    "id" TEXT NOT NULL,
+    "storeId" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "amount" DECIMAL(10,2) NOT NULL,
+    "method" "PaymentMethod" NOT NULL,
+    "paidAt" TIMESTAMP(3) NOT NULL,
+    "notes" VARCHAR(500),
+    "recordedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "payments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "payments_orderId_paidAt_idx" ON "payments"("orderId", "paidAt");
+
+-- AddForeignKey
+ALTER TABLE "payments" ADD CONSTRAINT "payments_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "stores"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payments" ADD CONSTRAINT "payments_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "orders"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payments" ADD CONSTRAINT "payments_recordedById_fkey" FOREIGN KEY ("recordedById") REFERENCES "admins"("id") ON DELETE SET NULL ON UPDATE CASCADE;
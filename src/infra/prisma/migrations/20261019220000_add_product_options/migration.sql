@@ -0,0 +1,47 @@
+-- CreateEnum
+CREATE TYPE "ProductOptionGroupType" AS ENUM ('CHOICE', 'TEXT');
+
+-- AlterTable
+ALTER TABLE "order_items" ADD COLUMN "options" JSONB;
+
+-- CreateTable
+CREATE TABLE "product_option_groups" (
+    "id" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "storeId" TEXT NOT NULL,
+    "name" VARCHAR(100) NOT NULL,
+    "type" "ProductOptionGroupType" NOT NULL DEFAULT 'CHOICE',
+    "minSelections" INTEGER NOT NULL DEFAULT 0,
+    "maxSelections" INTEGER NOT NULL DEFAULT 1,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "product_option_groups_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "product_options" (
+    "id" TEXT NOT NULL,
+    "groupId" TEXT NOT NULL,
+    "label" VARCHAR(100) NOT NULL,
+    "price" DECIMAL(10,2) NOT NULL DEFAULT 0,
+    "maxQuantity" INTEGER NOT NULL DEFAULT 1,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "product_options_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "product_option_groups_productId_idx" ON "product_option_groups"("productId");
+
+-- CreateIndex
+CREATE INDEX "product_option_groups_storeId_idx" ON "product_option_groups"("storeId");
+
+-- CreateIndex
+CREATE INDEX "product_options_groupId_idx" ON "product_options"("groupId");
+
+-- AddForeignKey
+ALTER TABLE "product_option_groups" ADD CONSTRAINT "product_option_groups_productId_fkey" FOREIGN KEY ("productId") REFERENCES "products"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "product_options" ADD CONSTRAINT "product_options_groupId_fkey" FOREIGN KEY ("groupId") REFERENCES "product_option_groups"("id") ON DELETE CASCADE ON UPDATE CASCADE;
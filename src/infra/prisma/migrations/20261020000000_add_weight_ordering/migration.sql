@@ -0,0 +1,20 @@
+-- AlterTable
+ALTER TABLE "product_variants" ADD COLUMN "weightStep" DECIMAL(10,2);
+
+-- AlterTable
+ALTER TABLE "order_items" ADD COLUMN "weightKg" DECIMAL(10,3),
+ADD COLUMN "pricePerKg" DECIMAL(10,2),
+ADD COLUMN "finalWeightKg" DECIMAL(10,3);
+
+-- WEIGHT variants were priced per base weight (e.g. R$ 15 for 250g) and
+-- sold in multiples of it: keep the base weight as minimum and step, and
+-- convert the price to per kg.
+UPDATE "product_variants"
+SET "weightStep" = "weightValue",
+    "price" = ROUND(
+      "price" / CASE WHEN "weightUnit" = 'g' THEN "weightValue" / 1000 ELSE "weightValue" END,
+      2
+    )
+WHERE "pricingType" = 'WEIGHT'
+  AND "weightValue" > 0
+  AND "weightUnit" IN ('g', 'kg');
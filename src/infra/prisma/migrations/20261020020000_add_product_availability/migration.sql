@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "categories" ADD COLUMN     "availableFrom" DATE,
+ADD COLUMN     "availableUntil" DATE,
+ADD COLUMN     "availableWeekdays" INTEGER[] DEFAULT ARRAY[]::INTEGER[],
+ADD COLUMN     "leadTimeDays" INTEGER;
+
+-- AlterTable
+ALTER TABLE "products" ADD COLUMN     "availableFrom" DATE,
+ADD COLUMN     "availableUntil" DATE,
+ADD COLUMN     "availableWeekdays" INTEGER[] DEFAULT ARRAY[]::INTEGER[],
+ADD COLUMN     "leadTimeDays" INTEGER;
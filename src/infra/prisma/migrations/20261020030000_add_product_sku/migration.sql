@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "products" ADD COLUMN     "sku" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "products_storeId_sku_key" ON "products"("storeId", "sku");
@@ -0,0 +1,52 @@
+-- CreateEnum
+CREATE TYPE "PriceAdjustmentMode" AS ENUM ('PERCENT', 'FIXED');
+
+-- CreateEnum
+CREATE TYPE "PriceRounding" AS ENUM ('NONE', 'NINETY', 'WHOLE');
+
+-- CreateEnum
+CREATE TYPE "PriceAdjustmentScope" AS ENUM ('PRODUCTS', 'CATEGORY', 'ALL');
+
+-- CreateTable
+CREATE TABLE "price_adjustments" (
+    "id" TEXT NOT NULL,
+    "storeId" TEXT NOT NULL,
+    "mode" "PriceAdjustmentMode" NOT NULL,
+    "value" DECIMAL(10,2) NOT NULL,
+    "rounding" "PriceRounding" NOT NULL,
+    "scope" "PriceAdjustmentScope" NOT NULL,
+    "actorId" TEXT,
+    "rolledBackAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "price_adjustments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "price_adjustment_items" (
+    "id" TEXT NOT NULL,
+    "adjustmentId" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "variantId" TEXT,
+    "productName" TEXT NOT NULL,
+    "variantLabel" TEXT,
+    "oldPrice" DECIMAL(10,2) NOT NULL,
+    "newPrice" DECIMAL(10,2) NOT NULL,
+
+    CONSTRAINT "price_adjustment_items_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "price_adjustments_storeId_createdAt_idx" ON "price_adjustments"("storeId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "price_adjustment_items_adjustmentId_idx" ON "price_adjustment_items"("adjustmentId");
+
+-- AddForeignKey
+ALTER TABLE "price_adjustments" ADD CONSTRAINT "price_adjustments_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "stores"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "price_adjustments" ADD CONSTRAINT "price_adjustments_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "admins"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "price_adjustment_items" ADD CONSTRAINT "price_adjustment_items_adjustmentId_fkey" FOREIGN KEY ("adjustmentId") REFERENCES "price_adjustments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,33 @@
+-- CreateEnum
+CREATE TYPE "PriceScheduleKind" AS ENUM ('PROMO', 'CHANGE');
+
+-- CreateTable
+CREATE TABLE "product_price_schedules" (
+    "id" TEXT NOT NULL,
+    "storeId" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "variantId" TEXT,
+    "kind" "PriceScheduleKind" NOT NULL,
+    "price" DECIMAL(10,2) NOT NULL,
+    "startsAt" TIMESTAMP(3) NOT NULL,
+    "endsAt" TIMESTAMP(3),
+    "settledAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "product_price_schedules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "product_price_schedules_productId_settledAt_idx" ON "product_price_schedules"("productId", "settledAt");
+
+-- CreateIndex
+CREATE INDEX "product_price_schedules_settledAt_startsAt_idx" ON "product_price_schedules"("settledAt", "startsAt");
+
+-- AddForeignKey
+ALTER TABLE "product_price_schedules" ADD CONSTRAINT "product_price_schedules_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "stores"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "product_price_schedules" ADD CONSTRAINT "product_price_schedules_productId_fkey" FOREIGN KEY ("productId") REFERENCES "products"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "product_price_schedules" ADD CONSTRAINT "product_price_schedules_variantId_fkey" FOREIGN KEY ("variantId") REFERENCES "product_variants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,38 @@
+-- CreateEnum
+CREATE TYPE "StaffRole" AS ENUM ('OWNER', 'MANAGER', 'KITCHEN', 'DELIVERY');
+
+-- DropIndex
+DROP INDEX "admins_storeId_key";
+
+-- AlterTable
+ALTER TABLE "admins" ADD COLUMN     "role" "StaffRole" NOT NULL DEFAULT 'OWNER';
+
+-- CreateTable
+CREATE TABLE "staff_invites" (
+    "id" TEXT NOT NULL,
+    "storeId" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "role" "StaffRole" NOT NULL,
+    "tokenHash" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "acceptedAt" TIMESTAMP(3),
+    "invitedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "staff_invites_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "admins_storeId_idx" ON "admins"("storeId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "staff_invites_tokenHash_key" ON "staff_invites"("tokenHash");
+
+-- CreateIndex
+CREATE INDEX "staff_invites_storeId_acceptedAt_idx" ON "staff_invites"("storeId", "acceptedAt");
+
+-- AddForeignKey
+ALTER TABLE "staff_invites" ADD CONSTRAINT "staff_invites_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "stores"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "staff_invites" ADD CONSTRAINT "staff_invites_invitedById_fkey" FOREIGN KEY ("invitedById") REFERENCES "admins"("id") ON DELETE SET NULL ON UPDATE CASCADE;
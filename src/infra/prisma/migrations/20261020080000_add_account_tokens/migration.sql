@@ -0,0 +1,24 @@
+-- CreateEnum
+CREATE TYPE "AccountTokenPurpose" AS ENUM ('PASSWORD_RESET', 'EMAIL_VERIFICATION', 'SUPER_ADMIN_PASSWORD_RESET');
+
+-- AlterTable
+ALTER TABLE "admins" ADD COLUMN "emailVerifiedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "account_tokens" (
+    "id" TEXT NOT NULL,
+    "purpose" "AccountTokenPurpose" NOT NULL,
+    "subjectId" TEXT NOT NULL,
+    "tokenHash" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "usedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "account_tokens_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "account_tokens_tokenHash_key" ON "account_tokens"("tokenHash");
+
+-- CreateIndex
+CREATE INDEX "account_tokens_subjectId_purpose_idx" ON "account_tokens"("subjectId", "purpose");
@@ -0,0 +1,39 @@
+-- CreateTable
+CREATE TABLE "customer_login_codes" (
+    "id" TEXT NOT NULL,
+    "storeId" TEXT NOT NULL,
+    "whatsapp" TEXT NOT NULL,
+    "codeHash" TEXT NOT NULL,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "customer_login_codes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "customer_addresses" (
+    "id" TEXT NOT NULL,
+    "customerId" TEXT NOT NULL,
+    "label" TEXT,
+    "cep" TEXT NOT NULL,
+    "street" TEXT NOT NULL,
+    "number" TEXT NOT NULL,
+    "neighborhood" TEXT NOT NULL,
+    "city" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "customer_addresses_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "customer_login_codes_storeId_whatsapp_idx" ON "customer_login_codes"("storeId", "whatsapp");
+
+-- CreateIndex
+CREATE INDEX "customer_addresses_customerId_idx" ON "customer_addresses"("customerId");
+
+-- AddForeignKey
+ALTER TABLE "customer_login_codes" ADD CONSTRAINT "customer_login_codes_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "stores"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "customer_addresses" ADD CONSTRAINT "customer_addresses_customerId_fkey" FOREIGN KEY ("customerId") REFERENCES "customers"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "payments" ADD COLUMN "pixChargeId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "payments_pixChargeId_key" ON "payments"("pixChargeId");
+
+-- AddForeignKey
+ALTER TABLE "payments" ADD CONSTRAINT "payments_pixChargeId_fkey" FOREIGN KEY ("pixChargeId") REFERENCES "pix_charges"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,72 @@
+import type {
+  IRateLimitStore,
+  RateLimitCounter,
+} from "@/application/ports/IRateLimitStore";
+
+/** Dead entries are swept at most this often, during a hit. */
+const PRUNE_INTERVAL_MS = 10 * 60 * 1000;
+
+/**
+ * InMemoryRateLimitStore
+ *
+ * IRateLimitStore kept in process memory.  Counts are per instance and lost
+ * on restart — fine for local development, tests and single-instance
+ * deployments; use PrismaRateLimitStore when several instances serve traffic.
+ */
+export class InMemoryRateLimitStore implements IRateLimitStore {
+  private readonly entries = new Map<string, RateLimitCounter>();
+  private lastPruneAt = 0;
+
+  async hit(
+    key: string,
+    windowMs: number,
+    now: Date,
+  ): Promise<RateLimitCounter> {
+    this.prune(now);
+    const entry = this.entries.get(key);
+    const next: RateLimitCounter =
+      entry && entry.resetAt > now
+        ? { ...entry, count: entry.count + 1 }
+        : {
+            count: 1,
+            resetAt: new Date(now.getTime() + windowMs),
+            blockedUntil: entry?.blockedUntil ?? null,
+          };
+    this.entries.set(key, next);
+    return { ...next };
+  }
+
+  async get(key: string, now: Date): Promise<RateLimitCounter | null> {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+    return entry.resetAt > now ? { ...entry } : { ...entry, count: 0 };
+  }
+
+  async block(key: string, until: Date): Promise<void> {
+    const entry = this.entries.get(key);
+    this.entries.set(
+      key,
+      entry
+        ? { ...entry, blockedUntil: until }
+        : { count: 0, resetAt: until, blockedUntil: until },
+    );
+  }
+
+  async reset(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  private prune(now: Date): void {
+    if (now.getTime() - this.lastPruneAt < PRUNE_INTERVAL_MS) return;
+    this.lastPruneAt = now.getTime();
+    for (const [key, entry] of this.entries) {
+      if (isExpired(entry, now)) this.entries.delete(key);
+    }
+  }
+}
+
+function isExpired(entry: RateLimitCounter, now: Date): boolean {
+  return (
+    entry.resetAt <= now && (!entry.blockedUntil || entry.blockedUntil <= now)
+  );
+}
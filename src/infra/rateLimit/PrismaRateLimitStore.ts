@@ -0,0 +1,71 @@
+import { prisma } from "@/infra/prisma";
+import type {
+  IRateLimitStore,
+  RateLimitCounter,
+} from "@/application/ports/IRateLimitStore";
+
+/** Dead rows are swept at most this often per instance, during a hit. */
+const PRUNE_INTERVAL_MS = 10 * 60 * 1000;
+
+/**
+ * PrismaRateLimitStore
+ *
+ * IRateLimitStore over the `rate_limits` table, shared by every instance.
+ * A hit is one INSERT … ON CONFLICT statement, so concurrent requests never
+ * lose a count.
+ */
+export class PrismaRateLimitStore implements IRateLimitStore {
+  private lastPruneAt = 0;
+
+  async hit(
+    key: string,
+    windowMs: number,
+    now: Date,
+  ): Promise<RateLimitCounter> {
+    await this.prune(now);
+    const resetAt = new Date(now.getTime() + windowMs);
+    const [row] = await prisma.$queryRaw<RateLimitCounter[]>`
+      INSERT INTO "rate_limits" ("key", "count", "resetAt")
+      VALUES (${key}, 1, ${resetAt})
+      ON CONFLICT ("key") DO UPDATE SET
+        "count" = CASE WHEN "rate_limits"."resetAt" <= ${now}
+          THEN 1 ELSE "rate_limits"."count" + 1 END,
+        "resetAt" = CASE WHEN "rate_limits"."resetAt" <= ${now}
+          THEN EXCLUDED."resetAt" ELSE "rate_limits"."resetAt" END
+      RETURNING "count", "resetAt", "blockedUntil"`;
+    return row;
+  }
+
+  async get(key: string, now: Date): Promise<RateLimitCounter | null> {
+    const row = await prisma.rateLimit.findUnique({ where: { key } });
+    if (!row) return null;
+    return {
+      count: row.resetAt > now ? row.count : 0,
+      resetAt: row.resetAt,
+      blockedUntil: row.blockedUntil,
+    };
+  }
+
+  async block(key: string, until: Date): Promise<void> {
+    await prisma.rateLimit.upsert({
+      where: { key },
+      create: { key, count: 0, resetAt: until, blockedUntil: until },
+      update: { blockedUntil: until },
+    });
+  }
+
+  async reset(key: string): Promise<void> {
+    await prisma.rateLimit.deleteMany({ where: { key } });
+  }
+
+  private async prune(now: Date): Promise<void> {
+    if (now.getTime() - this.lastPruneAt < PRUNE_INTERVAL_MS) return;
+    this.lastPruneAt = now.getTime();
+    await prisma.rateLimit.deleteMany({
+      where: {
+        resetAt: { lte: now },
+        OR: [{ blockedUntil: null }, { blockedUntil: { lte: now } }],
+      },
+    });
+  }
+}
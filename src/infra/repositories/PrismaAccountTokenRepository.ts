@@ -0,0 +1,53 @@
+import type { AccountToken as PrismaAccountToken } from "@prisma/client";
+import { prisma } from "@/infra/prisma";
+import type { IAccountTokenRepository } from "@/domain/auth/IAccountTokenRepository";
+import type {
+  AccountToken,
+  AccountTokenPurpose,
+  IssueAccountTokenInput,
+} from "@/domain/auth/AccountToken";
+
+/**
+ * PrismaAccountTokenRepository
+ *
+ * Implements IAccountTokenRepository using Prisma.
+ */
+export class PrismaAccountTokenRepository implements IAccountTokenRepository {
+  async issue(input: IssueAccountTokenInput): Promise<AccountToken> {
+    const [, row] = await prisma.$transaction([
+      prisma.accountToken.deleteMany({
+        where: {
+          subjectId: input.subjectId,
+          purpose: input.purpose,
+          usedAt: null,
+        },
+      }),
+      prisma.accountToken.create({ data: input }),
+    ]);
+    return this.toEntity(row);
+  }
+
+  async findByTokenHash(tokenHash: string): Promise<AccountToken | null> {
+    const row = await prisma.accountToken.findUnique({ where: { tokenHash } });
+    return row ? this.toEntity(row) : null;
+  }
+
+  async consume(id: string, now: Date): Promise<boolean> {
+    const { count } = await prisma.accountToken.updateMany({
+      where: { id, usedAt: null, expiresAt: { gt: now } },
+      data: { usedAt: now },
+    });
+    return count > 0;
+  }
+
+  private toEntity(row: PrismaAccountToken): AccountToken {
+    return {
+      id: row.id,
+      purpose: row.purpose as AccountTokenPurpose,
+      subjectId: row.subjectId,
+      expiresAt: row.expiresAt,
+      usedAt: row.usedAt,
+      createdAt: row.createdAt,
+    };
+  }
+}
@@ -1,6 +1,17 @@
 import { prisma } from "@/infra/prisma";
 import type { IAdminRepository } from "@/domain/auth/IAdminRepository";
 import type { Admin } from "@/domain/auth/Admin";
+import type { StaffRole } from "@/domain/auth/StaffRole";
+
+const ADMIN_COLUMNS = {
+  id: true,
+  email: true,
+  passwordHash: true,
+  storeId: true,
+  role: true,
+  emailVerifiedAt: true,
+  store: { select: { status: true } },
+} as const;
 
 /**
  * PrismaAdminRepository
@@ -16,23 +27,47 @@ export class PrismaAdminRepository implements IAdminRepository {
   async findByEmail(email: string): Promise<Admin | null> {
     const row = await prisma.admin.findUnique({
       where: { email },
-      select: {
-        id: true,
-        email: true,
-        passwordHash: true,
-        storeId: true,
-        store: { select: { status: true } },
-      },
+      select: ADMIN_COLUMNS,
+    });
+    return row ? this.toEntity(row) : null;
+  }
+
+  async findById(id: string): Promise<Admin | null> {
+    const row = await prisma.admin.findUnique({
+      where: { id },
+      select: ADMIN_COLUMNS,
     });
+    return row ? this.toEntity(row) : null;
+  }
+
+  async updatePasswordHash(id: string, passwordHash: string): Promise<void> {
+    await prisma.admin.update({ where: { id }, data: { passwordHash } });
+  }
 
-    if (!row) return null;
+  async markEmailVerified(id: string, at: Date): Promise<void> {
+    await prisma.admin.updateMany({
+      where: { id, emailVerifiedAt: null },
+      data: { emailVerifiedAt: at },
+    });
+  }
 
+  private toEntity(row: {
+    id: string;
+    email: string;
+    passwordHash: string;
+    storeId: string;
+    role: string;
+    emailVerifiedAt: Date | null;
+    store: { status: string };
+  }): Admin {
     return {
       id: row.id,
       email: row.email,
       passwordHash: row.passwordHash,
       storeId: row.storeId,
+      role: row.role as StaffRole,
       storeStatus: row.store.status,
+      emailVerifiedAt: row.emailVerifiedAt,
     };
   }
 }
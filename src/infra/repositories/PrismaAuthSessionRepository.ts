@@ -0,0 +1,108 @@
+import type { AdminSession as PrismaAdminSession } from "@prisma/client";
+import { prisma } from "@/infra/prisma";
+import type { IAuthSessionRepository } from "@/domain/auth/IAuthSessionRepository";
+import type {
+  AuthSession,
+  AuthSessionMatch,
+  CreateAuthSessionInput,
+} from "@/domain/auth/AuthSession";
+
+/**
+ * PrismaAuthSessionRepository
+ *
+ * Implements IAuthSessionRepository using Prisma.  Rotation is a single
+ * conditional update on the current hash, so two refreshes racing with
+ * the same token cannot both rotate it.
+ */
+export class PrismaAuthSessionRepository implements IAuthSessionRepository {
+  async create(input: CreateAuthSessionInput): Promise<AuthSession> {
+    const row = await prisma.adminSession.create({
+      data: {
+        adminId: input.adminId,
+        tokenHash: input.tokenHash,
+        expiresAt: input.expiresAt,
+        userAgent: input.userAgent?.slice(0, 255) ?? null,
+        ipAddress: input.ipAddress?.slice(0, 45) ?? null,
+      },
+    });
+    return this.toEntity(row);
+  }
+
+  async findByTokenHash(tokenHash: string): Promise<AuthSessionMatch | null> {
+    const row = await prisma.adminSession.findFirst({
+      where: {
+        OR: [{ tokenHash }, { previousTokenHash: tokenHash }],
+      },
+    });
+    if (!row) return null;
+    return {
+      session: this.toEntity(row),
+      current: row.tokenHash === tokenHash,
+      rotatedAt: row.rotatedAt,
+    };
+  }
+
+  async rotate(
+    id: string,
+    currentHash: string,
+    newHash: string,
+    expiresAt: Date,
+    now: Date,
+  ): Promise<boolean> {
+    const { count } = await prisma.adminSession.updateMany({
+      where: { id, tokenHash: currentHash, revokedAt: null },
+      data: {
+        tokenHash: newHash,
+        previousTokenHash: currentHash,
+        rotatedAt: now,
+        lastUsedAt: now,
+        expiresAt,
+      },
+    });
+    return count > 0;
+  }
+
+  async isActive(id: string, now: Date): Promise<boolean> {
+    const count = await prisma.adminSession.count({
+      where: { id, revokedAt: null, expiresAt: { gt: now } },
+    });
+    return count > 0;
+  }
+
+  async listActive(adminId: string, now: Date): Promise<AuthSession[]> {
+    const rows = await prisma.adminSession.findMany({
+      where: { adminId, revokedAt: null, expiresAt: { gt: now } },
+      orderBy: { lastUsedAt: "desc" },
+    });
+    return rows.map((r) => this.toEntity(r));
+  }
+
+  async revoke(id: string, adminId: string): Promise<boolean> {
+    const { count } = await prisma.adminSession.updateMany({
+      where: { id, adminId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+    return count > 0;
+  }
+
+  async revokeAll(adminId: string): Promise<number> {
+    const { count } = await prisma.adminSession.updateMany({
+      where: { adminId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+    return count;
+  }
+
+  private toEntity(raw: PrismaAdminSession): AuthSession {
+    return {
+      id: raw.id,
+      adminId: raw.adminId,
+      userAgent: raw.userAgent,
+      ipAddress: raw.ipAddress,
+      createdAt: raw.createdAt,
+      lastUsedAt: raw.lastUsedAt,
+      expiresAt: raw.expiresAt,
+      revokedAt: raw.revokedAt,
+    };
+  }
+}
@@ -8,12 +8,25 @@ import type {
   CatalogProduct,
   CatalogImage,
   CatalogVariant,
+  CatalogOptionGroup,
 } from "@/domain/catalog/types";
 import type { PricingType } from "@/domain/product/Product";
+import type { ProductOptionGroupType } from "@/domain/product/ProductOption";
+import { availableStock } from "@/domain/product/ProductStock";
+import { mergeAvailability } from "@/domain/product/ProductAvailability";
+import { AVAILABILITY_SELECT, toAvailabilityRule } from "./availabilityColumns";
+import {
+  PENDING_PRICE_SCHEDULES,
+  toPriceSchedule,
+} from "./priceScheduleColumns";
 import type {
   Product as PrismaProduct,
   ProductVariant as PrismaVariant,
   ProductImage as PrismaImage,
+  ProductOptionGroup as PrismaOptionGroup,
+  ProductOption as PrismaOption,
+  Category as PrismaCategory,
+  ProductPriceSchedule as PrismaPriceSchedule,
 } from "@prisma/client";
 
 /**
@@ -44,6 +57,7 @@ export class PrismaCatalogRepository implements ICatalogRepository {
         whatsapp: true,
         defaultDeliveryFee: true,
         minimumAdvanceDays: true,
+        dailyCapacity: true,
         pickupLocationName: true,
         pickupStreet: true,
         pickupNumber: true,
@@ -84,6 +98,12 @@ export class PrismaCatalogRepository implements ICatalogRepository {
       description: true,
       price: true,
       minQuantity: true,
+      stockOnHand: true,
+      stockReserved: true,
+      ...AVAILABILITY_SELECT,
+      // Rules of every category apply, hidden ones included
+      categories: { select: { category: { select: AVAILABILITY_SELECT } } },
+      priceSchedules: PENDING_PRICE_SCHEDULES,
       variants: {
         where: { isActive: true },
         orderBy: { sortOrder: "asc" as const },
@@ -94,10 +114,27 @@ export class PrismaCatalogRepository implements ICatalogRepository {
           pricingType: true,
           weightValue: true,
           weightUnit: true,
+          weightStep: true,
+          stockOnHand: true,
+          stockReserved: true,
           isActive: true,
           sortOrder: true,
         },
       },
+      optionGroups: {
+        orderBy: { sortOrder: "asc" as const },
+        select: {
+          id: true,
+          name: true,
+          type: true,
+          minSelections: true,
+          maxSelections: true,
+          options: {
+            orderBy: { sortOrder: "asc" as const },
+            select: { id: true, label: true, price: true, maxQuantity: true },
+          },
+        },
+      },
       images: {
         orderBy: { position: "asc" as const },
         select: { id: true, imageUrl: true, position: true },
@@ -158,6 +195,7 @@ export class PrismaCatalogRepository implements ICatalogRepository {
       pickupAddress,
       defaultDeliveryFee: Number(store.defaultDeliveryFee),
       minimumAdvanceDays: store.minimumAdvanceDays,
+      dailyCapacity: store.dailyCapacity,
       categories: store.categories.map(
         (c): StoreCatalogCategory => ({
           id: c.id,
@@ -175,8 +213,19 @@ export class PrismaCatalogRepository implements ICatalogRepository {
   private toProduct(
     raw: Pick<
       PrismaProduct,
-      "id" | "name" | "description" | "price" | "minQuantity"
+      | "id"
+      | "name"
+      | "description"
+      | "price"
+      | "minQuantity"
+      | "stockOnHand"
+      | "stockReserved"
+      | keyof typeof AVAILABILITY_SELECT
     > & {
+      categories: {
+        category: Pick<PrismaCategory, keyof typeof AVAILABILITY_SELECT>;
+      }[];
+      priceSchedules: PrismaPriceSchedule[];
       variants: Pick<
         PrismaVariant,
         | "id"
@@ -185,9 +234,18 @@ export class PrismaCatalogRepository implements ICatalogRepository {
         | "pricingType"
         | "weightValue"
         | "weightUnit"
+        | "weightStep"
+        | "stockOnHand"
+        | "stockReserved"
         | "isActive"
         | "sortOrder"
       >[];
+      optionGroups: (Pick<
+        PrismaOptionGroup,
+        "id" | "name" | "type" | "minSelections" | "maxSelections"
+      > & {
+        options: Pick<PrismaOption, "id" | "label" | "price" | "maxQuantity">[];
+      })[];
       images: Pick<PrismaImage, "id" | "imageUrl" | "position">[];
     },
   ): CatalogProduct {
@@ -197,15 +255,46 @@ export class PrismaCatalogRepository implements ICatalogRepository {
       position: img.position,
     }));
 
+    // A variant without its own count draws from the product's stock
+    const stockAvailable = availableStock(raw);
+    const variants = raw.variants.map((v) => this.toVariant(v, stockAvailable));
+
     return {
       id: raw.id,
       name: raw.name,
       description: raw.description,
       price: raw.price !== null ? Number(raw.price) : null,
+      originalPrice: null,
+      priceSchedules: raw.priceSchedules.map(toPriceSchedule),
       minQuantity: raw.minQuantity,
+      stockAvailable,
+      soldOut:
+        variants.length > 0
+          ? variants.every((v) => v.stockAvailable === 0)
+          : stockAvailable === 0,
+      availability: mergeAvailability(
+        toAvailabilityRule(raw),
+        raw.categories.map((c) => toAvailabilityRule(c.category)),
+      ),
+      unavailableReason: null,
       mainImageUrl: imageMapped[0]?.imageUrl ?? null,
       images: imageMapped,
-      variants: raw.variants.map((v) => this.toVariant(v)),
+      variants,
+      optionGroups: raw.optionGroups.map(
+        (g): CatalogOptionGroup => ({
+          id: g.id,
+          name: g.name,
+          type: g.type as ProductOptionGroupType,
+          minSelections: g.minSelections,
+          maxSelections: g.maxSelections,
+          options: g.options.map((o) => ({
+            id: o.id,
+            label: o.label,
+            price: Number(o.price),
+            maxQuantity: o.maxQuantity,
+          })),
+        }),
+      ),
     };
   }
 
@@ -218,17 +307,24 @@ export class PrismaCatalogRepository implements ICatalogRepository {
       | "pricingType"
       | "weightValue"
       | "weightUnit"
+      | "weightStep"
+      | "stockOnHand"
+      | "stockReserved"
       | "isActive"
       | "sortOrder"
     >,
+    productStockAvailable: number | null,
   ): CatalogVariant {
     return {
       id: raw.id,
       label: raw.label,
       price: Number(raw.price),
+      originalPrice: null,
       pricingType: raw.pricingType as PricingType,
       weightValue: raw.weightValue !== null ? Number(raw.weightValue) : null,
       weightUnit: raw.weightUnit ?? null,
+      weightStep: raw.weightStep !== null ? Number(raw.weightStep) : null,
+      stockAvailable: availableStock(raw) ?? productStockAvailable,
       isActive: raw.isActive,
       sortOrder: raw.sortOrder,
     };
@@ -10,6 +10,7 @@ import type {
   Category as PrismaCategory,
   ProductCategory as PrismaProductCategory,
 } from "@prisma/client";
+import { availabilityData, toAvailabilityRule } from "./availabilityColumns";
 
 type PrismaCategoryWithCount = PrismaCategory & {
   _count: { products: number };
@@ -23,6 +24,7 @@ export class PrismaCategoryRepository implements ICategoryRepository {
       name: raw.name,
       slug: raw.slug,
       position: raw.position,
+      availability: toAvailabilityRule(raw),
       isActive: raw.isActive,
       createdAt: raw.createdAt,
       updatedAt: raw.updatedAt,
@@ -86,6 +88,7 @@ export class PrismaCategoryRepository implements ICategoryRepository {
         ...(input.name !== undefined && { name: input.name }),
         ...(input.slug !== undefined && { slug: input.slug }),
         ...(input.isActive !== undefined && { isActive: input.isActive }),
+        ...(input.availability && availabilityData(input.availability)),
       },
     });
     return this.toEntity(raw);
@@ -0,0 +1,170 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/infra/prisma";
+import type { ICouponRepository } from "@/domain/coupon/ICouponRepository";
+import {
+  CouponDiscountType,
+  CouponScope,
+  type Coupon,
+  type CouponWithUsage,
+  type CreateCouponInput,
+} from "@/domain/coupon/Coupon";
+import { AppError } from "@/shared/errors/AppError";
+import { HttpStatus } from "@/shared/http/statuses";
+import { REDEEMING_ORDERS } from "./couponRedemption";
+
+/**
+ * PrismaCouponRepository — concrete ICouponRepository.
+ *
+ * ─ All queries are scoped by storeId to enforce multi-tenancy.
+ * ─ Decimal fields (discountValue, minSubtotal) are cast with Number().
+ * ─ A duplicate code (P2002 on storeId + code) becomes AppError(CONFLICT).
+ */
+export class PrismaCouponRepository implements ICouponRepository {
+  // ─── Mapping ──────────────────────────────────────────────────────────────
+
+  private toEntity(raw: {
+    id: string;
+    storeId: string;
+    code: string;
+    discountType: string;
+    discountValue: { toNumber(): number };
+    scope: string;
+    productId: string | null;
+    categoryId: string | null;
+    startsAt: Date | null;
+    endsAt: Date | null;
+    maxUses: number | null;
+    maxUsesPerCustomer: number | null;
+    minSubtotal: { toNumber(): number } | null;
+    freeDelivery: boolean;
+    isActive: boolean;
+    createdAt: Date;
+    updatedAt: Date;
+  }): Coupon {
+    return {
+      id: raw.id,
+      storeId: raw.storeId,
+      code: raw.code,
+      discountType: raw.discountType as CouponDiscountType,
+      discountValue: Number(raw.discountValue),
+      scope: raw.scope as CouponScope,
+      productId: raw.productId,
+      categoryId: raw.categoryId,
+      startsAt: raw.startsAt,
+      endsAt: raw.endsAt,
+      maxUses: raw.maxUses,
+      maxUsesPerCustomer: raw.maxUsesPerCustomer,
+      minSubtotal: raw.minSubtotal !== null ? Number(raw.minSubtotal) : null,
+      freeDelivery: raw.freeDelivery,
+      isActive: raw.isActive,
+      createdAt: raw.createdAt,
+      updatedAt: raw.updatedAt,
+    };
+  }
+
+  // ─── Queries ──────────────────────────────────────────────────────────────
+
+  async findByStore(storeId: string): Promise<CouponWithUsage[]> {
+    const rows = await prisma.coupon.findMany({
+      where: { storeId },
+      include: {
+        _count: { select: { orders: { where: REDEEMING_ORDERS } } },
+      },
+      orderBy: { createdAt: "desc" },
+    });
+
+    return rows.map((r) => ({
+      ...this.toEntity(r),
+      usageCount: r._count.orders,
+    }));
+  }
+
+  async findByCode(storeId: string, code: string): Promise<Coupon | null> {
+    const row = await prisma.coupon.findUnique({
+      where: { storeId_code: { storeId, code } },
+    });
+
+    return row ? this.toEntity(row) : null;
+  }
+
+  async findById(id: string, storeId: string): Promise<Coupon | null> {
+    const row = await prisma.coupon.findFirst({ where: { id, storeId } });
+
+    return row ? this.toEntity(row) : null;
+  }
+
+  async countRedemptions(
+    couponId: string,
+    customerWhatsapp?: string,
+  ): Promise<number> {
+    return prisma.order.count({
+      where: {
+        couponId,
+        ...REDEEMING_ORDERS,
+        ...(customerWhatsapp && {
+          customer: { whatsapp: customerWhatsapp },
+        }),
+      },
+    });
+  }
+
+  // ─── Mutations ─────────────────────────────────────────────────────────────
+
+  async create(input: CreateCouponInput): Promise<Coupon> {
+    try {
+      const row = await prisma.coupon.create({
+        data: {
+          storeId: input.storeId,
+          code: input.code,
+          discountType: input.discountType,
+          discountValue: input.discountValue,
+          scope: input.scope,
+          productId: input.productId ?? null,
+          categoryId: input.categoryId ?? null,
+          startsAt: input.startsAt ?? null,
+          endsAt: input.endsAt ?? null,
+          maxUses: input.maxUses ?? null,
+          maxUsesPerCustomer: input.maxUsesPerCustomer ?? null,
+          minSubtotal: input.minSubtotal ?? null,
+          freeDelivery: input.freeDelivery ?? false,
+        },
+      });
+
+      return this.toEntity(row);
+    } catch (err) {
+      if (
+        err instanceof Prisma.PrismaClientKnownRequestError &&
+        err.code === "P2002"
+      ) {
+        throw new AppError(
+          `Já existe um cupom com o código "${input.code}".`,
+          HttpStatus.CONFLICT,
+        );
+      }
+      throw err;
+    }
+  }
+
+  async setActive(
+    id: string,
+    storeId: string,
+    isActive: boolean,
+  ): Promise<Coupon | null> {
+    const result = await prisma.coupon.updateMany({
+      where: { id, storeId },
+      data: { isActive },
+    });
+
+    if (result.count === 0) return null;
+
+    const row = await prisma.coupon.findFirst({ where: { id, storeId } });
+    return row ? this.toEntity(row) : null;
+  }
+
+  async delete(id: string, storeId: string): Promise<boolean> {
+    const result = await prisma.coupon.deleteMany({
+      where: { id, storeId },
+    });
+    return result.count > 0;
+  }
+}
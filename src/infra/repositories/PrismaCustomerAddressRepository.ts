@@ -0,0 +1,52 @@
+import type { CustomerAddress as PrismaCustomerAddress } from "@prisma/client";
+import { prisma } from "@/infra/prisma";
+import type { ICustomerAddressRepository } from "@/domain/customer/ICustomerAddressRepository";
+import type {
+  CreateCustomerAddressInput,
+  CustomerAddress,
+} from "@/domain/customer/CustomerAddress";
+
+/**
+ * PrismaCustomerAddressRepository
+ *
+ * Implements ICustomerAddressRepository using Prisma.
+ */
+export class PrismaCustomerAddressRepository implements ICustomerAddressRepository {
+  async listByCustomer(customerId: string): Promise<CustomerAddress[]> {
+    const rows = await prisma.customerAddress.findMany({
+      where: { customerId },
+      orderBy: { createdAt: "asc" },
+    });
+    return rows.map((r) => this.toEntity(r));
+  }
+
+  async countByCustomer(customerId: string): Promise<number> {
+    return prisma.customerAddress.count({ where: { customerId } });
+  }
+
+  async create(input: CreateCustomerAddressInput): Promise<CustomerAddress> {
+    const row = await prisma.customerAddress.create({ data: input });
+    return this.toEntity(row);
+  }
+
+  async delete(id: string, customerId: string): Promise<boolean> {
+    const { count } = await prisma.customerAddress.deleteMany({
+      where: { id, customerId },
+    });
+    return count > 0;
+  }
+
+  private toEntity(row: PrismaCustomerAddress): CustomerAddress {
+    return {
+      id: row.id,
+      customerId: row.customerId,
+      label: row.label,
+      cep: row.cep,
+      street: row.street,
+      number: row.number,
+      neighborhood: row.neighborhood,
+      city: row.city,
+      createdAt: row.createdAt,
+    };
+  }
+}
@@ -0,0 +1,64 @@
+import type { CustomerLoginCode as PrismaCustomerLoginCode } from "@prisma/client";
+import { prisma } from "@/infra/prisma";
+import type { ICustomerLoginCodeRepository } from "@/domain/customer/ICustomerLoginCodeRepository";
+import type {
+  CustomerLoginCode,
+  IssueCustomerLoginCodeInput,
+} from "@/domain/customer/CustomerLoginCode";
+
+/**
+ * PrismaCustomerLoginCodeRepository
+ *
+ * Implements ICustomerLoginCodeRepository using Prisma.  A number keeps at
+ * most one code: issuing deletes the previous one in the same transaction.
+ */
+export class PrismaCustomerLoginCodeRepository implements ICustomerLoginCodeRepository {
+  async issue(input: IssueCustomerLoginCodeInput): Promise<void> {
+    await prisma.$transaction([
+      prisma.customerLoginCode.deleteMany({
+        where: { storeId: input.storeId, whatsapp: input.whatsapp },
+      }),
+      prisma.customerLoginCode.create({ data: input }),
+    ]);
+  }
+
+  async findCurrent(
+    storeId: string,
+    whatsapp: string,
+  ): Promise<CustomerLoginCode | null> {
+    const row = await prisma.customerLoginCode.findFirst({
+      where: { storeId, whatsapp },
+      orderBy: { createdAt: "desc" },
+    });
+    return row ? this.toEntity(row) : null;
+  }
+
+  async claimAttempt(id: string, maxAttempts: number): Promise<boolean> {
+    // One conditional UPDATE: concurrent guesses cannot share an attempt,
+    // and a code deleted meanwhile is a miss, not a P2025
+    const { count } = await prisma.customerLoginCode.updateMany({
+      where: { id, attempts: { lt: maxAttempts } },
+      data: { attempts: { increment: 1 } },
+    });
+    return count > 0;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const { count } = await prisma.customerLoginCode.deleteMany({
+      where: { id },
+    });
+    return count > 0;
+  }
+
+  private toEntity(row: PrismaCustomerLoginCode): CustomerLoginCode {
+    return {
+      id: row.id,
+      storeId: row.storeId,
+      whatsapp: row.whatsapp,
+      codeHash: row.codeHash,
+      attempts: row.attempts,
+      expiresAt: row.expiresAt,
+      createdAt: row.createdAt,
+    };
+  }
+}
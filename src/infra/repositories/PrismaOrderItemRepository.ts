@@ -1,9 +1,18 @@
+import type { Prisma } from "@prisma/client";
 import { prisma } from "@/infra/prisma";
 import type { IOrderItemRepository } from "@/domain/order/IOrderItemRepository";
 import {
   type OrderItem,
   type CreateOrderItemInput,
 } from "@/domain/order/OrderItem";
+import type { OrderItemOption } from "@/domain/product/ProductOption";
+
+/** Option snapshot for the JSON column — left null when nothing was chosen. */
+function optionsJson(
+  options: OrderItemOption[] | undefined,
+): Prisma.InputJsonValue | undefined {
+  return options?.length ? options.map((o) => ({ ...o })) : undefined;
+}
 
 /**
  * PrismaOrderItemRepository — concrete implementation of IOrderItemRepository.
@@ -27,6 +36,11 @@ export class PrismaOrderItemRepository implements IOrderItemRepository {
     variantId: string | null;
     productName: string;
     variantLabel: string | null;
+    options: Prisma.JsonValue;
+    notes: string | null;
+    weightKg: { toNumber(): number } | null;
+    pricePerKg: { toNumber(): number } | null;
+    finalWeightKg: { toNumber(): number } | null;
     quantity: number;
     unitPrice: { toNumber(): number };
     discountAmount: { toNumber(): number };
@@ -39,6 +53,12 @@ export class PrismaOrderItemRepository implements IOrderItemRepository {
       variantId: raw.variantId,
       productName: raw.productName,
       variantLabel: raw.variantLabel,
+      options: (raw.options as unknown as OrderItemOption[] | null) ?? [],
+      notes: raw.notes,
+      weightKg: raw.weightKg !== null ? Number(raw.weightKg) : null,
+      pricePerKg: raw.pricePerKg !== null ? Number(raw.pricePerKg) : null,
+      finalWeightKg:
+        raw.finalWeightKg !== null ? Number(raw.finalWeightKg) : null,
       quantity: raw.quantity,
       unitPrice: Number(raw.unitPrice),
       discountAmount: Number(raw.discountAmount),
@@ -69,6 +89,11 @@ export class PrismaOrderItemRepository implements IOrderItemRepository {
         variantId: item.variantId ?? null,
         productName: item.productName,
         variantLabel: item.variantLabel ?? null,
+        options: optionsJson(item.options),
+        notes: item.notes ?? null,
+        weightKg: item.weightKg ?? null,
+        pricePerKg: item.pricePerKg ?? null,
+        finalWeightKg: item.finalWeightKg ?? null,
         quantity: item.quantity,
         unitPrice: item.unitPrice,
         discountAmount: item.discountAmount ?? 0,
@@ -97,6 +122,11 @@ export class PrismaOrderItemRepository implements IOrderItemRepository {
           variantId: item.variantId ?? null,
           productName: item.productName,
           variantLabel: item.variantLabel ?? null,
+          options: optionsJson(item.options),
+          notes: item.notes ?? null,
+          weightKg: item.weightKg ?? null,
+          pricePerKg: item.pricePerKg ?? null,
+          finalWeightKg: item.finalWeightKg ?? null,
           quantity: item.quantity,
           unitPrice: item.unitPrice,
           discountAmount: item.discountAmount ?? 0,
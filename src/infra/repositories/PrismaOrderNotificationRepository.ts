@@ -0,0 +1,79 @@
+import { prisma } from "@/infra/prisma";
+import type { IOrderNotificationRepository } from "@/domain/notification/IOrderNotificationRepository";
+import {
+  NotificationStatus,
+  type CreateOrderNotificationInput,
+  type OrderNotification,
+  type OrderNotificationEvent,
+} from "@/domain/notification/OrderNotification";
+
+/**
+ * PrismaOrderNotificationRepository
+ *
+ * Concrete implementation of IOrderNotificationRepository backed by the
+ * append-only `order_notifications` table.
+ */
+export class PrismaOrderNotificationRepository implements IOrderNotificationRepository {
+  private toEntity(raw: {
+    id: string;
+    storeId: string;
+    orderId: string;
+    event: string;
+    channel: string;
+    recipient: string;
+    body: string;
+    status: string;
+    providerMessageId: string | null;
+    error: string | null;
+    createdAt: Date;
+  }): OrderNotification {
+    return {
+      id: raw.id,
+      storeId: raw.storeId,
+      orderId: raw.orderId,
+      event: raw.event as OrderNotificationEvent,
+      channel: raw.channel,
+      recipient: raw.recipient,
+      body: raw.body,
+      status: raw.status as NotificationStatus,
+      providerMessageId: raw.providerMessageId,
+      error: raw.error,
+      createdAt: raw.createdAt,
+    };
+  }
+
+  async create(
+    input: CreateOrderNotificationInput,
+  ): Promise<OrderNotification> {
+    const row = await prisma.orderNotification.create({ data: input });
+    return this.toEntity(row);
+  }
+
+  async findByOrder(
+    orderId: string,
+    storeId: string,
+  ): Promise<OrderNotification[]> {
+    const rows = await prisma.orderNotification.findMany({
+      where: { orderId, storeId },
+      orderBy: { createdAt: "asc" },
+    });
+    return rows.map((r) => this.toEntity(r));
+  }
+
+  async findOrderIdsWithSent(
+    orderIds: string[],
+    event: OrderNotificationEvent,
+  ): Promise<Set<string>> {
+    if (orderIds.length === 0) return new Set();
+    const rows = await prisma.orderNotification.findMany({
+      where: {
+        orderId: { in: orderIds },
+        event,
+        status: NotificationStatus.SENT,
+      },
+      select: { orderId: true },
+      distinct: ["orderId"],
+    });
+    return new Set(rows.map((r) => r.orderId));
+  }
+}
@@ -1,3 +1,5 @@
+import { randomBytes } from "node:crypto";
+import { Prisma } from "@prisma/client";
 import { prisma } from "@/infra/prisma";
 import type { IOrderRepository } from "@/domain/order/IOrderRepository";
 import {
@@ -6,13 +8,63 @@ import {
   type CreateOrderInput,
   type UpdateOrderInput,
   type OrderFilters,
+  type PlaceOrderRecord,
   OrderStatus,
   OrderTrackingStatus,
   FulfillmentType,
   canTransitionTo,
   canTrackingTransitionTo,
 } from "@/domain/order/Order";
-import type { OrderItem } from "@/domain/order/OrderItem";
+import { computeOrderTotal, type OrderItem } from "@/domain/order/OrderItem";
+import type { OrderItemOption } from "@/domain/product/ProductOption";
+import {
+  type OrderChangeContext,
+  OrderStatusLogField,
+  SYSTEM_CHANGE,
+} from "@/domain/order/OrderStatusLog";
+import type { PickupSlotUsage } from "@/domain/pickupSlot/StorePickupSlot";
+import { StockMovementType } from "@/domain/product/ProductStock";
+import { reserveOrderStock, settleOrderStock } from "./stockLedger";
+import { assertCouponRedeemable } from "./couponRedemption";
+import {
+  assertPickupSlotFits,
+  queryPickupSlotUsage,
+} from "./pickupSlotCapacity";
+import { assertProductionCapacity } from "./productionCapacity";
+
+// ─── Audit snapshots ──────────────────────────────────────────────────────────
+
+/** JSON-safe, comparable form of a column value (Dates and Decimals). */
+function snapshotValue(value: unknown): string | number | null {
+  if (value === null || value === undefined) return null;
+  if (value instanceof Date) return value.toISOString();
+  if (value instanceof Prisma.Decimal) return value.toNumber();
+  return value as string | number;
+}
+
+/** One item line as it appears in a DETAILS log, e.g. "2x Bolo (Grande)". */
+function describeItem(item: {
+  productName: string;
+  variantLabel?: string | null;
+  quantity: number;
+}): string {
+  return `${item.quantity}x ${item.productName}${item.variantLabel ? ` (${item.variantLabel})` : ""}`;
+}
+
+/** A weighing as it appears in a DETAILS log, e.g. "Bolo (Grande): 1.25 kg". */
+function describeWeighing(
+  item: { productName: string; variantLabel?: string | null },
+  finalWeightKg: number | null,
+): string {
+  return `${item.productName}${item.variantLabel ? ` (${item.variantLabel})` : ""}: ${finalWeightKg === null ? "—" : `${finalWeightKg} kg`}`;
+}
+
+/** Option snapshot for the JSON column — left null when nothing was chosen. */
+function optionsJson(
+  options: OrderItemOption[] | undefined,
+): Prisma.InputJsonValue | undefined {
+  return options?.length ? options.map((o) => ({ ...o })) : undefined;
+}
 
 /**
  * PrismaOrderRepository — concrete implementation of IOrderRepository.
@@ -24,7 +76,14 @@ import type { OrderItem } from "@/domain/order/OrderItem";
  * ─ updateStatus() enforces the state machine via canTransitionTo() before
  *   writing.  The domain throws a plain Error on an invalid transition so
  *   HTTP controllers can catch it and return 409 Conflict.
- * ─ update() / delete() return null / false (P2025 safety — record not found).
+ * ─ update() / delete() return null / false when the record is not found.
+ * ─ placeWithItems() writes customer, order and items in ONE transaction and
+ *   resolves an idempotency-key collision (P2002) to the existing order.
+ * ─ Every command appends an OrderStatusLog entry in the same transaction as
+ *   the change, so the audit trail can never drift from the order itself.
+ * ─ Stock follows the order in the same transaction (stockLedger): reserved
+ *   on placement and edits, released on REJECTED / CANCELLED / deletion,
+ *   consumed on DELIVERED.
  * ─ All queries are scoped by storeId to enforce multi-tenancy.
  */
 export class PrismaOrderRepository implements IOrderRepository {
@@ -49,6 +108,9 @@ export class PrismaOrderRepository implements IOrderRepository {
     deliveryFee: { toNumber(): number };
     status: string;
     orderStatus: string | null;
+    trackingToken: string;
+    couponId: string | null;
+    couponCode: string | null;
     createdAt: Date;
     updatedAt: Date;
   }): Order {
@@ -73,6 +135,9 @@ export class PrismaOrderRepository implements IOrderRepository {
       orderStatus: raw.orderStatus
         ? (raw.orderStatus as OrderTrackingStatus)
         : null,
+      trackingToken: raw.trackingToken,
+      couponId: raw.couponId,
+      couponCode: raw.couponCode,
       createdAt: raw.createdAt,
       updatedAt: raw.updatedAt,
     };
@@ -85,6 +150,11 @@ export class PrismaOrderRepository implements IOrderRepository {
     variantId: string | null;
     productName: string;
     variantLabel: string | null;
+    options: Prisma.JsonValue;
+    notes: string | null;
+    weightKg: { toNumber(): number } | null;
+    pricePerKg: { toNumber(): number } | null;
+    finalWeightKg: { toNumber(): number } | null;
     quantity: number;
     unitPrice: { toNumber(): number };
     discountAmount: { toNumber(): number };
@@ -102,6 +172,12 @@ export class PrismaOrderRepository implements IOrderRepository {
       variantId: raw.variantId,
       productName: raw.productName,
       variantLabel: raw.variantLabel,
+      options: (raw.options as unknown as OrderItemOption[] | null) ?? [],
+      notes: raw.notes,
+      weightKg: raw.weightKg !== null ? Number(raw.weightKg) : null,
+      pricePerKg: raw.pricePerKg !== null ? Number(raw.pricePerKg) : null,
+      finalWeightKg:
+        raw.finalWeightKg !== null ? Number(raw.finalWeightKg) : null,
       quantity: raw.quantity,
       unitPrice: Number(raw.unitPrice),
       discountAmount: Number(raw.discountAmount),
@@ -287,165 +363,502 @@ export class PrismaOrderRepository implements IOrderRepository {
     return rows.map((r) => this.toEntity(r));
   }
 
+  async findByIdempotencyKey(
+    storeId: string,
+    idempotencyKey: string,
+  ): Promise<OrderWithDetails | null> {
+    const row = await prisma.order.findUnique({
+      where: { storeId_idempotencyKey: { storeId, idempotencyKey } },
+      select: { id: true },
+    });
+    return row ? this.findByIdWithDetails(row.id, storeId) : null;
+  }
+
+  async findOpenApprovedForDeliveryRange(
+    from: Date,
+    to: Date,
+  ): Promise<Pick<Order, "id" | "storeId">[]> {
+    return prisma.order.findMany({
+      where: {
+        deliveryDate: { gte: from, lte: to },
+        status: OrderStatus.APPROVED,
+        OR: [
+          { orderStatus: null },
+          {
+            orderStatus: {
+              notIn: [
+                OrderTrackingStatus.DELIVERED,
+                OrderTrackingStatus.CANCELLED,
+              ],
+            },
+          },
+        ],
+      },
+      select: { id: true, storeId: true },
+      orderBy: { deliveryDate: "asc" },
+    });
+  }
+
+  async findByTrackingToken(
+    trackingToken: string,
+    storeId: string,
+  ): Promise<OrderWithDetails | null> {
+    const row = await prisma.order.findUnique({
+      where: { trackingToken },
+      select: { id: true, storeId: true },
+    });
+    return row && row.storeId === storeId
+      ? this.findByIdWithDetails(row.id, storeId)
+      : null;
+  }
+
+  async findLatestWithDetails(
+    storeId: string,
+  ): Promise<OrderWithDetails | null> {
+    const row = await prisma.order.findFirst({
+      where: { storeId },
+      orderBy: { createdAt: "desc" },
+      select: { id: true },
+    });
+    return row ? this.findByIdWithDetails(row.id, storeId) : null;
+  }
+
+  async getPickupSlotUsage(
+    storeId: string,
+    range: { from: Date; to: Date; pickupSlotIds?: string[] },
+  ): Promise<PickupSlotUsage[]> {
+    return queryPickupSlotUsage(prisma, storeId, range);
+  }
+
   // ─── Commands ────────────────────────────────────────────────────────────────
 
+  /** Appends one audit entry for a change made inside the transaction. */
+  private async logInTx(
+    tx: Prisma.TransactionClient,
+    order: { id: string; storeId: string },
+    change: OrderChangeContext,
+    entry: {
+      field: OrderStatusLogField;
+      fromValue: string | null;
+      toValue: string | null;
+    },
+  ): Promise<void> {
+    await tx.orderStatusLog.create({
+      data: {
+        storeId: order.storeId,
+        orderId: order.id,
+        ...entry,
+        actorType: change.actorType,
+        actorId: change.actorId,
+        reason: change.reason || null,
+      },
+    });
+  }
+
+  /**
+   * Creates the order row inside an open transaction.
+   *
+   * Atomically increments the per-store order counter first.
+   * upsert: if no counter row exists yet, create it at 1;
+   * otherwise increment lastNumber by 1 and return the new value.
+   * Both operations run inside the caller's transaction so two concurrent
+   * creates for the same store can never share a number.
+   * The creation entry of the audit trail is written in the same transaction.
+   */
+  private async createInTx(
+    tx: Prisma.TransactionClient,
+    input: CreateOrderInput,
+  ) {
+    const counter = await tx.storeOrderCounter.upsert({
+      where: { storeId: input.storeId },
+      create: { storeId: input.storeId, lastNumber: 1 },
+      update: { lastNumber: { increment: 1 } },
+    });
+
+    const order = await tx.order.create({
+      data: {
+        storeId: input.storeId,
+        customerId: input.customerId,
+        deliveryDate: input.deliveryDate,
+        fulfillmentType: input.fulfillmentType,
+        pickupTime: input.pickupTime ?? null,
+        pickupSlotId: input.pickupSlotId ?? null,
+        deliveryCep: input.deliveryCep ?? null,
+        deliveryStreet: input.deliveryStreet ?? null,
+        deliveryNumber: input.deliveryNumber ?? null,
+        deliveryNeighborhood: input.deliveryNeighborhood ?? null,
+        deliveryCity: input.deliveryCity ?? null,
+        shippingAddress: input.shippingAddress ?? null,
+        notes: input.notes ?? null,
+        orderNumber: counter.lastNumber,
+        deliveryFee: input.deliveryFee ?? 0,
+        idempotencyKey: input.idempotencyKey ?? null,
+        couponId: input.couponId ?? null,
+        couponCode: input.couponCode ?? null,
+        // 192 random bits — the only credential of the public tracking page.
+        trackingToken: randomBytes(24).toString("base64url"),
+        // status defaults to PENDING via the Prisma model default
+      },
+    });
+
+    // Creation opens the audit trail — orders are placed by the platform
+    await this.logInTx(tx, order, SYSTEM_CHANGE, {
+      field: OrderStatusLogField.STATUS,
+      fromValue: null,
+      toValue: OrderStatus.PENDING,
+    });
+
+    return order;
+  }
+
   async create(input: CreateOrderInput): Promise<Order> {
-    return prisma.$transaction(async (tx) => {
-      // Atomically increment the per-store order counter.
-      // upsert: if no counter row exists yet, create it at 1;
-      // otherwise increment lastNumber by 1 and return the new value.
-      // Both operations run inside the same serialisable transaction so
-      // two concurrent creates for the same store can never share a number.
-      const counter = await tx.storeOrderCounter.upsert({
-        where: { storeId: input.storeId },
-        create: { storeId: input.storeId, lastNumber: 1 },
-        update: { lastNumber: { increment: 1 } },
-      });
+    return prisma.$transaction(async (tx) =>
+      this.toEntity(await this.createInTx(tx, input)),
+    );
+  }
 
-      const row = await tx.order.create({
-        data: {
-          storeId: input.storeId,
-          customerId: input.customerId,
-          deliveryDate: input.deliveryDate,
-          fulfillmentType: input.fulfillmentType,
-          pickupTime: input.pickupTime ?? null,
-          pickupSlotId: input.pickupSlotId ?? null,
-          deliveryCep: input.deliveryCep ?? null,
-          deliveryStreet: input.deliveryStreet ?? null,
-          deliveryNumber: input.deliveryNumber ?? null,
-          deliveryNeighborhood: input.deliveryNeighborhood ?? null,
-          deliveryCity: input.deliveryCity ?? null,
-          shippingAddress: input.shippingAddress ?? null,
-          notes: input.notes ?? null,
-          orderNumber: counter.lastNumber,
-          deliveryFee: input.deliveryFee ?? 0,
-          // status defaults to PENDING via the Prisma model default
-        },
+  async placeWithItems(record: PlaceOrderRecord): Promise<OrderWithDetails> {
+    const { storeId, idempotencyKey } = record.order;
+
+    let orderId: string;
+    try {
+      orderId = await prisma.$transaction(async (tx) => {
+        // Find-or-create the customer by (whatsapp, storeId).
+        // An existing customer keeps the name they registered with.
+        const customer = await tx.customer.upsert({
+          where: {
+            whatsapp_storeId: {
+              whatsapp: record.customer.whatsapp,
+              storeId,
+            },
+          },
+          create: {
+            storeId,
+            name: record.customer.name,
+            whatsapp: record.customer.whatsapp,
+          },
+          update: {},
+          select: { id: true },
+        });
+
+        if (record.order.couponId) {
+          await assertCouponRedeemable(
+            tx,
+            record.order.couponId,
+            record.customer.whatsapp,
+          );
+        }
+        await assertPickupSlotFits(tx, record);
+        await assertProductionCapacity(tx, record);
+
+        const order = await this.createInTx(tx, {
+          ...record.order,
+          customerId: customer.id,
+        });
+
+        await tx.orderItem.createMany({
+          data: record.items.map((item) => ({
+            orderId: order.id,
+            productId: item.productId,
+            variantId: item.variantId ?? null,
+            productName: item.productName,
+            variantLabel: item.variantLabel ?? null,
+            options: optionsJson(item.options),
+            notes: item.notes ?? null,
+            weightKg: item.weightKg ?? null,
+            pricePerKg: item.pricePerKg ?? null,
+            finalWeightKg: item.finalWeightKg ?? null,
+            quantity: item.quantity,
+            unitPrice: item.unitPrice,
+            discountAmount: item.discountAmount ?? 0,
+          })),
+        });
+
+        await reserveOrderStock(tx, order, record.items, null);
+
+        return order.id;
       });
-      return this.toEntity(row);
-    });
+    } catch (err) {
+      // A concurrent request with the same idempotency key committed first —
+      // the whole transaction rolled back, so hand back the winner's order.
+      if (
+        idempotencyKey &&
+        err instanceof Prisma.PrismaClientKnownRequestError &&
+        err.code === "P2002"
+      ) {
+        const existing = await this.findByIdempotencyKey(
+          storeId,
+          idempotencyKey,
+        );
+        if (existing) return existing;
+      }
+      throw err;
+    }
+
+    const placed = await this.findByIdWithDetails(orderId, storeId);
+    if (!placed) {
+      throw new Error(`Order ${orderId} not found right after creation.`);
+    }
+    return placed;
   }
 
   async update(
     id: string,
     storeId: string,
     input: UpdateOrderInput,
+    change: OrderChangeContext,
   ): Promise<Order | null> {
-    try {
-      const data: Partial<{
-        deliveryDate: Date;
-        fulfillmentType: FulfillmentType;
-        pickupTime: string | null;
-        pickupSlotId: string | null;
-        deliveryCep: string | null;
-        deliveryStreet: string | null;
-        deliveryNumber: string | null;
-        deliveryNeighborhood: string | null;
-        deliveryCity: string | null;
-        shippingAddress: string | null;
-      }> = {};
-
-      if (input.deliveryDate !== undefined)
-        data.deliveryDate = input.deliveryDate;
-      if (input.fulfillmentType !== undefined)
-        data.fulfillmentType = input.fulfillmentType;
-      if (input.pickupTime !== undefined) data.pickupTime = input.pickupTime;
-      if (input.pickupSlotId !== undefined)
-        data.pickupSlotId = input.pickupSlotId;
-      if (input.deliveryCep !== undefined) data.deliveryCep = input.deliveryCep;
-      if (input.deliveryStreet !== undefined)
-        data.deliveryStreet = input.deliveryStreet;
-      if (input.deliveryNumber !== undefined)
-        data.deliveryNumber = input.deliveryNumber;
-      if (input.deliveryNeighborhood !== undefined)
-        data.deliveryNeighborhood = input.deliveryNeighborhood;
-      if (input.deliveryCity !== undefined)
-        data.deliveryCity = input.deliveryCity;
-      if (input.shippingAddress !== undefined)
-        data.shippingAddress = input.shippingAddress;
-
-      const row = await prisma.order.update({
+    const { items, ...fields } = input;
+    // Only the fields present in the input are written
+    const data = Object.fromEntries(
+      Object.entries(fields).filter(([, value]) => value !== undefined),
+    ) as Omit<UpdateOrderInput, "items">;
+
+    return prisma.$transaction(async (tx) => {
+      const current = await tx.order.findFirst({
         where: { id, storeId },
-        data,
+        include: { items: { orderBy: { createdAt: "asc" } } },
       });
+      if (!current) return null;
+
+      const row = await tx.order.update({ where: { id }, data });
+
+      // Snapshot only what actually changed — a no-op save leaves no entry
+      const from: Record<string, unknown> = {};
+      const to: Record<string, unknown> = {};
+      for (const key of Object.keys(data) as (keyof typeof data)[]) {
+        const before = snapshotValue(current[key]);
+        const after = snapshotValue(row[key]);
+        if (before !== after) {
+          from[key] = before;
+          to[key] = after;
+        }
+      }
+
+      if (items) {
+        await tx.orderItem.deleteMany({ where: { orderId: id } });
+        await tx.orderItem.createMany({
+          data: items.map((item) => ({
+            orderId: id,
+            productId: item.productId,
+            variantId: item.variantId ?? null,
+            productName: item.productName,
+            variantLabel: item.variantLabel ?? null,
+            options: optionsJson(item.options),
+            notes: item.notes ?? null,
+            weightKg: item.weightKg ?? null,
+            pricePerKg: item.pricePerKg ?? null,
+            finalWeightKg: item.finalWeightKg ?? null,
+            quantity: item.quantity,
+            unitPrice: item.unitPrice,
+            discountAmount: item.discountAmount ?? 0,
+          })),
+        });
+
+        // Give back what the old lines held, then hold the new ones
+        await settleOrderStock(
+          tx,
+          row,
+          StockMovementType.RELEASE,
+          change.actorId,
+        );
+        await reserveOrderStock(tx, row, items, change.actorId);
+
+        const before = current.items.map(describeItem);
+        const after = items.map(describeItem);
+        if (JSON.stringify(before) !== JSON.stringify(after)) {
+          from.items = before;
+          to.items = after;
+        }
+      }
+
+      if (Object.keys(to).length > 0) {
+        await this.logInTx(tx, row, change, {
+          field: OrderStatusLogField.DETAILS,
+          fromValue: JSON.stringify(from),
+          toValue: JSON.stringify(to),
+        });
+      }
+
       return this.toEntity(row);
-    } catch {
-      // Prisma P2025 — record not found
-      return null;
-    }
+    });
+  }
+
+  async recordItemWeight(
+    orderId: string,
+    storeId: string,
+    itemId: string,
+    finalWeightKg: number,
+    change: OrderChangeContext,
+  ): Promise<OrderItem | null> {
+    return prisma.$transaction(async (tx) => {
+      const current = await tx.order.findFirst({
+        where: { id: orderId, storeId },
+        include: { items: { orderBy: { createdAt: "asc" } } },
+      });
+      const item = current?.items.find((i) => i.id === itemId);
+      if (!current || !item) return null;
+
+      const updated = await tx.orderItem.update({
+        where: { id: itemId },
+        data: { finalWeightKg },
+      });
+
+      const before = current.items.map((i) => this.toItemEntity(i));
+      const after = before.map((i) =>
+        i.id === itemId ? this.toItemEntity(updated) : i,
+      );
+      const itemsTotal = (items: OrderItem[]) =>
+        Math.round(computeOrderTotal(items) * 100) / 100;
+      const from = {
+        weighing: describeWeighing(
+          item,
+          before.find((i) => i.id === itemId)?.finalWeightKg ?? null,
+        ),
+        itemsTotal: itemsTotal(before),
+      };
+      const to = {
+        weighing: describeWeighing(item, finalWeightKg),
+        itemsTotal: itemsTotal(after),
+      };
+      await this.logInTx(tx, current, change, {
+        field: OrderStatusLogField.DETAILS,
+        fromValue: JSON.stringify(from),
+        toValue: JSON.stringify(to),
+      });
+
+      return this.toItemEntity(updated);
+    });
   }
 
   async updateStatus(
     id: string,
     storeId: string,
     newStatus: OrderStatus,
+    change: OrderChangeContext,
   ): Promise<Order | null> {
-    // 1. Load current order (tenant-scoped)
-    const current = await prisma.order.findFirst({
-      where: { id, storeId },
-      select: { status: true },
-    });
+    return prisma.$transaction(async (tx) => {
+      // 1. Load current order (tenant-scoped)
+      const current = await tx.order.findFirst({
+        where: { id, storeId },
+        select: { status: true },
+      });
 
-    if (!current) return null;
+      if (!current) return null;
 
-    // 2. Validate transition against the domain state machine
-    const currentStatus = current.status as OrderStatus;
-    if (!canTransitionTo(currentStatus, newStatus)) {
-      throw new Error(
-        `Invalid status transition: ${currentStatus} → ${newStatus}.`,
-      );
-    }
+      // 2. Validate transition against the domain state machine
+      const currentStatus = current.status as OrderStatus;
+      if (!canTransitionTo(currentStatus, newStatus)) {
+        throw new Error(
+          `Invalid status transition: ${currentStatus} → ${newStatus}.`,
+        );
+      }
 
-    // 3. When approving, automatically initialise the tracking status to PENDING.
-    const row = await prisma.order.update({
-      where: { id, storeId },
-      data: {
-        status: newStatus,
-        // Set tracking to PENDING on approval; clear it on rejection
-        orderStatus:
-          newStatus === OrderStatus.APPROVED
-            ? OrderTrackingStatus.PENDING
-            : newStatus === OrderStatus.REJECTED
-              ? null
-              : undefined,
-      },
+      // 3. When approving, automatically initialise the tracking status to PENDING.
+      const row = await tx.order.update({
+        where: { id, storeId },
+        data: {
+          status: newStatus,
+          // Set tracking to PENDING on approval; clear it on rejection
+          orderStatus:
+            newStatus === OrderStatus.APPROVED
+              ? OrderTrackingStatus.PENDING
+              : newStatus === OrderStatus.REJECTED
+                ? null
+                : undefined,
+        },
+      });
+
+      // 4. Record the transition with its author and reason
+      await this.logInTx(tx, row, change, {
+        field: OrderStatusLogField.STATUS,
+        fromValue: currentStatus,
+        toValue: newStatus,
+      });
+
+      // 5. A rejected order gives its stock back
+      if (newStatus === OrderStatus.REJECTED) {
+        await settleOrderStock(
+          tx,
+          row,
+          StockMovementType.RELEASE,
+          change.actorId,
+        );
+      }
+
+      return this.toEntity(row);
     });
-    return this.toEntity(row);
   }
 
   async updateTrackingStatus(
     id: string,
     storeId: string,
     newStatus: OrderTrackingStatus,
+    change: OrderChangeContext,
   ): Promise<Order | null> {
-    const current = await prisma.order.findFirst({
-      where: { id, storeId },
-      select: { status: true, orderStatus: true },
-    });
+    return prisma.$transaction(async (tx) => {
+      const current = await tx.order.findFirst({
+        where: { id, storeId },
+        select: { status: true, orderStatus: true },
+      });
 
-    if (!current) return null;
+      if (!current) return null;
 
-    const currentTracking =
-      (current.orderStatus as OrderTrackingStatus | null) ??
-      OrderTrackingStatus.PENDING;
+      const currentTracking =
+        (current.orderStatus as OrderTrackingStatus | null) ??
+        OrderTrackingStatus.PENDING;
 
-    if (!canTrackingTransitionTo(currentTracking, newStatus)) {
-      throw new Error(
-        `Invalid tracking transition: ${currentTracking} → ${newStatus}.`,
-      );
-    }
+      if (!canTrackingTransitionTo(currentTracking, newStatus)) {
+        throw new Error(
+          `Invalid tracking transition: ${currentTracking} → ${newStatus}.`,
+        );
+      }
 
-    const row = await prisma.order.update({
-      where: { id, storeId },
-      data: { orderStatus: newStatus },
+      const row = await tx.order.update({
+        where: { id, storeId },
+        data: { orderStatus: newStatus },
+      });
+
+      await this.logInTx(tx, row, change, {
+        field: OrderStatusLogField.TRACKING_STATUS,
+        fromValue: currentTracking,
+        toValue: newStatus,
+      });
+
+      if (newStatus === OrderTrackingStatus.CANCELLED) {
+        await settleOrderStock(
+          tx,
+          row,
+          StockMovementType.RELEASE,
+          change.actorId,
+        );
+      } else if (newStatus === OrderTrackingStatus.DELIVERED) {
+        await settleOrderStock(
+          tx,
+          row,
+          StockMovementType.CONSUME,
+          change.actorId,
+        );
+      }
+
+      return this.toEntity(row);
     });
-    return this.toEntity(row);
   }
 
   async delete(id: string, storeId: string): Promise<boolean> {
     try {
-      await prisma.order.delete({ where: { id, storeId } });
-      return true;
+      return await prisma.$transaction(async (tx) => {
+        const order = await tx.order.findFirst({
+          where: { id, storeId },
+          select: { id: true, storeId: true },
+        });
+        if (!order) return false;
+
+        // Free the stock first — the movements outlive the order
+        await settleOrderStock(tx, order, StockMovementType.RELEASE, null);
+        await tx.order.delete({ where: { id, storeId } });
+        return true;
+      });
     } catch {
       return false;
     }
@@ -0,0 +1,55 @@
+import { prisma } from "@/infra/prisma";
+import type { IOrderStatusLogRepository } from "@/domain/order/IOrderStatusLogRepository";
+import {
+  OrderActorType,
+  OrderStatusLogField,
+  type OrderStatusLog,
+} from "@/domain/order/OrderStatusLog";
+
+/**
+ * PrismaOrderStatusLogRepository
+ *
+ * Read side of the append-only `order_status_logs` table.  Entries are
+ * written by PrismaOrderRepository inside the transaction of each change.
+ */
+export class PrismaOrderStatusLogRepository implements IOrderStatusLogRepository {
+  private toEntity(raw: {
+    id: string;
+    storeId: string;
+    orderId: string;
+    field: string;
+    fromValue: string | null;
+    toValue: string | null;
+    actorType: string;
+    actorId: string | null;
+    reason: string | null;
+    createdAt: Date;
+    actor: { email: string } | null;
+  }): OrderStatusLog {
+    return {
+      id: raw.id,
+      storeId: raw.storeId,
+      orderId: raw.orderId,
+      field: raw.field as OrderStatusLogField,
+      fromValue: raw.fromValue,
+      toValue: raw.toValue,
+      actorType: raw.actorType as OrderActorType,
+      actorId: raw.actorId,
+      actorEmail: raw.actor?.email ?? null,
+      reason: raw.reason,
+      createdAt: raw.createdAt,
+    };
+  }
+
+  async findByOrder(
+    orderId: string,
+    storeId: string,
+  ): Promise<OrderStatusLog[]> {
+    const rows = await prisma.orderStatusLog.findMany({
+      where: { orderId, storeId },
+      include: { actor: { select: { email: true } } },
+      orderBy: { createdAt: "asc" },
+    });
+    return rows.map((r) => this.toEntity(r));
+  }
+}
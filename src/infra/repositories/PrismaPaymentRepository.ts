@@ -0,0 +1,54 @@
+import { prisma } from "@/infra/prisma";
+import type { IPaymentRepository } from "@/domain/payment/IPaymentRepository";
+import type {
+  CreatePaymentInput,
+  Payment,
+  PaymentMethod,
+} from "@/domain/payment/Payment";
+
+/**
+ * PrismaPaymentRepository
+ *
+ * Concrete implementation of IPaymentRepository backed by the `payments`
+ * table.
+ */
+export class PrismaPaymentRepository implements IPaymentRepository {
+  private toEntity(raw: {
+    id: string;
+    storeId: string;
+    orderId: string;
+    amount: { toNumber(): number };
+    method: string;
+    paidAt: Date;
+    notes: string | null;
+    recordedById: string | null;
+    pixChargeId: string | null;
+    createdAt: Date;
+  }): Payment {
+    return {
+      id: raw.id,
+      storeId: raw.storeId,
+      orderId: raw.orderId,
+      amount: Number(raw.amount),
+      method: raw.method as PaymentMethod,
+      paidAt: raw.paidAt,
+      notes: raw.notes,
+      recordedById: raw.recordedById,
+      pixChargeId: raw.pixChargeId,
+      createdAt: raw.createdAt,
+    };
+  }
+
+  async findByOrder(orderId: string, storeId: string): Promise<Payment[]> {
+    const rows = await prisma.payment.findMany({
+      where: { orderId, storeId },
+      orderBy: [{ paidAt: "asc" }, { createdAt: "asc" }],
+    });
+    return rows.map((row) => this.toEntity(row));
+  }
+
+  async create(input: CreatePaymentInput): Promise<Payment> {
+    const row = await prisma.payment.create({ data: input });
+    return this.toEntity(row);
+  }
+}
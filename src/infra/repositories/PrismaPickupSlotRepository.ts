@@ -16,6 +16,8 @@ export class PrismaPickupSlotRepository implements IStorePickupSlotRepository {
     dayOfWeek: number;
     startTime: string;
     endTime: string;
+    maxOrders: number | null;
+    maxItems: number | null;
     isActive: boolean;
     createdAt: Date;
     updatedAt: Date;
@@ -26,6 +28,8 @@ export class PrismaPickupSlotRepository implements IStorePickupSlotRepository {
       dayOfWeek: raw.dayOfWeek,
       startTime: raw.startTime,
       endTime: raw.endTime,
+      maxOrders: raw.maxOrders,
+      maxItems: raw.maxItems,
       isActive: raw.isActive,
       createdAt: raw.createdAt,
       updatedAt: raw.updatedAt,
@@ -65,14 +69,38 @@ export class PrismaPickupSlotRepository implements IStorePickupSlotRepository {
     dayOfWeek: number,
     startTime: string,
     endTime: string,
+    capacity?: { maxOrders: number | null; maxItems: number | null },
   ): Promise<StorePickupSlot> {
     const row = await prisma.storePickupSlot.create({
-      data: { storeId, dayOfWeek, startTime, endTime },
+      data: {
+        storeId,
+        dayOfWeek,
+        startTime,
+        endTime,
+        maxOrders: capacity?.maxOrders ?? null,
+        maxItems: capacity?.maxItems ?? null,
+      },
     });
 
     return this.toEntity(row);
   }
 
+  async setCapacity(
+    id: string,
+    storeId: string,
+    maxOrders: number | null,
+    maxItems: number | null,
+  ): Promise<StorePickupSlot | null> {
+    const row = await prisma.storePickupSlot.updateMany({
+      where: { id, storeId },
+      data: { maxOrders, maxItems },
+    });
+
+    if (row.count === 0) return null;
+
+    return this.findById(id, storeId);
+  }
+
   async setActive(
     id: string,
     storeId: string,
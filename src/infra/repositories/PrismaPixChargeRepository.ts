@@ -0,0 +1,82 @@
+import { prisma } from "@/infra/prisma";
+import type { IPixChargeRepository } from "@/domain/payment/IPixChargeRepository";
+import {
+  PixChargeStatus,
+  type CreatePixChargeInput,
+  type PixCharge,
+} from "@/domain/payment/PixCharge";
+
+/**
+ * PrismaPixChargeRepository
+ *
+ * Concrete implementation of IPixChargeRepository backed by the
+ * `pix_charges` table.
+ */
+export class PrismaPixChargeRepository implements IPixChargeRepository {
+  private toEntity(raw: {
+    id: string;
+    storeId: string;
+    orderId: string;
+    provider: string;
+    providerChargeId: string;
+    amount: { toNumber(): number };
+    brCode: string;
+    qrCodeImage: string;
+    status: string;
+    expiresAt: Date | null;
+    paidAt: Date | null;
+    createdAt: Date;
+  }): PixCharge {
+    return {
+      id: raw.id,
+      storeId: raw.storeId,
+      orderId: raw.orderId,
+      provider: raw.provider,
+      providerChargeId: raw.providerChargeId,
+      amount: Number(raw.amount),
+      brCode: raw.brCode,
+      qrCodeImage: raw.qrCodeImage,
+      status: raw.status as PixChargeStatus,
+      expiresAt: raw.expiresAt,
+      paidAt: raw.paidAt,
+      createdAt: raw.createdAt,
+    };
+  }
+
+  async findLatestByOrder(
+    orderId: string,
+    storeId: string,
+  ): Promise<PixCharge | null> {
+    const row = await prisma.pixCharge.findFirst({
+      where: { orderId, storeId },
+      orderBy: { createdAt: "desc" },
+    });
+    return row ? this.toEntity(row) : null;
+  }
+
+  async findByProviderChargeId(
+    provider: string,
+    providerChargeId: string,
+  ): Promise<PixCharge | null> {
+    const row = await prisma.pixCharge.findUnique({
+      where: { provider_providerChargeId: { provider, providerChargeId } },
+    });
+    return row ? this.toEntity(row) : null;
+  }
+
+  async create(input: CreatePixChargeInput): Promise<PixCharge> {
+    const row = await prisma.pixCharge.create({ data: input });
+    return this.toEntity(row);
+  }
+
+  async markPaid(id: string, paidAt: Date): Promise<PixCharge | null> {
+    // Conditional update: only the first delivery of a webhook wins
+    const { count } = await prisma.pixCharge.updateMany({
+      where: { id, status: PixChargeStatus.PENDING },
+      data: { status: PixChargeStatus.PAID, paidAt },
+    });
+    if (count === 0) return null;
+    const row = await prisma.pixCharge.findUnique({ where: { id } });
+    return row ? this.toEntity(row) : null;
+  }
+}
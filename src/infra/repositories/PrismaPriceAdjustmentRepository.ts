@@ -0,0 +1,175 @@
+import { prisma } from "@/infra/prisma";
+import { AppError } from "@/shared/errors/AppError";
+import { HttpStatus } from "@/shared/http/statuses";
+import type { IPriceAdjustmentRepository } from "@/domain/product/IPriceAdjustmentRepository";
+import type {
+  PriceAdjustment,
+  PriceAdjustmentMode,
+  PriceAdjustmentScope,
+  PriceRollbackResult,
+  PriceRounding,
+  RecordPriceAdjustmentInput,
+} from "@/domain/product/PriceAdjustment";
+import type {
+  Prisma,
+  PriceAdjustment as PrismaPriceAdjustment,
+  PriceAdjustmentItem as PrismaPriceAdjustmentItem,
+} from "@prisma/client";
+
+const TX_OPTIONS = { timeout: 30_000 };
+
+/**
+ * PrismaPriceAdjustmentRepository — concrete implementation of
+ * IPriceAdjustmentRepository.
+ *
+ * ─ Each price is written with updateMany filtered on its expected current
+ *   value, so a price edited in the meantime is detected without locking:
+ *   apply() fails (AppError CONFLICT, transaction rolled back) and
+ *   rollback() skips it.
+ * ─ Whole-catalog adjustments write hundreds of rows, hence the longer
+ *   transaction timeout.
+ */
+export class PrismaPriceAdjustmentRepository implements IPriceAdjustmentRepository {
+  private toEntity(
+    raw: PrismaPriceAdjustment & { items: PrismaPriceAdjustmentItem[] },
+  ): PriceAdjustment {
+    return {
+      id: raw.id,
+      storeId: raw.storeId,
+      mode: raw.mode as PriceAdjustmentMode,
+      value: Number(raw.value),
+      rounding: raw.rounding as PriceRounding,
+      scope: raw.scope as PriceAdjustmentScope,
+      actorId: raw.actorId,
+      changes: raw.items.map((i) => ({
+        productId: i.productId,
+        variantId: i.variantId,
+        productName: i.productName,
+        variantLabel: i.variantLabel,
+        oldPrice: Number(i.oldPrice),
+        newPrice: Number(i.newPrice),
+      })),
+      rolledBackAt: raw.rolledBackAt,
+      createdAt: raw.createdAt,
+    };
+  }
+
+  /** Sets one price if it still equals `from`. Returns whether it did. */
+  private async setPrice(
+    tx: Prisma.TransactionClient,
+    storeId: string,
+    change: { productId: string; variantId: string | null },
+    from: number,
+    to: number,
+  ): Promise<boolean> {
+    const { count } = change.variantId
+      ? await tx.productVariant.updateMany({
+          where: {
+            id: change.variantId,
+            productId: change.productId,
+            storeId,
+            price: from,
+          },
+          data: { price: to },
+        })
+      : await tx.product.updateMany({
+          where: { id: change.productId, storeId, price: from },
+          data: { price: to },
+        });
+    return count === 1;
+  }
+
+  async apply(input: RecordPriceAdjustmentInput): Promise<PriceAdjustment> {
+    return prisma.$transaction(async (tx) => {
+      for (const change of input.changes) {
+        const updated = await this.setPrice(
+          tx,
+          input.storeId,
+          change,
+          change.oldPrice,
+          change.newPrice,
+        );
+        if (!updated) {
+          throw new AppError(
+            `The price of "${change.productName}" changed since the preview. Preview again.`,
+            HttpStatus.CONFLICT,
+          );
+        }
+      }
+
+      const row = await tx.priceAdjustment.create({
+        data: {
+          storeId: input.storeId,
+          mode: input.mode,
+          value: input.value,
+          rounding: input.rounding,
+          scope: input.scope,
+          actorId: input.actorId,
+          items: {
+            create: input.changes.map((c) => ({
+              productId: c.productId,
+              variantId: c.variantId,
+              productName: c.productName,
+              variantLabel: c.variantLabel,
+              oldPrice: c.oldPrice,
+              newPrice: c.newPrice,
+            })),
+          },
+        },
+        include: { items: true },
+      });
+      return this.toEntity(row);
+    }, TX_OPTIONS);
+  }
+
+  async findAllByStore(
+    storeId: string,
+    limit: number,
+  ): Promise<PriceAdjustment[]> {
+    const rows = await prisma.priceAdjustment.findMany({
+      where: { storeId },
+      orderBy: { createdAt: "desc" },
+      take: limit,
+      include: { items: true },
+    });
+    return rows.map((r) => this.toEntity(r));
+  }
+
+  async findById(id: string, storeId: string): Promise<PriceAdjustment | null> {
+    const row = await prisma.priceAdjustment.findFirst({
+      where: { id, storeId },
+      include: { items: true },
+    });
+    return row ? this.toEntity(row) : null;
+  }
+
+  async rollback(
+    id: string,
+    storeId: string,
+  ): Promise<PriceRollbackResult | null> {
+    return prisma.$transaction(async (tx) => {
+      // Claims the rollback first so two concurrent ones cannot both run
+      const { count } = await tx.priceAdjustment.updateMany({
+        where: { id, storeId, rolledBackAt: null },
+        data: { rolledBackAt: new Date() },
+      });
+      if (count === 0) return null;
+
+      const items = await tx.priceAdjustmentItem.findMany({
+        where: { adjustmentId: id },
+      });
+      let restored = 0;
+      for (const item of items) {
+        const done = await this.setPrice(
+          tx,
+          storeId,
+          item,
+          Number(item.newPrice),
+          Number(item.oldPrice),
+        );
+        if (done) restored++;
+      }
+      return { restored, skipped: items.length - restored };
+    }, TX_OPTIONS);
+  }
+}
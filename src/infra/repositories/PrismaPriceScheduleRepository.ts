@@ -0,0 +1,80 @@
+import { prisma } from "@/infra/prisma";
+import type { IPriceScheduleRepository } from "@/domain/product/IPriceScheduleRepository";
+import type {
+  CreatePriceScheduleInput,
+  PriceSchedule,
+  PriceScheduleSettlement,
+} from "@/domain/product/PriceSchedule";
+import { toPriceSchedule } from "./priceScheduleColumns";
+
+const TX_OPTIONS = { timeout: 30_000 };
+
+/**
+ * PrismaPriceScheduleRepository — concrete implementation of
+ * IPriceScheduleRepository.
+ *
+ * settleDue() applies due CHANGEs oldest first, so when several are due for
+ * one price the latest wins — the same one reads resolve to.
+ */
+export class PrismaPriceScheduleRepository implements IPriceScheduleRepository {
+  async create(input: CreatePriceScheduleInput): Promise<PriceSchedule> {
+    const row = await prisma.productPriceSchedule.create({
+      data: {
+        storeId: input.storeId,
+        productId: input.productId,
+        variantId: input.variantId,
+        kind: input.kind,
+        price: input.price,
+        startsAt: input.startsAt,
+        endsAt: input.endsAt,
+      },
+    });
+    return toPriceSchedule(row);
+  }
+
+  async delete(
+    id: string,
+    productId: string,
+    storeId: string,
+  ): Promise<boolean> {
+    const { count } = await prisma.productPriceSchedule.deleteMany({
+      where: { id, productId, storeId, settledAt: null },
+    });
+    return count === 1;
+  }
+
+  async settleDue(now: Date): Promise<PriceScheduleSettlement> {
+    return prisma.$transaction(async (tx) => {
+      const due = await tx.productPriceSchedule.findMany({
+        where: { kind: "CHANGE", settledAt: null, startsAt: { lte: now } },
+        orderBy: { startsAt: "asc" },
+      });
+      for (const change of due) {
+        if (change.variantId) {
+          await tx.productVariant.updateMany({
+            where: { id: change.variantId, productId: change.productId },
+            data: { price: change.price },
+          });
+        } else {
+          // Skipped if the product has since moved to variant pricing
+          await tx.product.updateMany({
+            where: { id: change.productId, price: { not: null } },
+            data: { price: change.price },
+          });
+        }
+      }
+      if (due.length > 0) {
+        await tx.productPriceSchedule.updateMany({
+          where: { id: { in: due.map((c) => c.id) } },
+          data: { settledAt: now },
+        });
+      }
+
+      const { count: expired } = await tx.productPriceSchedule.updateMany({
+        where: { kind: "PROMO", settledAt: null, endsAt: { lte: now } },
+        data: { settledAt: now },
+      });
+      return { applied: due.length, expired };
+    }, TX_OPTIONS);
+  }
+}
@@ -70,6 +70,16 @@ export class PrismaProductCategoryRepository implements IProductCategoryReposito
     return rows.map((r) => r.category);
   }
 
+  async findAssignmentsByStore(
+    storeId: string,
+  ): Promise<{ productId: string; categoryId: string }[]> {
+    return prisma.productCategory.findMany({
+      where: { storeId },
+      select: { productId: true, categoryId: true },
+      orderBy: { category: { position: "asc" } },
+    });
+  }
+
   async reorderProducts(
     categoryId: string,
     storeId: string,
@@ -11,10 +11,28 @@ import type {
   WeightUnit,
 } from "@/domain/product/Product";
 import type { ProductImage } from "@/domain/productImage/ProductImage";
+import type {
+  CreateOptionGroupInput,
+  ProductOptionGroup,
+  ProductOptionGroupType,
+} from "@/domain/product/ProductOption";
+import {
+  AVAILABILITY_SELECT,
+  availabilityData,
+  toAvailabilityRule,
+} from "./availabilityColumns";
+import { mergeAvailability } from "@/domain/product/ProductAvailability";
+import {
+  PENDING_PRICE_SCHEDULES,
+  toPriceSchedule,
+} from "./priceScheduleColumns";
 import type {
   Product as PrismaProduct,
   ProductVariant as PrismaVariant,
   ProductImage as PrismaImage,
+  ProductOptionGroup as PrismaOptionGroup,
+  ProductOption as PrismaOption,
+  ProductPriceSchedule as PrismaPriceSchedule,
 } from "@prisma/client";
 
 /**
@@ -26,16 +44,24 @@ import type {
  * Multi-tenancy: every query includes storeId so cross-store access is
  * structurally impossible.
  *
- * All Product reads include their variants (via Prisma `include`) so
- * higher layers always receive a complete entity.
+ * All Product reads include their variants, option groups and pending
+ * price schedules (via Prisma `include`) so higher layers always receive a
+ * complete entity.
  */
 
 // ─────────────────── Prisma include shapes ────────────────────────────────
 
+const OPTION_GROUPS = {
+  orderBy: { sortOrder: "asc" as const },
+  include: { options: { orderBy: { sortOrder: "asc" as const } } },
+};
+
 /** Used for list queries — loads only the main image (position = 1). */
 const WITH_VARIANTS_AND_MAIN_IMAGE = {
   include: {
     variants: { orderBy: { sortOrder: "asc" as const } },
+    optionGroups: OPTION_GROUPS,
+    priceSchedules: PENDING_PRICE_SCHEDULES,
     images: {
       where: { position: 1 },
       orderBy: { position: "asc" as const },
@@ -47,6 +73,8 @@ const WITH_VARIANTS_AND_MAIN_IMAGE = {
 const WITH_VARIANTS_AND_ALL_IMAGES = {
   include: {
     variants: { orderBy: { sortOrder: "asc" as const } },
+    optionGroups: OPTION_GROUPS,
+    priceSchedules: PENDING_PRICE_SCHEDULES,
     images: { orderBy: { position: "asc" as const } },
   },
 } as const;
@@ -57,9 +85,31 @@ const WITH_VARIANTS = WITH_VARIANTS_AND_MAIN_IMAGE;
 
 type PrismaProductWithImages = PrismaProduct & {
   variants: PrismaVariant[];
+  optionGroups: (PrismaOptionGroup & { options: PrismaOption[] })[];
+  priceSchedules: PrismaPriceSchedule[];
   images: PrismaImage[];
 };
 
+/** Nested-create payload for a product's option groups. */
+function optionGroupsData(storeId: string, groups: CreateOptionGroupInput[]) {
+  return groups.map((g, i) => ({
+    storeId,
+    name: g.name,
+    type: g.type,
+    minSelections: g.minSelections,
+    maxSelections: g.maxSelections,
+    sortOrder: i,
+    options: {
+      create: g.options.map((o, j) => ({
+        label: o.label,
+        price: o.price,
+        maxQuantity: o.maxQuantity ?? 1,
+        sortOrder: j,
+      })),
+    },
+  }));
+}
+
 export class PrismaProductRepository implements IProductRepository {
   //  Mapping
 
@@ -84,6 +134,10 @@ export class PrismaProductRepository implements IProductRepository {
       pricingType: raw.pricingType as PricingType,
       weightValue: raw.weightValue !== null ? Number(raw.weightValue) : null,
       weightUnit: (raw.weightUnit as WeightUnit | null) ?? null,
+      weightStep: raw.weightStep !== null ? Number(raw.weightStep) : null,
+      dailyCapacity: raw.dailyCapacity,
+      stockOnHand: raw.stockOnHand,
+      stockReserved: raw.stockReserved,
       isActive: raw.isActive,
       sortOrder: raw.sortOrder,
       createdAt: raw.createdAt,
@@ -91,18 +145,48 @@ export class PrismaProductRepository implements IProductRepository {
     };
   }
 
+  private toOptionGroupEntity(
+    raw: PrismaOptionGroup & { options: PrismaOption[] },
+  ): ProductOptionGroup {
+    return {
+      id: raw.id,
+      productId: raw.productId,
+      storeId: raw.storeId,
+      name: raw.name,
+      type: raw.type as ProductOptionGroupType,
+      minSelections: raw.minSelections,
+      maxSelections: raw.maxSelections,
+      sortOrder: raw.sortOrder,
+      options: raw.options.map((o) => ({
+        id: o.id,
+        groupId: o.groupId,
+        label: o.label,
+        price: Number(o.price),
+        maxQuantity: o.maxQuantity,
+        sortOrder: o.sortOrder,
+      })),
+    };
+  }
+
   private toEntity(raw: PrismaProductWithImages): Product {
     return {
       id: raw.id,
       storeId: raw.storeId,
+      sku: raw.sku,
       name: raw.name,
       description: raw.description,
       price: raw.price !== null ? Number(raw.price) : null,
       minQuantity: raw.minQuantity,
+      dailyCapacity: raw.dailyCapacity,
+      stockOnHand: raw.stockOnHand,
+      stockReserved: raw.stockReserved,
+      availability: toAvailabilityRule(raw),
       isActive: raw.isActive,
       createdAt: raw.createdAt,
       updatedAt: raw.updatedAt,
       variants: raw.variants.map((v) => this.toVariantEntity(v)),
+      optionGroups: raw.optionGroups.map((g) => this.toOptionGroupEntity(g)),
+      priceSchedules: raw.priceSchedules.map(toPriceSchedule),
       images: raw.images.map((img) => this.toImageEntity(img)),
     };
   }
@@ -126,16 +210,50 @@ export class PrismaProductRepository implements IProductRepository {
     return row ? this.toEntity(row) : null;
   }
 
+  async findAvailability(
+    ids: string[],
+    storeId: string,
+  ): Promise<Pick<Product, "id" | "name" | "availability">[]> {
+    const rows = await prisma.product.findMany({
+      where: { id: { in: ids }, storeId },
+      select: {
+        id: true,
+        name: true,
+        ...AVAILABILITY_SELECT,
+        categories: { select: { category: { select: AVAILABILITY_SELECT } } },
+      },
+    });
+    return rows.map((row) => ({
+      id: row.id,
+      name: row.name,
+      availability: mergeAvailability(
+        toAvailabilityRule(row),
+        row.categories.map((c) => toAvailabilityRule(c.category)),
+      ),
+    }));
+  }
+
+  async findBySku(sku: string, storeId: string): Promise<Product | null> {
+    const row = await prisma.product.findUnique({
+      where: { storeId_sku: { storeId, sku } },
+      ...WITH_VARIANTS,
+    });
+    return row ? this.toEntity(row) : null;
+  }
+
   //  Product writes
 
   async create(input: CreateProductInput): Promise<Product> {
     const row = await prisma.product.create({
       data: {
         storeId: input.storeId,
+        sku: input.sku ?? null,
         name: input.name,
         description: input.description ?? null,
         price: input.price ?? null,
         minQuantity: input.minQuantity ?? 1,
+        dailyCapacity: input.dailyCapacity ?? null,
+        ...(input.availability && availabilityData(input.availability)),
         isActive: input.isActive ?? true,
         variants: input.variants?.length
           ? {
@@ -148,11 +266,17 @@ export class PrismaProductRepository implements IProductRepository {
                   v.pricingType === "WEIGHT" ? (v.weightValue ?? null) : null,
                 weightUnit:
                   v.pricingType === "WEIGHT" ? (v.weightUnit ?? null) : null,
+                weightStep:
+                  v.pricingType === "WEIGHT" ? (v.weightStep ?? null) : null,
+                dailyCapacity: v.dailyCapacity ?? null,
                 isActive: v.isActive ?? true,
                 sortOrder: v.sortOrder ?? i,
               })),
             }
           : undefined,
+        optionGroups: input.optionGroups?.length
+          ? { create: optionGroupsData(input.storeId, input.optionGroups) }
+          : undefined,
       },
       ...WITH_VARIANTS,
     });
@@ -168,6 +292,7 @@ export class PrismaProductRepository implements IProductRepository {
       const row = await prisma.product.update({
         where: { id, storeId },
         data: {
+          ...(input.sku !== undefined && { sku: input.sku }),
           ...(input.name !== undefined && { name: input.name }),
           ...(input.description !== undefined && {
             description: input.description,
@@ -176,6 +301,10 @@ export class PrismaProductRepository implements IProductRepository {
           ...(input.minQuantity !== undefined && {
             minQuantity: input.minQuantity,
           }),
+          ...(input.dailyCapacity !== undefined && {
+            dailyCapacity: input.dailyCapacity,
+          }),
+          ...(input.availability && availabilityData(input.availability)),
           ...(input.isActive !== undefined && { isActive: input.isActive }),
         },
         ...WITH_VARIANTS,
@@ -213,6 +342,9 @@ export class PrismaProductRepository implements IProductRepository {
           input.pricingType === "WEIGHT" ? (input.weightValue ?? null) : null,
         weightUnit:
           input.pricingType === "WEIGHT" ? (input.weightUnit ?? null) : null,
+        weightStep:
+          input.pricingType === "WEIGHT" ? (input.weightStep ?? null) : null,
+        dailyCapacity: input.dailyCapacity ?? null,
         isActive: input.isActive ?? true,
         sortOrder: input.sortOrder ?? 0,
       },
@@ -240,6 +372,12 @@ export class PrismaProductRepository implements IProductRepository {
           ...(input.weightUnit !== undefined && {
             weightUnit: input.weightUnit,
           }),
+          ...(input.weightStep !== undefined && {
+            weightStep: input.weightStep,
+          }),
+          ...(input.dailyCapacity !== undefined && {
+            dailyCapacity: input.dailyCapacity,
+          }),
           ...(input.isActive !== undefined && { isActive: input.isActive }),
           ...(input.sortOrder !== undefined && { sortOrder: input.sortOrder }),
         },
@@ -271,24 +409,75 @@ export class PrismaProductRepository implements IProductRepository {
     });
     if (!exists) return null;
 
+    // Variants are matched by label and updated in place, so their ids —
+    // and the stock, order lines and history attached to them — survive a
+    // product form save.  Unmatched variants are removed, new ones created.
+    await prisma.$transaction(async (tx) => {
+      const current = await tx.productVariant.findMany({
+        where: { productId, storeId },
+        select: { id: true, label: true },
+      });
+      const unmatched = [...current];
+
+      for (const [i, v] of variants.entries()) {
+        const data = {
+          label: v.label,
+          price: v.price,
+          pricingType: v.pricingType,
+          weightValue:
+            v.pricingType === "WEIGHT" ? (v.weightValue ?? null) : null,
+          weightUnit:
+            v.pricingType === "WEIGHT" ? (v.weightUnit ?? null) : null,
+          weightStep:
+            v.pricingType === "WEIGHT" ? (v.weightStep ?? null) : null,
+          dailyCapacity: v.dailyCapacity ?? null,
+          isActive: v.isActive ?? true,
+          sortOrder: v.sortOrder ?? i,
+        };
+        const match = unmatched.findIndex((c) => c.label === v.label);
+        if (match === -1) {
+          await tx.productVariant.create({
+            data: { ...data, productId, storeId },
+          });
+        } else {
+          const [existing] = unmatched.splice(match, 1);
+          await tx.productVariant.update({
+            where: { id: existing.id },
+            data,
+          });
+        }
+      }
+
+      if (unmatched.length > 0) {
+        await tx.productVariant.deleteMany({
+          where: { id: { in: unmatched.map((c) => c.id) } },
+        });
+      }
+    });
+
+    const row = await prisma.product.findFirst({
+      where: { id: productId, storeId },
+      ...WITH_VARIANTS,
+    });
+    return row ? this.toEntity(row) : null;
+  }
+
+  async replaceOptionGroups(
+    productId: string,
+    storeId: string,
+    groups: CreateOptionGroupInput[],
+  ): Promise<Product | null> {
+    const exists = await prisma.product.findFirst({
+      where: { id: productId, storeId },
+      select: { id: true },
+    });
+    if (!exists) return null;
+
+    // Options are removed with their group (ON DELETE CASCADE)
     await prisma.$transaction([
-      prisma.productVariant.deleteMany({ where: { productId, storeId } }),
-      ...variants.map((v, i) =>
-        prisma.productVariant.create({
-          data: {
-            productId,
-            storeId,
-            label: v.label,
-            price: v.price,
-            pricingType: v.pricingType,
-            weightValue:
-              v.pricingType === "WEIGHT" ? (v.weightValue ?? null) : null,
-            weightUnit:
-              v.pricingType === "WEIGHT" ? (v.weightUnit ?? null) : null,
-            isActive: v.isActive ?? true,
-            sortOrder: v.sortOrder ?? i,
-          },
-        }),
+      prisma.productOptionGroup.deleteMany({ where: { productId, storeId } }),
+      ...optionGroupsData(storeId, groups).map((data) =>
+        prisma.productOptionGroup.create({ data: { ...data, productId } }),
       ),
     ]);
 
@@ -0,0 +1,173 @@
+import { Prisma } from "@prisma/client";
+import type {
+  Admin as PrismaAdmin,
+  StaffInvite as PrismaStaffInvite,
+} from "@prisma/client";
+import { prisma } from "@/infra/prisma";
+import type { IStaffRepository } from "@/domain/auth/IStaffRepository";
+import type {
+  CreateStaffInviteInput,
+  StaffInvite,
+  StaffInviteDetails,
+  StaffMember,
+} from "@/domain/auth/Staff";
+import type { StaffRole } from "@/domain/auth/StaffRole";
+import { AppError } from "@/shared/errors/AppError";
+import { HttpStatus } from "@/shared/http/statuses";
+
+const MEMBER_COLUMNS = {
+  id: true,
+  storeId: true,
+  email: true,
+  role: true,
+  createdAt: true,
+} as const;
+
+/**
+ * PrismaStaffRepository
+ *
+ * Implements IStaffRepository using Prisma.  Store users are `admins` rows;
+ * accepting an invite creates one and stamps the invite in one transaction.
+ */
+export class PrismaStaffRepository implements IStaffRepository {
+  async listMembers(storeId: string): Promise<StaffMember[]> {
+    const rows = await prisma.admin.findMany({
+      where: { storeId },
+      orderBy: { createdAt: "asc" },
+      select: MEMBER_COLUMNS,
+    });
+    return rows.map(toMember);
+  }
+
+  async findMember(id: string, storeId: string): Promise<StaffMember | null> {
+    const row = await prisma.admin.findFirst({
+      where: { id, storeId },
+      select: MEMBER_COLUMNS,
+    });
+    return row ? toMember(row) : null;
+  }
+
+  async updateRole(
+    id: string,
+    storeId: string,
+    role: StaffRole,
+  ): Promise<boolean> {
+    const { count } = await prisma.admin.updateMany({
+      where: { id, storeId },
+      data: { role },
+    });
+    return count > 0;
+  }
+
+  async deleteMember(id: string, storeId: string): Promise<boolean> {
+    const { count } = await prisma.admin.deleteMany({
+      where: { id, storeId },
+    });
+    return count > 0;
+  }
+
+  async isEmailTaken(email: string): Promise<boolean> {
+    const row = await prisma.admin.findUnique({
+      where: { email },
+      select: { id: true },
+    });
+    return row !== null;
+  }
+
+  async listPendingInvites(storeId: string, now: Date): Promise<StaffInvite[]> {
+    const rows = await prisma.staffInvite.findMany({
+      where: { storeId, acceptedAt: null, expiresAt: { gt: now } },
+      orderBy: { createdAt: "desc" },
+    });
+    return rows.map(toInvite);
+  }
+
+  async createInvite(input: CreateStaffInviteInput): Promise<StaffInvite> {
+    const row = await prisma.staffInvite.create({ data: input });
+    return toInvite(row);
+  }
+
+  async findInviteByTokenHash(
+    tokenHash: string,
+  ): Promise<StaffInviteDetails | null> {
+    const row = await prisma.staffInvite.findUnique({
+      where: { tokenHash },
+      include: { store: { select: { name: true } } },
+    });
+    return row ? { ...toInvite(row), storeName: row.store.name } : null;
+  }
+
+  async deleteInvite(id: string, storeId: string): Promise<boolean> {
+    const { count } = await prisma.staffInvite.deleteMany({
+      where: { id, storeId, acceptedAt: null },
+    });
+    return count > 0;
+  }
+
+  async acceptInvite(
+    inviteId: string,
+    passwordHash: string,
+  ): Promise<StaffMember | null> {
+    try {
+      return await prisma.$transaction(async (tx) => {
+        // Claims the invite first — a second submit finds nothing to claim
+        const { count } = await tx.staffInvite.updateMany({
+          where: { id: inviteId, acceptedAt: null },
+          data: { acceptedAt: new Date() },
+        });
+        if (count === 0) return null;
+
+        const invite = await tx.staffInvite.findUniqueOrThrow({
+          where: { id: inviteId },
+        });
+        const admin = await tx.admin.create({
+          data: {
+            email: invite.email,
+            passwordHash,
+            storeId: invite.storeId,
+            role: invite.role,
+          },
+          select: MEMBER_COLUMNS,
+        });
+        return toMember(admin);
+      });
+    } catch (err) {
+      if (
+        err instanceof Prisma.PrismaClientKnownRequestError &&
+        err.code === "P2002"
+      ) {
+        throw new AppError(
+          "Este e-mail já tem acesso a uma loja.",
+          HttpStatus.CONFLICT,
+        );
+      }
+      throw err;
+    }
+  }
+}
+
+// ─── Mappers ──────────────────────────────────────────────────────────────────
+
+function toMember(
+  raw: Pick<PrismaAdmin, keyof typeof MEMBER_COLUMNS>,
+): StaffMember {
+  return {
+    id: raw.id,
+    storeId: raw.storeId,
+    email: raw.email,
+    role: raw.role as StaffRole,
+    createdAt: raw.createdAt,
+  };
+}
+
+function toInvite(raw: PrismaStaffInvite): StaffInvite {
+  return {
+    id: raw.id,
+    storeId: raw.storeId,
+    email: raw.email,
+    role: raw.role as StaffRole,
+    expiresAt: raw.expiresAt,
+    acceptedAt: raw.acceptedAt,
+    createdAt: raw.createdAt,
+  };
+}
@@ -0,0 +1,129 @@
+import { prisma } from "@/infra/prisma";
+import { AppError } from "@/shared/errors/AppError";
+import { HttpStatus } from "@/shared/http/statuses";
+import type { IStockRepository } from "@/domain/product/IStockRepository";
+import {
+  StockMovementType,
+  type AdjustStockInput,
+  type StockMovement,
+} from "@/domain/product/ProductStock";
+
+const WITH_REFS = {
+  include: {
+    variant: { select: { label: true } },
+    order: { select: { orderNumber: true } },
+    actor: { select: { email: true } },
+  },
+} as const;
+
+/**
+ * PrismaStockRepository — concrete implementation of IStockRepository.
+ *
+ * ─ adjust() locks the counter row (SELECT … FOR UPDATE) so a concurrent
+ *   reservation cannot slip between the reserved check and the write.
+ * ─ A count below the reserved units becomes AppError(CONFLICT).
+ * ─ Reservations, releases and consumptions are written by stockLedger on
+ *   behalf of PrismaOrderRepository; this repository only reads them.
+ */
+export class PrismaStockRepository implements IStockRepository {
+  private toEntity(raw: {
+    id: string;
+    storeId: string;
+    productId: string;
+    variantId: string | null;
+    orderId: string | null;
+    type: string;
+    quantity: number;
+    onHandAfter: number | null;
+    reservedAfter: number;
+    reason: string | null;
+    actorId: string | null;
+    createdAt: Date;
+    variant: { label: string } | null;
+    order: { orderNumber: number | null } | null;
+    actor: { email: string } | null;
+  }): StockMovement {
+    return {
+      id: raw.id,
+      storeId: raw.storeId,
+      productId: raw.productId,
+      variantId: raw.variantId,
+      variantLabel: raw.variant?.label ?? null,
+      orderId: raw.orderId,
+      orderNumber: raw.order?.orderNumber ?? null,
+      type: raw.type as StockMovementType,
+      quantity: raw.quantity,
+      onHandAfter: raw.onHandAfter,
+      reservedAfter: raw.reservedAfter,
+      reason: raw.reason,
+      actorId: raw.actorId,
+      actorEmail: raw.actor?.email ?? null,
+      createdAt: raw.createdAt,
+    };
+  }
+
+  async adjust(input: AdjustStockInput): Promise<StockMovement | null> {
+    const { storeId, productId, variantId, stockOnHand } = input;
+
+    return prisma.$transaction(async (tx) => {
+      const [current] = variantId
+        ? await tx.$queryRaw<
+            { stockOnHand: number | null; stockReserved: number }[]
+          >`
+            SELECT "stockOnHand", "stockReserved" FROM "product_variants"
+            WHERE "id" = ${variantId} AND "productId" = ${productId} AND "storeId" = ${storeId}
+            FOR UPDATE`
+        : await tx.$queryRaw<
+            { stockOnHand: number | null; stockReserved: number }[]
+          >`
+            SELECT "stockOnHand", "stockReserved" FROM "products"
+            WHERE "id" = ${productId} AND "storeId" = ${storeId}
+            FOR UPDATE`;
+      if (!current) return null;
+
+      if (stockOnHand !== null && stockOnHand < current.stockReserved) {
+        throw new AppError(
+          `Stock cannot be lower than the ${current.stockReserved} unit(s) reserved by open orders.`,
+          HttpStatus.CONFLICT,
+        );
+      }
+
+      // stockReserved is left alone: open orders still hold their units and
+      // give them back when settled, even if tracking stops meanwhile.
+      const data = { stockOnHand };
+      const updated = variantId
+        ? await tx.productVariant.update({ where: { id: variantId }, data })
+        : await tx.product.update({ where: { id: productId }, data });
+
+      const movement = await tx.stockMovement.create({
+        data: {
+          storeId,
+          productId,
+          variantId,
+          type: StockMovementType.ADJUSTMENT,
+          quantity: (stockOnHand ?? 0) - (current.stockOnHand ?? 0),
+          onHandAfter: updated.stockOnHand,
+          reservedAfter: updated.stockReserved,
+          reason: input.reason,
+          actorId: input.actorId,
+        },
+        ...WITH_REFS,
+      });
+      return this.toEntity(movement);
+    });
+  }
+
+  async findMovementsByProduct(
+    productId: string,
+    storeId: string,
+    limit: number,
+  ): Promise<StockMovement[]> {
+    const rows = await prisma.stockMovement.findMany({
+      where: { productId, storeId },
+      orderBy: { createdAt: "desc" },
+      take: limit,
+      ...WITH_REFS,
+    });
+    return rows.map((r) => this.toEntity(r));
+  }
+}
@@ -1,17 +1,23 @@
 import { prisma } from "@/infra/prisma";
 import type { IStoreMessageRepository } from "@/domain/store/IStoreMessageRepository";
-import type { StoreMessageConfig } from "@/domain/store/StoreMessageConfig";
+import type {
+  StoreMessageConfig,
+  StoreMessageTemplates,
+} from "@/domain/store/StoreMessageConfig";
 
 export class PrismaStoreMessageRepository implements IStoreMessageRepository {
-  private toEntity(raw: {
-    storeId: string;
-    approvalMessage: string | null;
-    rejectionMessage: string | null;
-  }): StoreMessageConfig {
+  private toEntity(raw: StoreMessageConfig): StoreMessageConfig {
     return {
       storeId: raw.storeId,
+      receivedMessage: raw.receivedMessage,
       approvalMessage: raw.approvalMessage,
       rejectionMessage: raw.rejectionMessage,
+      paidMessage: raw.paidMessage,
+      readyForPickupMessage: raw.readyForPickupMessage,
+      outForDeliveryMessage: raw.outForDeliveryMessage,
+      deliveredMessage: raw.deliveredMessage,
+      cancelledMessage: raw.cancelledMessage,
+      reminderMessage: raw.reminderMessage,
     };
   }
 
@@ -23,17 +29,12 @@ export class PrismaStoreMessageRepository implements IStoreMessageRepository {
   }
 
   async upsert(config: StoreMessageConfig): Promise<StoreMessageConfig> {
+    const { storeId, ...templates } = config;
+    const data: StoreMessageTemplates = templates;
     const row = await prisma.storeMessageConfig.upsert({
-      where: { storeId: config.storeId },
-      create: {
-        storeId: config.storeId,
-        approvalMessage: config.approvalMessage,
-        rejectionMessage: config.rejectionMessage,
-      },
-      update: {
-        approvalMessage: config.approvalMessage,
-        rejectionMessage: config.rejectionMessage,
-      },
+      where: { storeId },
+      create: { storeId, ...data },
+      update: data,
     });
     return this.toEntity(row);
   }
@@ -17,6 +17,13 @@ import type {
 import { AppError } from "@/shared/errors/AppError";
 import { HttpStatus } from "@/shared/http/statuses";
 
+/** Relation query for the store owner's email, shown to the super admin. */
+const OWNER_EMAIL = {
+  where: { role: "OWNER" as const },
+  select: { email: true },
+  take: 1,
+};
+
 /**
  * PrismaStoreRepository
  *
@@ -206,6 +213,57 @@ export class PrismaStoreRepository implements IStoreRepository {
     });
   }
 
+  async findDailyCapacity(storeId: string): Promise<number | null> {
+    const store = await prisma.store.findUnique({
+      where: { id: storeId },
+      select: { dailyCapacity: true },
+    });
+    return store?.dailyCapacity ?? null;
+  }
+
+  async updateDailyCapacity(
+    storeId: string,
+    capacity: number | null,
+  ): Promise<void> {
+    await prisma.store.update({
+      where: { id: storeId },
+      data: { dailyCapacity: capacity },
+    });
+  }
+
+  async findPixKey(storeId: string): Promise<string | null> {
+    const store = await prisma.store.findUnique({
+      where: { id: storeId },
+      select: { pixKey: true },
+    });
+    return store?.pixKey ?? null;
+  }
+
+  async updatePixKey(storeId: string, pixKey: string | null): Promise<void> {
+    await prisma.store.update({
+      where: { id: storeId },
+      data: { pixKey },
+    });
+  }
+
+  async findDepositPercentage(storeId: string): Promise<number | null> {
+    const store = await prisma.store.findUnique({
+      where: { id: storeId },
+      select: { depositPercentage: true },
+    });
+    return store?.depositPercentage ?? null;
+  }
+
+  async updateDepositPercentage(
+    storeId: string,
+    percentage: number | null,
+  ): Promise<void> {
+    await prisma.store.update({
+      where: { id: storeId },
+      data: { depositPercentage: percentage },
+    });
+  }
+
   // ─── Super-admin-scoped methods ───────────────────────────────────────────────
 
   async listAll(filters: ListStoresFilter): Promise<PaginatedStores> {
@@ -233,7 +291,7 @@ export class PrismaStoreRepository implements IStoreRepository {
           status: true,
           isActive: true,
           createdAt: true,
-          admin: { select: { email: true } },
+          admins: OWNER_EMAIL,
         },
       }),
       prisma.store.count({ where }),
@@ -248,7 +306,7 @@ export class PrismaStoreRepository implements IStoreRepository {
         status: r.status as StoreStatus,
         isActive: r.isActive,
         createdAt: r.createdAt,
-        adminEmail: r.admin?.email ?? null,
+        adminEmail: r.admins[0]?.email ?? null,
       })),
       total,
       page,
@@ -267,7 +325,7 @@ export class PrismaStoreRepository implements IStoreRepository {
         status: true,
         isActive: true,
         createdAt: true,
-        admin: { select: { email: true } },
+        admins: OWNER_EMAIL,
       },
     });
     if (!row) return null;
@@ -279,7 +337,7 @@ export class PrismaStoreRepository implements IStoreRepository {
       status: row.status as StoreStatus,
       isActive: row.isActive,
       createdAt: row.createdAt,
-      adminEmail: row.admin?.email ?? null,
+      adminEmail: row.admins[0]?.email ?? null,
     };
   }
 
@@ -36,4 +36,8 @@ export class PrismaSuperAdminRepository implements ISuperAdminRepository {
     });
     return row ?? null;
   }
+
+  async updatePasswordHash(id: string, passwordHash: string): Promise<void> {
+    await prisma.superAdmin.update({ where: { id }, data: { passwordHash } });
+  }
 }
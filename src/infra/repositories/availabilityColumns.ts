@@ -0,0 +1,51 @@
+import type { AvailabilityRule } from "@/domain/product/ProductAvailability";
+
+/**
+ * availabilityColumns — maps an AvailabilityRule to and from the columns
+ * products and categories share (availableWeekdays, availableFrom,
+ * availableUntil, leadTimeDays).
+ *
+ * The date columns are DATE: Prisma reads them as midnight UTC, and the
+ * domain works with YYYY-MM-DD strings.
+ */
+
+interface AvailabilityRow {
+  availableWeekdays: number[];
+  availableFrom: Date | null;
+  availableUntil: Date | null;
+  leadTimeDays: number | null;
+}
+
+function toDateString(value: Date | null): string | null {
+  return value ? value.toISOString().slice(0, 10) : null;
+}
+
+function toDateColumn(value: string | null): Date | null {
+  return value ? new Date(`${value}T00:00:00Z`) : null;
+}
+
+/** Columns to select wherever a rule is read. */
+export const AVAILABILITY_SELECT = {
+  availableWeekdays: true,
+  availableFrom: true,
+  availableUntil: true,
+  leadTimeDays: true,
+} as const;
+
+export function toAvailabilityRule(row: AvailabilityRow): AvailabilityRule {
+  return {
+    availableWeekdays: row.availableWeekdays,
+    availableFrom: toDateString(row.availableFrom),
+    availableUntil: toDateString(row.availableUntil),
+    leadTimeDays: row.leadTimeDays,
+  };
+}
+
+export function availabilityData(rule: AvailabilityRule): AvailabilityRow {
+  return {
+    availableWeekdays: [...rule.availableWeekdays].sort((a, b) => a - b),
+    availableFrom: toDateColumn(rule.availableFrom),
+    availableUntil: toDateColumn(rule.availableUntil),
+    leadTimeDays: rule.leadTimeDays,
+  };
+}
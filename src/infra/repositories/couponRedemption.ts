@@ -0,0 +1,73 @@
+import { Prisma } from "@prisma/client";
+import { OrderStatus } from "@/domain/order/Order";
+import { AppError } from "@/shared/errors/AppError";
+import { HttpStatus } from "@/shared/http/statuses";
+import { couponRejectionMessage } from "@/application/coupon/ApplyCouponUseCase";
+
+/**
+ * couponRedemption — enforces a coupon's usage limits when an order
+ * redeems it.
+ *
+ * Called by PrismaOrderRepository inside the transaction that creates the
+ * order.  The coupon row is locked first, so two checkouts racing for the
+ * last use are counted one after the other and only one of them commits.
+ */
+
+/** Orders that count as a redemption — a rejected order gives the use back. */
+export const REDEEMING_ORDERS = {
+  status: { not: OrderStatus.REJECTED },
+} as const;
+
+/**
+ * Locks the coupon and re-counts its redemptions, before the new order is
+ * created.
+ *
+ * @throws AppError(UNPROCESSABLE_ENTITY) when the total or per-customer
+ *         limit is already reached — the caller's transaction rolls back
+ *         with it.
+ */
+export async function assertCouponRedeemable(
+  tx: Prisma.TransactionClient,
+  couponId: string,
+  customerWhatsapp: string,
+): Promise<void> {
+  const [limits] = await tx.$queryRaw<
+    { maxUses: number | null; maxUsesPerCustomer: number | null }[]
+  >`
+    SELECT "maxUses", "maxUsesPerCustomer"
+    FROM "coupons"
+    WHERE "id" = ${couponId}
+    FOR UPDATE`;
+  if (!limits) return;
+
+  const [totalUses, customerUses] = await Promise.all([
+    limits.maxUses !== null
+      ? tx.order.count({ where: { couponId, ...REDEEMING_ORDERS } })
+      : 0,
+    limits.maxUsesPerCustomer !== null
+      ? tx.order.count({
+          where: {
+            couponId,
+            ...REDEEMING_ORDERS,
+            customer: { whatsapp: customerWhatsapp },
+          },
+        })
+      : 0,
+  ]);
+
+  if (limits.maxUses !== null && totalUses >= limits.maxUses) {
+    throw new AppError(
+      couponRejectionMessage("USAGE_LIMIT"),
+      HttpStatus.UNPROCESSABLE_ENTITY,
+    );
+  }
+  if (
+    limits.maxUsesPerCustomer !== null &&
+    customerUses >= limits.maxUsesPerCustomer
+  ) {
+    throw new AppError(
+      couponRejectionMessage("CUSTOMER_LIMIT"),
+      HttpStatus.UNPROCESSABLE_ENTITY,
+    );
+  }
+}
@@ -0,0 +1,111 @@
+import { Prisma } from "@prisma/client";
+import {
+  OrderStatus,
+  OrderTrackingStatus,
+  type PlaceOrderRecord,
+} from "@/domain/order/Order";
+import {
+  canSlotFit,
+  computeSlotAvailability,
+  type PickupSlotUsage,
+} from "@/domain/pickupSlot/StorePickupSlot";
+import { AppError } from "@/shared/errors/AppError";
+import { HttpStatus } from "@/shared/http/statuses";
+import { slotFullMessage } from "@/application/order/orderHelpers";
+
+/**
+ * pickupSlotCapacity — pickup slot bookings, read and enforced.
+ *
+ * The slot row is locked before its bookings are counted at placement, so
+ * two customers racing for a slot's last place are counted one after the
+ * other and only one of them commits.
+ */
+
+/**
+ * Orders booked per slot and calendar date in the range.  Orders pending
+ * or approved hold their place; cancelled ones give it back.
+ */
+export async function queryPickupSlotUsage(
+  db: Prisma.TransactionClient,
+  storeId: string,
+  range: { from: Date; to: Date; pickupSlotIds?: string[] },
+): Promise<PickupSlotUsage[]> {
+  const rows = await db.order.findMany({
+    where: {
+      storeId,
+      pickupSlotId: range.pickupSlotIds
+        ? { in: range.pickupSlotIds }
+        : { not: null },
+      deliveryDate: { gte: range.from, lte: range.to },
+      status: { in: [OrderStatus.PENDING, OrderStatus.APPROVED] },
+      OR: [
+        { orderStatus: null },
+        { orderStatus: { not: OrderTrackingStatus.CANCELLED } },
+      ],
+    },
+    select: {
+      pickupSlotId: true,
+      deliveryDate: true,
+      items: { select: { quantity: true } },
+    },
+  });
+
+  // Aggregate in memory — one entry per slot + calendar date
+  const usage = new Map<string, PickupSlotUsage>();
+  for (const row of rows) {
+    const date = row.deliveryDate.toISOString().slice(0, 10);
+    const key = `${row.pickupSlotId}::${date}`;
+    const units = row.items.reduce((sum, item) => sum + item.quantity, 0);
+    const entry = usage.get(key);
+    if (entry) {
+      entry.orderCount += 1;
+      entry.itemUnits += units;
+    } else {
+      usage.set(key, {
+        pickupSlotId: row.pickupSlotId!,
+        date,
+        orderCount: 1,
+        itemUnits: units,
+      });
+    }
+  }
+
+  return Array.from(usage.values());
+}
+
+/**
+ * Locks the order's pickup slot and re-counts its bookings for the date,
+ * before the new order is created.  Orders without a slot pass.
+ *
+ * @throws AppError(CONFLICT) when the slot can no longer take the order —
+ *         the caller's transaction rolls back with it.
+ */
+export async function assertPickupSlotFits(
+  tx: Prisma.TransactionClient,
+  record: PlaceOrderRecord,
+): Promise<void> {
+  const { storeId, pickupSlotId, deliveryDate } = record.order;
+  if (!pickupSlotId) return;
+
+  await tx.$queryRaw`
+    SELECT "id" FROM "store_pickup_slots"
+    WHERE "id" = ${pickupSlotId}
+    FOR UPDATE`;
+  const slot = await tx.storePickupSlot.findFirst({
+    where: { id: pickupSlotId, storeId },
+  });
+  if (!slot || (slot.maxOrders === null && slot.maxItems === null)) return;
+
+  const date = deliveryDate.toISOString().slice(0, 10);
+  const [usage] = await queryPickupSlotUsage(tx, storeId, {
+    from: new Date(`${date}T00:00:00.000Z`),
+    to: new Date(`${date}T23:59:59.999Z`),
+    pickupSlotIds: [pickupSlotId],
+  });
+  const availability = computeSlotAvailability(slot, usage, date);
+  const itemUnits = record.items.reduce((sum, item) => sum + item.quantity, 0);
+
+  if (!canSlotFit(availability, itemUnits)) {
+    throw new AppError(slotFullMessage(availability), HttpStatus.CONFLICT);
+  }
+}
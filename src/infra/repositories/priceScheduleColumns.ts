@@ -0,0 +1,29 @@
+import type {
+  PriceSchedule,
+  PriceScheduleKind,
+} from "@/domain/product/PriceSchedule";
+import type { ProductPriceSchedule as PrismaPriceSchedule } from "@prisma/client";
+
+/**
+ * priceScheduleColumns — reads the scheduled prices loaded with a product,
+ * shared by the product and catalog repositories.
+ */
+
+/** Relation query for the entries still affecting prices. */
+export const PENDING_PRICE_SCHEDULES = {
+  where: { settledAt: null },
+  orderBy: { startsAt: "asc" as const },
+};
+
+export function toPriceSchedule(raw: PrismaPriceSchedule): PriceSchedule {
+  return {
+    id: raw.id,
+    productId: raw.productId,
+    variantId: raw.variantId,
+    kind: raw.kind as PriceScheduleKind,
+    price: Number(raw.price),
+    startsAt: raw.startsAt,
+    endsAt: raw.endsAt,
+    createdAt: raw.createdAt,
+  };
+}
@@ -0,0 +1,106 @@
+import { Prisma } from "@prisma/client";
+import {
+  OrderStatus,
+  type OrderTrackingStatus,
+  type PlaceOrderRecord,
+} from "@/domain/order/Order";
+import {
+  aggregateProductionUsage,
+  computeDailyCapacity,
+  findCapacityShortfall,
+} from "@/domain/production/ProductionCapacity";
+import { AppError } from "@/shared/errors/AppError";
+import { HttpStatus } from "@/shared/http/statuses";
+import { capacityShortfallMessage } from "@/application/order/orderHelpers";
+
+/**
+ * productionCapacity — enforces the daily production limits of the store,
+ * its products and variants when an order is placed.
+ *
+ * Called by PrismaOrderRepository inside the transaction that creates the
+ * order.  When any limit applies, the store row is locked before the day's
+ * orders are counted, so two orders racing for the last units of the day
+ * are counted one after the other and only one of them commits.
+ */
+
+/**
+ * Re-counts the production booked for the order's date, before the new
+ * order is created.  Orders without any limited product pass unlocked.
+ *
+ * @throws AppError(CONFLICT) when the day can no longer take the order —
+ *         the caller's transaction rolls back with it.
+ */
+export async function assertProductionCapacity(
+  tx: Prisma.TransactionClient,
+  record: PlaceOrderRecord,
+): Promise<void> {
+  const { storeId, deliveryDate } = record.order;
+
+  const [store, products] = await Promise.all([
+    tx.store.findUnique({
+      where: { id: storeId },
+      select: { dailyCapacity: true },
+    }),
+    tx.product.findMany({
+      where: {
+        id: { in: [...new Set(record.items.map((item) => item.productId))] },
+        storeId,
+      },
+      select: {
+        id: true,
+        name: true,
+        dailyCapacity: true,
+        variants: { select: { id: true, label: true, dailyCapacity: true } },
+      },
+    }),
+  ]);
+  const storeDailyCapacity = store?.dailyCapacity ?? null;
+  const hasProductionLimit =
+    storeDailyCapacity !== null ||
+    products.some(
+      (p) =>
+        p.dailyCapacity !== null ||
+        p.variants.some((v) => v.dailyCapacity !== null),
+    );
+  if (!hasProductionLimit) return;
+
+  await tx.$queryRaw`
+    SELECT "id" FROM "stores"
+    WHERE "id" = ${storeId}
+    FOR UPDATE`;
+
+  const date = deliveryDate.toISOString().slice(0, 10);
+  const booked = await tx.order.findMany({
+    where: {
+      storeId,
+      deliveryDate: {
+        gte: new Date(`${date}T00:00:00.000Z`),
+        lte: new Date(`${date}T23:59:59.999Z`),
+      },
+      status: { in: [OrderStatus.APPROVED, OrderStatus.PENDING] },
+    },
+    select: {
+      deliveryDate: true,
+      orderStatus: true,
+      items: { select: { productId: true, variantId: true, quantity: true } },
+    },
+  });
+  const capacity = computeDailyCapacity(
+    date,
+    aggregateProductionUsage(
+      booked.map((order) => ({
+        ...order,
+        orderStatus: order.orderStatus as OrderTrackingStatus | null,
+      })),
+    ).get(date),
+    { storeDailyCapacity, products },
+  );
+  const shortfall = findCapacityShortfall(capacity, record.items);
+
+  if (shortfall) {
+    throw new AppError(
+      capacityShortfallMessage(shortfall, products),
+      HttpStatus.CONFLICT,
+    );
+  }
+}
@@ -0,0 +1,209 @@
+import { Prisma } from "@prisma/client";
+import { AppError } from "@/shared/errors/AppError";
+import { HttpStatus } from "@/shared/http/statuses";
+import {
+  StockMovementType,
+  resolveStockTarget,
+  stockTargetKey,
+  type StockTarget,
+} from "@/domain/product/ProductStock";
+import { stockShortfallMessage } from "@/application/order/orderHelpers";
+
+/**
+ * stockLedger — moves order units in and out of product stock.
+ *
+ * Called by PrismaOrderRepository inside the transaction that changes the
+ * order, so stock and orders never disagree.
+ *
+ * ─ Counters are changed with a single conditional UPDATE: two customers
+ *   racing for the last jar cannot both reserve it.
+ * ─ Each change appends a StockMovement.  What an order still holds is
+ *   rebuilt from its movements (RESERVE − RELEASE − CONSUME), so releasing
+ *   twice, or after an edit, gives back exactly what was taken.
+ */
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+interface Counters {
+  stockOnHand: number | null;
+  stockReserved: number;
+}
+
+interface OrderRef {
+  id: string;
+  storeId: string;
+}
+
+/** Raw SQL tables of the two stock counters — constants, never user input. */
+const TABLE = {
+  VARIANT: Prisma.raw(`"product_variants"`),
+  PRODUCT: Prisma.raw(`"products"`),
+};
+
+function targetId(target: StockTarget): string {
+  return target.scope === "VARIANT" ? target.variantId : target.productId;
+}
+
+async function appendMovement(
+  tx: Prisma.TransactionClient,
+  order: OrderRef,
+  target: StockTarget,
+  type: StockMovementType,
+  quantity: number,
+  counters: Counters,
+  actorId: string | null,
+): Promise<void> {
+  await tx.stockMovement.create({
+    data: {
+      storeId: order.storeId,
+      productId: target.productId,
+      variantId: target.scope === "VARIANT" ? target.variantId : null,
+      orderId: order.id,
+      type,
+      quantity,
+      onHandAfter: counters.stockOnHand,
+      reservedAfter: counters.stockReserved,
+      actorId,
+    },
+  });
+}
+
+// ─── Reserve ──────────────────────────────────────────────────────────────────
+
+/**
+ * Reserves the units of an order's lines on the counters they draw from.
+ * Lines of made-to-order products are skipped.
+ *
+ * @throws AppError(CONFLICT) when a counter no longer has enough units —
+ *         the caller's transaction rolls back with it.
+ */
+export async function reserveOrderStock(
+  tx: Prisma.TransactionClient,
+  order: OrderRef,
+  lines: { productId: string; variantId?: string | null; quantity: number }[],
+  actorId: string | null,
+): Promise<void> {
+  const products = await tx.product.findMany({
+    where: {
+      id: { in: [...new Set(lines.map((l) => l.productId))] },
+      storeId: order.storeId,
+    },
+    select: {
+      id: true,
+      name: true,
+      stockOnHand: true,
+      stockReserved: true,
+      variants: {
+        select: {
+          id: true,
+          label: true,
+          stockOnHand: true,
+          stockReserved: true,
+        },
+      },
+    },
+  });
+
+  const requested = new Map<
+    string,
+    { target: StockTarget & { available: number }; units: number }
+  >();
+  for (const line of lines) {
+    const product = products.find((p) => p.id === line.productId);
+    const target = product && resolveStockTarget(product, line.variantId);
+    if (!target) continue;
+    const entry = requested.get(stockTargetKey(target));
+    if (entry) entry.units += line.quantity;
+    else
+      requested.set(stockTargetKey(target), { target, units: line.quantity });
+  }
+
+  for (const { target, units } of requested.values()) {
+    const [counters] = await tx.$queryRaw<Counters[]>`
+      UPDATE ${TABLE[target.scope]}
+      SET "stockReserved" = "stockReserved" + ${units}
+      WHERE "id" = ${targetId(target)}
+        AND "stockOnHand" IS NOT NULL
+        AND "stockOnHand" - "stockReserved" >= ${units}
+      RETURNING "stockOnHand", "stockReserved"`;
+
+    if (!counters) {
+      throw new AppError(
+        stockShortfallMessage(target, products),
+        HttpStatus.CONFLICT,
+      );
+    }
+    await appendMovement(
+      tx,
+      order,
+      target,
+      StockMovementType.RESERVE,
+      units,
+      counters,
+      actorId,
+    );
+  }
+}
+
+// ─── Release / consume ────────────────────────────────────────────────────────
+
+/**
+ * Settles every unit the order still holds: RELEASE gives them back to
+ * sale, CONSUME takes them out of stockOnHand (the order was delivered).
+ * A no-op for orders that hold nothing.
+ */
+export async function settleOrderStock(
+  tx: Prisma.TransactionClient,
+  order: OrderRef,
+  type: StockMovementType.RELEASE | StockMovementType.CONSUME,
+  actorId: string | null,
+): Promise<void> {
+  const movements = await tx.stockMovement.groupBy({
+    by: ["productId", "variantId", "type"],
+    where: { orderId: order.id },
+    _sum: { quantity: true },
+  });
+
+  const held = new Map<string, { target: StockTarget; units: number }>();
+  for (const m of movements) {
+    if (m.type === StockMovementType.ADJUSTMENT) continue;
+    const target: StockTarget = m.variantId
+      ? { scope: "VARIANT", productId: m.productId, variantId: m.variantId }
+      : { scope: "PRODUCT", productId: m.productId };
+    const units =
+      (m._sum.quantity ?? 0) * (m.type === StockMovementType.RESERVE ? 1 : -1);
+    const entry = held.get(stockTargetKey(target));
+    if (entry) entry.units += units;
+    else held.set(stockTargetKey(target), { target, units });
+  }
+
+  for (const { target, units } of held.values()) {
+    if (units <= 0) continue;
+
+    // LEAST keeps both counters >= 0 if the store recounted in between;
+    // a NULL stockOnHand (tracking stopped) stays NULL.
+    const [counters] =
+      type === StockMovementType.CONSUME
+        ? await tx.$queryRaw<Counters[]>`
+            UPDATE ${TABLE[target.scope]}
+            SET "stockOnHand" = "stockOnHand" - LEAST(${units}, "stockOnHand"),
+                "stockReserved" = "stockReserved" - LEAST(${units}, "stockReserved")
+            WHERE "id" = ${targetId(target)}
+            RETURNING "stockOnHand", "stockReserved"`
+        : await tx.$queryRaw<Counters[]>`
+            UPDATE ${TABLE[target.scope]}
+            SET "stockReserved" = "stockReserved" - LEAST(${units}, "stockReserved")
+            WHERE "id" = ${targetId(target)}
+            RETURNING "stockOnHand", "stockReserved"`;
+
+    await appendMovement(
+      tx,
+      order,
+      target,
+      type,
+      units,
+      counters ?? { stockOnHand: null, stockReserved: 0 },
+      actorId,
+    );
+  }
+}
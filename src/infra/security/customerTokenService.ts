@@ -0,0 +1,66 @@
+import { SignJWT, jwtVerify, type JWTPayload } from "jose";
+
+// ─── Config ───────────────────────────────────────────────────────────────────
+
+function getSecret(): Uint8Array {
+  const raw = process.env.CUSTOMER_JWT_SECRET;
+  if (!raw || raw.length < 32) {
+    throw new Error(
+      "CUSTOMER_JWT_SECRET is missing or too short (minimum 32 characters).",
+    );
+  }
+  return new TextEncoder().encode(raw);
+}
+
+const ALGORITHM = "HS256";
+const DEFAULT_EXPIRY = process.env.CUSTOMER_TOKEN_EXPIRY ?? "30d";
+
+// ─── Payload ─────────────────────────────────────────────────────────────────
+
+export interface CustomerSessionClaims {
+  customerId: string;
+  /** Customers are per store — the session only counts in this one. */
+  storeId: string;
+  /** Discriminator — ensures this token is rejected by the other verifiers. */
+  role: "CUSTOMER";
+}
+
+export interface CustomerSessionPayload
+  extends JWTPayload, CustomerSessionClaims {}
+
+// ─── sign / verify ────────────────────────────────────────────────────────────
+
+/**
+ * Signs a JWT for a customer session (catalog login by WhatsApp code).
+ * Uses its own secret, like super admin tokens, so no store-admin or super
+ * admin token is ever accepted as a customer one, nor the reverse.
+ */
+export async function signCustomerToken(
+  claims: CustomerSessionClaims,
+): Promise<string> {
+  return new SignJWT({ ...claims })
+    .setProtectedHeader({ alg: ALGORITHM })
+    .setIssuedAt()
+    .setExpirationTime(DEFAULT_EXPIRY)
+    .sign(getSecret());
+}
+
+/**
+ * Verifies and decodes a customer JWT.
+ * Throws if the token is expired, tampered, or not a customer token.
+ */
+export async function verifyCustomerToken(
+  token: string,
+): Promise<CustomerSessionPayload> {
+  const { payload } = await jwtVerify(token, getSecret(), {
+    algorithms: [ALGORITHM],
+  });
+  if (
+    payload.role !== "CUSTOMER" ||
+    typeof payload.customerId !== "string" ||
+    typeof payload.storeId !== "string"
+  ) {
+    throw new Error("Not a customer session token.");
+  }
+  return payload as CustomerSessionPayload;
+}
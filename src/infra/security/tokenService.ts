@@ -1,4 +1,6 @@
 import { SignJWT, jwtVerify, type JWTPayload } from "jose";
+import { isStaffRole } from "@/domain/auth/StaffRole";
+import type { SessionClaims } from "@/domain/auth/AuthSession";
 
 // ─── Config ───────────────────────────────────────────────────────────────────
 
@@ -17,19 +19,21 @@ const DEFAULT_EXPIRY = process.env.AUTH_TOKEN_EXPIRY ?? "15m";
 
 // ─── Payload ─────────────────────────────────────────────────────────────────
 
-export interface SessionPayload extends JWTPayload {
-  adminId: string;
-  storeId: string;
-}
+/**
+ * adminId, storeId, the role — which decides what the user may do, see
+ * domain/auth/StaffRole — and the server-side session the token belongs to.
+ */
+export interface SessionPayload extends JWTPayload, SessionClaims {}
 
 // ─── sign / verify ────────────────────────────────────────────────────────────
 
 /**
- * Signs a short-lived JWT containing only adminId and storeId.
- * No PII, no roles, no sensitive data embedded in the token.
+ * Signs a short-lived JWT containing only the session claims.
+ * No PII, no sensitive data embedded in the token.  Expiry is renewed
+ * through the session's refresh token (see proxy.ts).
  */
-export async function signToken(payload: SessionPayload): Promise<string> {
-  return new SignJWT(payload)
+export async function signToken(payload: SessionClaims): Promise<string> {
+  return new SignJWT({ ...payload })
     .setProtectedHeader({ alg: ALGORITHM })
     .setIssuedAt()
     .setExpirationTime(DEFAULT_EXPIRY)
@@ -38,11 +42,19 @@ export async function signToken(payload: SessionPayload): Promise<string> {
 
 /**
  * Verifies and decodes a JWT.
- * Throws if the token is expired, tampered or uses a wrong algorithm.
+ * Throws if the token is expired, tampered, uses a wrong algorithm or
+ * lacks a valid role or session id (tokens signed before roles or
+ * sessions existed).
  */
 export async function verifyToken(token: string): Promise<SessionPayload> {
   const { payload } = await jwtVerify(token, getSecret(), {
     algorithms: [ALGORITHM],
   });
+  if (!isStaffRole(payload.role)) {
+    throw new Error("Session token has no valid role.");
+  }
+  if (typeof payload.sessionId !== "string") {
+    throw new Error("Session token has no session id.");
+  }
   return payload as SessionPayload;
 }
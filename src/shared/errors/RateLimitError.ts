@@ -0,0 +1,19 @@
+import { HttpStatus } from "@/shared/http/statuses";
+import { AppError } from "./AppError";
+
+/**
+ * AppError for a request over its rate limit (429).
+ * errorResponse() turns `retryAfterSeconds` into the Retry-After header.
+ *
+ * @example
+ * throw new RateLimitError("Muitas tentativas. Tente novamente em instantes.", 60);
+ */
+export class RateLimitError extends AppError {
+  public readonly retryAfterSeconds: number;
+
+  constructor(message: string, retryAfterSeconds: number) {
+    super(message, HttpStatus.TOO_MANY_REQUESTS);
+    this.name = "RateLimitError";
+    this.retryAfterSeconds = Math.max(1, Math.ceil(retryAfterSeconds));
+  }
+}
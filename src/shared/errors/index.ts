@@ -1 +1,2 @@
 export { AppError } from "./AppError";
+export { RateLimitError } from "./RateLimitError";
@@ -1,5 +1,6 @@
 import { NextResponse } from "next/server";
 import { AppError } from "@/shared/errors/AppError";
+import { RateLimitError } from "@/shared/errors/RateLimitError";
 import { HttpStatus } from "@/shared/http/statuses";
 
 // ─── Response shapes ─────────────────────────────────────────────────────────
@@ -46,7 +47,8 @@ export function noContent() {
 
 /**
  * Returns an error response.
- * Automatically extracts status code from AppError instances.
+ * Automatically extracts status code from AppError instances, and sends
+ * Retry-After with the 429 of a RateLimitError.
  *
  * @example
  * return errorResponse(new AppError("Not found", HttpStatus.NOT_FOUND));
@@ -63,8 +65,12 @@ export function errorResponse(
     success: false,
     error: { message },
   };
+  const headers =
+    err instanceof RateLimitError
+      ? { "Retry-After": String(err.retryAfterSeconds) }
+      : undefined;
 
-  return NextResponse.json(body, { status });
+  return NextResponse.json(body, { status, headers });
 }
 
 /**
@@ -8,5 +8,7 @@ export enum HttpStatus {
   NOT_FOUND = 404,
   CONFLICT = 409,
   UNPROCESSABLE_ENTITY = 422,
+  TOO_MANY_REQUESTS = 429,
   INTERNAL_SERVER_ERROR = 500,
+  BAD_GATEWAY = 502,
 }
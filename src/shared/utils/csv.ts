@@ -0,0 +1,108 @@
+/**
+ * CSV reading and writing (RFC 4180).
+ *
+ * parseCsv accepts what spreadsheets save: a UTF-8 BOM, CRLF or LF line
+ * ends, quoted cells with "" escapes and line breaks, and ";" as the
+ * separator (Excel in pt-BR) when the header has no ",".
+ *
+ * toCsv prefixes cells a spreadsheet would run as a formula (starting with
+ * =, +, -, @, tab or carriage return) with "'"; parseCsv drops that prefix
+ * again, so an exported file imports unchanged.
+ *
+ * Examples:
+ *   parseCsv('sku,name\nB1,"Bolo, grande"')
+ *     → [{ line: 1, cells: ["sku", "name"] }, { line: 2, cells: ["B1", "Bolo, grande"] }]
+ *   toCsv([["sku", "name"], ["B1", 'Bolo "24cm"']])
+ *     → 'sku,name\r\nB1,"Bolo ""24cm"""\r\n'
+ *   toCsv([["=SUM(A1)"]])
+ *     → "'=SUM(A1)\r\n"
+ */
+
+/**
+ * First characters that make a spreadsheet evaluate the cell.  Cells that
+ * are already "'"-prefixed get one more, so the prefix round-trips.
+ */
+const FORMULA_START = /^'*[=+\-@\t\r]/;
+
+export interface CsvRow {
+  /** 1-based line of the file the row starts on — for error messages. */
+  line: number;
+  cells: string[];
+}
+
+/** Parses CSV text into rows of cells. Blank lines are skipped. */
+export function parseCsv(text: string): CsvRow[] {
+  const input = text.replace(/^\uFEFF/, "");
+  const firstLine = input.split(/\r?\n/, 1)[0];
+  const separator =
+    !firstLine.includes(",") && firstLine.includes(";") ? ";" : ",";
+
+  const rows: CsvRow[] = [];
+  let cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+
+  const endRow = () => {
+    cells.push(unescapeFormula(cell));
+    if (cells.some((c) => c.trim() !== "")) rows.push({ line: rowLine, cells });
+    cells = [];
+    cell = "";
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (ch === "\n") line++;
+    if (quoted) {
+      if (ch === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"' && cell === "") {
+      quoted = true;
+    } else if (ch === separator) {
+      cells.push(unescapeFormula(cell));
+      cell = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && input[i + 1] === "\n") {
+        i++;
+        line++;
+      }
+      endRow();
+      rowLine = line;
+    } else {
+      cell += ch;
+    }
+  }
+  endRow();
+
+  return rows;
+}
+
+/** Drops the "'" toCsv puts before a formula-like cell. */
+function unescapeFormula(cell: string): string {
+  return cell.startsWith("'") && FORMULA_START.test(cell.slice(1))
+    ? cell.slice(1)
+    : cell;
+}
+
+/**
+ * Serialises rows as CSV, quoting cells that need it.  Formula-like cells
+ * get a "'" prefix so spreadsheets show them as text.
+ */
+export function toCsv(rows: string[][]): string {
+  return rows
+    .map((r) =>
+      r
+        .map((c) => (FORMULA_START.test(c) ? `'${c}` : c))
+        .map((c) => (/[",;\r\n]/.test(c) ? `"${c.replace(/"/g, '""')}"` : c))
+        .join(","),
+    )
+    .map((row) => `${row}\r\n`)
+    .join("");
+}